@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "AssignmentQuestion" ADD COLUMN     "numericConfig" JSONB;
+
+-- AlterTable
+ALTER TABLE "SubmissionAnswer" ADD COLUMN     "autoGradeDetail" JSONB;
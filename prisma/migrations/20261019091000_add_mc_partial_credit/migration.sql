@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "AssignmentQuestion" ADD COLUMN     "mcConfig" JSONB;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "AssignmentQuestion" ADD COLUMN     "answerFormula" TEXT,
+ADD COLUMN     "parameters" JSONB;
+
+-- AlterTable
+ALTER TABLE "Submission" ADD COLUMN     "seed" INTEGER;
+
+-- AlterTable
+ALTER TABLE "SubmissionAnswer" ADD COLUMN     "parameterValues" JSONB;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "AssignmentQuestion" ADD COLUMN     "rubricScoring" TEXT NOT NULL DEFAULT 'positive';
+
+-- AlterTable
+ALTER TABLE "Rubric" ADD COLUMN     "order" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "RubricApplication" (
+    "id" TEXT NOT NULL,
+    "rubricId" TEXT NOT NULL,
+    "submissionAnswerId" TEXT NOT NULL,
+    "appliedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RubricApplication_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Rubric_questionId_idx" ON "Rubric"("questionId");
+
+-- CreateIndex
+CREATE INDEX "RubricApplication_submissionAnswerId_idx" ON "RubricApplication"("submissionAnswerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RubricApplication_rubricId_submissionAnswerId_key" ON "RubricApplication"("rubricId", "submissionAnswerId");
+
+-- AddForeignKey
+ALTER TABLE "RubricApplication" ADD CONSTRAINT "RubricApplication_rubricId_fkey" FOREIGN KEY ("rubricId") REFERENCES "Rubric"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RubricApplication" ADD CONSTRAINT "RubricApplication_submissionAnswerId_fkey" FOREIGN KEY ("submissionAnswerId") REFERENCES "SubmissionAnswer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "CourseRole" AS ENUM ('STUDENT', 'TA', 'PROFESSOR');
+
+-- AlterTable
+ALTER TABLE "Course" ADD COLUMN     "code" TEXT,
+ADD COLUMN     "isArchived" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Notification" ADD COLUMN     "courseId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Enrollment" (
+    "id" TEXT NOT NULL,
+    "courseId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "CourseRole" NOT NULL DEFAULT 'STUDENT',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Enrollment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Enrollment_userId_idx" ON "Enrollment"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Enrollment_courseId_userId_key" ON "Enrollment"("courseId", "userId");
+
+-- CreateIndex
+CREATE INDEX "Assignment_courseId_idx" ON "Assignment"("courseId");
+
+-- CreateIndex
+CREATE INDEX "Notification_courseId_idx" ON "Notification"("courseId");
+
+-- AddForeignKey
+ALTER TABLE "Enrollment" ADD CONSTRAINT "Enrollment_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "Course"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Enrollment" ADD CONSTRAINT "Enrollment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Notification" ADD CONSTRAINT "Notification_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "Course"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: existing deployments get one default course holding every
+-- assignment, with all non-admin users enrolled under their global role.
+INSERT INTO "Course" ("id", "name", "semester", "createdAt")
+SELECT 'default-course', 'General Physics', 'Default', CURRENT_TIMESTAMP
+WHERE EXISTS (SELECT 1 FROM "Assignment" WHERE "courseId" IS NULL);
+
+UPDATE "Assignment" SET "courseId" = 'default-course'
+WHERE "courseId" IS NULL AND EXISTS (SELECT 1 FROM "Course" WHERE "id" = 'default-course');
+
+INSERT INTO "Enrollment" ("id", "courseId", "userId", "role", "createdAt")
+SELECT 'enr_' || u."id", 'default-course', u."id",
+       (CASE u."role" WHEN 'STUDENT' THEN 'STUDENT' WHEN 'TA' THEN 'TA' ELSE 'PROFESSOR' END)::"CourseRole",
+       CURRENT_TIMESTAMP
+FROM "User" u
+WHERE u."isDeleted" = false AND u."role" <> 'ADMIN'
+  AND EXISTS (SELECT 1 FROM "Course" WHERE "id" = 'default-course');
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "inviteTokenHash" TEXT,
+ADD COLUMN     "inviteExpiresAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Enrollment" ADD COLUMN     "droppedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_inviteTokenHash_key" ON "User"("inviteTokenHash");
@@ -0,0 +1,56 @@
+-- AlterTable
+ALTER TABLE "Course" ADD COLUMN     "letterScale" JSONB;
+
+-- AlterTable
+ALTER TABLE "Assignment" ADD COLUMN     "categoryId" TEXT;
+
+-- CreateTable
+CREATE TABLE "GradeCategory" (
+    "id" TEXT NOT NULL,
+    "courseId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "weight" DOUBLE PRECISION NOT NULL,
+    "dropLowest" INTEGER NOT NULL DEFAULT 0,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GradeCategory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GradeOverride" (
+    "id" TEXT NOT NULL,
+    "assignmentId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "score" DOUBLE PRECISION,
+    "excused" BOOLEAN NOT NULL DEFAULT false,
+    "note" TEXT,
+    "updatedById" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GradeOverride_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "GradeCategory_courseId_idx" ON "GradeCategory"("courseId");
+
+-- CreateIndex
+CREATE INDEX "GradeOverride_userId_idx" ON "GradeOverride"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GradeOverride_assignmentId_userId_key" ON "GradeOverride"("assignmentId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "GradeCategory" ADD CONSTRAINT "GradeCategory_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "Course"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Assignment" ADD CONSTRAINT "Assignment_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "GradeCategory"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GradeOverride" ADD CONSTRAINT "GradeOverride_assignmentId_fkey" FOREIGN KEY ("assignmentId") REFERENCES "Assignment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GradeOverride" ADD CONSTRAINT "GradeOverride_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GradeOverride" ADD CONSTRAINT "GradeOverride_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "Assignment" ADD COLUMN     "latePolicy" JSONB;
+
+-- AlterTable
+ALTER TABLE "Submission" ADD COLUMN     "lateMinutes" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "latePenalty" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "DueDateExtension" (
+    "id" TEXT NOT NULL,
+    "assignmentId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT,
+    "grantedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DueDateExtension_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DueDateExtension_userId_idx" ON "DueDateExtension"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DueDateExtension_assignmentId_userId_key" ON "DueDateExtension"("assignmentId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "DueDateExtension" ADD CONSTRAINT "DueDateExtension_assignmentId_fkey" FOREIGN KEY ("assignmentId") REFERENCES "Assignment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DueDateExtension" ADD CONSTRAINT "DueDateExtension_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DueDateExtension" ADD CONSTRAINT "DueDateExtension_grantedById_fkey" FOREIGN KEY ("grantedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Assignment" ADD COLUMN     "maxAttempts" INTEGER,
+ADD COLUMN     "attemptScoring" TEXT NOT NULL DEFAULT 'latest';
+
+-- Locked assignments allow exactly one attempt
+UPDATE "Assignment" SET "maxAttempts" = 1 WHERE "lockAfterSubmit" = true;
+
+-- AlterTable
+ALTER TABLE "Assignment" DROP COLUMN "lockAfterSubmit";
+
+-- AlterTable
+ALTER TABLE "Submission" ADD COLUMN     "attempt" INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Assignment" ADD COLUMN     "timeLimitMinutes" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Submission" ADD COLUMN     "startedAt" TIMESTAMP(3),
+ADD COLUMN     "overtimeSeconds" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "DueDateExtension" ALTER COLUMN "dueDate" DROP NOT NULL,
+ADD COLUMN     "extraMinutes" INTEGER NOT NULL DEFAULT 0;
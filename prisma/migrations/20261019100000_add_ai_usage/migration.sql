@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "AIConfig" ADD COLUMN     "softBudgetUsd" DOUBLE PRECISION,
+ADD COLUMN     "hardBudgetUsd" DOUBLE PRECISION,
+ADD COLUMN     "userSoftBudgetUsd" DOUBLE PRECISION,
+ADD COLUMN     "userHardBudgetUsd" DOUBLE PRECISION,
+ADD COLUMN     "priceTable" JSONB;
+
+-- CreateTable
+CREATE TABLE "AIUsage" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "courseId" TEXT,
+    "feature" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "inputTokens" INTEGER NOT NULL DEFAULT 0,
+    "outputTokens" INTEGER NOT NULL DEFAULT 0,
+    "reasoningTokens" INTEGER NOT NULL DEFAULT 0,
+    "costUsd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "messageId" TEXT,
+    "jobId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AIUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AIUsage_messageId_key" ON "AIUsage"("messageId");
+
+-- CreateIndex
+CREATE INDEX "AIUsage_createdAt_idx" ON "AIUsage"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "AIUsage_userId_createdAt_idx" ON "AIUsage"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AIUsage_courseId_createdAt_idx" ON "AIUsage"("courseId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "AIUsage" ADD CONSTRAINT "AIUsage_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AIUsage" ADD CONSTRAINT "AIUsage_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "Message"("id") ON DELETE SET NULL ON UPDATE CASCADE;
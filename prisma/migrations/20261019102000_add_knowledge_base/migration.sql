@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "KnowledgeDocumentStatus" AS ENUM ('PROCESSING', 'READY', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN "citations" JSONB;
+
+-- CreateTable
+CREATE TABLE "KnowledgeDocument" (
+    "id" TEXT NOT NULL,
+    "courseId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "kind" TEXT NOT NULL DEFAULT 'notes',
+    "filename" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "fileUrl" TEXT,
+    "status" "KnowledgeDocumentStatus" NOT NULL DEFAULT 'PROCESSING',
+    "error" TEXT,
+    "pageCount" INTEGER,
+    "chunkCount" INTEGER NOT NULL DEFAULT 0,
+    "embeddingModel" TEXT,
+    "uploadedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "KnowledgeDocument_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "KnowledgeChunk" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "courseId" TEXT NOT NULL,
+    "ordinal" INTEGER NOT NULL,
+    "page" INTEGER,
+    "heading" TEXT,
+    "section" TEXT,
+    "content" TEXT NOT NULL,
+    "embedding" DOUBLE PRECISION[],
+
+    CONSTRAINT "KnowledgeChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "KnowledgeDocument_courseId_status_idx" ON "KnowledgeDocument"("courseId", "status");
+
+-- CreateIndex
+CREATE INDEX "KnowledgeChunk_courseId_idx" ON "KnowledgeChunk"("courseId");
+
+-- CreateIndex
+CREATE INDEX "KnowledgeChunk_documentId_ordinal_idx" ON "KnowledgeChunk"("documentId", "ordinal");
+
+-- AddForeignKey
+ALTER TABLE "KnowledgeDocument" ADD CONSTRAINT "KnowledgeDocument_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "Course"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "KnowledgeDocument" ADD CONSTRAINT "KnowledgeDocument_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "KnowledgeChunk" ADD CONSTRAINT "KnowledgeChunk_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "KnowledgeDocument"("id") ON DELETE CASCADE ON UPDATE CASCADE;
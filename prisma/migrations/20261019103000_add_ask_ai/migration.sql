@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Assignment" ADD COLUMN     "allowAskAI" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN     "assignmentId" TEXT,
+ADD COLUMN     "questionContext" JSONB;
+
+-- CreateIndex
+CREATE INDEX "Conversation_assignmentId_idx" ON "Conversation"("assignmentId");
+
+-- AddForeignKey
+ALTER TABLE "Conversation" ADD CONSTRAINT "Conversation_assignmentId_fkey" FOREIGN KEY ("assignmentId") REFERENCES "Assignment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
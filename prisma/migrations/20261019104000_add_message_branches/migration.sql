@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN     "activeLeafId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "parentId" TEXT;
+
+-- Existing conversations are a single branch: each message follows the one before it
+UPDATE "Message" AS m
+SET "parentId" = p."prevId"
+FROM (
+  SELECT "id", LAG("id") OVER (PARTITION BY "conversationId" ORDER BY "createdAt", "id") AS "prevId"
+  FROM "Message"
+) AS p
+WHERE m."id" = p."id";
+
+UPDATE "Conversation" AS c
+SET "activeLeafId" = l."id"
+FROM (
+  SELECT DISTINCT ON ("conversationId") "conversationId", "id"
+  FROM "Message"
+  ORDER BY "conversationId", "createdAt" DESC, "id" DESC
+) AS l
+WHERE c."id" = l."conversationId";
+
+-- CreateIndex
+CREATE INDEX "Message_parentId_idx" ON "Message"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "Message" ADD CONSTRAINT "Message_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Message"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "MessageStatus" AS ENUM ('STREAMING', 'COMPLETE', 'INTERRUPTED');
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "status" "MessageStatus" NOT NULL DEFAULT 'COMPLETE',
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
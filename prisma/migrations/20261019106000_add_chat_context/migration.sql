@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "pinned" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "contextSummary" TEXT,
+ADD COLUMN     "contextLog" JSONB;
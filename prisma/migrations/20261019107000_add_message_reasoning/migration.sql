@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "reasoning" TEXT,
+ADD COLUMN     "sources" JSONB;
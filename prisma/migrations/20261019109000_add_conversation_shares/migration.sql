@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "authorId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ConversationShare" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "messageId" TEXT,
+    "escalatedAt" TIMESTAMP(3),
+    "note" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedById" TEXT,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ConversationShare_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ConversationShare_token_key" ON "ConversationShare"("token");
+
+-- CreateIndex
+CREATE INDEX "ConversationShare_conversationId_idx" ON "ConversationShare"("conversationId");
+
+-- CreateIndex
+CREATE INDEX "ConversationShare_escalatedAt_resolvedAt_idx" ON "ConversationShare"("escalatedAt", "resolvedAt");
+
+-- AddForeignKey
+ALTER TABLE "Message" ADD CONSTRAINT "Message_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConversationShare" ADD CONSTRAINT "ConversationShare_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConversationShare" ADD CONSTRAINT "ConversationShare_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConversationShare" ADD CONSTRAINT "ConversationShare_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
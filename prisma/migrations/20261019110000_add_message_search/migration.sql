@@ -0,0 +1,4 @@
+-- Full-text search over chat messages (chat-search-service). An expression
+-- index, which the Prisma schema cannot describe: queries must use the same
+-- to_tsvector('english', "content") expression to hit it.
+CREATE INDEX "Message_content_search_idx" ON "Message" USING GIN (to_tsvector('english', "content"));
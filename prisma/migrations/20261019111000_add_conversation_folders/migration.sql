@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "folderId" TEXT,
+ADD COLUMN     "pinnedAt" TIMESTAMP(3),
+ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "ConversationFolder" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ConversationFolder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Conversation_folderId_idx" ON "Conversation"("folderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ConversationFolder_userId_name_key" ON "ConversationFolder"("userId", "name");
+
+-- AddForeignKey
+ALTER TABLE "Conversation" ADD CONSTRAINT "Conversation_folderId_fkey" FOREIGN KEY ("folderId") REFERENCES "ConversationFolder"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConversationFolder" ADD CONSTRAINT "ConversationFolder_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- Substring search over chat messages (chat-search-service) for what the
+-- full-text parser cannot split, such as `v^2` or Chinese. A trigram index
+-- serves `"content" ILIKE '%...%'`, so that half of the search is indexed too.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE INDEX "Message_content_trgm_idx" ON "Message" USING GIN ("content" gin_trgm_ops);
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { signIn } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
@@ -20,6 +20,27 @@ export default function RegisterPage() {
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
   const [shakeError, setShakeError] = useState(false);
+  // Invitation token from a roster import; the email and student ID are fixed
+  const [inviteToken, setInviteToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get("invite");
+    if (!token) return;
+    setInviteToken(token);
+    fetch(`/api/auth/register?invite=${encodeURIComponent(token)}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) {
+          setError(data.error || "This invitation link is invalid or has expired");
+          setInviteToken(null);
+          return;
+        }
+        setName(data.name || "");
+        setEmail(data.email);
+        setStudentId(data.studentId || "");
+      })
+      .catch(() => setInviteToken(null));
+  }, []);
 
   const triggerError = (message: string) => {
     setError(message);
@@ -52,7 +73,7 @@ export default function RegisterPage() {
       const res = await fetch("/api/auth/register", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ name, email, password, studentId }),
+        body: JSON.stringify({ name, email, password, studentId, inviteToken }),
       });
 
       const data = await res.json();
@@ -95,10 +116,12 @@ export default function RegisterPage() {
           {/* Header */}
           <div className="text-center mb-6">
             <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
-              Create an account
+              {inviteToken ? "Activate your account" : "Create an account"}
             </h2>
             <p className="text-gray-500 dark:text-gray-400 mt-1 text-sm">
-              Join PhysTutor and start mastering physics
+              {inviteToken
+                ? "Your course enrolled you in PhysTutor. Choose a password to sign in."
+                : "Join PhysTutor and start mastering physics"}
             </p>
           </div>
 
@@ -176,6 +199,7 @@ export default function RegisterPage() {
                   placeholder="e.g. 112012345"
                   value={studentId}
                   onChange={(e) => setStudentId(e.target.value)}
+                  readOnly={!!inviteToken}
                   className={`pl-10 h-11 rounded-lg border-gray-200 dark:border-gray-700 focus-visible:ring-1 focus-visible:ring-gray-300 dark:focus-visible:ring-gray-600 focus-visible:border-gray-300 dark:focus-visible:border-gray-600 text-sm ${error && error.toLowerCase().includes("student") ? "border-red-300 dark:border-red-700" : ""}`}
                   required
                 />
@@ -194,6 +218,7 @@ export default function RegisterPage() {
                   placeholder="you@example.com"
                   value={email}
                   onChange={(e) => setEmail(e.target.value)}
+                  readOnly={!!inviteToken}
                   className={`pl-10 h-11 rounded-lg border-gray-200 dark:border-gray-700 focus-visible:ring-1 focus-visible:ring-gray-300 dark:focus-visible:ring-gray-600 focus-visible:border-gray-300 dark:focus-visible:border-gray-600 text-sm ${error && error.toLowerCase().includes("email") ? "border-red-300 dark:border-red-700" : ""}`}
                   required
                 />
@@ -244,7 +269,7 @@ export default function RegisterPage() {
               {loading ? (
                 <Loader2 className="h-4 w-4 animate-spin mr-2" />
               ) : null}
-              Create Account
+              {inviteToken ? "Activate Account" : "Create Account"}
               {!loading && <ArrowRight className="h-4 w-4 ml-2" />}
             </Button>
           </form>
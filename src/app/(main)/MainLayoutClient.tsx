@@ -6,7 +6,7 @@ import { EyeOff } from "lucide-react";
 import Sidebar from "@/components/layout/Sidebar";
 import Topbar from "@/components/layout/Topbar";
 import { EffectiveSessionProvider } from "@/lib/effective-session-context";
-import type { UserRole } from "@/types";
+import type { CourseSummary, UserRole } from "@/types";
 
 interface MainLayoutClientProps {
   children: React.ReactNode;
@@ -17,6 +17,8 @@ interface MainLayoutClientProps {
   userId: string;
   isImpersonating?: boolean;
   realAdminName?: string;
+  courses: CourseSummary[];
+  activeCourseId: string | null;
 }
 
 export default function MainLayoutClient({
@@ -28,6 +30,8 @@ export default function MainLayoutClient({
   userId,
   isImpersonating,
   realAdminName,
+  courses,
+  activeCourseId,
 }: MainLayoutClientProps) {
   const router = useRouter();
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
@@ -84,6 +88,8 @@ export default function MainLayoutClient({
       <Sidebar
         userRole={userRole}
         userName={userName}
+        courses={courses}
+        activeCourseId={activeCourseId}
         collapsed={sidebarCollapsed}
         onToggleCollapse={toggleSidebar}
         mobileOpen={mobileSidebarOpen}
@@ -100,6 +106,8 @@ export default function MainLayoutClient({
           userEmail={userEmail}
           userImage={userImage}
           userRole={userRole}
+          courses={courses}
+          activeCourseId={activeCourseId}
           onMobileMenuToggle={() => setMobileSidebarOpen((prev) => !prev)}
         />
         <main id="main-content" className="flex-1 p-3 sm:p-6 bg-gray-50/50 dark:bg-gray-950 overflow-auto">
@@ -3,6 +3,7 @@
 import React, { useEffect, useState } from "react";
 import { Loader2, Users, MessageSquare, Mail, FileText } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { AISpendDashboard } from "@/components/admin/AISpendDashboard";
 import {
   BarChart,
   Bar,
@@ -223,6 +224,8 @@ export default function AdminAnalyticsPage() {
           </CardContent>
         </Card>
       </div>
+
+      <AISpendDashboard />
     </div>
   );
 }
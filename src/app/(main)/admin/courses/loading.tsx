@@ -0,0 +1,9 @@
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+
+export default function CoursesLoading() {
+  return (
+    <div className="flex items-center justify-center min-h-[60vh]">
+      <LoadingSpinner message="Loading courses..." />
+    </div>
+  );
+}
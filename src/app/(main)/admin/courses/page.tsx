@@ -0,0 +1,556 @@
+"use client";
+
+import React, { useEffect, useState, useCallback } from "react";
+import {
+  BookOpen,
+  Plus,
+  Pencil,
+  Archive,
+  ArchiveRestore,
+  RefreshCw,
+  Loader2,
+  Users,
+  Trash2,
+  UserPlus,
+  FileSpreadsheet,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { EmptyState } from "@/components/ui/empty-state";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { RosterImportDialog } from "@/components/admin/RosterImportDialog";
+import type { CourseListItem, CourseRole, EnrollmentItem } from "@/types";
+
+const COURSE_ROLES: { value: CourseRole; label: string }[] = [
+  { value: "STUDENT", label: "Student" },
+  { value: "TA", label: "TA" },
+  { value: "PROFESSOR", label: "Professor" },
+];
+
+const SELECT_CLASS =
+  "rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1.5 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+async function errorMessage(res: Response, fallback: string): Promise<string> {
+  const data = await res.json().catch(() => null);
+  return data?.error || fallback;
+}
+
+export default function CoursesPage() {
+  const [courses, setCourses] = useState<CourseListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Create/Edit dialog state
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formName, setFormName] = useState("");
+  const [formCode, setFormCode] = useState("");
+  const [formSemester, setFormSemester] = useState("");
+  const [formDescription, setFormDescription] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // Roster dialog state
+  const [rosterCourse, setRosterCourse] = useState<CourseListItem | null>(null);
+  const [enrollments, setEnrollments] = useState<EnrollmentItem[]>([]);
+  const [rosterLoading, setRosterLoading] = useState(false);
+  const [identifier, setIdentifier] = useState("");
+  const [newRole, setNewRole] = useState<CourseRole>("STUDENT");
+  const [adding, setAdding] = useState(false);
+
+  const [importCourse, setImportCourse] = useState<CourseListItem | null>(null);
+
+  const fetchCourses = useCallback(() => {
+    setLoading(true);
+    fetch("/api/courses")
+      .then((res) => (res.ok ? res.json() : Promise.reject()))
+      .then((data) => setCourses(data.courses || []))
+      .catch(() => setCourses([]))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    fetchCourses();
+  }, [fetchCourses]);
+
+  const fetchRoster = useCallback((courseId: string) => {
+    setRosterLoading(true);
+    fetch(`/api/courses/${courseId}/enrollments`)
+      .then((res) => (res.ok ? res.json() : Promise.reject()))
+      .then((data) => setEnrollments(data.enrollments || []))
+      .catch(() => setEnrollments([]))
+      .finally(() => setRosterLoading(false));
+  }, []);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setFormName("");
+    setFormCode("");
+    setFormSemester("");
+    setFormDescription("");
+    setDialogOpen(true);
+  };
+
+  const openEdit = (course: CourseListItem) => {
+    setEditingId(course.id);
+    setFormName(course.name);
+    setFormCode(course.code || "");
+    setFormSemester(course.semester);
+    setFormDescription(course.description || "");
+    setDialogOpen(true);
+  };
+
+  const openRoster = (course: CourseListItem) => {
+    setRosterCourse(course);
+    setEnrollments([]);
+    setIdentifier("");
+    setNewRole("STUDENT");
+    fetchRoster(course.id);
+  };
+
+  const handleSave = async () => {
+    if (!formName.trim() || !formSemester.trim()) return;
+    setSaving(true);
+    try {
+      const url = editingId ? `/api/courses/${editingId}` : "/api/courses";
+      const res = await fetch(url, {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: formName.trim(),
+          code: formCode.trim() || null,
+          semester: formSemester.trim(),
+          description: formDescription.trim() || null,
+        }),
+      });
+      if (!res.ok) {
+        toast.error(await errorMessage(res, "Failed to save course"));
+        return;
+      }
+      setDialogOpen(false);
+      fetchCourses();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleArchived = async (course: CourseListItem) => {
+    const res = await fetch(`/api/courses/${course.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ isArchived: !course.isArchived }),
+    });
+    if (!res.ok) {
+      toast.error(await errorMessage(res, "Failed to update course"));
+      return;
+    }
+    toast.success(course.isArchived ? "Course restored" : "Course archived");
+    fetchCourses();
+  };
+
+  const handleAddMember = async () => {
+    if (!rosterCourse || !identifier.trim()) return;
+    setAdding(true);
+    try {
+      const res = await fetch(`/api/courses/${rosterCourse.id}/enrollments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ identifier: identifier.trim(), role: newRole }),
+      });
+      if (!res.ok) {
+        toast.error(await errorMessage(res, "Failed to add member"));
+        return;
+      }
+      setIdentifier("");
+      fetchRoster(rosterCourse.id);
+      fetchCourses();
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRoleChange = async (enrollment: EnrollmentItem, role: CourseRole) => {
+    if (!rosterCourse) return;
+    const res = await fetch(`/api/courses/${rosterCourse.id}/enrollments/${enrollment.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ role }),
+    });
+    if (!res.ok) {
+      toast.error(await errorMessage(res, "Failed to change role"));
+      return;
+    }
+    setEnrollments((prev) => prev.map((e) => (e.id === enrollment.id ? { ...e, role } : e)));
+    fetchCourses();
+  };
+
+  const handleRemove = async (enrollment: EnrollmentItem) => {
+    if (!rosterCourse) return;
+    const res = await fetch(`/api/courses/${rosterCourse.id}/enrollments/${enrollment.id}`, {
+      method: "DELETE",
+    });
+    if (!res.ok) {
+      toast.error(await errorMessage(res, "Failed to remove member"));
+      return;
+    }
+    setEnrollments((prev) => prev.filter((e) => e.id !== enrollment.id));
+    fetchCourses();
+  };
+
+  // Only the first load replaces the page; refreshes keep open dialogs mounted
+  if (loading && courses.length === 0) {
+    return <LoadingSpinner message="Loading courses..." />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight text-gray-900 dark:text-gray-100">
+            Courses
+          </h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Manage course sections, semesters and rosters ({courses.length} total)
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={fetchCourses}
+            className="gap-1.5"
+          >
+            <RefreshCw className="h-3.5 w-3.5" />
+            Refresh
+          </Button>
+          <Button
+            size="sm"
+            onClick={openCreate}
+            className="gap-1.5 bg-indigo-600 hover:bg-indigo-700 text-white"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            New Course
+          </Button>
+        </div>
+      </div>
+
+      {/* Course list */}
+      {courses.length === 0 ? (
+        <EmptyState
+          icon={BookOpen}
+          title="No courses yet"
+          description="Create a course to group assignments, announcements and grades by section and semester."
+        >
+          <Button
+            size="sm"
+            onClick={openCreate}
+            className="gap-1.5 bg-indigo-600 hover:bg-indigo-700 text-white mt-3"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            Create Course
+          </Button>
+        </EmptyState>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {courses.map((course) => (
+            <div
+              key={course.id}
+              className={`bg-white dark:bg-gray-900 rounded-2xl border border-gray-100 dark:border-gray-800 shadow-sm p-5 flex flex-col gap-3 hover:shadow-md transition-shadow ${
+                course.isArchived ? "opacity-70" : ""
+              }`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0 flex-1">
+                  <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 truncate">
+                    {course.code ? `${course.code} · ${course.name}` : course.name}
+                  </h3>
+                  <p className="text-xs text-gray-400 dark:text-gray-500 mt-0.5 truncate">
+                    {course.semester}
+                  </p>
+                </div>
+                {course.isArchived && (
+                  <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase shrink-0 bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400">
+                    <Archive className="h-2.5 w-2.5" />
+                    Archived
+                  </span>
+                )}
+              </div>
+
+              {course.description && (
+                <p className="text-xs text-gray-600 dark:text-gray-400 line-clamp-2 leading-relaxed">
+                  {course.description}
+                </p>
+              )}
+
+              <div className="grid grid-cols-3 gap-2 text-center flex-1 content-end">
+                {[
+                  { label: "Students", value: course.studentCount },
+                  { label: "Staff", value: course.staffCount },
+                  { label: "Assignments", value: course.assignmentCount },
+                ].map(({ label, value }) => (
+                  <div key={label} className="bg-gray-50 dark:bg-gray-800 rounded-lg py-2">
+                    <span className="block text-base font-bold text-gray-900 dark:text-gray-100">{value}</span>
+                    <span className="text-[11px] text-gray-500 dark:text-gray-400">{label}</span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-center justify-between pt-1">
+                <div className="flex items-center gap-1.5">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 gap-1.5 text-xs"
+                    onClick={() => openRoster(course)}
+                  >
+                    <Users className="h-3.5 w-3.5" />
+                    Roster
+                  </Button>
+                  {course.role === "PROFESSOR" && !course.isArchived && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 gap-1.5 text-xs"
+                      onClick={() => setImportCourse(course)}
+                    >
+                      <FileSpreadsheet className="h-3.5 w-3.5" />
+                      Import CSV
+                    </Button>
+                  )}
+                </div>
+                {course.role === "PROFESSOR" && (
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 text-gray-400 hover:text-indigo-600"
+                      title="Edit course"
+                      onClick={() => openEdit(course)}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 text-gray-400 hover:text-amber-600"
+                      title={course.isArchived ? "Restore course" : "Archive course"}
+                      onClick={() => toggleArchived(course)}
+                    >
+                      {course.isArchived ? (
+                        <ArchiveRestore className="h-3.5 w-3.5" />
+                      ) : (
+                        <Archive className="h-3.5 w-3.5" />
+                      )}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={(open) => !saving && setDialogOpen(open)}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <BookOpen className="h-5 w-5 text-indigo-500" />
+              {editingId ? "Edit Course" : "New Course"}
+            </DialogTitle>
+            <DialogDescription>
+              {editingId
+                ? "Update the course details below."
+                : "You will be enrolled as the course's professor."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1.5">
+                <Label className="text-sm font-medium">Code</Label>
+                <Input
+                  placeholder="e.g. PHYS 101-A"
+                  value={formCode}
+                  onChange={(e) => setFormCode(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-sm font-medium">Semester</Label>
+                <Input
+                  placeholder="e.g. Fall 2026"
+                  value={formSemester}
+                  onChange={(e) => setFormSemester(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label className="text-sm font-medium">Name</Label>
+              <Input
+                placeholder="e.g. General Physics I"
+                value={formName}
+                onChange={(e) => setFormName(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <Label className="text-sm font-medium">Description</Label>
+              <Textarea
+                placeholder="Optional"
+                value={formDescription}
+                onChange={(e) => setFormDescription(e.target.value)}
+                rows={3}
+                className="resize-none text-sm"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDialogOpen(false)}
+              disabled={saving}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving || !formName.trim() || !formSemester.trim()}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white"
+            >
+              {saving ? (
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              ) : null}
+              {editingId ? "Save Changes" : "Create Course"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Roster Dialog */}
+      <Dialog open={!!rosterCourse} onOpenChange={(open) => !open && setRosterCourse(null)}>
+        <DialogContent className="sm:max-w-[640px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5 text-indigo-500" />
+              {rosterCourse?.code || rosterCourse?.name} Roster
+            </DialogTitle>
+            <DialogDescription>
+              Students see the course&apos;s assignments; TAs and professors can also create and grade them.
+            </DialogDescription>
+          </DialogHeader>
+
+          {rosterCourse?.role === "PROFESSOR" && (
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="Email or student ID"
+                value={identifier}
+                onChange={(e) => setIdentifier(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleAddMember()}
+                className="flex-1"
+              />
+              <select
+                value={newRole}
+                onChange={(e) => setNewRole(e.target.value as CourseRole)}
+                className={SELECT_CLASS}
+              >
+                {COURSE_ROLES.map((r) => (
+                  <option key={r.value} value={r.value}>
+                    {r.label}
+                  </option>
+                ))}
+              </select>
+              <Button
+                size="sm"
+                onClick={handleAddMember}
+                disabled={adding || !identifier.trim()}
+                className="gap-1.5 bg-indigo-600 hover:bg-indigo-700 text-white"
+              >
+                {adding ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <UserPlus className="h-3.5 w-3.5" />}
+                Add
+              </Button>
+            </div>
+          )}
+
+          <div className="max-h-[50vh] overflow-y-auto divide-y divide-gray-100 dark:divide-gray-800 border border-gray-100 dark:border-gray-800 rounded-lg">
+            {rosterLoading ? (
+              <div className="py-8 flex justify-center">
+                <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+              </div>
+            ) : enrollments.length === 0 ? (
+              <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">No members yet</p>
+            ) : (
+              enrollments.map((enrollment) => (
+                <div
+                  key={enrollment.id}
+                  className={`flex items-center gap-3 px-3 py-2 ${enrollment.droppedAt ? "opacity-60" : ""}`}
+                >
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                      {enrollment.user.name || enrollment.user.email}
+                      {enrollment.droppedAt && (
+                        <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300">
+                          Dropped
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {enrollment.user.email}
+                      {enrollment.user.studentId && ` · ${enrollment.user.studentId}`}
+                    </p>
+                  </div>
+                  {rosterCourse?.role === "PROFESSOR" ? (
+                    <>
+                      <select
+                        value={enrollment.role}
+                        onChange={(e) => handleRoleChange(enrollment, e.target.value as CourseRole)}
+                        className={SELECT_CLASS}
+                      >
+                        {COURSE_ROLES.map((r) => (
+                          <option key={r.value} value={r.value}>
+                            {r.label}
+                          </option>
+                        ))}
+                      </select>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0 text-gray-400 hover:text-red-600"
+                        title="Remove from course"
+                        onClick={() => handleRemove(enrollment)}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </>
+                  ) : (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {COURSE_ROLES.find((r) => r.value === enrollment.role)?.label}
+                    </span>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <RosterImportDialog
+        courseId={importCourse?.id ?? null}
+        courseLabel={importCourse?.code || importCourse?.name || ""}
+        onOpenChange={(open) => !open && setImportCourse(null)}
+        onImported={fetchCourses}
+      />
+    </div>
+  );
+}
@@ -20,8 +20,23 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { formatShortDate } from "@/lib/utils";
+import { cn, formatShortDate } from "@/lib/utils";
 import { Pagination } from "@/components/ui/pagination";
+import { formatTokens } from "@/lib/ai/pricing";
+import type { ContextLog } from "@/lib/ai/context";
+import { SearchSnippet } from "@/components/chat/SearchSnippet";
+import { useMessageSearch } from "@/hooks/useMessageSearch";
+
+interface HistoryMessage {
+  id: string;
+  role: string;
+  content: string;
+  imageUrls?: string[];
+  pinned?: boolean;
+  /** Admins only: what the tutor was sent for this reply */
+  context?: ContextLog;
+  createdAt: string;
+}
 
 interface ConversationEntry {
   id: string;
@@ -31,13 +46,100 @@ interface ConversationEntry {
   userVerified: boolean;
   messageCount: number;
   updatedAt: string;
-  messages?: {
-    id: string;
-    role: string;
-    content: string;
-    imageUrls?: string[];
-    createdAt: string;
-  }[];
+  messages?: HistoryMessage[];
+}
+
+/** The context one AI reply was generated from: budget, running summary, and which messages went along. */
+function ContextDetails({ context, messages }: { context: ContextLog; messages: HistoryMessage[] }) {
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  return (
+    <details className="mt-2 text-xs">
+      <summary className="cursor-pointer opacity-60 hover:opacity-100 select-none">
+        Context sent: {formatTokens(context.tokens + context.systemTokens)} tokens
+        {" "}({formatTokens(context.tokens)} of {formatTokens(context.budget)} history budget) · {context.model}
+      </summary>
+      <div className="mt-2 space-y-2 rounded-md border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-900 p-2">
+        {context.summary && (
+          <div>
+            <p className="font-medium mb-0.5">Running summary (replaces earlier turns)</p>
+            <p className="whitespace-pre-wrap opacity-80">{context.summary}</p>
+          </div>
+        )}
+        <div>
+          <p className="font-medium mb-0.5">Messages ({context.messages.length})</p>
+          <ul className="space-y-0.5">
+            {context.messages.map((m) => (
+              <li key={m.id} className="flex gap-2">
+                <span className="shrink-0 w-16 opacity-60">{m.role === "user" ? "Student" : "AI"}</span>
+                <span className="shrink-0 w-12 text-right tabular-nums opacity-60">{formatTokens(m.tokens)}</span>
+                <span className="truncate">
+                  {m.pinned && <Badge variant="outline" className="mr-1 px-1 py-0 text-[10px]">pinned</Badge>}
+                  {byId.get(m.id)?.content.slice(0, 120) ?? <em className="opacity-60">not on the branch shown</em>}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+        <details>
+          <summary className="cursor-pointer font-medium select-none">
+            System prompt ({formatTokens(context.systemTokens)} tokens)
+          </summary>
+          <pre className="mt-1 max-h-64 overflow-auto whitespace-pre-wrap text-[11px] opacity-80">{context.system}</pre>
+        </details>
+      </div>
+    </details>
+  );
+}
+
+/** A conversation's messages, optionally scrolled to one of them and outlining it. */
+function MessageThread({ messages, highlightedId }: { messages: HistoryMessage[]; highlightedId?: string }) {
+  useEffect(() => {
+    if (highlightedId) document.getElementById(`qa-message-${highlightedId}`)?.scrollIntoView({ block: "center" });
+  }, [highlightedId, messages]);
+
+  return (
+    <div className="mt-3 space-y-3">
+      {messages.map((msg) => (
+        <div
+          key={msg.id}
+          id={`qa-message-${msg.id}`}
+          className={cn(
+            "rounded-lg p-3 text-sm",
+            msg.role === "user"
+              ? "bg-neutral-900 text-white ml-8 dark:bg-neutral-800"
+              : "bg-neutral-100 mr-8 dark:bg-neutral-800 dark:text-neutral-200",
+            msg.id === highlightedId && "ring-2 ring-amber-400 dark:ring-amber-600"
+          )}
+        >
+          <p className="text-xs opacity-60 mb-1">
+            {msg.role === "user" ? "Student" : "AI"} -{" "}
+            {formatShortDate(msg.createdAt)}
+            {msg.pinned && " · pinned"}
+          </p>
+          {msg.imageUrls && msg.imageUrls.length > 0 && (
+            <div className={`mb-2 gap-2 ${msg.imageUrls.length === 1 ? "flex" : "grid grid-cols-2"}`}>
+              {msg.imageUrls.map((url, idx) => (
+                <img
+                  key={idx}
+                  src={url}
+                  alt={`Uploaded ${idx + 1}`}
+                  className="max-w-full rounded-lg max-h-60 object-contain"
+                />
+              ))}
+            </div>
+          )}
+          {msg.role === "assistant" ? (
+            <div className="prose-sm overflow-x-auto">
+              <MarkdownContent content={msg.content} />
+            </div>
+          ) : (
+            <p className="whitespace-pre-wrap">{msg.content}</p>
+          )}
+          {msg.context && <ContextDetails context={msg.context} messages={messages} />}
+        </div>
+      ))}
+    </div>
+  );
 }
 
 interface UserOption {
@@ -58,6 +160,12 @@ export default function QAHistoryPage() {
   const [page, setPage] = useState(1);
   const [pageSize, setPageSize] = useState(15);
   const [totalCount, setTotalCount] = useState(0);
+  /** A message search hit opened in place, with its branch of the conversation */
+  const [openHit, setOpenHit] = useState<{ messageId: string; messages?: HistoryMessage[] } | null>(null);
+
+  const { results: messageHits, searching: searchingMessages } = useMessageSearch(searchQuery, {
+    endpoint: selectedUserId === "all" ? "/api/admin/qa-history" : `/api/admin/qa-history?userId=${selectedUserId}`,
+  });
 
   const totalPages = Math.max(1, Math.ceil(totalCount / pageSize));
 
@@ -139,6 +247,24 @@ export default function QAHistoryPage() {
     }
   };
 
+  const toggleHit = async (conversationId: string, messageId: string) => {
+    if (openHit?.messageId === messageId) {
+      setOpenHit(null);
+      return;
+    }
+    setOpenHit({ messageId });
+    try {
+      // The branch through the hit, which need not be the one the student has open
+      const res = await fetch(`/api/conversations/${conversationId}/messages?through=${messageId}`);
+      if (!res.ok) throw new Error("Failed to load conversation");
+      const data = await res.json();
+      setOpenHit((prev) => (prev?.messageId === messageId ? { messageId, messages: data.messages } : prev));
+    } catch (err) {
+      console.error(err);
+      setOpenHit(null);
+    }
+  };
+
   const filtered = conversations.filter((c) => {
     const matchesSearch =
       c.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -197,7 +323,7 @@ export default function QAHistoryPage() {
         <div className="relative flex-1">
           <Search className="absolute left-3 top-2.5 h-4 w-4 text-neutral-400 dark:text-neutral-500" />
           <Input
-            placeholder="Search by title, user name, or email..."
+            placeholder="Search by title, user name, email, or message text..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="pl-9"
@@ -205,6 +331,56 @@ export default function QAHistoryPage() {
         </div>
       </div>
 
+      {(messageHits || searchingMessages) && (
+        <div className="space-y-3">
+          <h2 className="flex items-center gap-2 text-sm font-medium text-neutral-500 dark:text-neutral-400">
+            Matching messages
+            {searchingMessages && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+          </h2>
+          {messageHits?.length === 0 && !searchingMessages && (
+            <p className="text-sm text-neutral-400 dark:text-neutral-500">No messages match your search.</p>
+          )}
+          {messageHits?.map((hit) => (
+            <Card key={hit.messageId}>
+              <button onClick={() => toggleHit(hit.conversationId, hit.messageId)} className="w-full text-left">
+                <CardContent className="p-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{hit.conversationTitle}</p>
+                      <p className="text-xs text-neutral-400 dark:text-neutral-500">
+                        {hit.user?.name} ({hit.user?.email}) · {hit.role === "user" ? "Student" : "AI"}
+                      </p>
+                      <SearchSnippet snippet={hit.snippet} className="mt-1.5 text-sm text-neutral-600 dark:text-neutral-300" />
+                    </div>
+                    <div className="flex items-center gap-3 shrink-0">
+                      <span className="text-xs text-neutral-400 dark:text-neutral-500">{formatShortDate(hit.createdAt)}</span>
+                      {openHit?.messageId === hit.messageId ? (
+                        <ChevronUp className="h-4 w-4 text-neutral-400 dark:text-neutral-500" />
+                      ) : (
+                        <ChevronDown className="h-4 w-4 text-neutral-400 dark:text-neutral-500" />
+                      )}
+                    </div>
+                  </div>
+                </CardContent>
+              </button>
+
+              {openHit?.messageId === hit.messageId && (
+                <div className="border-t dark:border-gray-700 px-4 pb-4 max-h-[32rem] overflow-y-auto">
+                  {openHit.messages ? (
+                    <MessageThread messages={openHit.messages} highlightedId={hit.messageId} />
+                  ) : (
+                    <div className="py-4 text-center">
+                      <Loader2 className="h-5 w-5 animate-spin text-neutral-400 dark:text-neutral-500 mx-auto" />
+                    </div>
+                  )}
+                </div>
+              )}
+            </Card>
+          ))}
+          <h2 className="pt-2 text-sm font-medium text-neutral-500 dark:text-neutral-400">Matching conversations</h2>
+        </div>
+      )}
+
       {loading ? (
         <div className="flex items-center justify-center py-12">
           <Loader2 className="h-6 w-6 animate-spin text-neutral-400 dark:text-neutral-500" />
@@ -252,44 +428,7 @@ export default function QAHistoryPage() {
                       <Loader2 className="h-5 w-5 animate-spin text-neutral-400 dark:text-neutral-500 mx-auto" />
                     </div>
                   ) : (
-                    <div className="mt-3">
-                      <div className="space-y-3">
-                        {conv.messages?.map((msg) => (
-                          <div
-                            key={msg.id}
-                            className={`rounded-lg p-3 text-sm ${
-                              msg.role === "user"
-                                ? "bg-neutral-900 text-white ml-8 dark:bg-neutral-800"
-                                : "bg-neutral-100 mr-8 dark:bg-neutral-800 dark:text-neutral-200"
-                            }`}
-                          >
-                            <p className="text-xs opacity-60 mb-1">
-                              {msg.role === "user" ? "Student" : "AI"} -{" "}
-                              {formatShortDate(msg.createdAt)}
-                            </p>
-                            {msg.imageUrls && msg.imageUrls.length > 0 && (
-                              <div className={`mb-2 gap-2 ${msg.imageUrls.length === 1 ? "flex" : "grid grid-cols-2"}`}>
-                                {msg.imageUrls.map((url, idx) => (
-                                  <img
-                                    key={idx}
-                                    src={url}
-                                    alt={`Uploaded ${idx + 1}`}
-                                    className="max-w-full rounded-lg max-h-60 object-contain"
-                                  />
-                                ))}
-                              </div>
-                            )}
-                            {msg.role === "assistant" ? (
-                              <div className="prose-sm overflow-x-auto">
-                                <MarkdownContent content={msg.content} />
-                              </div>
-                            ) : (
-                              <p className="whitespace-pre-wrap">{msg.content}</p>
-                            )}
-                          </div>
-                        ))}
-                      </div>
-                    </div>
+                    <MessageThread messages={conv.messages ?? []} />
                   )}
                 </div>
               )}
@@ -0,0 +1,459 @@
+"use client";
+
+import React, { useEffect, useState, useCallback } from "react";
+import { Gauge, Plus, Pencil, Trash2, RefreshCw, CalendarClock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { EmptyState } from "@/components/ui/empty-state";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  QUOTA_FEATURES,
+  QUOTA_FEATURE_LABELS,
+  QUOTA_ROLES,
+  QUOTA_UNITS,
+  formatQuotaAmount,
+  type QuotaFeature,
+} from "@/lib/quota";
+
+interface QuotaRule {
+  id: string;
+  feature: QuotaFeature;
+  role: string | null;
+  courseId: string | null;
+  dailyLimit: number | null;
+  startsAt: string | null;
+  endsAt: string | null;
+  label: string | null;
+  updatedAt: string;
+  course: { id: string; name: string; code: string | null } | null;
+  createdBy: { id: string; name: string | null };
+}
+
+interface QuotaData {
+  rules: QuotaRule[];
+  courses: { id: string; name: string; code: string | null }[];
+  defaults: Record<QuotaFeature, { student: number | null; staff: number | null }>;
+  today: {
+    byFeature: { feature: QuotaFeature; used: number; users: number }[];
+    topUsers: {
+      feature: QuotaFeature;
+      used: number;
+      user: { id: string; name: string | null; email: string; role: string };
+    }[];
+  };
+}
+
+interface RuleForm {
+  feature: QuotaFeature;
+  role: string;
+  courseId: string;
+  dailyLimit: string;
+  startsAt: string;
+  endsAt: string;
+  label: string;
+}
+
+const ANY = "any";
+
+const EMPTY_FORM: RuleForm = {
+  feature: "chat",
+  role: ANY,
+  courseId: ANY,
+  dailyLimit: "",
+  startsAt: "",
+  endsAt: "",
+  label: "",
+};
+
+function formatLimit(limit: number | null, feature: QuotaFeature): string {
+  return limit === null ? "Unlimited" : formatQuotaAmount(limit, QUOTA_UNITS[feature]);
+}
+
+function formatDateTime(dateStr: string): string {
+  return new Date(dateStr).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/** ISO string -> value for a datetime-local input, in local time */
+function toLocalInput(dateStr: string | null): string {
+  if (!dateStr) return "";
+  const date = new Date(dateStr);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+export default function AdminQuotasPage() {
+  const [data, setData] = useState<QuotaData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<string | "new" | null>(null);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [acting, setActing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchQuotas = useCallback(() => {
+    setLoading(true);
+    fetch("/api/admin/quotas")
+      .then((res) => (res.ok ? res.json() : Promise.reject()))
+      .then(setData)
+      .catch(() => setData(null))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    fetchQuotas();
+  }, [fetchQuotas]);
+
+  const openEditor = (rule?: QuotaRule) => {
+    setError(null);
+    setEditing(rule ? rule.id : "new");
+    setForm(
+      rule
+        ? {
+            feature: rule.feature,
+            role: rule.role ?? ANY,
+            courseId: rule.courseId ?? ANY,
+            dailyLimit: rule.dailyLimit === null ? "" : String(rule.dailyLimit),
+            startsAt: toLocalInput(rule.startsAt),
+            endsAt: toLocalInput(rule.endsAt),
+            label: rule.label ?? "",
+          }
+        : EMPTY_FORM
+    );
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    setActing(true);
+    setError(null);
+    try {
+      const res = await fetch(editing === "new" ? "/api/admin/quotas" : `/api/admin/quotas/${editing}`, {
+        method: editing === "new" ? "POST" : "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          feature: form.feature,
+          role: form.role === ANY ? null : form.role,
+          courseId: form.courseId === ANY ? null : form.courseId,
+          dailyLimit: form.dailyLimit.trim() === "" ? null : Number(form.dailyLimit),
+          startsAt: form.startsAt ? new Date(form.startsAt).toISOString() : null,
+          endsAt: form.endsAt ? new Date(form.endsAt).toISOString() : null,
+          label: form.label.trim() || null,
+        }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        const details = body.details ? Object.values(body.details).flat().join(" ") : "";
+        setError(details || body.error || "Failed to save rule");
+        return;
+      }
+      setEditing(null);
+      fetchQuotas();
+    } finally {
+      setActing(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteId) return;
+    setActing(true);
+    try {
+      const res = await fetch(`/api/admin/quotas/${deleteId}`, { method: "DELETE" });
+      if (res.ok) fetchQuotas();
+    } finally {
+      setActing(false);
+      setDeleteId(null);
+    }
+  };
+
+  if (loading && !data) {
+    return <LoadingSpinner message="Loading quotas..." />;
+  }
+
+  if (!data) {
+    return <EmptyState icon={Gauge} title="Quotas unavailable" description="Could not load quota settings." />;
+  }
+
+  const now = Date.now();
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight text-gray-900 dark:text-gray-100">Quotas</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Daily allowances per user. Counters reset at midnight UTC.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={fetchQuotas} className="gap-1.5">
+            <RefreshCw className="h-3.5 w-3.5" />
+            Refresh
+          </Button>
+          <Button size="sm" onClick={() => openEditor()} className="gap-1.5">
+            <Plus className="h-3.5 w-3.5" />
+            Add Rule
+          </Button>
+        </div>
+      </div>
+
+      {/* Defaults and today's usage */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        {QUOTA_FEATURES.map((feature) => {
+          const today = data.today.byFeature.find((f) => f.feature === feature);
+          const defaults = data.defaults[feature];
+          return (
+            <div
+              key={feature}
+              className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-100 dark:border-gray-800 p-4 shadow-sm"
+            >
+              <p className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">
+                {QUOTA_FEATURE_LABELS[feature]}
+              </p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+                {formatQuotaAmount(today?.used ?? 0, QUOTA_UNITS[feature])}
+              </p>
+              <p className="text-[11px] text-gray-400 dark:text-gray-500 mt-1">
+                today · {today?.users ?? 0} user{today?.users === 1 ? "" : "s"}
+              </p>
+              <p className="text-[11px] text-gray-500 dark:text-gray-400 mt-2">
+                Default: students {formatLimit(defaults.student, feature)}, staff {formatLimit(defaults.staff, feature)}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Rules */}
+      <div>
+        <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Rules</h2>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+          The most specific matching rule wins: an active exam window, then course + role, course, role, and
+          finally rules for everyone. A limit of 0 disables the feature.
+        </p>
+        {data.rules.length === 0 ? (
+          <EmptyState icon={Gauge} title="No quota rules" description="Everyone gets the default allowances above." />
+        ) : (
+          <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-100 dark:border-gray-800 overflow-hidden shadow-sm divide-y divide-gray-100 dark:divide-gray-800">
+            {data.rules.map((rule) => {
+              const hasWindow = rule.startsAt && rule.endsAt;
+              const active = !hasWindow || (new Date(rule.startsAt!).getTime() <= now && now < new Date(rule.endsAt!).getTime());
+              const expired = hasWindow && new Date(rule.endsAt!).getTime() <= now;
+              return (
+                <div key={rule.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between px-4 sm:px-6 py-3 gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                      {QUOTA_FEATURE_LABELS[rule.feature]}: {formatLimit(rule.dailyLimit, rule.feature)}
+                      {hasWindow ? "" : " / day"}
+                    </p>
+                    <p className="text-xs text-gray-400 dark:text-gray-500">
+                      {rule.role ? rule.role.charAt(0) + rule.role.slice(1).toLowerCase() : "All roles"} ·{" "}
+                      {rule.course ? rule.course.code || rule.course.name : "All courses"}
+                      {rule.label && ` · ${rule.label}`}
+                    </p>
+                    {hasWindow && (
+                      <p className={`text-xs flex items-center gap-1 mt-0.5 ${
+                        expired ? "text-gray-400" : active ? "text-amber-600 dark:text-amber-400" : "text-indigo-600 dark:text-indigo-400"
+                      }`}>
+                        <CalendarClock className="h-3 w-3" />
+                        {formatDateTime(rule.startsAt!)} – {formatDateTime(rule.endsAt!)}
+                        {expired ? " (ended)" : active ? " (active)" : " (upcoming)"}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Button variant="outline" size="sm" className="text-xs" onClick={() => openEditor(rule)}>
+                      <Pencil className="h-3.5 w-3.5 mr-1" />
+                      Edit
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-xs text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-950"
+                      onClick={() => setDeleteId(rule.id)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5 mr-1" />
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Heaviest users today */}
+      {data.today.topUsers.length > 0 && (
+        <div>
+          <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Top usage today</h2>
+          <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-100 dark:border-gray-800 overflow-hidden shadow-sm">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-800 text-xs text-gray-500 dark:text-gray-400">
+                <tr>
+                  <th className="text-left font-medium px-4 py-2">User</th>
+                  <th className="text-left font-medium px-4 py-2">Feature</th>
+                  <th className="text-right font-medium px-4 py-2">Used</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                {data.today.topUsers.map((row) => (
+                  <tr key={`${row.user.id}-${row.feature}`}>
+                    <td className="px-4 py-2 text-gray-900 dark:text-gray-100">
+                      {row.user.name || row.user.email}
+                      <span className="ml-1.5 text-xs text-gray-400">{row.user.role}</span>
+                    </td>
+                    <td className="px-4 py-2 text-gray-600 dark:text-gray-400">{QUOTA_FEATURE_LABELS[row.feature]}</td>
+                    <td className="px-4 py-2 text-right text-gray-900 dark:text-gray-100">
+                      {formatQuotaAmount(row.used, QUOTA_UNITS[row.feature])}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Rule editor */}
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "Add Quota Rule" : "Edit Quota Rule"}</DialogTitle>
+            <DialogDescription>
+              Set both window times to make an exam-window override; leave them empty for a standing rule.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label>Feature</Label>
+                <Select value={form.feature} onValueChange={(v) => setForm({ ...form, feature: v as QuotaFeature })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {QUOTA_FEATURES.map((f) => (
+                      <SelectItem key={f} value={f}>{QUOTA_FEATURE_LABELS[f]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label>Daily limit ({QUOTA_UNITS[form.feature]})</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder="Unlimited"
+                  value={form.dailyLimit}
+                  onChange={(e) => setForm({ ...form, dailyLimit: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label>Role</Label>
+                <Select value={form.role} onValueChange={(v) => setForm({ ...form, role: v })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All roles</SelectItem>
+                    {QUOTA_ROLES.map((r) => (
+                      <SelectItem key={r} value={r}>{r.charAt(0) + r.slice(1).toLowerCase()}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label>Course</Label>
+                <Select value={form.courseId} onValueChange={(v) => setForm({ ...form, courseId: v })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All courses</SelectItem>
+                    {data.courses.map((c) => (
+                      <SelectItem key={c.id} value={c.id}>{c.code || c.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label>Window start</Label>
+                <Input
+                  type="datetime-local"
+                  value={form.startsAt}
+                  onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label>Window end</Label>
+                <Input
+                  type="datetime-local"
+                  value={form.endsAt}
+                  onChange={(e) => setForm({ ...form, endsAt: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-1.5">
+              <Label>Label</Label>
+              <Input
+                placeholder="e.g. Midterm 1"
+                maxLength={100}
+                value={form.label}
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+              />
+            </div>
+            {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)} disabled={acting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={acting}>
+              {acting ? "Saving..." : "Save Rule"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!deleteId} onOpenChange={(open) => !open && setDeleteId(null)}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Delete Quota Rule?</DialogTitle>
+            <DialogDescription>
+              Users it covered fall back to the next matching rule or the defaults.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteId(null)} disabled={acting}>
+              Keep
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={acting}>
+              {acting ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
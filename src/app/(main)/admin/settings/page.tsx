@@ -6,6 +6,9 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { useEffectiveSession } from "@/lib/effective-session-context";
+import type { AIPriceTable } from "@/lib/ai/pricing";
 import {
   Select,
   SelectContent,
@@ -14,7 +17,37 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 
+interface ProviderOption {
+  id: string;
+  label: string;
+  hosted: boolean;
+  models: { id: string; label: string }[];
+  defaultModel: string;
+}
+
+const BUDGET_FIELDS = [
+  { key: "softBudgetUsd", label: "Soft budget (site)", hint: "Halves everyone's daily AI allowance" },
+  { key: "hardBudgetUsd", label: "Hard budget (site)", hint: "Pauses all AI features" },
+  { key: "userSoftBudgetUsd", label: "Soft budget (per student)", hint: "Halves that student's daily AI allowance" },
+  { key: "userHardBudgetUsd", label: "Hard budget (per student)", hint: "Blocks that student's AI chat" },
+] as const;
+
+type BudgetKey = (typeof BUDGET_FIELDS)[number]["key"];
+
 export default function AdminSettingsPage() {
+  const isAdmin = useEffectiveSession().role === "ADMIN";
+  const [budgets, setBudgets] = useState<Record<BudgetKey, string>>({
+    softBudgetUsd: "",
+    hardBudgetUsd: "",
+    userSoftBudgetUsd: "",
+    userHardBudgetUsd: "",
+  });
+  const [defaultPrices, setDefaultPrices] = useState<AIPriceTable>({});
+  // Effective per-model prices as typed, USD per 1M tokens
+  const [prices, setPrices] = useState<Record<string, { input: string; output: string }>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [providers, setProviders] = useState<ProviderOption[]>([]);
+  const [providerOverride, setProviderOverride] = useState<string | null>(null);
   const [provider, setProvider] = useState("openai");
   const [model, setModel] = useState("gpt-5.2");
   const [systemPrompt, setSystemPrompt] = useState("");
@@ -26,28 +59,70 @@ export default function AdminSettingsPage() {
     fetch("/api/admin/settings")
       .then((res) => res.json())
       .then((data) => {
+        setProviders(data.providers || []);
+        setProviderOverride(data.providerOverride || null);
+        const defaults: AIPriceTable = data.defaultPrices || {};
+        const overrides: AIPriceTable = data.config?.priceTable || {};
+        setDefaultPrices(defaults);
+        setPrices(
+          Object.fromEntries(
+            Object.entries({ ...defaults, ...overrides }).map(([m, p]) => [m, { input: String(p.input), output: String(p.output) }])
+          )
+        );
         if (data.config) {
           setProvider(data.config.provider || "openai");
           setModel(data.config.model || "gpt-5.2");
           setSystemPrompt(data.config.systemPrompt || "");
+          setBudgets({
+            softBudgetUsd: data.config.softBudgetUsd?.toString() ?? "",
+            hardBudgetUsd: data.config.hardBudgetUsd?.toString() ?? "",
+            userSoftBudgetUsd: data.config.userSoftBudgetUsd?.toString() ?? "",
+            userHardBudgetUsd: data.config.userHardBudgetUsd?.toString() ?? "",
+          });
         }
         setLoading(false);
       })
       .catch(() => setLoading(false));
   }, []);
 
+  const selectedProvider = providers.find((p) => p.id === provider);
+
+  const handleProviderChange = (id: string) => {
+    setProvider(id);
+    const next = providers.find((p) => p.id === id);
+    if (next && !next.models.some((m) => m.id === model)) setModel(next.defaultModel);
+  };
+
   const handleSave = async () => {
     setSaving(true);
+    setError(null);
     try {
-      await fetch("/api/admin/settings", {
+      const budgetValues = Object.fromEntries(
+        BUDGET_FIELDS.map(({ key }) => [key, budgets[key].trim() === "" ? null : Number(budgets[key])])
+      );
+      // Only prices that differ from the built-in table are stored
+      const priceTable: AIPriceTable = {};
+      for (const [m, p] of Object.entries(prices)) {
+        const input = Number(p.input) || 0;
+        const output = Number(p.output) || 0;
+        const builtIn = defaultPrices[m];
+        if (!builtIn || builtIn.input !== input || builtIn.output !== output) priceTable[m] = { input, output };
+      }
+      const res = await fetch("/api/admin/settings", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ provider, model, systemPrompt }),
+        body: JSON.stringify({ provider, model, systemPrompt, ...budgetValues, priceTable }),
       });
+      const data = await res.json();
+      if (!res.ok) {
+        const details = data.details ? Object.values(data.details).flat().join(" ") : "";
+        throw new Error(details || data.error || "Failed to save settings");
+      }
       setSaved(true);
       setTimeout(() => setSaved(false), 3000);
     } catch (err) {
       console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to save settings");
     } finally {
       setSaving(false);
     }
@@ -81,13 +156,14 @@ export default function AdminSettingsPage() {
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label>Provider</Label>
-              <Select value={provider} onValueChange={setProvider}>
+              <Select value={provider} onValueChange={handleProviderChange}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="openai">OpenAI</SelectItem>
-                  <SelectItem value="anthropic">Anthropic</SelectItem>
+                  {providers.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -99,25 +175,87 @@ export default function AdminSettingsPage() {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {provider === "openai" ? (
-                    <>
-                      <SelectItem value="gpt-5.2">GPT-5.2</SelectItem>
-                      <SelectItem value="gpt-5-mini">GPT-5 Mini</SelectItem>
-                    </>
-                  ) : (
-                    <>
-                      <SelectItem value="claude-haiku-4-5-20251001">
-                        Claude 4.5 Haiku
-                      </SelectItem>
-                    </>
-                  )}
+                  {selectedProvider?.models.map((m) => (
+                    <SelectItem key={m.id} value={m.id}>{m.label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
           </div>
+          {selectedProvider && !selectedProvider.hosted && (
+            <p className="text-xs text-neutral-500 dark:text-neutral-400">
+              Local providers answer every chat regardless of the model students pick.
+              {provider === "openai-compatible" && " The endpoint and model come from OPENAI_COMPATIBLE_BASE_URL and OPENAI_COMPATIBLE_MODEL."}
+            </p>
+          )}
+          {providerOverride && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              AI_PROVIDER is set to &quot;{providerOverride}&quot; on the server, which overrides this setting.
+            </p>
+          )}
         </CardContent>
       </Card>
 
+      {isAdmin && (
+        <Card>
+          <CardHeader>
+            <CardTitle>AI Budget</CardTitle>
+            <CardDescription>
+              Monthly spend limits in USD, reset on the 1st. Leave blank for no limit. Spend is tracked on the Analytics page.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {BUDGET_FIELDS.map((f) => (
+                <div key={f.key} className="space-y-1.5">
+                  <Label htmlFor={f.key}>{f.label}</Label>
+                  <Input
+                    id={f.key}
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder="No limit"
+                    value={budgets[f.key]}
+                    onChange={(e) => setBudgets((prev) => ({ ...prev, [f.key]: e.target.value }))}
+                  />
+                  <p className="text-xs text-neutral-400 dark:text-neutral-500">{f.hint}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Prices (USD per 1M tokens)</Label>
+              <div className="space-y-2">
+                {Object.entries(prices).map(([m, p]) => (
+                  <div key={m} className="grid grid-cols-[1fr_7rem_7rem] items-center gap-2">
+                    <span className="text-sm font-mono truncate" title={m}>{m}</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      aria-label={`${m} input price`}
+                      value={p.input}
+                      onChange={(e) => setPrices((prev) => ({ ...prev, [m]: { ...prev[m], input: e.target.value } }))}
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      aria-label={`${m} output price`}
+                      value={p.output}
+                      onChange={(e) => setPrices((prev) => ({ ...prev, [m]: { ...prev[m], output: e.target.value } }))}
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-neutral-400 dark:text-neutral-500">
+                Input / output price per model. Reasoning tokens are billed as output; unlisted models (local, mock) cost nothing.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>System Prompt</CardTitle>
@@ -140,6 +278,7 @@ export default function AdminSettingsPage() {
       </Card>
 
       <div className="flex justify-end gap-3 pb-8">
+        {error && <p className="self-center text-sm text-red-600 dark:text-red-400">{error}</p>}
         {saved && (
           <div className="flex items-center gap-2 text-emerald-600 text-sm">
             <CheckCircle2 className="h-4 w-4" />
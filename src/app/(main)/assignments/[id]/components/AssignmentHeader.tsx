@@ -14,6 +14,8 @@ import {
   Unlock,
   CalendarClock,
   XCircle,
+  Timer,
+  BotOff,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -21,6 +23,9 @@ import { Badge } from "@/components/ui/badge";
 import { MarkdownContent } from "@/components/ui/markdown-content";
 import { formatShortDate } from "@/lib/utils";
 import { isStaff as isStaffRole } from "@/lib/constants";
+import { ATTEMPT_SCORING_LABELS } from "@/lib/grading/attempts";
+import { describeLatePolicy } from "@/lib/grading/late-policy";
+import { formatTimeLimit } from "@/lib/grading/time-limit";
 import Link from "next/link";
 import type { AssignmentDetail } from "@/types/assignment";
 
@@ -68,15 +73,18 @@ export function AssignmentHeader({
                   Scheduled: {new Date(assignment.scheduledPublishAt).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })}
                 </Badge>
               )}
-              {assignment.lockAfterSubmit ? (
+              {assignment.maxAttempts === 1 ? (
                 <span className="inline-flex items-center gap-1 text-xs font-medium text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-950 px-2 py-0.5 rounded-full border border-amber-200 dark:border-amber-800">
                   <Lock className="h-3 w-3" />
                   Locked after submit
                 </span>
               ) : (
-                <span className="inline-flex items-center gap-1 text-xs font-medium text-emerald-700 dark:text-emerald-400 bg-emerald-50 dark:bg-emerald-950 px-2 py-0.5 rounded-full border border-emerald-200 dark:border-emerald-800">
+                <span
+                  title={ATTEMPT_SCORING_LABELS[assignment.attemptScoring]}
+                  className="inline-flex items-center gap-1 text-xs font-medium text-emerald-700 dark:text-emerald-400 bg-emerald-50 dark:bg-emerald-950 px-2 py-0.5 rounded-full border border-emerald-200 dark:border-emerald-800"
+                >
                   <Unlock className="h-3 w-3" />
-                  Resubmit allowed
+                  {assignment.maxAttempts ? `${assignment.maxAttempts} attempts` : "Resubmit allowed"}
                 </span>
               )}
             </div>
@@ -85,13 +93,39 @@ export function AssignmentHeader({
               {assignment.publishedBy && assignment.publishedBy.name !== assignment.createdBy.name && (
                 <span>Published by {assignment.publishedBy.name}</span>
               )}
-              {assignment.dueDate && (
+              {assignment.extendedDueDate ? (
+                <span className="flex items-center gap-1">
+                  <Clock className="h-3.5 w-3.5" />
+                  Due {formatShortDate(assignment.extendedDueDate)}
+                  <span className="text-xs font-medium text-indigo-600 dark:text-indigo-400">(extended)</span>
+                </span>
+              ) : assignment.dueDate && (
                 <span className="flex items-center gap-1">
                   <Clock className="h-3.5 w-3.5" />
                   Due {formatShortDate(assignment.dueDate)}
                 </span>
               )}
               <span>{assignment.totalPoints} points</span>
+              {assignment.timeLimitMinutes && (
+                <span className="flex items-center gap-1">
+                  <Timer className="h-3.5 w-3.5" />
+                  {formatTimeLimit(assignment.timeLimitMinutes)} time limit
+                  {!!assignment.extraMinutes && (
+                    <span className="text-xs font-medium text-indigo-600 dark:text-indigo-400">
+                      (+{formatTimeLimit(assignment.extraMinutes)})
+                    </span>
+                  )}
+                </span>
+              )}
+              {assignment.dueDate && (
+                <span className="text-xs">{describeLatePolicy(assignment.latePolicy)}</span>
+              )}
+              {assignment.type === "QUIZ" && !assignment.allowAskAI && (
+                <span className="flex items-center gap-1">
+                  <BotOff className="h-3.5 w-3.5" />
+                  AI tutor off
+                </span>
+              )}
             </div>
             {assignment.description && (
               <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{assignment.description}</p>
@@ -135,10 +169,10 @@ export function AssignmentHeader({
             <Button
               variant="outline"
               size="sm"
-              className={`w-full sm:w-auto text-xs sm:text-sm ${assignment.lockAfterSubmit ? "text-amber-600 border-amber-200 hover:bg-amber-50 dark:text-amber-400 dark:border-amber-800 dark:hover:bg-amber-950" : ""}`}
+              className={`w-full sm:w-auto text-xs sm:text-sm ${assignment.maxAttempts === 1 ? "text-amber-600 border-amber-200 hover:bg-amber-50 dark:text-amber-400 dark:border-amber-800 dark:hover:bg-amber-950" : ""}`}
               onClick={onToggleLock}
             >
-              {assignment.lockAfterSubmit ? "🔒 Locked" : "🔓 Unlocked"}
+              {assignment.maxAttempts === 1 ? "🔒 Locked" : "🔓 Unlocked"}
             </Button>
             <Link href={`/grading?assignmentId=${assignment.id}`} className="contents">
               <Button variant="outline" size="sm" className="w-full sm:w-auto text-xs sm:text-sm">
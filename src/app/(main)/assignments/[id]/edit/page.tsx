@@ -7,6 +7,9 @@ import { Button } from "@/components/ui/button";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
 import { AssignmentForm, type AssignmentFormData, type QuestionFormData } from "@/components/assignments/AssignmentForm";
 import { toast } from "sonner";
+import type { NumericGradingConfig } from "@/lib/grading/numeric";
+import { normalizeOptions, type McGradingConfig, type McOption } from "@/lib/grading/multiple-choice";
+import { formatParameterDefinitions, parseQuestionParameters } from "@/lib/grading/parameters";
 
 export default function EditAssignmentPage({
   params,
@@ -31,26 +34,43 @@ export default function EditAssignmentPage({
           dueDate: a.dueDate ? new Date(a.dueDate).toISOString().slice(0, 16) : "",
           type: a.type,
           totalPoints: a.totalPoints,
-          lockAfterSubmit: a.lockAfterSubmit || false,
+          maxAttempts: a.maxAttempts ?? null,
+          attemptScoring: a.attemptScoring ?? "latest",
+          timeLimitMinutes: a.timeLimitMinutes ?? null,
+          latePolicy: a.latePolicy ?? null,
+          allowAskAI: a.allowAskAI ?? true,
           pdfUrl: a.pdfUrl || null,
           questions: (a.questions || []).map(
             (q: {
               questionText: string;
               questionType: "MC" | "NUMERIC" | "FREE_RESPONSE";
-              options: string[] | null;
+              options: Array<string | McOption> | null;
               correctAnswer: string | null;
               points: number;
               diagram?: { type: "svg" | "mermaid"; content: string } | null;
               imageUrl?: string | null;
-            }) => ({
-              questionText: q.questionText,
-              questionType: q.questionType,
-              options: q.options || ["", "", "", ""],
-              correctAnswer: q.correctAnswer || "",
-              points: q.points,
-              diagram: q.diagram || null,
-              imageUrl: q.imageUrl || null,
-            })
+              numericConfig?: NumericGradingConfig | null;
+              mcConfig?: McGradingConfig | null;
+              parameters?: unknown;
+              answerFormula?: string | null;
+            }) => {
+              const options = q.options ? normalizeOptions(q.options) : null;
+              const parameters = parseQuestionParameters(q.parameters);
+              return {
+                questionText: q.questionText,
+                questionType: q.questionType,
+                options: options ? options.map((o) => o.text) : ["", "", "", ""],
+                optionFeedback: options ? options.map((o) => o.feedback || "") : undefined,
+                correctAnswer: q.correctAnswer || "",
+                points: q.points,
+                diagram: q.diagram || null,
+                imageUrl: q.imageUrl || null,
+                numericConfig: q.numericConfig || null,
+                mcConfig: q.mcConfig || null,
+                parameterText: parameters.length > 0 ? formatParameterDefinitions(parameters) : undefined,
+                answerFormula: q.answerFormula || "",
+              };
+            }
           ) as QuestionFormData[],
         });
         setLoading(false);
@@ -64,7 +84,7 @@ export default function EditAssignmentPage({
       Array<{
         questionText: string;
         questionType: string;
-        options: string[];
+        options: Array<string | McOption>;
         correctAnswer: string;
         points: number;
         diagram?: unknown;
@@ -88,7 +108,11 @@ export default function EditAssignmentPage({
           dueDate: formData.dueDate || null,
           totalPoints: formData.totalPoints,
           pdfUrl: formData.pdfUrl || null,
-          lockAfterSubmit: formData.lockAfterSubmit,
+          maxAttempts: formData.maxAttempts,
+          attemptScoring: formData.attemptScoring,
+          timeLimitMinutes: formData.timeLimitMinutes,
+          latePolicy: formData.dueDate ? formData.latePolicy : null,
+          allowAskAI: formData.allowAskAI,
           published: publish ? true : undefined,
           questions: formData.type === "QUIZ" ? questionsWithUrls : [],
         }),
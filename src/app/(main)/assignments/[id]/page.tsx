@@ -19,11 +19,13 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { isStaff as isStaffRole } from "@/lib/constants";
+import { ATTEMPT_SCORING_LABELS, formatAttempt } from "@/lib/grading/attempts";
 import { SaveStatusIndicator } from "@/components/ui/save-status";
 import Link from "next/link";
 
 import { QuestionRenderer } from "@/components/assignments/QuestionRenderer";
 import { SubmissionView } from "@/components/assignments/SubmissionView";
+import { QuizTimer } from "@/components/assignments/QuizTimer";
 import { FileUploadSection } from "@/components/assignments/FileUploadSection";
 import { AssignmentHeader } from "./components/AssignmentHeader";
 import { PublishDialogs } from "./components/PublishDialogs";
@@ -87,6 +89,9 @@ export default function AssignmentDetailPage({
       {/* Quiz questions (student answering) */}
       {assignment.type === "QUIZ" && isStudentDraft && (
         <div className="space-y-4">
+          {s.timer && (
+            <QuizTimer endsAt={s.timer.endsAt} clockOffsetMs={s.clockOffsetMs} onExpire={s.handleTimeExpired} />
+          )}
           {(() => {
             const total = assignment.questions.length;
             const answered = assignment.questions.filter(q =>
@@ -124,6 +129,8 @@ export default function AssignmentDetailPage({
               onAnswerImagesChange={s.handleAnswerImagesChange}
               onUploadImage={s.handleUploadImage}
               uploadingImage={s.uploadingImage}
+              onAskAI={assignment.allowAskAI ? s.handleAskAI : undefined}
+              askingAI={s.askingAIQuestionId === q.id}
             />
           ))}
         </div>
@@ -145,8 +152,12 @@ export default function AssignmentDetailPage({
 
       {s.existingSubmission && !s.existingSubmission.isDraft && !s.submitted && (
         <SubmissionView
-          submission={s.existingSubmission}
-          assignment={{ totalPoints: assignment.totalPoints, lockAfterSubmit: assignment.lockAfterSubmit, dueDate: assignment.dueDate, questions: assignment.questions }}
+          submission={s.viewedAttempt ?? s.existingSubmission}
+          assignment={{ totalPoints: assignment.totalPoints, maxAttempts: assignment.maxAttempts, attemptScoring: assignment.attemptScoring, dueDate: assignment.dueDate, questions: assignment.questions }}
+          attempts={s.attempts}
+          latestSubmissionId={s.existingSubmission.id}
+          onViewAttempt={s.handleViewAttempt}
+          loadingAttempt={s.loadingAttempt}
           userRole={s.userRole}
           getAppealForAnswer={s.getAppealForAnswer}
           expandedAppeals={s.expandedAppeals}
@@ -177,13 +188,17 @@ export default function AssignmentDetailPage({
 
       {isStudentDraft && (
         <div className="space-y-3 pb-8">
-          {assignment.lockAfterSubmit && (
+          {assignment.maxAttempts === 1 ? (
             <div className="flex items-center gap-2 px-4 py-3 bg-amber-50 dark:bg-amber-950 border border-amber-200 dark:border-amber-800 rounded-lg">
               <AlertTriangle className="h-4 w-4 text-amber-600 dark:text-amber-400 shrink-0" />
               <p className="text-sm text-amber-700 dark:text-amber-300">
                 This assignment is locked after submission. You will <strong>not</strong> be able to change or resubmit your answers.
               </p>
             </div>
+          ) : assignment.maxAttempts !== null && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {formatAttempt(s.attempts.length + 1, assignment.maxAttempts)} &middot; {ATTEMPT_SCORING_LABELS[assignment.attemptScoring]} counts
+            </p>
           )}
           <div className="flex items-center justify-end gap-3">
             {assignment.type === "QUIZ" && (() => {
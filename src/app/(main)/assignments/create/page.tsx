@@ -8,6 +8,7 @@ import { NotifyUsersDialog } from "@/components/ui/notify-users-dialog";
 import { AssignmentForm, type AssignmentFormData } from "@/components/assignments/AssignmentForm";
 import { toast } from "sonner";
 import { buildAssignmentNotifyContent } from "@/lib/utils";
+import type { McOption } from "@/lib/grading/multiple-choice";
 
 export default function CreateAssignmentPage() {
   const router = useRouter();
@@ -27,7 +28,7 @@ export default function CreateAssignmentPage() {
     questions: Array<{
       questionText: string;
       questionType: string;
-      options: string[];
+      options: Array<string | McOption>;
       correctAnswer: string;
       points: number;
       diagram?: unknown;
@@ -39,7 +40,7 @@ export default function CreateAssignmentPage() {
   /** Build the POST body for creating an assignment — single source of truth */
   const buildCreateBody = (
     formData: AssignmentFormData,
-    questions: Array<{ questionText: string; questionType: string; options: string[]; correctAnswer: string; points: number; diagram?: unknown; imageUrl?: string }>,
+    questions: Array<{ questionText: string; questionType: string; options: Array<string | McOption>; correctAnswer: string; points: number; diagram?: unknown; imageUrl?: string }>,
     extra?: Record<string, unknown>,
   ) => ({
     title: formData.title,
@@ -48,7 +49,11 @@ export default function CreateAssignmentPage() {
     type: formData.type,
     totalPoints: formData.totalPoints,
     pdfUrl: formData.pdfUrl || null,
-    lockAfterSubmit: formData.lockAfterSubmit,
+    maxAttempts: formData.maxAttempts,
+    attemptScoring: formData.attemptScoring,
+    timeLimitMinutes: formData.timeLimitMinutes,
+    latePolicy: formData.dueDate ? formData.latePolicy : null,
+    allowAskAI: formData.allowAskAI,
     questions: formData.type === "QUIZ" ? questions : [],
     ...extra,
   });
@@ -85,7 +90,7 @@ export default function CreateAssignmentPage() {
     getQuestionsWithUrls: () => Promise<Array<{
       questionText: string;
       questionType: string;
-      options: string[];
+      options: Array<string | McOption>;
       correctAnswer: string;
       points: number;
       diagram?: unknown;
@@ -144,7 +149,7 @@ export default function CreateAssignmentPage() {
     getQuestionsWithUrls: () => Promise<Array<{
       questionText: string;
       questionType: string;
-      options: string[];
+      options: Array<string | McOption>;
       correctAnswer: string;
       points: number;
       diagram?: unknown;
@@ -20,12 +20,14 @@ import {
   Lock,
   Unlock,
   CalendarClock,
+  Timer,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { formatShortDate } from "@/lib/utils";
+import { formatTimeLimit } from "@/lib/grading/time-limit";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
 import { EmptyState } from "@/components/ui/empty-state";
 import { Pagination } from "@/components/ui/pagination";
@@ -258,7 +260,13 @@ export default function AssignmentsPage() {
                         <Badge variant="secondary" className="font-medium bg-gray-50 dark:bg-gray-800 text-gray-600 dark:text-gray-400 border-gray-200 dark:border-gray-700">
                           {assignment.type === "QUIZ" ? "Quiz" : "File Upload"}
                         </Badge>
-                        {assignment.lockAfterSubmit ? (
+                        {assignment.timeLimitMinutes && (
+                          <span className="flex items-center gap-1">
+                            <Timer className="h-3.5 w-3.5" />
+                            {formatTimeLimit(assignment.timeLimitMinutes)}
+                          </span>
+                        )}
+                        {assignment.maxAttempts === 1 ? (
                           <span className="inline-flex items-center gap-1 text-xs font-medium text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-950 px-2 py-0.5 rounded-full border border-amber-200 dark:border-amber-800">
                             <Lock className="h-3 w-3" />
                             Locked after submit
@@ -266,7 +274,7 @@ export default function AssignmentsPage() {
                         ) : (
                           <span className="inline-flex items-center gap-1 text-xs font-medium text-emerald-700 dark:text-emerald-400 bg-emerald-50 dark:bg-emerald-950 px-2 py-0.5 rounded-full border border-emerald-200 dark:border-emerald-800">
                             <Unlock className="h-3 w-3" />
-                            Resubmit allowed
+                            {assignment.maxAttempts ? `${assignment.maxAttempts} attempts` : "Resubmit allowed"}
                           </span>
                         )}
                         <span className="flex items-center gap-1">
@@ -296,14 +304,16 @@ export default function AssignmentsPage() {
                           </span>
                         )}
                         {userRole === "STUDENT" && assignment.mySubmitted && (() => {
-                          const canResubmit = !assignment.lockAfterSubmit && !assignment.myGraded;
+                          const canResubmit = assignment.maxAttempts === null || assignment.myAttemptCount < assignment.maxAttempts;
                           return canResubmit ? (
                             <span className="inline-flex items-center gap-1 text-xs font-medium text-blue-700 dark:text-blue-400 bg-blue-50 dark:bg-blue-950 px-2 py-0.5 rounded-full border border-blue-200 dark:border-blue-800">
-                              Can resubmit
+                              {assignment.maxAttempts
+                                ? `${assignment.maxAttempts - assignment.myAttemptCount} attempt${assignment.maxAttempts - assignment.myAttemptCount !== 1 ? "s" : ""} left`
+                                : "Can resubmit"}
                             </span>
                           ) : (
                             <span className="inline-flex items-center gap-1 text-xs font-medium text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-800 px-2 py-0.5 rounded-full border border-gray-200 dark:border-gray-700">
-                              {assignment.lockAfterSubmit ? "Locked" : "Graded"}
+                              {assignment.maxAttempts === 1 ? "Locked" : assignment.myGraded ? "Graded" : "No attempts left"}
                             </span>
                           );
                         })()}
@@ -13,8 +13,10 @@ import {
   X,
   ChevronDown,
   Check,
+  Share2,
 } from "lucide-react";
 import type { LucideIcon } from "lucide-react";
+import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -28,12 +30,25 @@ import { cn } from "@/lib/utils";
 import { ChatSidebar } from "@/components/chat/ChatSidebar";
 import { ChatMessageList } from "@/components/chat/ChatMessageList";
 import { ChatInput } from "@/components/chat/ChatInput";
-import type { Message, Conversation } from "@/components/chat/types";
+import { ShareDialog } from "@/components/chat/ShareDialog";
+import { TranscriptionDialog, type TranscriptionSource } from "@/components/ui/transcription-dialog";
+import { useMessageSearch } from "@/hooks/useMessageSearch";
+import type {
+  Message,
+  Conversation,
+  ConversationChanges,
+  ConversationFolder,
+  ChatQuota,
+  ChatQuestion,
+} from "@/components/chat/types";
 
 interface ChatPageClientProps {
   conversations: Conversation[];
+  folders: ConversationFolder[];
   userId: string;
   conversationLimit: number;
+  /** Opened at /chat/[id], e.g. from "Ask AI" on an assignment question */
+  initialConversationId?: string | null;
 }
 
 interface ModelOption {
@@ -50,15 +65,63 @@ const MODEL_OPTIONS: ModelOption[] = [
   { id: "claude-haiku-4-5-20251001", label: "Claude 4.5 Haiku", shortLabel: "Claude", provider: "Anthropic", icon: Atom, color: "text-purple-500" },
 ];
 
+/** A send that rewrites history instead of appending */
+interface BranchRequest {
+  /** Edit: the user message being replaced; the new one keeps its parent and images */
+  editOf?: Message;
+  /** Regenerate: the user message to answer again */
+  regenerate?: Message;
+}
+
 const MAX_IMAGES = 5;
 const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
 
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type ChatEvent = { type: string; [key: string]: any };
+
+/** Read a chat SSE response; resolves with whether the server finished the reply (sent `done`). */
+async function readChatEvents(res: Response, onEvent: (event: ChatEvent) => void): Promise<boolean> {
+  const reader = res.body?.getReader();
+  if (!reader) throw new Error("No response stream");
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let finished = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n\n");
+    buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      if (!line.startsWith("data: ")) continue;
+      const jsonStr = line.slice(6);
+      try {
+        const event = JSON.parse(jsonStr);
+        if (event.type === "done") finished = true;
+        onEvent(event);
+      } catch {
+        // skip malformed JSON
+      }
+    }
+  }
+  return finished;
+}
+
 export default function ChatPageClient({
   conversations: initialConversations,
+  folders: initialFolders,
   conversationLimit,
+  initialConversationId = null,
 }: ChatPageClientProps) {
   useTrackTime("AI_CHAT");
   const [conversations, setConversations] = useState<Conversation[]>(initialConversations);
+  const [folders, setFolders] = useState<ConversationFolder[]>(initialFolders);
+  /** Archived conversations are fetched a page at a time when the sidebar's archive is opened */
+  const [archive, setArchive] = useState({ loaded: false, loading: false, hasMore: false, offset: 0 });
   const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
@@ -68,6 +131,9 @@ export default function ChatPageClient({
   const [imageError, setImageError] = useState<string | null>(null);
   const [model, setModel] = useState("gpt-5.2");
   const [searchQuery, setSearchQuery] = useState("");
+  const { results: messageResults, searching: searchingMessages } = useMessageSearch(searchQuery);
+  /** Message opened from a search hit, briefly highlighted */
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   const [sidebarOpen, setSidebarOpenRaw] = useState(true);
   const [isMobile, setIsMobile] = useState(false);
   const [chatMode, setChatMode] = useState<"normal" | "socratic">("normal");
@@ -75,6 +141,20 @@ export default function ChatPageClient({
   const [examBannerDismissed, setExamBannerDismissed] = useState(false);
   const [copiedMessageId, setCopiedMessageId] = useState<string | null>(null);
   const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [chatQuota, setChatQuota] = useState<ChatQuota | null>(null);
+  const [question, setQuestion] = useState<ChatQuestion | null>(null);
+  /** Share dialog; `messageId` offers a snapshot up to that reply */
+  const [shareTarget, setShareTarget] = useState<{ conversationId: string; messageId: string | null } | null>(null);
+  const [transcribeSource, setTranscribeSource] = useState<TranscriptionSource | null>(null);
+  // A photo transcribed before sending is uploaded then, and reused when the message goes out
+  const uploadedImagesRef = useRef(new WeakMap<File, string>());
+  // Questions from a graded, open assignment stay in Socratic mode
+  const socraticRequired = question?.socratic ?? false;
+  const effectiveMode = socraticRequired ? "socratic" : chatMode;
+  // Server id of the reply being generated, once the stream has announced it
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const activeConversationRef = useRef<string | null>(null);
+  activeConversationRef.current = activeConversationId;
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
@@ -108,6 +188,19 @@ export default function ChatPageClient({
     }
   }, [messages]);
 
+  const refreshQuota = useCallback(() => {
+    fetch("/api/user/quota")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (data) setChatQuota(data.quotas.find((q: { feature: string }) => q.feature === "chat") ?? null);
+      })
+      .catch((err) => console.error("[quota] Failed to load quota:", err));
+  }, []);
+
+  useEffect(() => {
+    refreshQuota();
+  }, [refreshQuota]);
+
   useEffect(() => {
     fetch("/api/exam-mode")
       .then((res) => res.ok ? res.json() : null)
@@ -115,25 +208,65 @@ export default function ChatPageClient({
       .catch((err) => console.error("[exam-mode] Failed to check exam mode:", err));
   }, []);
 
-  const loadConversation = async (convId: string) => {
+  const loadConversation = async (convId: string, focusMessageId?: string) => {
     setActiveConversationId(convId);
+    activeConversationRef.current = convId;
     setLoading(false);
+    setStreamingMessageId(null);
     setMessages([]);
+    setQuestion(null);
+    setHighlightedMessageId(null);
     if (isMobile) setSidebarOpen(false);
     try {
       const res = await fetch(`/api/conversations/${convId}/messages`);
       if (res.ok) {
-        const data = await res.json();
+        let data = await res.json();
+        // A search hit on another branch: switch to that branch first
+        if (focusMessageId && !data.messages.some((m: Message) => m.id === focusMessageId)) {
+          const switched = await fetch(`/api/conversations/${convId}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ activeMessageId: focusMessageId }),
+          });
+          const again = switched.ok ? await fetch(`/api/conversations/${convId}/messages`) : null;
+          if (again?.ok) data = await again.json();
+        }
+        if (activeConversationRef.current !== convId) return;
         setMessages(data.messages);
+        if (focusMessageId) setHighlightedMessageId(focusMessageId);
+        setQuestion(data.question ?? null);
+        if (data.question && data.messages.length === 0) {
+          setInput("Can you help me get started on this question?");
+        }
+        // A reply still being written, e.g. after a reload mid-answer
+        const last: Message | undefined = data.messages[data.messages.length - 1];
+        if (last?.role === "assistant" && last.status === "streaming") {
+          resumeReply(convId, last.id);
+        }
       }
     } catch (err) {
       console.error("Failed to load conversation:", err);
     }
   };
 
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 4000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  useEffect(() => {
+    if (initialConversationId) loadConversation(initialConversationId);
+    // Only on first render; later switches go through the sidebar
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   const createNewChat = () => {
     setActiveConversationId(null);
+    setLoading(false);
+    setStreamingMessageId(null);
     setMessages([]);
+    setQuestion(null);
     setInput("");
     setSidebarOpen(false);
   };
@@ -167,41 +300,132 @@ export default function ChatPageClient({
     setImageError(null);
   };
 
+  const uploadImageFile = useCallback(async (file: File) => {
+    const uploaded = uploadedImagesRef.current.get(file);
+    if (uploaded) return uploaded;
+    const blob = await upload(file.name, file, {
+      access: "public",
+      handleUploadUrl: "/api/upload/client",
+    });
+    uploadedImagesRef.current.set(file, blob.url);
+    return blob.url;
+  }, []);
+
+  const transcribeImage = (index: number) => {
+    const file = imageFiles[index];
+    const preview = imagePreviews[index];
+    if (!file || !preview) return;
+    setTranscribeSource({ preview, resolveUrl: () => uploadImageFile(file) });
+  };
+
   const clearImages = () => {
     setImageFiles([]);
     setImagePreviews([]);
     setImageError(null);
   };
 
-  const submitMessage = useCallback(async (messageText: string) => {
-    if (!messageText.trim() && !imageFiles.length) return;
+  /** Swap streamed placeholders for the stored branch: real ids, parents and alternatives */
+  const refreshBranch = useCallback(async (convId: string) => {
+    const res = await fetch(`/api/conversations/${convId}/messages`);
+    if (!res.ok || activeConversationRef.current !== convId) return;
+    const data = await res.json();
+    setMessages(data.messages);
+  }, []);
+
+  /** Fold one streamed event into the reply it belongs to */
+  const applyReplyEvent = useCallback((messageId: string, event: ChatEvent) => {
+    setMessages((prev) =>
+      prev.map((msg) => {
+        if (msg.id !== messageId) return msg;
+        if (event.type === "citations") return { ...msg, citations: event.citations };
+        if (event.type === "thinking") return { ...msg, thinking: (msg.thinking || "") + event.content };
+        if (event.type === "delta") return { ...msg, content: msg.content + event.content };
+        if (event.type === "source") return { ...msg, sources: [...(msg.sources ?? []), event.source] };
+        if (event.type === "tool_call") return { ...msg, toolCalls: [...(msg.toolCalls ?? []), event.call] };
+        if (event.type === "tool_result") {
+          return {
+            ...msg,
+            toolCalls: msg.toolCalls?.map((call) => (call.id === event.callId ? { ...call, result: event.result } : call)),
+          };
+        }
+        // Followed through the database: the whole reply so far
+        if (event.type === "snapshot") {
+          return { ...msg, content: event.content, thinking: event.thinking, sources: event.sources, toolCalls: event.toolCalls };
+        }
+        if (event.type === "done") return { ...msg, status: event.status };
+        return msg;
+      })
+    );
+  }, []);
+
+  /** Reconnect to a reply still being generated; the server replays it from the start */
+  const resumeReply = useCallback(async (convId: string, messageId: string) => {
+    if (activeConversationRef.current !== convId) return;
+    setLoading(true);
+    setStreamingMessageId(messageId);
+    setMessages((prev) =>
+      prev.map((msg) => (msg.id === messageId ? { ...msg, content: "", thinking: "", sources: [], toolCalls: [], status: "streaming" } : msg))
+    );
+    try {
+      const res = await fetch(`/api/chat/${messageId}/stream`);
+      if (!res.ok) throw new Error("Failed to resume reply");
+      await readChatEvents(res, (event) => applyReplyEvent(messageId, event));
+      await refreshBranch(convId);
+    } catch (err) {
+      console.error("Failed to resume reply:", err);
+    } finally {
+      if (activeConversationRef.current === convId) {
+        setLoading(false);
+        setStreamingMessageId((prev) => (prev === messageId ? null : prev));
+      }
+    }
+  }, [applyReplyEvent, refreshBranch]);
+
+  const stopGenerating = async () => {
+    if (!streamingMessageId) return;
+    try {
+      await fetch(`/api/chat/${streamingMessageId}/cancel`, { method: "POST" });
+    } catch (err) {
+      console.error("Failed to stop reply:", err);
+    }
+  };
+
+  const submitMessage = useCallback(async (messageText: string, branch?: BranchRequest) => {
+    const regenerate = branch?.regenerate;
+    const editOf = branch?.editOf;
+    if (!regenerate && !messageText.trim() && !imageFiles.length) return;
 
-    const uploadedUrls: string[] = [];
+    const uploadedUrls: string[] = editOf?.imageUrls ? [...editOf.imageUrls] : [];
 
-    for (const file of imageFiles) {
+    for (const file of branch ? [] : imageFiles) {
       try {
-        const blob = await upload(file.name, file, {
-          access: "public",
-          handleUploadUrl: "/api/upload/client",
-        });
-        uploadedUrls.push(blob.url);
+        uploadedUrls.push(await uploadImageFile(file));
       } catch {
         setImageError("Failed to upload image. Please try again.");
         return;
       }
     }
 
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      role: "user",
-      content: messageText,
-      imageUrls: uploadedUrls.length ? uploadedUrls : undefined,
-    };
-
-    setMessages((prev) => [...prev, userMessage]);
-    setInput("");
-    clearImages();
+    if (regenerate) {
+      // Later messages belong to the branch being replaced
+      setMessages((prev) => prev.slice(0, prev.findIndex((m) => m.id === regenerate.id) + 1));
+    } else {
+      const userMessage: Message = {
+        id: Date.now().toString(),
+        role: "user",
+        content: messageText,
+        imageUrls: uploadedUrls.length ? uploadedUrls : undefined,
+      };
+      setMessages((prev) => [...(editOf ? prev.slice(0, prev.findIndex((m) => m.id === editOf.id)) : prev), userMessage]);
+    }
+    if (!branch) {
+      setInput("");
+      clearImages();
+    }
     setLoading(true);
+    let streamConversationId = activeConversationId;
+    let serverMessageId: string | null = null;
+    let finished = false;
 
     const assistantMsgId = (Date.now() + 1).toString();
 
@@ -214,10 +438,12 @@ export default function ChatPageClient({
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           conversationId: activeConversationId,
-          message: messageText,
+          message: regenerate ? undefined : messageText,
           imageUrls: uploadedUrls.length ? uploadedUrls : undefined,
           model,
-          mode: chatMode,
+          mode: effectiveMode,
+          ...(editOf && { parentId: editOf.parentId ?? null }),
+          ...(regenerate && { regenerateId: regenerate.id }),
         }),
       });
 
@@ -226,63 +452,66 @@ export default function ChatPageClient({
         throw new Error(errData.error || "Chat request failed");
       }
 
-      const reader = res.body?.getReader();
-      if (!reader) throw new Error("No response stream");
-
-      const decoder = new TextDecoder();
-      let buffer = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n\n");
-        buffer = lines.pop() || "";
-
-        for (const line of lines) {
-          if (!line.startsWith("data: ")) continue;
-          const jsonStr = line.slice(6);
-          try {
-            const event = JSON.parse(jsonStr);
-            if (event.type === "meta" && event.conversationId && !activeConversationId) {
+      let replyId = assistantMsgId;
+      try {
+        finished = await readChatEvents(res, (event) => {
+          if (event.type === "meta") {
+            // Adopt the stored reply's id so it can be stopped or resumed
+            if (event.messageId) {
+              const serverId: string = event.messageId;
+              setMessages((prev) => prev.map((msg) => (msg.id === replyId ? { ...msg, id: serverId, status: "streaming" } : msg)));
+              replyId = serverId;
+              serverMessageId = serverId;
+              setStreamingMessageId(serverId);
+            }
+            if (event.conversationId && !activeConversationId) {
+              streamConversationId = event.conversationId;
               setActiveConversationId(event.conversationId);
               setConversations((prev) => [
                 {
                   id: event.conversationId,
                   title: messageText.slice(0, 50) || "New Chat",
                   updatedAt: new Date().toISOString(),
+                  folderId: null,
+                  tags: [],
+                  pinned: false,
+                  archived: false,
                 },
                 ...prev,
               ]);
-            } else if (event.type === "title" && event.title && event.conversationId) {
+            } else if (event.conversationId) {
+              // Writing in an archived conversation brings it back
               setConversations((prev) =>
-                prev.map((conv) =>
-                  conv.id === event.conversationId
-                    ? { ...conv, title: event.title }
-                    : conv
-                )
-              );
-            } else if (event.type === "thinking") {
-              setMessages((prev) =>
-                prev.map((msg) =>
-                  msg.id === assistantMsgId
-                    ? { ...msg, thinking: (msg.thinking || "") + event.content }
-                    : msg
-                )
-              );
-            } else if (event.type === "delta") {
-              setMessages((prev) =>
-                prev.map((msg) =>
-                  msg.id === assistantMsgId
-                    ? { ...msg, content: msg.content + event.content }
-                    : msg
-                )
+                prev.map((conv) => (conv.id === event.conversationId ? { ...conv, archived: false } : conv))
               );
             }
-          } catch {
-            // skip malformed JSON
+          } else if (event.type === "tags" && Array.isArray(event.tags) && event.conversationId) {
+            setConversations((prev) =>
+              prev.map((conv) => (conv.id === event.conversationId ? { ...conv, tags: event.tags } : conv))
+            );
+          } else if (event.type === "title" && event.title && event.conversationId) {
+            setConversations((prev) =>
+              prev.map((conv) =>
+                conv.id === event.conversationId
+                  ? { ...conv, title: event.title }
+                  : conv
+              )
+            );
+          } else {
+            applyReplyEvent(replyId, event);
           }
+        });
+      } catch (err) {
+        // A dropped connection leaves the reply generating on the server
+        if (!serverMessageId) throw err;
+        console.error("Chat stream interrupted:", err);
+      }
+
+      if (streamConversationId) {
+        if (!finished && serverMessageId) {
+          resumeReply(streamConversationId, serverMessageId);
+        } else {
+          refreshBranch(streamConversationId).catch((err) => console.error("Failed to reload conversation:", err));
         }
       }
     } catch (err) {
@@ -296,9 +525,14 @@ export default function ChatPageClient({
         )
       );
     } finally {
-      setLoading(false);
+      // A resumed reply keeps the loading state until it is done
+      if (finished || !serverMessageId) {
+        setLoading(false);
+        setStreamingMessageId(null);
+      }
+      refreshQuota();
     }
-  }, [activeConversationId, imageFiles, model, chatMode]);
+  }, [activeConversationId, imageFiles, uploadImageFile, model, effectiveMode, refreshQuota, refreshBranch, applyReplyEvent, resumeReply]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -314,6 +548,50 @@ export default function ChatPageClient({
     }
   };
 
+  const editMessage = (messageId: string, content: string) => {
+    const original = messages.find((m) => m.id === messageId);
+    if (original) submitMessage(content, { editOf: original });
+  };
+
+  const regenerateReply = (messageId: string) => {
+    const index = messages.findIndex((m) => m.id === messageId);
+    const prompt = messages[index - 1];
+    if (index > 0 && prompt.role === "user") submitMessage("", { regenerate: prompt });
+  };
+
+  const switchBranch = async (messageId: string) => {
+    if (!activeConversationId) return;
+    try {
+      const res = await fetch(`/api/conversations/${activeConversationId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ activeMessageId: messageId }),
+      });
+      if (!res.ok) throw new Error("Switch failed");
+      await refreshBranch(activeConversationId);
+    } catch (err) {
+      console.error("Failed to switch branch:", err);
+    }
+  };
+
+  const togglePin = async (messageId: string, pinned: boolean) => {
+    if (!activeConversationId) return;
+    const setPinned = (value: boolean) =>
+      setMessages((prev) => prev.map((msg) => (msg.id === messageId ? { ...msg, pinned: value } : msg)));
+    setPinned(pinned);
+    try {
+      const res = await fetch(`/api/conversations/${activeConversationId}/messages/${messageId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pinned }),
+      });
+      if (!res.ok) throw new Error("Pin failed");
+    } catch (err) {
+      console.error("Failed to pin message:", err);
+      setPinned(!pinned);
+    }
+  };
+
   const handleSuggestedTopic = (topic: string) => {
     setInput(topic);
     submitMessage(topic);
@@ -338,6 +616,91 @@ export default function ChatPageClient({
     }
   };
 
+  const updateConversation = async (convId: string, changes: ConversationChanges) => {
+    const previous = conversations.find((c) => c.id === convId);
+    if (!previous) return;
+    setConversations((prev) => prev.map((c) => (c.id === convId ? { ...c, ...changes } : c)));
+    try {
+      const res = await fetch(`/api/conversations/${convId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to update conversation");
+      setConversations((prev) => prev.map((c) => (c.id === convId ? data.conversation : c)));
+    } catch (err) {
+      setConversations((prev) => prev.map((c) => (c.id === convId ? previous : c)));
+      toast.error(err instanceof Error ? err.message : "Failed to update conversation");
+    }
+  };
+
+  const loadArchived = async () => {
+    setArchive((prev) => ({ ...prev, loading: true }));
+    try {
+      const res = await fetch(`/api/conversations?archived=true&offset=${archive.offset}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to load the archive");
+      // Some may already be here, archived this session or opened from a link
+      setConversations((prev) => [
+        ...prev,
+        ...data.conversations.filter((c: Conversation) => !prev.some((p) => p.id === c.id)),
+      ]);
+      setArchive({ loaded: true, loading: false, hasMore: data.hasMore, offset: archive.offset + data.conversations.length });
+    } catch (err) {
+      setArchive((prev) => ({ ...prev, loading: false }));
+      toast.error(err instanceof Error ? err.message : "Failed to load the archive");
+    }
+  };
+
+  const sortFolders = (list: ConversationFolder[]) => [...list].sort((a, b) => a.name.localeCompare(b.name));
+
+  const createFolder = async (name: string): Promise<boolean> => {
+    try {
+      const res = await fetch("/api/conversations/folders", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to create folder");
+      setFolders((prev) => sortFolders([...prev, data.folder]));
+      return true;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to create folder");
+      return false;
+    }
+  };
+
+  const renameFolder = async (folderId: string, name: string): Promise<boolean> => {
+    try {
+      const res = await fetch(`/api/conversations/folders/${folderId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to rename folder");
+      setFolders((prev) => sortFolders(prev.map((f) => (f.id === folderId ? data.folder : f))));
+      return true;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to rename folder");
+      return false;
+    }
+  };
+
+  const deleteFolder = async (folderId: string) => {
+    try {
+      const res = await fetch(`/api/conversations/folders/${folderId}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Failed to delete folder");
+      setFolders((prev) => prev.filter((f) => f.id !== folderId));
+      setConversations((prev) => prev.map((c) => (c.folderId === folderId ? { ...c, folderId: null } : c)));
+      toast.success("Folder deleted; its conversations were kept");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete folder");
+    }
+  };
+
   const copyMessage = async (messageId: string, content: string) => {
     await navigator.clipboard.writeText(content);
     setCopiedMessageId(messageId);
@@ -350,13 +713,23 @@ export default function ChatPageClient({
     <div className="flex h-[calc(100vh-5rem)] sm:h-[calc(100vh-6.5rem)] overflow-hidden -m-3 sm:-m-6">
       <ChatSidebar
         conversations={conversations}
+        folders={folders}
         activeConversationId={activeConversationId}
         conversationLimit={conversationLimit}
         searchQuery={searchQuery}
         onSearchChange={setSearchQuery}
+        messageResults={messageResults}
+        searchingMessages={searchingMessages}
+        onSelectMessageResult={loadConversation}
         onSelectConversation={loadConversation}
         onNewChat={createNewChat}
         onDeleteConversation={deleteConversation}
+        onUpdateConversation={updateConversation}
+        onCreateFolder={createFolder}
+        onRenameFolder={renameFolder}
+        onDeleteFolder={deleteFolder}
+        archive={archive}
+        onLoadArchived={loadArchived}
         confirmDeleteId={confirmDeleteId}
         sidebarOpen={sidebarOpen}
         isMobile={isMobile}
@@ -387,19 +760,34 @@ export default function ChatPageClient({
           </div>
 
           <div className="flex items-center gap-1.5 sm:gap-2 shrink-0">
+            {activeConversationId && messages.length > 0 && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setShareTarget({ conversationId: activeConversationId, messageId: null })}
+                disabled={loading}
+                className="h-8 gap-1.5 text-xs px-2 sm:px-3"
+                title="Share a read-only link or ask a TA"
+              >
+                <Share2 className="h-3.5 w-3.5" />
+                <span className="hidden sm:inline">Share</span>
+              </Button>
+            )}
             {!examModeActive && (
               <Button
                 type="button"
-                variant={chatMode === "socratic" ? "outline" : "ghost"}
+                variant={effectiveMode === "socratic" ? "outline" : "ghost"}
                 size="sm"
                 onClick={() => setChatMode(chatMode === "socratic" ? "normal" : "socratic")}
+                disabled={socraticRequired}
                 className={cn(
                   "h-8 gap-1.5 text-xs px-2 sm:px-3",
-                  chatMode === "socratic"
+                  effectiveMode === "socratic"
                     ? "bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-400 border-amber-300 dark:border-amber-700 hover:bg-amber-200 dark:hover:bg-amber-900/60 hover:text-amber-800 dark:hover:text-amber-300"
                     : ""
                 )}
-                title="Socratic guided mode"
+                title={socraticRequired ? "Required while this assignment is open" : "Socratic guided mode"}
               >
                 <Lightbulb className="h-3.5 w-3.5" />
                 <span className="hidden sm:inline">Socratic</span>
@@ -455,9 +843,23 @@ export default function ChatPageClient({
           </div>
         </div>
 
-        {chatMode === "socratic" && !examModeActive && (
+        {effectiveMode === "socratic" && !examModeActive && (
           <div className="px-4 py-2 bg-amber-50 dark:bg-amber-950/50 border-b border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-400 text-xs text-center">
-            Socratic guided mode: AI will guide your thinking through questions rather than giving direct answers
+            {socraticRequired
+              ? "This assignment is graded and still open: AI will guide your thinking through questions rather than giving the answer"
+              : "Socratic guided mode: AI will guide your thinking through questions rather than giving direct answers"}
+          </div>
+        )}
+
+        {activeConversation?.archived && (
+          <div className="px-4 py-2 bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-800 text-gray-600 dark:text-gray-400 text-xs text-center">
+            This conversation is archived. Sending a message moves it back to your active conversations.
+          </div>
+        )}
+
+        {question && !question.allowed && (
+          <div className="px-4 py-2 bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-800 text-gray-600 dark:text-gray-400 text-xs text-center">
+            Your instructor has turned off the AI tutor for this assignment.
           </div>
         )}
 
@@ -481,6 +883,26 @@ export default function ChatPageClient({
           messagesEndRef={messagesEndRef}
           onSuggestedTopic={handleSuggestedTopic}
           onCopyMessage={copyMessage}
+          question={question}
+          onEditMessage={loading ? undefined : editMessage}
+          onRegenerate={loading ? undefined : regenerateReply}
+          onSwitchBranch={loading ? undefined : switchBranch}
+          onTogglePin={loading ? undefined : togglePin}
+          highlightedMessageId={highlightedMessageId}
+          onShare={loading || !activeConversationId ? undefined : (messageId) => setShareTarget({ conversationId: activeConversationId, messageId })}
+        />
+
+        <ShareDialog
+          conversationId={shareTarget?.conversationId ?? null}
+          messageId={shareTarget?.messageId}
+          onOpenChange={(open) => !open && setShareTarget(null)}
+        />
+
+        <TranscriptionDialog
+          source={transcribeSource}
+          insertLabel="Add to message"
+          onInsert={(markdown) => setInput((prev) => (prev.trim() ? `${prev.trimEnd()}\n\n${markdown}` : markdown))}
+          onOpenChange={(open) => !open && setTranscribeSource(null)}
         />
 
         <ChatInput
@@ -493,8 +915,11 @@ export default function ChatPageClient({
           onImageSelect={handleImageSelect}
           onRemoveImage={removeImage}
           onClearImageError={() => setImageError(null)}
+          onTranscribeImage={transcribeImage}
           onSubmit={handleSubmit}
           onKeyDown={handleKeyDown}
+          quota={chatQuota}
+          onStop={loading && streamingMessageId ? stopGenerating : undefined}
         />
       </div>
     </div>
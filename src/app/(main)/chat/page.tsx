@@ -1,6 +1,7 @@
 import { getEffectiveSession } from "@/lib/impersonate";
-import { prisma } from "@/lib/prisma";
 import { redirect } from "next/navigation";
+import { MAX_ACTIVE_CONVERSATIONS } from "@/lib/constants";
+import { listConversations, listFolders } from "@/lib/services/conversation-service";
 import ChatPageClient from "./ChatPageClient";
 
 export default async function ChatPage() {
@@ -9,26 +10,14 @@ export default async function ChatPage() {
 
   const user = session.user as { id: string; name?: string | null; role?: string };
 
-  const conversations = await prisma.conversation.findMany({
-    where: { userId: user.id, isDeleted: false },
-    orderBy: { updatedAt: "desc" },
-    take: 50,
-    select: {
-      id: true,
-      title: true,
-      updatedAt: true,
-    },
-  });
+  const [conversations, folders] = await Promise.all([listConversations(user.id), listFolders(user.id)]);
 
   return (
     <ChatPageClient
-      conversations={conversations.map((c) => ({
-        id: c.id,
-        title: c.title,
-        updatedAt: c.updatedAt.toISOString(),
-      }))}
+      conversations={conversations}
+      folders={folders}
       userId={user.id}
-      conversationLimit={50}
+      conversationLimit={MAX_ACTIVE_CONVERSATIONS}
     />
   );
 }
@@ -3,6 +3,7 @@ import { prisma } from "@/lib/prisma";
 import { redirect } from "next/navigation";
 import { formatDate } from "@/lib/utils";
 import { isStaff } from "@/lib/constants";
+import { courseAssignmentWhere, getCourseScope } from "@/lib/courses";
 import DashboardClient from "./DashboardClient";
 
 export const dynamic = "force-dynamic";
@@ -14,11 +15,12 @@ export default async function DashboardPage() {
   const user = session.user as { id: string; name?: string | null; role?: string };
   const userId = user.id;
   const role = (user.role as string) || "STUDENT";
+  const courseAssignments = courseAssignmentWhere(await getCourseScope({ id: userId, role }));
 
   const [conversationCount, assignmentCount, submissionCount] = await Promise.all([
     prisma.conversation.count({ where: { userId } }),
-    prisma.assignment.count({ where: { published: true } }),
-    prisma.submission.count({ where: { userId } }),
+    prisma.assignment.count({ where: { published: true, isDeleted: false, ...courseAssignments } }),
+    prisma.submission.count({ where: { userId, assignment: courseAssignments } }),
   ]);
 
   const recentConversations = await prisma.conversation.findMany({
@@ -35,7 +37,9 @@ export default async function DashboardPage() {
 
   const upcomingAssignments = await prisma.assignment.findMany({
     where: {
+      ...courseAssignments,
       published: true,
+      isDeleted: false,
       dueDate: { gte: new Date() },
     },
     orderBy: { dueDate: "asc" },
@@ -57,16 +61,16 @@ export default async function DashboardPage() {
   if (isStaff(role)) {
     const [pendingGrading, createdAssignments, openAppealCount, recentAppeals] = await Promise.all([
       prisma.submission.count({
-        where: { gradedAt: null, isDraft: false },
+        where: { gradedAt: null, isDraft: false, assignment: courseAssignments },
       }),
       prisma.assignment.count({
-        where: { createdById: userId },
+        where: { createdById: userId, ...courseAssignments },
       }),
       prisma.gradeAppeal.count({
-        where: { status: "OPEN" },
+        where: { status: "OPEN", submissionAnswer: { submission: { assignment: courseAssignments } } },
       }),
       prisma.gradeAppeal.findMany({
-        where: { status: "OPEN" },
+        where: { status: "OPEN", submissionAnswer: { submission: { assignment: courseAssignments } } },
         include: {
           student: { select: { name: true } },
           submissionAnswer: {
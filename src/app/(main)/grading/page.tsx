@@ -16,6 +16,7 @@ import {
   Search,
   ChevronDown,
   Filter,
+  CalendarClock,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -50,13 +51,20 @@ import {
 import { SubmissionList } from "@/components/grading/SubmissionList";
 import { GradingPanel } from "@/components/grading/GradingPanel";
 import { OverallGradeForm } from "@/components/grading/OverallGradeForm";
+import { ExtensionsDialog } from "@/components/grading/ExtensionsDialog";
+import { formatLateness, removeLatePenalty } from "@/lib/grading/late-policy";
 import type {
   AssignmentInfo,
   SubmissionForGrading,
   Appeal,
+  AnswerGrade,
+  QuestionRubric,
+  RubricItem,
   GradingMode,
   FilterMode,
 } from "@/components/grading/types";
+import { computeRubricScore, type RubricScoringMode } from "@/lib/grading/rubric";
+import type { RecalculatedScores } from "@/lib/services/rubric-service";
 
 interface AssignmentOption {
   id: string;
@@ -94,7 +102,7 @@ const GRADING_STATE_VERSION = 1;
 
 interface GradingDraftData {
   _version: number;
-  grades: Record<string, { score: number; feedback: string }>;
+  grades: Record<string, AnswerGrade>;
   confirmedAnswers: string[];
   overallGrade: { score: number; feedback: string; confirmed: boolean };
   feedbackImages: Record<string, string[]>;
@@ -138,7 +146,8 @@ export default function GradingPage() {
   const [loading, setLoading] = useState(true);
   const [loadingSubmissions, setLoadingSubmissions] = useState(false);
   const [selectedSubmission, setSelectedSubmission] = useState<SubmissionForGrading | null>(null);
-  const [grades, setGrades] = useState<Record<string, { score: number; feedback: string }>>({});
+  const [grades, setGrades] = useState<Record<string, AnswerGrade>>({});
+  const [rubrics, setRubrics] = useState<Record<string, QuestionRubric>>({});
   // Consolidated: overall grade state (score, feedback, confirmed)
   const [overallGrade, setOverallGrade] = useState<OverallGradeState>({
     score: 0,
@@ -149,6 +158,9 @@ export default function GradingPage() {
   const [saving, setSaving] = useState(false);
   const [aiLoading, setAiLoading] = useState<string | null>(null);
   const [filterMode, setFilterMode] = useState<FilterMode>("all");
+  const [extensionsOpen, setExtensionsOpen] = useState(false);
+  // Refetch on close rather than on every change so the open submission stays selected while editing
+  const extensionsChangedRef = useRef(false);
   // Consolidated: feedback file state (file object, url)
   const [feedbackFileState, setFeedbackFileState] = useState<FeedbackFileState>({
     file: null,
@@ -222,7 +234,7 @@ export default function GradingPage() {
   }, [selectedSubmission, saveAllToLocalStorage]);
 
   // Server auto-save for grading drafts (5-second debounce)
-  const saveGradingDraft = useCallback(async (data: Record<string, { score: number; feedback: string }>) => {
+  const saveGradingDraft = useCallback(async (data: Record<string, AnswerGrade>) => {
     if (!selectedSubmission) return;
     const gradeEntries = Object.entries(data);
     if (gradeEntries.length === 0) return;
@@ -236,6 +248,7 @@ export default function GradingPage() {
           answerId,
           score: g.score,
           feedback: g.feedback,
+          rubricItemIds: g.rubricItemIds,
         })),
       }),
     });
@@ -286,6 +299,7 @@ export default function GradingPage() {
       .then((data) => {
         setAssignmentInfo(data.assignment || null);
         setSubmissions(data.submissions || []);
+        setRubrics(data.rubrics || {});
         setLoadingSubmissions(false);
       })
       .catch(() => setLoadingSubmissions(false));
@@ -313,7 +327,7 @@ export default function GradingPage() {
     let restored = false;
 
     // Grades
-    const initialGrades: Record<string, { score: number; feedback: string }> = {};
+    const initialGrades: Record<string, AnswerGrade> = {};
     sub.answers.forEach((a) => {
       if (saved?.grades?.[a.id]) {
         initialGrades[a.id] = saved.grades[a.id];
@@ -324,6 +338,7 @@ export default function GradingPage() {
         initialGrades[a.id] = {
           score: a.score || 0,
           feedback: a.feedback || "",
+          rubricItemIds: a.rubricItemIds?.length ? a.rubricItemIds : undefined,
         };
       }
     });
@@ -333,7 +348,8 @@ export default function GradingPage() {
     // Confirmed answers & overall grade (consolidated)
     setConfirmedAnswers(new Set(saved?.confirmedAnswers || []));
     setOverallGrade({
-      score: saved?.overallGrade?.score ?? sub.totalScore ?? 0,
+      // The form takes the earned score; the late penalty is deducted on save
+      score: saved?.overallGrade?.score ?? (sub.totalScore !== null ? removeLatePenalty(sub.totalScore, sub.latePenalty) : null) ?? 0,
       feedback: saved?.overallGrade?.feedback ?? sub.overallFeedback ?? "",
       confirmed: saved?.overallGrade?.confirmed ?? false,
     });
@@ -380,6 +396,8 @@ export default function GradingPage() {
           [answerId]: {
             score: data.suggestedScore,
             feedback: data.suggestedFeedback,
+            // An AI-suggested score replaces any rubric-derived one
+            rubricItemIds: prev[answerId]?.rubricItemIds?.length ? [] : undefined,
           },
         }));
       }
@@ -406,6 +424,145 @@ export default function GradingPage() {
     }));
   };
 
+  const answerMaxPoints = (answerId: string) =>
+    selectedSubmission?.answers.find((a) => a.id === answerId)?.maxPoints ?? 0;
+
+  /** Re-derive unsaved scores of answers on this question that use rubric items. */
+  const rescoreRubricGrades = (questionId: string, rubric: QuestionRubric) => {
+    const answerIds = new Set(
+      selectedSubmission?.answers.filter((a) => a.questionId === questionId).map((a) => a.id) ?? []
+    );
+    setGrades((prev) => {
+      const next = { ...prev };
+      for (const [answerId, g] of Object.entries(prev)) {
+        if (!answerIds.has(answerId) || !g.rubricItemIds) continue;
+        const rubricItemIds = g.rubricItemIds.filter((id) => rubric.items.some((i) => i.id === id));
+        const applied = rubric.items.filter((i) => rubricItemIds.includes(i.id)).map((i) => i.points);
+        next[answerId] = {
+          ...g,
+          rubricItemIds,
+          // Losing its last item drops an answer to the base score, as the server recalculates it
+          score: g.rubricItemIds.length > 0 ? computeRubricScore(answerMaxPoints(answerId), rubric.scoring, applied) : g.score,
+        };
+      }
+      return next;
+    });
+  };
+
+  /** Apply server-side rescoring of already-saved answers after a rubric change. */
+  const applyRecalculated = (recalculated: RecalculatedScores) => {
+    const scores = new Map(recalculated.answers.map((a) => [a.id, a.score]));
+    const totals = new Map(recalculated.submissions.map((s) => [s.id, s.totalScore]));
+    const update = (s: SubmissionForGrading): SubmissionForGrading => ({
+      ...s,
+      totalScore: totals.has(s.id) ? (totals.get(s.id) ?? null) : s.totalScore,
+      answers: s.answers.map((a) => (scores.has(a.id) ? { ...a, score: scores.get(a.id) ?? a.score } : a)),
+    });
+    setSubmissions((prev) => prev.map(update));
+    setSelectedSubmission((prev) => (prev ? update(prev) : prev));
+  };
+
+  const updateRubric = (questionId: string, rubric: QuestionRubric) => {
+    setRubrics((prev) => ({ ...prev, [questionId]: rubric }));
+    rescoreRubricGrades(questionId, rubric);
+  };
+
+  const handleToggleRubricItem = (answerId: string, questionId: string, itemId: string) => {
+    const rubric = rubrics[questionId];
+    if (!rubric) return;
+    setGrades((prev) => {
+      const current = prev[answerId] ?? { score: 0, feedback: "" };
+      const ids = current.rubricItemIds ?? [];
+      const rubricItemIds = ids.includes(itemId) ? ids.filter((id) => id !== itemId) : [...ids, itemId];
+      const applied = rubric.items.filter((i) => rubricItemIds.includes(i.id)).map((i) => i.points);
+      return {
+        ...prev,
+        [answerId]: {
+          ...current,
+          rubricItemIds,
+          // With every item removed this is the rubric's base score, which can then be edited by hand
+          score: computeRubricScore(answerMaxPoints(answerId), rubric.scoring, applied),
+        },
+      };
+    });
+  };
+
+  const handleCreateRubricItem = async (questionId: string, description: string, points: number) => {
+    const res = await fetch("/api/rubrics", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ questionId, description, points }),
+    });
+    if (!res.ok) {
+      toast.error("Failed to add rubric item");
+      return;
+    }
+    const data: { item: RubricItem } = await res.json();
+    setRubrics((prev) => {
+      const rubric = prev[questionId] ?? { scoring: "positive", items: [] };
+      return { ...prev, [questionId]: { ...rubric, items: [...rubric.items, data.item] } };
+    });
+  };
+
+  const handleUpdateRubricItem = async (
+    questionId: string,
+    itemId: string,
+    patch: { description: string; points: number }
+  ) => {
+    const res = await fetch(`/api/rubrics/${itemId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(patch),
+    });
+    if (!res.ok) {
+      toast.error("Failed to update rubric item");
+      return;
+    }
+    const data: { item: RubricItem; recalculated: RecalculatedScores } = await res.json();
+    const rubric = rubrics[questionId];
+    if (rubric) {
+      updateRubric(questionId, {
+        ...rubric,
+        items: rubric.items.map((i) => (i.id === itemId ? data.item : i)),
+      });
+    }
+    applyRecalculated(data.recalculated);
+    if (data.recalculated.answers.length > 0) {
+      const count = data.recalculated.answers.length;
+      toast.success(`Rescored ${count} answer${count === 1 ? "" : "s"}`);
+    }
+  };
+
+  const handleDeleteRubricItem = async (questionId: string, itemId: string) => {
+    const res = await fetch(`/api/rubrics/${itemId}`, { method: "DELETE" });
+    if (!res.ok) {
+      toast.error("Failed to delete rubric item");
+      return;
+    }
+    const data: { recalculated: RecalculatedScores } = await res.json();
+    const rubric = rubrics[questionId];
+    if (rubric) {
+      updateRubric(questionId, { ...rubric, items: rubric.items.filter((i) => i.id !== itemId) });
+    }
+    applyRecalculated(data.recalculated);
+  };
+
+  const handleRubricScoringChange = async (questionId: string, scoring: RubricScoringMode) => {
+    const res = await fetch("/api/rubrics", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ questionId, scoring }),
+    });
+    if (!res.ok) {
+      toast.error("Failed to change rubric scoring");
+      return;
+    }
+    const data: { scoring: RubricScoringMode; recalculated: RecalculatedScores } = await res.json();
+    const rubric = rubrics[questionId] ?? { scoring, items: [] };
+    updateRubric(questionId, { ...rubric, scoring: data.scoring });
+    applyRecalculated(data.recalculated);
+  };
+
   const handleToggleConfirm = (answerId: string) => {
     setConfirmedAnswers((prev) => {
       const next = new Set(prev);
@@ -453,6 +610,7 @@ export default function GradingPage() {
           answerId,
           score: g.score,
           feedback: g.feedback,
+          rubricItemIds: g.rubricItemIds,
         }));
         // Include feedback images keyed by answerId
         const hasAnyImages = Object.values(feedbackImages).some((imgs) => imgs.length > 0);
@@ -742,6 +900,24 @@ export default function GradingPage() {
               <span className="sm:hidden">Export</span>
             </Button>
 
+            <Button variant="outline" size="sm" className="gap-1.5" onClick={() => setExtensionsOpen(true)}>
+              <CalendarClock className="h-3.5 w-3.5" />
+              <span className="hidden sm:inline">Extensions</span>
+            </Button>
+            <ExtensionsDialog
+              assignmentId={selectedAssignmentId}
+              assignmentInfo={assignmentInfo}
+              open={extensionsOpen}
+              onOpenChange={(open) => {
+                setExtensionsOpen(open);
+                if (!open && extensionsChangedRef.current) {
+                  extensionsChangedRef.current = false;
+                  fetchSubmissions(selectedAssignmentId);
+                }
+              }}
+              onChanged={() => { extensionsChangedRef.current = true; }}
+            />
+
             <div className="flex flex-wrap items-center gap-2 sm:ml-auto">
               <span className="flex items-center gap-1.5 text-xs font-medium text-emerald-600 bg-emerald-50 dark:bg-emerald-950 px-2.5 py-1 rounded-full border border-emerald-200 dark:border-emerald-800">
                 <CheckCircle2 className="h-3 w-3" />
@@ -801,9 +977,10 @@ export default function GradingPage() {
                           &middot; Graded by {selectedSubmission.gradedByName}
                         </p>
                       )}
-                      {assignmentInfo?.dueDate && new Date(selectedSubmission.submittedAt) > new Date(assignmentInfo.dueDate) && (
+                      {selectedSubmission.lateMinutes > 0 && (
                         <Badge className="bg-red-50 dark:bg-red-950 text-red-700 dark:text-red-400 border-red-200 dark:border-red-800 text-[10px]">
-                          Late
+                          Late &middot; {formatLateness(selectedSubmission.lateMinutes)}
+                          {selectedSubmission.latePenalty > 0 && ` · −${selectedSubmission.latePenalty}% applied to the total`}
                         </Badge>
                       )}
                       {allAutoGraded && selectedSubmission.answers.length > 0 && (
@@ -927,6 +1104,12 @@ export default function GradingPage() {
                       answers={selectedSubmission.answers}
                       grades={grades}
                       onGradeChange={handleGradeChange}
+                      rubrics={rubrics}
+                      onToggleRubricItem={handleToggleRubricItem}
+                      onCreateRubricItem={handleCreateRubricItem}
+                      onUpdateRubricItem={handleUpdateRubricItem}
+                      onDeleteRubricItem={handleDeleteRubricItem}
+                      onRubricScoringChange={handleRubricScoringChange}
                       confirmedAnswers={confirmedAnswers}
                       onToggleConfirm={handleToggleConfirm}
                       aiLoading={aiLoading}
@@ -0,0 +1,114 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { GraduationCap, Inbox } from "lucide-react";
+import { getEffectiveSession } from "@/lib/impersonate";
+import { prisma } from "@/lib/prisma";
+import { isStaff } from "@/lib/constants";
+import { staffInboxWhere } from "@/lib/services/chat-share-service";
+import { cn, formatShortDate } from "@/lib/utils";
+import { EmptyState } from "@/components/ui/empty-state";
+
+/** Conversations students sent to staff from "Share", oldest open first */
+export default async function ChatInboxPage({ searchParams }: { searchParams: { status?: string } }) {
+  const session = await getEffectiveSession();
+  if (!session?.user) redirect("/login");
+  const user = session.user as { id: string; role?: string };
+  if (!isStaff(user.role || "STUDENT")) redirect("/dashboard");
+
+  const resolved = searchParams.status === "resolved";
+  const shares = await prisma.conversationShare.findMany({
+    where: {
+      escalatedAt: { not: null },
+      resolvedAt: resolved ? { not: null } : null,
+      revokedAt: null,
+      conversation: { isDeleted: false },
+      AND: [await staffInboxWhere({ id: user.id, role: user.role || "STUDENT" })],
+    },
+    orderBy: resolved ? { resolvedAt: "desc" } : { escalatedAt: "asc" },
+    take: 100,
+    include: {
+      resolvedBy: { select: { name: true } },
+      conversation: {
+        select: {
+          title: true,
+          user: { select: { name: true, studentId: true } },
+          // The latest staff reply tells whether someone has answered already
+          messages: {
+            where: { authorId: { not: null } },
+            orderBy: { createdAt: "desc" },
+            take: 1,
+            select: { createdAt: true, author: { select: { name: true } } },
+          },
+        },
+      },
+    },
+  });
+
+  const tab = "px-3 py-1.5 rounded-lg text-sm font-medium transition-colors";
+  return (
+    <div className="space-y-6 max-w-4xl">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight text-gray-900 dark:text-gray-100">Chat Inbox</h1>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">AI tutor conversations students asked staff to look at</p>
+      </div>
+
+      <div className="flex gap-1">
+        <Link
+          href="/inbox"
+          className={cn(tab, !resolved ? "bg-gray-900 text-white dark:bg-gray-100 dark:text-gray-900" : "text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800")}
+        >
+          Open
+        </Link>
+        <Link
+          href="/inbox?status=resolved"
+          className={cn(tab, resolved ? "bg-gray-900 text-white dark:bg-gray-100 dark:text-gray-900" : "text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800")}
+        >
+          Resolved
+        </Link>
+      </div>
+
+      {shares.length === 0 ? (
+        <EmptyState
+          icon={Inbox}
+          title={resolved ? "Nothing resolved yet" : "Inbox is empty"}
+          description={resolved ? undefined : "Conversations students send to staff appear here"}
+        />
+      ) : (
+        <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-100 dark:border-gray-800 divide-y divide-gray-100 dark:divide-gray-800 shadow-sm">
+          {shares.map((share) => {
+            const lastReply = share.conversation.messages[0];
+            const answered = lastReply && share.escalatedAt && lastReply.createdAt > share.escalatedAt;
+            return (
+              <Link
+                key={share.id}
+                href={`/share/${share.token}`}
+                className="flex items-start gap-4 px-5 py-4 hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors"
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{share.conversation.title}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {share.conversation.user.name || "Student"}
+                    {share.conversation.user.studentId && ` (${share.conversation.user.studentId})`}
+                    {" · "}
+                    {resolved && share.resolvedAt
+                      ? `resolved ${formatShortDate(share.resolvedAt)}${share.resolvedBy?.name ? ` by ${share.resolvedBy.name}` : ""}`
+                      : `asked ${formatShortDate(share.escalatedAt!)}`}
+                  </p>
+                  {share.note && (
+                    <p className="mt-1.5 text-sm text-gray-600 dark:text-gray-300 line-clamp-2">{share.note}</p>
+                  )}
+                </div>
+                {answered && (
+                  <span className="inline-flex shrink-0 items-center gap-1 rounded-full bg-emerald-100 dark:bg-emerald-900/50 px-2 py-0.5 text-[11px] font-medium text-emerald-700 dark:text-emerald-400">
+                    <GraduationCap className="h-3 w-3" />
+                    Replied{lastReply.author?.name ? ` · ${lastReply.author.name}` : ""}
+                  </span>
+                )}
+              </Link>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
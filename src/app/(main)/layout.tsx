@@ -1,5 +1,6 @@
 import { redirect } from "next/navigation";
 import { getEffectiveSession } from "@/lib/impersonate";
+import { getCourseScope } from "@/lib/courses";
 import MainLayoutClient from "./MainLayoutClient";
 
 export default async function MainLayout({
@@ -28,6 +29,10 @@ export default async function MainLayout({
     role?: string;
   };
 
+  const courseScope = session?.user
+    ? await getCourseScope({ id: user.id, role: user.role || "STUDENT" })
+    : { course: null, courses: [] };
+
   return (
     <MainLayoutClient
       userName={user.name || "User"}
@@ -37,6 +42,8 @@ export default async function MainLayout({
       userId={user.id}
       isImpersonating={session?.isImpersonating}
       realAdminName={session?.realAdmin?.name || undefined}
+      courses={courseScope.courses}
+      activeCourseId={courseScope.course?.id ?? null}
     >
       {children}
     </MainLayoutClient>
@@ -0,0 +1,393 @@
+"use client";
+
+import React, { useEffect, useState, useCallback, useRef } from "react";
+import {
+  Library,
+  Upload,
+  Trash2,
+  RefreshCw,
+  Search,
+  FileText,
+  CheckCircle2,
+  XCircle,
+  Loader2,
+  AlertTriangle,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { EmptyState } from "@/components/ui/empty-state";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { KNOWLEDGE_KINDS, KNOWLEDGE_KIND_LABELS, type KnowledgeKind } from "@/lib/knowledge/citations";
+import { hallidaySectionTitle } from "@/lib/knowledge/chunking";
+import { formatShortDate } from "@/lib/utils";
+
+interface KnowledgeDocument {
+  id: string;
+  title: string;
+  kind: KnowledgeKind;
+  filename: string;
+  fileUrl: string | null;
+  status: "PROCESSING" | "READY" | "FAILED";
+  error: string | null;
+  pageCount: number | null;
+  chunkCount: number;
+  embeddingModel: string | null;
+  createdAt: string;
+  uploadedBy: { id: string; name: string | null };
+}
+
+interface SearchResult {
+  documentId: string;
+  page: number | null;
+  heading: string | null;
+  section: string | null;
+  score: number;
+  content: string;
+}
+
+export default function CourseMaterialsPage() {
+  const [course, setCourse] = useState<{ id: string; name: string; code: string | null } | null>(null);
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [embeddingModel, setEmbeddingModel] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [file, setFile] = useState<File | null>(null);
+  const [title, setTitle] = useState("");
+  const [kind, setKind] = useState<KnowledgeKind>("notes");
+  const [uploading, setUploading] = useState(false);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchDocuments = useCallback(() => {
+    fetch("/api/knowledge")
+      .then((res) => (res.ok ? res.json() : Promise.reject()))
+      .then((data) => {
+        setCourse(data.course);
+        setDocuments(data.documents || []);
+        setEmbeddingModel(data.embeddingModel);
+      })
+      .catch(() => setDocuments([]))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    fetchDocuments();
+  }, [fetchDocuments]);
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    setUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      if (title.trim()) formData.append("title", title.trim());
+      formData.append("kind", kind);
+      const res = await fetch("/api/knowledge", { method: "POST", body: formData });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast.error(data.error || "Upload failed");
+        return;
+      }
+      if (data.document?.status === "FAILED") {
+        toast.error(data.document.error || "Indexing failed");
+      } else {
+        toast.success(`Indexed ${data.document?.chunkCount ?? 0} passages`);
+      }
+      setFile(null);
+      setTitle("");
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      fetchDocuments();
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+    setSearching(true);
+    try {
+      const res = await fetch(`/api/knowledge?q=${encodeURIComponent(query.trim())}`);
+      const data = await res.json().catch(() => ({}));
+      setResults(res.ok ? data.results : []);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleReindex = async (id: string) => {
+    setBusyId(id);
+    try {
+      const res = await fetch(`/api/knowledge/${id}`, { method: "POST" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        toast.error(data.error || "Re-indexing failed");
+      }
+      fetchDocuments();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteId) return;
+    setBusyId(deleteId);
+    try {
+      const res = await fetch(`/api/knowledge/${deleteId}`, { method: "DELETE" });
+      if (res.ok) fetchDocuments();
+      else toast.error("Failed to delete document");
+    } finally {
+      setBusyId(null);
+      setDeleteId(null);
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner message="Loading course materials..." />;
+  }
+
+  if (!course) {
+    return (
+      <EmptyState
+        icon={Library}
+        title="No course selected"
+        description="Pick a course in the course switcher to manage its materials."
+      />
+    );
+  }
+
+  const titleById = new Map(documents.map((d) => [d.id, d.title]));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight text-gray-900 dark:text-gray-100">Course Materials</h1>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          Notes and problem sets the AI tutor draws on and cites for {course.code || course.name}.
+        </p>
+      </div>
+
+      {/* Upload */}
+      <form
+        onSubmit={handleUpload}
+        className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-100 dark:border-gray-800 p-4 shadow-sm space-y-3"
+      >
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div className="space-y-1.5">
+            <Label htmlFor="material-file">File (PDF, Markdown or text)</Label>
+            <Input
+              id="material-file"
+              ref={fileInputRef}
+              type="file"
+              accept=".pdf,.md,.markdown,.txt"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="material-title">Title</Label>
+            <Input
+              id="material-title"
+              placeholder={file ? file.name.replace(/\.[^.]+$/, "") : "e.g. Lecture 3: Kinematics"}
+              maxLength={200}
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Type</Label>
+            <Select value={kind} onValueChange={(v) => setKind(v as KnowledgeKind)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {KNOWLEDGE_KINDS.map((k) => (
+                  <SelectItem key={k} value={k}>{KNOWLEDGE_KIND_LABELS[k]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-xs text-gray-400 dark:text-gray-500">
+            PDFs need a text layer; scanned pages are skipped. Students only see passages the tutor cites.
+          </p>
+          <Button type="submit" size="sm" disabled={!file || uploading} className="gap-1.5 shrink-0">
+            {uploading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Upload className="h-3.5 w-3.5" />}
+            {uploading ? "Indexing..." : "Upload"}
+          </Button>
+        </div>
+      </form>
+
+      {/* Documents */}
+      {documents.length === 0 ? (
+        <EmptyState
+          icon={Library}
+          title="No materials yet"
+          description="Upload lecture notes or problem sets and the tutor will cite them in its answers."
+        />
+      ) : (
+        <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-100 dark:border-gray-800 overflow-hidden shadow-sm divide-y divide-gray-100 dark:divide-gray-800">
+          {documents.map((doc) => {
+            const stale = doc.status === "READY" && doc.embeddingModel !== embeddingModel;
+            return (
+              <div key={doc.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between px-4 sm:px-6 py-3 gap-2">
+                <div className="flex items-start gap-3 min-w-0">
+                  <FileText className="h-4 w-4 text-gray-400 mt-0.5 shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                      {doc.fileUrl ? (
+                        <a href={doc.fileUrl} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                          {doc.title}
+                        </a>
+                      ) : (
+                        doc.title
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-400 dark:text-gray-500">
+                      {KNOWLEDGE_KIND_LABELS[doc.kind] ?? doc.kind} · {doc.filename}
+                      {doc.pageCount ? ` · ${doc.pageCount} pages` : ""} · {doc.chunkCount} passages ·{" "}
+                      {doc.uploadedBy.name || "Unknown"}, {formatShortDate(doc.createdAt)}
+                    </p>
+                    {doc.status === "FAILED" && (
+                      <p className="text-xs text-red-600 dark:text-red-400 flex items-center gap-1 mt-0.5">
+                        <XCircle className="h-3 w-3" />
+                        {doc.error || "Indexing failed"}
+                      </p>
+                    )}
+                    {stale && (
+                      <p className="text-xs text-amber-600 dark:text-amber-400 flex items-center gap-1 mt-0.5">
+                        <AlertTriangle className="h-3 w-3" />
+                        Indexed with {doc.embeddingModel}; re-index to use it with {embeddingModel}.
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0 pl-7 sm:pl-0">
+                  {doc.status === "READY" && !stale && (
+                    <span className="inline-flex items-center gap-1 text-[11px] font-medium text-emerald-600 dark:text-emerald-400">
+                      <CheckCircle2 className="h-3 w-3" />
+                      Indexed
+                    </span>
+                  )}
+                  {doc.status === "PROCESSING" && (
+                    <span className="inline-flex items-center gap-1 text-[11px] font-medium text-amber-600 dark:text-amber-400">
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                      Processing
+                    </span>
+                  )}
+                  {stale && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-xs"
+                      disabled={busyId === doc.id}
+                      onClick={() => handleReindex(doc.id)}
+                    >
+                      <RefreshCw className="h-3.5 w-3.5 mr-1" />
+                      Re-index
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-xs text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-950"
+                    disabled={busyId === doc.id}
+                    onClick={() => setDeleteId(doc.id)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5 mr-1" />
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Retrieval preview */}
+      {documents.some((d) => d.status === "READY") && (
+        <div className="space-y-3">
+          <div>
+            <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Test retrieval</h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              See which passages the tutor would be given for a student question.
+            </p>
+          </div>
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <Input
+              placeholder="e.g. How do I find the range of a projectile?"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+            <Button type="submit" variant="outline" disabled={searching || !query.trim()} className="gap-1.5 shrink-0">
+              {searching ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Search className="h-3.5 w-3.5" />}
+              Search
+            </Button>
+          </form>
+          {results && (
+            results.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No passage is similar enough to be used.</p>
+            ) : (
+              <div className="space-y-2">
+                {results.map((r, i) => (
+                  <div
+                    key={i}
+                    className="bg-white dark:bg-gray-900 rounded-xl border border-gray-100 dark:border-gray-800 p-3"
+                  >
+                    <p className="text-xs font-medium text-gray-700 dark:text-gray-300">
+                      {titleById.get(r.documentId) ?? "Document"}
+                      {r.page ? `, p. ${r.page}` : ""}
+                      {r.heading ? ` · ${r.heading}` : ""}
+                      {r.section ? ` · Halliday ${r.section} ${hallidaySectionTitle(r.section) ?? ""}` : ""}
+                      <span className="ml-2 text-gray-400">score {r.score.toFixed(2)}</span>
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 line-clamp-3 whitespace-pre-line">{r.content}</p>
+                  </div>
+                ))}
+              </div>
+            )
+          )}
+        </div>
+      )}
+
+      <AlertDialog open={!!deleteId} onOpenChange={(open) => !open && setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this document?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The tutor will stop using its passages. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
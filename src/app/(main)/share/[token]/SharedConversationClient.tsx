@@ -0,0 +1,181 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { CheckCircle2, GraduationCap, Link2, Loader2, MessageSquare, RotateCcw, Send } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { formatShortDate } from "@/lib/utils";
+import { ChatMessageList } from "@/components/chat/ChatMessageList";
+import type { Message } from "@/components/chat/types";
+
+interface SharedConversation {
+  id: string;
+  conversationId: string;
+  title: string;
+  studentName: string;
+  /** Set for a snapshot link */
+  snapshotEndId: string | null;
+  createdAt: string;
+  escalatedAt: string | null;
+  note: string | null;
+  resolvedAt: string | null;
+  resolvedByName: string | null;
+}
+
+interface SharedConversationClientProps {
+  share: SharedConversation;
+  messages: Message[];
+  isOwner: boolean;
+  /** Staff viewing an escalated link: may answer in the thread */
+  canReply: boolean;
+}
+
+export default function SharedConversationClient({ share, messages: initialMessages, isOwner, canReply }: SharedConversationClientProps) {
+  const router = useRouter();
+  const [messages, setMessages] = useState(initialMessages);
+  const [copiedMessageId, setCopiedMessageId] = useState<string | null>(null);
+  const [reply, setReply] = useState("");
+  const [sending, setSending] = useState(false);
+  const [updating, setUpdating] = useState(false);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  const copyMessage = async (messageId: string, content: string) => {
+    await navigator.clipboard.writeText(content);
+    setCopiedMessageId(messageId);
+    setTimeout(() => setCopiedMessageId(null), 2000);
+  };
+
+  const sendReply = async (resolve: boolean) => {
+    if (!reply.trim()) return;
+    setSending(true);
+    try {
+      const res = await fetch(`/api/shares/${share.id}/replies`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content: reply, resolve }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to send reply");
+      setMessages((prev) => [...prev, data.message]);
+      setReply("");
+      setTimeout(() => messagesEndRef.current?.scrollIntoView({ behavior: "smooth" }), 50);
+      if (resolve) router.refresh();
+      toast.success(resolve ? "Reply sent and resolved" : "Reply sent");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to send reply");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const setResolved = async (resolved: boolean) => {
+    setUpdating(true);
+    try {
+      const res = await fetch(`/api/shares/${share.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ resolved }),
+      });
+      if (!res.ok) throw new Error("Failed to update");
+      router.refresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  return (
+    <div className="flex h-[calc(100vh-5rem)] sm:h-[calc(100vh-6.5rem)] flex-col overflow-hidden -m-3 sm:-m-6 bg-white dark:bg-gray-950">
+      <div className="border-b border-gray-100 dark:border-gray-800 px-4 py-3 shrink-0">
+        <div className="max-w-3xl mx-auto flex flex-wrap items-start gap-3">
+          <div className="min-w-0 flex-1">
+            <h1 className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{share.title}</h1>
+            <p className="flex items-center gap-1.5 text-xs text-gray-400 dark:text-gray-500">
+              <Link2 className="h-3 w-3" />
+              {share.studentName}&apos;s conversation · shared {formatShortDate(share.createdAt)} · read-only
+              {share.snapshotEndId && !canReply && " · snapshot"}
+            </p>
+          </div>
+          {isOwner && (
+            <Link
+              href={`/chat/${share.conversationId}`}
+              className="inline-flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+            >
+              <MessageSquare className="h-3.5 w-3.5" />
+              Open in chat
+            </Link>
+          )}
+          {canReply && (
+            share.resolvedAt ? (
+              <Button variant="outline" size="sm" onClick={() => setResolved(false)} disabled={updating} className="h-8 gap-1.5 text-xs">
+                <RotateCcw className="h-3.5 w-3.5" />
+                Reopen
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" onClick={() => setResolved(true)} disabled={updating} className="h-8 gap-1.5 text-xs">
+                <CheckCircle2 className="h-3.5 w-3.5" />
+                Mark resolved
+              </Button>
+            )
+          )}
+        </div>
+
+        {share.escalatedAt && (
+          <div className="max-w-3xl mx-auto mt-2 rounded-lg border border-emerald-200 dark:border-emerald-900 bg-emerald-50/60 dark:bg-emerald-950/30 px-3 py-2 text-xs text-emerald-800 dark:text-emerald-300">
+            <p className="flex items-center gap-1.5 font-medium">
+              <GraduationCap className="h-3.5 w-3.5" />
+              {share.resolvedAt
+                ? `Resolved${share.resolvedByName ? ` by ${share.resolvedByName}` : ""} on ${formatShortDate(share.resolvedAt)}`
+                : `Sent to course staff on ${formatShortDate(share.escalatedAt)}`}
+            </p>
+            {share.note && <p className="mt-1 whitespace-pre-wrap text-emerald-900 dark:text-emerald-200">{share.note}</p>}
+          </div>
+        )}
+      </div>
+
+      <ChatMessageList
+        messages={messages}
+        copiedMessageId={copiedMessageId}
+        scrollContainerRef={scrollContainerRef}
+        messagesEndRef={messagesEndRef}
+        onSuggestedTopic={() => {}}
+        onCopyMessage={copyMessage}
+        snapshotEndId={canReply ? share.snapshotEndId : null}
+      />
+
+      {canReply && (
+        <div className="border-t border-gray-100 dark:border-gray-800 px-4 py-3 shrink-0">
+          <div className="max-w-3xl mx-auto space-y-2">
+            <Textarea
+              value={reply}
+              onChange={(e) => setReply(e.target.value)}
+              placeholder={`Reply to ${share.studentName}; it appears in their conversation, marked as from you`}
+              rows={3}
+              maxLength={10000}
+              className="resize-none text-sm"
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => sendReply(true)} disabled={sending || !reply.trim()}>
+                Reply and resolve
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => sendReply(false)}
+                disabled={sending || !reply.trim()}
+                className="gap-1.5 bg-emerald-600 hover:bg-emerald-700 text-white"
+              >
+                {sending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Send className="h-3.5 w-3.5" />}
+                Reply
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { notFound, redirect } from "next/navigation";
+import { getEffectiveSession } from "@/lib/impersonate";
+import { loadSharedConversation } from "@/lib/services/chat-share-service";
+import type { Citation } from "@/lib/knowledge/citations";
+import type { ToolCallRecord, WebSource } from "@/lib/ai/types";
+import type { Message } from "@/components/chat/types";
+import SharedConversationClient from "./SharedConversationClient";
+
+export default async function SharedConversationPage({ params }: { params: { token: string } }) {
+  const session = await getEffectiveSession();
+  if (!session?.user) redirect("/login");
+
+  const user = session.user as { id: string; role?: string };
+  const shared = await loadSharedConversation(params.token, { id: user.id, role: user.role || "STUDENT" });
+  if (!shared) notFound();
+
+  const { share, conversation } = shared;
+  const messages: Message[] = shared.messages.map((m) => ({
+    id: m.id,
+    parentId: m.parentId,
+    role: m.role as Message["role"],
+    content: m.content,
+    imageUrls: m.imageUrls,
+    thinking: m.reasoning ?? undefined,
+    sources: (m.sources as WebSource[] | null) ?? undefined,
+    toolCalls: (m.toolCalls as ToolCallRecord[] | null) ?? undefined,
+    citations: (m.citations as Citation[] | null) ?? undefined,
+    status: m.status.toLowerCase() as Message["status"],
+    pinned: m.pinned,
+    author: m.author ? { name: m.author.name || "Staff", role: m.author.role } : undefined,
+  }));
+
+  return (
+    <SharedConversationClient
+      share={{
+        id: share.id,
+        conversationId: conversation.id,
+        title: conversation.title,
+        studentName: conversation.user.name || "Student",
+        snapshotEndId: share.messageId,
+        createdAt: share.createdAt.toISOString(),
+        escalatedAt: share.escalatedAt?.toISOString() ?? null,
+        note: share.note,
+        resolvedAt: share.resolvedAt?.toISOString() ?? null,
+        resolvedByName: share.resolvedBy?.name ?? null,
+      }}
+      messages={messages}
+      isOwner={shared.isOwner}
+      canReply={shared.canReply}
+    />
+  );
+}
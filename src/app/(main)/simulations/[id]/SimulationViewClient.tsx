@@ -3,7 +3,8 @@
 import React, { useState, useEffect } from "react";
 import dynamic from "next/dynamic";
 import Link from "next/link";
-import { ArrowLeft, BookOpen } from "lucide-react";
+import { useSearchParams } from "next/navigation";
+import { ArrowLeft, BookOpen, Lightbulb } from "lucide-react";
 import { useTrackTime } from "@/lib/use-track-time";
 import { useEffectiveSession } from "@/lib/effective-session-context";
 import { findSimulationById } from "@/data/halliday-chapters";
@@ -146,6 +147,8 @@ export default function SimulationViewClient({
   const [examBlocked, setExamBlocked] = useState(false);
   const data = findSimulationById(simulationId);
   const SimComponent = simulationComponents[simulationId];
+  // Settings the tutor suggested when it linked here, e.g. ?angle=30°&speed=20 m/s
+  const suggested = Array.from(useSearchParams().entries());
 
   useEffect(() => {
     if (session?.role === "STUDENT") {
@@ -240,6 +243,15 @@ export default function SimulationViewClient({
 
       {/* Simulation */}
       <div className="px-4 sm:px-6 py-6 max-w-7xl mx-auto">
+        {suggested.length > 0 && (
+          <div className="mb-4 flex items-start gap-2 rounded-lg border border-indigo-200 dark:border-indigo-900 bg-indigo-50/50 dark:bg-indigo-950/30 px-4 py-2.5 text-sm">
+            <Lightbulb className="h-4 w-4 mt-0.5 text-indigo-500 shrink-0" />
+            <p className="text-indigo-900 dark:text-indigo-200">
+              <span className="font-medium">Suggested setup from your tutor: </span>
+              {suggested.map(([name, value]) => `${name}: ${value}`).join(", ")}
+            </p>
+          </div>
+        )}
         <SimComponent />
       </div>
     </div>
@@ -0,0 +1,16 @@
+import { redirect } from "next/navigation";
+import { getEffectiveSession } from "@/lib/impersonate";
+
+/** Bare pages meant for printing: no sidebar or top bar, light theme only */
+export default async function PrintLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const session = await getEffectiveSession();
+  if (!session?.user && process.env.E2E_TEST_MODE !== "true") {
+    redirect("/login");
+  }
+
+  return <div className="min-h-screen bg-white text-gray-900">{children}</div>;
+}
@@ -0,0 +1,23 @@
+import { notFound, redirect } from "next/navigation";
+import { getEffectiveSession } from "@/lib/impersonate";
+import { prisma } from "@/lib/prisma";
+import { loadExportConversations } from "@/lib/services/chat-export-service";
+import ConversationPrintView from "@/components/chat/ConversationPrintView";
+
+export default async function PrintConversationPage({ params }: { params: { id: string } }) {
+  const session = await getEffectiveSession();
+  if (!session?.user) redirect("/login");
+
+  const user = session.user as { id: string; role?: string };
+  const conversation = await prisma.conversation.findFirst({
+    where: { id: params.id, isDeleted: false },
+    select: { userId: true },
+  });
+  if (!conversation) notFound();
+  if (conversation.userId !== user.id && user.role !== "ADMIN" && user.role !== "PROFESSOR" && user.role !== "TA") {
+    notFound();
+  }
+
+  const conversations = await loadExportConversations({ id: params.id });
+  return <ConversationPrintView conversations={conversations} />;
+}
@@ -0,0 +1,14 @@
+import { redirect } from "next/navigation";
+import { getEffectiveSession } from "@/lib/impersonate";
+import { loadExportConversations } from "@/lib/services/chat-export-service";
+import ConversationPrintView from "@/components/chat/ConversationPrintView";
+
+/** The signed-in user's whole chat history, one conversation per page when printed */
+export default async function PrintConversationsPage() {
+  const session = await getEffectiveSession();
+  if (!session?.user) redirect("/login");
+
+  const user = session.user as { id: string };
+  const conversations = await loadExportConversations({ userId: user.id });
+  return <ConversationPrintView conversations={conversations} />;
+}
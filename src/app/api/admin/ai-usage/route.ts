@@ -0,0 +1,158 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireApiRole, isErrorResponse } from "@/lib/api-auth";
+import { AI_FEATURE_LABELS, type AIFeature } from "@/lib/ai/pricing";
+import { getBudgetPeriodStart } from "@/lib/services/ai-usage-service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// GET /api/admin/ai-usage?days=30 - AI spend by day, feature, user, model and course
+export async function GET(req: Request) {
+  try {
+    const auth = await requireApiRole(["ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    const { searchParams } = new URL(req.url);
+    const days = Math.min(Math.max(parseInt(searchParams.get("days") || "30", 10) || 30, 1), 365);
+    const now = new Date();
+    const since = new Date(now.getTime() - (days - 1) * DAY_MS);
+    since.setUTCHours(0, 0, 0, 0);
+    const monthStart = getBudgetPeriodStart(now);
+    const inPeriod = { createdAt: { gte: since } };
+    const sums = { costUsd: true, inputTokens: true, outputTokens: true, reasoningTokens: true } as const;
+
+    const [config, totals, month, daily, byFeature, byUser, byModel, byCourse] = await Promise.all([
+      prisma.aIConfig.findFirst({
+        where: { isActive: true },
+        select: { softBudgetUsd: true, hardBudgetUsd: true, userSoftBudgetUsd: true, userHardBudgetUsd: true },
+      }),
+      prisma.aIUsage.aggregate({ where: inPeriod, _sum: sums, _count: true }),
+      prisma.aIUsage.aggregate({ where: { createdAt: { gte: monthStart } }, _sum: { costUsd: true } }),
+      prisma.$queryRaw<Array<{ date: Date; cost: number; tokens: number }>>`
+        SELECT DATE_TRUNC('day', "createdAt") as date,
+               COALESCE(SUM("costUsd"), 0)::float as cost,
+               COALESCE(SUM("inputTokens" + "outputTokens"), 0)::int as tokens
+        FROM "AIUsage"
+        WHERE "createdAt" >= ${since}
+        GROUP BY DATE_TRUNC('day', "createdAt")
+        ORDER BY date
+      `,
+      prisma.aIUsage.groupBy({ by: ["feature"], where: inPeriod, _sum: sums, _count: true }),
+      prisma.aIUsage.groupBy({
+        by: ["userId"],
+        where: { ...inPeriod, userId: { not: null } },
+        _sum: sums,
+        _count: true,
+        orderBy: { _sum: { costUsd: "desc" } },
+        take: 20,
+      }),
+      prisma.aIUsage.groupBy({
+        by: ["provider", "model"],
+        where: inPeriod,
+        _sum: sums,
+        _count: true,
+        orderBy: { _sum: { costUsd: "desc" } },
+      }),
+      prisma.aIUsage.groupBy({
+        by: ["courseId"],
+        where: inPeriod,
+        _sum: { costUsd: true },
+        _count: true,
+        orderBy: { _sum: { costUsd: "desc" } },
+      }),
+    ]);
+
+    const userIds = byUser.flatMap((u) => (u.userId ? [u.userId] : []));
+    const courseIds = byCourse.flatMap((c) => (c.courseId ? [c.courseId] : []));
+    const [users, courses, userMonthSpend] = await Promise.all([
+      prisma.user.findMany({ where: { id: { in: userIds } }, select: { id: true, name: true, email: true, role: true } }),
+      prisma.course.findMany({ where: { id: { in: courseIds } }, select: { id: true, name: true, code: true } }),
+      prisma.aIUsage.groupBy({
+        by: ["userId"],
+        where: { userId: { in: userIds }, createdAt: { gte: monthStart } },
+        _sum: { costUsd: true },
+      }),
+    ]);
+    const userById = new Map(users.map((u) => [u.id, u]));
+    const courseById = new Map(courses.map((c) => [c.id, c]));
+    const monthSpendByUser = new Map(userMonthSpend.map((u) => [u.userId, u._sum.costUsd ?? 0]));
+
+    // Every day of the period, zero-filled
+    const dailyCost: Record<string, { costUsd: number; tokens: number }> = {};
+    for (let i = days - 1; i >= 0; i--) {
+      dailyCost[new Date(now.getTime() - i * DAY_MS).toISOString().split("T")[0]] = { costUsd: 0, tokens: 0 };
+    }
+    for (const row of daily) {
+      const key = new Date(row.date).toISOString().split("T")[0];
+      if (dailyCost[key]) dailyCost[key] = { costUsd: row.cost, tokens: row.tokens };
+    }
+
+    return NextResponse.json({
+      days,
+      month: {
+        since: monthStart,
+        spendUsd: month._sum.costUsd ?? 0,
+        softBudgetUsd: config?.softBudgetUsd ?? null,
+        hardBudgetUsd: config?.hardBudgetUsd ?? null,
+        userSoftBudgetUsd: config?.userSoftBudgetUsd ?? null,
+        userHardBudgetUsd: config?.userHardBudgetUsd ?? null,
+      },
+      totals: {
+        calls: totals._count,
+        costUsd: totals._sum.costUsd ?? 0,
+        inputTokens: totals._sum.inputTokens ?? 0,
+        outputTokens: totals._sum.outputTokens ?? 0,
+        reasoningTokens: totals._sum.reasoningTokens ?? 0,
+      },
+      daily: Object.entries(dailyCost).map(([date, d]) => ({
+        date,
+        day: new Date(date).toLocaleDateString("en-US", { month: "short", day: "numeric" }),
+        costUsd: d.costUsd,
+        tokens: d.tokens,
+      })),
+      byFeature: byFeature
+        .map((f) => ({
+          feature: f.feature,
+          label: AI_FEATURE_LABELS[f.feature as AIFeature] ?? f.feature,
+          calls: f._count,
+          costUsd: f._sum.costUsd ?? 0,
+          tokens: (f._sum.inputTokens ?? 0) + (f._sum.outputTokens ?? 0),
+        }))
+        .sort((a, b) => b.costUsd - a.costUsd),
+      byUser: byUser.map((u) => {
+        const user = u.userId ? userById.get(u.userId) : undefined;
+        return {
+          userId: u.userId,
+          name: user?.name || "Unknown",
+          email: user?.email ?? null,
+          role: user?.role ?? null,
+          calls: u._count,
+          costUsd: u._sum.costUsd ?? 0,
+          tokens: (u._sum.inputTokens ?? 0) + (u._sum.outputTokens ?? 0),
+          monthSpendUsd: monthSpendByUser.get(u.userId) ?? 0,
+        };
+      }),
+      byModel: byModel.map((m) => ({
+        provider: m.provider,
+        model: m.model,
+        calls: m._count,
+        costUsd: m._sum.costUsd ?? 0,
+        inputTokens: m._sum.inputTokens ?? 0,
+        outputTokens: m._sum.outputTokens ?? 0,
+        reasoningTokens: m._sum.reasoningTokens ?? 0,
+      })),
+      byCourse: byCourse.map((c) => {
+        const course = c.courseId ? courseById.get(c.courseId) : undefined;
+        return {
+          courseId: c.courseId,
+          name: course ? course.code || course.name : "No course",
+          calls: c._count,
+          costUsd: c._sum.costUsd ?? 0,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error("AI usage error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
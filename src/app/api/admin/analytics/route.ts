@@ -1,23 +1,30 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { requireApiRole, isErrorResponse } from "@/lib/api-auth";
+import { courseAssignmentWhere, getCourseScope } from "@/lib/courses";
 
 export async function GET() {
   try {
     const auth = await requireApiRole(["TA", "PROFESSOR", "ADMIN"]);
     if (isErrorResponse(auth)) return auth;
 
+    // Users and grades are counted for the active course; chat activity stays site-wide
+    const scope = await getCourseScope(auth.user);
+    const courseSubmissions = { assignment: courseAssignmentWhere(scope) };
+
     // Daily activity for last 14 days
     const now = new Date();
     const twoWeeksAgo = new Date(now.getTime() - 14 * 24 * 60 * 60 * 1000);
 
     const [totalUsers, totalConversations, totalMessages, totalSubmissions, submissions, dailyMessageCounts] = await Promise.all([
-      prisma.user.count({ where: { isDeleted: false } }),
+      scope.course
+        ? prisma.enrollment.count({ where: { courseId: scope.course.id, droppedAt: null, user: { isDeleted: false } } })
+        : prisma.user.count({ where: { isDeleted: false } }),
       prisma.conversation.count(),
       prisma.message.count(),
-      prisma.submission.count(),
+      prisma.submission.count({ where: courseSubmissions }),
       prisma.submission.findMany({
-        where: { totalScore: { not: null } },
+        where: { totalScore: { not: null }, ...courseSubmissions },
         include: {
           assignment: { select: { title: true, totalPoints: true } },
           user: { select: { name: true, email: true } },
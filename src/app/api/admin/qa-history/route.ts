@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { requireApiRole, isErrorResponse } from "@/lib/api-auth";
+import { SEARCH_QUERY_MAX, SEARCH_QUERY_MIN } from "@/lib/chat-search";
+import { searchMessages } from "@/lib/services/chat-search-service";
 
 export async function GET(req: Request) {
   try {
@@ -11,6 +13,25 @@ export async function GET(req: Request) {
     const userId = searchParams.get("userId");
     const page = Math.max(1, parseInt(searchParams.get("page") || "1", 10));
     const pageSize = Math.min(100, Math.max(1, parseInt(searchParams.get("pageSize") || "15", 10)));
+    const query = searchParams.get("q")?.trim() ?? "";
+
+    // Message search across every student's conversations
+    if (query) {
+      if (query.length < SEARCH_QUERY_MIN || query.length > SEARCH_QUERY_MAX) {
+        return NextResponse.json(
+          { error: "Invalid input", details: { q: [`Search must be ${SEARCH_QUERY_MIN} to ${SEARCH_QUERY_MAX} characters`] } },
+          { status: 400 }
+        );
+      }
+      const { hits, hasMore } = await searchMessages({
+        query,
+        userId: userId || undefined,
+        staff: true,
+        limit: pageSize,
+        offset: (page - 1) * pageSize,
+      });
+      return NextResponse.json({ results: hits, hasMore, page, pageSize });
+    }
 
     const where = userId ? { userId } : {};
 
@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireApiRole, isErrorResponse } from "@/lib/api-auth";
+import { quotaRuleSchema } from "@/lib/quota";
+
+// PATCH /api/admin/quotas/[id] - Replace a quota rule's settings
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireApiRole(["ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    const { id } = await params;
+    const parsed = quotaRuleSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.quotaRule.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: "Quota rule not found" }, { status: 404 });
+    }
+
+    const rule = await prisma.quotaRule.update({
+      where: { id },
+      data: parsed.data,
+      include: {
+        course: { select: { id: true, name: true, code: true } },
+        createdBy: { select: { id: true, name: true } },
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: auth.user.id,
+        action: "quota_rule_updated",
+        details: {
+          quotaRuleId: id,
+          feature: rule.feature,
+          previousLimit: existing.dailyLimit,
+          dailyLimit: rule.dailyLimit,
+        },
+      },
+    });
+
+    return NextResponse.json({ rule });
+  } catch (error) {
+    console.error("Quota rule PATCH error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/quotas/[id] - Remove a quota rule
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireApiRole(["ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    const { id } = await params;
+    const existing = await prisma.quotaRule.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: "Quota rule not found" }, { status: 404 });
+    }
+
+    await prisma.quotaRule.delete({ where: { id } });
+    await prisma.auditLog.create({
+      data: {
+        userId: auth.user.id,
+        action: "quota_rule_deleted",
+        details: { quotaRuleId: id, feature: existing.feature, dailyLimit: existing.dailyLimit },
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Quota rule DELETE error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
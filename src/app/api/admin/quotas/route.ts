@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireApiRole, isErrorResponse } from "@/lib/api-auth";
+import { DEFAULT_DAILY_QUOTAS, getQuotaDay, quotaRuleSchema } from "@/lib/quota";
+
+const ruleInclude = {
+  course: { select: { id: true, name: true, code: true } },
+  createdBy: { select: { id: true, name: true } },
+} as const;
+
+// GET /api/admin/quotas - Quota rules, built-in defaults and today's usage
+export async function GET() {
+  try {
+    const auth = await requireApiRole(["ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    const day = getQuotaDay();
+    const [rules, courses, usage, topUsage] = await Promise.all([
+      prisma.quotaRule.findMany({ orderBy: [{ feature: "asc" }, { updatedAt: "desc" }], include: ruleInclude }),
+      prisma.course.findMany({ orderBy: { name: "asc" }, select: { id: true, name: true, code: true } }),
+      prisma.quotaUsage.groupBy({ by: ["feature"], where: { day }, _sum: { used: true }, _count: true }),
+      prisma.quotaUsage.findMany({
+        where: { day },
+        orderBy: { used: "desc" },
+        take: 20,
+        include: { user: { select: { id: true, name: true, email: true, role: true } } },
+      }),
+    ]);
+
+    return NextResponse.json({
+      rules,
+      courses,
+      defaults: DEFAULT_DAILY_QUOTAS,
+      today: {
+        day,
+        byFeature: usage.map((u) => ({ feature: u.feature, used: u._sum.used ?? 0, users: u._count })),
+        topUsers: topUsage.map((u) => ({ feature: u.feature, used: u.used, user: u.user })),
+      },
+    });
+  } catch (error) {
+    console.error("Quotas GET error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/admin/quotas - Create a quota rule
+export async function POST(req: Request) {
+  try {
+    const auth = await requireApiRole(["ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    const parsed = quotaRuleSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const rule = await prisma.quotaRule.create({
+      data: { ...parsed.data, createdById: auth.user.id },
+      include: ruleInclude,
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: auth.user.id,
+        action: "quota_rule_created",
+        details: { quotaRuleId: rule.id, feature: rule.feature, role: rule.role, courseId: rule.courseId, dailyLimit: rule.dailyLimit },
+      },
+    });
+
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    console.error("Quotas POST error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
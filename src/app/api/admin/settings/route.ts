@@ -1,6 +1,32 @@
 import { NextResponse } from "next/server";
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { requireApiRole, isErrorResponse } from "@/lib/api-auth";
+import { isAIProviderId, listAIProviders } from "@/lib/ai";
+import { aiPriceTableSchema, budgetSchema, DEFAULT_AI_PRICES, parseAIPriceTable } from "@/lib/ai/pricing";
+
+const softBelowHard = (soft: number | null, hard: number | null) => soft === null || hard === null || soft <= hard;
+
+const settingsSchema = z
+  .object({
+    provider: z.string().refine(isAIProviderId, "Unknown AI provider"),
+    model: z.string().min(1).max(100),
+    systemPrompt: z.string().max(20000).nullable().optional(),
+    softBudgetUsd: budgetSchema.optional().default(null),
+    hardBudgetUsd: budgetSchema.optional().default(null),
+    userSoftBudgetUsd: budgetSchema.optional().default(null),
+    userHardBudgetUsd: budgetSchema.optional().default(null),
+    priceTable: aiPriceTableSchema.optional().default({}),
+  })
+  .refine((d) => softBelowHard(d.softBudgetUsd, d.hardBudgetUsd), {
+    message: "The soft budget must not exceed the hard budget",
+    path: ["softBudgetUsd"],
+  })
+  .refine((d) => softBelowHard(d.userSoftBudgetUsd, d.userHardBudgetUsd), {
+    message: "The soft budget must not exceed the hard budget",
+    path: ["userSoftBudgetUsd"],
+  });
 
 export async function GET() {
   try {
@@ -11,7 +37,13 @@ export async function GET() {
       where: { isActive: true },
     });
 
-    return NextResponse.json({ config });
+    return NextResponse.json({
+      config,
+      providers: listAIProviders(),
+      defaultPrices: DEFAULT_AI_PRICES,
+      // Set when AI_PROVIDER pins the provider regardless of this setting
+      providerOverride: isAIProviderId(process.env.AI_PROVIDER) ? process.env.AI_PROVIDER : null,
+    });
   } catch (error) {
     console.error("Settings error:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
@@ -23,7 +55,26 @@ export async function POST(req: Request) {
     const auth = await requireApiRole(["ADMIN", "PROFESSOR"]);
     if (isErrorResponse(auth)) return auth;
 
-    const { provider, model, systemPrompt } = await req.json();
+    const parsed = settingsSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const { provider, model, systemPrompt, ...spending } = parsed.data;
+
+    // Budgets and prices are admin-only; a professor's save carries the current ones forward
+    const previous = await prisma.aIConfig.findFirst({ where: { isActive: true } });
+    const budgets = auth.user.role === "ADMIN"
+      ? spending
+      : {
+          softBudgetUsd: previous?.softBudgetUsd ?? null,
+          hardBudgetUsd: previous?.hardBudgetUsd ?? null,
+          userSoftBudgetUsd: previous?.userSoftBudgetUsd ?? null,
+          userHardBudgetUsd: previous?.userHardBudgetUsd ?? null,
+          priceTable: parseAIPriceTable(previous?.priceTable),
+        };
 
     await prisma.aIConfig.updateMany({
       where: { isActive: true },
@@ -35,10 +86,35 @@ export async function POST(req: Request) {
         provider,
         model,
         systemPrompt: systemPrompt || null,
+        softBudgetUsd: budgets.softBudgetUsd,
+        hardBudgetUsd: budgets.hardBudgetUsd,
+        userSoftBudgetUsd: budgets.userSoftBudgetUsd,
+        userHardBudgetUsd: budgets.userHardBudgetUsd,
+        priceTable: Object.keys(budgets.priceTable).length > 0 ? budgets.priceTable : Prisma.JsonNull,
         isActive: true,
       },
     });
 
+    if (
+      (previous?.softBudgetUsd ?? null) !== config.softBudgetUsd ||
+      (previous?.hardBudgetUsd ?? null) !== config.hardBudgetUsd ||
+      (previous?.userSoftBudgetUsd ?? null) !== config.userSoftBudgetUsd ||
+      (previous?.userHardBudgetUsd ?? null) !== config.userHardBudgetUsd
+    ) {
+      await prisma.auditLog.create({
+        data: {
+          userId: auth.user.id,
+          action: "ai_budget_updated",
+          details: {
+            softBudgetUsd: config.softBudgetUsd,
+            hardBudgetUsd: config.hardBudgetUsd,
+            userSoftBudgetUsd: config.userSoftBudgetUsd,
+            userHardBudgetUsd: config.userHardBudgetUsd,
+          },
+        },
+      });
+    }
+
     return NextResponse.json({ config });
   } catch (error) {
     console.error("Save settings error:", error);
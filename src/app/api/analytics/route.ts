@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { requireApiAuth, isErrorResponse } from "@/lib/api-auth";
+import { courseAssignmentWhere, getCourseScope } from "@/lib/courses";
 
 export async function GET() {
   try {
@@ -8,12 +9,13 @@ export async function GET() {
     if (isErrorResponse(auth)) return auth;
     const { user } = auth;
     const userId = user.id;
+    const scope = await getCourseScope(user);
 
     const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
 
     const [submissions, messages, conversations, totalMessages] = await Promise.all([
       prisma.submission.findMany({
-        where: { userId },
+        where: { userId, assignment: courseAssignmentWhere(scope) },
         include: {
           assignment: { select: { title: true, totalPoints: true, type: true } },
           answers: {
@@ -4,6 +4,8 @@ import { prisma } from "@/lib/prisma";
 import { checkAndBanSpammer } from "@/lib/spam-guard";
 import { requireApiAuth, isErrorResponse } from "@/lib/api-auth";
 import { isStaff as isStaffRole } from "@/lib/constants";
+import { applyLatePenalty } from "@/lib/grading/late-policy";
+import { quotaExceededMessage, takeQuota } from "@/lib/services/quota-service";
 
 const appealPostSchema = z.object({
   submissionAnswerId: z.string().min(1, "submissionAnswerId is required"),
@@ -200,6 +202,11 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Appeal already exists for this question" }, { status: 409 });
     }
 
+    const quota = await takeQuota(auth.user, "appeals");
+    if (!quota.allowed) {
+      return NextResponse.json({ error: quotaExceededMessage(quota) }, { status: 429 });
+    }
+
     const appeal = await prisma.gradeAppeal.create({
       data: {
         submissionAnswerId,
@@ -272,6 +279,12 @@ export async function PATCH(req: Request) {
 
     // Add a message if provided
     if (message) {
+      if (!isStaff) {
+        const quota = await takeQuota(auth.user, "appeals");
+        if (!quota.allowed) {
+          return NextResponse.json({ error: quotaExceededMessage(quota) }, { status: 429 });
+        }
+      }
       await prisma.appealMessage.create({
         data: {
           appealId,
@@ -312,10 +325,17 @@ export async function PATCH(req: Request) {
         const allAnswers = await prisma.submissionAnswer.findMany({
           where: { submissionId: appeal.submissionAnswer.submissionId },
         });
-        const totalScore = allAnswers.reduce(
-          (sum, ans) =>
-            sum + (ans.id === appeal.submissionAnswerId ? newScore : ans.score || 0),
-          0
+        const submission = await prisma.submission.findUniqueOrThrow({
+          where: { id: appeal.submissionAnswer.submissionId },
+          select: { latePenalty: true },
+        });
+        const totalScore = applyLatePenalty(
+          allAnswers.reduce(
+            (sum, ans) =>
+              sum + (ans.id === appeal.submissionAnswerId ? newScore : ans.score || 0),
+            0
+          ),
+          submission.latePenalty
         );
         await prisma.submission.update({
           where: { id: appeal.submissionAnswer.submissionId },
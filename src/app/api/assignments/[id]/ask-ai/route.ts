@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireApiAuth, isErrorResponse } from "@/lib/api-auth";
+import { isStaff, MAX_ACTIVE_CONVERSATIONS } from "@/lib/constants";
+import { canAccessCourse } from "@/lib/courses";
+import { questionContextTitle } from "@/lib/ai/question-context";
+import { ASK_AI_DISABLED_MESSAGE, buildQuestionContext, getAskAIAccess } from "@/lib/services/ask-ai-service";
+import { countActiveConversations } from "@/lib/services/conversation-service";
+
+const AskAISchema = z.object({
+  questionId: z.string().min(1),
+  draftAnswer: z.string().max(10000).optional().default(""),
+});
+
+// POST /api/assignments/[id]/ask-ai - Open a tutor conversation about one question
+export async function POST(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireApiAuth();
+    if (isErrorResponse(auth)) return auth;
+    const userId = auth.user.id;
+
+    const parsed = AskAISchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const assignment = await prisma.assignment.findFirst({
+      where: { id: params.id, isDeleted: false, ...(!isStaff(auth.user.role) && { published: true }) },
+      select: {
+        id: true,
+        title: true,
+        courseId: true,
+        published: true,
+        allowAskAI: true,
+        totalPoints: true,
+        dueDate: true,
+        latePolicy: true,
+        maxAttempts: true,
+      },
+    });
+    if (!assignment || !(await canAccessCourse(auth.user, assignment.courseId))) {
+      return NextResponse.json({ error: "Assignment not found" }, { status: 404 });
+    }
+
+    const access = await getAskAIAccess(assignment, auth.user);
+    if (!access.allowed) {
+      return NextResponse.json({ error: ASK_AI_DISABLED_MESSAGE }, { status: 403 });
+    }
+
+    const context = await buildQuestionContext(assignment.id, parsed.data.questionId, userId, parsed.data.draftAnswer);
+    if (!context) {
+      return NextResponse.json({ error: "Question not found" }, { status: 404 });
+    }
+
+    // Same limit as starting a chat from /chat
+    const activeConvCount = await countActiveConversations(userId);
+    if (activeConvCount >= MAX_ACTIVE_CONVERSATIONS) {
+      return NextResponse.json(
+        { error: `You have reached the maximum of ${MAX_ACTIVE_CONVERSATIONS} active conversations. Archive or delete some to create a new one.` },
+        { status: 429 }
+      );
+    }
+
+    const conversation = await prisma.conversation.create({
+      data: {
+        userId,
+        title: questionContextTitle(context, assignment.title),
+        assignmentId: assignment.id,
+        questionContext: context,
+      },
+    });
+
+    return NextResponse.json({ conversationId: conversation.id, socratic: access.socratic }, { status: 201 });
+  } catch (error) {
+    console.error("Ask AI error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -2,6 +2,8 @@ import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { convertToLatex, escapeLatex } from "@/lib/latex-utils";
 import { requireApiRole, isErrorResponse } from "@/lib/api-auth";
+import { normalizeOptions } from "@/lib/grading/multiple-choice";
+import { canManageAssignment } from "@/lib/courses";
 import JSZip from "jszip";
 import fs from "fs";
 import path from "path";
@@ -10,7 +12,7 @@ interface QuestionRecord {
   id: string;
   questionText: string;
   questionType: "MC" | "NUMERIC" | "FREE_RESPONSE";
-  options: string[] | null;
+  options: unknown;
   correctAnswer: string | null;
   points: number;
   order: number;
@@ -51,6 +53,10 @@ export async function GET(
     const auth = await requireApiRole(["TA", "PROFESSOR", "ADMIN"]);
     if (isErrorResponse(auth)) return auth;
 
+    if (!(await canManageAssignment(auth.user, params.id))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
     const assignment = await prisma.assignment.findUnique({
       where: { id: params.id },
       include: {
@@ -143,15 +149,11 @@ export async function GET(
       }
 
       // Handle MC options
-      if (
-        q.questionType === "MC" &&
-        q.options &&
-        Array.isArray(q.options) &&
-        q.options.length > 0
-      ) {
+      const options = normalizeOptions(q.options);
+      if (q.questionType === "MC" && options.length > 0) {
         lines.push("\\begin{enumerate}[(A)]");
-        for (const opt of q.options) {
-          lines.push(`  \\item ${convertToLatex(String(opt))}`);
+        for (const opt of options) {
+          lines.push(`  \\item ${convertToLatex(opt.text)}`);
         }
         lines.push("\\end{enumerate}");
         lines.push("");
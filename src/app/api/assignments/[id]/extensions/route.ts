@@ -0,0 +1,181 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireApiRole, isErrorResponse } from "@/lib/api-auth";
+import { canManageAssignment, getCourseStudentIds } from "@/lib/courses";
+import { reassessSubmission } from "@/lib/services/extension-service";
+import { extraMinutesSchema } from "@/lib/grading/time-limit";
+
+const extensionSchema = z.object({
+  userId: z.string().min(1),
+  dueDate: z.string().refine((v) => !isNaN(new Date(v).getTime()), "Invalid date").nullable().optional(),
+  extraMinutes: extraMinutesSchema.optional().default(0),
+  reason: z.string().trim().max(500).nullable().optional(),
+}).refine((e) => e.dueDate || e.extraMinutes > 0, {
+  message: "Grant a new due date or extra time",
+  path: ["dueDate"],
+});
+
+async function loadAssignment(id: string) {
+  return prisma.assignment.findFirst({
+    where: { id, isDeleted: false },
+    select: { id: true, courseId: true, dueDate: true, latePolicy: true },
+  });
+}
+
+// GET /api/assignments/[id]/extensions - Extensions granted on an assignment, plus the students who can receive one
+export async function GET(
+  _req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireApiRole(["TA", "PROFESSOR", "ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    if (!(await canManageAssignment(auth.user, params.id))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    const assignment = await loadAssignment(params.id);
+    if (!assignment) {
+      return NextResponse.json({ error: "Assignment not found" }, { status: 404 });
+    }
+
+    const [extensions, students] = await Promise.all([
+      prisma.dueDateExtension.findMany({
+        where: { assignmentId: params.id },
+        include: {
+          user: { select: { id: true, name: true, email: true, studentId: true } },
+          grantedBy: { select: { name: true } },
+        },
+        orderBy: [{ dueDate: { sort: "asc", nulls: "last" } }, { createdAt: "asc" }],
+      }),
+      prisma.user.findMany({
+        where: assignment.courseId
+          ? { id: { in: await getCourseStudentIds(assignment.courseId) } }
+          : { role: "STUDENT", isDeleted: false, isBanned: false },
+        select: { id: true, name: true, email: true, studentId: true },
+        orderBy: [{ name: "asc" }, { email: "asc" }],
+      }),
+    ]);
+
+    return NextResponse.json({ extensions, students });
+  } catch (error) {
+    console.error("Extensions error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// PUT /api/assignments/[id]/extensions - Grant or change a student's extended due date and extra quiz time
+export async function PUT(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireApiRole(["TA", "PROFESSOR", "ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    const parsed = extensionSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const { userId, extraMinutes } = parsed.data;
+    const dueDate = parsed.data.dueDate ? new Date(parsed.data.dueDate) : null;
+    const reason = parsed.data.reason || null;
+
+    if (!(await canManageAssignment(auth.user, params.id))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    const assignment = await loadAssignment(params.id);
+    if (!assignment) {
+      return NextResponse.json({ error: "Assignment not found" }, { status: 404 });
+    }
+    if (assignment.courseId && !(await getCourseStudentIds(assignment.courseId)).includes(userId)) {
+      return NextResponse.json({ error: "Student is not enrolled in this course" }, { status: 400 });
+    }
+
+    const key = { assignmentId_userId: { assignmentId: params.id, userId } };
+    const existing = await prisma.dueDateExtension.findUnique({ where: key });
+    const extension = await prisma.dueDateExtension.upsert({
+      where: key,
+      create: { assignmentId: params.id, userId, dueDate, extraMinutes, reason, grantedById: auth.user.id },
+      update: { dueDate, extraMinutes, reason, grantedById: auth.user.id },
+    });
+
+    // A submission already handed in is re-judged against the new due date
+    const submission = await reassessSubmission(assignment, userId);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: auth.user.id,
+        action: "due_date_extension_granted",
+        details: {
+          assignmentId: params.id,
+          studentId: userId,
+          before: existing?.dueDate?.toISOString() ?? null,
+          after: dueDate?.toISOString() ?? null,
+          extraMinutesBefore: existing?.extraMinutes ?? 0,
+          extraMinutes,
+          reason,
+        },
+      },
+    });
+
+    return NextResponse.json({ extension, submission });
+  } catch (error) {
+    console.error("Grant extension error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/assignments/[id]/extensions?userId= - Revoke a student's extension
+export async function DELETE(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireApiRole(["TA", "PROFESSOR", "ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    const userId = new URL(req.url).searchParams.get("userId");
+    if (!userId) {
+      return NextResponse.json({ error: "userId required" }, { status: 400 });
+    }
+
+    if (!(await canManageAssignment(auth.user, params.id))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    const assignment = await loadAssignment(params.id);
+    if (!assignment) {
+      return NextResponse.json({ error: "Assignment not found" }, { status: 404 });
+    }
+
+    const key = { assignmentId_userId: { assignmentId: params.id, userId } };
+    const existing = await prisma.dueDateExtension.findUnique({ where: key });
+    if (!existing) {
+      return NextResponse.json({ error: "Extension not found" }, { status: 404 });
+    }
+    await prisma.dueDateExtension.delete({ where: key });
+    const submission = await reassessSubmission(assignment, userId);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: auth.user.id,
+        action: "due_date_extension_revoked",
+        details: {
+          assignmentId: params.id,
+          studentId: userId,
+          before: existing.dueDate?.toISOString() ?? null,
+          extraMinutesBefore: existing.extraMinutes,
+        },
+      },
+    });
+
+    return NextResponse.json({ success: true, submission });
+  } catch (error) {
+    console.error("Revoke extension error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -4,15 +4,38 @@ import { Prisma } from "@prisma/client";
 import { requireApiAuth, requireApiRole, isErrorResponse } from "@/lib/api-auth";
 import { isStaff as isStaffRole } from "@/lib/constants";
 import { z } from "zod";
+import { numericConfigSchema } from "@/lib/grading/numeric";
+import { mcConfigSchema, mcOptionSchema } from "@/lib/grading/multiple-choice";
+import {
+  instanceSeed,
+  instantiateQuestion,
+  parseParameterValues,
+  questionParametersSchema,
+  validateAnswerFormula,
+} from "@/lib/grading/parameters";
+import { canAccessCourse, canManageAssignment } from "@/lib/courses";
+import { latePolicySchema, parseLatePolicy } from "@/lib/grading/late-policy";
+import { getTimeWindowEnd, timeLimitSchema } from "@/lib/grading/time-limit";
+import { attemptScoringSchema, maxAttemptsSchema } from "@/lib/grading/attempts";
+import { reassessAssignment } from "@/lib/services/extension-service";
 
 const PatchQuestionSchema = z.object({
   questionText: z.string().min(1).max(10000),
   questionType: z.enum(["MC", "NUMERIC", "FREE_RESPONSE"]),
-  options: z.array(z.string().max(2000)).optional(),
+  options: z.array(mcOptionSchema).optional(),
   correctAnswer: z.string().max(2000).optional(),
   points: z.number().min(0).max(1000).optional(),
   diagram: z.object({ type: z.string(), content: z.string() }).nullable().optional(),
   imageUrl: z.string().max(2000).nullable().optional(),
+  numericConfig: numericConfigSchema.nullable().optional(),
+  mcConfig: mcConfigSchema.nullable().optional(),
+  parameters: questionParametersSchema.nullable().optional(),
+  answerFormula: z.string().max(500).nullable().optional(),
+}).superRefine((q, ctx) => {
+  if (q.answerFormula?.trim() && q.parameters?.length) {
+    const error = validateAnswerFormula(q.answerFormula, q.parameters);
+    if (error) ctx.addIssue({ code: "custom", path: ["answerFormula"], message: error });
+  }
 });
 
 const PatchAssignmentSchema = z.object({
@@ -22,9 +45,14 @@ const PatchAssignmentSchema = z.object({
   published: z.boolean().optional(),
   totalPoints: z.number().min(0).max(10000).optional(),
   pdfUrl: z.string().max(2000).nullable().optional(),
-  lockAfterSubmit: z.boolean().optional(),
+  maxAttempts: maxAttemptsSchema.optional(),
+  attemptScoring: attemptScoringSchema.optional(),
+  timeLimitMinutes: timeLimitSchema.optional(),
+  latePolicy: latePolicySchema.nullable().optional(),
   scheduledPublishAt: z.string().nullable().optional(),
   notifyOnPublish: z.boolean().optional(),
+  categoryId: z.string().nullable().optional(),
+  allowAskAI: z.boolean().optional(),
   questions: z.array(PatchQuestionSchema).optional(),
 });
 
@@ -39,8 +67,8 @@ export async function GET(
     const userRole = auth.user.role;
     const isStaff = isStaffRole(userRole);
 
-    // Step 1: assignment + user's submission in parallel (fast indexed lookups)
-    const [assignment, submission] = await Promise.all([
+    // Step 1: assignment + user's latest attempt and attempt history in parallel (fast indexed lookups)
+    const [assignment, submission, attempts] = await Promise.all([
       prisma.assignment.findFirst({
         where: { id: params.id, isDeleted: false },
         include: {
@@ -51,8 +79,31 @@ export async function GET(
         },
       }),
       prisma.submission.findFirst({
-        where: { assignmentId: params.id, userId },
-        include: { answers: true },
+        where: { assignmentId: params.id, userId, isDeleted: false },
+        include: {
+          answers: {
+            include: {
+              rubricApplications: {
+                select: { rubric: { select: { id: true, description: true, points: true } } },
+              },
+            },
+          },
+        },
+        orderBy: { attempt: "desc" },
+      }),
+      prisma.submission.findMany({
+        where: { assignmentId: params.id, userId, isDraft: false, isDeleted: false },
+        select: {
+          id: true,
+          attempt: true,
+          submittedAt: true,
+          totalScore: true,
+          gradedAt: true,
+          lateMinutes: true,
+          latePenalty: true,
+          answers: { select: { id: true } },
+        },
+        orderBy: { attempt: "asc" },
       }),
     ]);
 
@@ -64,6 +115,10 @@ export async function GET(
       return NextResponse.json({ error: "Not found" }, { status: 404 });
     }
 
+    if (!(await canAccessCourse(auth.user, assignment.courseId))) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
     // Step 2: fetch appeals using direct indexed lookups (avoids slow nested relation filter)
     const appealsInclude = {
       student: { select: { id: true, name: true } },
@@ -88,9 +143,11 @@ export async function GET(
     let appeals: Awaited<ReturnType<typeof prisma.gradeAppeal.findMany>> = [];
 
     if (!isStaff) {
-      // Student: use answer IDs from their submission (no extra query needed)
-      if (submission) {
-        const answerIds = submission.answers.map((a) => a.id);
+      // Student: use answer IDs from their attempts (no extra query needed)
+      if (submission || attempts.length > 0) {
+        const answerIds = Array.from(
+          new Set([...(submission?.answers ?? []), ...attempts.flatMap((a) => a.answers)].map((a) => a.id))
+        );
         if (answerIds.length > 0) {
           appeals = await prisma.gradeAppeal.findMany({
             where: { submissionAnswerId: { in: answerIds }, studentId: userId },
@@ -122,14 +179,52 @@ export async function GET(
       }
     }
 
-    // Ensure _count exists for frontend even for students
+    // Ensure _count exists for frontend even for students.
+    // Students see their own instance of parameterized questions.
+    const seed = submission?.seed ?? instanceSeed(params.id, userId);
+    const extension = isStaff
+      ? null
+      : await prisma.dueDateExtension.findUnique({
+          where: { assignmentId_userId: { assignmentId: params.id, userId } },
+          select: { dueDate: true, extraMinutes: true },
+        });
+    // A timed attempt in progress keeps counting down across reloads
+    const timer =
+      !isStaff && assignment.timeLimitMinutes !== null && submission?.isDraft && submission.startedAt
+        ? {
+            startedAt: submission.startedAt,
+            endsAt: getTimeWindowEnd(submission.startedAt, assignment.timeLimitMinutes, extension?.extraMinutes ?? 0),
+          }
+        : null;
     const assignmentData = isStaff
-      ? assignment
-      : { ...assignment, _count: { submissions: 0 } };
+      ? { ...assignment, latePolicy: parseLatePolicy(assignment.latePolicy) }
+      : {
+          ...assignment,
+          latePolicy: parseLatePolicy(assignment.latePolicy),
+          extendedDueDate: extension?.dueDate ?? null,
+          extraMinutes: extension?.extraMinutes ?? 0,
+          questions: assignment.questions.map((q) => {
+            const stored = submission?.answers.find((a) => a.questionId === q.id)?.parameterValues;
+            return instantiateQuestion(q, seed, parseParameterValues(stored));
+          }),
+          _count: { submissions: 0 },
+        };
 
     return NextResponse.json({
       assignment: assignmentData,
       submission: submission || null,
+      timer,
+      // Lets the client correct the countdown for clock skew
+      now: new Date(),
+      attempts: attempts.map((a) => ({
+        id: a.id,
+        attempt: a.attempt,
+        submittedAt: a.submittedAt,
+        totalScore: a.totalScore,
+        gradedAt: a.gradedAt,
+        lateMinutes: a.lateMinutes,
+        latePenalty: a.latePenalty,
+      })),
       appeals,
     });
   } catch (error) {
@@ -145,7 +240,6 @@ export async function PATCH(
   try {
     const auth = await requireApiRole(["TA", "PROFESSOR", "ADMIN"]);
     if (isErrorResponse(auth)) return auth;
-    const userRole = auth.user.role;
     const userId = auth.user.id;
 
     const body = await req.json();
@@ -158,6 +252,21 @@ export async function PATCH(
     }
     const data = parsed.data;
 
+    if (!(await canManageAssignment(auth.user, params.id))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    // Grade categories belong to a course; only that course's assignments can use them
+    if (data.categoryId) {
+      const [category, current] = await Promise.all([
+        prisma.gradeCategory.findUnique({ where: { id: data.categoryId }, select: { courseId: true } }),
+        prisma.assignment.findUnique({ where: { id: params.id }, select: { courseId: true } }),
+      ]);
+      if (!category || category.courseId !== current?.courseId) {
+        return NextResponse.json({ error: "Grade category not found in this course" }, { status: 400 });
+      }
+    }
+
     // If questions are provided, delete existing and re-create
     if (data.questions) {
       await prisma.assignmentQuestion.deleteMany({
@@ -174,6 +283,10 @@ export async function PATCH(
           order: i,
           diagram: q.diagram ?? Prisma.JsonNull,
           imageUrl: q.imageUrl || null,
+          numericConfig: q.questionType === "NUMERIC" && q.numericConfig ? q.numericConfig : Prisma.JsonNull,
+          mcConfig: q.questionType === "MC" && q.mcConfig ? q.mcConfig : Prisma.JsonNull,
+          parameters: q.parameters?.length ? q.parameters : Prisma.JsonNull,
+          answerFormula: q.questionType === "NUMERIC" && q.parameters?.length ? q.answerFormula?.trim() || null : null,
         })),
       });
     }
@@ -223,13 +336,23 @@ export async function PATCH(
         ...(data.notifyOnPublish !== undefined && { notifyOnPublish: data.notifyOnPublish }),
         ...(data.totalPoints !== undefined && { totalPoints: data.totalPoints }),
         ...(data.pdfUrl !== undefined && { pdfUrl: data.pdfUrl || null }),
-        ...(data.lockAfterSubmit !== undefined && { lockAfterSubmit: data.lockAfterSubmit }),
+        ...(data.maxAttempts !== undefined && { maxAttempts: data.maxAttempts }),
+        ...(data.attemptScoring !== undefined && { attemptScoring: data.attemptScoring }),
+        ...(data.timeLimitMinutes !== undefined && { timeLimitMinutes: data.timeLimitMinutes }),
+        ...(data.latePolicy !== undefined && { latePolicy: data.latePolicy ?? Prisma.JsonNull }),
+        ...(data.categoryId !== undefined && { categoryId: data.categoryId }),
+        ...(data.allowAskAI !== undefined && { allowAskAI: data.allowAskAI }),
       },
       include: {
         questions: { orderBy: { order: "asc" } },
       },
     });
 
+    // Lateness is recorded per submission; re-judge existing ones against the new rules
+    if (data.dueDate !== undefined || data.latePolicy !== undefined) {
+      await reassessAssignment(assignment);
+    }
+
     return NextResponse.json({ assignment });
   } catch (error) {
     console.error("Update assignment error:", error);
@@ -247,6 +370,10 @@ export async function DELETE(
     const userRole = auth.user.role;
     const deleteUserId = auth.user.id;
 
+    if (!(await canManageAssignment(auth.user, params.id))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
     // TAs can only delete their own assignments
     if (userRole === "TA") {
       const existing = await prisma.assignment.findUnique({
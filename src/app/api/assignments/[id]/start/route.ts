@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireApiAuth, isErrorResponse } from "@/lib/api-auth";
+import { canAccessCourse } from "@/lib/courses";
+import { assessLateness } from "@/lib/services/extension-service";
+import { attemptsExhaustedMessage, startTimedAttempt } from "@/lib/services/attempt-service";
+
+// POST /api/assignments/[id]/start - Start (or resume) the clock on a timed quiz attempt
+export async function POST(
+  _req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireApiAuth();
+    if (isErrorResponse(auth)) return auth;
+
+    const assignment = await prisma.assignment.findFirst({
+      where: { id: params.id, isDeleted: false, published: true },
+      select: { id: true, courseId: true, type: true, dueDate: true, latePolicy: true, maxAttempts: true, timeLimitMinutes: true },
+    });
+    if (!assignment || !(await canAccessCourse(auth.user, assignment.courseId))) {
+      return NextResponse.json({ error: "Assignment not found" }, { status: 404 });
+    }
+    if (assignment.type !== "QUIZ" || assignment.timeLimitMinutes === null) {
+      return NextResponse.json({ error: "This assignment is not timed" }, { status: 400 });
+    }
+    if (!(await assessLateness(assignment, auth.user.id)).accepted) {
+      return NextResponse.json(
+        { error: "The due date has passed and this assignment no longer accepts submissions." },
+        { status: 403 }
+      );
+    }
+
+    const timer = await startTimedAttempt({ ...assignment, timeLimitMinutes: assignment.timeLimitMinutes }, auth.user.id);
+    if (!timer) {
+      return NextResponse.json({ error: attemptsExhaustedMessage(assignment.maxAttempts) }, { status: 403 });
+    }
+
+    // `now` lets the client correct the countdown for clock skew
+    return NextResponse.json({ timer, now: new Date() });
+  } catch (error) {
+    console.error("Start attempt error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
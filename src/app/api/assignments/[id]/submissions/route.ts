@@ -1,6 +1,10 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { requireApiRole, isErrorResponse } from "@/lib/api-auth";
+import { instanceSeed, instantiateQuestion, parseParameterValues } from "@/lib/grading/parameters";
+import { canManageAssignment } from "@/lib/courses";
+import { parseLatePolicy } from "@/lib/grading/late-policy";
+import { parseAttemptScoring } from "@/lib/grading/attempts";
 
 export async function GET(
   req: Request,
@@ -10,16 +14,42 @@ export async function GET(
     const auth = await requireApiRole(["TA", "PROFESSOR", "ADMIN"]);
     if (isErrorResponse(auth)) return auth;
 
+    if (!(await canManageAssignment(auth.user, params.id))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
     const assignment = await prisma.assignment.findUnique({
       where: { id: params.id },
-      select: { title: true, type: true, totalPoints: true, dueDate: true },
+      select: { title: true, type: true, totalPoints: true, dueDate: true, latePolicy: true, maxAttempts: true, attemptScoring: true, timeLimitMinutes: true },
+    });
+    const extensions = await prisma.dueDateExtension.findMany({
+      where: { assignmentId: params.id },
+      select: { userId: true, dueDate: true },
     });
+    const extendedDueDates = new Map(
+      extensions.flatMap((e) => (e.dueDate ? [[e.userId, e.dueDate.toISOString()] as const] : []))
+    );
 
     // Fetch all questions for this assignment to include unanswered ones
     const allQuestions = await prisma.assignmentQuestion.findMany({
       where: { assignmentId: params.id },
       orderBy: { order: "asc" },
-      select: { id: true, questionText: true, questionType: true, points: true, correctAnswer: true },
+      select: {
+        id: true,
+        questionText: true,
+        questionType: true,
+        points: true,
+        correctAnswer: true,
+        options: true,
+        order: true,
+        parameters: true,
+        answerFormula: true,
+        rubricScoring: true,
+        rubrics: {
+          orderBy: { order: "asc" },
+          include: { _count: { select: { applications: true } } },
+        },
+      },
     });
 
     const submissions = await prisma.submission.findMany({
@@ -37,6 +67,7 @@ export async function GET(
                 correctAnswer: true,
               },
             },
+            rubricApplications: { select: { rubricId: true } },
             appeals: {
               include: {
                 student: { select: { id: true, name: true } },
@@ -68,8 +99,13 @@ export async function GET(
         id: s.id,
         userName: s.user.name || "Unknown",
         userEmail: s.user.email,
+        attempt: s.attempt,
         submittedAt: s.submittedAt.toISOString(),
         totalScore: s.totalScore,
+        lateMinutes: s.lateMinutes,
+        latePenalty: s.latePenalty,
+        overtimeSeconds: s.overtimeSeconds,
+        extendedDueDate: extendedDueDates.get(s.userId) ?? null,
         gradedAt: s.gradedAt?.toISOString() || null,
         gradedByName: s.gradedBy?.name || null,
         fileUrl: s.fileUrl,
@@ -79,12 +115,17 @@ export async function GET(
         answers: (() => {
           // Map answered questions
           const answeredMap = new Map(s.answers.map((a) => [a.questionId, a]));
+          const seed = s.seed ?? instanceSeed(params.id, s.userId);
           return allQuestions.map((q) => {
             const a = answeredMap.get(q.id);
+            // Show graders the student's own instance of parameterized questions
+            const instance = instantiateQuestion(q, seed, parseParameterValues(a?.parameterValues));
             if (a) {
               return {
                 id: a.id,
-                questionText: q.questionText,
+                questionId: q.id,
+                questionText: instance.questionText,
+                parameterValues: instance.parameterValues,
                 questionType: q.questionType,
                 answer: a.answer,
                 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -94,6 +135,8 @@ export async function GET(
                 score: a.score,
                 feedback: a.feedback,
                 autoGraded: a.autoGraded,
+                autoGradeDetail: a.autoGradeDetail,
+                rubricItemIds: a.rubricApplications.map((r) => r.rubricId),
                 maxPoints: q.points,
                 leftBlank: false,
                 appeals: a.appeals.map((ap) => ({
@@ -116,7 +159,9 @@ export async function GET(
             // Unanswered question — student left blank
             return {
               id: `blank-${q.id}`,
-              questionText: q.questionText,
+              questionId: q.id,
+              questionText: instance.questionText,
+              parameterValues: instance.parameterValues,
               questionType: q.questionType,
               answer: null,
               answerImageUrls: null,
@@ -132,7 +177,26 @@ export async function GET(
       };
     });
 
-    return NextResponse.json({ assignment, submissions: formattedSubmissions });
+    // Rubric items per question, with how many answers each is applied to
+    const rubrics = Object.fromEntries(
+      allQuestions.map((q) => [
+        q.id,
+        {
+          scoring: q.rubricScoring,
+          items: q.rubrics.map(({ _count, ...r }) => ({ ...r, applicationCount: _count.applications })),
+        },
+      ])
+    );
+
+    return NextResponse.json({
+      assignment: assignment && {
+        ...assignment,
+        latePolicy: parseLatePolicy(assignment.latePolicy),
+        attemptScoring: parseAttemptScoring(assignment.attemptScoring),
+      },
+      submissions: formattedSubmissions,
+      rubrics,
+    });
   } catch (error) {
     console.error("Submissions error:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
@@ -4,15 +4,31 @@ import { Prisma } from "@prisma/client";
 import { requireApiAuth, requireApiRole, isErrorResponse } from "@/lib/api-auth";
 import { logger } from "@/lib/logger";
 import { z } from "zod";
+import { numericConfigSchema } from "@/lib/grading/numeric";
+import { mcConfigSchema, mcOptionSchema } from "@/lib/grading/multiple-choice";
+import { questionParametersSchema, validateAnswerFormula } from "@/lib/grading/parameters";
+import { canManageCourse, courseAssignmentWhere, getCourseScope } from "@/lib/courses";
+import { latePolicySchema } from "@/lib/grading/late-policy";
+import { timeLimitSchema } from "@/lib/grading/time-limit";
+import { attemptScoringSchema, maxAttemptsSchema, parseAttemptScoring, scoreAttempts } from "@/lib/grading/attempts";
 
 const QuestionSchema = z.object({
   questionText: z.string().min(1).max(10000),
   questionType: z.enum(["MC", "NUMERIC", "FREE_RESPONSE"]),
-  options: z.array(z.string().max(2000)).nullable().optional().default([]),
+  options: z.array(mcOptionSchema).nullable().optional().default([]),
   correctAnswer: z.string().max(2000).nullable().optional().default(""),
   points: z.number().min(0).max(1000).optional().default(10),
   diagram: z.object({ type: z.string(), content: z.string() }).nullable().optional(),
   imageUrl: z.string().max(2000).nullable().optional(),
+  numericConfig: numericConfigSchema.nullable().optional(),
+  mcConfig: mcConfigSchema.nullable().optional(),
+  parameters: questionParametersSchema.nullable().optional(),
+  answerFormula: z.string().max(500).nullable().optional(),
+}).superRefine((q, ctx) => {
+  if (q.answerFormula?.trim() && q.parameters?.length) {
+    const error = validateAnswerFormula(q.answerFormula, q.parameters);
+    if (error) ctx.addIssue({ code: "custom", path: ["answerFormula"], message: error });
+  }
 });
 
 const CreateAssignmentSchema = z.object({
@@ -23,9 +39,13 @@ const CreateAssignmentSchema = z.object({
   totalPoints: z.number().min(0).max(10000).optional().default(100),
   questions: z.array(QuestionSchema).optional().default([]),
   pdfUrl: z.string().max(2000).nullable().optional(),
-  lockAfterSubmit: z.boolean().optional().default(false),
+  maxAttempts: maxAttemptsSchema.optional().default(null),
+  attemptScoring: attemptScoringSchema.optional().default("latest"),
+  timeLimitMinutes: timeLimitSchema.optional().default(null),
+  latePolicy: latePolicySchema.nullable().optional(),
   scheduledPublishAt: z.string().nullable().optional(),
   notifyOnPublish: z.boolean().optional().default(false),
+  allowAskAI: z.boolean().optional().default(true),
 });
 
 export async function GET(req: Request) {
@@ -42,15 +62,19 @@ export async function GET(req: Request) {
 
     const hasSubmissions = searchParams.get("hasSubmissions") === "true";
 
-    const whereClause: Prisma.AssignmentWhereInput = userRole === "STUDENT"
-      ? { published: true, isDeleted: false }
-      : filterType === "published"
+    const scope = await getCourseScope(auth.user);
+    const whereClause: Prisma.AssignmentWhereInput = {
+      ...courseAssignmentWhere(scope),
+      ...(userRole === "STUDENT"
         ? { published: true, isDeleted: false }
-        : filterType === "drafts"
-          ? { published: false, scheduledPublishAt: null, isDeleted: false }
-          : filterType === "scheduled"
-            ? { published: false, scheduledPublishAt: { not: null }, isDeleted: false }
-            : { isDeleted: false };
+        : filterType === "published"
+          ? { published: true, isDeleted: false }
+          : filterType === "drafts"
+            ? { published: false, scheduledPublishAt: null, isDeleted: false }
+            : filterType === "scheduled"
+              ? { published: false, scheduledPublishAt: { not: null }, isDeleted: false }
+              : { isDeleted: false }),
+    };
 
     if (hasSubmissions) {
       whereClause.submissions = { some: { isDraft: false } };
@@ -79,13 +103,13 @@ export async function GET(req: Request) {
         },
         submissions: userRole === "STUDENT"
           ? {
-              where: { userId },
-              select: { userId: true, totalScore: true, submittedAt: true, gradedAt: true, isDraft: true, fileUrl: true, _count: { select: { answers: true } } },
-              take: 2, // get both draft and final if they exist
+              // Every attempt plus the draft, if one is in progress
+              where: { userId, isDeleted: false },
+              select: { id: true, attempt: true, userId: true, totalScore: true, submittedAt: true, gradedAt: true, isDraft: true, fileUrl: true, _count: { select: { answers: true } } },
             }
           : {
               where: { isDraft: false },
-              select: { userId: true, totalScore: true, submittedAt: true, gradedAt: true, isDraft: true, fileUrl: true, _count: { select: { answers: true } } },
+              select: { id: true, attempt: true, userId: true, totalScore: true, submittedAt: true, gradedAt: true, isDraft: true, fileUrl: true, _count: { select: { answers: true } } },
             },
       },
     });
@@ -108,13 +132,13 @@ export async function GET(req: Request) {
     }
 
     const formatted = assignments.map((a) => {
-      let mySubmission = null;
+      let myAttempts: typeof a.submissions = [];
       let myProgress: { answeredCount: number; totalQuestions: number; status: string } | undefined;
 
       if (userRole === "STUDENT") {
-        const finalSub = a.submissions.find((s) => !s.isDraft);
+        myAttempts = a.submissions.filter((s) => !s.isDraft);
+        const finalSub = myAttempts[0];
         const draftSub = a.submissions.find((s) => s.isDraft);
-        mySubmission = finalSub || null;
 
         if (finalSub) {
           myProgress = { answeredCount: a._count.questions, totalQuestions: a._count.questions, status: "submitted" };
@@ -128,8 +152,9 @@ export async function GET(req: Request) {
           myProgress = { answeredCount: a._count.questions, totalQuestions: a._count.questions, status: finalSub ? "submitted" : "in-progress" };
         }
       } else {
-        mySubmission = a.submissions.find((s) => s.userId === userId) || null;
+        myAttempts = a.submissions.filter((s) => s.userId === userId);
       }
+      const myResult = scoreAttempts(parseAttemptScoring(a.attemptScoring), myAttempts);
 
       const ungradedCount = userRole !== "STUDENT"
         ? a.submissions.filter((s) => s.gradedAt === null).length
@@ -140,9 +165,10 @@ export async function GET(req: Request) {
       return {
         ...a,
         submissions: undefined,
-        myScore: mySubmission?.totalScore ?? null,
-        mySubmitted: !!mySubmission,
-        myGraded: mySubmission?.gradedAt !== null && mySubmission?.gradedAt !== undefined,
+        myScore: myResult.score,
+        mySubmitted: myAttempts.length > 0,
+        myGraded: myResult.score !== null,
+        myAttemptCount: myAttempts.length,
         myProgress,
         ungradedCount,
         gradedCount,
@@ -180,7 +206,13 @@ export async function POST(req: Request) {
         { status: 400 }
       );
     }
-    const { title, description, dueDate, type, totalPoints, questions, pdfUrl, lockAfterSubmit, scheduledPublishAt, notifyOnPublish } = parsed.data;
+    const { title, description, dueDate, type, totalPoints, questions, pdfUrl, maxAttempts, attemptScoring, timeLimitMinutes, latePolicy, scheduledPublishAt, notifyOnPublish, allowAskAI } = parsed.data;
+
+    // New assignments belong to the active course
+    const { course } = await getCourseScope(auth.user);
+    if (!(await canManageCourse(auth.user, course?.id ?? null))) {
+      return NextResponse.json({ error: "You are not staff in the active course" }, { status: 403 });
+    }
 
     // Validate scheduledPublishAt if provided
     if (scheduledPublishAt) {
@@ -201,9 +233,14 @@ export async function POST(req: Request) {
         type,
         totalPoints,
         pdfUrl: pdfUrl || null,
-        lockAfterSubmit,
+        maxAttempts,
+        attemptScoring,
+        timeLimitMinutes: type === "QUIZ" ? timeLimitMinutes : null,
+        latePolicy: latePolicy ?? Prisma.JsonNull,
         scheduledPublishAt: scheduledPublishAt ? new Date(scheduledPublishAt) : null,
         notifyOnPublish,
+        allowAskAI,
+        courseId: course?.id ?? null,
         createdById: userId,
         questions: {
           create: questions.map((q, i) => ({
@@ -215,6 +252,10 @@ export async function POST(req: Request) {
             order: i,
             diagram: q.diagram ?? Prisma.JsonNull,
             imageUrl: q.imageUrl || null,
+            numericConfig: q.questionType === "NUMERIC" && q.numericConfig ? q.numericConfig : Prisma.JsonNull,
+            mcConfig: q.questionType === "MC" && q.mcConfig ? q.mcConfig : Prisma.JsonNull,
+            parameters: q.parameters?.length ? q.parameters : Prisma.JsonNull,
+            answerFormula: q.questionType === "NUMERIC" && q.parameters?.length ? q.answerFormula?.trim() || null : null,
           })),
         },
       },
@@ -1,12 +1,45 @@
 import { NextResponse } from "next/server";
 import bcrypt from "bcryptjs";
 import { prisma } from "@/lib/prisma";
+import { hashInviteToken } from "@/lib/services/roster-service";
+
+/** The account provisioned by a roster import for an unexpired invitation token, if any. */
+async function findInvitedUser(token: string) {
+  const user = await prisma.user.findUnique({
+    where: { inviteTokenHash: hashInviteToken(token) },
+    select: { id: true, name: true, email: true, studentId: true, passwordHash: true, isDeleted: true, inviteExpiresAt: true },
+  });
+  if (!user || user.passwordHash || user.isDeleted) return null;
+  if (!user.inviteExpiresAt || user.inviteExpiresAt < new Date()) return null;
+  return user;
+}
+
+// GET /api/auth/register?invite=<token> - Prefill the registration form for an invited student
+export async function GET(req: Request) {
+  try {
+    const token = new URL(req.url).searchParams.get("invite");
+    const user = token ? await findInvitedUser(token) : null;
+    if (!user) {
+      return NextResponse.json(
+        { error: "This invitation link is invalid or has expired" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ name: user.name, email: user.email, studentId: user.studentId });
+  } catch (error) {
+    console.error("Invitation lookup error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
 
 export async function POST(req: Request) {
   try {
-    const { name, email, password, studentId } = await req.json();
+    const { name, email, password, studentId, inviteToken } = await req.json();
 
-    if (!name || !email || !password || !studentId) {
+    if (!name || !password || (!inviteToken && (!email || !studentId))) {
       return NextResponse.json(
         { error: "Missing required fields" },
         { status: 400 }
@@ -34,6 +67,31 @@ export async function POST(req: Request) {
       );
     }
 
+    // Invited students activate the account a roster import created for them
+    if (inviteToken) {
+      const invited = await findInvitedUser(inviteToken);
+      if (!invited) {
+        return NextResponse.json(
+          { error: "This invitation link is invalid or has expired" },
+          { status: 400 }
+        );
+      }
+      const user = await prisma.user.update({
+        where: { id: invited.id },
+        data: {
+          name,
+          passwordHash: await bcrypt.hash(password, 12),
+          inviteTokenHash: null,
+          inviteExpiresAt: null,
+        },
+      });
+      return NextResponse.json({
+        id: user.id,
+        name: user.name,
+        email: user.email,
+      });
+    }
+
     const trimmedStudentId = studentId.trim();
     if (trimmedStudentId.length > 50) {
       return NextResponse.json(
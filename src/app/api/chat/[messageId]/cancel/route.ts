@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { requireApiAuth, isErrorResponse } from "@/lib/api-auth";
+import { cancelChatGeneration } from "@/lib/services/chat-generation-service";
+
+/** "Stop generating": cancels the provider call and keeps what was written so far. */
+export async function POST(
+  req: Request,
+  { params }: { params: { messageId: string } }
+) {
+  try {
+    const auth = await requireApiAuth();
+    if (isErrorResponse(auth)) return auth;
+
+    const stopped = await cancelChatGeneration(params.messageId, auth.user.id);
+    return NextResponse.json({ stopped });
+  } catch (error) {
+    console.error("Cancel chat stream error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
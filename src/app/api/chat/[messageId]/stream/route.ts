@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireApiAuth, isErrorResponse } from "@/lib/api-auth";
+import { followChatGeneration, followStoredChatGeneration } from "@/lib/services/chat-generation-service";
+
+/** Reconnect to a reply: everything generated so far, then the rest as it arrives. */
+export async function GET(
+  req: Request,
+  { params }: { params: { messageId: string } }
+) {
+  try {
+    const auth = await requireApiAuth();
+    if (isErrorResponse(auth)) return auth;
+
+    const message = await prisma.message.findFirst({
+      where: { id: params.messageId, role: "assistant", conversation: { userId: auth.user.id, isDeleted: false } },
+      select: { id: true },
+    });
+    if (!message) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    // Generated by another server instance, or finished long enough ago to be out of memory
+    const readable = followChatGeneration(message.id, auth.user.id) ?? followStoredChatGeneration(message.id);
+
+    return new Response(readable, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    console.error("Resume chat stream error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,26 @@
 import { prisma } from "@/lib/prisma";
 import { requireApiAuth, isErrorResponse } from "@/lib/api-auth";
-import { streamChat, SOCRATIC_SYSTEM_PROMPT, EXAM_MODE_SYSTEM_PROMPT, type ChatMessage, type AIProvider } from "@/lib/ai";
-import { checkRateLimit } from "@/lib/rate-limit";
+import {
+  resolveChatProvider,
+  DEFAULT_SYSTEM_PROMPT,
+  SOCRATIC_SYSTEM_PROMPT,
+  EXAM_MODE_SYSTEM_PROMPT,
+  CHAT_TOOLS,
+} from "@/lib/ai";
+import { checkAIBudget } from "@/lib/services/ai-usage-service";
+import { getCourseScope } from "@/lib/courses";
+import { getQuotaStatus, quotaExceededMessage } from "@/lib/services/quota-service";
+import { retrieveForChat } from "@/lib/services/knowledge-service";
+import { buildChatContext } from "@/lib/services/chat-context-service";
+import { followChatGeneration, followStoredChatGeneration, startChatGeneration } from "@/lib/services/chat-generation-service";
+import { branchPath } from "@/lib/ai/branches";
+import { buildQuestionContextPrompt, parseQuestionContext } from "@/lib/ai/question-context";
+import { ASK_AI_DISABLED_MESSAGE, getAskAIAccess } from "@/lib/services/ask-ai-service";
 import { checkContentFlags, handleContentFlag, trackRateLimitAbuse } from "@/lib/abuse-detection";
 import { checkAndBanSpammer } from "@/lib/spam-guard";
 import { logger } from "@/lib/logger";
-import Anthropic from "@anthropic-ai/sdk";
+import { MAX_ACTIVE_CONVERSATIONS } from "@/lib/constants";
+import { countActiveConversations } from "@/lib/services/conversation-service";
 
 export async function POST(req: Request) {
   try {
@@ -42,27 +57,34 @@ export async function POST(req: Request) {
 
     const userName = auth.user.name || "Unknown";
 
-    const rateCheck = checkRateLimit(userId, user?.isRestricted || false);
-    if (!rateCheck.allowed) {
+    const budget = await checkAIBudget(auth.user);
+    if (budget.status === "blocked") {
+      return Response.json({ error: budget.message }, { status: 429 });
+    }
+
+    const courseId = (await getCourseScope(auth.user)).course?.id ?? null;
+
+    // Past the soft AI budget, token allowances are cut
+    const quota = await getQuotaStatus(auth.user, "chat", { courseId, throttled: budget.status === "throttled" });
+    if (!quota.allowed) {
       await prisma.auditLog.create({
         data: {
           userId,
           action: "rate_limit_hit",
-          details: { remaining: rateCheck.remaining, resetAt: new Date(rateCheck.resetAt).toISOString() },
+          details: { feature: "chat", limit: quota.limit, used: quota.used, resetAt: quota.resetsAt.toISOString() },
         },
       });
       // Fire-and-forget: track rate limit abuse escalation
       trackRateLimitAbuse(userId, userName).catch((err) => console.error("[abuse] Failed to track rate limit abuse:", err));
-      return Response.json(
-        { error: `Rate limit exceeded. Please wait before sending more messages. Resets at ${new Date(rateCheck.resetAt).toLocaleTimeString()}.` },
-        { status: 429 }
-      );
+      return Response.json({ error: quotaExceededMessage(quota) }, { status: 429 });
     }
 
-    const { conversationId, message, imageUrls, model, mode } = await req.json();
+    // `parentId` (an edit) starts a sibling branch under that message; `regenerateId` re-answers an existing user message
+    const { conversationId, message, imageUrls, model, mode, parentId, regenerateId } = await req.json();
+    const regenerating = typeof regenerateId === "string";
 
     // Validate message size to prevent abuse
-    if (typeof message !== "string" || message.length > 50000) {
+    if (!regenerating && (typeof message !== "string" || message.length > 50000)) {
       return Response.json(
         { error: "Message is too long. Maximum 50,000 characters." },
         { status: 413 }
@@ -70,24 +92,68 @@ export async function POST(req: Request) {
     }
 
     // Fire-and-forget: check content for jailbreak/prompt injection patterns
-    const contentFlags = checkContentFlags(message);
+    const contentFlags = regenerating ? [] : checkContentFlags(message);
     if (contentFlags.length > 0) {
       handleContentFlag(userId, userName, message, contentFlags).catch((err) => console.error("[content-flag] Failed to handle content flag:", err));
     }
 
+    const existing = conversationId
+      ? await prisma.conversation.findFirst({
+          where: { id: conversationId, userId, isDeleted: false },
+          select: {
+            activeLeafId: true,
+            archivedAt: true,
+            questionContext: true,
+            assignment: {
+              select: { id: true, title: true, published: true, allowAskAI: true, totalPoints: true, dueDate: true, latePolicy: true, maxAttempts: true },
+            },
+          },
+        })
+      : null;
+    if (conversationId && !existing) {
+      return Response.json({ error: "Conversation not found" }, { status: 404 });
+    }
+    if (regenerating && !existing) {
+      return Response.json({ error: "Nothing to regenerate in a new conversation" }, { status: 400 });
+    }
+
+    // "Ask AI" conversations carry their assignment question and follow the assignment's rules
+    let questionPrompt: string | null = null;
+    let questionText: string | null = null;
+    let questionImageUrl: string | null = null;
+    let socraticRequired = false;
+    if (existing) {
+      const context = parseQuestionContext(existing.questionContext);
+      if (context && existing.assignment) {
+        const access = await getAskAIAccess(existing.assignment, auth.user);
+        if (!access.allowed) {
+          return Response.json({ error: ASK_AI_DISABLED_MESSAGE }, { status: 403 });
+        }
+        socraticRequired = access.socratic;
+        questionPrompt = buildQuestionContextPrompt(context, existing.assignment.title);
+        questionText = context.questionText;
+        questionImageUrl = context.imageUrl;
+      }
+    }
+    const chatMode = socraticRequired ? "socratic" : mode || "normal";
+
     let convId = conversationId;
 
-    if (!convId) {
-      // Enforce conversation limit (50 active conversations per user)
-      const activeConvCount = await prisma.conversation.count({
-        where: { userId, isDeleted: false },
-      });
-      if (activeConvCount >= 50) {
+    // Enforce the active-conversation limit; continuing an archived conversation takes it out of the archive
+    if (!convId || existing?.archivedAt) {
+      const activeConvCount = await countActiveConversations(userId);
+      if (activeConvCount >= MAX_ACTIVE_CONVERSATIONS) {
         return Response.json(
-          { error: "You have reached the maximum of 50 conversations. Please delete some old conversations to create a new one." },
+          { error: `You have reached the maximum of ${MAX_ACTIVE_CONVERSATIONS} active conversations. Archive or delete some to ${convId ? "continue this one" : "create a new one"}.` },
           { status: 429 }
         );
       }
+    }
+    if (convId && existing?.archivedAt) {
+      await prisma.conversation.update({ where: { id: convId }, data: { archivedAt: null } });
+    }
+
+    if (!convId) {
 
       const conversation = await prisma.conversation.create({
         data: {
@@ -98,43 +164,76 @@ export async function POST(req: Request) {
       convId = conversation.id;
     }
 
-    await prisma.message.create({
-      data: {
-        conversationId: convId,
-        role: "user",
-        content: message,
-        imageUrls: imageUrls || [],
-        mode: mode || "normal",
-      },
+    let userMessageId: string;
+    if (regenerating) {
+      const target = await prisma.message.findFirst({
+        where: { id: regenerateId, conversationId: convId, role: "user" },
+        select: { id: true },
+      });
+      if (!target) {
+        return Response.json({ error: "Message not found" }, { status: 404 });
+      }
+      userMessageId = target.id;
+    } else {
+      // Without an explicit parent the message continues the branch on screen
+      const parent = parentId !== undefined ? parentId : existing?.activeLeafId ?? null;
+      if (parent !== null) {
+        const parentMessage = typeof parent === "string"
+          ? await prisma.message.findFirst({ where: { id: parent, conversationId: convId }, select: { id: true } })
+          : null;
+        if (!parentMessage) {
+          return Response.json({ error: "Message not found" }, { status: 404 });
+        }
+      }
+      const userMessage = await prisma.message.create({
+        data: {
+          conversationId: convId,
+          parentId: parent,
+          role: "user",
+          content: message,
+          imageUrls: imageUrls || [],
+          mode: chatMode,
+        },
+      });
+      userMessageId = userMessage.id;
+    }
+    await prisma.conversation.update({
+      where: { id: convId },
+      data: { activeLeafId: userMessageId },
     });
 
     // Check for chat spam (30 messages/min auto-ban, non-blocking)
     checkAndBanSpammer({ userId, source: "chat" }).catch((err) => console.error("[spam] Failed to check spammer:", err));
 
-    // Load last 50 messages for AI context (avoids unbounded query + token limits)
-    const recentMessages = await prisma.message.findMany({
+    // The model sees only the branch being answered
+    const conversationMessages = await prisma.message.findMany({
       where: { conversationId: convId },
-      orderBy: { createdAt: "desc" },
-      take: 50,
+      select: { id: true, parentId: true, role: true, content: true, imageUrls: true, pinned: true, contextSummary: true, authorId: true, createdAt: true },
     });
-    const previousMessages = recentMessages.reverse();
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const chatMessages: ChatMessage[] = previousMessages.map((m: any) => ({
-      role: m.role as "user" | "assistant",
-      content: m.content,
-      imageUrls: m.imageUrls?.length ? m.imageUrls : undefined,
+    const previousMessages = branchPath(conversationMessages, userMessageId);
+
+    // The question's figure rides along with the earliest message, which is always kept in context.
+    // Staff replies sit in assistant turns; the label keeps the tutor from taking them for its own words
+    const contextPath = previousMessages.map((m) => ({
+      ...m,
+      content: m.authorId ? `[Reply from the course's teaching staff]\n\n${m.content}` : m.content,
+      imageUrls: m.imageUrls ?? [],
     }));
-
-    const provider: AIProvider = model?.startsWith("claude") ? "anthropic" : "openai";
+    const firstUserMessage = contextPath.find((m) => m.role === "user");
+    if (questionImageUrl && firstUserMessage) {
+      firstUserMessage.imageUrls = [questionImageUrl, ...firstUserMessage.imageUrls];
+    }
 
     const aiConfig = await prisma.aIConfig.findFirst({
       where: { isActive: true },
     });
 
+    const { provider, model: chatModel } = resolveChatProvider(aiConfig, model);
+
     // Check exam mode — enforced server-side for students
     const userRole = auth.user.role;
     let systemPrompt: string | undefined;
+    let examModeActive = false;
 
     if (userRole === "STUDENT") {
       const examMode = await prisma.examMode.findFirst({
@@ -143,129 +242,78 @@ export async function POST(req: Request) {
       });
       if (examMode?.isActive) {
         systemPrompt = EXAM_MODE_SYSTEM_PROMPT;
+        examModeActive = true;
       }
     }
 
     if (!systemPrompt) {
-      systemPrompt = mode === "socratic" ? SOCRATIC_SYSTEM_PROMPT : (aiConfig?.systemPrompt || undefined);
+      systemPrompt = chatMode === "socratic" ? SOCRATIC_SYSTEM_PROMPT : (aiConfig?.systemPrompt || undefined);
     }
 
-    // Stream response via SSE
-    const encoder = new TextEncoder();
-    let fullContent = "";
-
-    const readable = new ReadableStream({
-      async start(controller) {
-        try {
-          // Send conversationId as first event
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: "meta", conversationId: convId })}\n\n`));
-
-          if (provider === "openai") {
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const stream = await streamChat(chatMessages, "openai", model || "gpt-5.2", systemPrompt) as any;
-            for await (const event of stream) {
-              if (event.type === "response.reasoning_summary_text.delta") {
-                const delta = event.delta || "";
-                if (delta) {
-                  controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: "thinking", content: delta })}\n\n`));
-                }
-              } else if (event.type === "response.output_text.delta") {
-                const delta = event.delta || "";
-                if (delta) {
-                  fullContent += delta;
-                  controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: "delta", content: delta })}\n\n`));
-                }
-              }
-            }
-          } else {
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const stream = await streamChat(chatMessages, "anthropic", model, systemPrompt) as any;
-            for await (const event of stream) {
-              if (event.type === "content_block_delta" && event.delta?.text) {
-                fullContent += event.delta.text;
-                controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: "delta", content: event.delta.text })}\n\n`));
-              }
-            }
-          }
-        } catch (aiError) {
-          logger.error("AI streaming error", {
-            route: "/api/chat",
-            userId,
-            error: aiError instanceof Error ? aiError.message : String(aiError),
-          });
-
-          if (aiError instanceof Error && (aiError.message.includes("rate limit") || aiError.message.includes("429"))) {
-            fullContent = "The AI service is currently rate limited. Please wait a moment and try again.";
-          } else if (aiError instanceof Error && (aiError.message.includes("401") || aiError.message.includes("authentication") || aiError.message.includes("API key"))) {
-            fullContent = "AI service authentication error. Please contact an administrator to check API key configuration.";
-          } else {
-            fullContent = "I'm sorry, I encountered an error while processing your request. Please try again shortly.";
-          }
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: "delta", content: fullContent })}\n\n`));
-        }
+    if (questionPrompt) {
+      systemPrompt = `${systemPrompt || DEFAULT_SYSTEM_PROMPT}\n\n${questionPrompt}`;
+    }
 
-        // Save to DB after stream completes
-        try {
-          await prisma.message.create({
-            data: {
-              conversationId: convId,
-              role: "assistant",
-              content: fullContent,
-              model: model || "gpt-5.2",
-              mode: mode || "normal",
-            },
-          });
-
-          await prisma.conversation.update({
-            where: { id: convId },
-            data: { updatedAt: new Date() },
-          });
-
-        } catch (dbError) {
-          logger.error("Failed to save assistant message to DB", {
-            route: "/api/chat",
-            userId,
-            conversationId: convId,
-            error: dbError instanceof Error ? dbError.message : String(dbError),
-          });
-        }
+    // Course materials for this turn; the previous question helps with follow-ups like "and part (b)?",
+    // and an "Ask AI" conversation always searches on its assignment question too
+    const knowledge = examModeActive
+      ? null
+      : await retrieveForChat(
+          courseId,
+          [questionText, ...previousMessages.filter((m) => m.role === "user").slice(-2).map((m) => m.content)]
+            .filter(Boolean)
+            .join("\n")
+        );
+    if (knowledge) {
+      systemPrompt = `${systemPrompt || DEFAULT_SYSTEM_PROMPT}\n\n${knowledge.prompt}`;
+    }
 
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: "done" })}\n\n`));
-        controller.close();
-
-        // Generate AI title for new conversations (fire-and-forget, non-blocking)
-        if (!conversationId && fullContent) {
-          (async () => {
-            try {
-              const titleClient = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-              const titleResponse = await titleClient.messages.create({
-                model: "claude-haiku-4-5-20251001",
-                max_tokens: 50,
-                messages: [{
-                  role: "user",
-                  content: `Generate a concise title (max 6 words) for this conversation. The title should accurately reflect the topic of the question. Reply with ONLY the title, no quotes.\n\nQuestion: ${message}\n\nAI answer (for context only): ${fullContent.slice(0, 100)}`,
-                }],
-              });
-              const titleBlock = titleResponse.content[0];
-              const generatedTitle = titleBlock.type === "text" ? titleBlock.text.trim() : null;
-              if (generatedTitle) {
-                await prisma.conversation.update({
-                  where: { id: convId },
-                  data: { title: generatedTitle },
-                });
-              }
-            } catch (titleError) {
-              logger.warn("Failed to generate conversation title", {
-                route: "/api/chat",
-                userId,
-                conversationId: convId,
-                error: titleError instanceof Error ? titleError.message : String(titleError),
-              });
-            }
-          })();
-        }
+    // Token-budgeted history: pinned messages, a running summary of older turns, then the newest turns
+    const context = await buildChatContext({
+      path: contextPath,
+      provider,
+      model: chatModel,
+      systemPrompt: systemPrompt || DEFAULT_SYSTEM_PROMPT,
+      userId,
+      courseId,
+    });
+
+    // The reply is generated in the background so a dropped connection neither stops nor loses it
+    const assistantMessage = await prisma.message.create({
+      data: {
+        conversationId: convId,
+        parentId: userMessageId,
+        role: "assistant",
+        content: "",
+        model: chatModel,
+        mode: chatMode,
+        status: "STREAMING",
+        contextLog: context.log,
       },
     });
+    await prisma.conversation.update({
+      where: { id: convId },
+      data: { activeLeafId: assistantMessage.id },
+    });
+
+    startChatGeneration({
+      messageId: assistantMessage.id,
+      conversationId: convId,
+      userId,
+      courseId,
+      messages: context.messages,
+      provider,
+      model: chatModel,
+      systemPrompt: context.systemPrompt,
+      citations: knowledge?.citations ?? [],
+      // A calculator that solves the problem outright has no place in an exam
+      tools: examModeActive ? [] : CHAT_TOOLS,
+      titleFrom: conversationId ? null : message,
+    });
+
+    const readable = followChatGeneration(assistantMessage.id, userId, [
+      { type: "meta", conversationId: convId, userMessageId, messageId: assistantMessage.id },
+    ]) ?? followStoredChatGeneration(assistantMessage.id);
 
     return new Response(readable, {
       headers: {
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireApiAuth, isErrorResponse } from "@/lib/api-auth";
+import { attachment, conversationToMarkdown, exportFileName } from "@/lib/chat-export";
+import { buildChatExportZip, loadExportConversations } from "@/lib/services/chat-export-service";
+
+const FormatSchema = z.enum(["markdown", "latex", "pdf"]);
+
+/** One conversation as Markdown, a LaTeX zip, or (`pdf`) its print view */
+export async function GET(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireApiAuth();
+    if (isErrorResponse(auth)) return auth;
+    const { user } = auth;
+
+    const url = new URL(req.url);
+    const format = FormatSchema.safeParse(url.searchParams.get("format") ?? "markdown");
+    if (!format.success) {
+      return NextResponse.json({ error: "Invalid input", details: { format: ["Use markdown, latex or pdf"] } }, { status: 400 });
+    }
+
+    const conversation = await prisma.conversation.findFirst({
+      where: { id: params.id, isDeleted: false },
+      select: { userId: true },
+    });
+    if (!conversation) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    if (conversation.userId !== user.id && user.role !== "ADMIN" && user.role !== "PROFESSOR" && user.role !== "TA") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (format.data === "pdf") {
+      return NextResponse.redirect(new URL(`/print/conversations/${params.id}`, url.origin), 303);
+    }
+
+    const [exported] = await loadExportConversations({ id: params.id });
+    const name = exportFileName(exported);
+    if (format.data === "markdown") {
+      return new NextResponse(conversationToMarkdown(exported, url.origin), {
+        headers: {
+          "Content-Type": "text/markdown; charset=utf-8",
+          "Content-Disposition": attachment(`${name}.md`),
+        },
+      });
+    }
+
+    const zip = await buildChatExportZip([exported], "latex", url.origin);
+    return new NextResponse(zip, {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": attachment(`${name}_latex.zip`),
+      },
+    });
+  } catch (error) {
+    console.error("Export conversation error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
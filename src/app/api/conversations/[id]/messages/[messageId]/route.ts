@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireApiAuth, isErrorResponse } from "@/lib/api-auth";
+import { z } from "zod";
+
+const PatchMessageSchema = z.object({
+  /** Pinned messages are always sent to the tutor, however long the conversation gets */
+  pinned: z.boolean(),
+});
+
+export async function PATCH(
+  req: Request,
+  { params }: { params: { id: string; messageId: string } }
+) {
+  try {
+    const auth = await requireApiAuth();
+    if (isErrorResponse(auth)) return auth;
+
+    const parsed = PatchMessageSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { count } = await prisma.message.updateMany({
+      where: { id: params.messageId, conversationId: params.id, conversation: { userId: auth.user.id, isDeleted: false } },
+      data: { pinned: parsed.data.pinned },
+    });
+    if (count === 0) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ pinned: parsed.data.pinned });
+  } catch (error) {
+    console.error("Pin message error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
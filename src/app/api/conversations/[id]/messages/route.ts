@@ -1,6 +1,9 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { requireApiAuth, isErrorResponse } from "@/lib/api-auth";
+import { branchPath, latestLeaf, siblingGroups } from "@/lib/ai/branches";
+import { parseQuestionContext } from "@/lib/ai/question-context";
+import { getAskAIAccess } from "@/lib/services/ask-ai-service";
 
 export async function GET(
   req: Request,
@@ -18,7 +21,10 @@ export async function GET(
       include: {
         messages: {
           orderBy: { createdAt: "asc" },
-          take: 200,
+          include: { author: { select: { name: true, role: true } } },
+        },
+        assignment: {
+          select: { id: true, title: true, published: true, allowAskAI: true, totalPoints: true, dueDate: true, latePolicy: true, maxAttempts: true },
         },
       },
     });
@@ -31,13 +37,47 @@ export async function GET(
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
+    // Only the branch on screen; siblings let the client page between alternatives.
+    // `through` shows another branch without switching to it, e.g. a search hit in Q&A history
+    const through = new URL(req.url).searchParams.get("through");
+    const leafId = through && conversation.messages.some((m) => m.id === through)
+      ? latestLeaf(conversation.messages, through)
+      : conversation.activeLeafId;
+    const siblings = siblingGroups(conversation.messages);
+    const path = branchPath(conversation.messages, leafId).slice(-200);
+
+    // "Ask AI" conversations show their question and whether the assignment's rules apply
+    const context = parseQuestionContext(conversation.questionContext);
+    const access = context && conversation.assignment ? await getAskAIAccess(conversation.assignment, user) : null;
+
     return NextResponse.json({
-      messages: conversation.messages.map((m) => ({
+      question:
+        context && conversation.assignment && access
+          ? {
+              assignmentId: conversation.assignment.id,
+              assignmentTitle: conversation.assignment.title,
+              context,
+              allowed: access.allowed,
+              socratic: access.socratic,
+            }
+          : null,
+      messages: path.map((m) => ({
         id: m.id,
+        parentId: m.parentId,
+        siblingIds: siblings.get(m.id),
         role: m.role,
         content: m.content,
         imageUrls: m.imageUrls,
         model: m.model,
+        citations: m.citations ?? undefined,
+        thinking: m.reasoning ?? undefined,
+        sources: m.sources ?? undefined,
+        toolCalls: m.toolCalls ?? undefined,
+        status: m.status.toLowerCase(),
+        pinned: m.pinned,
+        author: m.author ? { name: m.author.name || "Staff", role: m.author.role } : undefined,
+        // What the tutor was actually sent, for debugging in Q&A history
+        ...(userRole === "ADMIN" && m.contextLog && { context: m.contextLog }),
         createdAt: m.createdAt,
       })),
     });
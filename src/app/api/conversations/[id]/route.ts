@@ -1,6 +1,87 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { requireApiAuth, isErrorResponse } from "@/lib/api-auth";
+import { z } from "zod";
+import { latestLeaf } from "@/lib/ai/branches";
+import { MAX_ACTIVE_CONVERSATIONS } from "@/lib/constants";
+import { TAGS_PER_CONVERSATION, TAG_MAX_LENGTH, uniqueTags } from "@/lib/chat-organize";
+import { countActiveConversations, getConversationSummary } from "@/lib/services/conversation-service";
+
+const PatchConversationSchema = z
+  .object({
+    /** Show the branch through this message, following its newest replies */
+    activeMessageId: z.string().min(1).optional(),
+    /** null takes it out of its folder */
+    folderId: z.string().min(1).nullable().optional(),
+    tags: z.array(z.string().max(TAG_MAX_LENGTH)).max(TAGS_PER_CONVERSATION).optional(),
+    pinned: z.boolean().optional(),
+    archived: z.boolean().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), { message: "Nothing to update" });
+
+export async function PATCH(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireApiAuth();
+    if (isErrorResponse(auth)) return auth;
+
+    const parsed = PatchConversationSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { activeMessageId, folderId, tags, pinned, archived } = parsed.data;
+
+    const conversation = await prisma.conversation.findFirst({
+      where: { id: params.id, userId: auth.user.id, isDeleted: false },
+      select: { updatedAt: true, archivedAt: true, pinnedAt: true, messages: { select: { id: true, parentId: true, createdAt: true } } },
+    });
+    if (!conversation || (activeMessageId && !conversation.messages.some((m) => m.id === activeMessageId))) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    if (folderId) {
+      const folder = await prisma.conversationFolder.findFirst({ where: { id: folderId, userId: auth.user.id } });
+      if (!folder) {
+        return NextResponse.json({ error: "Folder not found" }, { status: 404 });
+      }
+    }
+    if (archived === false && conversation.archivedAt) {
+      if ((await countActiveConversations(auth.user.id)) >= MAX_ACTIVE_CONVERSATIONS) {
+        return NextResponse.json(
+          { error: `You have reached the maximum of ${MAX_ACTIVE_CONVERSATIONS} active conversations. Archive or delete one to restore this one.` },
+          { status: 429 }
+        );
+      }
+    }
+
+    // Pinning and archiving keep their original time when repeated. Filing a
+    // conversation away is not activity in it, so it keeps its place in the list
+    await prisma.conversation.update({
+      where: { id: params.id },
+      data: {
+        ...(!activeMessageId && { updatedAt: conversation.updatedAt }),
+        ...(activeMessageId && { activeLeafId: latestLeaf(conversation.messages, activeMessageId) }),
+        ...(folderId !== undefined && { folderId }),
+        ...(tags && { tags: uniqueTags(tags) }),
+        ...(pinned !== undefined && { pinnedAt: pinned ? conversation.pinnedAt ?? new Date() : null }),
+        ...(archived !== undefined && { archivedAt: archived ? conversation.archivedAt ?? new Date() : null }),
+      },
+    });
+
+    return NextResponse.json({ conversation: await getConversationSummary(params.id) });
+  } catch (error) {
+    console.error("Update conversation error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
 
 export async function DELETE(
   req: Request,
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireApiAuth, isErrorResponse } from "@/lib/api-auth";
+import { SHARE_NOTE_MAX, createShareToken, shareSelect } from "@/lib/services/chat-share-service";
+
+const CreateShareSchema = z.object({
+  /** Snapshot up to this message; omitted, the link follows the conversation */
+  messageId: z.string().min(1).optional(),
+  /** Also send it to the staff inbox */
+  escalate: z.boolean().optional(),
+  note: z.string().trim().max(SHARE_NOTE_MAX).optional(),
+});
+
+async function findOwnConversation(id: string, userId: string) {
+  return prisma.conversation.findFirst({
+    where: { id, userId, isDeleted: false },
+    select: { id: true },
+  });
+}
+
+/** The student's links to this conversation that still work */
+export async function GET(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireApiAuth();
+    if (isErrorResponse(auth)) return auth;
+
+    if (!(await findOwnConversation(params.id, auth.user.id))) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const shares = await prisma.conversationShare.findMany({
+      where: { conversationId: params.id, revokedAt: null },
+      orderBy: { createdAt: "desc" },
+      select: shareSelect,
+    });
+    return NextResponse.json({ shares });
+  } catch (error) {
+    console.error("Shares GET error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireApiAuth();
+    if (isErrorResponse(auth)) return auth;
+
+    const parsed = CreateShareSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const { messageId, escalate, note } = parsed.data;
+
+    if (!(await findOwnConversation(params.id, auth.user.id))) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    if (messageId) {
+      const message = await prisma.message.findFirst({
+        where: { id: messageId, conversationId: params.id },
+        select: { id: true },
+      });
+      if (!message) {
+        return NextResponse.json({ error: "Message not found" }, { status: 404 });
+      }
+    }
+
+    const share = await prisma.conversationShare.create({
+      data: {
+        conversationId: params.id,
+        createdById: auth.user.id,
+        token: createShareToken(),
+        messageId: messageId ?? null,
+        escalatedAt: escalate ? new Date() : null,
+        note: escalate && note ? note : null,
+      },
+      select: shareSelect,
+    });
+    return NextResponse.json({ share }, { status: 201 });
+  } catch (error) {
+    console.error("Shares POST error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
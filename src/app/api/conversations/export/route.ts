@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiAuth, isErrorResponse } from "@/lib/api-auth";
+import { attachment } from "@/lib/chat-export";
+import { buildChatExportZip, loadExportConversations } from "@/lib/services/chat-export-service";
+
+const FormatSchema = z.enum(["markdown", "latex", "pdf"]);
+
+/** The signed-in user's whole chat history: a zip of Markdown files or LaTeX folders, or (`pdf`) one print view */
+export async function GET(req: Request) {
+  try {
+    const auth = await requireApiAuth();
+    if (isErrorResponse(auth)) return auth;
+
+    const url = new URL(req.url);
+    const format = FormatSchema.safeParse(url.searchParams.get("format") ?? "markdown");
+    if (!format.success) {
+      return NextResponse.json({ error: "Invalid input", details: { format: ["Use markdown, latex or pdf"] } }, { status: 400 });
+    }
+
+    if (format.data === "pdf") {
+      return NextResponse.redirect(new URL("/print/conversations", url.origin), 303);
+    }
+
+    const conversations = await loadExportConversations({ userId: auth.user.id });
+    if (conversations.length === 0) {
+      return NextResponse.json({ error: "No conversations to export" }, { status: 404 });
+    }
+
+    const zip = await buildChatExportZip(conversations, format.data, url.origin);
+    const date = new Date().toISOString().slice(0, 10);
+    return new NextResponse(zip, {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": attachment(`phystutor-chats-${date}_${format.data}.zip`),
+      },
+    });
+  } catch (error) {
+    console.error("Export conversations error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
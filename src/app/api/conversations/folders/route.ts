@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireApiAuth, isErrorResponse } from "@/lib/api-auth";
+import { FOLDERS_MAX, FOLDER_NAME_MAX } from "@/lib/chat-organize";
+import { listFolders } from "@/lib/services/conversation-service";
+
+const CreateFolderSchema = z.object({
+  name: z.string().trim().min(1).max(FOLDER_NAME_MAX),
+});
+
+export async function GET() {
+  try {
+    const auth = await requireApiAuth();
+    if (isErrorResponse(auth)) return auth;
+
+    return NextResponse.json({ folders: await listFolders(auth.user.id) });
+  } catch (error) {
+    console.error("Folders GET error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const auth = await requireApiAuth();
+    if (isErrorResponse(auth)) return auth;
+
+    const parsed = CreateFolderSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const count = await prisma.conversationFolder.count({ where: { userId: auth.user.id } });
+    if (count >= FOLDERS_MAX) {
+      return NextResponse.json({ error: `You can have up to ${FOLDERS_MAX} folders.` }, { status: 400 });
+    }
+
+    const folder = await prisma.conversationFolder.create({
+      data: { userId: auth.user.id, name: parsed.data.name },
+      select: { id: true, name: true },
+    });
+    return NextResponse.json({ folder }, { status: 201 });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json({ error: "You already have a folder with that name" }, { status: 409 });
+    }
+    console.error("Create folder error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
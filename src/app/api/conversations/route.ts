@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiAuth, isErrorResponse } from "@/lib/api-auth";
+import { SEARCH_QUERY_MAX, SEARCH_QUERY_MIN } from "@/lib/chat-search";
+import { searchMessages } from "@/lib/services/chat-search-service";
+import { listArchivedConversations, listConversations } from "@/lib/services/conversation-service";
+
+const ListSchema = z.object({
+  /** Full-text search over the messages instead of the list */
+  q: z.string().trim().min(SEARCH_QUERY_MIN).max(SEARCH_QUERY_MAX).optional(),
+  /** The archive, a page at a time, instead of the active conversations */
+  archived: z.enum(["true", "false"]).optional(),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/** The signed-in user's active or archived conversations, or with `q` the messages in them that match, best first */
+export async function GET(req: Request) {
+  try {
+    const auth = await requireApiAuth();
+    if (isErrorResponse(auth)) return auth;
+
+    const { searchParams } = new URL(req.url);
+    const parsed = ListSchema.safeParse({
+      q: searchParams.get("q") ?? undefined,
+      archived: searchParams.get("archived") ?? undefined,
+      offset: searchParams.get("offset") ?? undefined,
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    if (parsed.data.q) {
+      const { hits, hasMore } = await searchMessages({
+        query: parsed.data.q,
+        userId: auth.user.id,
+        offset: parsed.data.offset,
+      });
+      return NextResponse.json({ results: hits, hasMore });
+    }
+
+    if (parsed.data.archived === "true") {
+      return NextResponse.json(await listArchivedConversations(auth.user.id, parsed.data.offset));
+    }
+
+    return NextResponse.json({ conversations: await listConversations(auth.user.id) });
+  } catch (error) {
+    console.error("Conversations GET error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireApiRole, isErrorResponse } from "@/lib/api-auth";
+import { isStaff } from "@/lib/constants";
+import { getCourseRole } from "@/lib/courses";
+
+const updateEnrollmentSchema = z.object({
+  role: z.enum(["STUDENT", "TA", "PROFESSOR"]),
+});
+
+type Params = { params: { id: string; enrollmentId: string } };
+
+async function findEnrollment(courseId: string, enrollmentId: string) {
+  return prisma.enrollment.findFirst({
+    where: { id: enrollmentId, courseId },
+    include: { user: { select: { id: true, role: true } } },
+  });
+}
+
+/** A course must keep at least one professor */
+async function isLastProfessor(courseId: string, enrollmentId: string): Promise<boolean> {
+  const others = await prisma.enrollment.count({
+    where: { courseId, role: "PROFESSOR", id: { not: enrollmentId } },
+  });
+  return others === 0;
+}
+
+// PATCH /api/courses/[id]/enrollments/[enrollmentId] - Change a member's course role
+export async function PATCH(req: Request, { params }: Params) {
+  try {
+    const auth = await requireApiRole(["PROFESSOR", "ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    if ((await getCourseRole(auth.user, params.id)) !== "PROFESSOR") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const parsed = updateEnrollmentSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const { role } = parsed.data;
+
+    const existing = await findEnrollment(params.id, params.enrollmentId);
+    if (!existing) {
+      return NextResponse.json({ error: "Enrollment not found" }, { status: 404 });
+    }
+    if (role !== "STUDENT" && !isStaff(existing.user.role)) {
+      return NextResponse.json(
+        { error: "Only TA, professor or admin accounts can be enrolled as course staff" },
+        { status: 400 }
+      );
+    }
+    if (existing.role === "PROFESSOR" && role !== "PROFESSOR" && await isLastProfessor(params.id, existing.id)) {
+      return NextResponse.json({ error: "A course needs at least one professor" }, { status: 400 });
+    }
+
+    const enrollment = await prisma.enrollment.update({
+      where: { id: existing.id },
+      data: { role },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: auth.user.id,
+        action: "course_enrollment_role_changed",
+        details: { courseId: params.id, enrolledUserId: existing.userId, from: existing.role, to: role },
+      },
+    });
+
+    return NextResponse.json({ enrollment });
+  } catch (error) {
+    console.error("Enrollment update error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/courses/[id]/enrollments/[enrollmentId] - Remove a member from a course
+export async function DELETE(_req: Request, { params }: Params) {
+  try {
+    const auth = await requireApiRole(["PROFESSOR", "ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    if ((await getCourseRole(auth.user, params.id)) !== "PROFESSOR") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const existing = await findEnrollment(params.id, params.enrollmentId);
+    if (!existing) {
+      return NextResponse.json({ error: "Enrollment not found" }, { status: 404 });
+    }
+    if (existing.role === "PROFESSOR" && await isLastProfessor(params.id, existing.id)) {
+      return NextResponse.json({ error: "A course needs at least one professor" }, { status: 400 });
+    }
+
+    await prisma.enrollment.delete({ where: { id: existing.id } });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: auth.user.id,
+        action: "course_enrollment_removed",
+        details: { courseId: params.id, enrolledUserId: existing.userId, role: existing.role },
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Enrollment delete error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
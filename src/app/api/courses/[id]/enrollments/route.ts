@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireApiAuth, requireApiRole, isErrorResponse } from "@/lib/api-auth";
+import { isStaff } from "@/lib/constants";
+import { getCourseRole, isCourseStaff } from "@/lib/courses";
+
+const addEnrollmentSchema = z.object({
+  /** Email address or student ID of an existing account */
+  identifier: z.string().trim().min(1).max(200),
+  role: z.enum(["STUDENT", "TA", "PROFESSOR"]).default("STUDENT"),
+});
+
+const enrollmentUserSelect = {
+  id: true,
+  name: true,
+  email: true,
+  studentId: true,
+  role: true,
+} as const;
+
+// GET /api/courses/[id]/enrollments - Course roster (course staff)
+export async function GET(
+  _req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireApiAuth();
+    if (isErrorResponse(auth)) return auth;
+
+    if (!isStaff(auth.user.role) || !isCourseStaff(await getCourseRole(auth.user, params.id))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const enrollments = await prisma.enrollment.findMany({
+      where: { courseId: params.id },
+      include: { user: { select: enrollmentUserSelect } },
+      orderBy: [{ role: "desc" }, { droppedAt: { sort: "asc", nulls: "first" } }, { user: { name: "asc" } }],
+    });
+
+    return NextResponse.json({ enrollments });
+  } catch (error) {
+    console.error("Enrollments GET error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/courses/[id]/enrollments - Enroll an existing user (course professors)
+export async function POST(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireApiRole(["PROFESSOR", "ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    if ((await getCourseRole(auth.user, params.id)) !== "PROFESSOR") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const parsed = addEnrollmentSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const { identifier, role } = parsed.data;
+
+    const user = await prisma.user.findFirst({
+      where: {
+        isDeleted: false,
+        OR: [{ email: { equals: identifier, mode: "insensitive" } }, { studentId: identifier }],
+      },
+      select: enrollmentUserSelect,
+    });
+    if (!user) {
+      return NextResponse.json({ error: "No user with that email or student ID" }, { status: 404 });
+    }
+    if (role !== "STUDENT" && !isStaff(user.role)) {
+      return NextResponse.json(
+        { error: "Only TA, professor or admin accounts can be enrolled as course staff" },
+        { status: 400 }
+      );
+    }
+
+    const enrollment = await prisma.enrollment.upsert({
+      where: { courseId_userId: { courseId: params.id, userId: user.id } },
+      create: { courseId: params.id, userId: user.id, role },
+      update: { role, droppedAt: null },
+      include: { user: { select: enrollmentUserSelect } },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: auth.user.id,
+        action: "course_enrollment_added",
+        details: { courseId: params.id, enrolledUserId: user.id, role },
+      },
+    });
+
+    return NextResponse.json({ enrollment }, { status: 201 });
+  } catch (error) {
+    console.error("Enrollment create error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
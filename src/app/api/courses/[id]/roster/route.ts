@@ -0,0 +1,127 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireApiRole, isErrorResponse } from "@/lib/api-auth";
+import { getCourseRole } from "@/lib/courses";
+import { sendBulkEmails } from "@/lib/services/email-service";
+import {
+  MAX_ROSTER_ROWS,
+  applyRosterImport,
+  issueInviteTokens,
+  parseRosterCsv,
+  previewRosterImport,
+} from "@/lib/services/roster-service";
+import { rosterInviteEmail } from "@/lib/email-templates";
+import type { RosterImportResult } from "@/types/course";
+
+const rosterImportSchema = z.object({
+  csv: z.string().min(1, "CSV is empty").max(1_000_000),
+  /** Preview only (default) or write the changes */
+  apply: z.boolean().optional().default(false),
+  sendInvites: z.boolean().optional().default(false),
+});
+
+// POST /api/courses/[id]/roster - Preview or apply a registrar roster CSV (course professors)
+export async function POST(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireApiRole(["PROFESSOR", "ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    if ((await getCourseRole(auth.user, params.id)) !== "PROFESSOR") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const parsed = rosterImportSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const { csv, apply, sendInvites } = parsed.data;
+
+    const course = await prisma.course.findUnique({
+      where: { id: params.id },
+      select: { name: true, code: true },
+    });
+    if (!course) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 });
+    }
+
+    const { rows, errors: parseErrors } = parseRosterCsv(csv);
+    if (rows.length > MAX_ROSTER_ROWS) {
+      return NextResponse.json(
+        { error: `Too many rows. Maximum is ${MAX_ROSTER_ROWS}.` },
+        { status: 400 }
+      );
+    }
+
+    const preview = await previewRosterImport(params.id, rows);
+    preview.errors = [...parseErrors, ...preview.errors].sort((a, b) => a.line - b.line);
+
+    if (!apply) {
+      return NextResponse.json({ preview });
+    }
+
+    // A row that failed to parse would otherwise show up as a drop
+    if (preview.errors.length > 0) {
+      return NextResponse.json({ error: "Fix the errors in the CSV before importing", preview }, { status: 400 });
+    }
+    if (rows.length === 0) {
+      return NextResponse.json({ error: "No students found in the CSV" }, { status: 400 });
+    }
+
+    const { createdUserIds, enrolledUserIds } = await applyRosterImport(params.id, preview);
+
+    let invitesSent = 0;
+    let invitesFailed = 0;
+    if (sendInvites && enrolledUserIds.length > 0) {
+      const tokens = await issueInviteTokens(enrolledUserIds);
+      if (tokens.size > 0) {
+        const senderName = auth.user.name || "Staff";
+        const baseUrl = process.env.NEXTAUTH_URL || new URL(req.url).origin;
+        const courseName = course.code ? `${course.code} ${course.name}` : course.name;
+        const result = await sendBulkEmails({
+          recipientIds: Array.from(tokens.keys()),
+          subject: `You have been enrolled in ${courseName}`,
+          message: "",
+          senderName,
+          htmlBuilder: (user) =>
+            rosterInviteEmail({
+              studentName: user.name || "Student",
+              courseName,
+              inviteUrl: `${baseUrl}/register?invite=${tokens.get(user.id)}`,
+              senderName,
+            }),
+        });
+        invitesSent = result.sentCount;
+        invitesFailed = result.failedCount;
+      }
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        userId: auth.user.id,
+        action: "course_roster_imported",
+        details: {
+          courseId: params.id,
+          created: createdUserIds.length,
+          linked: preview.entries.filter((e) => e.kind === "linked").length,
+          changed: preview.entries.filter((e) => e.kind === "changed").length,
+          dropped: preview.dropped.map((d) => d.userId),
+          invitesSent,
+          invitesFailed,
+        },
+      },
+    });
+
+    const result: RosterImportResult = { ...preview, invitesSent, invitesFailed };
+    return NextResponse.json({ result });
+  } catch (error) {
+    console.error("Roster import error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
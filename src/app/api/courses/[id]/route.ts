@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { requireApiRole, isErrorResponse } from "@/lib/api-auth";
+import { getCourseRole } from "@/lib/courses";
+import { letterScaleSchema } from "@/lib/grading/gradebook";
+
+const updateCourseSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  code: z.string().trim().max(50).nullable().optional(),
+  semester: z.string().trim().min(1).max(50).optional(),
+  description: z.string().max(5000).nullable().optional(),
+  isArchived: z.boolean().optional(),
+  /** null resets to the default scale */
+  letterScale: letterScaleSchema.nullable().optional(),
+});
+
+// PATCH /api/courses/[id] - Edit or archive a course, or set its letter scale (course professors and admins)
+export async function PATCH(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireApiRole(["PROFESSOR", "ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    if ((await getCourseRole(auth.user, params.id)) !== "PROFESSOR") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const parsed = updateCourseSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { letterScale, ...fields } = parsed.data;
+    const course = await prisma.course.update({
+      where: { id: params.id },
+      data: {
+        ...fields,
+        ...(letterScale !== undefined && {
+          letterScale: letterScale ? [...letterScale].sort((a, b) => b.min - a.min) : Prisma.JsonNull,
+        }),
+        ...(parsed.data.code !== undefined && { code: parsed.data.code || null }),
+        ...(parsed.data.description !== undefined && { description: parsed.data.description || null }),
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: auth.user.id,
+        action: parsed.data.isArchived !== undefined
+          ? parsed.data.isArchived ? "course_archived" : "course_unarchived"
+          : "course_updated",
+        details: { courseId: course.id, changes: parsed.data },
+      },
+    });
+
+    return NextResponse.json({ course });
+  } catch (error) {
+    console.error("Course update error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import { requireApiAuth, isErrorResponse } from "@/lib/api-auth";
+import { ACTIVE_COURSE_COOKIE, getCourseRole } from "@/lib/courses";
+
+const activeCourseSchema = z.object({
+  courseId: z.string().min(1),
+});
+
+// POST /api/courses/active - Switch the course that lists, queues and analytics are scoped to
+export async function POST(req: Request) {
+  try {
+    const auth = await requireApiAuth();
+    if (isErrorResponse(auth)) return auth;
+
+    const parsed = activeCourseSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json({ error: "courseId is required" }, { status: 400 });
+    }
+
+    const role = await getCourseRole(auth.user, parsed.data.courseId);
+    if (!role) {
+      return NextResponse.json({ error: "You are not enrolled in this course" }, { status: 403 });
+    }
+
+    const cookieStore = await cookies();
+    cookieStore.set(ACTIVE_COURSE_COOKIE, parsed.data.courseId, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/",
+      maxAge: 365 * 24 * 60 * 60,
+    });
+
+    return NextResponse.json({ success: true, courseId: parsed.data.courseId, role });
+  } catch (error) {
+    console.error("Course switch error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
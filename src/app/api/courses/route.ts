@@ -0,0 +1,100 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireApiAuth, requireApiRole, isErrorResponse } from "@/lib/api-auth";
+import { getCourseScope } from "@/lib/courses";
+import type { CourseListItem } from "@/types/course";
+
+const createCourseSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(200),
+  code: z.string().trim().max(50).nullable().optional(),
+  semester: z.string().trim().min(1, "Semester is required").max(50),
+  description: z.string().max(5000).nullable().optional(),
+});
+
+// GET /api/courses - Courses the current user can open, plus the active one
+export async function GET() {
+  try {
+    const auth = await requireApiAuth();
+    if (isErrorResponse(auth)) return auth;
+
+    const scope = await getCourseScope(auth.user);
+    const ids = scope.courses.map((c) => c.id);
+
+    const [details, roleCounts] = await Promise.all([
+      prisma.course.findMany({
+        where: { id: { in: ids } },
+        select: {
+          id: true,
+          description: true,
+          createdAt: true,
+          _count: { select: { assignments: { where: { isDeleted: false } } } },
+        },
+      }),
+      prisma.enrollment.groupBy({
+        by: ["courseId", "role"],
+        where: { courseId: { in: ids }, droppedAt: null },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const courses: CourseListItem[] = scope.courses.map((c) => {
+      const detail = details.find((d) => d.id === c.id);
+      const count = (role: string) =>
+        roleCounts.find((r) => r.courseId === c.id && r.role === role)?._count._all ?? 0;
+      return {
+        ...c,
+        description: detail?.description ?? null,
+        createdAt: detail?.createdAt.toISOString() ?? "",
+        studentCount: count("STUDENT"),
+        staffCount: count("TA") + count("PROFESSOR"),
+        assignmentCount: detail?._count.assignments ?? 0,
+      };
+    });
+
+    return NextResponse.json({ courses, activeCourseId: scope.course?.id ?? null });
+  } catch (error) {
+    console.error("Courses GET error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/courses - Create a course; the creator is enrolled as professor
+export async function POST(req: Request) {
+  try {
+    const auth = await requireApiRole(["PROFESSOR", "ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    const parsed = createCourseSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const { name, code, semester, description } = parsed.data;
+
+    const course = await prisma.course.create({
+      data: {
+        name,
+        code: code || null,
+        semester,
+        description: description || null,
+        enrollments: { create: { userId: auth.user.id, role: "PROFESSOR" } },
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: auth.user.id,
+        action: "course_created",
+        details: { courseId: course.id, name, semester },
+      },
+    });
+
+    return NextResponse.json({ course }, { status: 201 });
+  } catch (error) {
+    console.error("Course create error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
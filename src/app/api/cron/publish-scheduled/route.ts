@@ -3,6 +3,7 @@ import { prisma } from "@/lib/prisma";
 import { verifyCronAuth, sendBulkEmails, publishAssignment } from "@/lib/services/email-service";
 import { assignmentPublishedEmail } from "@/lib/email-templates";
 import { formatDueDate } from "@/lib/utils";
+import { getCourseStudentIds } from "@/lib/courses";
 
 export async function GET(req: Request) {
   try {
@@ -56,19 +57,22 @@ export async function GET(req: Request) {
         // Send notification emails if flagged
         if (assignment.notifyOnPublish) {
           try {
-            const students = await prisma.user.findMany({
-              where: { role: "STUDENT", isBanned: false },
-              select: { id: true },
-            });
+            // Course assignments notify the course's students only
+            const studentIds = assignment.courseId
+              ? await getCourseStudentIds(assignment.courseId)
+              : (await prisma.user.findMany({
+                  where: { role: "STUDENT", isBanned: false },
+                  select: { id: true },
+                })).map((s) => s.id);
 
-            if (students.length > 0) {
+            if (studentIds.length > 0) {
               const dueDateStr = formatDueDate(assignment.dueDate);
 
               const senderName = assignment.createdBy.name || "Staff";
 
               // Use shared sendBulkEmails with custom htmlBuilder for assignment template
               await sendBulkEmails({
-                recipientIds: students.map((s) => s.id),
+                recipientIds: studentIds,
                 subject: `New Assignment: ${assignment.title}`,
                 message: "", // not used — htmlBuilder overrides
                 senderName,
@@ -89,7 +93,8 @@ export async function GET(req: Request) {
                   title: `New Assignment: ${assignment.title}`,
                   message: `A new assignment "${assignment.title}" has been published.${assignment.dueDate ? ` Due: ${dueDateStr}` : ""}`,
                   createdById: assignment.createdById,
-                  isGlobal: true,
+                  courseId: assignment.courseId,
+                  isGlobal: !assignment.courseId,
                 },
               });
             }
@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireApiRole, isErrorResponse } from "@/lib/api-auth";
+import { isCourseProfessor } from "@/lib/courses";
+
+const updateCategorySchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  weight: z.number().min(0).max(100).optional(),
+  dropLowest: z.number().int().min(0).max(50).optional(),
+  order: z.number().int().min(0).optional(),
+});
+
+// PATCH /api/grades/categories/[id] - Rename or reweight a grade category
+export async function PATCH(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireApiRole(["PROFESSOR", "ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    const parsed = updateCategorySchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.gradeCategory.findUnique({ where: { id: params.id } });
+    if (!existing) {
+      return NextResponse.json({ error: "Category not found" }, { status: 404 });
+    }
+    if (!(await isCourseProfessor(auth.user, existing.courseId))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const category = await prisma.gradeCategory.update({
+      where: { id: params.id },
+      data: parsed.data,
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: auth.user.id,
+        action: "grade_category_updated",
+        details: {
+          courseId: existing.courseId,
+          categoryId: params.id,
+          before: { name: existing.name, weight: existing.weight, dropLowest: existing.dropLowest },
+          after: { name: category.name, weight: category.weight, dropLowest: category.dropLowest },
+        },
+      },
+    });
+
+    return NextResponse.json({ category });
+  } catch (error) {
+    console.error("Grade category update error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/grades/categories/[id] - Remove a category; its assignments become uncategorized
+export async function DELETE(
+  _req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireApiRole(["PROFESSOR", "ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    const existing = await prisma.gradeCategory.findUnique({ where: { id: params.id } });
+    if (!existing) {
+      return NextResponse.json({ error: "Category not found" }, { status: 404 });
+    }
+    if (!(await isCourseProfessor(auth.user, existing.courseId))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    await prisma.gradeCategory.delete({ where: { id: params.id } });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: auth.user.id,
+        action: "grade_category_deleted",
+        details: { courseId: existing.courseId, categoryId: params.id, name: existing.name, weight: existing.weight },
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Grade category delete error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireApiRole, isErrorResponse } from "@/lib/api-auth";
+import { getCourseScope, isCourseProfessor } from "@/lib/courses";
+
+const createCategorySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  weight: z.number().min(0).max(100),
+  dropLowest: z.number().int().min(0).max(50).optional().default(0),
+});
+
+// POST /api/grades/categories - Add a grade category to the active course (course professors)
+export async function POST(req: Request) {
+  try {
+    const auth = await requireApiRole(["PROFESSOR", "ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    const { course } = await getCourseScope(auth.user);
+    if (!course) {
+      return NextResponse.json({ error: "Select a course first" }, { status: 400 });
+    }
+    if (!(await isCourseProfessor(auth.user, course.id))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const parsed = createCategorySchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const count = await prisma.gradeCategory.count({ where: { courseId: course.id } });
+    const category = await prisma.gradeCategory.create({
+      data: { ...parsed.data, courseId: course.id, order: count },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: auth.user.id,
+        action: "grade_category_created",
+        details: { courseId: course.id, categoryId: category.id, ...parsed.data },
+      },
+    });
+
+    return NextResponse.json({ category }, { status: 201 });
+  } catch (error) {
+    console.error("Grade category create error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireApiRole, isErrorResponse } from "@/lib/api-auth";
+import { canManageAssignment } from "@/lib/courses";
+
+const overrideSchema = z.object({
+  assignmentId: z.string().min(1),
+  userId: z.string().min(1),
+  /** null removes the score override and falls back to the submission score */
+  score: z.number().min(0).max(10000).nullable(),
+  excused: z.boolean(),
+  note: z.string().trim().max(1000).nullable().optional(),
+});
+
+// PUT /api/grades/overrides - Set or clear a student's score override / excused flag on an assignment
+export async function PUT(req: Request) {
+  try {
+    const auth = await requireApiRole(["TA", "PROFESSOR", "ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    const parsed = overrideSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const { assignmentId, userId, score, excused } = parsed.data;
+    const note = parsed.data.note || null;
+
+    if (!(await canManageAssignment(auth.user, assignmentId))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const key = { assignmentId_userId: { assignmentId, userId } };
+    const existing = await prisma.gradeOverride.findUnique({ where: key });
+
+    if (score === null && !excused && !note) {
+      if (existing) {
+        await prisma.gradeOverride.delete({ where: key });
+        await prisma.auditLog.create({
+          data: {
+            userId: auth.user.id,
+            action: "grade_override_cleared",
+            details: { assignmentId, studentId: userId, before: { score: existing.score, excused: existing.excused } },
+          },
+        });
+      }
+      return NextResponse.json({ override: null });
+    }
+
+    const override = await prisma.gradeOverride.upsert({
+      where: key,
+      create: { assignmentId, userId, score, excused, note, updatedById: auth.user.id },
+      update: { score, excused, note, updatedById: auth.user.id },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: auth.user.id,
+        action: "grade_override_set",
+        details: {
+          assignmentId,
+          studentId: userId,
+          before: existing ? { score: existing.score, excused: existing.excused } : null,
+          after: { score, excused },
+        },
+      },
+    });
+
+    return NextResponse.json({ override });
+  } catch (error) {
+    console.error("Grade override error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -1,39 +1,69 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { requireApiAuth, isErrorResponse } from "@/lib/api-auth";
+import { canManageCourse, getCourseScope, isCourseProfessor } from "@/lib/courses";
+import { computeCourseGrade } from "@/lib/grading/gradebook";
+import { loadGradebook } from "@/lib/services/gradebook-service";
+import type { StaffGradebook, StudentGradebook } from "@/types/gradebook";
 
+// GET /api/grades - The active course's gradebook: the matrix for course staff, own grades otherwise
 export async function GET() {
   try {
     const auth = await requireApiAuth();
     if (isErrorResponse(auth)) return auth;
     const { user } = auth;
-    const userId = user.id;
+    const scope = await getCourseScope(user);
+    const courseId = scope.course?.id ?? null;
 
-    const submissions = await prisma.submission.findMany({
-      where: { userId, isDeleted: false },
-      include: {
-        assignment: {
-          select: { title: true, type: true, totalPoints: true },
-        },
-        gradedBy: { select: { name: true } },
-      },
-      orderBy: { submittedAt: "desc" },
-      take: 100,
-    });
+    if (!(await canManageCourse(user, courseId))) {
+      const data = await loadGradebook(courseId, [user.id]);
+      const cells = data.cells.get(user.id) ?? [];
+      const gradebook: StudentGradebook = {
+        view: "student",
+        course: data.course,
+        categories: data.categories,
+        assignments: data.assignments,
+        letterScale: data.letterScale,
+        cells,
+        grade: computeCourseGrade(data.categories, data.assignments, cells, data.letterScale),
+      };
+      return NextResponse.json({ gradebook });
+    }
 
-    const grades = submissions.map((s) => ({
-      id: s.id,
-      assignmentId: s.assignmentId,
-      assignmentTitle: s.assignment.title,
-      assignmentType: s.assignment.type,
-      totalPoints: s.assignment.totalPoints,
-      score: s.totalScore,
-      gradedAt: s.gradedAt?.toISOString() || null,
-      gradedByName: s.gradedBy?.name || null,
-      submittedAt: s.submittedAt.toISOString(),
-    }));
+    // Without a course, the roster is whoever submitted course-less work
+    const students = courseId
+      ? (await prisma.enrollment.findMany({
+          where: { courseId, role: "STUDENT", droppedAt: null, user: { isDeleted: false } },
+          select: { user: { select: { id: true, name: true, email: true, studentId: true } } },
+        })).map((e) => e.user)
+      : await prisma.user.findMany({
+          where: {
+            role: "STUDENT",
+            isDeleted: false,
+            submissions: { some: { isDraft: false, isDeleted: false, assignment: { courseId: null } } },
+          },
+          select: { id: true, name: true, email: true, studentId: true },
+        });
+    students.sort((a, b) => (a.name ?? a.email).localeCompare(b.name ?? b.email));
 
-    return NextResponse.json({ grades });
+    const data = await loadGradebook(courseId, students.map((s) => s.id));
+    const gradebook: StaffGradebook = {
+      view: "staff",
+      course: data.course,
+      categories: data.categories,
+      assignments: data.assignments,
+      letterScale: data.letterScale,
+      students: students.map((s) => {
+        const cells = data.cells.get(s.id) ?? [];
+        return {
+          user: s,
+          cells,
+          grade: computeCourseGrade(data.categories, data.assignments, cells, data.letterScale),
+        };
+      }),
+      canEditSettings: !!courseId && (await isCourseProfessor(user, courseId)),
+    };
+    return NextResponse.json({ gradebook });
   } catch (error) {
     console.error("Grades error:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
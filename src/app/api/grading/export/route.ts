@@ -1,6 +1,8 @@
 import { NextRequest } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { requireApiRole, isErrorResponse } from "@/lib/api-auth";
+import { formatRubricPoints } from "@/lib/grading/rubric";
+import { canManageAssignment, courseAssignmentWhere, getCourseScope } from "@/lib/courses";
 
 function escapeCSV(value: string | null | undefined): string {
   if (value == null) return "";
@@ -18,38 +20,72 @@ export async function GET(req: NextRequest) {
 
     const assignmentId = req.nextUrl.searchParams.get("assignmentId");
 
+    if (assignmentId && !(await canManageAssignment(auth.user, assignmentId))) {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    // Without an assignment, export every grade in the active course
     const where = assignmentId
       ? { assignmentId, isDraft: false, isDeleted: false }
-      : { isDraft: false, isDeleted: false };
+      : { isDraft: false, isDeleted: false, assignment: courseAssignmentWhere(await getCourseScope(auth.user)) };
 
     const submissions = await prisma.submission.findMany({
       where,
       include: {
         user: { select: { name: true, email: true, studentId: true } },
         assignment: { select: { title: true, totalPoints: true } },
+        answers: {
+          select: {
+            questionId: true,
+            score: true,
+            rubricApplications: {
+              select: { rubric: { select: { description: true, points: true, order: true } } },
+            },
+          },
+        },
       },
-      orderBy: [{ assignment: { title: "asc" } }, { user: { name: "asc" } }],
+      orderBy: [{ assignment: { title: "asc" } }, { user: { name: "asc" } }, { attempt: "asc" }],
     });
 
     const rows: string[] = [];
 
     if (assignmentId) {
-      rows.push("Student Name,Email,Student ID,Score,Total Points,Submitted At,Graded At");
+      // Per-question score and applied rubric items, e.g. "Q1 Score,Q1 Rubric"
+      const questions = await prisma.assignmentQuestion.findMany({
+        where: { assignmentId },
+        select: { id: true },
+        orderBy: { order: "asc" },
+      });
+      const questionHeaders = questions.flatMap((_, i) => [`Q${i + 1} Score`, `Q${i + 1} Rubric`]);
+      rows.push(
+        ["Student Name,Email,Student ID,Attempt,Score,Total Points,Submitted At,Graded At", ...questionHeaders].join(",")
+      );
       for (const s of submissions) {
+        const questionCells = questions.flatMap((q) => {
+          const answer = s.answers.find((a) => a.questionId === q.id);
+          const rubric = (answer?.rubricApplications ?? [])
+            .map((a) => a.rubric)
+            .sort((a, b) => a.order - b.order)
+            .map((r) => `${formatRubricPoints(r.points)} ${r.description}`)
+            .join("; ");
+          return [answer?.score != null ? String(answer.score) : "", escapeCSV(rubric)];
+        });
         rows.push(
           [
             escapeCSV(s.user.name),
             escapeCSV(s.user.email),
             escapeCSV(s.user.studentId),
+            String(s.attempt),
             s.totalScore != null ? String(s.totalScore) : "",
             String(s.assignment.totalPoints),
             s.submittedAt.toISOString(),
             s.gradedAt?.toISOString() ?? "",
+            ...questionCells,
           ].join(",")
         );
       }
     } else {
-      rows.push("Student Name,Email,Student ID,Assignment,Score,Total Points,Submitted At,Graded At");
+      rows.push("Student Name,Email,Student ID,Assignment,Attempt,Score,Total Points,Submitted At,Graded At");
       for (const s of submissions) {
         rows.push(
           [
@@ -57,6 +93,7 @@ export async function GET(req: NextRequest) {
             escapeCSV(s.user.email),
             escapeCSV(s.user.studentId),
             escapeCSV(s.assignment.title),
+            String(s.attempt),
             s.totalScore != null ? String(s.totalScore) : "",
             String(s.assignment.totalPoints),
             s.submittedAt.toISOString(),
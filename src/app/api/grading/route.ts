@@ -2,14 +2,21 @@ import { NextResponse } from "next/server";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
 import { Prisma } from "@prisma/client";
-import { aiAssistedGrading, type AIProvider } from "@/lib/ai";
+import { aiAssistedGrading } from "@/lib/ai";
 import { requireApiRole, isErrorResponse } from "@/lib/api-auth";
+import { canManageAssignment } from "@/lib/courses";
 import { logger } from "@/lib/logger";
+import { instanceSeed, instantiateQuestion, parseParameterValues } from "@/lib/grading/parameters";
+import { applyRubricItems } from "@/lib/services/rubric-service";
+import { checkAIBudget, recordAIUsage } from "@/lib/services/ai-usage-service";
+import { applyLatePenalty } from "@/lib/grading/late-policy";
 
 const gradeItemSchema = z.object({
   answerId: z.string().min(1),
   score: z.number().min(0),
   feedback: z.string().max(10000).optional().nullable(),
+  /** Rubric items applied to the answer; when non-empty the score is derived from them */
+  rubricItemIds: z.array(z.string()).max(100).optional(),
 });
 
 const gradingPostSchema = z.object({
@@ -42,6 +49,17 @@ export async function POST(req: Request) {
     }
     const { submissionId, grades, overallScore, overallFeedback, feedbackFileUrl, feedbackImages, isDraft, ungrade } = parseResult.data;
 
+    const target = await prisma.submission.findUnique({
+      where: { id: submissionId },
+      select: { assignmentId: true },
+    });
+    if (!target) {
+      return NextResponse.json({ error: "Submission not found" }, { status: 404 });
+    }
+    if (!(await canManageAssignment(auth.user, target.assignmentId))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
     // Ungrade: clear gradedAt and gradedById
     if (ungrade && submissionId) {
       await prisma.submission.update({
@@ -62,56 +80,41 @@ export async function POST(req: Request) {
 
     // Per-question grading with score bounds validation
     if (grades && grades.length > 0) {
-      // Build a lookup of questionId -> max points for bounds checking
-      const questionPointsMap = new Map<string, number>();
-      for (const ans of submission.answers) {
-        questionPointsMap.set(ans.questionId, ans.question.points);
-        questionPointsMap.set(ans.id, ans.question.points); // also index by answerId
-      }
+      // Answers are graded only within this submission, and blank questions
+      // only from its assignment
+      const answerPoints = new Map(submission.answers.map((ans) => [ans.id, ans.question.points]));
+      const questionPoints = new Map(
+        (
+          await prisma.assignmentQuestion.findMany({
+            where: { assignmentId: submission.assignmentId },
+            select: { id: true, points: true },
+          })
+        ).map((q) => [q.id, q.points])
+      );
 
       for (const grade of grades) {
-        let questionId: string;
-        let maxPoints: number | undefined;
-
-        if (grade.answerId.startsWith("blank-")) {
-          questionId = grade.answerId.replace("blank-", "");
-          // Fetch the question directly for blank answers not in the submission
-          if (!questionPointsMap.has(questionId)) {
-            const question = await prisma.assignmentQuestion.findUnique({
-              where: { id: questionId },
-              select: { points: true },
-            });
-            if (question) {
-              questionPointsMap.set(questionId, question.points);
-            }
-          }
-          maxPoints = questionPointsMap.get(questionId);
-        } else {
-          maxPoints = questionPointsMap.get(grade.answerId);
-          if (maxPoints === undefined) {
-            // Fetch via the answer record if not already in the map
-            const answer = await prisma.submissionAnswer.findUnique({
-              where: { id: grade.answerId },
-              include: { question: { select: { points: true } } },
-            });
-            if (answer) {
-              maxPoints = answer.question.points;
-              questionPointsMap.set(grade.answerId, maxPoints);
-            }
-          }
+        const maxPoints = grade.answerId.startsWith("blank-")
+          ? questionPoints.get(grade.answerId.replace("blank-", ""))
+          : answerPoints.get(grade.answerId);
+        if (maxPoints === undefined) {
+          return NextResponse.json(
+            { error: `Answer ${grade.answerId} does not belong to this submission` },
+            { status: 400 }
+          );
         }
-
-        if (maxPoints !== undefined && grade.score > maxPoints) {
+        if (grade.score > maxPoints) {
           return NextResponse.json(
             { error: `Score ${grade.score} exceeds maximum points (${maxPoints}) for answer ${grade.answerId}` },
             { status: 400 }
           );
         }
+      }
 
+      for (const grade of grades) {
         if (grade.answerId.startsWith("blank-")) {
-          questionId = grade.answerId.replace("blank-", "");
+          const questionId = grade.answerId.replace("blank-", "");
           // Create a SubmissionAnswer for a question the student left blank
-          await prisma.submissionAnswer.create({
+          const created = await prisma.submissionAnswer.create({
             data: {
               submissionId,
               questionId,
@@ -124,9 +127,12 @@ export async function POST(req: Request) {
               }),
             },
           });
+          if (grade.rubricItemIds) {
+            await applyRubricItems(created.id, grade.rubricItemIds, graderId);
+          }
         } else {
           await prisma.submissionAnswer.update({
-            where: { id: grade.answerId },
+            where: { id: grade.answerId, submissionId },
             data: {
               score: grade.score,
               feedback: grade.feedback,
@@ -135,6 +141,9 @@ export async function POST(req: Request) {
               }),
             },
           });
+          if (grade.rubricItemIds) {
+            await applyRubricItems(grade.answerId, grade.rubricItemIds, graderId);
+          }
         }
       }
     }
@@ -154,6 +163,8 @@ export async function POST(req: Request) {
     } else {
       return NextResponse.json({ error: "No grades provided" }, { status: 400 });
     }
+    // Graders enter the earned score; the late penalty is deducted from it
+    finalTotalScore = applyLatePenalty(finalTotalScore, submission.latePenalty);
 
     if (isDraft) {
       // Draft grading: save scores but don't mark as graded
@@ -223,18 +234,32 @@ export async function PUT(req: Request) {
         question: {
           include: { rubrics: true },
         },
+        submission: { select: { seed: true, assignmentId: true, userId: true, assignment: { select: { courseId: true } } } },
       },
     });
 
     if (!answer) {
       return NextResponse.json({ error: "Answer not found" }, { status: 404 });
     }
+    if (!(await canManageAssignment(auth.user, answer.submission.assignmentId))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const budget = await checkAIBudget(auth.user);
+    if (budget.status === "blocked") {
+      return NextResponse.json({ error: budget.message }, { status: 429 });
+    }
 
     const aiConfig = await prisma.aIConfig.findFirst({
       where: { isActive: true },
     });
 
-    const provider = (aiConfig?.provider as AIProvider) || "openai";
+    // Grade against the student's own instance of parameterized questions
+    const question = instantiateQuestion(
+      answer.question,
+      answer.submission.seed ?? instanceSeed(answer.submission.assignmentId, answer.submission.userId),
+      parseParameterValues(answer.parameterValues)
+    );
 
     const rubricDesc = answer.question.rubrics
       .map((r) => `${r.description} (${r.points} pts)`)
@@ -242,15 +267,19 @@ export async function PUT(req: Request) {
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const imageUrls = ((answer as any).answerImageUrls as string[] | null) || [];
-    const result = await aiAssistedGrading(
-      answer.question.questionText,
-      answer.question.correctAnswer || "",
+    const { text: result, usage } = await aiAssistedGrading(
+      question.questionText,
+      question.correctAnswer || "",
       answer.answer || "",
       rubricDesc || "Grade based on correctness and completeness",
       answer.question.points,
-      provider,
+      aiConfig?.provider,
       imageUrls.length > 0 ? imageUrls : undefined
     );
+    await recordAIUsage(
+      { userId: auth.user.id, courseId: answer.submission.assignment.courseId, feature: "grading", jobId: answer.id },
+      usage
+    );
 
     if (!result) {
       return NextResponse.json({ error: "AI grading failed" }, { status: 500 });
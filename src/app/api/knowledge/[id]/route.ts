@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireApiRole, isErrorResponse } from "@/lib/api-auth";
+import { canManageCourse } from "@/lib/courses";
+import { KNOWLEDGE_KINDS } from "@/lib/knowledge/citations";
+import { reembedDocument } from "@/lib/services/knowledge-service";
+
+const updateSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  kind: z.enum(KNOWLEDGE_KINDS).optional(),
+});
+
+async function findManagedDocument(user: { id: string; role: string }, id: string) {
+  const document = await prisma.knowledgeDocument.findUnique({ where: { id } });
+  if (!document) return NextResponse.json({ error: "Document not found" }, { status: 404 });
+  if (!(await canManageCourse(user, document.courseId))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  return document;
+}
+
+// PATCH /api/knowledge/[id] - Rename or re-categorize a document
+export async function PATCH(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireApiRole(["TA", "PROFESSOR", "ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    const document = await findManagedDocument(auth.user, params.id);
+    if (document instanceof NextResponse) return document;
+
+    const parsed = updateSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const updated = await prisma.knowledgeDocument.update({
+      where: { id: document.id },
+      data: parsed.data,
+      include: { uploadedBy: { select: { id: true, name: true } } },
+    });
+    return NextResponse.json({ document: updated });
+  } catch (error) {
+    console.error("Knowledge PATCH error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/knowledge/[id] - Re-embed a document with the current embedding backend
+export async function POST(
+  _req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireApiRole(["TA", "PROFESSOR", "ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    const document = await findManagedDocument(auth.user, params.id);
+    if (document instanceof NextResponse) return document;
+    if (document.chunkCount === 0) {
+      return NextResponse.json({ error: "This document has no indexed text; upload it again" }, { status: 400 });
+    }
+
+    await reembedDocument(document.id);
+    const updated = await prisma.knowledgeDocument.findUnique({
+      where: { id: document.id },
+      include: { uploadedBy: { select: { id: true, name: true } } },
+    });
+    return NextResponse.json({ document: updated });
+  } catch (error) {
+    console.error("Knowledge reindex error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/knowledge/[id] - Remove a document and its passages
+export async function DELETE(
+  _req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireApiRole(["TA", "PROFESSOR", "ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    const document = await findManagedDocument(auth.user, params.id);
+    if (document instanceof NextResponse) return document;
+
+    await prisma.knowledgeDocument.delete({ where: { id: document.id } });
+    await prisma.auditLog.create({
+      data: {
+        userId: auth.user.id,
+        action: "knowledge_document_deleted",
+        details: { documentId: document.id, courseId: document.courseId, title: document.title },
+      },
+    });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Knowledge DELETE error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
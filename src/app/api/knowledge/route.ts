@@ -0,0 +1,148 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireApiRole, isErrorResponse } from "@/lib/api-auth";
+import { canManageCourse, getCourseScope } from "@/lib/courses";
+import { storeFile } from "@/lib/storage";
+import { KNOWLEDGE_KINDS } from "@/lib/knowledge/citations";
+import { embeddingModelKey, getEmbeddingBackend } from "@/lib/knowledge/embeddings";
+import { extractPages, ingestDocument, searchKnowledge } from "@/lib/services/knowledge-service";
+
+const MAX_FILE_SIZE = 20 * 1024 * 1024; // 20 MB
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  pdf: "application/pdf",
+  md: "text/markdown",
+  markdown: "text/markdown",
+  txt: "text/plain",
+};
+
+const uploadSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  kind: z.enum(KNOWLEDGE_KINDS).default("notes"),
+});
+
+// GET /api/knowledge?q= - The active course's materials, or a retrieval preview for q
+export async function GET(req: Request) {
+  try {
+    const auth = await requireApiRole(["TA", "PROFESSOR", "ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    const { course } = await getCourseScope(auth.user);
+    if (!course) {
+      return NextResponse.json({ course: null, documents: [], embeddingModel: null });
+    }
+    if (!(await canManageCourse(auth.user, course.id))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const query = new URL(req.url).searchParams.get("q");
+    if (query) {
+      const passages = await searchKnowledge(course.id, query, 8);
+      return NextResponse.json({
+        results: passages.map((p) => ({
+          documentId: p.documentId,
+          page: p.page,
+          heading: p.heading,
+          section: p.section,
+          score: p.score,
+          content: p.content.slice(0, 500),
+        })),
+      });
+    }
+
+    const documents = await prisma.knowledgeDocument.findMany({
+      where: { courseId: course.id },
+      orderBy: { createdAt: "desc" },
+      include: { uploadedBy: { select: { id: true, name: true } } },
+    });
+
+    return NextResponse.json({
+      course: { id: course.id, name: course.name, code: course.code },
+      documents,
+      embeddingModel: embeddingModelKey(getEmbeddingBackend()),
+    });
+  } catch (error) {
+    console.error("Knowledge GET error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// POST /api/knowledge - Upload a PDF or markdown file into the active course's knowledge base
+export async function POST(req: Request) {
+  try {
+    const auth = await requireApiRole(["TA", "PROFESSOR", "ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    const { course } = await getCourseScope(auth.user);
+    if (!course || !(await canManageCourse(auth.user, course.id))) {
+      return NextResponse.json({ error: "Select a course you teach first" }, { status: 403 });
+    }
+
+    const formData = await req.formData();
+    const file = formData.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: "File exceeds the 20 MB size limit" }, { status: 413 });
+    }
+    const ext = file.name.split(".").pop()?.toLowerCase() ?? "";
+    const mimeType = MIME_BY_EXTENSION[ext];
+    if (!mimeType) {
+      return NextResponse.json({ error: "Invalid file type. Allowed: PDF, Markdown, plain text" }, { status: 400 });
+    }
+
+    const parsed = uploadSchema.safeParse({
+      title: formData.get("title") || file.name.replace(/\.[^.]+$/, ""),
+      kind: formData.get("kind") || undefined,
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const data = Buffer.from(await file.arrayBuffer());
+    let pages;
+    try {
+      pages = extractPages(data, mimeType);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Could not read this file" },
+        { status: 400 }
+      );
+    }
+
+    const document = await prisma.knowledgeDocument.create({
+      data: {
+        courseId: course.id,
+        title: parsed.data.title,
+        kind: parsed.data.kind,
+        filename: file.name,
+        mimeType,
+        fileUrl: await storeFile(file),
+        uploadedById: auth.user.id,
+      },
+    });
+    await ingestDocument(document.id, pages);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: auth.user.id,
+        action: "knowledge_document_uploaded",
+        details: { documentId: document.id, courseId: course.id, title: document.title, filename: file.name },
+      },
+    });
+
+    const saved = await prisma.knowledgeDocument.findUnique({
+      where: { id: document.id },
+      include: { uploadedBy: { select: { id: true, name: true } } },
+    });
+    return NextResponse.json({ document: saved }, { status: 201 });
+  } catch (error) {
+    console.error("Knowledge upload error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
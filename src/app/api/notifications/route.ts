@@ -3,6 +3,7 @@ import { prisma } from "@/lib/prisma";
 import { requireApiAuth, requireApiRole, isErrorResponse } from "@/lib/api-auth";
 import { parsePaginationParams, paginatedResponse } from "@/lib/pagination";
 import { isStaff } from "@/lib/constants";
+import { courseAssignmentWhere, courseNotificationWhere, getCourseScope } from "@/lib/courses";
 
 export async function GET(req: Request) {
   try {
@@ -13,10 +14,13 @@ export async function GET(req: Request) {
 
     const { searchParams } = new URL(req.url);
     const params = parsePaginationParams(searchParams, { pageSize: 20 });
+    const scope = await getCourseScope(auth.user);
+    const where = courseNotificationWhere(scope);
 
     const [totalCount, notifications] = await Promise.all([
-      prisma.notification.count(),
+      prisma.notification.count({ where }),
       prisma.notification.findMany({
+        where,
         take: params.pageSize,
         skip: params.skip,
         orderBy: { createdAt: "desc" },
@@ -56,6 +60,7 @@ export async function GET(req: Request) {
       // Fetch scheduled assignments
       const scheduledAssignments = await prisma.assignment.findMany({
         where: {
+          ...courseAssignmentWhere(scope),
           published: false,
           scheduledPublishAt: { not: null },
           isDeleted: false,
@@ -106,9 +111,11 @@ export async function PATCH() {
     const auth = await requireApiAuth();
     if (isErrorResponse(auth)) return auth;
     const userId = auth.user.id;
+    const scope = await getCourseScope(auth.user);
 
     const unreadNotifications = await prisma.notification.findMany({
       where: {
+        ...courseNotificationWhere(scope),
         reads: { none: { userId } },
       },
       select: { id: true },
@@ -142,8 +149,16 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Title and message are required" }, { status: 400 });
     }
 
+    // Announcements go to the active course; without one they are site-wide
+    const { course } = await getCourseScope(auth.user);
     const notification = await prisma.notification.create({
-      data: { title, message, createdById },
+      data: {
+        title,
+        message,
+        createdById,
+        courseId: course?.id ?? null,
+        isGlobal: !course,
+      },
     });
 
     return NextResponse.json({ notification }, { status: 201 });
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireApiAuth, isErrorResponse } from "@/lib/api-auth";
+import { getCourseScope } from "@/lib/courses";
+import { PAGE_KINDS, getPageRecognizer } from "@/lib/ocr";
+import { checkAIBudget, recordAIUsage } from "@/lib/services/ai-usage-service";
+import { consumeQuota, getQuotaStatus, quotaExceededMessage } from "@/lib/services/quota-service";
+import { isStoredFileUrl, storedImageForVendor } from "@/lib/storage";
+
+const TranscribeSchema = z.object({
+  // An image uploaded to this app: Blob storage URL or a local /uploads/ path
+  imageUrl: z.string().max(2048).refine(isStoredFileUrl, "Must be an uploaded image URL"),
+  kind: z.enum(PAGE_KINDS).default("handwriting"),
+});
+
+export async function POST(req: Request) {
+  try {
+    const auth = await requireApiAuth();
+    if (isErrorResponse(auth)) return auth;
+
+    const parsed = TranscribeSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const imageUrl = await storedImageForVendor(parsed.data.imageUrl);
+    if (!imageUrl) {
+      return NextResponse.json({ error: "Image not found" }, { status: 404 });
+    }
+
+    const budget = await checkAIBudget(auth.user);
+    if (budget.status === "blocked") {
+      return NextResponse.json({ error: budget.message }, { status: 429 });
+    }
+    const courseId = (await getCourseScope(auth.user)).course?.id ?? null;
+    const quota = await getQuotaStatus(auth.user, "ocr", { courseId, throttled: budget.status === "throttled" });
+    if (!quota.allowed) {
+      return NextResponse.json({ error: quotaExceededMessage(quota) }, { status: 429 });
+    }
+
+    const aiConfig = await prisma.aIConfig.findFirst({
+      where: { isActive: true },
+    });
+
+    const recognizer = getPageRecognizer();
+    const { markdown, usage } = await recognizer.recognize({
+      imageUrl,
+      kind: parsed.data.kind,
+      provider: aiConfig?.provider,
+    });
+    if (usage) {
+      await recordAIUsage({ userId: auth.user.id, courseId, feature: "ocr" }, usage);
+      await consumeQuota(auth.user.id, "ocr", usage.inputTokens + usage.outputTokens);
+    }
+
+    if (!markdown.trim()) {
+      return NextResponse.json({ error: "No text could be read from this image" }, { status: 422 });
+    }
+    return NextResponse.json({ markdown, recognizer: recognizer.id });
+  } catch (error) {
+    console.error("OCR error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
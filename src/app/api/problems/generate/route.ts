@@ -1,6 +1,9 @@
 import { prisma } from "@/lib/prisma";
-import { streamGenerateProblems, type AIProvider } from "@/lib/ai";
+import { streamGenerateProblems, type AIUsageReport } from "@/lib/ai";
 import { requireApiRole, isErrorResponse } from "@/lib/api-auth";
+import { getCourseScope } from "@/lib/courses";
+import { checkAIBudget, recordAIUsage } from "@/lib/services/ai-usage-service";
+import { consumeQuota, getQuotaStatus, quotaExceededMessage } from "@/lib/services/quota-service";
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 function normalizeDiagram(raw: any): { type: string; content: string } | null {
@@ -122,42 +125,47 @@ export async function POST(req: Request) {
 
     const { topic, difficulty, count, questionType, customInstructions } = await req.json();
 
+    const budget = await checkAIBudget(auth.user);
+    if (budget.status === "blocked") {
+      return Response.json({ error: budget.message }, { status: 429 });
+    }
+    const courseId = (await getCourseScope(auth.user)).course?.id ?? null;
+    const quota = await getQuotaStatus(auth.user, "problems", { courseId, throttled: budget.status === "throttled" });
+    if (!quota.allowed) {
+      return Response.json({ error: quotaExceededMessage(quota) }, { status: 429 });
+    }
+
     const aiConfig = await prisma.aIConfig.findFirst({
       where: { isActive: true },
     });
 
-    const provider = (aiConfig?.provider as AIProvider) || "openai";
-
     const encoder = new TextEncoder();
     let fullContent = "";
+    let usage: AIUsageReport | null = null;
+    // Tokens count against the budget and quota whether or not a set gets saved
+    const recordUsage = async (jobId?: string) => {
+      if (!usage) return;
+      await recordAIUsage({ userId, courseId, feature: "problems", jobId }, usage);
+      await consumeQuota(userId, "problems", usage.inputTokens + usage.outputTokens);
+    };
 
     const readable = new ReadableStream({
       async start(controller) {
         try {
-          if (provider === "openai") {
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const stream = await streamGenerateProblems(topic, difficulty, count, questionType, "openai", customInstructions) as any;
-            for await (const event of stream) {
-              if (event.type === "response.output_text.delta") {
-                const delta = event.delta || "";
-                if (delta) {
-                  fullContent += delta;
-                  controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: "delta", content: delta })}\n\n`));
-                }
-              }
-            }
-          } else {
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const stream = await streamGenerateProblems(topic, difficulty, count, questionType, "anthropic", customInstructions) as any;
-            for await (const event of stream) {
-              if (event.type === "content_block_delta" && event.delta?.text) {
-                fullContent += event.delta.text;
-                controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: "delta", content: event.delta.text })}\n\n`));
-              }
+          for await (const event of streamGenerateProblems(topic, difficulty, count, questionType, aiConfig?.provider, customInstructions)) {
+            if (event.type === "delta") {
+              fullContent += event.content;
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: "delta", content: event.content })}\n\n`));
+            } else if (event.type === "done") {
+              usage = event.usage;
+            } else if (event.type === "error") {
+              usage = event.usage;
+              throw new Error(event.message);
             }
           }
         } catch (aiError) {
           console.error("AI Error:", aiError);
+          await recordUsage();
           controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: "error", message: "Problem generation failed" })}\n\n`));
           controller.close();
           return;
@@ -210,10 +218,12 @@ export async function POST(req: Request) {
             },
             include: { problems: true },
           });
+          await recordUsage(problemSet.id);
 
           controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: "done", problemSetId: problemSet.id, problems: problemSet.problems })}\n\n`));
         } catch (parseError) {
           console.error("Parse/save error:", parseError);
+          await recordUsage();
           controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: "error", message: "Failed to parse generated problems" })}\n\n`));
         }
 
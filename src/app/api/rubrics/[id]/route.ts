@@ -0,0 +1,126 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireApiRole, isErrorResponse } from "@/lib/api-auth";
+import { recalculateRubricScores } from "@/lib/services/rubric-service";
+import { canManageAssignment } from "@/lib/courses";
+
+const updateItemSchema = z.object({
+  description: z.string().trim().min(1).max(2000).optional(),
+  points: z.number().min(-1000).max(1000).optional(),
+});
+
+// PATCH /api/rubrics/[id] - Edit a rubric item; score changes apply to every answer it was applied to
+export async function PATCH(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireApiRole(["TA", "PROFESSOR", "ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    const parsed = updateItemSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.rubric.findUnique({
+      where: { id: params.id },
+      include: { question: { select: { assignmentId: true } } },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: "Rubric item not found" }, { status: 404 });
+    }
+    if (!(await canManageAssignment(auth.user, existing.question.assignmentId))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const item = await prisma.rubric.update({
+      where: { id: params.id },
+      data: parsed.data,
+      include: { _count: { select: { applications: true } } },
+    });
+
+    const pointsChanged = parsed.data.points !== undefined && parsed.data.points !== existing.points;
+    const recalculated = pointsChanged
+      ? await recalculateRubricScores(existing.questionId)
+      : { answers: [], submissions: [] };
+
+    await prisma.auditLog.create({
+      data: {
+        userId: auth.user.id,
+        action: "rubric_item_updated",
+        details: {
+          rubricId: params.id,
+          questionId: existing.questionId,
+          before: { description: existing.description, points: existing.points },
+          after: { description: item.description, points: item.points },
+          affectedAnswers: recalculated.answers.length,
+        },
+      },
+    });
+
+    const { _count, ...rest } = item;
+    return NextResponse.json({
+      item: { ...rest, applicationCount: _count.applications },
+      recalculated,
+    });
+  } catch (error) {
+    console.error("Rubric update error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// DELETE /api/rubrics/[id] - Remove a rubric item and rescore the answers it was applied to
+export async function DELETE(
+  _req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireApiRole(["TA", "PROFESSOR", "ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    const existing = await prisma.rubric.findUnique({
+      where: { id: params.id },
+      include: {
+        applications: { select: { submissionAnswerId: true } },
+        question: { select: { assignmentId: true } },
+      },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: "Rubric item not found" }, { status: 404 });
+    }
+    if (!(await canManageAssignment(auth.user, existing.question.assignmentId))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    // Capture affected answers before the cascade removes their applications
+    const answerIds = existing.applications.map((a) => a.submissionAnswerId);
+    await prisma.rubric.delete({ where: { id: params.id } });
+    const recalculated = answerIds.length > 0
+      ? await recalculateRubricScores(existing.questionId, answerIds)
+      : { answers: [], submissions: [] };
+
+    await prisma.auditLog.create({
+      data: {
+        userId: auth.user.id,
+        action: "rubric_item_deleted",
+        details: {
+          rubricId: params.id,
+          questionId: existing.questionId,
+          description: existing.description,
+          points: existing.points,
+          affectedAnswers: answerIds.length,
+        },
+      },
+    });
+
+    return NextResponse.json({ success: true, recalculated });
+  } catch (error) {
+    console.error("Rubric delete error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
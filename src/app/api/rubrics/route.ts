@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireApiRole, isErrorResponse } from "@/lib/api-auth";
+import { canManageAssignment } from "@/lib/courses";
+import { RUBRIC_SCORING_MODES } from "@/lib/grading/rubric";
+import { recalculateRubricScores } from "@/lib/services/rubric-service";
+
+const createItemSchema = z.object({
+  questionId: z.string().min(1),
+  description: z.string().trim().min(1).max(2000),
+  points: z.number().min(-1000).max(1000),
+});
+
+const scoringSchema = z.object({
+  questionId: z.string().min(1),
+  scoring: z.enum(RUBRIC_SCORING_MODES),
+});
+
+// POST /api/rubrics - Add a rubric item to a question
+export async function POST(req: Request) {
+  try {
+    const auth = await requireApiRole(["TA", "PROFESSOR", "ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    const parsed = createItemSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const { questionId, description, points } = parsed.data;
+
+    const question = await prisma.assignmentQuestion.findUnique({
+      where: { id: questionId },
+      select: { assignmentId: true, _count: { select: { rubrics: true } } },
+    });
+    if (!question) {
+      return NextResponse.json({ error: "Question not found" }, { status: 404 });
+    }
+    if (!(await canManageAssignment(auth.user, question.assignmentId))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const item = await prisma.rubric.create({
+      data: { questionId, description, points, order: question._count.rubrics },
+    });
+
+    return NextResponse.json({ item: { ...item, applicationCount: 0 } });
+  } catch (error) {
+    console.error("Rubric create error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// PATCH /api/rubrics - Switch a question between positive and negative rubric scoring
+export async function PATCH(req: Request) {
+  try {
+    const auth = await requireApiRole(["TA", "PROFESSOR", "ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    const parsed = scoringSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const { questionId, scoring } = parsed.data;
+
+    const question = await prisma.assignmentQuestion.findUnique({
+      where: { id: questionId },
+      select: { assignmentId: true },
+    });
+    if (!question) {
+      return NextResponse.json({ error: "Question not found" }, { status: 404 });
+    }
+    if (!(await canManageAssignment(auth.user, question.assignmentId))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    await prisma.assignmentQuestion.update({
+      where: { id: questionId },
+      data: { rubricScoring: scoring },
+    });
+    const recalculated = await recalculateRubricScores(questionId);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: auth.user.id,
+        action: "rubric_scoring_changed",
+        details: { questionId, scoring, affectedAnswers: recalculated.answers.length },
+      },
+    });
+
+    return NextResponse.json({ scoring, recalculated });
+  } catch (error) {
+    console.error("Rubric scoring error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
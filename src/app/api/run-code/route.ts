@@ -1,10 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
-
-// Rate limiting: Track execution count per user
-const executionCount = new Map<string, { count: number; resetTime: number }>();
-const MAX_EXECUTIONS_PER_HOUR = parseInt(process.env.CODE_EXEC_RATE_LIMIT || "20", 10);
-const RATE_LIMIT_WINDOW = parseInt(process.env.CODE_EXEC_RATE_WINDOW_MS || "3600000", 10);
+import { requireApiAuth, isErrorResponse } from "@/lib/api-auth";
+import { getCourseScope } from "@/lib/courses";
+import { quotaExceededMessage, takeQuota } from "@/lib/services/quota-service";
 
 // Map language names to Piston API language identifiers
 const LANGUAGE_MAP: Record<string, { language: string; version: string }> = {
@@ -24,33 +21,8 @@ const LANGUAGE_MAP: Record<string, { language: string; version: string }> = {
 
 export async function POST(req: NextRequest) {
   try {
-    const session = await auth();
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // Rate limiting check
-    const userId = session.user.id;
-    const now = Date.now();
-    const userLimit = executionCount.get(userId);
-
-    if (userLimit) {
-      if (now < userLimit.resetTime) {
-        if (userLimit.count >= MAX_EXECUTIONS_PER_HOUR) {
-          const minutesLeft = Math.ceil((userLimit.resetTime - now) / 60000);
-          return NextResponse.json(
-            { error: `Rate limit exceeded. Please try again in ${minutesLeft} minute(s).` },
-            { status: 429 }
-          );
-        }
-        userLimit.count++;
-      } else {
-        // Reset counter after time window
-        executionCount.set(userId, { count: 1, resetTime: now + RATE_LIMIT_WINDOW });
-      }
-    } else {
-      executionCount.set(userId, { count: 1, resetTime: now + RATE_LIMIT_WINDOW });
-    }
+    const authResult = await requireApiAuth();
+    if (isErrorResponse(authResult)) return authResult;
 
     const { code, language } = await req.json();
 
@@ -71,6 +43,12 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    const courseId = (await getCourseScope(authResult.user)).course?.id ?? null;
+    const quota = await takeQuota(authResult.user, "code", { courseId });
+    if (!quota.allowed) {
+      return NextResponse.json({ error: quotaExceededMessage(quota) }, { status: 429 });
+    }
+
     // Use Piston API for safe, sandboxed code execution
     const pistonResponse = await fetch("https://emkc.org/api/v2/piston/execute", {
       method: "POST",
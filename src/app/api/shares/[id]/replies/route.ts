@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireApiRole, isErrorResponse } from "@/lib/api-auth";
+import { addStaffReply, canAnswerEscalation } from "@/lib/services/chat-share-service";
+
+const ReplySchema = z.object({
+  content: z.string().trim().min(1, "Reply is empty").max(10000),
+  /** Take the conversation out of the inbox with this reply */
+  resolve: z.boolean().optional(),
+});
+
+/** A TA or instructor answers an escalated conversation in its own thread */
+export async function POST(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireApiRole(["TA", "PROFESSOR", "ADMIN"]);
+    if (isErrorResponse(auth)) return auth;
+
+    const parsed = ReplySchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const share = await prisma.conversationShare.findFirst({
+      where: { id: params.id, revokedAt: null, escalatedAt: { not: null }, conversation: { isDeleted: false } },
+      select: { conversationId: true, conversation: { select: { userId: true } } },
+    });
+    if (!share) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    if (!(await canAnswerEscalation(auth.user, share.conversation.userId))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const message = await addStaffReply(share.conversationId, auth.user.id, parsed.data.content);
+    if (parsed.data.resolve) {
+      await prisma.conversationShare.update({
+        where: { id: params.id },
+        data: { resolvedAt: new Date(), resolvedById: auth.user.id },
+      });
+    }
+
+    return NextResponse.json({
+      message: {
+        id: message.id,
+        parentId: message.parentId,
+        role: message.role,
+        content: message.content,
+        author: message.author ? { name: message.author.name || "Staff", role: message.author.role } : undefined,
+        createdAt: message.createdAt,
+      },
+    }, { status: 201 });
+  } catch (error) {
+    console.error("Share reply error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { requireApiAuth, isErrorResponse } from "@/lib/api-auth";
+import { SHARE_NOTE_MAX, canAnswerEscalation, shareSelect } from "@/lib/services/chat-share-service";
+
+const PatchShareSchema = z.object({
+  /** Student: send an existing link to the staff inbox */
+  escalate: z.literal(true).optional(),
+  note: z.string().trim().max(SHARE_NOTE_MAX).optional(),
+  /** Staff: take it out of the inbox, or put it back */
+  resolved: z.boolean().optional(),
+});
+
+export async function PATCH(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireApiAuth();
+    if (isErrorResponse(auth)) return auth;
+    const { user } = auth;
+
+    const parsed = PatchShareSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+    const { escalate, note, resolved } = parsed.data;
+
+    const share = await prisma.conversationShare.findFirst({
+      where: { id: params.id, revokedAt: null },
+      select: { createdById: true, escalatedAt: true, conversation: { select: { userId: true } } },
+    });
+    if (!share) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const isOwner = share.createdById === user.id;
+    // Only staff of the student's courses handle the escalation
+    const staff = await canAnswerEscalation(user, share.conversation.userId);
+    if ((escalate && !isOwner) || (resolved !== undefined && !staff) || (!isOwner && !staff)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const data: { escalatedAt?: Date; note?: string | null; resolvedAt?: Date | null; resolvedById?: string | null } = {};
+    if (escalate) {
+      // Asking again reopens it
+      data.escalatedAt = new Date();
+      data.note = note || null;
+      data.resolvedAt = null;
+      data.resolvedById = null;
+    }
+    if (resolved !== undefined) {
+      if (!share.escalatedAt && !escalate) {
+        return NextResponse.json({ error: "This link was not sent to staff" }, { status: 400 });
+      }
+      data.resolvedAt = resolved ? new Date() : null;
+      data.resolvedById = resolved ? user.id : null;
+    }
+
+    const updated = await prisma.conversationShare.update({
+      where: { id: params.id },
+      data,
+      select: shareSelect,
+    });
+    return NextResponse.json({ share: updated });
+  } catch (error) {
+    console.error("Share PATCH error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Revoke a link: it stops working for everyone, staff inbox included */
+export async function DELETE(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireApiAuth();
+    if (isErrorResponse(auth)) return auth;
+
+    const share = await prisma.conversationShare.findFirst({
+      where: { id: params.id, createdById: auth.user.id, revokedAt: null },
+      select: { id: true },
+    });
+    if (!share) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    await prisma.conversationShare.update({
+      where: { id: params.id },
+      data: { revokedAt: new Date() },
+    });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Share DELETE error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
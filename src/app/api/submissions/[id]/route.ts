@@ -1,8 +1,47 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { requireApiAuth, isErrorResponse } from "@/lib/api-auth";
+import { canManageAssignment } from "@/lib/courses";
+import { assessLateness } from "@/lib/services/extension-service";
+import { attemptsExhaustedMessage, getAttemptState } from "@/lib/services/attempt-service";
 
-// Convert a submission back to draft for editing
+// GET /api/submissions/[id] - One attempt with its answers, for the student who made it or course staff
+export async function GET(
+  _req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireApiAuth();
+    if (isErrorResponse(auth)) return auth;
+
+    const submission = await prisma.submission.findFirst({
+      where: { id: params.id, isDeleted: false },
+      include: {
+        answers: {
+          include: {
+            rubricApplications: {
+              select: { rubric: { select: { id: true, description: true, points: true } } },
+            },
+          },
+        },
+      },
+    });
+
+    if (!submission) {
+      return NextResponse.json({ error: "Submission not found" }, { status: 404 });
+    }
+    if (submission.userId !== auth.user.id && !(await canManageAssignment(auth.user, submission.assignmentId))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    return NextResponse.json({ submission });
+  } catch (error) {
+    console.error("Get submission error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// Start a new attempt as a draft seeded with this attempt's answers; the attempt itself is kept
 export async function PATCH(
   req: Request,
   { params }: { params: { id: string } }
@@ -15,12 +54,12 @@ export async function PATCH(
     const submission = await prisma.submission.findUnique({
       where: { id: params.id },
       include: {
-        assignment: { select: { lockAfterSubmit: true } },
-        answers: { select: { id: true, score: true } },
+        assignment: { select: { id: true, maxAttempts: true, dueDate: true, latePolicy: true, type: true, timeLimitMinutes: true } },
+        answers: { select: { questionId: true, answer: true, answerImageUrls: true } },
       },
     });
 
-    if (!submission) {
+    if (!submission || submission.isDeleted) {
       return NextResponse.json({ error: "Submission not found" }, { status: 404 });
     }
 
@@ -28,28 +67,52 @@ export async function PATCH(
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    if (submission.assignment.lockAfterSubmit && !submission.isDraft) {
+    if (submission.isDraft) {
+      return NextResponse.json({ success: true, submissionId: submission.id });
+    }
+
+    const attempts = await getAttemptState(submission.assignment, userId);
+    if (attempts.draft) {
+      return NextResponse.json({ success: true, submissionId: attempts.draft.id });
+    }
+    if (!attempts.canSubmit) {
       return NextResponse.json(
-        { error: "This assignment is locked after submission. You cannot edit." },
+        { error: attemptsExhaustedMessage(submission.assignment.maxAttempts) },
         { status: 403 }
       );
     }
 
-    const gradingStarted = submission.gradedAt !== null || submission.answers.some((a) => a.score !== null);
-    if (gradingStarted && !submission.isDraft) {
+    // A new attempt could not be submitted once the late policy stops accepting work
+    if (!(await assessLateness(submission.assignment, userId)).accepted) {
       return NextResponse.json(
-        { error: submission.gradedAt ? "This submission has been graded and cannot be edited." : "This submission is being graded and cannot be edited." },
+        { error: "The due date has passed, so no new attempt can be started." },
         { status: 403 }
       );
     }
 
-    // Convert back to draft
-    await prisma.submission.update({
-      where: { id: params.id },
-      data: { isDraft: true },
+    const draft = await prisma.submission.create({
+      data: {
+        assignmentId: submission.assignmentId,
+        userId,
+        fileUrl: submission.fileUrl,
+        seed: submission.seed,
+        isDraft: true,
+        attempt: attempts.nextAttempt,
+        // Opening a new attempt of a timed quiz starts its clock
+        startedAt: submission.assignment.type === "QUIZ" && submission.assignment.timeLimitMinutes !== null ? new Date() : null,
+        answers: {
+          create: submission.answers.map((a) => ({
+            questionId: a.questionId,
+            answer: a.answer,
+            answerImageUrls: a.answerImageUrls ?? undefined,
+            autoGraded: false,
+            score: null,
+          })),
+        },
+      },
     });
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, submissionId: draft.id });
   } catch (error) {
     console.error("Edit submission error:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
@@ -68,7 +131,7 @@ export async function DELETE(
     const submission = await prisma.submission.findUnique({
       where: { id: params.id },
       include: {
-        assignment: { select: { lockAfterSubmit: true } },
+        assignment: { select: { id: true, maxAttempts: true, dueDate: true, latePolicy: true } },
         answers: { select: { score: true } },
       },
     });
@@ -81,9 +144,14 @@ export async function DELETE(
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    if (submission.assignment.lockAfterSubmit && !submission.isDraft) {
+    // A withdrawn attempt still counts, so withdrawing only helps when another attempt remains
+    if (!submission.isDraft && submission.assignment.maxAttempts !== null && submission.attempt >= submission.assignment.maxAttempts) {
       return NextResponse.json(
-        { error: "This assignment is locked after submission. You cannot delete or resubmit." },
+        {
+          error: submission.assignment.maxAttempts === 1
+            ? "This assignment is locked after submission. You cannot delete or resubmit."
+            : "This is your last attempt and cannot be withdrawn.",
+        },
         { status: 403 }
       );
     }
@@ -97,6 +165,14 @@ export async function DELETE(
       );
     }
 
+    // A final submission could not be made again once the late policy stops accepting work
+    if (!submission.isDraft && !(await assessLateness(submission.assignment, userId)).accepted) {
+      return NextResponse.json(
+        { error: "The due date has passed, so this submission can no longer be withdrawn." },
+        { status: 403 }
+      );
+    }
+
     await prisma.submission.update({
       where: { id: params.id },
       data: { isDeleted: true, deletedAt: new Date() },
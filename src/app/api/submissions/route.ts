@@ -1,6 +1,13 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { requireApiAuth, isErrorResponse } from "@/lib/api-auth";
+import { autoGradeAnswer } from "@/lib/grading/auto-grade";
+import { instanceSeed, instantiateQuestion } from "@/lib/grading/parameters";
+import { canAccessCourse } from "@/lib/courses";
+import { applyLatePenalty, evaluateLateness, parseLatePolicy } from "@/lib/grading/late-policy";
+import { evaluateTimeLimit } from "@/lib/grading/time-limit";
+import { assessLateness, getExtraMinutes } from "@/lib/services/extension-service";
+import { attemptsExhaustedMessage, getAttemptState } from "@/lib/services/attempt-service";
 
 export async function GET(req: Request) {
   try {
@@ -14,9 +21,11 @@ export async function GET(req: Request) {
       return NextResponse.json({ error: "assignmentId required" }, { status: 400 });
     }
 
+    // The latest attempt, which is the draft while one is in progress
     const submission = await prisma.submission.findFirst({
       where: { assignmentId, userId, isDeleted: false },
       include: { answers: true },
+      orderBy: { attempt: "desc" },
     });
 
     return NextResponse.json({ submission });
@@ -38,43 +47,65 @@ export async function POST(req: Request) {
       include: { questions: true },
     });
 
-    if (!assignment) {
+    if (!assignment || !(await canAccessCourse(auth.user, assignment.courseId))) {
       return NextResponse.json({ error: "Assignment not found" }, { status: 404 });
     }
 
-    const existingSubmission = await prisma.submission.findFirst({
-      where: { assignmentId, userId },
-      include: { answers: { select: { score: true } } },
-    });
+    const attempts = await getAttemptState(assignment, userId);
+    // Deterministic per student, so every attempt keeps the same parameterized values
+    const seed = attempts.seed ?? instanceSeed(assignmentId, userId);
+
+    if (!attempts.canSubmit) {
+      return NextResponse.json(
+        { error: attemptsExhaustedMessage(assignment.maxAttempts) },
+        { status: 403 }
+      );
+    }
+
+    // Timed quizzes run against the clock started when the student opened the attempt
+    const submittedAt = new Date();
+    const timeLimitMinutes = assignment.type === "QUIZ" ? assignment.timeLimitMinutes : null;
+    const timed = timeLimitMinutes !== null;
+    const timing = timeLimitMinutes !== null && attempts.draft?.startedAt
+      ? evaluateTimeLimit(
+          attempts.draft.startedAt,
+          timeLimitMinutes,
+          await getExtraMinutes(assignmentId, userId),
+          submittedAt
+        )
+      : null;
 
     if (isDraft) {
-      // Draft save: upsert without auto-grading
-      if (existingSubmission && !existingSubmission.isDraft) {
+      if (timing && timing.overtimeSeconds > 0) {
         return NextResponse.json(
-          { error: "Cannot overwrite a final submission with a draft" },
-          { status: 409 }
+          { error: "Time is up for this attempt. Submit to hand in your saved answers." },
+          { status: 403 }
         );
       }
 
-      if (existingSubmission) {
+      // Draft save: upsert the in-progress attempt without auto-grading
+      const draftAnswers = (answers || []).map((a: { questionId: string; answer: string; answerImageUrls?: string[] }) => ({
+        questionId: a.questionId,
+        answer: a.answer,
+        answerImageUrls: a.answerImageUrls?.length ? a.answerImageUrls : undefined,
+        autoGraded: false,
+        score: null,
+      }));
+
+      if (attempts.draft) {
         // Update existing draft: delete old answers, create new ones
         await prisma.submissionAnswer.deleteMany({
-          where: { submissionId: existingSubmission.id },
+          where: { submissionId: attempts.draft.id },
         });
         const submission = await prisma.submission.update({
-          where: { id: existingSubmission.id },
+          where: { id: attempts.draft.id },
           data: {
             fileUrl,
+            seed,
             submittedAt: new Date(),
-            answers: {
-              create: (answers || []).map((a: { questionId: string; answer: string; answerImageUrls?: string[] }) => ({
-                questionId: a.questionId,
-                answer: a.answer,
-                answerImageUrls: a.answerImageUrls?.length ? a.answerImageUrls : undefined,
-                autoGraded: false,
-                score: null,
-              })),
-            },
+            // A draft saved before the clock was started starts it now
+            ...(timed && !attempts.draft.startedAt && { startedAt: submittedAt }),
+            answers: { create: draftAnswers },
           },
           include: { answers: true },
         });
@@ -87,51 +118,53 @@ export async function POST(req: Request) {
           assignmentId,
           userId,
           fileUrl,
+          seed,
           isDraft: true,
-          answers: {
-            create: (answers || []).map((a: { questionId: string; answer: string; answerImageUrls?: string[] }) => ({
-              questionId: a.questionId,
-              answer: a.answer,
-              answerImageUrls: a.answerImageUrls?.length ? a.answerImageUrls : undefined,
-              autoGraded: false,
-              score: null,
-            })),
-          },
+          attempt: attempts.nextAttempt,
+          startedAt: timed ? submittedAt : null,
+          answers: { create: draftAnswers },
         },
         include: { answers: true },
       });
       return NextResponse.json({ submission });
     }
 
-    // Final submission (isDraft false or omitted)
-    if (existingSubmission && !existingSubmission.isDraft && assignment.lockAfterSubmit) {
+    // Final submission (isDraft false or omitted). Overtime is flagged for staff
+    // rather than refused, so answers are never lost to a slow connection.
+    // A timed attempt that never started its clock has no time to measure.
+    if (timed && !attempts.draft?.startedAt) {
       return NextResponse.json(
-        { error: "This assignment is locked after submission. You cannot resubmit." },
+        { error: "Start this timed quiz before submitting it." },
         { status: 403 }
       );
     }
-    // Block resubmit if grading has started or finished
-    if (existingSubmission && !existingSubmission.isDraft) {
-      const gradingStarted = existingSubmission.gradedAt !== null || existingSubmission.answers.some((a) => a.score !== null);
-      if (gradingStarted) {
-        return NextResponse.json(
-          { error: existingSubmission.gradedAt ? "This submission has been graded and cannot be resubmitted." : "This submission is being graded and cannot be resubmitted." },
-          { status: 403 }
-        );
-      }
+
+    const lateness = await assessLateness(assignment, userId, submittedAt);
+    // A timed attempt started before the cutoff is ended by its time limit, not
+    // the due date, so the auto-submit when the clock runs out is still taken
+    const startedInTime =
+      timed &&
+      !!attempts.draft?.startedAt &&
+      evaluateLateness(parseLatePolicy(assignment.latePolicy), lateness.dueDate, attempts.draft.startedAt).accepted;
+    if (!lateness.accepted && !startedInTime) {
+      return NextResponse.json(
+        { error: "The due date has passed and this assignment no longer accepts submissions." },
+        { status: 403 }
+      );
     }
-    if (existingSubmission) {
-      // Clean up old uploaded file if it exists
-      if (existingSubmission.fileUrl) {
+
+    // The draft becomes this attempt; earlier final attempts are kept as they are
+    if (attempts.draft) {
+      if (attempts.draft.fileUrl && attempts.draft.fileUrl !== fileUrl) {
         try {
           const fs = await import("fs/promises");
           const path = await import("path");
-          const filePath = path.join(process.cwd(), "public", existingSubmission.fileUrl);
+          const filePath = path.join(process.cwd(), "public", attempts.draft.fileUrl);
           await fs.unlink(filePath).catch((err) => console.error("[cleanup] Failed to delete old file:", err));
         } catch { /* ignore cleanup errors */ }
       }
       await prisma.submission.delete({
-        where: { id: existingSubmission.id },
+        where: { id: attempts.draft.id },
       });
     }
 
@@ -140,26 +173,29 @@ export async function POST(req: Request) {
         assignmentId,
         userId,
         fileUrl,
+        seed,
         isDraft: false,
+        attempt: attempts.nextAttempt,
+        submittedAt,
+        lateMinutes: lateness.minutesLate,
+        latePenalty: lateness.penalty,
+        startedAt: attempts.draft?.startedAt ?? null,
+        overtimeSeconds: timing?.overtimeSeconds ?? 0,
         answers: {
           create: (answers || []).map((a: { questionId: string; answer: string; answerImageUrls?: string[] }) => {
             const question = assignment.questions.find((q) => q.id === a.questionId);
-            let autoGraded = false;
-            let score: number | null = null;
-
-            if (question && (question.questionType === "MC" || question.questionType === "NUMERIC")) {
-              autoGraded = true;
-              const studentAnswer = a.answer.trim().toLowerCase();
-              const correctAnswer = (question.correctAnswer || "").trim().toLowerCase();
-              score = studentAnswer === correctAnswer ? question.points : 0;
-            }
+            // Grade against the student's own instance of parameterized questions
+            const instance = question ? instantiateQuestion(question, seed) : null;
+            const graded = instance ? autoGradeAnswer(instance, a.answer || "") : null;
 
             return {
               questionId: a.questionId,
               answer: a.answer,
               answerImageUrls: a.answerImageUrls?.length ? a.answerImageUrls : undefined,
-              autoGraded,
-              score,
+              autoGraded: graded !== null,
+              score: graded?.score ?? null,
+              autoGradeDetail: graded ? { ...graded.detail } : undefined,
+              parameterValues: instance?.parameterValues ?? undefined,
             };
           }),
         },
@@ -177,7 +213,7 @@ export async function POST(req: Request) {
       await prisma.submission.update({
         where: { id: submission.id },
         data: {
-          totalScore: allAutoGraded ? totalScore : null,
+          totalScore: allAutoGraded ? applyLatePenalty(totalScore, submission.latePenalty) : null,
           gradedAt: allAutoGraded ? new Date() : null,
         },
       });
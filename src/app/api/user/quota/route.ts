@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { requireApiAuth, isErrorResponse } from "@/lib/api-auth";
+import { getCourseScope } from "@/lib/courses";
+import { checkAIBudget } from "@/lib/services/ai-usage-service";
+import { getQuotaStatuses } from "@/lib/services/quota-service";
+
+// GET /api/user/quota - the current user's remaining daily allowance per feature
+export async function GET() {
+  try {
+    const auth = await requireApiAuth();
+    if (isErrorResponse(auth)) return auth;
+
+    const [scope, budget] = await Promise.all([getCourseScope(auth.user), checkAIBudget(auth.user)]);
+    const quotas = await getQuotaStatuses(auth.user, {
+      courseId: scope.course?.id ?? null,
+      throttled: budget.status === "throttled",
+    });
+
+    return NextResponse.json({ quotas, budget: { status: budget.status, message: budget.message } });
+  } catch (error) {
+    console.error("Quota GET error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
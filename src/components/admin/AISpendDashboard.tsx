@@ -0,0 +1,327 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Loader2, DollarSign, Coins, Zap, Wallet } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { formatTokens, formatUsd } from "@/lib/ai/pricing";
+
+interface AIUsageData {
+  days: number;
+  month: {
+    since: string;
+    spendUsd: number;
+    softBudgetUsd: number | null;
+    hardBudgetUsd: number | null;
+    userSoftBudgetUsd: number | null;
+    userHardBudgetUsd: number | null;
+  };
+  totals: { calls: number; costUsd: number; inputTokens: number; outputTokens: number; reasoningTokens: number };
+  daily: { date: string; day: string; costUsd: number; tokens: number }[];
+  byFeature: { feature: string; label: string; calls: number; costUsd: number; tokens: number }[];
+  byUser: {
+    userId: string;
+    name: string;
+    email: string | null;
+    role: string | null;
+    calls: number;
+    costUsd: number;
+    tokens: number;
+    monthSpendUsd: number;
+  }[];
+  byModel: { provider: string; model: string; calls: number; costUsd: number; inputTokens: number; outputTokens: number; reasoningTokens: number }[];
+  byCourse: { courseId: string | null; name: string; calls: number; costUsd: number }[];
+}
+
+const RANGES = [7, 30, 90] as const;
+const FEATURE_COLORS: Record<string, string> = {
+  chat: "#6366f1",
+  grading: "#10b981",
+  problems: "#f59e0b",
+  title: "#a3a3a3",
+};
+
+/** Month-to-date spend against the soft/hard budgets. */
+function BudgetBar({ spend, soft, hard }: { spend: number; soft: number | null; hard: number | null }) {
+  const cap = hard ?? soft;
+  if (cap === null) {
+    return <p className="text-xs text-neutral-500 dark:text-neutral-400">No monthly budget set</p>;
+  }
+  const pct = Math.min((spend / cap) * 100, 100);
+  const color = hard !== null && spend >= hard ? "bg-red-500" : soft !== null && spend >= soft ? "bg-amber-500" : "bg-emerald-500";
+  return (
+    <div className="space-y-1">
+      <div className="relative h-2 bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
+        <div className={`h-full ${color} rounded-full`} style={{ width: `${pct}%` }} />
+        {soft !== null && hard !== null && (
+          <div className="absolute top-0 h-full w-px bg-amber-600" style={{ left: `${Math.min((soft / hard) * 100, 100)}%` }} />
+        )}
+      </div>
+      <p className="text-xs text-neutral-500 dark:text-neutral-400">
+        {soft !== null && `Soft ${formatUsd(soft)}`}
+        {soft !== null && hard !== null && " · "}
+        {hard !== null && `Hard ${formatUsd(hard)}`}
+      </p>
+    </div>
+  );
+}
+
+/** Admin-only AI spend dashboards; renders nothing for other roles. */
+export function AISpendDashboard() {
+  const [days, setDays] = useState<(typeof RANGES)[number]>(30);
+  const [data, setData] = useState<AIUsageData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    fetch(`/api/admin/ai-usage?days=${days}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((json) => {
+        setData(json);
+        setLoading(false);
+      })
+      .catch(() => setLoading(false));
+  }, [days]);
+
+  if (!data && !loading) return null;
+
+  const maxFeatureCost = Math.max(...(data?.byFeature.map((f) => f.costUsd) ?? []), 0.000001);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end justify-between gap-3 flex-wrap">
+        <div>
+          <h2 className="text-lg font-semibold tracking-tight dark:text-gray-100">AI Spend</h2>
+          <p className="text-sm text-neutral-500 dark:text-neutral-400">
+            Token usage and estimated cost of AI chat, grading and problem generation
+          </p>
+        </div>
+        <div className="flex items-center gap-1.5">
+          {RANGES.map((r) => (
+            <button
+              key={r}
+              onClick={() => setDays(r)}
+              className={`px-2.5 py-1 rounded-md text-xs font-medium transition-colors ${
+                days === r
+                  ? "bg-gray-900 text-white dark:bg-gray-100 dark:text-gray-900"
+                  : "text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
+              }`}
+            >
+              {r} days
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading || !data ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-neutral-400 dark:text-neutral-500" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            <Card>
+              <CardContent className="p-5 space-y-2">
+                <div className="flex items-center gap-2 text-sm text-neutral-500 dark:text-neutral-400">
+                  <Wallet className="h-4 w-4" />
+                  This month
+                </div>
+                <div className="text-2xl font-bold tabular-nums">{formatUsd(data.month.spendUsd)}</div>
+                <BudgetBar spend={data.month.spendUsd} soft={data.month.softBudgetUsd} hard={data.month.hardBudgetUsd} />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-5 space-y-1">
+                <div className="flex items-center gap-2 text-sm text-neutral-500 dark:text-neutral-400">
+                  <DollarSign className="h-4 w-4" />
+                  Last {data.days} days
+                </div>
+                <div className="text-2xl font-bold tabular-nums">{formatUsd(data.totals.costUsd)}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-5 space-y-1">
+                <div className="flex items-center gap-2 text-sm text-neutral-500 dark:text-neutral-400">
+                  <Coins className="h-4 w-4" />
+                  Tokens
+                </div>
+                <div className="text-2xl font-bold tabular-nums">
+                  {formatTokens(data.totals.inputTokens + data.totals.outputTokens)}
+                </div>
+                <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                  {formatTokens(data.totals.inputTokens)} in · {formatTokens(data.totals.outputTokens)} out
+                  {data.totals.reasoningTokens > 0 && ` (${formatTokens(data.totals.reasoningTokens)} reasoning)`}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-5 space-y-1">
+                <div className="flex items-center gap-2 text-sm text-neutral-500 dark:text-neutral-400">
+                  <Zap className="h-4 w-4" />
+                  AI calls
+                </div>
+                <div className="text-2xl font-bold tabular-nums">{data.totals.calls}</div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Daily Spend</CardTitle>
+              <p className="text-xs text-neutral-500 dark:text-neutral-400">Estimated USD per day</p>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={260}>
+                <BarChart data={data.daily}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e5e5" />
+                  <XAxis dataKey="day" fontSize={11} tickLine={false} angle={-30} textAnchor="end" height={60} />
+                  <YAxis fontSize={12} tickLine={false} tickFormatter={(v) => `$${v}`} />
+                  <Tooltip
+                    contentStyle={{
+                      borderRadius: "8px",
+                      border: "1px solid #e5e5e5",
+                      fontSize: "13px",
+                    }}
+                    formatter={(value: number | undefined) => [formatUsd(value ?? 0), "Spend"]}
+                  />
+                  <Bar dataKey="costUsd" fill="#6366f1" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">By Feature</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {data.byFeature.length === 0 ? (
+                  <p className="text-sm text-neutral-400 dark:text-neutral-500 py-8 text-center">No AI usage yet</p>
+                ) : (
+                  <div className="space-y-3">
+                    {data.byFeature.map((f) => (
+                      <div key={f.feature} className="flex items-center gap-4">
+                        <span className="w-[130px] shrink-0 text-sm font-medium text-gray-700 dark:text-gray-300">{f.label}</span>
+                        <div className="flex-1 h-5 bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
+                          <div
+                            className="h-full rounded-full"
+                            style={{
+                              width: `${Math.max((f.costUsd / maxFeatureCost) * 100, f.costUsd > 0 ? 2 : 0)}%`,
+                              backgroundColor: FEATURE_COLORS[f.feature] ?? "#737373",
+                            }}
+                          />
+                        </div>
+                        <span className="w-[70px] text-right text-sm font-bold tabular-nums">{formatUsd(f.costUsd)}</span>
+                        <span className="w-[60px] text-right text-xs text-gray-400 dark:text-gray-500 tabular-nums">{f.calls} calls</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">By Model &amp; Course</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-100 dark:border-gray-800 text-xs text-gray-500 dark:text-gray-400">
+                      <th className="py-1.5 text-left font-medium">Model</th>
+                      <th className="py-1.5 text-right font-medium">Tokens in / out</th>
+                      <th className="py-1.5 text-right font-medium">Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.byModel.map((m) => (
+                      <tr key={`${m.provider}/${m.model}`} className="border-b border-gray-50 dark:border-gray-800/50">
+                        <td className="py-1.5">
+                          <span className="font-medium">{m.model}</span>
+                          <span className="ml-1.5 text-xs text-gray-400 dark:text-gray-500">{m.provider}</span>
+                        </td>
+                        <td className="py-1.5 text-right tabular-nums text-gray-600 dark:text-gray-400">
+                          {formatTokens(m.inputTokens)} / {formatTokens(m.outputTokens)}
+                        </td>
+                        <td className="py-1.5 text-right tabular-nums font-medium">{formatUsd(m.costUsd)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <div className="space-y-1.5">
+                  {data.byCourse.map((c) => (
+                    <div key={c.courseId ?? "none"} className="flex items-center justify-between text-sm">
+                      <span className="text-gray-700 dark:text-gray-300">{c.name}</span>
+                      <span className="tabular-nums font-medium">{formatUsd(c.costUsd)}</span>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Top Users</CardTitle>
+              <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                Highest spend in the last {data.days} days
+                {data.month.userHardBudgetUsd !== null && ` · per-student limit ${formatUsd(data.month.userHardBudgetUsd)}/month`}
+              </p>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              {data.byUser.length === 0 ? (
+                <p className="text-sm text-neutral-400 dark:text-neutral-500 py-8 text-center">No AI usage yet</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-100 dark:border-gray-800 text-xs text-gray-500 dark:text-gray-400">
+                      <th className="py-1.5 text-left font-medium">User</th>
+                      <th className="py-1.5 text-right font-medium">Calls</th>
+                      <th className="py-1.5 text-right font-medium">Tokens</th>
+                      <th className="py-1.5 text-right font-medium">Spend</th>
+                      <th className="py-1.5 text-right font-medium">This month</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.byUser.map((u) => {
+                      const isStudent = u.role === "STUDENT";
+                      const overHard = isStudent && data.month.userHardBudgetUsd !== null && u.monthSpendUsd >= data.month.userHardBudgetUsd;
+                      const overSoft = isStudent && data.month.userSoftBudgetUsd !== null && u.monthSpendUsd >= data.month.userSoftBudgetUsd;
+                      return (
+                        <tr key={u.userId} className="border-b border-gray-50 dark:border-gray-800/50">
+                          <td className="py-1.5">
+                            <span className="font-medium">{u.name}</span>
+                            {u.email && <span className="ml-1.5 text-xs text-gray-400 dark:text-gray-500">{u.email}</span>}
+                          </td>
+                          <td className="py-1.5 text-right tabular-nums">{u.calls}</td>
+                          <td className="py-1.5 text-right tabular-nums">{formatTokens(u.tokens)}</td>
+                          <td className="py-1.5 text-right tabular-nums font-medium">{formatUsd(u.costUsd)}</td>
+                          <td
+                            className={`py-1.5 text-right tabular-nums ${
+                              overHard ? "text-red-600 dark:text-red-400 font-medium" : overSoft ? "text-amber-600 dark:text-amber-400" : ""
+                            }`}
+                          >
+                            {formatUsd(u.monthSpendUsd)}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+"use client";
+
+import React, { useState } from "react";
+import { Loader2, Upload, CheckCircle2, AlertTriangle, FileSpreadsheet } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import type { RosterImportPreview, RosterImportResult } from "@/types";
+
+interface RosterImportDialogProps {
+  courseId: string | null;
+  courseLabel: string;
+  onOpenChange: (open: boolean) => void;
+  /** Called after an import was applied */
+  onImported: () => void;
+}
+
+const KIND_STYLES = {
+  new: { label: "New account", className: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900 dark:text-emerald-300" },
+  linked: { label: "Enroll", className: "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300" },
+  changed: { label: "Update", className: "bg-amber-100 text-amber-700 dark:bg-amber-900 dark:text-amber-300" },
+} as const;
+
+export function RosterImportDialog({ courseId, courseLabel, onOpenChange, onImported }: RosterImportDialogProps) {
+  const [csv, setCsv] = useState("");
+  const [sendInvites, setSendInvites] = useState(true);
+  const [preview, setPreview] = useState<RosterImportPreview | null>(null);
+  const [result, setResult] = useState<RosterImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const reset = () => {
+    setCsv("");
+    setPreview(null);
+    setResult(null);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (loading) return;
+    if (!open) reset();
+    onOpenChange(open);
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text().then((text) => {
+      setCsv(text);
+      setPreview(null);
+    });
+    e.target.value = "";
+  };
+
+  const submit = async (apply: boolean) => {
+    if (!courseId || !csv.trim()) return;
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/courses/${courseId}/roster`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ csv, apply, sendInvites }),
+      });
+      const data = await res.json();
+      if (data.preview) setPreview(data.preview);
+      if (!res.ok) {
+        toast.error(data.error || "Failed to import roster");
+        return;
+      }
+      if (apply) {
+        setResult(data.result);
+        onImported();
+      }
+    } catch {
+      toast.error("Failed to import roster");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const changes = preview?.entries.filter((e) => e.kind !== "unchanged") ?? [];
+  const unchangedCount = (preview?.entries.length ?? 0) - changes.length;
+  const hasChanges = changes.length > 0 || (preview?.dropped.length ?? 0) > 0;
+
+  return (
+    <Dialog open={!!courseId} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[680px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-indigo-500" />
+            Import {courseLabel} Roster
+          </DialogTitle>
+          <DialogDescription>
+            Upload the registrar CSV (student ID, name, email). Students are matched by student ID;
+            enrolled students missing from the CSV are dropped.
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="flex flex-col items-center py-6 gap-2 text-center">
+            <CheckCircle2 className="h-10 w-10 text-emerald-500" />
+            <p className="text-sm font-medium text-gray-900 dark:text-gray-100">Roster imported</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {result.entries.filter((e) => e.kind === "new").length} created ·{" "}
+              {result.entries.filter((e) => e.kind === "linked").length} enrolled ·{" "}
+              {result.entries.filter((e) => e.kind === "changed").length} updated ·{" "}
+              {result.dropped.length} dropped
+              {sendInvites && ` · ${result.invitesSent} invitation${result.invitesSent !== 1 ? "s" : ""} sent`}
+              {result.invitesFailed > 0 && ` (${result.invitesFailed} failed)`}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <label className="inline-flex items-center gap-1.5 rounded-md border border-gray-200 dark:border-gray-700 px-3 py-1.5 text-sm cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800">
+                <Upload className="h-3.5 w-3.5" />
+                Choose CSV
+                <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+              </label>
+              <span className="text-xs text-gray-400 dark:text-gray-500">or paste it below</span>
+            </div>
+            <Textarea
+              placeholder={"Student ID,Name,Email\n112012345,Jane Doe,jane@example.com"}
+              value={csv}
+              onChange={(e) => {
+                setCsv(e.target.value);
+                setPreview(null);
+              }}
+              rows={5}
+              className="resize-none font-mono text-xs"
+            />
+
+            {preview && (
+              <div className="space-y-3">
+                <div className="grid grid-cols-5 gap-2 text-center">
+                  {[
+                    { label: "New", value: preview.entries.filter((e) => e.kind === "new").length },
+                    { label: "Enroll", value: preview.entries.filter((e) => e.kind === "linked").length },
+                    { label: "Update", value: preview.entries.filter((e) => e.kind === "changed").length },
+                    { label: "Unchanged", value: unchangedCount },
+                    { label: "Drop", value: preview.dropped.length },
+                  ].map(({ label, value }) => (
+                    <div key={label} className="bg-gray-50 dark:bg-gray-800 rounded-lg py-2">
+                      <span className="block text-base font-bold text-gray-900 dark:text-gray-100">{value}</span>
+                      <span className="text-[11px] text-gray-500 dark:text-gray-400">{label}</span>
+                    </div>
+                  ))}
+                </div>
+
+                {preview.errors.length > 0 && (
+                  <div className="rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-950/50 p-3 space-y-1 max-h-32 overflow-y-auto">
+                    {preview.errors.map((err, i) => (
+                      <p key={i} className="flex items-start gap-1.5 text-xs text-red-700 dark:text-red-300">
+                        <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-px" />
+                        Line {err.line}: {err.message}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {hasChanges && (
+                  <div className="max-h-56 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-800 border border-gray-100 dark:border-gray-800 rounded-lg">
+                    {changes.map((entry) => (
+                      <div key={entry.line} className="flex items-start gap-3 px-3 py-2 text-xs">
+                        <span className={`px-2 py-0.5 rounded-full font-semibold shrink-0 ${KIND_STYLES[entry.kind as keyof typeof KIND_STYLES].className}`}>
+                          {KIND_STYLES[entry.kind as keyof typeof KIND_STYLES].label}
+                        </span>
+                        <div className="min-w-0 flex-1">
+                          <p className="text-gray-900 dark:text-gray-100 truncate">
+                            {entry.studentId} · {entry.name} · {entry.email}
+                          </p>
+                          {entry.changes.map((c) => (
+                            <p key={c.field} className="text-gray-500 dark:text-gray-400 truncate">
+                              {c.field}: <span className="line-through">{c.from || "—"}</span> → {c.to}
+                            </p>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                    {preview.dropped.map((drop) => (
+                      <div key={drop.enrollmentId} className="flex items-start gap-3 px-3 py-2 text-xs">
+                        <span className="px-2 py-0.5 rounded-full font-semibold shrink-0 bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300">
+                          Drop
+                        </span>
+                        <p className="text-gray-900 dark:text-gray-100 truncate">
+                          {drop.studentId || "No student ID"} · {drop.name || "No name"} · {drop.email}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {!hasChanges && preview.errors.length === 0 && (
+                  <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+                    The roster is already up to date.
+                  </p>
+                )}
+              </div>
+            )}
+
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={sendInvites}
+                onChange={(e) => setSendInvites(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-800 cursor-pointer"
+              />
+              Email an activation link to students who have not signed in yet
+            </label>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={loading}>
+            {result ? "Close" : "Cancel"}
+          </Button>
+          {!result && (
+            preview ? (
+              <Button
+                onClick={() => submit(true)}
+                disabled={loading || preview.errors.length > 0 || !hasChanges}
+                className="bg-indigo-600 hover:bg-indigo-700 text-white"
+              >
+                {loading && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Apply Import
+              </Button>
+            ) : (
+              <Button
+                onClick={() => submit(false)}
+                disabled={loading || !csv.trim()}
+                className="bg-indigo-600 hover:bg-indigo-700 text-white"
+              >
+                {loading && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Preview
+              </Button>
+            )
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -23,6 +23,11 @@ import {
 import Link from "next/link";
 import { toast } from "sonner";
 import { QuestionCard } from "./QuestionCard";
+import type { NumericGradingConfig } from "@/lib/grading/numeric";
+import type { McGradingConfig, McOption } from "@/lib/grading/multiple-choice";
+import { parseParameterDefinitions, type QuestionParameter } from "@/lib/grading/parameters";
+import { ATTEMPT_SCORING, ATTEMPT_SCORING_LABELS, type AttemptScoring } from "@/lib/grading/attempts";
+import { LATE_POLICY_LABELS, LATE_POLICY_MODES, type LatePolicy, type LatePolicyMode } from "@/lib/grading/late-policy";
 
 export interface QuestionFormData {
   questionText: string;
@@ -33,6 +38,13 @@ export interface QuestionFormData {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   diagram?: { type: "svg" | "mermaid"; content: string } | any;
   imageUrl?: string | null;
+  numericConfig?: NumericGradingConfig | null;
+  /** MC only: per-option feedback, aligned with `options` */
+  optionFeedback?: string[];
+  mcConfig?: McGradingConfig | null;
+  /** Randomized variables in editor syntax, one per line; undefined when not randomized */
+  parameterText?: string;
+  answerFormula?: string;
   imageFile?: File | null;
   imagePreview?: string | null;
 }
@@ -43,7 +55,15 @@ export interface AssignmentFormData {
   dueDate: string;
   type: "QUIZ" | "FILE_UPLOAD";
   totalPoints: number;
-  lockAfterSubmit: boolean;
+  /** null = unlimited; 1 = locked after the first submission */
+  maxAttempts: number | null;
+  attemptScoring: AttemptScoring;
+  /** Quizzes only: minutes from when the student opens an attempt; null = untimed */
+  timeLimitMinutes: number | null;
+  /** null accepts late work without penalty */
+  latePolicy: LatePolicy | null;
+  /** Quizzes only: students may open a tutor chat from each question */
+  allowAskAI: boolean;
   pdfUrl: string | null;
   questions: QuestionFormData[];
 }
@@ -71,11 +91,15 @@ interface AssignmentFormProps {
     getQuestionsWithUrls: () => Promise<Array<{
       questionText: string;
       questionType: string;
-      options: string[];
+      options: Array<string | McOption>;
       correctAnswer: string;
       points: number;
       diagram?: unknown;
       imageUrl?: string;
+      numericConfig?: NumericGradingConfig;
+      mcConfig?: McGradingConfig;
+      parameters?: QuestionParameter[];
+      answerFormula?: string;
     }>>;
     titleValid: boolean;
   }) => React.ReactNode;
@@ -97,7 +121,11 @@ export function AssignmentForm({
   const [type, setType] = useState<"QUIZ" | "FILE_UPLOAD">(initialData?.type ?? "QUIZ");
   const [totalPoints, setTotalPoints] = useState(initialData?.totalPoints ?? 100);
   const [questions, setQuestions] = useState<QuestionFormData[]>(initialData?.questions ?? []);
-  const [lockAfterSubmit, setLockAfterSubmit] = useState(initialData?.lockAfterSubmit ?? false);
+  const [maxAttempts, setMaxAttempts] = useState<number | null>(initialData?.maxAttempts ?? null);
+  const [attemptScoring, setAttemptScoring] = useState<AttemptScoring>(initialData?.attemptScoring ?? "latest");
+  const [timeLimitMinutes, setTimeLimitMinutes] = useState<number | null>(initialData?.timeLimitMinutes ?? null);
+  const [latePolicy, setLatePolicy] = useState<LatePolicy | null>(initialData?.latePolicy ?? null);
+  const [allowAskAI, setAllowAskAI] = useState(initialData?.allowAskAI ?? true);
   const [pdfFile, setPdfFile] = useState<File | null>(null);
   const [pdfUrl, setPdfUrl] = useState<string | null>(initialData?.pdfUrl ?? null);
   const [uploadingPdf, setUploadingPdf] = useState(false);
@@ -111,7 +139,11 @@ export function AssignmentForm({
       if (initialData.type !== undefined) setType(initialData.type);
       if (initialData.totalPoints !== undefined) setTotalPoints(initialData.totalPoints);
       if (initialData.questions !== undefined) setQuestions(initialData.questions);
-      if (initialData.lockAfterSubmit !== undefined) setLockAfterSubmit(initialData.lockAfterSubmit);
+      if (initialData.maxAttempts !== undefined) setMaxAttempts(initialData.maxAttempts);
+      if (initialData.attemptScoring !== undefined) setAttemptScoring(initialData.attemptScoring);
+      if (initialData.timeLimitMinutes !== undefined) setTimeLimitMinutes(initialData.timeLimitMinutes);
+      if (initialData.latePolicy !== undefined) setLatePolicy(initialData.latePolicy);
+      if (initialData.allowAskAI !== undefined) setAllowAskAI(initialData.allowAskAI);
       if (initialData.pdfUrl !== undefined) setPdfUrl(initialData.pdfUrl);
     }
   // Only re-sync when mode is edit and initialData reference changes
@@ -227,14 +259,22 @@ export function AssignmentForm({
             imageUrl = data.url;
           }
         }
+        const hasFeedback = q.questionType === "MC" && (q.optionFeedback ?? []).some((f) => f.trim());
+        const parameters = q.parameterText ? parseParameterDefinitions(q.parameterText).parameters : [];
+        const answerFormula = q.questionType === "NUMERIC" ? q.answerFormula?.trim() : undefined;
         return {
           questionText: q.questionText,
           questionType: q.questionType,
-          options: q.options,
+          options: hasFeedback
+            ? q.options.map((text, i) => ({ text, feedback: q.optionFeedback?.[i]?.trim() || null }))
+            : q.options,
           correctAnswer: q.correctAnswer,
           points: q.points,
           ...(q.diagram && { diagram: q.diagram }),
           ...(imageUrl && { imageUrl }),
+          ...(q.questionType === "NUMERIC" && q.numericConfig && { numericConfig: q.numericConfig }),
+          ...(q.questionType === "MC" && q.mcConfig && { mcConfig: q.mcConfig }),
+          ...(parameters.length > 0 && { parameters, ...(answerFormula && { answerFormula }) }),
         };
       })
     );
@@ -246,11 +286,27 @@ export function AssignmentForm({
     dueDate,
     type,
     totalPoints,
-    lockAfterSubmit,
+    maxAttempts,
+    attemptScoring,
+    timeLimitMinutes: type === "QUIZ" ? timeLimitMinutes : null,
+    latePolicy,
+    allowAskAI,
     pdfUrl,
     questions,
   };
 
+  const setLateMode = (mode: string) =>
+    setLatePolicy(
+      mode === "none"
+        ? null
+        : {
+            mode: mode as LatePolicyMode,
+            graceMinutes: latePolicy?.graceMinutes ?? (mode === "grace" ? 60 : 0),
+            penaltyPerDay: latePolicy?.penaltyPerDay ?? 10,
+            maxPenalty: latePolicy?.maxPenalty ?? 100,
+          }
+    );
+
   return (
     <div className="max-w-4xl mx-auto space-y-6">
       <div className="flex items-center gap-4">
@@ -323,18 +379,125 @@ export function AssignmentForm({
             </div>
           </div>
 
-          <label className="flex items-center gap-3 pt-2 cursor-pointer">
-            <input
-              type="checkbox"
-              checked={lockAfterSubmit}
-              onChange={(e) => setLockAfterSubmit(e.target.checked)}
-              className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-800"
-            />
-            <div>
-              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Lock after submission</span>
-              <p className="text-xs text-gray-500 dark:text-gray-400">Students cannot delete or resubmit once they submit. Useful for timed quizzes.</p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 pt-2">
+            <div className="space-y-2">
+              <Label>Attempts Allowed</Label>
+              <Input
+                type="number"
+                min={1}
+                max={100}
+                placeholder="Unlimited"
+                value={maxAttempts ?? ""}
+                onChange={(e) => setMaxAttempts(e.target.value ? Math.min(100, Math.max(1, Math.round(Number(e.target.value)))) : null)}
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Blank for unlimited. 1 locks the assignment after submission, useful for timed quizzes.
+              </p>
             </div>
-          </label>
+            {maxAttempts !== 1 && (
+              <div className="space-y-2">
+                <Label>Score Counted</Label>
+                <Select value={attemptScoring} onValueChange={(v) => setAttemptScoring(v as AttemptScoring)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ATTEMPT_SCORING.map((m) => (
+                      <SelectItem key={m} value={m}>{ATTEMPT_SCORING_LABELS[m]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {type === "QUIZ" && (
+              <div className="space-y-2">
+                <Label>Time Limit (minutes)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={1440}
+                  placeholder="Untimed"
+                  value={timeLimitMinutes ?? ""}
+                  onChange={(e) => setTimeLimitMinutes(e.target.value ? Math.min(1440, Math.max(1, Math.round(Number(e.target.value)))) : null)}
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  The clock starts when a student opens the quiz; answers are submitted when it runs out.
+                </p>
+              </div>
+            )}
+          </div>
+
+          {type === "QUIZ" && (
+            <div className="space-y-1 pt-2">
+              <label className="flex items-center gap-2 text-sm font-medium cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={allowAskAI}
+                  onChange={(e) => setAllowAskAI(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-800 cursor-pointer"
+                />
+                Allow &quot;Ask AI&quot; on questions
+              </label>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Students can open the AI tutor from a question. While the assignment is graded and open, the tutor only guides (Socratic mode).
+              </p>
+            </div>
+          )}
+
+          {dueDate && (
+            <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 pt-2">
+              <div className="space-y-2">
+                <Label>Late Work</Label>
+                <Select value={latePolicy?.mode ?? "none"} onValueChange={setLateMode}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Accept, no penalty</SelectItem>
+                    {LATE_POLICY_MODES.map((m) => (
+                      <SelectItem key={m} value={m}>{LATE_POLICY_LABELS[m]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {latePolicy && latePolicy.mode !== "cutoff" && (
+                <div className="space-y-2">
+                  <Label>Grace Period (hours)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={latePolicy.graceMinutes / 60}
+                    onChange={(e) => setLatePolicy({ ...latePolicy, graceMinutes: Math.max(0, Math.round(Number(e.target.value) * 60)) })}
+                  />
+                </div>
+              )}
+              {latePolicy?.mode === "penalty" && (
+                <>
+                  <div className="space-y-2">
+                    <Label>Penalty per Day (%)</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={latePolicy.penaltyPerDay}
+                      onChange={(e) => setLatePolicy({ ...latePolicy, penaltyPerDay: Number(e.target.value) })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Maximum Penalty (%)</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={latePolicy.maxPenalty}
+                      onChange={(e) => setLatePolicy({ ...latePolicy, maxPenalty: Number(e.target.value) })}
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -7,6 +7,8 @@ import {
   X,
   ChevronUp,
   ChevronDown,
+  Plus,
+  Dices,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -22,11 +24,48 @@ import {
 } from "@/components/ui/select";
 import { MarkdownContent } from "@/components/ui/markdown-content";
 import { getDiagramContent } from "@/lib/diagram-utils";
+import {
+  DEFAULT_RELATIVE_TOLERANCE,
+  unrecognizedKeyUnit,
+  type NumericGradingConfig,
+  type SigFigPolicy,
+} from "@/lib/grading/numeric";
+import {
+  MC_SCORING_LABELS,
+  MC_SCORING_SCHEMES,
+  formatChoiceLetters,
+  optionLabel,
+  parseChoiceLetters,
+  type McGradingConfig,
+  type McScoringScheme,
+} from "@/lib/grading/multiple-choice";
+import {
+  computeFormulaAnswer,
+  describeParameterValues,
+  parseParameterDefinitions,
+  sampleParameters,
+  validateAnswerFormula,
+} from "@/lib/grading/parameters";
 import dynamic from "next/dynamic";
 import type { QuestionFormData } from "./AssignmentForm";
 
 const MermaidDiagram = dynamic(() => import("@/components/chat/MermaidDiagram"), { ssr: false });
 
+const MAX_MC_OPTIONS = 10;
+
+const SCORING_DESCRIPTIONS: Record<McScoringScheme, string> = {
+  all_or_nothing: "Full credit only when exactly the correct options are selected.",
+  per_option: "Each option counts equally: credit for every correct option selected and every incorrect option left unselected.",
+  right_minus_wrong: "Each correct selection earns a share of the points; each incorrect selection cancels one out (never below zero).",
+};
+
+/** Parse an optional numeric input; empty or invalid input clears the setting */
+function optionalNumber(value: string): number | null {
+  if (value.trim() === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
 interface QuestionCardProps {
   question: QuestionFormData;
   index: number;
@@ -52,6 +91,63 @@ export function QuestionCard({
   onImageUpload,
   onRemoveImage,
 }: QuestionCardProps) {
+  const numeric: NumericGradingConfig = q.numericConfig ?? {};
+  const unknownUnit = q.questionType === "NUMERIC" ? unrecognizedKeyUnit(q.correctAnswer, numeric) : null;
+  const updateNumeric = (patch: Partial<NumericGradingConfig>) =>
+    onUpdate("numericConfig", { ...numeric, ...patch });
+
+  const mc: McGradingConfig = q.mcConfig ?? {};
+  const optionFeedback = q.optionFeedback ?? [];
+  const correctLetters = parseChoiceLetters(q.correctAnswer) ?? [];
+  const updateMc = (patch: Partial<McGradingConfig>) => {
+    const next = { ...mc, ...patch };
+    onUpdate("mcConfig", next);
+    // A single-answer question keeps only the first correct option
+    if (!next.multiSelect && correctLetters.length > 1) {
+      onUpdate("correctAnswer", correctLetters[0]);
+    }
+  };
+  const toggleCorrect = (letter: string) => {
+    if (!mc.multiSelect) {
+      onUpdate("correctAnswer", letter);
+      return;
+    }
+    const next = correctLetters.includes(letter)
+      ? correctLetters.filter((l) => l !== letter)
+      : [...correctLetters, letter];
+    onUpdate("correctAnswer", formatChoiceLetters(next));
+  };
+  const addOption = () => {
+    onUpdate("options", [...q.options, ""]);
+    onUpdate("optionFeedback", [...q.options.map((_, i) => optionFeedback[i] ?? ""), ""]);
+  };
+  const removeOption = (oIndex: number) => {
+    onUpdate("options", q.options.filter((_, i) => i !== oIndex));
+    onUpdate("optionFeedback", q.options.map((_, i) => optionFeedback[i] ?? "").filter((_, i) => i !== oIndex));
+    // Shift correct-answer letters after the removed option
+    const remaining = correctLetters
+      .map((l) => l.charCodeAt(0) - 65)
+      .filter((i) => i !== oIndex)
+      .map((i) => optionLabel(i > oIndex ? i - 1 : i));
+    onUpdate("correctAnswer", formatChoiceLetters(remaining));
+  };
+  const updateFeedback = (oIndex: number, value: string) => {
+    const next = q.options.map((_, i) => optionFeedback[i] ?? "");
+    next[oIndex] = value;
+    onUpdate("optionFeedback", next);
+  };
+
+  const randomized = q.parameterText !== undefined;
+  const parameterDefs = parseParameterDefinitions(q.parameterText ?? "");
+  const formula = q.questionType === "NUMERIC" ? q.answerFormula?.trim() ?? "" : "";
+  const formulaError = formula && parameterDefs.parameters.length > 0
+    ? validateAnswerFormula(formula, parameterDefs.parameters)
+    : null;
+  // Preview one instance so staff can sanity-check values and the computed answer
+  const sampleValues = parameterDefs.parameters.length > 0
+    ? sampleParameters(parameterDefs.parameters, 1, qIndex)
+    : null;
+
   return (
     <Card>
       <CardContent className="p-6 space-y-4">
@@ -202,39 +298,178 @@ export function QuestionCard({
 
         {q.questionType === "MC" && (
           <div className="space-y-2">
-            <Label>Options</Label>
-            {q.options.map((opt, oIndex) => (
-              <div key={oIndex}>
-                <div className="flex items-center gap-2">
-                  <span className="text-sm font-medium w-6">
-                    {String.fromCharCode(65 + oIndex)}.
-                  </span>
+            <div className="flex items-center justify-between">
+              <Label>Options</Label>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                Tick the correct option{mc.multiSelect ? "s" : ""}
+              </span>
+            </div>
+            {q.options.map((opt, oIndex) => {
+              const letter = optionLabel(oIndex);
+              return (
+                <div key={oIndex}>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type={mc.multiSelect ? "checkbox" : "radio"}
+                      name={`correct-${qIndex}`}
+                      checked={correctLetters.includes(letter)}
+                      onChange={() => toggleCorrect(letter)}
+                      title="Mark as correct"
+                      className="h-4 w-4 shrink-0 border-gray-300 text-indigo-600 focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-800"
+                    />
+                    <span className="text-sm font-medium w-6">
+                      {letter}.
+                    </span>
+                    <Input
+                      value={opt}
+                      onChange={(e) => onUpdateOption(oIndex, e.target.value)}
+                      placeholder={`Option ${letter}`}
+                    />
+                    {q.options.length > 2 && (
+                      <button
+                        type="button"
+                        onClick={() => removeOption(oIndex)}
+                        className="p-1 rounded text-gray-400 hover:text-red-500"
+                        title="Remove option"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                  {opt.includes("$") && (
+                    <div className="ml-14 mt-1 text-sm overflow-x-auto">
+                      <MarkdownContent content={opt} />
+                    </div>
+                  )}
                   <Input
-                    value={opt}
-                    onChange={(e) => onUpdateOption(oIndex, e.target.value)}
-                    placeholder={`Option ${String.fromCharCode(65 + oIndex)}`}
+                    value={optionFeedback[oIndex] ?? ""}
+                    onChange={(e) => updateFeedback(oIndex, e.target.value)}
+                    placeholder="Feedback shown to students after grading (optional)"
+                    className="ml-14 mt-1 h-8 text-xs w-[calc(100%-3.5rem)]"
                   />
                 </div>
-                {opt.includes("$") && (
-                  <div className="ml-8 mt-1 text-sm overflow-x-auto">
-                    <MarkdownContent content={opt} />
-                  </div>
-                )}
-              </div>
-            ))}
+              );
+            })}
+            {q.options.length < MAX_MC_OPTIONS && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={addOption}
+                className="gap-1.5"
+              >
+                <Plus className="h-3.5 w-3.5" />
+                Add option
+              </Button>
+            )}
+            <div className="space-y-3 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={mc.multiSelect ?? false}
+                  onChange={(e) => updateMc({ multiSelect: e.target.checked })}
+                  className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-800"
+                />
+                <span className="text-sm text-gray-700 dark:text-gray-300">Select all that apply</span>
+              </label>
+              {mc.multiSelect && (
+                <div className="space-y-1.5">
+                  <Label className="text-xs">Partial credit</Label>
+                  <Select
+                    value={mc.scoring ?? "all_or_nothing"}
+                    onValueChange={(v) => updateMc({ scoring: v as McScoringScheme })}
+                  >
+                    <SelectTrigger className="max-w-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MC_SCORING_SCHEMES.map((scheme) => (
+                        <SelectItem key={scheme} value={scheme}>
+                          {MC_SCORING_LABELS[scheme]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {SCORING_DESCRIPTIONS[mc.scoring ?? "all_or_nothing"]}
+                  </p>
+                </div>
+              )}
+            </div>
           </div>
         )}
 
+        <div className="space-y-3 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={randomized}
+              onChange={(e) => {
+                onUpdate("parameterText", e.target.checked ? "" : undefined);
+                if (!e.target.checked) onUpdate("answerFormula", "");
+              }}
+              className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-800"
+            />
+            <Dices className="h-4 w-4 text-gray-500 dark:text-gray-400" />
+            <span className="text-sm text-gray-700 dark:text-gray-300">Randomize values per student</span>
+          </label>
+          {randomized && (
+            <div className="space-y-3">
+              <div className="space-y-1.5">
+                <Label className="text-xs">Variables (one per line)</Label>
+                <Textarea
+                  value={q.parameterText ?? ""}
+                  onChange={(e) => onUpdate("parameterText", e.target.value)}
+                  placeholder={"m = {2..5 step 0.5} kg\ntheta = {30, 45, 60} deg"}
+                  rows={3}
+                  className="font-mono text-xs"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Reference variables as {"{{m}}"} in the question text and options. Each student gets their own values.
+                </p>
+                {parameterDefs.errors.map((err, i) => (
+                  <p key={i} className="text-xs text-red-600 dark:text-red-400">
+                    {err}
+                  </p>
+                ))}
+              </div>
+              {q.questionType === "NUMERIC" && (
+                <div className="space-y-1.5">
+                  <Label className="text-xs">Answer formula</Label>
+                  <Input
+                    value={q.answerFormula ?? ""}
+                    onChange={(e) => onUpdate("answerFormula", e.target.value)}
+                    placeholder="e.g., m * 9.8 * h"
+                    className="font-mono text-xs"
+                  />
+                  {formulaError && (
+                    <p className="text-xs text-red-600 dark:text-red-400">{formulaError}</p>
+                  )}
+                </div>
+              )}
+              {sampleValues && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Sample instance: {describeParameterValues(sampleValues)}
+                  {formula && !formulaError && <> → answer = {computeFormulaAnswer(formula, sampleValues)}</>}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
         <div className="space-y-2">
           <Label>Correct Answer</Label>
           <Input
             value={q.correctAnswer}
             onChange={(e) => onUpdate("correctAnswer", e.target.value)}
+            disabled={Boolean(randomized && formula)}
             placeholder={
-              q.questionType === "MC"
-                ? "e.g., A"
+              randomized && formula
+                ? "Computed per student from the answer formula"
+                : q.questionType === "MC"
+                ? mc.multiSelect ? "e.g., A,C" : "e.g., A"
                 : q.questionType === "NUMERIC"
-                ? "e.g., 9.8"
+                ? "e.g., 9.8 or 9.8 m/s^2"
                 : "Sample answer (for reference)"
             }
           />
@@ -244,6 +479,125 @@ export function QuestionCard({
             </div>
           )}
         </div>
+
+        {q.questionType === "NUMERIC" && (
+          <div className="space-y-3 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+            <div>
+              <Label>Auto-grading</Label>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Answers are parsed as numbers (plain, scientific or LaTeX) and converted to the expected unit.
+                With no tolerance set, answers within {DEFAULT_RELATIVE_TOLERANCE * 100}% are accepted.
+              </p>
+              {unknownUnit && (
+                <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+                  {unknownUnit.inAnswerKey ? (
+                    <>
+                      The unit &quot;{unknownUnit.unit}&quot; in the correct answer cannot be converted to the configured
+                      unit, so its value is used unconverted. Write the correct answer in a compatible, supported unit.
+                    </>
+                  ) : (
+                    <>
+                      The unit &quot;{unknownUnit.unit}&quot; is not recognized, so answers cannot be converted: students must
+                      write it exactly as &quot;{unknownUnit.unit}&quot;. Use a supported unit (e.g. K instead of °C) to accept
+                      equivalent units.
+                    </>
+                  )}
+                </p>
+              )}
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              <div className="space-y-1.5">
+                <Label className="text-xs">Unit</Label>
+                <Input
+                  value={numeric.unit ?? ""}
+                  onChange={(e) => updateNumeric({ unit: e.target.value || null })}
+                  placeholder="e.g., m/s^2"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Absolute tolerance</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={numeric.absoluteTolerance ?? ""}
+                  onChange={(e) => updateNumeric({ absoluteTolerance: optionalNumber(e.target.value) })}
+                  placeholder="e.g., 0.05"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Relative tolerance (%)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="any"
+                  value={numeric.relativeTolerance != null ? numeric.relativeTolerance * 100 : ""}
+                  onChange={(e) => {
+                    const pct = optionalNumber(e.target.value);
+                    updateNumeric({ relativeTolerance: pct !== null ? pct / 100 : null });
+                  }}
+                  placeholder={String(DEFAULT_RELATIVE_TOLERANCE * 100)}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Significant figures</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={15}
+                  value={numeric.sigFigs ?? ""}
+                  onChange={(e) => {
+                    const n = optionalNumber(e.target.value);
+                    updateNumeric({ sigFigs: n !== null ? Math.round(n) : null });
+                  }}
+                  placeholder="Any"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Sig. fig. policy</Label>
+                <Select
+                  value={numeric.sigFigPolicy ?? "ignore"}
+                  onValueChange={(v) => updateNumeric({ sigFigPolicy: v as SigFigPolicy })}
+                  disabled={!numeric.sigFigs}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="ignore">Ignore</SelectItem>
+                    <SelectItem value="warn">Note only</SelectItem>
+                    <SelectItem value="penalize">Deduct credit</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {numeric.sigFigPolicy === "penalize" && (
+                <div className="space-y-1.5">
+                  <Label className="text-xs">Deduction (%)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={numeric.sigFigPenalty != null ? numeric.sigFigPenalty * 100 : 25}
+                    onChange={(e) => {
+                      const pct = optionalNumber(e.target.value);
+                      updateNumeric({ sigFigPenalty: pct !== null ? Math.min(100, Math.max(0, pct)) / 100 : undefined });
+                    }}
+                  />
+                </div>
+              )}
+            </div>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={numeric.requireUnit ?? false}
+                onChange={(e) => updateNumeric({ requireUnit: e.target.checked })}
+                className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-800"
+              />
+              <span className="text-sm text-gray-700 dark:text-gray-300">Require students to include a unit</span>
+            </label>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
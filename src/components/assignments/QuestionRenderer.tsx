@@ -1,16 +1,26 @@
 "use client";
 
-import React from "react";
+import React, { useState } from "react";
+import { BotMessageSquare, Dices, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { MarkdownContent } from "@/components/ui/markdown-content";
 import { ImageUpload } from "@/components/ui/image-upload";
+import { TranscriptionDialog, type TranscriptionSource } from "@/components/ui/transcription-dialog";
 import dynamic from "next/dynamic";
 
 const MermaidDiagram = dynamic(() => import("@/components/chat/MermaidDiagram"), { ssr: false });
 import { getDiagramContent } from "@/lib/diagram-utils";
+import {
+  formatChoiceLetters,
+  normalizeOptions,
+  optionLabel,
+  parseChoiceLetters,
+} from "@/lib/grading/multiple-choice";
+import { formatParameterDefinitions } from "@/lib/grading/parameters";
 import type { AssignmentQuestion } from "@/types/assignment";
 
 interface QuestionRendererProps {
@@ -22,6 +32,9 @@ interface QuestionRendererProps {
   onAnswerImagesChange: (questionId: string, images: string[]) => void;
   onUploadImage: (file: File) => Promise<string | null>;
   uploadingImage: boolean;
+  /** Open a tutor chat about this question; omitted when staff turned the tutor off */
+  onAskAI?: (questionId: string) => void;
+  askingAI?: boolean;
 }
 
 export function QuestionRenderer({
@@ -33,20 +46,51 @@ export function QuestionRenderer({
   onAnswerImagesChange,
   onUploadImage,
   uploadingImage,
+  onAskAI,
+  askingAI = false,
 }: QuestionRendererProps) {
+  const [transcribeSource, setTranscribeSource] = useState<TranscriptionSource | null>(null);
+  const isFreeResponse = question.questionType === "FREE_RESPONSE";
+
   return (
     <Card>
-      <CardHeader>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-2">
         <CardTitle className="text-base">
           Question {index + 1}{" "}
           <span className="text-neutral-400 font-normal">
             ({question.points} pts)
           </span>
         </CardTitle>
+        {onAskAI && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onAskAI(question.id)}
+            disabled={askingAI}
+            className="h-8 gap-1.5 text-xs"
+            title="Ask the AI tutor about this question"
+          >
+            {askingAI ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <BotMessageSquare className="h-3.5 w-3.5" />}
+            Ask AI
+          </Button>
+        )}
       </CardHeader>
       <CardContent className="space-y-3">
         <MarkdownContent content={question.questionText} className="text-sm" />
 
+        {/* Staff see the template; students receive their own instance from the API */}
+        {question.parameters && question.parameters.length > 0 && !question.parameterValues && (
+          <div className="flex items-start gap-2 rounded-lg border border-purple-200 dark:border-purple-900 bg-purple-50 dark:bg-purple-950/30 px-3 py-2 text-xs text-purple-700 dark:text-purple-400">
+            <Dices className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+            <span>
+              Randomized per student:{" "}
+              {formatParameterDefinitions(question.parameters).split("\n").join("; ")}
+              {question.answerFormula && <> · answer = {question.answerFormula}</>}
+            </span>
+          </div>
+        )}
+
         {(() => {
           const diag = getDiagramContent(question.diagram);
           if (!diag) return null;
@@ -74,31 +118,59 @@ export function QuestionRenderer({
           </div>
         )}
 
-        {question.questionType === "MC" && question.options && (
-          <div className="space-y-2">
-            {(question.options as string[]).map((opt, oIndex) => (
-              <label
-                key={oIndex}
-                className="flex items-center gap-3 rounded-lg border p-3 cursor-pointer hover:bg-neutral-50 transition-colors"
-              >
-                <input
-                  type="radio"
-                  name={`q-${question.id}`}
-                  value={String.fromCharCode(65 + oIndex)}
-                  checked={answer === String.fromCharCode(65 + oIndex)}
-                  onChange={(e) =>
-                    onAnswerChange(question.id, e.target.value)
-                  }
-                  className="shrink-0"
-                />
-                <MarkdownContent
-                  content={`${String.fromCharCode(65 + oIndex)}. ${opt}`}
-                  className="text-sm"
-                />
-              </label>
-            ))}
-          </div>
-        )}
+        {question.questionType === "MC" && question.options && (() => {
+          const multiSelect = question.mcConfig?.multiSelect ?? false;
+          const selected = parseChoiceLetters(answer) ?? [];
+          const toggle = (letter: string) => {
+            const next = selected.includes(letter)
+              ? selected.filter((l) => l !== letter)
+              : [...selected, letter];
+            onAnswerChange(question.id, formatChoiceLetters(next));
+          };
+          return (
+            <div className="space-y-2">
+              {multiSelect && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Select all that apply
+                </p>
+              )}
+              {normalizeOptions(question.options).map((opt, oIndex) => {
+                const letter = optionLabel(oIndex);
+                return (
+                  <label
+                    key={oIndex}
+                    className="flex items-center gap-3 rounded-lg border p-3 cursor-pointer hover:bg-neutral-50 transition-colors"
+                  >
+                    {multiSelect ? (
+                      <input
+                        type="checkbox"
+                        value={letter}
+                        checked={selected.includes(letter)}
+                        onChange={() => toggle(letter)}
+                        className="shrink-0"
+                      />
+                    ) : (
+                      <input
+                        type="radio"
+                        name={`q-${question.id}`}
+                        value={letter}
+                        checked={answer === letter}
+                        onChange={(e) =>
+                          onAnswerChange(question.id, e.target.value)
+                        }
+                        className="shrink-0"
+                      />
+                    )}
+                    <MarkdownContent
+                      content={`${letter}. ${opt.text}`}
+                      className="text-sm"
+                    />
+                  </label>
+                );
+              })}
+            </div>
+          );
+        })()}
 
         {question.questionType === "NUMERIC" && (
           <div className="space-y-2">
@@ -107,7 +179,11 @@ export function QuestionRenderer({
               type="text"
               value={answer}
               onChange={(e) => onAnswerChange(question.id, e.target.value)}
-              placeholder="Enter a numeric value"
+              placeholder={
+                question.numericConfig?.unit
+                  ? `Enter a value with units, e.g. 9.8 ${question.numericConfig.unit}`
+                  : "Enter a numeric value"
+              }
             />
           </div>
         )}
@@ -138,9 +214,23 @@ export function QuestionRenderer({
               onUpload={onUploadImage}
               uploading={uploadingImage}
               maxImages={3}
+              onTranscribe={
+                isFreeResponse ? (url) => setTranscribeSource({ preview: url, resolveUrl: async () => url }) : undefined
+              }
             />
           </div>
         )}
+
+        {isFreeResponse && (
+          <TranscriptionDialog
+            source={transcribeSource}
+            insertLabel="Insert into answer"
+            onInsert={(markdown) =>
+              onAnswerChange(question.id, answer.trim() ? `${answer.trimEnd()}\n\n${markdown}` : markdown)
+            }
+            onOpenChange={(open) => !open && setTranscribeSource(null)}
+          />
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,68 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Timer } from "lucide-react";
+import { formatCountdown } from "@/lib/grading/time-limit";
+
+interface QuizTimerProps {
+  /** When the attempt's window closes, per the server */
+  endsAt: string;
+  /** Server time minus client time in ms, so a wrong local clock does not skew the countdown */
+  clockOffsetMs: number;
+  /** Fires once when the countdown reaches zero */
+  onExpire: () => void;
+}
+
+/** Sticky countdown for a timed quiz attempt. */
+export function QuizTimer({ endsAt, clockOffsetMs, onExpire }: QuizTimerProps) {
+  const end = new Date(endsAt).getTime();
+  const remainingNow = () => end - (Date.now() + clockOffsetMs);
+  const [remaining, setRemaining] = useState(remainingNow);
+  const expiredRef = useRef(false);
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  useEffect(() => {
+    expiredRef.current = false;
+    const tick = () => {
+      const left = end - (Date.now() + clockOffsetMs);
+      setRemaining(left);
+      if (left <= 0 && !expiredRef.current) {
+        expiredRef.current = true;
+        onExpireRef.current();
+      }
+    };
+    tick();
+    const id = setInterval(tick, 1000);
+    return () => clearInterval(id);
+  }, [end, clockOffsetMs]);
+
+  const urgent = remaining <= 60_000;
+  const low = remaining <= 5 * 60_000;
+
+  return (
+    <div
+      className={`sticky top-2 z-10 flex items-center justify-between gap-3 px-4 py-3 rounded-xl border shadow-sm ${
+        urgent
+          ? "bg-red-50 dark:bg-red-950 border-red-200 dark:border-red-800"
+          : low
+            ? "bg-amber-50 dark:bg-amber-950 border-amber-200 dark:border-amber-800"
+            : "bg-white dark:bg-gray-900 border-gray-200 dark:border-gray-800"
+      }`}
+      role="timer"
+      aria-live={urgent ? "assertive" : "off"}
+    >
+      <span className="inline-flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+        <Timer className={`h-4 w-4 ${urgent ? "text-red-600 dark:text-red-400" : "text-gray-500 dark:text-gray-400"}`} />
+        {remaining > 0 ? "Time remaining" : "Time is up"}
+      </span>
+      <span
+        className={`font-mono text-lg font-semibold tabular-nums ${
+          urgent ? "text-red-600 dark:text-red-400" : low ? "text-amber-700 dark:text-amber-400" : "text-gray-900 dark:text-gray-100"
+        }`}
+      >
+        {formatCountdown(remaining)}
+      </span>
+    </div>
+  );
+}
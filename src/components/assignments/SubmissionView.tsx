@@ -13,6 +13,8 @@ import {
   ShieldAlert,
   CheckCircle2,
   XCircle,
+  Dices,
+  Timer,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -23,17 +25,34 @@ import { MarkdownContent } from "@/components/ui/markdown-content";
 import { ImageUpload } from "@/components/ui/image-upload";
 import { formatShortDate } from "@/lib/utils";
 import { isStaff } from "@/lib/constants";
+import { normalizeOptions } from "@/lib/grading/multiple-choice";
+import { describeParameterValues } from "@/lib/grading/parameters";
+import { formatRubricPoints } from "@/lib/grading/rubric";
+import { formatLateness } from "@/lib/grading/late-policy";
+import { formatOvertime } from "@/lib/grading/time-limit";
+import { ATTEMPT_SCORING_LABELS, formatAttempt, scoreAttempts, type AttemptScoring } from "@/lib/grading/attempts";
 import type { AssignmentQuestion } from "@/types/assignment";
-import type { ExistingSubmission, GradeAppealData } from "@/types/submission";
+import type { AttemptSummary, ExistingSubmission, GradeAppealData } from "@/types/submission";
+
+const SELECT_CLASS =
+  "rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1 text-xs text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500";
 
 interface SubmissionViewProps {
+  /** The attempt being shown: the latest one, or an earlier one the student picked */
   submission: ExistingSubmission;
   assignment: {
     totalPoints: number;
-    lockAfterSubmit: boolean;
+    maxAttempts: number | null;
+    attemptScoring: AttemptScoring;
     dueDate: string | null;
     questions: AssignmentQuestion[];
   };
+  /** Every final attempt, oldest first */
+  attempts: AttemptSummary[];
+  /** Id of the latest attempt, the only one a new attempt can start from */
+  latestSubmissionId: string;
+  onViewAttempt: (submissionId: string) => void;
+  loadingAttempt: boolean;
   userRole: string;
   /** Appeal state and callbacks */
   getAppealForAnswer: (answerId: string) => GradeAppealData | undefined;
@@ -86,10 +105,17 @@ export function SubmissionView({
   onSendAppealMessage,
   onEditSubmission,
   deletingSubmission,
+  attempts,
+  latestSubmissionId,
+  onViewAttempt,
+  loadingAttempt,
 }: SubmissionViewProps) {
-  const isLate =
-    assignment.dueDate &&
-    new Date(submission.submittedAt) > new Date(assignment.dueDate);
+  // Recorded at submission time against the student's own (possibly extended) due date
+  const lateMinutes = submission.lateMinutes ?? 0;
+  const latePenalty = submission.latePenalty ?? 0;
+  const isLatest = submission.id === latestSubmissionId;
+  const attemptsLeft = assignment.maxAttempts === null || attempts.length < assignment.maxAttempts;
+  const combined = scoreAttempts(assignment.attemptScoring, attempts);
 
   return (
     <Card className="border-emerald-200 dark:border-emerald-800">
@@ -100,14 +126,43 @@ export function SubmissionView({
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-3">
+        {attempts.length > 1 && (
+          <div className="flex items-center gap-3 flex-wrap">
+            <select
+              value={submission.id}
+              onChange={(e) => onViewAttempt(e.target.value)}
+              className={SELECT_CLASS}
+              aria-label="Attempt"
+            >
+              {attempts.map((a) => (
+                <option key={a.id} value={a.id}>
+                  {formatAttempt(a.attempt, assignment.maxAttempts)}
+                  {a.totalScore !== null && a.gradedAt ? ` · ${a.totalScore}/${assignment.totalPoints}` : ""}
+                </option>
+              ))}
+            </select>
+            {loadingAttempt && <Loader2 className="h-3.5 w-3.5 animate-spin text-gray-400" />}
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {ATTEMPT_SCORING_LABELS[assignment.attemptScoring]} counts
+              {combined.score !== null && `: ${combined.score} / ${assignment.totalPoints}`}
+            </span>
+          </div>
+        )}
         <div className="flex items-center gap-3 flex-wrap">
           <span className="text-sm text-gray-600 dark:text-gray-400">
             Submitted: {formatShortDate(submission.submittedAt)}
           </span>
-          {isLate && (
+          {lateMinutes > 0 && (
             <Badge className="bg-red-100 text-red-700 border-red-200 dark:bg-red-950 dark:text-red-400 dark:border-red-800 gap-1">
               <AlertTriangle className="h-3 w-3" />
-              Late Submission
+              Late Submission &middot; {formatLateness(lateMinutes)}
+              {latePenalty > 0 && ` · −${latePenalty}%`}
+            </Badge>
+          )}
+          {!!submission.overtimeSeconds && (
+            <Badge className="bg-red-100 text-red-700 border-red-200 dark:bg-red-950 dark:text-red-400 dark:border-red-800 gap-1">
+              <Timer className="h-3 w-3" />
+              Past time limit &middot; {formatOvertime(submission.overtimeSeconds)}
             </Badge>
           )}
           {submission.totalScore !== null ? (
@@ -131,15 +186,13 @@ export function SubmissionView({
             Download your submission
           </a>
         )}
-        {assignment.lockAfterSubmit ||
-        submission.totalScore !== null ||
-        submission.answers?.some((a) => a.score !== null) ? (
+        {!isLatest ? null : !attemptsLeft ? (
           <div className="flex items-center gap-2 pt-2 px-3 py-2 bg-amber-50 dark:bg-amber-950 border border-amber-200 dark:border-amber-800 rounded-lg">
             <AlertTriangle className="h-4 w-4 text-amber-600 dark:text-amber-400 shrink-0" />
             <p className="text-xs text-amber-700 dark:text-amber-300">
-              {assignment.lockAfterSubmit
+              {assignment.maxAttempts === 1
                 ? "This assignment is locked. You cannot edit or resubmit."
-                : "This submission has been graded. You cannot edit or resubmit."}
+                : `You have used all ${assignment.maxAttempts} attempts.`}
             </p>
           </div>
         ) : (
@@ -156,8 +209,13 @@ export function SubmissionView({
               ) : (
                 <Pencil className="h-3.5 w-3.5" />
               )}
-              Edit & Resubmit
+              New Attempt
             </Button>
+            {assignment.maxAttempts !== null && (
+              <span className="self-center text-xs text-gray-500 dark:text-gray-400">
+                {assignment.maxAttempts - attempts.length} of {assignment.maxAttempts} attempts left
+              </span>
+            )}
           </div>
         )}
 
@@ -239,11 +297,80 @@ export function SubmissionView({
                         </span>
                       </div>
                     </div>
+                    {ans.parameterValues && (
+                      <p className="flex items-center gap-1.5 text-xs text-purple-700 dark:text-purple-400">
+                        <Dices className="h-3.5 w-3.5 shrink-0" />
+                        Your values: {describeParameterValues(ans.parameterValues)}
+                      </p>
+                    )}
                     {ans.answer && (
                       <p className="text-xs text-gray-500 dark:text-gray-400">
                         Your answer: {ans.answer}
                       </p>
                     )}
+                    {ans.autoGradeDetail?.kind === "numeric" && (
+                      <p
+                        className={`text-xs ${
+                          ans.autoGradeDetail.correct
+                            ? "text-emerald-600 dark:text-emerald-400"
+                            : "text-red-600 dark:text-red-400"
+                        }`}
+                      >
+                        {ans.autoGradeDetail.reason}
+                      </p>
+                    )}
+                    {ans.autoGradeDetail?.kind === "choice" && (() => {
+                      const optionTexts = normalizeOptions(question?.options);
+                      const rows = ans.autoGradeDetail.options.filter(
+                        (o) => o.selected || o.correct
+                      );
+                      if (rows.length === 0) return null;
+                      return (
+                        <div className="space-y-1.5">
+                          {rows.map((o) => (
+                            <div
+                              key={o.label}
+                              className={`rounded-lg border px-3 py-2 text-sm ${
+                                o.selected && o.correct
+                                  ? "bg-emerald-50 dark:bg-emerald-950/30 border-emerald-200 dark:border-emerald-900"
+                                  : o.selected
+                                    ? "bg-red-50 dark:bg-red-950/30 border-red-200 dark:border-red-900"
+                                    : "bg-gray-50 dark:bg-gray-800 border-gray-200 dark:border-gray-700"
+                              }`}
+                            >
+                              <div className="flex items-start gap-2">
+                                {o.selected && o.correct ? (
+                                  <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0 text-emerald-600 dark:text-emerald-400" />
+                                ) : o.selected ? (
+                                  <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-600 dark:text-red-400" />
+                                ) : (
+                                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-amber-500" />
+                                )}
+                                <div className="min-w-0 space-y-0.5">
+                                  <MarkdownContent
+                                    content={`${o.label}. ${optionTexts[o.label.charCodeAt(0) - 65]?.text ?? ""}`}
+                                    className="text-sm text-gray-800 dark:text-gray-200"
+                                  />
+                                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                                    {o.selected && o.correct
+                                      ? "You selected this correct option"
+                                      : o.selected
+                                        ? "You selected this, but it is incorrect"
+                                        : "Correct option you did not select"}
+                                  </p>
+                                  {o.feedback && (
+                                    <MarkdownContent
+                                      content={o.feedback}
+                                      className="text-xs text-gray-600 dark:text-gray-300"
+                                    />
+                                  )}
+                                </div>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      );
+                    })()}
                     {ans.answerImageUrls &&
                       ans.answerImageUrls.length > 0 && (
                         <div className="flex gap-2 mt-1 flex-wrap">
@@ -263,6 +390,30 @@ export function SubmissionView({
                           ))}
                         </div>
                       )}
+                    {ans.rubricApplications && ans.rubricApplications.length > 0 && (
+                      <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-3 space-y-1.5">
+                        <p className="text-xs font-medium text-gray-600 dark:text-gray-400">
+                          Rubric
+                        </p>
+                        {ans.rubricApplications.map(({ rubric }) => (
+                          <div key={rubric.id} className="flex items-start gap-2 text-sm">
+                            <span
+                              className={`shrink-0 min-w-[2.5rem] text-center text-xs font-semibold rounded px-1 py-0.5 ${
+                                rubric.points < 0
+                                  ? "bg-red-100 dark:bg-red-950 text-red-700 dark:text-red-400"
+                                  : "bg-emerald-100 dark:bg-emerald-950 text-emerald-700 dark:text-emerald-400"
+                              }`}
+                            >
+                              {formatRubricPoints(rubric.points)}
+                            </span>
+                            <MarkdownContent
+                              content={rubric.description}
+                              className="flex-1 min-w-0 text-gray-700 dark:text-gray-300"
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    )}
                     {ans.feedback && (
                       <div className="bg-blue-50 dark:bg-blue-950 border border-blue-200 dark:border-blue-800 rounded-lg p-3 overflow-hidden">
                         <p className="text-xs font-medium text-blue-700 dark:text-blue-400 mb-1">
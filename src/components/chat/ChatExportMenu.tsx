@@ -0,0 +1,100 @@
+"use client";
+
+import React, { useState } from "react";
+import { Download, FileCode2, FileText, Loader2, Printer } from "lucide-react";
+import { toast } from "sonner";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+import type { ChatExportFormat } from "@/lib/chat-export";
+
+/** The file name from a `Content-Disposition` header, preferring the UTF-8 one */
+function downloadName(header: string | null, fallback: string): string {
+  const encoded = header?.match(/filename\*=UTF-8''([^;]+)/)?.[1];
+  if (encoded) return decodeURIComponent(encoded);
+  return header?.match(/filename="([^"]+)"/)?.[1] ?? fallback;
+}
+
+interface ChatExportMenuProps {
+  /** `/api/conversations/<id>/export`, or `/api/conversations/export` for the whole history */
+  endpoint: string;
+  label: string;
+  /** Shows the label next to the icon instead of only as a tooltip */
+  showLabel?: boolean;
+  className?: string;
+}
+
+export function ChatExportMenu({ endpoint, label, showLabel = false, className }: ChatExportMenuProps) {
+  const [exporting, setExporting] = useState<ChatExportFormat | null>(null);
+
+  const handleExport = async (format: ChatExportFormat) => {
+    if (format === "pdf") {
+      window.open(`${endpoint}?format=pdf`, "_blank");
+      return;
+    }
+    setExporting(format);
+    try {
+      const res = await fetch(`${endpoint}?format=${format}`);
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Export failed");
+      }
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = downloadName(res.headers.get("Content-Disposition"), format === "markdown" ? "conversation.md" : "conversation_latex.zip");
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error(err);
+      toast.error(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const itemClass = "cursor-pointer rounded-md px-3 py-2 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100";
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          onClick={(e) => e.stopPropagation()}
+          disabled={exporting !== null}
+          title={label}
+          aria-label={label}
+          className={cn(
+            "shrink-0 inline-flex items-center gap-1.5 p-1 rounded-md text-gray-400 dark:text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-700 dark:hover:text-gray-300 transition-all disabled:opacity-50",
+            className
+          )}
+        >
+          {exporting ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Download className="h-3.5 w-3.5" />}
+          {showLabel && <span className="text-xs">{label}</span>}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-48 rounded-lg p-1.5" align="end" onClick={(e) => e.stopPropagation()}>
+        <DropdownMenuLabel className="px-3 py-1.5 text-xs font-medium text-gray-500 dark:text-gray-400">{label}</DropdownMenuLabel>
+        <DropdownMenuItem className={itemClass} onSelect={() => handleExport("pdf")}>
+          <Printer className="mr-2.5 h-4 w-4" />
+          PDF
+        </DropdownMenuItem>
+        <DropdownMenuItem className={itemClass} onSelect={() => handleExport("markdown")}>
+          <FileText className="mr-2.5 h-4 w-4" />
+          Markdown
+        </DropdownMenuItem>
+        <DropdownMenuItem className={itemClass} onSelect={() => handleExport("latex")}>
+          <FileCode2 className="mr-2.5 h-4 w-4" />
+          LaTeX (.zip)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
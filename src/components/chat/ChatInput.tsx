@@ -1,8 +1,10 @@
 "use client";
 
 import React, { useRef, useCallback } from "react";
-import { Send, ImageIcon, X } from "lucide-react";
+import { Send, ImageIcon, X, Square, ScanText } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { formatQuotaAmount } from "@/lib/quota";
+import type { ChatQuota } from "./types";
 
 const MAX_IMAGES = 5;
 const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
@@ -17,8 +19,35 @@ interface ChatInputProps {
   onImageSelect: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onRemoveImage: (index: number) => void;
   onClearImageError: () => void;
+  /** Review an attached photo as editable text; omitted hides the button */
+  onTranscribeImage?: (index: number) => void;
   onSubmit: (e: React.FormEvent) => void;
   onKeyDown: (e: React.KeyboardEvent<HTMLTextAreaElement>) => void;
+  /** Today's chat allowance; omitted or unlimited hides the counter */
+  quota?: ChatQuota | null;
+  /** Stops the reply being generated; while set the send button becomes a stop button */
+  onStop?: () => void;
+}
+
+function QuotaNote({ quota }: { quota: ChatQuota }) {
+  if (quota.limit === null || quota.remaining === null) return null;
+  const resets = new Date(quota.resetsAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+  const low = quota.remaining < quota.limit * 0.1;
+  return (
+    <span
+      className={cn(
+        quota.allowed ? (low ? "text-amber-600 dark:text-amber-400" : "") : "text-red-600 dark:text-red-400 font-medium"
+      )}
+    >
+      {quota.allowed
+        ? `${formatQuotaAmount(quota.remaining, quota.unit)} of ${formatQuotaAmount(quota.limit, quota.unit)} left today`
+        : quota.examWindow
+          ? `AI chat allowance used up for ${quota.examWindow.label || "the exam"}`
+          : `Daily AI chat allowance used up · resets at ${resets}`}
+      {quota.allowed && quota.examWindow && ` · ${quota.examWindow.label || "Exam"} limit`}
+      {quota.allowed && quota.throttled && " · reduced while AI budget is tight"}
+    </span>
+  );
 }
 
 export function ChatInput({
@@ -31,8 +60,11 @@ export function ChatInput({
   onImageSelect,
   onRemoveImage,
   onClearImageError,
+  onTranscribeImage,
   onSubmit,
   onKeyDown,
+  quota,
+  onStop,
 }: ChatInputProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -45,6 +77,9 @@ export function ChatInput({
     }
   }, []);
 
+  const exhausted = !!quota && !quota.allowed;
+  const sendDisabled = loading || exhausted || (!input.trim() && !imageFiles.length);
+
   return (
     <>
       {imageError && (
@@ -77,6 +112,17 @@ export function ChatInput({
                 >
                   <X className="h-3 w-3" />
                 </button>
+                {onTranscribeImage && (
+                  <button
+                    type="button"
+                    onClick={() => onTranscribeImage(idx)}
+                    className="absolute bottom-1 left-1 flex items-center gap-1 rounded-md bg-gray-900/80 hover:bg-gray-900 px-1.5 py-0.5 text-[10px] text-white transition-colors"
+                    title="Transcribe to editable text"
+                  >
+                    <ScanText className="h-3 w-3" />
+                    Text
+                  </button>
+                )}
               </div>
             ))}
             <span className="self-end text-xs text-gray-400 dark:text-gray-500 pb-1">
@@ -121,21 +167,39 @@ export function ChatInput({
               className="flex-1 resize-none bg-transparent text-sm text-gray-900 dark:text-gray-100 placeholder:text-gray-400 focus:outline-none py-2 px-1 max-h-32 leading-relaxed disabled:opacity-50"
               style={{ minHeight: "36px" }}
             />
-            <button
-              type="submit"
-              disabled={loading || (!input.trim() && !imageFiles.length)}
-              className={cn(
-                "flex h-9 w-9 shrink-0 items-center justify-center rounded-lg transition-all",
-                loading || (!input.trim() && !imageFiles.length)
-                  ? "bg-gray-50 dark:bg-gray-800 text-gray-300 dark:text-gray-600 cursor-not-allowed"
-                  : "bg-gray-900 dark:bg-gray-100 hover:bg-gray-800 dark:hover:bg-gray-200 text-white dark:text-gray-900"
-              )}
-            >
-              <Send className="h-4 w-4" />
-            </button>
+            {onStop ? (
+              <button
+                type="button"
+                onClick={onStop}
+                className="flex h-9 w-9 shrink-0 items-center justify-center rounded-lg transition-all bg-gray-900 dark:bg-gray-100 hover:bg-gray-800 dark:hover:bg-gray-200 text-white dark:text-gray-900"
+                aria-label="Stop generating"
+                title="Stop generating"
+              >
+                <Square className="h-3.5 w-3.5 fill-current" />
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={sendDisabled}
+                className={cn(
+                  "flex h-9 w-9 shrink-0 items-center justify-center rounded-lg transition-all",
+                  sendDisabled
+                    ? "bg-gray-50 dark:bg-gray-800 text-gray-300 dark:text-gray-600 cursor-not-allowed"
+                    : "bg-gray-900 dark:bg-gray-100 hover:bg-gray-800 dark:hover:bg-gray-200 text-white dark:text-gray-900"
+                )}
+              >
+                <Send className="h-4 w-4" />
+              </button>
+            )}
           </div>
           <p className="text-center text-xs text-gray-400 dark:text-gray-500 mt-2">
             Press Enter to send, Shift+Enter for new line
+            {quota && quota.limit !== null && (
+              <>
+                {" · "}
+                <QuotaNote quota={quota} />
+              </>
+            )}
           </p>
         </form>
       </div>
@@ -1,6 +1,6 @@
 "use client";
 
-import React from "react";
+import React, { useEffect, useState } from "react";
 import {
   Atom,
   Sparkles,
@@ -12,10 +12,23 @@ import {
   ImageIcon,
   Check,
   Copy,
+  BookOpen,
+  Pencil,
+  RotateCcw,
+  ChevronLeft,
+  ChevronRight,
+  Pin,
+  Globe,
+  GraduationCap,
+  Share2,
 } from "lucide-react";
 import { MarkdownContent } from "@/components/ui/markdown-content";
 import { cn } from "@/lib/utils";
-import type { Message } from "./types";
+import { citedIn, formatCitation, linkCitations } from "@/lib/knowledge/citations";
+import { hallidaySectionTitle } from "@/lib/knowledge/chunking";
+import { QuestionContextCard } from "./QuestionContextCard";
+import { ToolCallCard } from "./ToolCallCard";
+import type { ChatQuestion, Message } from "./types";
 
 const SUGGESTED_TOPICS = [
   { icon: Zap, label: "Explain Newton's Laws" },
@@ -31,6 +44,154 @@ interface ChatMessageListProps {
   messagesEndRef: React.RefObject<HTMLDivElement>;
   onSuggestedTopic: (topic: string) => void;
   onCopyMessage: (messageId: string, content: string) => void;
+  /** Set for conversations opened with "Ask AI" from an assignment */
+  question?: ChatQuestion | null;
+  /** Branching actions; omitted while a reply is streaming */
+  onEditMessage?: (messageId: string, content: string) => void;
+  onRegenerate?: (messageId: string) => void;
+  onSwitchBranch?: (messageId: string) => void;
+  /** Pinned messages stay in the tutor's context however long the conversation gets */
+  onTogglePin?: (messageId: string, pinned: boolean) => void;
+  /** Share a snapshot of the conversation up to this reply */
+  onShare?: (messageId: string) => void;
+  /** Share view: the last message of the student's snapshot; what follows came after they shared */
+  snapshotEndId?: string | null;
+  /** Scrolled into view and outlined, e.g. a search hit */
+  highlightedMessageId?: string | null;
+}
+
+const STAFF_TITLES: Record<string, string> = {
+  TA: "Teaching assistant",
+  PROFESSOR: "Instructor",
+  ADMIN: "Course staff",
+};
+
+/** "‹ 2 / 3 ›" between the alternatives an edit or regeneration left at this point */
+function BranchSwitcher({ msg, onSwitch }: { msg: Message; onSwitch?: (messageId: string) => void }) {
+  const siblings = msg.siblingIds;
+  if (!siblings || siblings.length < 2) return null;
+  const index = siblings.indexOf(msg.id);
+  const button = "p-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-30 disabled:hover:bg-transparent";
+  return (
+    <div className="flex items-center gap-0.5 text-xs text-gray-400 dark:text-gray-500 tabular-nums select-none">
+      <button
+        className={button}
+        disabled={!onSwitch || index <= 0}
+        onClick={() => onSwitch?.(siblings[index - 1])}
+        aria-label="Previous version"
+      >
+        <ChevronLeft className="h-3.5 w-3.5" />
+      </button>
+      {index + 1} / {siblings.length}
+      <button
+        className={button}
+        disabled={!onSwitch || index >= siblings.length - 1}
+        onClick={() => onSwitch?.(siblings[index + 1])}
+        aria-label="Next version"
+      >
+        <ChevronRight className="h-3.5 w-3.5" />
+      </button>
+    </div>
+  );
+}
+
+function PinButton({ msg, onToggle, className }: {
+  msg: Message;
+  onToggle?: (messageId: string, pinned: boolean) => void;
+  className?: string;
+}) {
+  if (!onToggle && !msg.pinned) return null;
+  return (
+    <button
+      onClick={() => onToggle?.(msg.id, !msg.pinned)}
+      disabled={!onToggle}
+      className={cn(
+        "p-1.5 rounded-md transition-all",
+        msg.pinned
+          ? "opacity-100 text-amber-500 hover:bg-amber-50 dark:hover:bg-amber-950/40"
+          : "opacity-0 group-hover:opacity-100 hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300",
+        className
+      )}
+      title={msg.pinned ? "Unpin: may be summarized in long conversations" : "Pin: always keep in the tutor's context"}
+      aria-pressed={!!msg.pinned}
+    >
+      <Pin className={cn("h-3.5 w-3.5", msg.pinned && "fill-current")} />
+    </button>
+  );
+}
+
+function SourceList({ content, citations }: { content: string; citations: NonNullable<Message["citations"]> }) {
+  const used = citedIn(content, citations);
+  if (used.length === 0) return null;
+  return (
+    <div className="mt-2 pt-2 border-t border-gray-100 dark:border-gray-800 space-y-1">
+      <p className="flex items-center gap-1.5 text-[11px] font-medium text-gray-500 dark:text-gray-400">
+        <BookOpen className="h-3 w-3" />
+        Course materials
+      </p>
+      <ol className="space-y-0.5">
+        {used.map((c) => {
+          const label = formatCitation(c);
+          const section = c.section ? `Halliday ${c.section} ${hallidaySectionTitle(c.section) ?? ""}`.trim() : null;
+          return (
+            <li key={c.n} className="text-xs text-gray-500 dark:text-gray-400">
+              <span className="font-medium text-gray-700 dark:text-gray-300">[{c.n}]</span>{" "}
+              {c.url ? (
+                <a
+                  href={c.page ? `${c.url}#page=${c.page}` : c.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-indigo-600 dark:text-indigo-400 hover:underline"
+                >
+                  {label}
+                </a>
+              ) : (
+                label
+              )}
+              {c.heading && <span> · {c.heading}</span>}
+              {section && <span> · {section}</span>}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
+
+/** Web pages the reply cited, from the tutor's web search */
+function WebSourceList({ sources }: { sources: NonNullable<Message["sources"]> }) {
+  if (sources.length === 0) return null;
+  return (
+    <div className="mt-2 pt-2 border-t border-gray-100 dark:border-gray-800 space-y-1">
+      <p className="flex items-center gap-1.5 text-[11px] font-medium text-gray-500 dark:text-gray-400">
+        <Globe className="h-3 w-3" />
+        Sources
+      </p>
+      <ol className="space-y-0.5 list-decimal list-inside">
+        {sources.map((source) => (
+          <li key={source.url} className="text-xs text-gray-500 dark:text-gray-400 truncate">
+            <a
+              href={source.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-indigo-600 dark:text-indigo-400 hover:underline"
+            >
+              {source.title}
+            </a>
+            <span> · {hostname(source.url)}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+function hostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
 }
 
 export function ChatMessageList({
@@ -40,11 +201,36 @@ export function ChatMessageList({
   messagesEndRef,
   onSuggestedTopic,
   onCopyMessage,
+  question,
+  onEditMessage,
+  onRegenerate,
+  onSwitchBranch,
+  onTogglePin,
+  onShare,
+  snapshotEndId,
+  highlightedMessageId,
 }: ChatMessageListProps) {
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ block: "center" });
+  }, [highlightedMessageId, messages]);
+
+  const saveEdit = () => {
+    if (!editing || !editing.text.trim() || !onEditMessage) return;
+    onEditMessage(editing.id, editing.text);
+    setEditing(null);
+  };
+
   return (
     <div ref={scrollContainerRef} className="flex-1 min-h-0 overflow-y-auto">
       <div className="max-w-3xl mx-auto px-4 py-6">
-        {messages.length === 0 && (
+        {question && (
+          <QuestionContextCard key={question.context.questionId} question={question} defaultOpen={messages.length === 0} />
+        )}
+
+        {messages.length === 0 && !question && (
           <div className="flex flex-col items-center justify-center py-20 px-4">
             <div className="h-16 w-16 rounded-2xl bg-gray-50 dark:bg-gray-800 border border-gray-100 dark:border-gray-800 flex items-center justify-center mb-6">
               <Atom className="h-8 w-8 text-gray-400 dark:text-gray-500" />
@@ -83,149 +269,254 @@ export function ChatMessageList({
 
         <div className="space-y-5">
           {messages.map((msg) => (
-            <div
-              key={msg.id}
-              className={cn(
-                "flex gap-3 group",
-                msg.role === "user" ? "justify-end" : "justify-start"
-              )}
-            >
-              {msg.role === "assistant" && (
-                <div className="flex h-7 w-7 shrink-0 items-center justify-center rounded-full bg-gray-100 dark:bg-gray-800 self-start">
-                  <Bot className="h-3.5 w-3.5 text-gray-500 dark:text-gray-400" />
-                </div>
-              )}
+            <React.Fragment key={msg.id}>
+              <div
+                id={`message-${msg.id}`}
+                className={cn(
+                  "flex gap-3 group rounded-xl transition-shadow duration-500",
+                  msg.role === "user" ? "justify-end" : "justify-start",
+                  highlightedMessageId === msg.id && "ring-2 ring-amber-300 dark:ring-amber-700 ring-offset-4 ring-offset-white dark:ring-offset-gray-950"
+                )}
+              >
+                {msg.role === "assistant" && (msg.author ? (
+                  <div className="flex h-7 w-7 shrink-0 items-center justify-center rounded-full bg-emerald-100 dark:bg-emerald-900/50 self-start">
+                    <GraduationCap className="h-3.5 w-3.5 text-emerald-700 dark:text-emerald-400" />
+                  </div>
+                ) : (
+                  <div className="flex h-7 w-7 shrink-0 items-center justify-center rounded-full bg-gray-100 dark:bg-gray-800 self-start">
+                    <Bot className="h-3.5 w-3.5 text-gray-500 dark:text-gray-400" />
+                  </div>
+                ))}
 
-              {msg.role === "user" ? (
-                <div className="flex items-start gap-2 max-w-[75%]">
-                  <button
-                    onClick={() => onCopyMessage(msg.id, msg.content)}
-                    className={cn(
-                      "transition-all mt-2 p-1.5 rounded-md",
-                      copiedMessageId === msg.id
-                        ? "opacity-100 bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400"
-                        : "opacity-0 group-hover:opacity-100 hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300"
-                    )}
-                    title="Copy message"
-                  >
-                    {copiedMessageId === msg.id ? (
-                      <Check className="h-3.5 w-3.5" />
-                    ) : (
-                      <Copy className="h-3.5 w-3.5" />
-                    )}
-                  </button>
-
-                  <div className="bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100 rounded-2xl rounded-br-md px-4 py-3 text-sm leading-relaxed">
-                    {msg.imageUrls && msg.imageUrls.length > 0 && (
-                      <div className={cn(
-                        "mb-3 gap-2",
-                        msg.imageUrls.length === 1 ? "flex" : "grid grid-cols-2"
-                      )}>
-                        {msg.imageUrls.map((url, idx) => (
-                          <img
-                            key={idx}
-                            src={url}
-                            alt={`Uploaded ${idx + 1}`}
-                            className="max-w-full rounded-lg max-h-60 object-contain"
-                          />
-                        ))}
-                      </div>
-                    )}
-                    <div className="prose-sm overflow-x-auto">
-                      <MarkdownContent content={msg.content} />
+                {msg.role === "user" && editing?.id === msg.id ? (
+                  <div className="flex-1 max-w-[75%] space-y-2">
+                    <textarea
+                      value={editing.text}
+                      onChange={(e) => setEditing({ id: msg.id, text: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter" && !e.shiftKey) {
+                          e.preventDefault();
+                          saveEdit();
+                        } else if (e.key === "Escape") {
+                          setEditing(null);
+                        }
+                      }}
+                      rows={Math.min(10, Math.max(2, editing.text.split("\n").length))}
+                      className="w-full resize-none rounded-2xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 px-4 py-3 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-gray-300 dark:focus:ring-gray-600"
+                      autoFocus
+                    />
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => setEditing(null)}
+                        className="px-3 py-1.5 rounded-lg text-xs text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={saveEdit}
+                        disabled={!editing.text.trim() || !onEditMessage}
+                        className="px-3 py-1.5 rounded-lg text-xs font-medium bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900 hover:bg-gray-700 dark:hover:bg-gray-300 disabled:opacity-40"
+                      >
+                        Send
+                      </button>
                     </div>
                   </div>
-                </div>
-              ) : (
-                <div className="flex-1 min-w-0">
-                  <div className="text-sm leading-relaxed text-gray-900 dark:text-gray-100 py-1">
-                    {msg.imageUrls && msg.imageUrls.length > 0 && (
-                      <div className={cn(
-                        "mb-3 gap-2",
-                        msg.imageUrls.length === 1 ? "flex" : "grid grid-cols-2"
-                      )}>
-                        {msg.imageUrls.map((url, idx) => (
-                          <img
-                            key={idx}
-                            src={url}
-                            alt={`Uploaded ${idx + 1}`}
-                            className="max-w-full rounded-lg max-h-60 object-contain"
-                          />
-                        ))}
-                      </div>
-                    )}
-                    {msg.thinking && (
-                      <details className="mb-2 group/thinking">
-                        <summary className="flex items-center gap-1.5 cursor-pointer text-xs text-purple-600 dark:text-purple-400 hover:text-purple-700 dark:hover:text-purple-300 select-none">
-                          <Sparkles className="h-3 w-3" />
-                          <span className="font-medium">Thinking</span>
-                          <svg className="h-3 w-3 transition-transform group-open/thinking:rotate-180" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
-                        </summary>
-                        <div className="mt-1.5 pl-4 border-l-2 border-purple-200 dark:border-purple-800 text-xs text-gray-500 dark:text-gray-400 leading-relaxed whitespace-pre-wrap">
-                          {msg.thinking}
-                        </div>
-                      </details>
+                ) : msg.role === "user" ? (
+                  <div className="flex items-start gap-2 max-w-[75%]">
+                    {onEditMessage && (
+                      <button
+                        onClick={() => setEditing({ id: msg.id, text: msg.content })}
+                        className="opacity-0 group-hover:opacity-100 transition-all mt-2 p-1.5 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300"
+                        title="Edit message"
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </button>
                     )}
-                    {!msg.content ? (
-                      <div className="flex items-center gap-1.5 py-1">
-                        {msg.thinking ? (
-                          <span className="text-xs text-purple-500 dark:text-purple-400 animate-pulse flex items-center gap-1.5">
-                            <Sparkles className="h-3 w-3" />
-                            Thinking...
-                          </span>
-                        ) : (
-                          <>
-                            <span className="h-1.5 w-1.5 rounded-full bg-gray-400 animate-bounce" style={{ animationDelay: "0ms" }} />
-                            <span className="h-1.5 w-1.5 rounded-full bg-gray-400 animate-bounce" style={{ animationDelay: "150ms" }} />
-                            <span className="h-1.5 w-1.5 rounded-full bg-gray-400 animate-bounce" style={{ animationDelay: "300ms" }} />
-                          </>
+                    <button
+                      onClick={() => onCopyMessage(msg.id, msg.content)}
+                      className={cn(
+                        "transition-all mt-2 p-1.5 rounded-md",
+                        copiedMessageId === msg.id
+                          ? "opacity-100 bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400"
+                          : "opacity-0 group-hover:opacity-100 hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300"
+                      )}
+                      title="Copy message"
+                    >
+                      {copiedMessageId === msg.id ? (
+                        <Check className="h-3.5 w-3.5" />
+                      ) : (
+                        <Copy className="h-3.5 w-3.5" />
+                      )}
+                    </button>
+                    <PinButton msg={msg} onToggle={onTogglePin} className="mt-2" />
+
+                    <div className="flex flex-col items-end gap-1 min-w-0">
+                      <div className="bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100 rounded-2xl rounded-br-md px-4 py-3 text-sm leading-relaxed">
+                        {msg.imageUrls && msg.imageUrls.length > 0 && (
+                          <div className={cn(
+                            "mb-3 gap-2",
+                            msg.imageUrls.length === 1 ? "flex" : "grid grid-cols-2"
+                          )}>
+                            {msg.imageUrls.map((url, idx) => (
+                              <img
+                                key={idx}
+                                src={url}
+                                alt={`Uploaded ${idx + 1}`}
+                                className="max-w-full rounded-lg max-h-60 object-contain"
+                              />
+                            ))}
+                          </div>
                         )}
+                        <div className="prose-sm overflow-x-auto">
+                          <MarkdownContent content={msg.content} />
+                        </div>
                       </div>
-                    ) : (
-                      <div className="prose-sm overflow-x-auto">
-                        <MarkdownContent content={msg.content} />
-                      </div>
-                    )}
+                      <BranchSwitcher msg={msg} onSwitch={onSwitchBranch} />
+                    </div>
                   </div>
-
-                  {msg.content && (
+                ) : (
+                  <div className="flex-1 min-w-0">
                     <div className={cn(
-                      "flex items-center gap-2 mt-1 transition-opacity",
-                      copiedMessageId === msg.id ? "opacity-100" : "opacity-0 group-hover:opacity-100"
+                      "text-sm leading-relaxed text-gray-900 dark:text-gray-100",
+                      msg.author
+                        ? "rounded-2xl rounded-tl-md border border-emerald-200 dark:border-emerald-900 bg-emerald-50/60 dark:bg-emerald-950/30 px-4 py-3"
+                        : "py-1"
                     )}>
-                      <button
-                        onClick={() => onCopyMessage(msg.id, msg.content)}
-                        className={cn(
-                          "flex items-center gap-1.5 px-2 py-1 rounded-md text-xs transition-all",
-                          copiedMessageId === msg.id
-                            ? "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400"
-                            : "hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300"
-                        )}
-                        title="Copy message"
-                      >
-                        {copiedMessageId === msg.id ? (
-                          <>
-                            <Check className="h-3 w-3" />
-                            <span>Copied</span>
-                          </>
-                        ) : (
-                          <>
-                            <Copy className="h-3 w-3" />
-                            <span>Copy</span>
-                          </>
-                        )}
-                      </button>
+                      {msg.author && (
+                        <p className="mb-1.5 flex items-center gap-1.5 text-[11px] font-medium text-emerald-700 dark:text-emerald-400">
+                          {msg.author.name}
+                          <span className="rounded-full bg-emerald-100 dark:bg-emerald-900/60 px-1.5 py-px">
+                            {STAFF_TITLES[msg.author.role] ?? "Course staff"}
+                          </span>
+                        </p>
+                      )}
+                      {msg.imageUrls && msg.imageUrls.length > 0 && (
+                        <div className={cn(
+                          "mb-3 gap-2",
+                          msg.imageUrls.length === 1 ? "flex" : "grid grid-cols-2"
+                        )}>
+                          {msg.imageUrls.map((url, idx) => (
+                            <img
+                              key={idx}
+                              src={url}
+                              alt={`Uploaded ${idx + 1}`}
+                              className="max-w-full rounded-lg max-h-60 object-contain"
+                            />
+                          ))}
+                        </div>
+                      )}
+                      {msg.thinking && (
+                        <details className="mb-2 group/thinking">
+                          <summary className="flex items-center gap-1.5 cursor-pointer text-xs text-purple-600 dark:text-purple-400 hover:text-purple-700 dark:hover:text-purple-300 select-none">
+                            <Sparkles className="h-3 w-3" />
+                            <span className="font-medium">Reasoning</span>
+                            <svg className="h-3 w-3 transition-transform group-open/thinking:rotate-180" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
+                          </summary>
+                          <div className="mt-1.5 pl-4 border-l-2 border-purple-200 dark:border-purple-800 text-xs text-gray-500 dark:text-gray-400 leading-relaxed whitespace-pre-wrap">
+                            {msg.thinking}
+                          </div>
+                        </details>
+                      )}
+                      {msg.toolCalls?.map((call) => <ToolCallCard key={call.id} call={call} />)}
+                      {!msg.content && msg.status !== "interrupted" ? (
+                        <div className="flex items-center gap-1.5 py-1">
+                          {msg.thinking ? (
+                            <span className="text-xs text-purple-500 dark:text-purple-400 animate-pulse flex items-center gap-1.5">
+                              <Sparkles className="h-3 w-3" />
+                              Thinking...
+                            </span>
+                          ) : (
+                            <>
+                              <span className="h-1.5 w-1.5 rounded-full bg-gray-400 animate-bounce" style={{ animationDelay: "0ms" }} />
+                              <span className="h-1.5 w-1.5 rounded-full bg-gray-400 animate-bounce" style={{ animationDelay: "150ms" }} />
+                              <span className="h-1.5 w-1.5 rounded-full bg-gray-400 animate-bounce" style={{ animationDelay: "300ms" }} />
+                            </>
+                          )}
+                        </div>
+                      ) : (
+                        <div className="prose-sm overflow-x-auto">
+                          <MarkdownContent content={linkCitations(msg.content, msg.citations)} />
+                        </div>
+                      )}
+                      {msg.content && msg.citations && <SourceList content={msg.content} citations={msg.citations} />}
+                      {msg.content && msg.sources && <WebSourceList sources={msg.sources} />}
+                      {msg.status === "interrupted" && (
+                        <p className="mt-1 text-xs italic text-gray-400 dark:text-gray-500">
+                          Response stopped before it finished.
+                        </p>
+                      )}
                     </div>
-                  )}
-                </div>
-              )}
 
-              {msg.role === "user" && (
-                <div className="flex h-7 w-7 shrink-0 items-center justify-center rounded-full bg-gray-900 dark:bg-gray-700 self-start">
-                  <User className="h-3.5 w-3.5 text-white" />
+                    {msg.content && (
+                      <div className="flex items-center gap-2 mt-1">
+                        <BranchSwitcher msg={msg} onSwitch={onSwitchBranch} />
+                        <div className={cn(
+                          "flex items-center gap-2 transition-opacity",
+                          copiedMessageId === msg.id ? "opacity-100" : "opacity-0 group-hover:opacity-100"
+                        )}>
+                          <button
+                            onClick={() => onCopyMessage(msg.id, msg.content)}
+                            className={cn(
+                              "flex items-center gap-1.5 px-2 py-1 rounded-md text-xs transition-all",
+                              copiedMessageId === msg.id
+                                ? "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400"
+                                : "hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300"
+                            )}
+                            title="Copy message"
+                          >
+                            {copiedMessageId === msg.id ? (
+                              <>
+                                <Check className="h-3 w-3" />
+                                <span>Copied</span>
+                              </>
+                            ) : (
+                              <>
+                                <Copy className="h-3 w-3" />
+                                <span>Copy</span>
+                              </>
+                            )}
+                          </button>
+                          {onRegenerate && !msg.author && (
+                            <button
+                              onClick={() => onRegenerate(msg.id)}
+                              className="flex items-center gap-1.5 px-2 py-1 rounded-md text-xs transition-all hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300"
+                              title="Generate a new answer"
+                            >
+                              <RotateCcw className="h-3 w-3" />
+                              <span>Regenerate</span>
+                            </button>
+                          )}
+                          {onShare && (
+                            <button
+                              onClick={() => onShare(msg.id)}
+                              className="flex items-center gap-1.5 px-2 py-1 rounded-md text-xs transition-all hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300"
+                              title="Share the conversation up to this reply"
+                            >
+                              <Share2 className="h-3 w-3" />
+                              <span>Share</span>
+                            </button>
+                          )}
+                        </div>
+                        <PinButton msg={msg} onToggle={onTogglePin} />
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {msg.role === "user" && (
+                  <div className="flex h-7 w-7 shrink-0 items-center justify-center rounded-full bg-gray-900 dark:bg-gray-700 self-start">
+                    <User className="h-3.5 w-3.5 text-white" />
+                  </div>
+                )}
+              </div>
+              {snapshotEndId === msg.id && msg.id !== messages[messages.length - 1].id && (
+                <div className="flex items-center gap-3 text-[11px] font-medium uppercase tracking-wide text-gray-400 dark:text-gray-500">
+                  <span className="h-px flex-1 bg-gray-200 dark:bg-gray-800" />
+                  Shared up to here
+                  <span className="h-px flex-1 bg-gray-200 dark:bg-gray-800" />
                 </div>
               )}
-            </div>
+            </React.Fragment>
           ))}
         </div>
 
@@ -1,17 +1,40 @@
 "use client";
 
-import React from "react";
+import React, { useState } from "react";
 import {
   Plus,
   MessageSquare,
   Trash2,
   Search,
   Check,
+  Loader2,
+  Archive,
+  ChevronRight,
+  Folder,
+  FolderPlus,
+  MoreHorizontal,
+  Pencil,
+  Pin,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { cn } from "@/lib/utils";
-import type { Conversation } from "./types";
+import type { MessageSearchHit } from "@/lib/chat-search";
+import { ChatExportMenu } from "./ChatExportMenu";
+import { ConversationMenu } from "./ConversationMenu";
+import { ConversationTagsDialog } from "./ConversationTagsDialog";
+import { FolderDialog } from "./FolderDialog";
+import { SearchSnippet } from "./SearchSnippet";
+import type { Conversation, ConversationChanges, ConversationFolder } from "./types";
+
+/** What a dragged conversation row carries */
+const DRAG_TYPE = "application/x-conversation-id";
 
 function formatRelativeDate(dateStr: string): string {
   const date = new Date(dateStr);
@@ -28,15 +51,200 @@ function formatRelativeDate(dateStr: string): string {
   return date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
 }
 
+interface SidebarSectionProps {
+  label: string;
+  icon: React.ReactNode;
+  /** Omitted while unknown, e.g. an archive not loaded yet */
+  count?: number;
+  open: boolean;
+  onToggle: () => void;
+  /** Makes the section a drop target for conversation rows */
+  onDropConversation?: (conversationId: string) => void;
+  actions?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+function SidebarSection({ label, icon, count, open, onToggle, onDropConversation, actions, children }: SidebarSectionProps) {
+  const [dragOver, setDragOver] = useState(false);
+
+  const dropProps = onDropConversation && {
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "move";
+      setDragOver(true);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragOver(false);
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDragOver(false);
+      const id = e.dataTransfer.getData(DRAG_TYPE);
+      if (id) onDropConversation(id);
+    },
+  };
+
+  return (
+    <div
+      {...dropProps}
+      className={cn(
+        "rounded-lg transition-colors",
+        dragOver && "bg-indigo-50 dark:bg-indigo-950/40 ring-1 ring-indigo-300 dark:ring-indigo-800"
+      )}
+    >
+      <div className="group/section flex items-center gap-1 px-2 pt-3 pb-1">
+        <button
+          onClick={onToggle}
+          aria-expanded={open}
+          className="flex min-w-0 flex-1 items-center gap-1.5 text-[11px] font-medium uppercase tracking-wide text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300"
+        >
+          <ChevronRight className={cn("h-3 w-3 shrink-0 transition-transform", open && "rotate-90")} />
+          {icon}
+          <span className="truncate">{label}</span>
+          {count !== undefined && <span className="font-normal tabular-nums">{count}</span>}
+        </button>
+        {actions}
+      </div>
+      {open && children}
+    </div>
+  );
+}
+
+interface ConversationRowProps {
+  conv: Conversation;
+  active: boolean;
+  folders: ConversationFolder[];
+  confirmingDelete: boolean;
+  onSelect: () => void;
+  onDelete: (e: React.MouseEvent) => void;
+  onUpdate: (changes: ConversationChanges) => void;
+  onEditTags: () => void;
+  onTagClick: (tag: string) => void;
+}
+
+function ConversationRow({
+  conv,
+  active,
+  folders,
+  confirmingDelete,
+  onSelect,
+  onDelete,
+  onUpdate,
+  onEditTags,
+  onTagClick,
+}: ConversationRowProps) {
+  return (
+    <div
+      draggable={!conv.archived}
+      onDragStart={(e) => {
+        e.dataTransfer.setData(DRAG_TYPE, conv.id);
+        e.dataTransfer.effectAllowed = "move";
+      }}
+      onClick={onSelect}
+      role="button"
+      tabIndex={0}
+      onKeyDown={(e) => { if (e.key === "Enter" || e.key === " ") onSelect(); }}
+      aria-label={`Conversation: ${conv.title}`}
+      aria-current={active ? "true" : undefined}
+      className={cn(
+        "w-full text-left rounded-lg px-2 py-2 transition-all group cursor-pointer overflow-hidden",
+        active
+          ? "bg-gray-50 dark:bg-gray-800 font-semibold"
+          : "hover:bg-gray-50/50 dark:hover:bg-gray-800/50"
+      )}
+    >
+      <div className="flex items-center gap-1">
+        {conv.pinned && <Pin className="h-3 w-3 shrink-0 text-gray-400 dark:text-gray-500" />}
+        <p
+          title={conv.title}
+          className={cn(
+            "text-sm truncate leading-tight min-w-0 flex-1",
+            active
+              ? "font-semibold text-gray-900 dark:text-gray-100"
+              : "font-normal text-gray-600 dark:text-gray-400"
+          )}
+        >
+          {conv.title}
+        </p>
+        <ConversationMenu
+          conversation={conv}
+          folders={folders}
+          onUpdate={onUpdate}
+          onEditTags={onEditTags}
+          className="opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100"
+        />
+        <ChatExportMenu
+          endpoint={`/api/conversations/${conv.id}/export`}
+          label="Export conversation"
+          className="opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100"
+        />
+        <button
+          onClick={onDelete}
+          className={cn(
+            "shrink-0 p-1 rounded-md transition-all",
+            confirmingDelete
+              ? "bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400"
+              : "text-gray-400 dark:text-gray-500 hover:bg-red-100 dark:hover:bg-red-900/30 hover:text-red-600 dark:hover:text-red-400"
+          )}
+          title={confirmingDelete ? "Click again to confirm" : "Delete conversation"}
+        >
+          {confirmingDelete ? (
+            <Check className="h-3.5 w-3.5" />
+          ) : (
+            <Trash2 className="h-3.5 w-3.5" />
+          )}
+        </button>
+      </div>
+      <div className="flex items-center gap-1 mt-0.5 min-w-0">
+        <span className="shrink-0 text-xs font-normal text-gray-400 dark:text-gray-500">
+          {formatRelativeDate(conv.updatedAt)}
+        </span>
+        {conv.tags.slice(0, 2).map((tag) => (
+          <button
+            key={tag}
+            onClick={(e) => {
+              e.stopPropagation();
+              onTagClick(tag);
+            }}
+            title={`Show conversations tagged "${tag}"`}
+            className="min-w-0 max-w-[7rem] truncate rounded-full bg-gray-100 dark:bg-gray-800 px-1.5 text-[10px] font-normal text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
+          >
+            {tag}
+          </button>
+        ))}
+        {conv.tags.length > 2 && (
+          <span className="shrink-0 text-[10px] font-normal text-gray-400 dark:text-gray-500">+{conv.tags.length - 2}</span>
+        )}
+      </div>
+    </div>
+  );
+}
+
 interface ChatSidebarProps {
+  /** Active conversations, plus archived ones once the archive has been opened */
   conversations: Conversation[];
+  folders: ConversationFolder[];
   activeConversationId: string | null;
   conversationLimit: number;
   searchQuery: string;
   onSearchChange: (query: string) => void;
+  /** Messages matching the search, from the server; null while the query is too short */
+  messageResults: MessageSearchHit[] | null;
+  searchingMessages: boolean;
   onSelectConversation: (id: string) => void;
+  /** Open a conversation at a search hit */
+  onSelectMessageResult: (conversationId: string, messageId: string) => void;
   onNewChat: () => void;
   onDeleteConversation: (id: string, e: React.MouseEvent) => void;
+  onUpdateConversation: (id: string, changes: ConversationChanges) => void;
+  /** Resolve false when the folder could not be saved */
+  onCreateFolder: (name: string) => Promise<boolean>;
+  onRenameFolder: (id: string, name: string) => Promise<boolean>;
+  onDeleteFolder: (id: string) => void;
+  archive: { loaded: boolean; loading: boolean; hasMore: boolean };
+  /** Load the next page of archived conversations */
+  onLoadArchived: () => void;
   confirmDeleteId: string | null;
   sidebarOpen: boolean;
   isMobile: boolean;
@@ -45,20 +253,83 @@ interface ChatSidebarProps {
 
 export function ChatSidebar({
   conversations,
+  folders,
   activeConversationId,
   conversationLimit,
   searchQuery,
   onSearchChange,
+  messageResults,
+  searchingMessages,
   onSelectConversation,
+  onSelectMessageResult,
   onNewChat,
   onDeleteConversation,
+  onUpdateConversation,
+  onCreateFolder,
+  onRenameFolder,
+  onDeleteFolder,
+  archive,
+  onLoadArchived,
   confirmDeleteId,
   sidebarOpen,
   isMobile,
   onClose,
 }: ChatSidebarProps) {
-  const filteredConversations = conversations.filter((conv) =>
-    conv.title.toLowerCase().includes(searchQuery.toLowerCase())
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [closedSections, setClosedSections] = useState<Set<string>>(new Set());
+  const [archiveOpen, setArchiveOpen] = useState(false);
+  const [tagsTarget, setTagsTarget] = useState<Conversation | null>(null);
+  /** Open while set; `folder` null creates one */
+  const [folderDialog, setFolderDialog] = useState<{ folder: ConversationFolder | null } | null>(null);
+
+  const query = searchQuery.toLowerCase();
+  const filtering = !!query || !!tagFilter;
+  const matches = (conv: Conversation) =>
+    conv.title.toLowerCase().includes(query) && (!tagFilter || conv.tags.includes(tagFilter));
+
+  const activeConversations = conversations.filter((c) => !c.archived);
+  const atLimit = activeConversations.length >= conversationLimit;
+  const visible = activeConversations.filter(matches);
+  const folderIds = new Set(folders.map((f) => f.id));
+  const pinned = visible.filter((c) => c.pinned);
+  const unfiled = visible.filter((c) => !c.pinned && !(c.folderId && folderIds.has(c.folderId)));
+  const archived = conversations.filter((c) => c.archived && matches(c));
+  const organized = folders.length > 0 || pinned.length > 0;
+
+  // Filter chips, most used first
+  const tagCounts = new Map<string, number>();
+  for (const conv of conversations) {
+    for (const tag of conv.tags) tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+  }
+  const allTags = Array.from(tagCounts.keys()).sort((a, b) => tagCounts.get(b)! - tagCounts.get(a)! || a.localeCompare(b));
+  if (tagFilter && !tagCounts.has(tagFilter)) allTags.unshift(tagFilter);
+
+  const toggleSection = (key: string) =>
+    setClosedSections((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+
+  const toggleArchive = () => {
+    if (!archiveOpen && !archive.loaded) onLoadArchived();
+    setArchiveOpen(!archiveOpen);
+  };
+
+  const renderRow = (conv: Conversation) => (
+    <ConversationRow
+      key={conv.id}
+      conv={conv}
+      active={activeConversationId === conv.id}
+      folders={folders}
+      confirmingDelete={confirmDeleteId === conv.id}
+      onSelect={() => onSelectConversation(conv.id)}
+      onDelete={(e) => onDeleteConversation(conv.id, e)}
+      onUpdate={(changes) => onUpdateConversation(conv.id, changes)}
+      onEditTags={() => setTagsTarget(conv)}
+      onTagClick={setTagFilter}
+    />
   );
 
   return (
@@ -88,16 +359,29 @@ export function ChatSidebar({
         <div className="p-4 space-y-3">
           <div className="flex items-center justify-between">
             <h2 className="text-sm font-medium text-gray-900 dark:text-gray-100">Conversations</h2>
-            <Button
-              onClick={onNewChat}
-              size="sm"
-              disabled={conversations.length >= conversationLimit}
-              title={conversations.length >= conversationLimit ? `Limit of ${conversationLimit} conversations reached. Delete old ones first.` : "New conversation"}
-              className="h-7 gap-1.5 bg-gray-900 dark:bg-gray-100 hover:bg-gray-800 dark:hover:bg-gray-200 text-white dark:text-gray-900 rounded-lg text-xs disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              <Plus className="h-3 w-3" />
-              New
-            </Button>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setFolderDialog({ folder: null })}
+                title="New folder"
+                aria-label="New folder"
+                className="shrink-0 inline-flex items-center h-7 px-1.5 rounded-md text-gray-400 dark:text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-700 dark:hover:text-gray-300 transition-all"
+              >
+                <FolderPlus className="h-3.5 w-3.5" />
+              </button>
+              {conversations.length > 0 && (
+                <ChatExportMenu endpoint="/api/conversations/export" label="Export all" className="h-7 px-1.5" />
+              )}
+              <Button
+                onClick={onNewChat}
+                size="sm"
+                disabled={atLimit}
+                title={atLimit ? `Limit of ${conversationLimit} active conversations reached. Archive or delete old ones first.` : "New conversation"}
+                className="h-7 gap-1.5 bg-gray-900 dark:bg-gray-100 hover:bg-gray-800 dark:hover:bg-gray-200 text-white dark:text-gray-900 rounded-lg text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Plus className="h-3 w-3" />
+                New
+              </Button>
+            </div>
           </div>
           <div className="relative">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-gray-400 dark:text-gray-500" />
@@ -109,75 +393,184 @@ export function ChatSidebar({
               className="pl-9 h-8 bg-gray-50 dark:bg-gray-800 border-gray-100 dark:border-gray-800 rounded-lg text-sm focus-visible:ring-gray-300"
             />
           </div>
+          {allTags.length > 0 && (
+            <div className="flex gap-1 overflow-x-auto pb-0.5" role="group" aria-label="Filter by tag">
+              {allTags.map((tag) => (
+                <button
+                  key={tag}
+                  onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                  aria-pressed={tagFilter === tag}
+                  className={cn(
+                    "shrink-0 rounded-full px-2 py-0.5 text-[11px] transition-colors",
+                    tagFilter === tag
+                      ? "bg-gray-900 text-white dark:bg-gray-100 dark:text-gray-900"
+                      : "bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700"
+                  )}
+                >
+                  {tag}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
-        {conversations.length >= conversationLimit && (
+        {atLimit && (
           <div className="mx-4 mb-2 px-3 py-2 rounded-lg bg-amber-50 dark:bg-amber-950/50 border border-amber-200 dark:border-amber-800 text-xs text-amber-700 dark:text-amber-400">
-            You&apos;ve reached the limit of {conversationLimit} conversations. Delete old ones to start new chats.
+            You&apos;ve reached the limit of {conversationLimit} active conversations. Archive or delete old ones to start new chats.
           </div>
         )}
 
         <div className="flex-1 overflow-y-auto" role="list" aria-label="Conversations">
           <div className="px-4 pb-2 space-y-0.5">
-            {filteredConversations.map((conv) => (
-              <div
-                key={conv.id}
-                onClick={() => onSelectConversation(conv.id)}
-                role="button"
-                tabIndex={0}
-                onKeyDown={(e) => { if (e.key === "Enter" || e.key === " ") onSelectConversation(conv.id); }}
-                aria-label={`Conversation: ${conv.title}`}
-                aria-current={activeConversationId === conv.id ? "true" : undefined}
-                className={cn(
-                  "w-full text-left rounded-lg px-2 py-2 transition-all group cursor-pointer overflow-hidden",
-                  activeConversationId === conv.id
-                    ? "bg-gray-50 dark:bg-gray-800 font-semibold"
-                    : "hover:bg-gray-50/50 dark:hover:bg-gray-800/50"
-                )}
+            {pinned.length > 0 && (
+              <SidebarSection
+                label="Pinned"
+                icon={<Pin className="h-3 w-3 shrink-0" />}
+                count={pinned.length}
+                open={!closedSections.has("pinned")}
+                onToggle={() => toggleSection("pinned")}
+                onDropConversation={(id) => onUpdateConversation(id, { pinned: true })}
               >
-                <div className="flex items-center gap-1">
-                  <p
-                    title={conv.title}
-                    className={cn(
-                      "text-sm truncate leading-tight min-w-0 flex-1",
-                      activeConversationId === conv.id
-                        ? "font-semibold text-gray-900 dark:text-gray-100"
-                        : "font-normal text-gray-600 dark:text-gray-400"
-                    )}
-                  >
-                    {conv.title}
-                  </p>
+                {pinned.map(renderRow)}
+              </SidebarSection>
+            )}
+
+            {folders.map((folder) => {
+              const items = visible.filter((c) => !c.pinned && c.folderId === folder.id);
+              if (filtering && items.length === 0) return null;
+              return (
+                <SidebarSection
+                  key={folder.id}
+                  label={folder.name}
+                  icon={<Folder className="h-3 w-3 shrink-0" />}
+                  count={items.length}
+                  open={!closedSections.has(folder.id)}
+                  onToggle={() => toggleSection(folder.id)}
+                  onDropConversation={(id) => onUpdateConversation(id, { folderId: folder.id })}
+                  actions={
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <button
+                          title="Folder options"
+                          aria-label={`Options for folder ${folder.name}`}
+                          className="shrink-0 p-0.5 rounded-md text-gray-400 dark:text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-700 dark:hover:text-gray-300 opacity-0 group-hover/section:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100"
+                        >
+                          <MoreHorizontal className="h-3.5 w-3.5" />
+                        </button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" className="w-40 rounded-lg p-1.5">
+                        <DropdownMenuItem
+                          onSelect={() => setFolderDialog({ folder })}
+                          className="cursor-pointer rounded-md px-3 py-2 text-sm text-gray-600 dark:text-gray-400"
+                        >
+                          <Pencil className="mr-2 h-3.5 w-3.5" />
+                          Rename
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onSelect={() => onDeleteFolder(folder.id)}
+                          className="cursor-pointer rounded-md px-3 py-2 text-sm text-red-600 dark:text-red-400"
+                        >
+                          <Trash2 className="mr-2 h-3.5 w-3.5" />
+                          Delete folder
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  }
+                >
+                  {items.map(renderRow)}
+                  {items.length === 0 && (
+                    <p className="px-2 py-1.5 text-xs text-gray-400 dark:text-gray-500">Drag conversations here</p>
+                  )}
+                </SidebarSection>
+              );
+            })}
+
+            {organized ? (
+              (unfiled.length > 0 || !filtering) && (
+                <SidebarSection
+                  label="Chats"
+                  icon={<MessageSquare className="h-3 w-3 shrink-0" />}
+                  count={unfiled.length}
+                  open={!closedSections.has("unfiled")}
+                  onToggle={() => toggleSection("unfiled")}
+                  onDropConversation={(id) => onUpdateConversation(id, { folderId: null, pinned: false })}
+                >
+                  {unfiled.map(renderRow)}
+                </SidebarSection>
+              )
+            ) : (
+              unfiled.map(renderRow)
+            )}
+
+            {(!filtering || archived.length > 0) && (
+              <SidebarSection
+                label="Archived"
+                icon={<Archive className="h-3 w-3 shrink-0" />}
+                count={archive.loaded ? archived.length : undefined}
+                open={archiveOpen}
+                onToggle={toggleArchive}
+                onDropConversation={(id) => onUpdateConversation(id, { archived: true })}
+              >
+                {archived.map(renderRow)}
+                {archive.loading ? (
+                  <div className="py-2 text-center">
+                    <Loader2 className="h-3.5 w-3.5 animate-spin text-gray-400 mx-auto" />
+                  </div>
+                ) : archive.hasMore ? (
                   <button
-                    onClick={(e) => onDeleteConversation(conv.id, e)}
-                    className={cn(
-                      "shrink-0 p-1 rounded-md transition-all",
-                      confirmDeleteId === conv.id
-                        ? "bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400"
-                        : "text-gray-400 dark:text-gray-500 hover:bg-red-100 dark:hover:bg-red-900/30 hover:text-red-600 dark:hover:text-red-400"
-                    )}
-                    title={confirmDeleteId === conv.id ? "Click again to confirm" : "Delete conversation"}
+                    onClick={onLoadArchived}
+                    className="w-full px-2 py-1.5 text-left text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
                   >
-                    {confirmDeleteId === conv.id ? (
-                      <Check className="h-3.5 w-3.5" />
-                    ) : (
-                      <Trash2 className="h-3.5 w-3.5" />
-                    )}
+                    Show more
                   </button>
-                </div>
-                <p className="text-xs text-gray-400 dark:text-gray-500 mt-0.5">
-                  {formatRelativeDate(conv.updatedAt)}
+                ) : (
+                  archived.length === 0 && (
+                    <p className="px-2 py-1.5 text-xs text-gray-400 dark:text-gray-500">
+                      Archived conversations don&apos;t count against the limit
+                    </p>
+                  )
+                )}
+              </SidebarSection>
+            )}
+
+            {(messageResults?.length || searchingMessages) && (
+              <div className="pt-3">
+                <p className="flex items-center gap-1.5 px-2 pb-1 text-[11px] font-medium uppercase tracking-wide text-gray-400 dark:text-gray-500">
+                  Messages
+                  {searchingMessages && <Loader2 className="h-3 w-3 animate-spin" />}
                 </p>
+                {messageResults?.map((hit) => (
+                  <button
+                    key={hit.messageId}
+                    onClick={() => onSelectMessageResult(hit.conversationId, hit.messageId)}
+                    className="w-full text-left rounded-lg px-2 py-2 hover:bg-gray-50/50 dark:hover:bg-gray-800/50 transition-all"
+                  >
+                    <p className="text-xs font-medium text-gray-700 dark:text-gray-300 truncate">
+                      {hit.conversationTitle}
+                    </p>
+                    <SearchSnippet
+                      snippet={hit.snippet}
+                      className="mt-0.5 text-xs text-gray-500 dark:text-gray-400 line-clamp-3"
+                    />
+                    <p className="text-[11px] text-gray-400 dark:text-gray-500 mt-0.5">
+                      {hit.role === "user" ? "You" : "Tutor"} · {formatRelativeDate(hit.createdAt)}
+                    </p>
+                  </button>
+                ))}
               </div>
-            ))}
-            {filteredConversations.length === 0 && (
+            )}
+            {visible.length === 0 && archived.length === 0 && !messageResults?.length && !searchingMessages && (
               <div className="text-center py-8 px-4">
                 <MessageSquare className="h-6 w-6 text-gray-300 mx-auto mb-2" />
                 <p className="text-sm text-gray-400 dark:text-gray-500">
-                  {searchQuery ? "No matching conversations" : "No conversations yet"}
+                  {filtering ? "No matching conversations or messages" : "No conversations yet"}
                 </p>
-                {searchQuery && (
+                {filtering && (
                   <button
-                    onClick={() => onSearchChange("")}
+                    onClick={() => {
+                      onSearchChange("");
+                      setTagFilter(null);
+                    }}
                     className="text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 mt-1 underline"
                   >
                     Clear search
@@ -188,6 +581,21 @@ export function ChatSidebar({
           </div>
         </div>
       </div>
+
+      <ConversationTagsDialog
+        conversation={tagsTarget}
+        suggestions={allTags}
+        onSave={(tags) => tagsTarget && onUpdateConversation(tagsTarget.id, { tags })}
+        onOpenChange={(open) => !open && setTagsTarget(null)}
+      />
+      <FolderDialog
+        open={!!folderDialog}
+        folder={folderDialog?.folder}
+        onSubmit={(name) =>
+          folderDialog?.folder ? onRenameFolder(folderDialog.folder.id, name) : onCreateFolder(name)
+        }
+        onOpenChange={(open) => !open && setFolderDialog(null)}
+      />
     </>
   );
 }
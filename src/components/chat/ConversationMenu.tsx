@@ -0,0 +1,87 @@
+"use client";
+
+import React from "react";
+import { Archive, ArchiveRestore, Folder, FolderMinus, MoreHorizontal, Pin, PinOff, Tag } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+import type { Conversation, ConversationChanges, ConversationFolder } from "./types";
+
+interface ConversationMenuProps {
+  conversation: Conversation;
+  folders: ConversationFolder[];
+  onUpdate: (changes: ConversationChanges) => void;
+  onEditTags: () => void;
+  className?: string;
+}
+
+/** Pin, tag, file and archive one conversation; dragging a row onto a folder does the filing too */
+export function ConversationMenu({ conversation, folders, onUpdate, onEditTags, className }: ConversationMenuProps) {
+  const itemClass = "cursor-pointer rounded-md px-3 py-2 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100";
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          onClick={(e) => e.stopPropagation()}
+          title="Organize"
+          aria-label="Organize conversation"
+          className={cn(
+            "shrink-0 p-1 rounded-md text-gray-400 dark:text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-700 dark:hover:text-gray-300 transition-all",
+            className
+          )}
+        >
+          <MoreHorizontal className="h-3.5 w-3.5" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-52 rounded-lg p-1.5" onClick={(e) => e.stopPropagation()}>
+        {!conversation.archived && (
+          <DropdownMenuItem onSelect={() => onUpdate({ pinned: !conversation.pinned })} className={itemClass}>
+            {conversation.pinned ? <PinOff className="mr-2 h-3.5 w-3.5" /> : <Pin className="mr-2 h-3.5 w-3.5" />}
+            {conversation.pinned ? "Unpin" : "Pin to top"}
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem onSelect={onEditTags} className={itemClass}>
+          <Tag className="mr-2 h-3.5 w-3.5" />
+          Edit tags
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => onUpdate({ archived: !conversation.archived })} className={itemClass}>
+          {conversation.archived ? <ArchiveRestore className="mr-2 h-3.5 w-3.5" /> : <Archive className="mr-2 h-3.5 w-3.5" />}
+          {conversation.archived ? "Restore from archive" : "Archive"}
+        </DropdownMenuItem>
+
+        {(folders.length > 0 || conversation.folderId) && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="px-3 py-1 text-xs font-medium text-gray-400 dark:text-gray-500">Move to folder</DropdownMenuLabel>
+            <div className="max-h-48 overflow-y-auto">
+              {folders.map((folder) => (
+                <DropdownMenuItem
+                  key={folder.id}
+                  disabled={folder.id === conversation.folderId}
+                  onSelect={() => onUpdate({ folderId: folder.id })}
+                  className={itemClass}
+                >
+                  <Folder className="mr-2 h-3.5 w-3.5 shrink-0" />
+                  <span className="truncate">{folder.name}</span>
+                </DropdownMenuItem>
+              ))}
+            </div>
+            {conversation.folderId && (
+              <DropdownMenuItem onSelect={() => onUpdate({ folderId: null })} className={itemClass}>
+                <FolderMinus className="mr-2 h-3.5 w-3.5" />
+                Remove from folder
+              </DropdownMenuItem>
+            )}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import React from "react";
+import { Printer } from "lucide-react";
+import { MarkdownContent } from "@/components/ui/markdown-content";
+import { ToolCallCard } from "./ToolCallCard";
+import { speaker, type ExportConversation } from "@/lib/chat-export";
+
+function formatDate(date: Date): string {
+  return date.toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+/**
+ * Conversations laid out for paper, with math, diagrams and graphs rendered
+ * as in the chat. The browser's "Save as PDF" turns this into the PDF export.
+ */
+export default function ConversationPrintView({ conversations }: { conversations: ExportConversation[] }) {
+  return (
+    <div className="mx-auto max-w-3xl px-8 py-8 print:max-w-none print:px-0 print:py-0">
+      <div className="mb-8 flex items-center justify-between gap-4 rounded-xl border border-gray-200 bg-gray-50 px-4 py-3 print:hidden">
+        <p className="text-sm text-gray-600">
+          {conversations.length === 1 ? "1 conversation" : `${conversations.length} conversations`}. Wait for graphs
+          and diagrams to appear, then choose &ldquo;Save as PDF&rdquo; as the printer.
+        </p>
+        <button
+          onClick={() => window.print()}
+          className="inline-flex shrink-0 items-center gap-2 rounded-lg bg-indigo-600 px-3 py-2 text-sm font-medium text-white hover:bg-indigo-700 transition-colors"
+        >
+          <Printer className="h-4 w-4" />
+          Save as PDF
+        </button>
+      </div>
+
+      {conversations.length === 0 && <p className="text-sm text-gray-500">No conversations yet.</p>}
+
+      {conversations.map((conversation, i) => (
+        <article key={conversation.id} className={i > 0 ? "mt-16 break-before-page print:mt-0" : undefined}>
+          <header className="mb-6 border-b border-gray-200 pb-3">
+            <h1 className="text-xl font-bold">{conversation.title}</h1>
+            <p className="text-xs text-gray-500">
+              Started {formatDate(conversation.createdAt)} · {conversation.messages.length} messages · PhysTutor
+            </p>
+          </header>
+
+          {conversation.messages.map((message, m) => (
+            <section key={m} className="mb-6">
+              <p className="mb-1 flex items-baseline justify-between text-xs font-semibold uppercase tracking-wide text-gray-500">
+                <span>
+                  {speaker(message)}
+                  {message.role === "assistant" && message.model && (
+                    <span className="ml-1 font-normal normal-case tracking-normal">({message.model})</span>
+                  )}
+                </span>
+                <span className="font-normal normal-case tracking-normal">{formatDate(message.createdAt)}</span>
+              </p>
+              {message.imageUrls.map((url) => (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img key={url} src={url} alt="" className="my-2 max-h-80 rounded-lg border border-gray-200 break-inside-avoid" />
+              ))}
+              {message.toolCalls.map((call) => (
+                <ToolCallCard key={call.id} call={call} />
+              ))}
+              <MarkdownContent content={message.content} printable className="text-sm leading-relaxed" />
+            </section>
+          ))}
+        </article>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Plus, Tag, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { TAGS_PER_CONVERSATION, TAG_MAX_LENGTH, uniqueTags } from "@/lib/chat-organize";
+import type { Conversation } from "./types";
+
+interface ConversationTagsDialogProps {
+  /** Open while set */
+  conversation: Conversation | null;
+  /** Tags used on other conversations, offered with one click */
+  suggestions: string[];
+  onSave: (tags: string[]) => void;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ConversationTagsDialog({ conversation, suggestions, onSave, onOpenChange }: ConversationTagsDialogProps) {
+  const [tags, setTags] = useState<string[]>([]);
+  const [draft, setDraft] = useState("");
+
+  useEffect(() => {
+    if (!conversation) return;
+    setTags(conversation.tags);
+    setDraft("");
+  }, [conversation]);
+
+  const full = tags.length >= TAGS_PER_CONVERSATION;
+  const add = (tag: string) => {
+    if (full) return;
+    setTags((prev) => uniqueTags([...prev, tag]));
+    setDraft("");
+  };
+  const remove = (tag: string) => setTags((prev) => prev.filter((t) => t !== tag));
+  const offered = suggestions.filter((s) => !tags.some((t) => t.toLowerCase() === s.toLowerCase())).slice(0, 12);
+
+  return (
+    <Dialog open={!!conversation} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Tag className="h-4 w-4" />
+            Tags
+          </DialogTitle>
+          <DialogDescription className="truncate">{conversation?.title}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-1.5 min-h-[1.75rem]">
+            {tags.length === 0 && <p className="text-sm text-gray-400 dark:text-gray-500">No tags yet.</p>}
+            {tags.map((tag) => (
+              <span
+                key={tag}
+                className="inline-flex items-center gap-1 rounded-full bg-gray-100 dark:bg-gray-800 pl-2.5 pr-1 py-0.5 text-xs text-gray-700 dark:text-gray-300"
+              >
+                {tag}
+                <button
+                  onClick={() => remove(tag)}
+                  className="rounded-full p-0.5 hover:bg-gray-200 dark:hover:bg-gray-700"
+                  aria-label={`Remove tag ${tag}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (draft.trim()) add(draft);
+            }}
+            className="flex gap-2"
+          >
+            <Input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder={full ? `Up to ${TAGS_PER_CONVERSATION} tags` : "Add a tag, e.g. midterm 2"}
+              maxLength={TAG_MAX_LENGTH}
+              disabled={full}
+              className="h-8 text-sm"
+            />
+            <Button type="submit" variant="outline" size="sm" disabled={full || !draft.trim()} className="h-8 gap-1">
+              <Plus className="h-3.5 w-3.5" />
+              Add
+            </Button>
+          </form>
+
+          {offered.length > 0 && !full && (
+            <div className="space-y-1.5">
+              <p className="text-xs font-medium text-gray-500 dark:text-gray-400">Your other tags</p>
+              <div className="flex flex-wrap gap-1.5">
+                {offered.map((tag) => (
+                  <button
+                    key={tag}
+                    onClick={() => add(tag)}
+                    className="rounded-full border border-dashed border-gray-300 dark:border-gray-700 px-2.5 py-0.5 text-xs text-gray-500 dark:text-gray-400 hover:border-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => {
+              onSave(draft.trim() && !full ? uniqueTags([...tags, draft]) : tags);
+              onOpenChange(false);
+            }}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
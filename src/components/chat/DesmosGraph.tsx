@@ -37,14 +37,17 @@ const COLORS = [
 
 interface DesmosGraphProps {
   code: string;
+  /** Replace the live calculator with a still image once drawn, for printing */
+  snapshot?: boolean;
 }
 
-export default function DesmosGraph({ code }: DesmosGraphProps) {
+export default function DesmosGraph({ code, snapshot = false }: DesmosGraphProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const calculatorRef = useRef<any>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [image, setImage] = useState<string | null>(null);
 
   useEffect(() => {
     let mounted = true;
@@ -88,6 +91,16 @@ export default function DesmosGraph({ code }: DesmosGraphProps) {
         });
 
         setLoading(false);
+
+        if (snapshot) {
+          const width = containerRef.current.clientWidth || 600;
+          calculator.asyncScreenshot({ width, height: 350, targetPixelRatio: 2 }, (data: string) => {
+            if (!mounted) return;
+            setImage(data);
+            calculator.destroy();
+            calculatorRef.current = null;
+          });
+        }
       } catch {
         if (mounted) setError("Failed to load Desmos calculator");
       }
@@ -102,7 +115,7 @@ export default function DesmosGraph({ code }: DesmosGraphProps) {
         calculatorRef.current = null;
       }
     };
-  }, [code]);
+  }, [code, snapshot]);
 
   if (error) {
     return (
@@ -115,6 +128,15 @@ export default function DesmosGraph({ code }: DesmosGraphProps) {
     );
   }
 
+  if (image) {
+    return (
+      <div className="my-3 rounded-xl overflow-hidden border border-gray-200 dark:border-gray-700 break-inside-avoid">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img src={image} alt="Desmos graph" className="w-full h-auto" />
+      </div>
+    );
+  }
+
   return (
     <div className="my-3 rounded-xl overflow-hidden border border-gray-200 dark:border-gray-700">
       {loading && (
@@ -0,0 +1,73 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { FolderPlus, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { FOLDER_NAME_MAX } from "@/lib/chat-organize";
+import type { ConversationFolder } from "./types";
+
+interface FolderDialogProps {
+  open: boolean;
+  /** Renames this folder; without it a new folder is created */
+  folder?: ConversationFolder | null;
+  /** Resolves false when the server refused the name, keeping the dialog open */
+  onSubmit: (name: string) => Promise<boolean>;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function FolderDialog({ open, folder, onSubmit, onOpenChange }: FolderDialogProps) {
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setName(folder?.name ?? "");
+  }, [open, folder]);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setSaving(true);
+    const saved = await onSubmit(name.trim());
+    setSaving(false);
+    if (saved) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !saving && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-[400px]">
+        <form onSubmit={submit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FolderPlus className="h-4 w-4" />
+              {folder ? "Rename folder" : "New folder"}
+            </DialogTitle>
+          </DialogHeader>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Homework 3, Exam review"
+            maxLength={FOLDER_NAME_MAX}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !name.trim()}>
+              {saving && <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />}
+              {folder ? "Rename" : "Create"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import dynamic from "next/dynamic";
+import { ChevronDown, ClipboardList } from "lucide-react";
+import { MarkdownContent } from "@/components/ui/markdown-content";
+import { cn } from "@/lib/utils";
+import type { ChatQuestion } from "./types";
+
+const MermaidDiagram = dynamic(() => import("./MermaidDiagram"), { ssr: false });
+
+/** The assignment question an "Ask AI" conversation is about, pinned above the messages. */
+export function QuestionContextCard({ question, defaultOpen }: { question: ChatQuestion; defaultOpen: boolean }) {
+  const [open, setOpen] = useState(defaultOpen);
+  const { context } = question;
+
+  return (
+    <div className="mb-6 rounded-xl border border-indigo-200 dark:border-indigo-900 bg-indigo-50/50 dark:bg-indigo-950/30">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 px-4 py-2.5 text-left"
+        aria-expanded={open}
+      >
+        <ClipboardList className="h-4 w-4 text-indigo-500 shrink-0" />
+        <span className="flex-1 min-w-0 text-sm font-medium text-indigo-900 dark:text-indigo-200 truncate">
+          Question {context.number} · {question.assignmentTitle}
+        </span>
+        <ChevronDown className={cn("h-4 w-4 text-indigo-400 transition-transform", open && "rotate-180")} />
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-3 border-t border-indigo-100 dark:border-indigo-900 pt-3">
+          <MarkdownContent content={context.questionText} className="text-sm" />
+
+          {context.diagram && (
+            <div className="flex justify-center">
+              {context.diagram.type === "svg" ? (
+                <div
+                  className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 p-4 overflow-auto max-w-full [&_svg]:w-full [&_svg]:h-auto"
+                  dangerouslySetInnerHTML={{ __html: context.diagram.content }}
+                />
+              ) : (
+                <MermaidDiagram content={context.diagram.content} />
+              )}
+            </div>
+          )}
+
+          {context.imageUrl && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={context.imageUrl}
+              alt="Question figure"
+              className="rounded-lg max-w-full max-h-80 border border-gray-200 dark:border-gray-700"
+            />
+          )}
+
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            <span className="font-medium">Your draft when you asked: </span>
+            {context.draftAnswer.trim() ? context.draftAnswer : <em>not started</em>}
+          </div>
+
+          <Link
+            href={`/assignments/${question.assignmentId}`}
+            className="inline-block text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+          >
+            Back to the assignment
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
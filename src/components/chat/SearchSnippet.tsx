@@ -0,0 +1,20 @@
+import React from "react";
+import { cn } from "@/lib/utils";
+import { snippetSegments } from "@/lib/chat-search";
+
+/** A search hit's snippet with its matches highlighted */
+export function SearchSnippet({ snippet, className }: { snippet: string; className?: string }) {
+  return (
+    <p className={cn("break-words", className)}>
+      {snippetSegments(snippet).map((segment, i) =>
+        segment.match ? (
+          <mark key={i} className="rounded-sm bg-amber-100 dark:bg-amber-900/60 px-0.5 text-inherit">
+            {segment.text}
+          </mark>
+        ) : (
+          <React.Fragment key={i}>{segment.text}</React.Fragment>
+        )
+      )}
+    </p>
+  );
+}
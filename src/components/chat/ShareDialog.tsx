@@ -0,0 +1,220 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Check, Copy, GraduationCap, Link2, Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+
+interface Share {
+  id: string;
+  token: string;
+  messageId: string | null;
+  escalatedAt: string | null;
+  note: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+}
+
+interface ShareDialogProps {
+  /** Open while set */
+  conversationId: string | null;
+  /** Offered as the end of a snapshot; without it the link follows the conversation */
+  messageId?: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+function shareUrl(share: Share): string {
+  return `${window.location.origin}/share/${share.token}`;
+}
+
+export function ShareDialog({ conversationId, messageId, onOpenChange }: ShareDialogProps) {
+  const [shares, setShares] = useState<Share[]>([]);
+  const [snapshot, setSnapshot] = useState(true);
+  const [escalate, setEscalate] = useState(false);
+  const [note, setNote] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const fetchShares = useCallback(async (id: string) => {
+    try {
+      const res = await fetch(`/api/conversations/${id}/shares`);
+      if (!res.ok) throw new Error("Failed to load links");
+      const data = await res.json();
+      setShares(data.shares);
+    } catch (err) {
+      console.error(err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!conversationId) return;
+    setSnapshot(!!messageId);
+    setEscalate(false);
+    setNote("");
+    fetchShares(conversationId);
+  }, [conversationId, messageId, fetchShares]);
+
+  const copy = async (share: Share) => {
+    await navigator.clipboard.writeText(shareUrl(share));
+    setCopiedId(share.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const create = async () => {
+    if (!conversationId) return;
+    setCreating(true);
+    try {
+      const res = await fetch(`/api/conversations/${conversationId}/shares`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          messageId: snapshot && messageId ? messageId : undefined,
+          escalate,
+          note: escalate ? note : undefined,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to create link");
+      setShares((prev) => [data.share, ...prev]);
+      setEscalate(false);
+      setNote("");
+      await copy(data.share);
+      toast.success(escalate ? "Sent to course staff; link copied" : "Link copied");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to create link");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revoke = async (share: Share) => {
+    try {
+      const res = await fetch(`/api/shares/${share.id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Failed to revoke link");
+      setShares((prev) => prev.filter((s) => s.id !== share.id));
+      toast.success("Link revoked");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to revoke link");
+    }
+  };
+
+  return (
+    <Dialog open={!!conversationId} onOpenChange={(open) => !creating && onOpenChange(open)}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Link2 className="h-4 w-4" />
+            Share conversation
+          </DialogTitle>
+          <DialogDescription>
+            Anyone signed in with the link can read the conversation, but not write in it. You can revoke a link at any time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {messageId && (
+            <div className="grid grid-cols-2 gap-2">
+              {[
+                { value: true, label: "Up to this reply", hint: "Later messages stay private" },
+                { value: false, label: "Whole conversation", hint: "Includes what you add later" },
+              ].map((option) => (
+                <button
+                  key={option.label}
+                  type="button"
+                  onClick={() => setSnapshot(option.value)}
+                  className={cn(
+                    "rounded-lg border px-3 py-2 text-left transition-colors",
+                    snapshot === option.value
+                      ? "border-indigo-500 bg-indigo-50 dark:bg-indigo-950/40"
+                      : "border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800"
+                  )}
+                >
+                  <span className="block text-sm font-medium text-gray-900 dark:text-gray-100">{option.label}</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">{option.hint}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={escalate}
+              onChange={(e) => setEscalate(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-800 cursor-pointer"
+            />
+            Ask a TA to look at it; they can reply in this conversation
+          </label>
+          {escalate && (
+            <Textarea
+              placeholder="What is confusing about the answer? (optional)"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={2000}
+              rows={3}
+              className="resize-none text-sm"
+            />
+          )}
+
+          {shares.length > 0 && (
+            <div className="space-y-1.5">
+              <p className="text-xs font-medium text-gray-500 dark:text-gray-400">Active links</p>
+              <div className="max-h-48 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-800 border border-gray-100 dark:border-gray-800 rounded-lg">
+                {shares.map((share) => (
+                  <div key={share.id} className="flex items-center gap-2 px-3 py-2 text-xs">
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate font-mono text-gray-700 dark:text-gray-300">/share/{share.token}</p>
+                      <p className="flex items-center gap-1.5 text-gray-400 dark:text-gray-500">
+                        {share.messageId ? "Snapshot" : "Whole conversation"} · {new Date(share.createdAt).toLocaleDateString()}
+                        {share.escalatedAt && (
+                          <span className="inline-flex items-center gap-1 text-emerald-600 dark:text-emerald-400">
+                            · <GraduationCap className="h-3 w-3" />
+                            {share.resolvedAt ? "Resolved by staff" : "Sent to staff"}
+                          </span>
+                        )}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => copy(share)}
+                      className="p-1.5 rounded-md text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 hover:text-gray-700 dark:hover:text-gray-300"
+                      title="Copy link"
+                    >
+                      {copiedId === share.id ? <Check className="h-3.5 w-3.5 text-green-600" /> : <Copy className="h-3.5 w-3.5" />}
+                    </button>
+                    <button
+                      onClick={() => revoke(share)}
+                      className="p-1.5 rounded-md text-gray-400 hover:bg-red-100 dark:hover:bg-red-900/30 hover:text-red-600 dark:hover:text-red-400"
+                      title="Revoke link"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={creating}>
+            Close
+          </Button>
+          <Button onClick={create} disabled={creating} className="bg-indigo-600 hover:bg-indigo-700 text-white">
+            {creating && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            {escalate ? "Send to staff" : "Create link"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { Atom, Calculator, ExternalLink, FlaskConical, Loader2, Sigma, Wrench } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { JsonValue, ToolCallRecord } from "@/lib/ai/types";
+
+type Output = { [key: string]: JsonValue };
+
+const TOOL_LABELS: Record<string, { label: string; icon: React.ElementType }> = {
+  calculator: { label: "Calculator", icon: Calculator },
+  algebra: { label: "Algebra", icon: Sigma },
+  physical_constant: { label: "Physical constant", icon: Atom },
+  open_simulation: { label: "Simulation", icon: FlaskConical },
+};
+
+const str = (value: JsonValue | undefined) => (value === undefined || value === null ? "" : String(value));
+
+function CalculatorBody({ args, output }: { args: Output; output?: Output }) {
+  return (
+    <p className="font-mono text-xs text-gray-700 dark:text-gray-300 break-all">
+      {str(args.expression)}
+      {args.unit ? <span className="text-gray-400"> in {str(args.unit)}</span> : null}
+      {output && <span className="font-semibold text-gray-900 dark:text-gray-100"> = {str(output.text)}</span>}
+    </p>
+  );
+}
+
+function AlgebraBody({ args, output }: { args: Output; output?: Output }) {
+  const solutions = Array.isArray(output?.solutions) ? output.solutions : null;
+  return (
+    <div className="space-y-0.5 font-mono text-xs text-gray-700 dark:text-gray-300 break-all">
+      <p>{str(args.expression)}</p>
+      {output && output.expression !== args.expression && <p>= {str(output.expression)}</p>}
+      {output?.value !== undefined && <p className="font-semibold text-gray-900 dark:text-gray-100">= {str(output.value)}</p>}
+      {output?.derivative !== undefined && (
+        <p>
+          d/d{str(args.differentiate)}: {str(output.derivative)}
+          {output.derivativeValue !== undefined && ` = ${str(output.derivativeValue)}`}
+        </p>
+      )}
+      {solutions && (
+        <p className="font-semibold text-gray-900 dark:text-gray-100">
+          {solutions.length > 0
+            ? solutions.map((x) => `${str(output?.variable)} = ${str(x)}`).join(", ")
+            : `No real solution found for ${str(output?.variable)}`}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function ConstantsBody({ args, output }: { args: Output; output?: Output }) {
+  const constants = Array.isArray(output?.constants) ? (output.constants as Output[]) : null;
+  if (!constants) return <p className="text-xs text-gray-500 dark:text-gray-400">{str(args.query)}</p>;
+  return (
+    <ul className="space-y-0.5 text-xs text-gray-700 dark:text-gray-300">
+      {constants.map((c) => (
+        <li key={str(c.symbol)}>
+          <span className="font-mono font-semibold text-gray-900 dark:text-gray-100">
+            {str(c.symbol)} = {str(c.value)} {str(c.unit)}
+          </span>
+          <span className="text-gray-500 dark:text-gray-400"> · {str(c.name)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function SimulationBody({ args, output }: { args: Output; output?: Output }) {
+  if (!output) return <p className="text-xs text-gray-500 dark:text-gray-400">{str(args.query)}</p>;
+  const parameters = Object.entries((output.parameters as Output | undefined) ?? {});
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-gray-900 dark:text-gray-100">{str(output.title)}</p>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Section {str(output.section)}
+          {parameters.length > 0 && ` · ${parameters.map(([k, v]) => `${k}: ${str(v)}`).join(", ")}`}
+        </p>
+      </div>
+      <Link
+        href={str(output.url)}
+        target="_blank"
+        className="inline-flex items-center gap-1.5 rounded-lg bg-indigo-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-indigo-700 transition-colors"
+      >
+        Open simulation
+        <ExternalLink className="h-3 w-3" />
+      </Link>
+    </div>
+  );
+}
+
+/** One tool the tutor ran while answering: what it asked for and what came back. */
+export function ToolCallCard({ call }: { call: ToolCallRecord }) {
+  const { label, icon: Icon } = TOOL_LABELS[call.name] ?? { label: call.name, icon: Wrench };
+  const output = call.result?.ok ? call.result.output : undefined;
+  const Body =
+    call.name === "calculator"
+      ? CalculatorBody
+      : call.name === "algebra"
+        ? AlgebraBody
+        : call.name === "physical_constant"
+          ? ConstantsBody
+          : call.name === "open_simulation"
+            ? SimulationBody
+            : null;
+
+  return (
+    <div
+      className={cn(
+        "mb-2 rounded-lg border px-3 py-2",
+        call.result && !call.result.ok
+          ? "border-amber-200 dark:border-amber-900 bg-amber-50/50 dark:bg-amber-950/20"
+          : "border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/50"
+      )}
+    >
+      <p className="mb-1 flex items-center gap-1.5 text-[11px] font-medium text-gray-500 dark:text-gray-400">
+        <Icon className="h-3 w-3" />
+        {label}
+        {!call.result && <Loader2 className="h-3 w-3 animate-spin" />}
+      </p>
+      {Body ? (
+        <Body args={call.arguments} output={output} />
+      ) : (
+        <pre className="text-xs text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{JSON.stringify(call.arguments)}</pre>
+      )}
+      {call.result && !call.result.ok && (
+        <p className="mt-1 text-xs text-amber-700 dark:text-amber-400">{call.result.error}</p>
+      )}
+    </div>
+  );
+}
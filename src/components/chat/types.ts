@@ -1,13 +1,69 @@
+import type { Citation } from "@/lib/knowledge/citations";
+import type { QuestionContext } from "@/lib/ai/question-context";
+import type { ToolCallRecord, WebSource } from "@/lib/ai/types";
+
 export interface Message {
   id: string;
   role: "user" | "assistant";
   content: string;
   imageUrls?: string[];
+  /** Previous message on its branch */
+  parentId?: string | null;
+  /** This message and its alternatives from edits or regenerations, oldest first; absent without any */
+  siblingIds?: string[];
+  /** Reasoning summary or extended thinking streamed before the reply */
   thinking?: string;
+  /** Web pages the reply cited */
+  sources?: WebSource[];
+  /** Calculations, lookups and simulation links the tutor made for this reply, in order */
+  toolCalls?: ToolCallRecord[];
+  /** Course materials offered to the tutor for this reply */
+  citations?: Citation[];
+  /** Assistant replies: "streaming" while generated, "interrupted" if stopped or cut off */
+  status?: "streaming" | "complete" | "interrupted";
+  /** Always sent to the tutor, however long the conversation gets */
+  pinned?: boolean;
+  /** Replies a TA or instructor wrote in the thread rather than the tutor */
+  author?: { name: string; role: string };
 }
 
 export interface Conversation {
   id: string;
   title: string;
   updatedAt: string;
+  folderId: string | null;
+  tags: string[];
+  pinned: boolean;
+  /** Out of the way and not counted against the limit; listed under "Archived" once loaded */
+  archived: boolean;
+}
+
+/** What the sidebar can change about a conversation */
+export type ConversationChanges = Partial<Pick<Conversation, "folderId" | "tags" | "pinned" | "archived">>;
+
+export interface ConversationFolder {
+  id: string;
+  name: string;
+}
+
+/** The chat entry from `/api/user/quota` */
+export interface ChatQuota {
+  unit: "tokens" | "requests";
+  limit: number | null;
+  remaining: number | null;
+  allowed: boolean;
+  resetsAt: string;
+  throttled: boolean;
+  examWindow: { label: string | null; endsAt: string } | null;
+}
+
+/** The assignment question an "Ask AI" conversation is about */
+export interface ChatQuestion {
+  assignmentId: string;
+  assignmentTitle: string;
+  context: QuestionContext;
+  /** false once staff turn the tutor off for the assignment */
+  allowed: boolean;
+  /** Graded and still open: the tutor stays in Socratic mode */
+  socratic: boolean;
 }
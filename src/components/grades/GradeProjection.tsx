@@ -0,0 +1,80 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Target } from "lucide-react";
+import { requiredScore } from "@/lib/grading/gradebook";
+import type { StudentGradebook } from "@/types";
+
+const SELECT_CLASS =
+  "rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1.5 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+/** "What do I need on the final?" for one ungraded assignment and a target letter. */
+export function GradeProjection({ gradebook }: { gradebook: StudentGradebook }) {
+  const { assignments, cells, categories, letterScale } = gradebook;
+
+  const remaining = useMemo(
+    () =>
+      assignments.filter((a) => {
+        const cell = cells.find((c) => c.assignmentId === a.id);
+        return cell && cell.status !== "graded" && cell.status !== "excused" && a.totalPoints > 0;
+      }),
+    [assignments, cells]
+  );
+
+  // Default to the final exam if there is one, else the last assignment due
+  const [assignmentId, setAssignmentId] = useState(
+    () => (remaining.find((a) => /final/i.test(a.title)) ?? remaining[remaining.length - 1])?.id ?? ""
+  );
+  const [letter, setLetter] = useState(() => letterScale[Math.min(2, letterScale.length - 1)]?.letter ?? "");
+
+  if (remaining.length === 0) return null;
+
+  const assignment = remaining.find((a) => a.id === assignmentId);
+  const target = letterScale.find((s) => s.letter === letter);
+  const needed = assignment && target
+    ? requiredScore(categories, assignments, cells, assignment.id, target.min)
+    : undefined;
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-100 dark:border-gray-800 p-5 shadow-sm space-y-3">
+      <div className="flex items-center gap-2">
+        <div className="p-2 rounded-lg bg-gray-50 dark:bg-gray-800">
+          <Target className="h-4 w-4 text-gray-600 dark:text-gray-400" />
+        </div>
+        <h2 className="text-base font-semibold text-gray-900 dark:text-gray-100">What do I need?</h2>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+        To finish with
+        <select value={letter} onChange={(e) => setLetter(e.target.value)} className={SELECT_CLASS}>
+          {letterScale.map((s) => (
+            <option key={s.letter} value={s.letter}>
+              {s.letter} ({s.min}%+)
+            </option>
+          ))}
+        </select>
+        I need on
+        <select value={assignmentId} onChange={(e) => setAssignmentId(e.target.value)} className={`${SELECT_CLASS} max-w-[16rem]`}>
+          {remaining.map((a) => (
+            <option key={a.id} value={a.id}>
+              {a.title}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {assignment && needed !== undefined && (
+        <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+          {needed === null
+            ? `${letter} is out of reach on ${assignment.title} alone, even with full marks.`
+            : needed === 0
+              ? `You already have ${letter} secured, whatever you score.`
+              : `At least ${needed} / ${assignment.totalPoints} (${Math.ceil((needed / assignment.totalPoints) * 100)}%).`}
+        </p>
+      )}
+      <p className="text-xs text-gray-400 dark:text-gray-500">
+        Assumes your other grades stay as they are now; work that is not graded yet is left out.
+      </p>
+    </div>
+  );
+}
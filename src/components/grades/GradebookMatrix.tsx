@@ -0,0 +1,276 @@
+"use client";
+
+import React, { useState } from "react";
+import { Loader2, Search } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import type { GradebookAssignment, GradebookCell, GradebookStudentRow, StaffGradebook } from "@/types";
+
+interface CellEditorProps {
+  assignment: GradebookAssignment;
+  row: GradebookStudentRow;
+  cell: GradebookCell;
+  dropped: boolean;
+  onSaved: () => void;
+}
+
+/** One matrix cell; clicking it opens an editor for the override score, excused flag and note. */
+function GradeCell({ assignment, row, cell, dropped, onSaved }: CellEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [score, setScore] = useState("");
+  const [excused, setExcused] = useState(false);
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setScore(cell.overridden && cell.score !== null ? String(cell.score) : "");
+      setExcused(cell.excused);
+      setNote(cell.note ?? "");
+    }
+    setOpen(next);
+  };
+
+  const save = async (clear: boolean) => {
+    const value = score.trim() === "" ? null : Number(score);
+    if (!clear && value !== null && (isNaN(value) || value < 0)) {
+      toast.error("Enter a non-negative score");
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetch("/api/grades/overrides", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          assignmentId: assignment.id,
+          userId: row.user.id,
+          score: clear ? null : value,
+          excused: clear ? false : excused,
+          note: clear ? null : note.trim() || null,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        toast.error(data?.error || "Failed to save grade");
+        return;
+      }
+      setOpen(false);
+      onSaved();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const label = cell.excused
+    ? "EX"
+    : cell.score !== null
+      ? String(Math.round(cell.score * 100) / 100)
+      : cell.status === "missing"
+        ? "0"
+        : cell.status === "pending"
+          ? "…"
+          : "—";
+
+  const tone = cell.excused
+    ? "text-gray-400 dark:text-gray-500"
+    : cell.status === "missing"
+      ? "text-red-600 dark:text-red-400"
+      : cell.status === "pending"
+        ? "text-amber-600 dark:text-amber-400"
+        : "text-gray-900 dark:text-gray-100";
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          title={[
+            cell.status === "missing" && "Missing",
+            cell.status === "pending" && "Submitted, not graded",
+            cell.overridden && `Override (submission: ${cell.submissionScore ?? "none"})`,
+            dropped && "Dropped",
+            cell.note,
+          ].filter(Boolean).join(" · ") || undefined}
+          className={`relative w-full px-2 py-1.5 text-sm tabular-nums rounded hover:bg-indigo-50 dark:hover:bg-indigo-950/50 ${tone} ${dropped ? "line-through opacity-60" : ""}`}
+        >
+          {label}
+          {cell.overridden && (
+            <span className="absolute top-1 right-1 h-1.5 w-1.5 rounded-full bg-indigo-500" />
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-3 space-y-3" align="center">
+        <div>
+          <p className="text-sm font-medium truncate">{row.user.name || row.user.email}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+            {assignment.title} · submission {cell.submissionScore ?? "—"}/{assignment.totalPoints}
+          </p>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs">Override score</Label>
+          <Input
+            type="number"
+            min={0}
+            step="any"
+            placeholder="Use submission score"
+            value={score}
+            onChange={(e) => setScore(e.target.value)}
+            className="h-8 text-sm"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={excused}
+            onChange={(e) => setExcused(e.target.checked)}
+            className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 dark:border-gray-600 dark:bg-gray-800"
+          />
+          Excused (not counted)
+        </label>
+        <Input
+          placeholder="Note (visible to the student)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          className="h-8 text-sm"
+        />
+        <div className="flex justify-between gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => save(true)}
+            disabled={saving || (!cell.overridden && !cell.excused && !cell.note)}
+          >
+            Clear
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => save(false)}
+            disabled={saving}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white"
+          >
+            {saving && <Loader2 className="h-3.5 w-3.5 animate-spin mr-1.5" />}
+            Save
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface GradebookMatrixProps {
+  gradebook: StaffGradebook;
+  onChanged: () => void;
+}
+
+/** Students by assignments, with each student's course grade in the last columns. */
+export function GradebookMatrix({ gradebook, onChanged }: GradebookMatrixProps) {
+  const [search, setSearch] = useState("");
+  const { assignments, categories, students } = gradebook;
+
+  const query = search.trim().toLowerCase();
+  const rows = query
+    ? students.filter((s) =>
+        [s.user.name, s.user.email, s.user.studentId].some((v) => v?.toLowerCase().includes(query))
+      )
+    : students;
+
+  const graded = students.filter((s) => s.grade.percent !== null);
+  const classAverage = graded.length > 0
+    ? Math.round((graded.reduce((sum, s) => sum + (s.grade.percent as number), 0) / graded.length) * 100) / 100
+    : null;
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-100 dark:border-gray-800 overflow-hidden shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-4 border-b border-gray-100 dark:border-gray-800">
+        <div>
+          <h2 className="text-base font-semibold text-gray-900 dark:text-gray-100">Gradebook</h2>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {students.length} student{students.length !== 1 ? "s" : ""}
+            {classAverage !== null && ` · class average ${classAverage}%`} · click a cell to override or excuse
+          </p>
+        </div>
+        <div className="relative w-56">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-gray-400" />
+          <Input
+            placeholder="Search students"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="h-8 pl-8 text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-100 dark:border-gray-800 text-xs text-gray-500 dark:text-gray-400">
+              <th className="sticky left-0 z-10 bg-white dark:bg-gray-900 px-4 py-2 text-left font-medium min-w-[12rem]">
+                Student
+              </th>
+              {assignments.map((a) => (
+                <th key={a.id} className="px-2 py-2 font-medium text-center min-w-[5.5rem] max-w-[8rem]">
+                  <span className="block truncate text-gray-700 dark:text-gray-300" title={a.title}>
+                    {a.title}
+                  </span>
+                  <span className="block font-normal">
+                    {categories.find((c) => c.id === a.categoryId)?.name ?? "—"} · {a.totalPoints}
+                  </span>
+                </th>
+              ))}
+              <th className="px-3 py-2 font-medium text-center">Total</th>
+              <th className="px-3 py-2 font-medium text-center">Grade</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+            {rows.map((row) => {
+              const dropped = new Set(row.grade.categories.flatMap((c) => c.droppedAssignmentIds));
+              return (
+                <tr key={row.user.id} className="hover:bg-gray-50/50 dark:hover:bg-gray-800/50">
+                  <td className="sticky left-0 z-10 bg-white dark:bg-gray-900 px-4 py-1.5">
+                    <p className="font-medium text-gray-900 dark:text-gray-100 truncate">{row.user.name || row.user.email}</p>
+                    {row.user.studentId && (
+                      <p className="text-xs text-gray-400 dark:text-gray-500">{row.user.studentId}</p>
+                    )}
+                  </td>
+                  {assignments.map((a) => {
+                    const cell = row.cells.find((c) => c.assignmentId === a.id);
+                    return (
+                      <td key={a.id} className="px-1 text-center">
+                        {cell && (
+                          <GradeCell
+                            assignment={a}
+                            row={row}
+                            cell={cell}
+                            dropped={dropped.has(a.id)}
+                            onSaved={onChanged}
+                          />
+                        )}
+                      </td>
+                    );
+                  })}
+                  <td className="px-3 text-center font-semibold tabular-nums text-gray-900 dark:text-gray-100">
+                    {row.grade.percent !== null ? `${row.grade.percent}%` : "—"}
+                  </td>
+                  <td className="px-3 text-center font-semibold text-gray-900 dark:text-gray-100">
+                    {row.grade.letter ?? "—"}
+                  </td>
+                </tr>
+              );
+            })}
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={assignments.length + 3} className="px-6 py-10 text-center text-sm text-gray-500 dark:text-gray-400">
+                  {students.length === 0 ? "No students are enrolled in this course yet." : "No students match your search."}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
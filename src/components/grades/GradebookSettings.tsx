@@ -0,0 +1,284 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Plus, Trash2, Loader2, Settings2, AlertTriangle } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { GradebookCategory, LetterGradeThreshold, StaffGradebook } from "@/types";
+
+const SELECT_CLASS =
+  "rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+async function send(url: string, method: string, body?: unknown): Promise<boolean> {
+  const res = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => null);
+    toast.error(data?.error || "Failed to save");
+  }
+  return res.ok;
+}
+
+function CategoryRow({ category, onChanged }: { category: GradebookCategory; onChanged: () => void }) {
+  const [name, setName] = useState(category.name);
+  const [weight, setWeight] = useState(String(category.weight));
+  const [dropLowest, setDropLowest] = useState(String(category.dropLowest));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setName(category.name);
+    setWeight(String(category.weight));
+    setDropLowest(String(category.dropLowest));
+  }, [category]);
+
+  const dirty =
+    name.trim() !== category.name ||
+    Number(weight) !== category.weight ||
+    Number(dropLowest) !== category.dropLowest;
+
+  const save = async () => {
+    setSaving(true);
+    const ok = await send(`/api/grades/categories/${category.id}`, "PATCH", {
+      name: name.trim(),
+      weight: Number(weight),
+      dropLowest: Math.max(0, Math.floor(Number(dropLowest))),
+    });
+    setSaving(false);
+    if (ok) onChanged();
+  };
+
+  const remove = async () => {
+    setSaving(true);
+    const ok = await send(`/api/grades/categories/${category.id}`, "DELETE");
+    setSaving(false);
+    if (ok) onChanged();
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input value={name} onChange={(e) => setName(e.target.value)} className="h-8 text-sm flex-1" />
+      <Input type="number" min={0} max={100} value={weight} onChange={(e) => setWeight(e.target.value)} className="h-8 text-sm w-20" />
+      <Input type="number" min={0} value={dropLowest} onChange={(e) => setDropLowest(e.target.value)} className="h-8 text-sm w-20" />
+      <Button
+        size="sm"
+        variant="outline"
+        className="h-8 w-14"
+        onClick={save}
+        disabled={saving || !dirty || !name.trim()}
+      >
+        {saving ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : "Save"}
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0 text-gray-400 hover:text-red-600"
+        title="Delete category (its assignments become uncategorized)"
+        onClick={remove}
+        disabled={saving}
+      >
+        <Trash2 className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  );
+}
+
+interface GradebookSettingsProps {
+  gradebook: StaffGradebook;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChanged: () => void;
+}
+
+/** Grade categories, the assignment-to-category mapping and the letter scale of the active course. */
+export function GradebookSettings({ gradebook, open, onOpenChange, onChanged }: GradebookSettingsProps) {
+  const { categories, assignments, course } = gradebook;
+  const [newName, setNewName] = useState("");
+  const [newWeight, setNewWeight] = useState("");
+  const [newDrop, setNewDrop] = useState("0");
+  const [adding, setAdding] = useState(false);
+  const [scale, setScale] = useState<LetterGradeThreshold[]>(gradebook.letterScale);
+  const [savingScale, setSavingScale] = useState(false);
+
+  useEffect(() => {
+    if (open) setScale(gradebook.letterScale);
+  }, [open, gradebook.letterScale]);
+
+  const totalWeight = categories.reduce((sum, c) => sum + c.weight, 0);
+
+  const addCategory = async () => {
+    if (!newName.trim()) return;
+    setAdding(true);
+    const ok = await send("/api/grades/categories", "POST", {
+      name: newName.trim(),
+      weight: Number(newWeight) || 0,
+      dropLowest: Math.max(0, Math.floor(Number(newDrop) || 0)),
+    });
+    setAdding(false);
+    if (ok) {
+      setNewName("");
+      setNewWeight("");
+      setNewDrop("0");
+      onChanged();
+    }
+  };
+
+  const setAssignmentCategory = async (assignmentId: string, categoryId: string) => {
+    const ok = await send(`/api/assignments/${assignmentId}`, "PATCH", { categoryId: categoryId || null });
+    if (ok) onChanged();
+  };
+
+  const saveScale = async (value: LetterGradeThreshold[] | null) => {
+    if (!course) return;
+    setSavingScale(true);
+    const ok = await send(`/api/courses/${course.id}`, "PATCH", { letterScale: value });
+    setSavingScale(false);
+    if (ok) {
+      toast.success("Letter scale saved");
+      onChanged();
+    }
+  };
+
+  const updateScale = (index: number, patch: Partial<LetterGradeThreshold>) =>
+    setScale((prev) => prev.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Settings2 className="h-5 w-5 text-indigo-500" />
+            Gradebook Settings
+          </DialogTitle>
+          <DialogDescription>
+            Categories are weighted percentages of the course grade. Each category can drop its lowest scores.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Categories */}
+        <section className="space-y-2">
+          <div className="flex items-center gap-2 text-xs font-medium text-gray-500 dark:text-gray-400">
+            <span className="flex-1">Category</span>
+            <span className="w-20">Weight %</span>
+            <span className="w-20">Drop lowest</span>
+            <span className="w-[5.5rem]" />
+          </div>
+          {categories.map((c) => (
+            <CategoryRow key={c.id} category={c} onChanged={onChanged} />
+          ))}
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder="e.g. Homework"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              className="h-8 text-sm flex-1"
+            />
+            <Input type="number" min={0} max={100} placeholder="0" value={newWeight} onChange={(e) => setNewWeight(e.target.value)} className="h-8 text-sm w-20" />
+            <Input type="number" min={0} value={newDrop} onChange={(e) => setNewDrop(e.target.value)} className="h-8 text-sm w-20" />
+            <Button
+              size="sm"
+              onClick={addCategory}
+              disabled={adding || !newName.trim()}
+              className="h-8 w-[5.5rem] gap-1 bg-indigo-600 hover:bg-indigo-700 text-white"
+            >
+              {adding ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Plus className="h-3.5 w-3.5" />}
+              Add
+            </Button>
+          </div>
+          {categories.length > 0 && totalWeight !== 100 && (
+            <p className="flex items-center gap-1.5 text-xs text-amber-600 dark:text-amber-400">
+              <AlertTriangle className="h-3.5 w-3.5" />
+              Weights add up to {totalWeight}%; grades are scaled to the categories with graded work.
+            </p>
+          )}
+        </section>
+
+        {/* Assignment mapping */}
+        {categories.length > 0 && assignments.length > 0 && (
+          <section className="space-y-2 pt-2 border-t border-gray-100 dark:border-gray-800">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 pt-2">Assignments</h3>
+            {assignments.map((a) => (
+              <div key={a.id} className="flex items-center justify-between gap-3 text-sm">
+                <span className="truncate text-gray-700 dark:text-gray-300">{a.title}</span>
+                <select
+                  value={a.categoryId ?? ""}
+                  onChange={(e) => setAssignmentCategory(a.id, e.target.value)}
+                  className={SELECT_CLASS}
+                >
+                  <option value="">Uncategorized (not counted)</option>
+                  {categories.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </section>
+        )}
+
+        {/* Letter scale */}
+        <section className="space-y-2 pt-2 border-t border-gray-100 dark:border-gray-800">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 pt-2">Letter scale</h3>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+            {scale.map((s, i) => (
+              <div key={i} className="flex items-center gap-1">
+                <Input
+                  value={s.letter}
+                  onChange={(e) => updateScale(i, { letter: e.target.value })}
+                  className="h-8 text-sm w-14"
+                />
+                <span className="text-xs text-gray-400">≥</span>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={s.min}
+                  onChange={(e) => updateScale(i, { min: Number(e.target.value) })}
+                  className="h-8 text-sm w-16"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-6 p-0 text-gray-400 hover:text-red-600"
+                  onClick={() => setScale((prev) => prev.filter((_, j) => j !== i))}
+                  disabled={scale.length <= 1}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setScale((prev) => [...prev, { letter: "", min: 0 }])}>
+              <Plus className="h-3.5 w-3.5 mr-1" />
+              Add letter
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => saveScale(null)} disabled={savingScale}>
+              Reset to default
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => saveScale(scale)}
+              disabled={savingScale || scale.some((s) => !s.letter.trim())}
+              className="ml-auto bg-indigo-600 hover:bg-indigo-700 text-white"
+            >
+              {savingScale && <Loader2 className="h-3.5 w-3.5 animate-spin mr-1.5" />}
+              Save scale
+            </Button>
+          </div>
+        </section>
+      </DialogContent>
+    </Dialog>
+  );
+}
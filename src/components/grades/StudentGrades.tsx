@@ -0,0 +1,241 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import {
+  GraduationCap,
+  CheckCircle2,
+  Clock,
+  TrendingUp,
+  Award,
+  BarChart3,
+  AlertCircle,
+  CalendarClock,
+} from "lucide-react";
+import { EmptyState } from "@/components/ui/empty-state";
+import { Badge } from "@/components/ui/badge";
+import { formatShortDate } from "@/lib/utils";
+import { GradeProjection } from "@/components/grades/GradeProjection";
+import type { StudentGradebook } from "@/types";
+
+export function getScoreColor(score: number, total: number) {
+  const pct = total > 0 ? (score / total) * 100 : 100;
+  if (pct >= 80) return { text: "text-emerald-700 dark:text-emerald-400", bg: "bg-emerald-500", light: "bg-emerald-50 dark:bg-emerald-950/50", border: "border-emerald-200 dark:border-emerald-800" };
+  if (pct >= 60) return { text: "text-amber-700 dark:text-amber-400", bg: "bg-amber-500", light: "bg-amber-50 dark:bg-amber-950/50", border: "border-amber-200 dark:border-amber-800" };
+  return { text: "text-red-700 dark:text-red-400", bg: "bg-red-500", light: "bg-red-50 dark:bg-red-950/50", border: "border-red-200 dark:border-red-800" };
+}
+
+export function StudentGrades({ gradebook }: { gradebook: StudentGradebook }) {
+  const { assignments, cells, grade, categories } = gradebook;
+  const cellFor = (assignmentId: string) => cells.find((c) => c.assignmentId === assignmentId);
+  const dropped = new Set(grade.categories.flatMap((c) => c.droppedAssignmentIds));
+  const categoryName = (id: string | null) => categories.find((c) => c.id === id)?.name;
+
+  const gradedCells = cells.filter((c) => c.status === "graded");
+  const totalEarned = gradedCells.reduce((sum, c) => sum + (c.score ?? 0), 0);
+  const totalPossible = gradedCells.reduce(
+    (sum, c) => sum + (assignments.find((a) => a.id === c.assignmentId)?.totalPoints ?? 0),
+    0
+  );
+  const pendingCount = cells.filter((c) => c.status === "pending").length;
+  const shownCategories = grade.categories.filter((c) => c.categoryId !== null || categories.length > 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Summary Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-100 dark:border-gray-800 p-5 shadow-sm">
+          <div className="flex items-center gap-2 mb-3">
+            <div className="p-2 rounded-lg bg-gray-50 dark:bg-gray-800">
+              <TrendingUp className="h-4 w-4 text-gray-600 dark:text-gray-400" />
+            </div>
+            <span className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Course Grade</span>
+          </div>
+          <p className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+            {grade.percent !== null ? `${grade.percent}%` : "—"}
+          </p>
+          <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+            {grade.letter ? `Letter Grade: ${grade.letter}` : "No graded work yet"}
+          </p>
+        </div>
+
+        <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-100 dark:border-gray-800 p-5 shadow-sm">
+          <div className="flex items-center gap-2 mb-3">
+            <div className="p-2 rounded-lg bg-gray-50 dark:bg-gray-800">
+              <Award className="h-4 w-4 text-gray-600 dark:text-gray-400" />
+            </div>
+            <span className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Points</span>
+          </div>
+          <p className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+            {Math.round(totalEarned * 100) / 100}
+            <span className="text-lg text-gray-400 dark:text-gray-500 font-normal">/{totalPossible}</span>
+          </p>
+          <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">Total points earned</p>
+        </div>
+
+        <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-100 dark:border-gray-800 p-5 shadow-sm">
+          <div className="flex items-center gap-2 mb-3">
+            <div className="p-2 rounded-lg bg-gray-50 dark:bg-gray-800">
+              <BarChart3 className="h-4 w-4 text-gray-600 dark:text-gray-400" />
+            </div>
+            <span className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Graded</span>
+          </div>
+          <p className="text-3xl font-bold text-gray-900 dark:text-gray-100">{gradedCells.length}</p>
+          <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">Assignments graded</p>
+        </div>
+
+        <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-100 dark:border-gray-800 p-5 shadow-sm">
+          <div className="flex items-center gap-2 mb-3">
+            <div className="p-2 rounded-lg bg-gray-50 dark:bg-gray-800">
+              <Clock className="h-4 w-4 text-gray-600 dark:text-gray-400" />
+            </div>
+            <span className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Pending</span>
+          </div>
+          <p className="text-3xl font-bold text-gray-900 dark:text-gray-100">{pendingCount}</p>
+          <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">Awaiting grading</p>
+        </div>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        {/* Category breakdown */}
+        {shownCategories.length > 0 && (
+          <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-100 dark:border-gray-800 p-5 shadow-sm space-y-3">
+            <h2 className="text-base font-semibold text-gray-900 dark:text-gray-100">Categories</h2>
+            {shownCategories.map((c) => (
+              <div key={c.categoryId ?? "none"} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-gray-700 dark:text-gray-300">
+                    {c.name}
+                    <span className="text-xs text-gray-400 dark:text-gray-500 ml-1.5">
+                      {c.weight > 0 ? `${c.weight}%` : "not counted"}
+                      {c.droppedAssignmentIds.length > 0 && ` · ${c.droppedAssignmentIds.length} dropped`}
+                    </span>
+                  </span>
+                  <span className="font-semibold text-gray-900 dark:text-gray-100">
+                    {c.percent !== null ? `${c.percent}%` : "—"}
+                  </span>
+                </div>
+                <div className="h-1.5 bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
+                  {c.percent !== null && (
+                    <div
+                      className={`h-full rounded-full ${getScoreColor(c.percent, 100).bg}`}
+                      style={{ width: `${Math.min(100, c.percent)}%` }}
+                    />
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <GradeProjection gradebook={gradebook} />
+      </div>
+
+      {/* Grades List */}
+      {assignments.length === 0 ? (
+        <EmptyState
+          icon={GraduationCap}
+          title="No grades yet"
+          description="Submit assignments to see your grades here."
+        />
+      ) : (
+        <div className="bg-white dark:bg-gray-900 rounded-2xl border border-gray-100 dark:border-gray-800 overflow-hidden shadow-sm">
+          <div className="px-6 py-4 border-b border-gray-100 dark:border-gray-800">
+            <h2 className="text-base font-semibold text-gray-900 dark:text-gray-100">All Grades</h2>
+          </div>
+          <div className="divide-y divide-gray-100 dark:divide-gray-800" role="list" aria-label="Grade entries">
+            {assignments.map((assignment) => {
+              const cell = cellFor(assignment.id);
+              if (!cell) return null;
+              const scored = cell.score !== null && !cell.excused;
+              const pct = scored && assignment.totalPoints > 0
+                ? Math.round(((cell.score as number) / assignment.totalPoints) * 100)
+                : 0;
+              const colors = scored ? getScoreColor(cell.score as number, assignment.totalPoints) : null;
+              const category = categoryName(assignment.categoryId);
+
+              return (
+                <Link
+                  href={`/assignments/${assignment.id}`}
+                  key={assignment.id}
+                  role="listitem"
+                  className={`flex items-center gap-4 px-6 py-4 hover:bg-gray-50/50 dark:hover:bg-gray-800/50 transition-colors ${
+                    dropped.has(assignment.id) || cell.excused ? "opacity-60" : ""
+                  }`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 dark:text-gray-100 truncate hover:underline">
+                      {assignment.title}
+                    </p>
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1.5">
+                      <Badge variant="secondary" className="text-xs font-medium bg-gray-50 dark:bg-gray-800 text-gray-600 dark:text-gray-400 border-gray-200 dark:border-gray-700">
+                        {category ?? (assignment.type === "QUIZ" ? "Quiz" : "File Upload")}
+                      </Badge>
+                      {assignment.dueDate && (
+                        <span className="text-xs text-gray-400 dark:text-gray-500">
+                          Due {formatShortDate(assignment.dueDate)}
+                        </span>
+                      )}
+                      {dropped.has(assignment.id) && (
+                        <span className="text-xs font-medium text-gray-500 dark:text-gray-400">Dropped (lowest score)</span>
+                      )}
+                      {cell.overridden && (
+                        <span className="text-xs font-medium text-indigo-600 dark:text-indigo-400">Adjusted by staff</span>
+                      )}
+                      {cell.note && (
+                        <span className="text-xs text-gray-400 dark:text-gray-500 truncate">{cell.note}</span>
+                      )}
+                    </div>
+                  </div>
+
+                  {cell.excused ? (
+                    <div className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400 shrink-0">
+                      <CheckCircle2 className="h-4 w-4" />
+                      <span className="text-sm font-medium">Excused</span>
+                    </div>
+                  ) : scored && colors ? (
+                    <div className="flex items-center gap-4 shrink-0">
+                      {/* Progress bar */}
+                      <div className="w-32 hidden sm:block">
+                        <div className="h-2 bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
+                          <div
+                            className={`h-full rounded-full transition-all duration-500 ${colors.bg}`}
+                            style={{ width: `${Math.min(100, pct)}%` }}
+                          />
+                        </div>
+                      </div>
+                      <div className={`flex items-center gap-2 px-3 py-1.5 rounded-lg ${colors.light} ${colors.border} border`}>
+                        <CheckCircle2 className={`h-4 w-4 ${colors.text}`} />
+                        <span className={`text-sm font-bold ${colors.text}`}>
+                          {cell.score}/{assignment.totalPoints}
+                        </span>
+                        <span className={`text-xs font-medium ${colors.text} opacity-70`}>
+                          ({pct}%)
+                        </span>
+                      </div>
+                    </div>
+                  ) : cell.status === "missing" ? (
+                    <div className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-red-50 dark:bg-red-950/50 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 shrink-0">
+                      <AlertCircle className="h-4 w-4" />
+                      <span className="text-sm font-medium">Missing (0/{assignment.totalPoints})</span>
+                    </div>
+                  ) : cell.status === "upcoming" ? (
+                    <div className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-400 dark:text-gray-500 shrink-0">
+                      <CalendarClock className="h-4 w-4" />
+                      <span className="text-sm font-medium">Not submitted</span>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-400 dark:text-gray-500 shrink-0">
+                      <Clock className="h-4 w-4" />
+                      <span className="text-sm font-medium">Pending</span>
+                    </div>
+                  )}
+                </Link>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
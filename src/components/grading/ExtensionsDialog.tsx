@@ -0,0 +1,244 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { CalendarClock, Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { formatShortDate } from "@/lib/utils";
+import { describeLatePolicy } from "@/lib/grading/late-policy";
+import { formatTimeLimit } from "@/lib/grading/time-limit";
+import type { AssignmentInfo } from "./types";
+
+interface StudentOption {
+  id: string;
+  name: string | null;
+  email: string;
+  studentId: string | null;
+}
+
+interface Extension {
+  id: string;
+  userId: string;
+  dueDate: string | null;
+  extraMinutes: number;
+  reason: string | null;
+  user: StudentOption;
+  grantedBy: { name: string | null };
+}
+
+const SELECT_CLASS =
+  "w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+/** `YYYY-MM-DDTHH:mm` in local time, for datetime-local inputs */
+function toLocalInput(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+interface ExtensionsDialogProps {
+  assignmentId: string;
+  assignmentInfo: AssignmentInfo | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after an extension changes, since it can change a submission's late penalty */
+  onChanged: () => void;
+}
+
+/** Per-student due date extensions and extra quiz time for one assignment. */
+export function ExtensionsDialog({ assignmentId, assignmentInfo, open, onOpenChange, onChanged }: ExtensionsDialogProps) {
+  const [extensions, setExtensions] = useState<Extension[]>([]);
+  const [students, setStudents] = useState<StudentOption[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [userId, setUserId] = useState("");
+  const [dueDate, setDueDate] = useState("");
+  const [extraMinutes, setExtraMinutes] = useState("");
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  const timed = !!assignmentInfo?.timeLimitMinutes;
+  const extra = Math.max(0, Math.round(Number(extraMinutes) || 0));
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/assignments/${assignmentId}/extensions`);
+      if (!res.ok) throw new Error("Failed to load extensions");
+      const data = await res.json();
+      setExtensions(data.extensions || []);
+      setStudents(data.students || []);
+    } catch {
+      toast.error("Failed to load extensions");
+    } finally {
+      setLoading(false);
+    }
+  }, [assignmentId]);
+
+  useEffect(() => {
+    if (!open) return;
+    load();
+    // Default the new due date to a day after the original one; timed quizzes
+    // usually only need extra time, so leave theirs blank
+    const base = assignmentInfo?.dueDate ? new Date(assignmentInfo.dueDate) : new Date();
+    setDueDate(timed ? "" : toLocalInput(new Date(base.getTime() + 24 * 60 * 60 * 1000)));
+    setExtraMinutes("");
+    setUserId("");
+    setReason("");
+  }, [open, load, assignmentInfo?.dueDate, timed]);
+
+  const grant = async () => {
+    if (!userId || (!dueDate && extra === 0)) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/assignments/${assignmentId}/extensions`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          userId,
+          dueDate: dueDate ? new Date(dueDate).toISOString() : null,
+          extraMinutes: extra,
+          reason: reason.trim() || null,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        toast.error(data?.error || "Failed to grant extension");
+        return;
+      }
+      toast.success("Extension granted");
+      setUserId("");
+      setReason("");
+      setExtraMinutes("");
+      await load();
+      onChanged();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const revoke = async (studentId: string) => {
+    setRevoking(studentId);
+    try {
+      const res = await fetch(`/api/assignments/${assignmentId}/extensions?userId=${studentId}`, { method: "DELETE" });
+      if (!res.ok) {
+        toast.error("Failed to revoke extension");
+        return;
+      }
+      await load();
+      onChanged();
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5 text-indigo-500" />
+            Extensions
+          </DialogTitle>
+          <DialogDescription>
+            {assignmentInfo?.dueDate
+              ? `Due ${formatShortDate(assignmentInfo.dueDate)}. ${describeLatePolicy(assignmentInfo.latePolicy)}`
+              : "This assignment has no due date."}
+            {assignmentInfo?.timeLimitMinutes && ` Time limit: ${formatTimeLimit(assignmentInfo.timeLimitMinutes)}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="space-y-1.5">
+            <Label>Student</Label>
+            <select value={userId} onChange={(e) => setUserId(e.target.value)} className={SELECT_CLASS}>
+              <option value="">Select a student…</option>
+              {students.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name || s.email}
+                  {s.studentId ? ` (${s.studentId})` : ""}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className={`grid grid-cols-1 gap-3 ${timed ? "sm:grid-cols-3" : "sm:grid-cols-2"}`}>
+            <div className="space-y-1.5">
+              <Label>New due date{timed && " (optional)"}</Label>
+              <Input type="datetime-local" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+            </div>
+            {timed && (
+              <div className="space-y-1.5">
+                <Label>Extra time (minutes)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={1440}
+                  value={extraMinutes}
+                  onChange={(e) => setExtraMinutes(e.target.value)}
+                  placeholder="0"
+                />
+              </div>
+            )}
+            <div className="space-y-1.5">
+              <Label>Reason (optional)</Label>
+              <Input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="e.g. medical" />
+            </div>
+          </div>
+          <Button
+            onClick={grant}
+            disabled={saving || !userId || (!dueDate && extra === 0)}
+            className="w-full bg-indigo-600 hover:bg-indigo-700 text-white"
+          >
+            {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Grant Extension
+          </Button>
+        </div>
+
+        <div className="border-t border-gray-100 dark:border-gray-800 pt-3 space-y-2">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Granted ({extensions.length})</h3>
+          {loading && extensions.length === 0 ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+            </div>
+          ) : extensions.length === 0 ? (
+            <p className="text-xs text-gray-400 dark:text-gray-500">No extensions yet.</p>
+          ) : (
+            extensions.map((ext) => (
+              <div key={ext.id} className="flex items-center justify-between gap-3 rounded-lg border border-gray-100 dark:border-gray-800 px-3 py-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                    {ext.user.name || ext.user.email}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {ext.dueDate ? `Due ${formatShortDate(ext.dueDate)}` : "Original due date"}
+                    {ext.extraMinutes > 0 && ` · +${formatTimeLimit(ext.extraMinutes)}`}
+                    {ext.reason && ` · ${ext.reason}`}
+                    {ext.grantedBy.name && ` · by ${ext.grantedBy.name}`}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 text-gray-400 hover:text-red-600"
+                  title="Revoke extension"
+                  onClick={() => revoke(ext.userId)}
+                  disabled={revoking === ext.userId}
+                >
+                  {revoking === ext.userId ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Trash2 className="h-3.5 w-3.5" />}
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,6 +6,8 @@ import {
   Sparkles,
   MessageSquare,
   CheckCircle2,
+  XCircle,
+  Dices,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -13,17 +15,32 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { MarkdownContent } from "@/components/ui/markdown-content";
 import { ImageUpload } from "@/components/ui/image-upload";
+import { MC_SCORING_LABELS } from "@/lib/grading/multiple-choice";
+import { describeParameterValues } from "@/lib/grading/parameters";
+import type { RubricScoringMode } from "@/lib/grading/rubric";
 import { AppealThread } from "./AppealThread";
-import type { SubmissionAnswer, Appeal } from "./types";
+import { RubricPanel } from "./RubricPanel";
+import type { SubmissionAnswer, Appeal, AnswerGrade, QuestionRubric } from "./types";
 
 interface GradingPanelProps {
   answers: SubmissionAnswer[];
-  grades: Record<string, { score: number; feedback: string }>;
+  grades: Record<string, AnswerGrade>;
   onGradeChange: (
     answerId: string,
     field: "score" | "feedback",
     value: number | string
   ) => void;
+  /** Rubric per question ID */
+  rubrics: Record<string, QuestionRubric>;
+  onToggleRubricItem: (answerId: string, questionId: string, itemId: string) => void;
+  onCreateRubricItem: (questionId: string, description: string, points: number) => Promise<void>;
+  onUpdateRubricItem: (
+    questionId: string,
+    itemId: string,
+    patch: { description: string; points: number }
+  ) => Promise<void>;
+  onDeleteRubricItem: (questionId: string, itemId: string) => Promise<void>;
+  onRubricScoringChange: (questionId: string, scoring: RubricScoringMode) => void;
   confirmedAnswers: Set<string>;
   onToggleConfirm: (answerId: string) => void;
   aiLoading: string | null;
@@ -53,6 +70,12 @@ export function GradingPanel({
   answers,
   grades,
   onGradeChange,
+  rubrics,
+  onToggleRubricItem,
+  onCreateRubricItem,
+  onUpdateRubricItem,
+  onDeleteRubricItem,
+  onRubricScoringChange,
   confirmedAnswers,
   onToggleConfirm,
   aiLoading,
@@ -106,6 +129,15 @@ export function GradingPanel({
               className="text-sm text-gray-700 dark:text-gray-300 leading-relaxed"
             />
 
+            {answer.parameterValues && (
+              <div className="flex items-center gap-1.5 text-xs text-purple-700 dark:text-purple-400">
+                <Dices className="h-3.5 w-3.5 shrink-0" />
+                <span>
+                  Student&apos;s values: {describeParameterValues(answer.parameterValues)}
+                </span>
+              </div>
+            )}
+
             {/* Student Answer */}
             <div
               className={`rounded-lg p-4 border ${
@@ -152,6 +184,60 @@ export function GradingPanel({
                 )}
             </div>
 
+            {/* Auto-grader explanation */}
+            {answer.autoGradeDetail && (
+              <div
+                className={`flex items-start gap-2 rounded-lg px-4 py-3 border text-sm ${
+                  answer.autoGradeDetail.correct
+                    ? "bg-emerald-50 dark:bg-emerald-950/30 border-emerald-200 dark:border-emerald-900 text-emerald-700 dark:text-emerald-400"
+                    : "bg-red-50 dark:bg-red-950/30 border-red-200 dark:border-red-900 text-red-700 dark:text-red-400"
+                }`}
+              >
+                {answer.autoGradeDetail.correct ? (
+                  <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0" />
+                ) : (
+                  <XCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                )}
+                <div className="space-y-0.5">
+                  <p className="font-medium">
+                    {answer.autoGradeDetail.correct
+                      ? "Accepted"
+                      : answer.autoGradeDetail.credit > 0
+                        ? "Partial credit"
+                        : "Rejected"}
+                    : {answer.autoGradeDetail.reason}
+                  </p>
+                  {answer.autoGradeDetail.kind === "numeric" &&
+                    answer.autoGradeDetail.notes.map((note, i) => (
+                      <p key={i} className="text-xs opacity-80">
+                        {note}
+                      </p>
+                    ))}
+                  {answer.autoGradeDetail.kind === "choice" &&
+                    answer.autoGradeDetail.multiSelect && (
+                      <p className="text-xs opacity-80">
+                        Select all that apply · {MC_SCORING_LABELS[answer.autoGradeDetail.scoring]} ·{" "}
+                        {Math.round(answer.autoGradeDetail.credit * 100)}% credit
+                      </p>
+                    )}
+                </div>
+              </div>
+            )}
+
+            {/* Rubric */}
+            {!answer.autoGraded && (
+              <RubricPanel
+                rubric={rubrics[answer.questionId] ?? { scoring: "positive", items: [] }}
+                maxPoints={answer.maxPoints}
+                appliedIds={grades[answer.id]?.rubricItemIds ?? []}
+                onToggle={(itemId) => onToggleRubricItem(answer.id, answer.questionId, itemId)}
+                onCreate={(description, points) => onCreateRubricItem(answer.questionId, description, points)}
+                onUpdate={(itemId, patch) => onUpdateRubricItem(answer.questionId, itemId, patch)}
+                onDelete={(itemId) => onDeleteRubricItem(answer.questionId, itemId)}
+                onScoringChange={(scoring) => onRubricScoringChange(answer.questionId, scoring)}
+              />
+            )}
+
             {/* Score + Confirm + AI Assist */}
             <div className="flex items-end gap-4">
               <div className="space-y-1.5 flex-1 max-w-[200px]">
@@ -167,7 +253,12 @@ export function GradingPanel({
                     onChange={(e) =>
                       onGradeChange(answer.id, "score", Number(e.target.value))
                     }
-                    disabled={answer.autoGraded}
+                    disabled={answer.autoGraded || !!grades[answer.id]?.rubricItemIds?.length}
+                    title={
+                      grades[answer.id]?.rubricItemIds?.length
+                        ? "Score is computed from the applied rubric items"
+                        : undefined
+                    }
                     className="font-semibold text-center"
                   />
                   {!answer.autoGraded && (
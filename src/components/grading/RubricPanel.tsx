@@ -0,0 +1,228 @@
+"use client";
+
+import React, { useState } from "react";
+import { Check, ListChecks, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { MarkdownContent } from "@/components/ui/markdown-content";
+import {
+  RUBRIC_SCORING_LABELS,
+  RUBRIC_SCORING_MODES,
+  computeRubricScore,
+  formatRubricPoints,
+  type RubricScoringMode,
+} from "@/lib/grading/rubric";
+import type { QuestionRubric } from "./types";
+
+interface RubricPanelProps {
+  rubric: QuestionRubric;
+  maxPoints: number;
+  appliedIds: string[];
+  onToggle: (itemId: string) => void;
+  onCreate: (description: string, points: number) => Promise<void>;
+  onUpdate: (itemId: string, patch: { description: string; points: number }) => Promise<void>;
+  onDelete: (itemId: string) => Promise<void>;
+  onScoringChange: (scoring: RubricScoringMode) => void;
+}
+
+export function RubricPanel({
+  rubric,
+  maxPoints,
+  appliedIds,
+  onToggle,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onScoringChange,
+}: RubricPanelProps) {
+  const [newDescription, setNewDescription] = useState("");
+  const [newPoints, setNewPoints] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDescription, setEditDescription] = useState("");
+  const [editPoints, setEditPoints] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const applied = rubric.items.filter((item) => appliedIds.includes(item.id));
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () => {
+    const points = Number(newPoints);
+    if (!newDescription.trim() || newPoints.trim() === "" || !Number.isFinite(points)) return;
+    run(async () => {
+      await onCreate(newDescription.trim(), points);
+      setNewDescription("");
+      setNewPoints("");
+    });
+  };
+
+  const startEdit = (itemId: string) => {
+    const item = rubric.items.find((i) => i.id === itemId);
+    if (!item) return;
+    setEditingId(itemId);
+    setEditDescription(item.description);
+    setEditPoints(String(item.points));
+  };
+
+  const handleSaveEdit = () => {
+    const points = Number(editPoints);
+    if (!editingId || !editDescription.trim() || !Number.isFinite(points)) return;
+    const itemId = editingId;
+    run(async () => {
+      await onUpdate(itemId, { description: editDescription.trim(), points });
+      setEditingId(null);
+    });
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1.5">
+          <ListChecks className="h-3.5 w-3.5 text-gray-400 dark:text-gray-500" />
+          <p className="text-xs font-semibold text-gray-600 dark:text-gray-400">Rubric</p>
+          {applied.length > 0 && (
+            <span className="text-xs text-gray-400 dark:text-gray-500">
+              · {computeRubricScore(maxPoints, rubric.scoring, applied.map((i) => i.points))}/{maxPoints} from {applied.length} item{applied.length === 1 ? "" : "s"}
+            </span>
+          )}
+        </div>
+        <Select
+          value={rubric.scoring}
+          onValueChange={(v) => onScoringChange(v as RubricScoringMode)}
+        >
+          <SelectTrigger className="h-7 w-auto text-xs gap-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RUBRIC_SCORING_MODES.map((mode) => (
+              <SelectItem key={mode} value={mode} className="text-xs">
+                {RUBRIC_SCORING_LABELS[mode]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {rubric.items.map((item) =>
+        editingId === item.id ? (
+          <div key={item.id} className="space-y-1.5 rounded-md border border-indigo-200 dark:border-indigo-900 p-2">
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                step="any"
+                value={editPoints}
+                onChange={(e) => setEditPoints(e.target.value)}
+                className="h-8 w-20 text-xs"
+              />
+              <Input
+                value={editDescription}
+                onChange={(e) => setEditDescription(e.target.value)}
+                className="h-8 text-xs"
+              />
+              <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0" onClick={handleSaveEdit} disabled={busy}>
+                {busy ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Check className="h-3.5 w-3.5" />}
+              </Button>
+              <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0" onClick={() => setEditingId(null)}>
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+            {item.applicationCount > 0 && (
+              <p className="text-xs text-amber-600 dark:text-amber-400">
+                Applied to {item.applicationCount} answer{item.applicationCount === 1 ? "" : "s"} — changing the points rescores all of them.
+              </p>
+            )}
+          </div>
+        ) : (
+          <div key={item.id} className="group flex items-start gap-2">
+            <button
+              type="button"
+              onClick={() => onToggle(item.id)}
+              className={`flex-1 flex items-start gap-2 rounded-md border px-2.5 py-1.5 text-left text-sm transition-colors ${
+                appliedIds.includes(item.id)
+                  ? "bg-indigo-50 dark:bg-indigo-950/40 border-indigo-300 dark:border-indigo-800"
+                  : "border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800"
+              }`}
+            >
+              <span
+                className={`shrink-0 min-w-[2.5rem] text-center text-xs font-semibold rounded px-1 py-0.5 ${
+                  item.points < 0
+                    ? "bg-red-100 dark:bg-red-950 text-red-700 dark:text-red-400"
+                    : "bg-emerald-100 dark:bg-emerald-950 text-emerald-700 dark:text-emerald-400"
+                }`}
+              >
+                {formatRubricPoints(item.points)}
+              </span>
+              <MarkdownContent
+                content={item.description}
+                className="flex-1 min-w-0 text-sm text-gray-700 dark:text-gray-300"
+              />
+            </button>
+            <div className="flex flex-col opacity-0 group-hover:opacity-100 transition-opacity">
+              <button
+                type="button"
+                onClick={() => startEdit(item.id)}
+                className="p-1 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                title="Edit rubric item"
+              >
+                <Pencil className="h-3.5 w-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => run(() => onDelete(item.id))}
+                disabled={busy}
+                className="p-1 rounded text-gray-400 hover:text-red-500"
+                title="Delete rubric item"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          </div>
+        )
+      )}
+
+      <div className="flex items-center gap-2 pt-1">
+        <Input
+          type="number"
+          step="any"
+          value={newPoints}
+          onChange={(e) => setNewPoints(e.target.value)}
+          placeholder={rubric.scoring === "negative" ? "-1" : "+1"}
+          className="h-8 w-20 text-xs"
+        />
+        <Input
+          value={newDescription}
+          onChange={(e) => setNewDescription(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleCreate();
+          }}
+          placeholder="New rubric item, e.g. Missing units"
+          className="h-8 text-xs"
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleCreate}
+          disabled={busy || !newDescription.trim() || newPoints.trim() === ""}
+          className="h-8 gap-1 shrink-0"
+        >
+          <Plus className="h-3.5 w-3.5" />
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
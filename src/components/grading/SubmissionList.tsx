@@ -7,6 +7,9 @@ import {
   Clock,
   ShieldAlert,
 } from "lucide-react";
+import { formatLateness } from "@/lib/grading/late-policy";
+import { formatAttempt } from "@/lib/grading/attempts";
+import { formatOvertime } from "@/lib/grading/time-limit";
 import type { SubmissionForGrading, AssignmentInfo } from "./types";
 
 interface SubmissionListProps {
@@ -76,6 +79,11 @@ export function SubmissionList({
                   <div className="flex-1 min-w-0">
                     <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
                       {sub.userName}
+                      {(sub.attempt > 1 || (assignmentInfo?.maxAttempts ?? 1) > 1) && (
+                        <span className="ml-1.5 text-[10px] font-semibold text-gray-500 dark:text-gray-400 bg-gray-100 dark:bg-gray-800 px-1.5 py-0.5 rounded-full">
+                          {formatAttempt(sub.attempt, assignmentInfo?.maxAttempts ?? null)}
+                        </span>
+                      )}
                     </p>
                     <p className="text-xs text-gray-400 dark:text-gray-500 truncate">
                       {sub.userEmail}
@@ -88,13 +96,30 @@ export function SubmissionList({
                         hour: "numeric",
                         minute: "2-digit",
                       }).format(new Date(sub.submittedAt))}
-                      {assignmentInfo?.dueDate &&
-                        new Date(sub.submittedAt) >
-                          new Date(assignmentInfo.dueDate) && (
-                          <span className="ml-1.5 inline-flex items-center gap-0.5 text-[10px] font-semibold text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-950 px-1.5 py-0.5 rounded-full">
-                            Late
-                          </span>
-                        )}
+                      {sub.lateMinutes > 0 && (
+                        <span
+                          title={formatLateness(sub.lateMinutes)}
+                          className="ml-1.5 inline-flex items-center gap-0.5 text-[10px] font-semibold text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-950 px-1.5 py-0.5 rounded-full"
+                        >
+                          Late{sub.latePenalty > 0 && ` −${sub.latePenalty}%`}
+                        </span>
+                      )}
+                      {sub.overtimeSeconds > 0 && (
+                        <span
+                          title="Submitted after the quiz time limit ran out"
+                          className="ml-1.5 inline-flex items-center gap-0.5 text-[10px] font-semibold text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-950 px-1.5 py-0.5 rounded-full"
+                        >
+                          {formatOvertime(sub.overtimeSeconds)}
+                        </span>
+                      )}
+                      {sub.extendedDueDate && (
+                        <span
+                          title={`Extended to ${new Date(sub.extendedDueDate).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })}`}
+                          className="ml-1.5 inline-flex items-center gap-0.5 text-[10px] font-semibold text-indigo-600 dark:text-indigo-400 bg-indigo-50 dark:bg-indigo-950 px-1.5 py-0.5 rounded-full"
+                        >
+                          Extended
+                        </span>
+                      )}
                     </p>
                   </div>
                 </div>
@@ -1,3 +1,9 @@
+import type { AutoGradeDetail } from "@/lib/grading/auto-grade";
+import type { ParameterValues } from "@/lib/grading/parameters";
+import type { RubricScoringMode } from "@/lib/grading/rubric";
+import type { LatePolicy } from "@/lib/grading/late-policy";
+import type { AttemptScoring } from "@/lib/grading/attempts";
+
 export interface AppealMessage {
   id: string;
   content: string;
@@ -21,10 +27,17 @@ export interface AssignmentInfo {
   type: string;
   totalPoints: number;
   dueDate: string | null;
+  latePolicy: LatePolicy | null;
+  /** null = unlimited */
+  maxAttempts: number | null;
+  attemptScoring: AttemptScoring;
+  /** Timed quiz length in minutes; null = untimed */
+  timeLimitMinutes: number | null;
 }
 
 export interface SubmissionAnswer {
   id: string;
+  questionId: string;
   questionText: string;
   questionType: string;
   answer: string | null;
@@ -33,6 +46,11 @@ export interface SubmissionAnswer {
   score: number | null;
   feedback: string | null;
   autoGraded: boolean;
+  autoGradeDetail?: AutoGradeDetail | null;
+  /** The student's instance of a parameterized question */
+  parameterValues?: ParameterValues | null;
+  /** Rubric items currently applied to this answer */
+  rubricItemIds?: string[];
   maxPoints: number;
   leftBlank?: boolean;
   appeals: Appeal[];
@@ -42,8 +60,19 @@ export interface SubmissionForGrading {
   id: string;
   userName: string;
   userEmail: string;
+  /** 1-based; a student can have several attempts in the list */
+  attempt: number;
   submittedAt: string;
+  /** After the late penalty */
   totalScore: number | null;
+  /** Minutes past the student's due date when submitted; 0 = on time */
+  lateMinutes: number;
+  /** Percent deducted from the score */
+  latePenalty: number;
+  /** Timed quiz: seconds submitted past the time window; 0 = in time */
+  overtimeSeconds: number;
+  /** The student's own due date when staff granted an extension */
+  extendedDueDate: string | null;
   gradedAt: string | null;
   gradedByName: string | null;
   fileUrl: string | null;
@@ -53,5 +82,28 @@ export interface SubmissionForGrading {
   answers: SubmissionAnswer[];
 }
 
+export interface RubricItem {
+  id: string;
+  questionId: string;
+  description: string;
+  /** Positive adds credit, negative deducts */
+  points: number;
+  order: number;
+  /** Number of answers this item is applied to */
+  applicationCount: number;
+}
+
+export interface QuestionRubric {
+  scoring: RubricScoringMode;
+  items: RubricItem[];
+}
+
+/** Unsaved per-answer grade being edited on the grading page */
+export interface AnswerGrade {
+  score: number;
+  feedback: string;
+  rubricItemIds?: string[];
+}
+
 export type GradingMode = "per-question" | "overall";
 export type FilterMode = "all" | "ungraded" | "graded" | "appeals";
@@ -0,0 +1,144 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { BookOpen, Check, ChevronsUpDown, Loader2, Settings2 } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuLabel,
+} from "@/components/ui/dropdown-menu";
+import type { CourseSummary, UserRole } from "@/types";
+
+interface CourseSwitcherProps {
+  courses: CourseSummary[];
+  activeCourseId: string | null;
+  userRole: UserRole;
+  /** Icon-only trigger for the collapsed sidebar */
+  collapsed?: boolean;
+  className?: string;
+}
+
+function courseLabel(course: CourseSummary): string {
+  return course.code ? `${course.code} · ${course.name}` : course.name;
+}
+
+export function CourseSwitcher({ courses, activeCourseId, userRole, collapsed = false, className }: CourseSwitcherProps) {
+  const [switching, setSwitching] = useState<string | null>(null);
+  const active = courses.find((c) => c.id === activeCourseId) ?? null;
+  const canManage = userRole === "PROFESSOR" || userRole === "ADMIN";
+  const current = courses.filter((c) => !c.isArchived);
+  const past = courses.filter((c) => c.isArchived);
+
+  if (courses.length === 0 && !canManage) return null;
+
+  const switchCourse = async (courseId: string) => {
+    if (courseId === activeCourseId) return;
+    setSwitching(courseId);
+    try {
+      const res = await fetch("/api/courses/active", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ courseId }),
+      });
+      if (!res.ok) {
+        toast.error("Failed to switch course");
+        setSwitching(null);
+        return;
+      }
+      // Every list, queue and dashboard is scoped to the active course, so reload them all
+      window.location.reload();
+    } catch {
+      toast.error("Failed to switch course");
+      setSwitching(null);
+    }
+  };
+
+  const renderItem = (course: CourseSummary) => (
+    <DropdownMenuItem
+      key={course.id}
+      onClick={() => switchCourse(course.id)}
+      className="flex items-start gap-2 cursor-pointer"
+    >
+      <span className="w-4 shrink-0 pt-0.5">
+        {switching === course.id ? (
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        ) : course.id === activeCourseId ? (
+          <Check className="h-3.5 w-3.5" />
+        ) : null}
+      </span>
+      <span className="flex-1 min-w-0">
+        <span className="block truncate text-sm">{courseLabel(course)}</span>
+        <span className="block text-xs text-gray-500 dark:text-gray-400">
+          {course.semester}
+          {course.role !== "STUDENT" && ` · ${course.role === "TA" ? "TA" : "Professor"}`}
+        </span>
+      </span>
+    </DropdownMenuItem>
+  );
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          title={active ? `${courseLabel(active)} (${active.semester})` : "Select a course"}
+          className={cn(
+            "flex items-center rounded-lg border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors text-left",
+            collapsed ? "h-9 w-full justify-center" : "w-full gap-2.5 px-3 py-2",
+            className
+          )}
+        >
+          <BookOpen className="h-4 w-4 shrink-0 text-gray-500 dark:text-gray-400" />
+          {!collapsed && (
+            <>
+              <span className="flex-1 min-w-0">
+                <span className="block truncate text-sm font-medium text-gray-900 dark:text-gray-100">
+                  {active ? active.code || active.name : "No course"}
+                </span>
+                <span className="block truncate text-xs text-gray-500 dark:text-gray-400">
+                  {active ? active.semester : "Select a course"}
+                </span>
+              </span>
+              <ChevronsUpDown className="h-3.5 w-3.5 shrink-0 text-gray-400" />
+            </>
+          )}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-64">
+        {current.length > 0 && (
+          <>
+            <DropdownMenuLabel className="text-xs text-gray-500 dark:text-gray-400">Courses</DropdownMenuLabel>
+            {current.map(renderItem)}
+          </>
+        )}
+        {past.length > 0 && (
+          <>
+            {current.length > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuLabel className="text-xs text-gray-500 dark:text-gray-400">Past courses</DropdownMenuLabel>
+            {past.map(renderItem)}
+          </>
+        )}
+        {courses.length === 0 && (
+          <p className="px-2 py-1.5 text-sm text-gray-500 dark:text-gray-400">No courses yet</p>
+        )}
+        {canManage && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem asChild>
+              <Link href="/admin/courses" className="flex items-center gap-2 cursor-pointer">
+                <Settings2 className="h-3.5 w-3.5" />
+                Manage courses
+              </Link>
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
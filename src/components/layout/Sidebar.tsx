@@ -23,6 +23,10 @@ import {
   FlaskConical,
   Activity,
   CalendarClock,
+  BookOpen,
+  Gauge,
+  Library,
+  Inbox,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { isStaff } from "@/lib/constants";
@@ -35,7 +39,8 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import type { UserRole } from "@/types";
+import { CourseSwitcher } from "@/components/layout/CourseSwitcher";
+import type { CourseSummary, UserRole } from "@/types";
 
 interface NavItem {
   label: string;
@@ -81,29 +86,45 @@ const toolItems: NavItem[] = [
     icon: ClipboardList,
     roles: ["TA", "PROFESSOR", "ADMIN"],
   },
+  {
+    label: "Chat Inbox",
+    href: "/inbox",
+    icon: Inbox,
+    roles: ["TA", "PROFESSOR", "ADMIN"],
+  },
+  {
+    label: "Course Materials",
+    href: "/materials",
+    icon: Library,
+    roles: ["TA", "PROFESSOR", "ADMIN"],
+  },
 ];
 
 const adminItems: NavItem[] = [
   { label: "Users", href: "/admin/users", icon: Users },
+  { label: "Courses", href: "/admin/courses", icon: BookOpen },
   { label: "User Activity", href: "/admin/user-activity", icon: Activity },
   { label: "Email Records", href: "/admin/email-records", icon: Mail },
   { label: "Email Templates", href: "/admin/email-templates", icon: FileText },
   { label: "Scheduled Emails", href: "/admin/scheduled-emails", icon: CalendarClock },
   { label: "Analytics", href: "/admin/analytics", icon: BarChart3 },
   { label: "Q&A History", href: "/admin/qa-history", icon: BarChart3 },
+  { label: "Quotas", href: "/admin/quotas", icon: Gauge },
   { label: "Settings", href: "/admin/settings", icon: Settings },
 ];
 
 interface SidebarProps {
   userRole: UserRole;
   userName: string;
+  courses: CourseSummary[];
+  activeCourseId: string | null;
   collapsed?: boolean;
   onToggleCollapse?: () => void;
   mobileOpen?: boolean;
   onMobileToggle?: (open: boolean) => void;
 }
 
-export default function Sidebar({ userRole, userName, collapsed = false, onToggleCollapse, mobileOpen = false, onMobileToggle }: SidebarProps) {
+export default function Sidebar({ userRole, userName, courses, activeCourseId, collapsed = false, onToggleCollapse, mobileOpen = false, onMobileToggle }: SidebarProps) {
   const pathname = usePathname();
   const router = useRouter();
   const [expandedItems, setExpandedItems] = useState<string[]>([]);
@@ -144,8 +165,10 @@ export default function Sidebar({ userRole, userName, collapsed = false, onToggl
   ];
 
   if (isStaff(userRole)) {
-    const staffItems = userRole === "ADMIN" || userRole === "PROFESSOR"
+    const staffItems = userRole === "ADMIN"
       ? adminItems
+      : userRole === "PROFESSOR"
+      ? adminItems.filter((item) => item.href !== "/admin/quotas")
       : adminItems.filter((item) => item.href === "/admin/qa-history" || item.href === "/admin/users" || item.href === "/admin/email-records");
     sections.push({ label: "ADMIN", items: staffItems });
   }
@@ -302,6 +325,16 @@ export default function Sidebar({ userRole, userName, collapsed = false, onToggl
         </button>
       </div>
 
+      {/* Course switcher */}
+      <div className={cn("mb-3", collapsed ? "px-2" : "px-4")}>
+        <CourseSwitcher
+          courses={courses}
+          activeCourseId={activeCourseId}
+          userRole={userRole}
+          collapsed={collapsed}
+        />
+      </div>
+
       {/* New Conversation button */}
       <div className={cn("mb-3", collapsed ? "px-2" : "px-4")}>
         <Link href="/chat">
@@ -46,12 +46,16 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { NotifyUsersDialog } from "@/components/ui/notify-users-dialog";
 import { NotificationDropdown } from "@/components/layout/NotificationDropdown";
+import { CourseSwitcher } from "@/components/layout/CourseSwitcher";
+import type { CourseSummary, UserRole } from "@/types";
 
 interface TopbarProps {
   userName: string;
   userEmail: string;
   userImage?: string;
   userRole: string;
+  courses: CourseSummary[];
+  activeCourseId: string | null;
   onMobileMenuToggle?: () => void;
 }
 
@@ -89,6 +93,7 @@ const routeLabels: Record<string, string> = {
   "/admin/email-templates": "Email Templates",
   "/admin/scheduled-emails": "Scheduled Emails",
   "/admin/qa-history": "Q&A History",
+  "/admin/courses": "Courses",
   "/admin/settings": "Settings",
   "/profile": "Profile",
   "/settings": "Settings",
@@ -105,7 +110,7 @@ function timeAgo(dateStr: string): string {
   return `${days}d ago`;
 }
 
-export default function Topbar({ userName, userEmail, userImage, userRole, onMobileMenuToggle }: TopbarProps) {
+export default function Topbar({ userName, userEmail, userImage, userRole, courses, activeCourseId, onMobileMenuToggle }: TopbarProps) {
   const pathname = usePathname();
   const [notifications, setNotifications] = useState<NotificationItem[]>([]);
   const [scheduledNotifications, setScheduledNotifications] = useState<ScheduledNotificationItem[]>([]);
@@ -341,6 +346,16 @@ export default function Topbar({ userName, userEmail, userImage, userRole, onMob
         </div>
 
         <div className="flex items-center gap-2">
+          {/* Course switcher (the sidebar one is hidden on small screens) */}
+          <div className="lg:hidden">
+            <CourseSwitcher
+              courses={courses}
+              activeCourseId={activeCourseId}
+              userRole={userRole as UserRole}
+              className="max-w-[10rem] py-1"
+            />
+          </div>
+
           {/* Exam Mode Badge */}
           {examModeActive && (
             <div className="relative">
@@ -1,7 +1,7 @@
 "use client";
 
 import React, { useRef } from "react";
-import { ImagePlus, X, Loader2 } from "lucide-react";
+import { ImagePlus, X, Loader2, ScanText } from "lucide-react";
 import { toast } from "sonner";
 
 interface ImageUploadProps {
@@ -11,6 +11,8 @@ interface ImageUploadProps {
   uploading?: boolean;
   onUpload: (file: File) => Promise<string | null>; // returns URL or null on failure
   className?: string;
+  /** Offers to transcribe an attached image to text; omitted hides the button */
+  onTranscribe?: (url: string) => void;
 }
 
 export function ImageUpload({
@@ -20,6 +22,7 @@ export function ImageUpload({
   uploading = false,
   onUpload,
   className = "",
+  onTranscribe,
 }: ImageUploadProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -72,6 +75,17 @@ export function ImageUpload({
               >
                 <X className="h-3 w-3" />
               </button>
+              {onTranscribe && (
+                <button
+                  type="button"
+                  onClick={() => onTranscribe(url)}
+                  className="absolute bottom-0.5 left-0.5 rounded bg-gray-900/80 hover:bg-gray-900 p-0.5 text-white transition-colors"
+                  title="Transcribe to editable text"
+                  aria-label={`Transcribe attachment ${i + 1}`}
+                >
+                  <ScanText className="h-3 w-3" />
+                </button>
+              )}
             </div>
           ))}
         </div>
@@ -234,9 +234,11 @@ function CodeBlock({
 interface MarkdownContentProps {
   content: string;
   className?: string;
+  /** Static rendering for print: graphs become images and code blocks lose their toolbar */
+  printable?: boolean;
 }
 
-export function MarkdownContent({ content, className }: MarkdownContentProps) {
+export function MarkdownContent({ content, className, printable = false }: MarkdownContentProps) {
   const contentRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -330,12 +332,19 @@ export function MarkdownContent({ content, className }: MarkdownContentProps) {
               return <MermaidDiagram content={code} />;
             }
             if (className?.includes("language-desmos")) {
-              return <DesmosGraph code={code} />;
+              return <DesmosGraph code={code} snapshot={printable} />;
             }
             const isBlock = className?.includes("language-");
             if (isBlock) {
               const match = className?.match(/language-(\w+)/);
               const language = match ? match[1] : "";
+              if (printable) {
+                return (
+                  <pre className="my-3 rounded-lg border border-gray-200 bg-gray-50 p-3 text-xs font-mono whitespace-pre-wrap break-words">
+                    <code>{code}</code>
+                  </pre>
+                );
+              }
               return <CodeBlock language={language} code={code} />;
             }
             return (
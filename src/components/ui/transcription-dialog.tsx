@@ -0,0 +1,189 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Loader2, RotateCw, ScanText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { MarkdownContent } from "@/components/ui/markdown-content";
+import { cn } from "@/lib/utils";
+import type { PageKind } from "@/lib/ocr";
+
+export interface TranscriptionSource {
+  /** Shown next to the transcription; a data URL or the uploaded image */
+  preview: string;
+  /** The uploaded image's URL, uploading it first if it has not been yet */
+  resolveUrl: () => Promise<string>;
+}
+
+interface TranscriptionDialogProps {
+  /** Open while set */
+  source: TranscriptionSource | null;
+  /** Label of the accept button, e.g. "Insert into answer" */
+  insertLabel: string;
+  onInsert: (markdown: string) => void;
+  onOpenChange: (open: boolean) => void;
+}
+
+const KIND_LABELS: Record<PageKind, string> = {
+  handwriting: "Handwriting",
+  textbook: "Printed page",
+};
+
+/**
+ * Turns a photographed page into Markdown + LaTeX and lets the student fix it
+ * before it goes anywhere. Nothing is inserted until they accept.
+ */
+export function TranscriptionDialog({ source, insertLabel, onInsert, onOpenChange }: TranscriptionDialogProps) {
+  const [kind, setKind] = useState<PageKind>("handwriting");
+  const [markdown, setMarkdown] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Answers for an image that was closed or re-run in the meantime are dropped
+  const requestRef = useRef(0);
+
+  const transcribe = useCallback(async (target: TranscriptionSource, pageKind: PageKind) => {
+    const request = ++requestRef.current;
+    setLoading(true);
+    setError(null);
+    try {
+      const imageUrl = await target.resolveUrl();
+      const res = await fetch("/api/ocr", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ imageUrl, kind: pageKind }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (request !== requestRef.current) return;
+      if (!res.ok) {
+        setError(data.error || "Failed to transcribe image");
+        return;
+      }
+      setMarkdown(data.markdown);
+    } catch {
+      if (request === requestRef.current) setError("Failed to upload image. Please try again.");
+    } finally {
+      if (request === requestRef.current) setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!source) {
+      requestRef.current++;
+      return;
+    }
+    setKind("handwriting");
+    setMarkdown("");
+    transcribe(source, "handwriting");
+  }, [source, transcribe]);
+
+  const rerun = (pageKind: PageKind) => {
+    if (!source) return;
+    setKind(pageKind);
+    transcribe(source, pageKind);
+  };
+
+  return (
+    <Dialog open={!!source} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ScanText className="h-4 w-4" />
+            Transcribe image
+          </DialogTitle>
+          <DialogDescription>
+            Check the transcription against your photo and correct anything that was misread.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <div className="inline-flex rounded-lg border border-gray-200 dark:border-gray-700 p-0.5">
+            {(Object.keys(KIND_LABELS) as PageKind[]).map((k) => (
+              <button
+                key={k}
+                type="button"
+                onClick={() => k !== kind && rerun(k)}
+                disabled={loading}
+                className={cn(
+                  "rounded-md px-2.5 py-1 text-xs transition-colors disabled:opacity-50",
+                  k === kind
+                    ? "bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900"
+                    : "text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                )}
+              >
+                {KIND_LABELS[k]}
+              </button>
+            ))}
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => rerun(kind)}
+            disabled={loading}
+            className="h-7 gap-1 text-xs"
+          >
+            <RotateCw className="h-3.5 w-3.5" />
+            Try again
+          </Button>
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          {source && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={source.preview}
+              alt="Page being transcribed"
+              className="max-h-80 w-full rounded-lg border border-gray-200 dark:border-gray-700 object-contain bg-gray-50 dark:bg-gray-900"
+            />
+          )}
+          {loading ? (
+            <div className="flex min-h-[10rem] items-center justify-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Reading the page...
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          ) : (
+            <Textarea
+              value={markdown}
+              onChange={(e) => setMarkdown(e.target.value)}
+              rows={12}
+              className="font-mono text-xs"
+              aria-label="Transcription"
+            />
+          )}
+        </div>
+
+        {!loading && !error && markdown.trim() && (
+          <div className="max-h-60 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+            <p className="mb-1 text-xs font-medium text-gray-500 dark:text-gray-400">Preview</p>
+            <MarkdownContent content={markdown} className="text-sm" />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => {
+              onInsert(markdown.trim());
+              onOpenChange(false);
+            }}
+            disabled={loading || !markdown.trim()}
+          >
+            {insertLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,7 +7,7 @@ import { useRouter } from "next/navigation";
 import { toast } from "sonner";
 import { buildAssignmentNotifyContent } from "@/lib/utils";
 import type { AssignmentDetail } from "@/types/assignment";
-import type { ExistingSubmission, GradeAppealData } from "@/types/submission";
+import type { AttemptSummary, ExistingSubmission, GradeAppealData } from "@/types/submission";
 
 interface ConfirmDialogState {
   open: boolean;
@@ -29,6 +29,7 @@ export function useAssignmentDetail(assignmentId: string) {
   const [deletingSubmission, setDeletingSubmission] = useState(false);
   const [submitted, setSubmitted] = useState(false);
   const [exportingLatex, setExportingLatex] = useState(false);
+  const [askingAIQuestionId, setAskingAIQuestionId] = useState<string | null>(null);
 
   // --- Student answer state ---
   const [answers, setAnswers] = useState<Record<string, string>>({});
@@ -38,6 +39,16 @@ export function useAssignmentDetail(assignmentId: string) {
 
   // --- Submission state ---
   const [existingSubmission, setExistingSubmission] = useState<ExistingSubmission | null>(null);
+  const [attempts, setAttempts] = useState<AttemptSummary[]>([]);
+  /** An earlier attempt the student is browsing; null shows the latest */
+  const [viewedAttempt, setViewedAttempt] = useState<ExistingSubmission | null>(null);
+  const [loadingAttempt, setLoadingAttempt] = useState(false);
+
+  // --- Timed quiz state ---
+  const [timer, setTimer] = useState<{ startedAt: string; endsAt: string } | null>(null);
+  /** Server time minus client time, from the last response that carried `now` */
+  const [clockOffsetMs, setClockOffsetMs] = useState(0);
+  const startingRef = useRef(false);
 
   // --- Appeal state ---
   const [appeals, setAppeals] = useState<GradeAppealData[]>([]);
@@ -113,6 +124,9 @@ export function useAssignmentDetail(assignmentId: string) {
       .then((res) => res.json())
       .then((data) => {
         setAssignment(data.assignment);
+        setAttempts(data.attempts || []);
+        setTimer(data.timer || null);
+        if (data.now) setClockOffsetMs(new Date(data.now).getTime() - Date.now());
 
         if (data.submission) {
           setExistingSubmission(data.submission);
@@ -143,6 +157,25 @@ export function useAssignmentDetail(assignmentId: string) {
       .catch(() => setLoading(false));
   }, [assignmentId]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // --- Timed quiz: the clock starts the first time the student opens an attempt ---
+  const isTimedQuiz = isQuizInProgress && assignment?.timeLimitMinutes != null;
+  useEffect(() => {
+    if (!isTimedQuiz || timer || startingRef.current || !assignment) return;
+    startingRef.current = true;
+    fetch(`/api/assignments/${assignment.id}/start`, { method: "POST" })
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) {
+          toast.error(data.error || "Failed to start the quiz timer");
+          return;
+        }
+        setTimer(data.timer);
+        setClockOffsetMs(new Date(data.now).getTime() - Date.now());
+      })
+      .catch(() => toast.error("Failed to start the quiz timer"))
+      .finally(() => { startingRef.current = false; });
+  }, [isTimedQuiz, timer, assignment]);
+
   // --- Handlers ---
   const handleAnswerChange = (questionId: string, value: string) => {
     setAnswers((prev) => ({ ...prev, [questionId]: value }));
@@ -197,8 +230,21 @@ export function useAssignmentDetail(assignmentId: string) {
           fileUrl: data.submission.fileUrl,
           submittedAt: data.submission.submittedAt,
           totalScore: data.submission.totalScore,
+          lateMinutes: data.submission.lateMinutes,
+          latePenalty: data.submission.latePenalty,
+          attempt: data.submission.attempt,
           answers: data.submission.answers || [],
         });
+        setAttempts((prev) => [...prev, {
+          id: data.submission.id,
+          attempt: data.submission.attempt,
+          submittedAt: data.submission.submittedAt,
+          totalScore: data.submission.totalScore,
+          gradedAt: data.submission.gradedAt,
+          lateMinutes: data.submission.lateMinutes,
+          latePenalty: data.submission.latePenalty,
+        }]);
+        setTimer(null);
         setSubmitted(true);
       } else {
         const data = await res.json();
@@ -223,34 +269,45 @@ export function useAssignmentDetail(assignmentId: string) {
         const desc = hasAttachment
           ? `You answered ${answered} out of ${total} questions online. Are all remaining answers in the attached document? Confirm to submit.`
           : `You have only answered ${answered} out of ${total} questions. Are you sure you want to submit?`;
-        setConfirmDialog({ open: true, title: "Submit with unanswered questions?", description: desc, onConfirm: () => {
-          if (assignment.lockAfterSubmit) {
-            setConfirmDialog({ open: true, title: "Locked Submission", description: "Once you submit, you will NOT be able to change or resubmit your answers. Are you sure you want to submit?", onConfirm: doSubmit });
-          } else {
-            doSubmit();
-          }
-        }});
+        setConfirmDialog({ open: true, title: "Submit with unanswered questions?", description: desc, onConfirm: confirmFinalAttempt });
         return;
       }
     }
-    if (assignment.lockAfterSubmit) {
+    confirmFinalAttempt();
+  };
+
+  /** Hand in whatever is answered when a timed attempt runs out. */
+  const handleTimeExpired = () => {
+    if (submitting || submitted) return;
+    setConfirmDialog((prev) => ({ ...prev, open: false }));
+    toast.warning("Time is up. Your answers are being submitted.");
+    doSubmit();
+  };
+
+  /** Warn before the submission that uses up the last attempt. */
+  const confirmFinalAttempt = () => {
+    if (!assignment) return;
+    if (assignment.maxAttempts === 1) {
       setConfirmDialog({ open: true, title: "Locked Submission", description: "Once you submit, you will NOT be able to change or resubmit your answers. Are you sure you want to submit?", onConfirm: doSubmit });
-      return;
+    } else if (assignment.maxAttempts !== null && attempts.length + 1 >= assignment.maxAttempts) {
+      setConfirmDialog({ open: true, title: "Final Attempt", description: `This is your last of ${assignment.maxAttempts} attempts. Once you submit, you will NOT be able to try again. Are you sure you want to submit?`, onConfirm: doSubmit });
+    } else {
+      doSubmit();
     }
-    doSubmit();
   };
 
   const handleEditSubmission = async () => {
     if (!existingSubmission) return;
     setConfirmDialog({
       open: true,
-      title: "Edit Submission",
-      description: "This will reopen your submission for editing. You'll need to resubmit when done. Continue?",
+      title: "New Attempt",
+      description: `This starts attempt ${attempts.length + 1}${assignment?.maxAttempts ? ` of ${assignment.maxAttempts}` : ""} with your answers from this one. Your earlier attempts are kept. You'll need to submit when done. Continue?`,
       onConfirm: async () => {
         setDeletingSubmission(true);
         try {
           const res = await fetch(`/api/submissions/${existingSubmission.id}`, { method: "PATCH" });
           if (res.ok) {
+            const data = await res.json();
             const restored: Record<string, string> = {};
             const restoredImages: Record<string, string[]> = {};
             for (const a of existingSubmission.answers) {
@@ -259,7 +316,21 @@ export function useAssignmentDetail(assignmentId: string) {
             }
             setAnswers(restored);
             setAnswerImages(restoredImages);
-            setExistingSubmission({ ...existingSubmission, isDraft: true });
+            markSaved(restored);
+            setViewedAttempt(null);
+            setTimer(null);
+            setExistingSubmission({
+              ...existingSubmission,
+              id: data.submissionId,
+              isDraft: true,
+              attempt: attempts.length + 1,
+              totalScore: null,
+              gradedAt: null,
+              overallFeedback: null,
+            });
+          } else {
+            const data = await res.json().catch(() => null);
+            toast.error(data?.error || "Failed to start a new attempt");
           }
         } catch (err) {
           console.error(err);
@@ -270,6 +341,24 @@ export function useAssignmentDetail(assignmentId: string) {
     });
   };
 
+  const handleViewAttempt = async (submissionId: string) => {
+    if (!existingSubmission || submissionId === existingSubmission.id) {
+      setViewedAttempt(null);
+      return;
+    }
+    setLoadingAttempt(true);
+    try {
+      const res = await fetch(`/api/submissions/${submissionId}`);
+      if (!res.ok) throw new Error("Failed to load attempt");
+      const data = await res.json();
+      setViewedAttempt(data.submission);
+    } catch {
+      toast.error("Failed to load attempt");
+    } finally {
+      setLoadingAttempt(false);
+    }
+  };
+
   const handleSubmitAppeal = async (answerId: string) => {
     const reason = appealReasons[answerId];
     if (!reason?.trim()) return;
@@ -392,9 +481,9 @@ export function useAssignmentDetail(assignmentId: string) {
       await fetch(`/api/assignments/${assignment.id}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ lockAfterSubmit: !assignment.lockAfterSubmit }),
+        body: JSON.stringify({ maxAttempts: assignment.maxAttempts === 1 ? null : 1 }),
       });
-      setAssignment({ ...assignment, lockAfterSubmit: !assignment.lockAfterSubmit });
+      setAssignment({ ...assignment, maxAttempts: assignment.maxAttempts === 1 ? null : 1 });
     } catch {
       toast.error("Failed to toggle lock setting");
     }
@@ -424,6 +513,27 @@ export function useAssignmentDetail(assignmentId: string) {
     });
   };
 
+  /** Open a tutor conversation seeded with the question and the current draft answer */
+  const handleAskAI = async (questionId: string) => {
+    if (!assignment) return;
+    setAskingAIQuestionId(questionId);
+    // Keep the draft: the student comes back to it after the chat
+    flushAutoSave();
+    try {
+      const res = await fetch(`/api/assignments/${assignment.id}/ask-ai`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ questionId, draftAnswer: answers[questionId] ?? "" }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error || "Failed to open the AI tutor");
+      router.push(`/chat/${data.conversationId}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to open the AI tutor");
+      setAskingAIQuestionId(null);
+    }
+  };
+
   const handleExportLatex = async () => {
     if (!assignment) return;
     setExportingLatex(true);
@@ -452,6 +562,9 @@ export function useAssignmentDetail(assignmentId: string) {
     assignment, setAssignment, loading, submitted, userRole,
     // Submission
     submitting, deleting, deletingSubmission, existingSubmission,
+    attempts, viewedAttempt, loadingAttempt, handleViewAttempt,
+    // Timed quiz
+    timer, clockOffsetMs, handleTimeExpired,
     answers, answerImages, file, setFile, attachmentFile, setAttachmentFile,
     // Auto-save
     autoSaveStatus, draftRestored, setDraftRestored, isQuizInProgress,
@@ -462,6 +575,8 @@ export function useAssignmentDetail(assignmentId: string) {
     appealFilter, setAppealFilter,
     // Image upload
     handleUploadImage, uploadingImage,
+    // Ask AI
+    askingAIQuestionId, handleAskAI,
     // Dialogs
     unpublishDialogOpen, setUnpublishDialogOpen,
     notifyDialogOpen, setNotifyDialogOpen,
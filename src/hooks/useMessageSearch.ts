@@ -0,0 +1,57 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { SEARCH_QUERY_MAX, SEARCH_QUERY_MIN, type MessageSearchHit } from "@/lib/chat-search";
+
+interface UseMessageSearchOptions {
+  /** Search endpoint; `q` is added to it. Default: "/api/conversations" */
+  endpoint?: string;
+  /** Wait this long after the last keystroke. Default: 300ms */
+  debounceMs?: number;
+}
+
+interface UseMessageSearchReturn {
+  /** Null until a query long enough to search has come back */
+  results: MessageSearchHit[] | null;
+  searching: boolean;
+}
+
+/** Server-side message search that follows a search box as the user types */
+export function useMessageSearch(query: string, options: UseMessageSearchOptions = {}): UseMessageSearchReturn {
+  const { endpoint = "/api/conversations", debounceMs = 300 } = options;
+  const [results, setResults] = useState<MessageSearchHit[] | null>(null);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (q.length < SEARCH_QUERY_MIN || q.length > SEARCH_QUERY_MAX) {
+      setResults(null);
+      setSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const separator = endpoint.includes("?") ? "&" : "?";
+        const res = await fetch(`${endpoint}${separator}q=${encodeURIComponent(q)}`, { signal: controller.signal });
+        if (!res.ok) throw new Error("Search failed");
+        const data = await res.json();
+        setResults(data.results);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error(err);
+        setResults([]);
+      }
+      setSearching(false);
+    }, debounceMs);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, endpoint, debounceMs]);
+
+  return { results, searching };
+}
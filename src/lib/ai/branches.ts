@@ -0,0 +1,74 @@
+/**
+ * Conversations are trees: editing a user message or regenerating a reply adds
+ * a sibling under the same parent, and `Conversation.activeLeafId` marks the
+ * branch on screen. These helpers work on a conversation's full message list.
+ */
+export interface BranchNode {
+  id: string;
+  parentId: string | null;
+  createdAt: Date | string;
+}
+
+function time(node: BranchNode): number {
+  return new Date(node.createdAt).getTime();
+}
+
+function byAge(a: BranchNode, b: BranchNode): number {
+  return time(a) - time(b) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+/**
+ * Messages from the root down to `leafId`, oldest first. Without a leaf (or
+ * with one that no longer exists) the newest message stands in for it.
+ */
+export function branchPath<T extends BranchNode>(messages: T[], leafId: string | null): T[] {
+  if (messages.length === 0) return [];
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  let node: T | undefined = (leafId ? byId.get(leafId) : undefined) ?? messages.slice().sort(byAge).pop();
+  const path: T[] = [];
+  const seen = new Set<string>();
+  while (node && !seen.has(node.id)) {
+    seen.add(node.id);
+    path.push(node);
+    node = node.parentId ? byId.get(node.parentId) : undefined;
+  }
+  return path.reverse();
+}
+
+/** The leaf reached from `messageId` by always taking the newest reply: where switching to a branch lands. */
+export function latestLeaf(messages: BranchNode[], messageId: string): string {
+  const children = new Map<string, BranchNode[]>();
+  for (const m of messages) {
+    if (!m.parentId) continue;
+    const list = children.get(m.parentId) ?? [];
+    list.push(m);
+    children.set(m.parentId, list);
+  }
+  let current = messageId;
+  const seen = new Set<string>();
+  while (!seen.has(current)) {
+    seen.add(current);
+    const next = children.get(current)?.sort(byAge).pop();
+    if (!next) break;
+    current = next.id;
+  }
+  return current;
+}
+
+/** Each message's siblings (itself included, oldest first), for messages that have any. */
+export function siblingGroups(messages: BranchNode[]): Map<string, string[]> {
+  const groups = new Map<string, BranchNode[]>();
+  for (const m of messages) {
+    const key = m.parentId ?? "";
+    const list = groups.get(key) ?? [];
+    list.push(m);
+    groups.set(key, list);
+  }
+  const result = new Map<string, string[]>();
+  Array.from(groups.values()).forEach((group) => {
+    if (group.length < 2) return;
+    const ids = group.sort(byAge).map((m) => m.id);
+    for (const id of ids) result.set(id, ids);
+  });
+  return result;
+}
@@ -0,0 +1,163 @@
+import type { ChatMessage, TokenProfile } from "./types";
+
+/**
+ * Context assembly for the tutor: what of a long conversation the model gets
+ * to see. Pinned messages (the opening problem, anything with a figure, and
+ * whatever the student pins) always go along; older turns are rolled into a
+ * running summary stored on the branch; the newest turns fill the rest of the
+ * token budget verbatim.
+ */
+
+/** History tokens per chat turn, whatever the model accepts: long prompts are slow and billed on every turn */
+export const CHAT_CONTEXT_BUDGET = 24_000;
+/** Held back from the context window for the reply itself */
+const REPLY_RESERVE = 4096;
+
+export interface ContextMessage {
+  id: string;
+  role: string;
+  content: string;
+  imageUrls: string[];
+  pinned: boolean;
+  contextSummary: string | null;
+}
+
+/** `Message.contextLog`: what one reply was generated from */
+export type ContextLog = {
+  provider: string;
+  model: string;
+  budget: number;
+  /** History tokens sent: summary and messages, system prompt excluded */
+  tokens: number;
+  systemTokens: number;
+  summary: string | null;
+  /** The message whose stored summary was used */
+  summaryThroughId: string | null;
+  messages: { id: string; role: string; tokens: number; pinned: boolean }[];
+  system: string;
+};
+
+export interface AssembledContext {
+  messages: ChatMessage[];
+  summary: string | null;
+  /**
+   * Unsummarized turns that no longer fit, plus enough after them to leave
+   * room for the next few: fold these into the summary and assemble again.
+   * Empty when the branch fits.
+   */
+  rollup: ContextMessage[];
+  log: Omit<ContextLog, "provider" | "model" | "system">;
+}
+
+// Kana, CJK ideographs, Hangul and full-width forms
+const CJK = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uff00-\uffef]/g;
+
+/** Estimated tokens for a piece of text under a vendor's tokenizer. */
+export function countTokens(text: string, profile: TokenProfile): number {
+  const cjk = text.match(CJK)?.length ?? 0;
+  return Math.ceil((text.length - cjk) / profile.charsPerToken + cjk * profile.tokensPerCjkChar);
+}
+
+function messageTokens(message: Pick<ContextMessage, "content" | "imageUrls">, profile: TokenProfile): number {
+  // A few tokens of per-message framing (role markers)
+  return 4 + countTokens(message.content, profile) + message.imageUrls.length * profile.tokensPerImage;
+}
+
+/** Estimated prompt tokens of a whole request, system prompt included. */
+export function requestTokens(system: string, messages: ChatMessage[], profile: TokenProfile): number {
+  return messages.reduce(
+    (sum, m) => sum + messageTokens({ content: m.content, imageUrls: m.imageUrls ?? [] }, profile),
+    countTokens(system, profile)
+  );
+}
+
+/** History budget for a model: the fixed cap, or less when the model's window is small. */
+export function contextBudget(contextWindow: number, systemTokens: number): number {
+  return Math.max(0, Math.min(CHAT_CONTEXT_BUDGET, contextWindow - systemTokens - REPLY_RESERVE));
+}
+
+export function summaryPrompt(summary: string): string {
+  return `## Earlier in this conversation\nOlder messages are not shown; this is a summary of them:\n\n${summary}`;
+}
+
+/**
+ * Choose what the model sees of `path` (root first, ending with the message
+ * being answered). Pins are kept up to half the budget: the opening message
+ * first, then the newest pins.
+ */
+export function assembleContext(path: ContextMessage[], profile: TokenProfile, budget: number): AssembledContext {
+  const tokens = path.map((m) => messageTokens(m, profile));
+  const last = path.length - 1;
+
+  // The newest stored summary on the branch stands in for everything up to its message
+  let summaryIndex = -1;
+  for (let i = last - 1; i >= 0; i--) {
+    if (path[i].contextSummary) {
+      summaryIndex = i;
+      break;
+    }
+  }
+  const summary = summaryIndex >= 0 ? path[summaryIndex].contextSummary : null;
+  let used = summary ? countTokens(summaryPrompt(summary), profile) : 0;
+
+  const candidates = path
+    .map((m, i) => i)
+    .filter((i) => i < last && (i === 0 || path[i].pinned || (path[i].role === "user" && path[i].imageUrls.length > 0)))
+    .sort((a, b) => (a === 0 ? -1 : b === 0 ? 1 : b - a));
+  const pinned = new Set<number>();
+  for (const i of candidates) {
+    if (used + tokens[i] > budget / 2) continue;
+    pinned.add(i);
+    used += tokens[i];
+  }
+
+  // Newest turns verbatim, as far back as they fit; the message being answered always goes
+  const recent = new Set<number>([last]);
+  used += tokens[last];
+  let oldestFitting = last;
+  for (let i = last - 1; i > summaryIndex; i--) {
+    if (pinned.has(i)) {
+      oldestFitting = i;
+      continue;
+    }
+    if (used + tokens[i] > budget) break;
+    recent.add(i);
+    used += tokens[i];
+    oldestFitting = i;
+  }
+
+  // Out of room: fold the unsummarized start of the branch until what stays verbatim is at most half the budget
+  const rollup: ContextMessage[] = [];
+  if (oldestFitting > summaryIndex + 1) {
+    let remaining = 0;
+    for (let i = summaryIndex + 1; i <= last; i++) {
+      if (!pinned.has(i)) remaining += tokens[i];
+    }
+    for (let i = summaryIndex + 1; i < last; i++) {
+      if (i >= oldestFitting && remaining <= budget / 2) break;
+      rollup.push(path[i]);
+      if (!pinned.has(i)) remaining -= tokens[i];
+    }
+  }
+
+  const kept = path.map((m, i) => i).filter((i) => pinned.has(i) || recent.has(i));
+  // Vendors expect the conversation to open with the student
+  while (kept.length > 1 && path[kept[0]].role !== "user") kept.shift();
+  return {
+    messages: kept.map((i) => ({
+      role: path[i].role as "user" | "assistant",
+      content: path[i].content,
+      imageUrls: path[i].imageUrls.length ? path[i].imageUrls : undefined,
+    })),
+    summary,
+    rollup,
+    log: {
+      budget,
+      tokens: used,
+      systemTokens: 0,
+      summary,
+      summaryThroughId: summaryIndex >= 0 ? path[summaryIndex].id : null,
+      messages: kept.map((i) => ({ id: path[i].id, role: path[i].role, tokens: tokens[i], pinned: pinned.has(i) })),
+    },
+  };
+}
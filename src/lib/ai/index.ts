@@ -1,15 +1,18 @@
-import OpenAI from "openai";
-import Anthropic from "@anthropic-ai/sdk";
+import type { AIProviderAdapter, AIRequest, AIStreamEvent, AIUsageReport, ChatMessage } from "./types";
+import { getAIProvider } from "./registry";
+import { addAIUsage, EMPTY_AI_USAGE } from "./pricing";
+import { countTokens, requestTokens } from "./context";
+import { runTool, type ChatTool } from "./tools";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+export type { AIProviderAdapter, AIStreamEvent, AIUsageReport, ChatMessage, WebSource } from "./types";
+export type { ToolCallRecord, ToolResult } from "./types";
+export { getAIProvider, resolveChatProvider, listAIProviders, isAIProviderId } from "./registry";
+export { CHAT_TOOLS, parseToolArguments, type ChatTool } from "./tools";
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+/** Model turns spent on tool calls per reply; after that the model has to answer with what it has */
+const MAX_TOOL_ROUNDS = 4;
 
-const DEFAULT_SYSTEM_PROMPT = `You are a helpful physics tutor for university-level General Physics students at NTHU (National Tsing Hua University).
+export const DEFAULT_SYSTEM_PROMPT = `You are a helpful physics tutor for university-level General Physics students at NTHU (National Tsing Hua University).
 
 LANGUAGE RULE: Default to English. If the student's latest message is in a different language, respond in that language. When responding in Chinese, always use Traditional Chinese (繁體中文).
 
@@ -111,116 +114,143 @@ CRITICAL RULES — you MUST follow these without exception:
 
 You are here to ASSIST understanding, not to solve problems for students.`;
 
-export type AIProvider = "openai" | "anthropic";
 
-export interface ChatMessage {
-  role: "user" | "assistant" | "system";
-  content: string;
-  imageUrls?: string[];
+function toAdapter(provider: AIProviderAdapter | string | null | undefined): AIProviderAdapter {
+  return typeof provider === "object" && provider ? provider : getAIProvider(provider);
 }
 
-export async function streamChat(
-  messages: ChatMessage[],
-  provider: AIProvider = "openai",
-  model?: string,
-  systemPrompt?: string
-) {
-  const system = systemPrompt || DEFAULT_SYSTEM_PROMPT;
-
-  if (provider === "openai") {
-    return streamOpenAI(messages, model || "gpt-5.2", system);
-  } else {
-    return streamAnthropic(messages, model || "claude-haiku-4-5-20251001", system);
-  }
-}
-
-async function streamOpenAI(
-  messages: ChatMessage[],
-  model: string,
-  systemPrompt: string
-) {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const input: any[] = [
-    { role: "developer", content: systemPrompt },
-  ];
-
-  for (const msg of messages) {
-    if (msg.imageUrls?.length && msg.role === "user") {
-      input.push({
-        role: "user",
-        content: [
-          { type: "input_text", text: msg.content },
-          ...msg.imageUrls.map((url) => ({
-            type: "input_image",
-            image_url: url,
-          })),
-        ],
+/**
+ * Pass an adapter's text events through, summing its `usage` events into the
+ * one `done` or `error` that ends the stream. Vendors report usage when a
+ * turn finishes, so a cancelled stream ends with `done` and that usage plus
+ * an estimate for the turn cut short: the prompt and the output so far.
+ */
+async function* normalizeStream(
+  adapter: AIProviderAdapter,
+  request: AIRequest,
+  events: AsyncIterable<AIStreamEvent>
+): AsyncGenerator<AIStreamEvent> {
+  const { model, signal } = request;
+  let usage = EMPTY_AI_USAGE;
+  // Output of the turn in progress, which no usage event has covered yet
+  let unreported: string | null = "";
+  const report = (): AIUsageReport => ({ ...usage, provider: adapter.id, model });
+  const cancelled = (): AIStreamEvent => {
+    if (unreported !== null) {
+      usage = addAIUsage(usage, {
+        inputTokens: requestTokens(request.system, request.messages, adapter.tokens),
+        outputTokens: countTokens(unreported, adapter.tokens),
+        reasoningTokens: 0,
       });
-    } else if (msg.role === "user") {
-      input.push({ role: "user", content: msg.content });
-    } else {
-      input.push({ role: "assistant", content: msg.content });
     }
+    return { type: "done", usage: report() };
+  };
+  try {
+    for await (const event of events) {
+      if (event.type === "usage") {
+        usage = addAIUsage(usage, event.usage);
+        unreported = null;
+      } else if (
+        event.type === "thinking" ||
+        event.type === "delta" ||
+        event.type === "source" ||
+        event.type === "tool_call" ||
+        event.type === "tool_result"
+      ) {
+        // A tool result starts the next turn
+        if (event.type === "tool_result") unreported = "";
+        else if (event.type === "thinking" || event.type === "delta") unreported = (unreported ?? "") + event.content;
+        yield event;
+      } else {
+        break;
+      }
+    }
+    yield signal?.aborted ? cancelled() : { type: "done", usage: report() };
+  } catch (error) {
+    if (signal?.aborted) {
+      yield cancelled();
+      return;
+    }
+    yield { type: "error", message: error instanceof Error ? error.message : String(error), usage: report() };
   }
-
-  const stream = await openai.responses.create({
-    model,
-    input,
-    reasoning: { effort: "low", summary: "detailed" },
-    tools: [{ type: "web_search_preview" }],
-    stream: true,
-  });
-
-  return stream;
 }
 
-async function streamAnthropic(
-  messages: ChatMessage[],
-  model: string,
-  systemPrompt: string
-) {
-  const anthropicMessages: Anthropic.MessageParam[] = [];
-
-  for (const msg of messages) {
-    if (msg.role === "system") continue;
-
-    if (msg.imageUrls?.length) {
-      anthropicMessages.push({
-        role: msg.role,
-        content: [
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          ...msg.imageUrls.map((url): any => {
-            const dataMatch = url.match(/^data:(.+?);base64,(.+)$/);
-            if (dataMatch) {
-              return {
-                type: "image",
-                source: { type: "base64", media_type: dataMatch[1], data: dataMatch[2] },
-              };
-            }
-            return {
-              type: "image",
-              source: { type: "url", url },
-            };
-          }),
-          { type: "text" as const, text: msg.content },
-        ],
-      });
-    } else {
-      anthropicMessages.push({
-        role: msg.role,
-        content: msg.content,
-      });
+/**
+ * Let the model call `tools`: each turn that ends in `tool_calls` has the
+ * calls run here, reported as `tool_call` / `tool_result` events, and their
+ * results sent back for another turn. Usage from every turn passes through.
+ */
+async function* withTools(
+  adapter: AIProviderAdapter,
+  request: AIRequest,
+  tools: ChatTool[]
+): AsyncGenerator<AIStreamEvent> {
+  const messages = request.messages.slice();
+  const definitions = tools.map((t) => t.definition);
+  for (let round = 0; ; round++) {
+    let text = "";
+    let requested: Extract<AIStreamEvent, { type: "tool_calls" }> | null = null;
+    for await (const event of adapter.stream({
+      ...request,
+      messages,
+      tools: definitions,
+      toolChoice: round < MAX_TOOL_ROUNDS ? "auto" : "none",
+    })) {
+      if (event.type === "tool_calls") {
+        requested = event;
+      } else {
+        if (event.type === "delta") text += event.content;
+        yield event;
+      }
+    }
+    // Models that ignore `toolChoice: "none"` can keep asking; calls past the limit are dropped
+    if (!requested || round >= MAX_TOOL_ROUNDS || request.signal?.aborted) return;
+
+    messages.push({ role: "assistant", content: text, toolCalls: requested.calls, raw: requested.raw });
+    for (const call of requested.calls) {
+      yield { type: "tool_call", call };
+      const result = runTool(call, tools);
+      yield { type: "tool_result", callId: call.id, result };
+      messages.push({ role: "tool", content: JSON.stringify(result), toolCallId: call.id });
     }
   }
+}
 
-  const stream = await anthropic.messages.stream({
-    model,
-    max_tokens: 4096,
-    system: systemPrompt,
-    messages: anthropicMessages,
-  });
+/** Run a one-shot request, tagging its usage with provider and model. */
+async function complete(
+  adapter: AIProviderAdapter,
+  request: AIRequest
+): Promise<{ text: string | null; usage: AIUsageReport }> {
+  const { text, usage } = await adapter.complete(request);
+  return { text, usage: { ...usage, provider: adapter.id, model: request.model } };
+}
 
-  return stream;
+/**
+ * Stream a tutor reply. `provider` is an adapter or an `AIConfig.provider`
+ * id; vendor errors arrive as an `error` event rather than a throw. Aborting
+ * `signal` cancels the vendor request. With `tools` the model may call them
+ * before answering (see `withTools`).
+ */
+export function streamChat(
+  messages: ChatMessage[],
+  provider?: AIProviderAdapter | string | null,
+  model?: string,
+  systemPrompt?: string,
+  signal?: AbortSignal,
+  tools: ChatTool[] = []
+): AsyncGenerator<AIStreamEvent> {
+  const adapter = toAdapter(provider);
+  const chatModel = model || adapter.defaultModel;
+  const request: AIRequest = {
+    purpose: "chat",
+    model: chatModel,
+    system: systemPrompt || DEFAULT_SYSTEM_PROMPT,
+    messages,
+    webSearch: true,
+    signal,
+  };
+  const events = tools.length > 0 ? withTools(adapter, request, tools) : adapter.stream(request);
+  return normalizeStream(adapter, request, events);
 }
 
 const PROBLEM_GEN_SYSTEM = `You are a physics problem generator for university-level General Physics. Always respond with valid JSON.
@@ -280,35 +310,25 @@ ${questionType === "MC" ? '- options: string[] (array of 4 options, each with La
 - diagram: { type: "svg" | "mermaid", content: string } (optional, include for problems with physical setups like circuits, force diagrams, EM fields, optics, etc.)`;
 }
 
-
-export async function streamGenerateProblems(
+export function streamGenerateProblems(
   topic: string,
   difficulty: number,
   count: number,
   questionType: string,
-  provider: AIProvider = "openai",
+  provider?: AIProviderAdapter | string | null,
   customInstructions?: string
-) {
+): AsyncGenerator<AIStreamEvent> {
+  const adapter = toAdapter(provider);
   const prompt = buildProblemPrompt(topic, difficulty, count, questionType, "object", customInstructions);
 
-  if (provider === "openai") {
-    return openai.responses.create({
-      model: "gpt-5.2",
-      input: [
-        { role: "developer", content: PROBLEM_GEN_SYSTEM },
-        { role: "user", content: prompt },
-      ],
-      reasoning: { effort: "low" },
-      stream: true,
-    });
-  } else {
-    return anthropic.messages.stream({
-      model: "claude-haiku-4-5-20251001",
-      max_tokens: 4096,
-      system: PROBLEM_GEN_SYSTEM + " Wrap your JSON response in a ```json code block.",
-      messages: [{ role: "user", content: prompt }],
-    });
-  }
+  const request: AIRequest = {
+    purpose: "problems",
+    model: adapter.defaultModel,
+    // The route strips the fence; asking for one keeps chattier models from wrapping JSON in prose
+    system: PROBLEM_GEN_SYSTEM + " Wrap your JSON response in a ```json code block.",
+    messages: [{ role: "user", content: prompt }],
+  };
+  return normalizeStream(adapter, request, adapter.stream(request));
 }
 
 export async function aiAssistedGrading(
@@ -317,7 +337,7 @@ export async function aiAssistedGrading(
   studentAnswer: string,
   rubricDescription: string,
   maxPoints: number,
-  provider: AIProvider = "openai",
+  provider?: AIProviderAdapter | string | null,
   answerImageUrls?: string[]
 ) {
   const hasImages = answerImageUrls && answerImageUrls.length > 0;
@@ -336,42 +356,90 @@ Provide your response as JSON with:
 
   const systemMsg = "You are a fair and constructive physics grading assistant. Always respond with valid JSON. When images are provided, analyze them carefully for handwritten work, diagrams, and calculations.";
 
-  if (provider === "openai") {
-    // Build input with images if available
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const userContent: any[] = [{ type: "input_text", text: prompt }];
-    if (hasImages) {
-      for (const url of answerImageUrls) {
-        userContent.push({ type: "input_image", image_url: url });
-      }
-    }
-    const response = await openai.responses.create({
-      model: "gpt-5.2",
-      input: [
-        { role: "developer", content: systemMsg },
-        { role: "user", content: userContent },
-      ],
-      reasoning: { effort: "low" },
-      text: { format: { type: "json_object" } },
-    });
-    return response.output_text;
-  } else {
-    // Build content with images if available
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const userContent: any[] = [];
-    if (hasImages) {
-      for (const url of answerImageUrls) {
-        userContent.push({ type: "image", source: { type: "url", url } });
-      }
-    }
-    userContent.push({ type: "text", text: prompt });
-    const response = await anthropic.messages.create({
-      model: "claude-haiku-4-5-20251001",
-      max_tokens: 1024,
-      system: systemMsg,
-      messages: [{ role: "user", content: userContent }],
-    });
-    const block = response.content[0];
-    return block.type === "text" ? block.text : null;
-  }
+  const adapter = toAdapter(provider);
+  return complete(adapter, {
+    purpose: "grading",
+    model: adapter.defaultModel,
+    system: systemMsg,
+    messages: [{ role: "user", content: prompt, imageUrls: hasImages ? answerImageUrls : undefined }],
+    json: true,
+    maxTokens: 1024,
+  });
+}
+
+/** Short title for a new conversation, from its first exchange. */
+export async function generateConversationTitle(
+  provider: AIProviderAdapter | string | null | undefined,
+  question: string,
+  answer: string
+): Promise<{ title: string | null; usage: AIUsageReport }> {
+  const adapter = toAdapter(provider);
+  const { text, usage } = await complete(adapter, {
+    purpose: "title",
+    model: adapter.fastModel,
+    system: "You write short, accurate conversation titles.",
+    messages: [{
+      role: "user",
+      content: `Generate a concise title (max 6 words) for this conversation. The title should accurately reflect the topic of the question. Reply with ONLY the title, no quotes.\n\nQuestion: ${question}\n\nAI answer (for context only): ${answer.slice(0, 100)}`,
+    }],
+    maxTokens: 50,
+  });
+  return { title: text?.trim() || null, usage };
+}
+
+/**
+ * Fold older turns into a conversation's running summary, so a long session
+ * keeps the problem it started from without resending every message.
+ */
+export async function summarizeConversation(
+  provider: AIProviderAdapter | string | null | undefined,
+  previousSummary: string | null,
+  turns: ChatMessage[]
+): Promise<{ summary: string | null; usage: AIUsageReport }> {
+  const adapter = toAdapter(provider);
+  const transcript = turns
+    .map((m) => `${m.role === "user" ? "Student" : "Tutor"}: ${m.content}${m.imageUrls?.length ? " [image attached]" : ""}`)
+    .join("\n\n");
+  const { text, usage } = await complete(adapter, {
+    purpose: "summary",
+    model: adapter.fastModel,
+    system: "You summarize physics tutoring sessions so the tutor can continue them without the full transcript.",
+    messages: [{
+      role: "user",
+      content: `Update the summary of this tutoring conversation with the new messages. Keep the exact problem statements, given values, the student's answers and mistakes, and what has been explained or agreed so far. Use LaTeX for math. Reply with ONLY the summary, at most 300 words.\n\nSummary so far: ${previousSummary || "(none)"}\n\nNew messages:\n\n${transcript}`,
+    }],
+    maxTokens: 1024,
+  });
+  return { summary: text?.trim() || null, usage };
+}
+
+const TRANSCRIBE_INSTRUCTIONS = {
+  handwriting:
+    "This is a photo of a student's handwritten work. Transcribe it exactly as written, including crossed-out steps only if they are still legible, and do not correct mistakes.",
+  textbook:
+    "This is a photo of a printed page, such as a textbook problem. Transcribe the text, equations and any numbered parts; describe figures in one italic line, e.g. *[Figure: block on a 30° incline]*.",
+} as const;
+
+/**
+ * Read a photographed page into Markdown with LaTeX math, for the student to
+ * review and edit before it is sent anywhere.
+ */
+export async function transcribePage(
+  provider: AIProviderAdapter | string | null | undefined,
+  imageUrl: string,
+  kind: keyof typeof TRANSCRIBE_INSTRUCTIONS
+): Promise<{ markdown: string | null; usage: AIUsageReport }> {
+  const adapter = toAdapter(provider);
+  const { text, usage } = await complete(adapter, {
+    purpose: "ocr",
+    model: adapter.defaultModel,
+    system: "You transcribe photographed physics work into Markdown. You never solve, explain or comment on what you read.",
+    messages: [{
+      role: "user",
+      content: `${TRANSCRIBE_INSTRUCTIONS[kind]} Use $...$ for inline math and $$...$$ for display math, never \\(...\\) or \\[...\\]. Keep the original line breaks between steps. Mark anything you cannot read as [illegible]. Reply with ONLY the transcription.`,
+      imageUrls: [imageUrl],
+    }],
+    maxTokens: 2048,
+  });
+  return { markdown: text?.trim() || null, usage };
 }
@@ -0,0 +1,85 @@
+import { z } from "zod";
+
+/** Token counts for one provider call. */
+export interface AIUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** Part of `outputTokens` spent on hidden reasoning, where the vendor reports it */
+  reasoningTokens: number;
+}
+
+export const EMPTY_AI_USAGE: AIUsage = { inputTokens: 0, outputTokens: 0, reasoningTokens: 0 };
+
+export function addAIUsage(a: AIUsage, b: AIUsage): AIUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    reasoningTokens: a.reasoningTokens + b.reasoningTokens,
+  };
+}
+
+export const AI_FEATURES = ["chat", "grading", "problems", "title", "summary", "ocr"] as const;
+export type AIFeature = (typeof AI_FEATURES)[number];
+
+export const AI_FEATURE_LABELS: Record<AIFeature, string> = {
+  chat: "AI Chat",
+  grading: "AI Grading",
+  problems: "Problem Generator",
+  title: "Chat Titles",
+  summary: "Chat Summaries",
+  ocr: "Handwriting OCR",
+};
+
+const modelPriceSchema = z.object({
+  /** USD per 1M input tokens */
+  input: z.number().min(0).max(1000),
+  /** USD per 1M output tokens, reasoning included */
+  output: z.number().min(0).max(1000),
+});
+
+export type ModelPrice = z.infer<typeof modelPriceSchema>;
+
+/** `AIConfig.priceTable`: per-model overrides of the built-in prices. */
+export const aiPriceTableSchema = z.record(z.string().min(1).max(100), modelPriceSchema);
+
+export type AIPriceTable = z.infer<typeof aiPriceTableSchema>;
+
+/** List prices at the time of writing; admins override them in settings. Unlisted models cost 0. */
+export const DEFAULT_AI_PRICES: AIPriceTable = {
+  "gpt-5.2": { input: 1.75, output: 14 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "claude-haiku-4-5-20251001": { input: 1, output: 5 },
+};
+
+/** Read overrides from a Prisma JSON column, ignoring malformed data. */
+export function parseAIPriceTable(value: unknown): AIPriceTable {
+  if (value === null || value === undefined) return {};
+  const parsed = aiPriceTableSchema.safeParse(value);
+  return parsed.success ? parsed.data : {};
+}
+
+/** Built-in prices with the admin's overrides applied. */
+export function resolveAIPrices(overrides: AIPriceTable): AIPriceTable {
+  return { ...DEFAULT_AI_PRICES, ...overrides };
+}
+
+export function computeAICost(usage: AIUsage, price: ModelPrice | undefined): number {
+  if (!price) return 0;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+/** `AIConfig` budget fields: USD per calendar month, null = unlimited. */
+export const budgetSchema = z.number().min(0).max(1_000_000).nullable();
+
+/** e.g. "$12.34" / "$0.0042" — small amounts keep enough digits to be visible */
+export function formatUsd(amount: number): string {
+  if (amount !== 0 && Math.abs(amount) < 0.01) return `$${amount.toFixed(4)}`;
+  return `$${amount.toFixed(2)}`;
+}
+
+/** e.g. "1.2M" / "34.5k" / "812" */
+export function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}
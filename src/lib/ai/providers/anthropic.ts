@@ -0,0 +1,149 @@
+import Anthropic from "@anthropic-ai/sdk";
+import type { AIProviderAdapter, AIRequest } from "../types";
+import type { AIUsage } from "../pricing";
+
+let client: Anthropic | null = null;
+
+/** Extended thinking for tutor replies; streamed to the student as the reasoning panel */
+const CHAT_THINKING_BUDGET = 2048;
+
+// Created on first use so a missing key only matters when Anthropic is actually called
+function getClient(): Anthropic {
+  if (!client) client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+  return client;
+}
+
+function toMessages(request: AIRequest): Anthropic.MessageParam[] {
+  const anthropicMessages: Anthropic.MessageParam[] = [];
+
+  for (const msg of request.messages) {
+    if (msg.role === "system") continue;
+
+    if (msg.role === "tool") {
+      // Results of one turn's calls go back together in a single user message
+      const block: Anthropic.ToolResultBlockParam = { type: "tool_result", tool_use_id: msg.toolCallId!, content: msg.content };
+      const last = anthropicMessages[anthropicMessages.length - 1];
+      if (last?.role === "user" && Array.isArray(last.content) && last.content.every((b) => b.type === "tool_result")) {
+        last.content.push(block);
+      } else {
+        anthropicMessages.push({ role: "user", content: [block] });
+      }
+    } else if (msg.role === "assistant" && msg.toolCalls?.length) {
+      anthropicMessages.push({
+        role: "assistant",
+        // Replayed as returned: thinking blocks must come back signed and unchanged
+        content: Array.isArray(msg.raw) ? (msg.raw as Anthropic.ContentBlockParam[]) : [
+          ...(msg.content ? [{ type: "text" as const, text: msg.content }] : []),
+          ...msg.toolCalls.map((call) => ({
+            type: "tool_use" as const,
+            id: call.id,
+            name: call.name,
+            input: JSON.parse(call.arguments || "{}"),
+          })),
+        ],
+      });
+    } else if (msg.imageUrls?.length) {
+      anthropicMessages.push({
+        role: msg.role,
+        content: [
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          ...msg.imageUrls.map((url): any => {
+            const dataMatch = url.match(/^data:(.+?);base64,(.+)$/);
+            if (dataMatch) {
+              return {
+                type: "image",
+                source: { type: "base64", media_type: dataMatch[1], data: dataMatch[2] },
+              };
+            }
+            return {
+              type: "image",
+              source: { type: "url", url },
+            };
+          }),
+          { type: "text" as const, text: msg.content },
+        ],
+      });
+    } else {
+      anthropicMessages.push({
+        role: msg.role,
+        content: msg.content,
+      });
+    }
+  }
+
+  return anthropicMessages;
+}
+
+function toUsage(usage: Anthropic.Usage): AIUsage {
+  return {
+    // Cached prompt tokens count as input (cache reads are billed lower, so this errs high)
+    inputTokens: usage.input_tokens + (usage.cache_creation_input_tokens ?? 0) + (usage.cache_read_input_tokens ?? 0),
+    outputTokens: usage.output_tokens,
+    reasoningTokens: 0,
+  };
+}
+
+export const anthropicProvider: AIProviderAdapter = {
+  id: "anthropic",
+  label: "Anthropic",
+  hosted: true,
+  models: [
+    { id: "claude-haiku-4-5-20251001", label: "Claude 4.5 Haiku" },
+  ],
+  defaultModel: "claude-haiku-4-5-20251001",
+  fastModel: "claude-haiku-4-5-20251001",
+  contextWindow: 200_000,
+  tokens: { charsPerToken: 3.5, tokensPerCjkChar: 1.3, tokensPerImage: 1600 },
+
+  async *stream(request) {
+    const thinking = request.purpose === "chat";
+    const stream = getClient().messages.stream({
+      model: request.model,
+      // The thinking budget comes out of max_tokens, so the answer keeps its full allowance
+      max_tokens: (request.maxTokens ?? 4096) + (thinking ? CHAT_THINKING_BUDGET : 0),
+      system: request.system,
+      messages: toMessages(request),
+      ...(thinking && { thinking: { type: "enabled" as const, budget_tokens: CHAT_THINKING_BUDGET } }),
+      ...(request.tools?.length && {
+        tools: request.tools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.parameters as Anthropic.Tool.InputSchema,
+        })),
+        tool_choice: { type: request.toolChoice ?? "auto" },
+      }),
+    }, { signal: request.signal });
+
+    for await (const event of stream) {
+      if (event.type === "content_block_delta") {
+        if (event.delta.type === "thinking_delta" && event.delta.thinking) {
+          yield { type: "thinking", content: event.delta.thinking };
+        } else if (event.delta.type === "text_delta" && event.delta.text) {
+          yield { type: "delta", content: event.delta.text };
+        }
+      }
+    }
+
+    const message = await stream.finalMessage();
+    yield { type: "usage", usage: toUsage(message.usage) };
+    const calls = message.content.filter((block): block is Anthropic.ToolUseBlock => block.type === "tool_use");
+    if (calls.length > 0) {
+      yield {
+        type: "tool_calls",
+        calls: calls.map((call) => ({ id: call.id, name: call.name, arguments: JSON.stringify(call.input) })),
+        raw: message.content,
+      };
+    }
+  },
+
+  async complete(request) {
+    const response = await getClient().messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens ?? 1024,
+      system: request.system,
+      messages: toMessages(request),
+    });
+    const block = response.content[0];
+    return { text: block?.type === "text" ? block.text : null, usage: toUsage(response.usage) };
+  },
+};
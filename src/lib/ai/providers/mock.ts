@@ -0,0 +1,143 @@
+import type { AIProviderAdapter, AIRequest, ToolCall, ToolResult } from "../types";
+import type { AIUsage } from "../pricing";
+
+/**
+ * Deterministic offline provider for development, e2e tests and demos: the
+ * same request always produces the same output, and nothing leaves the
+ * machine. Structured purposes (problems, grading) return valid JSON so the
+ * routes that parse them work end to end.
+ */
+
+function lastUserMessage(request: AIRequest): string {
+  for (let i = request.messages.length - 1; i >= 0; i--) {
+    if (request.messages[i].role === "user") return request.messages[i].content;
+  }
+  return "";
+}
+
+function promptField(prompt: string, label: string): string {
+  const match = prompt.match(new RegExp(`^${label}: (.*)$`, "m"));
+  return match ? match[1].trim() : "";
+}
+
+function mockProblems(prompt: string): string {
+  const count = Math.min(Number(prompt.match(/Generate (\d+) physics problem/)?.[1]) || 1, 20);
+  const topic = prompt.match(/about "([^"]*)"/)?.[1] || "kinematics";
+  const questionType = promptField(prompt, "Question type") || "FREE_RESPONSE";
+
+  const problems = Array.from({ length: count }, (_, i) => {
+    const mass = 2 + i;
+    const a = Number((10 / mass).toFixed(2));
+    return {
+      questionText: `**(${topic})** A block of mass $m = ${mass}\\ \\mathrm{kg}$ is pushed with a net force $F = 10\\ \\mathrm{N}$. What is its acceleration?`,
+      questionType,
+      ...(questionType === "MC"
+        ? { options: [`$${a}\\ \\mathrm{m/s^2}$`, `$${mass * 10}\\ \\mathrm{m/s^2}$`, `$${mass}\\ \\mathrm{m/s^2}$`, "$0$"] }
+        : {}),
+      correctAnswer: `$${a}\\ \\mathrm{m/s^2}$`,
+      solution: `By Newton's second law,\n\n$$a = \\frac{F}{m} = \\frac{10}{${mass}} = ${a}\\ \\mathrm{m/s^2}$$`,
+      points: 10,
+    };
+  });
+
+  return JSON.stringify({ problems });
+}
+
+function mockGrade(prompt: string): string {
+  const maxPoints = Number(promptField(prompt, "Max Points")) || 0;
+  const normalize = (s: string) => s.replace(/\s+/g, "").toLowerCase();
+  const correct = normalize(promptField(prompt, "Correct Answer"));
+  const matches = correct !== "" && normalize(promptField(prompt, "Student Answer")) === correct;
+  return JSON.stringify({
+    score: matches ? maxPoints : 0,
+    feedback: matches
+      ? "The answer matches the expected result. (mock grader)"
+      : "The answer does not match the expected result. (mock grader)",
+  });
+}
+
+/** "calculate <expression>" makes the mock tutor call the calculator, so tool cards can be exercised offline */
+function mockToolCall(request: AIRequest): ToolCall | null {
+  if (request.toolChoice === "none" || !request.tools?.some((t) => t.name === "calculator")) return null;
+  const last = request.messages[request.messages.length - 1];
+  if (last?.role !== "user") return null;
+  const expression = last.content.match(/^\s*(?:calculate|compute)\s+(.+)$/im)?.[1];
+  return expression ? { id: "mock_call_1", name: "calculator", arguments: JSON.stringify({ expression }) } : null;
+}
+
+function mockToolReply(content: string): string {
+  const result = JSON.parse(content) as ToolResult;
+  return result.ok
+    ? `The calculator gives **${String(result.output.text)}**.`
+    : `The calculator could not evaluate that: ${result.error}`;
+}
+
+function mockReply(request: AIRequest): string {
+  const message = lastUserMessage(request);
+  const last = request.messages[request.messages.length - 1];
+  if (last?.role === "tool") return mockToolReply(last.content);
+  switch (request.purpose) {
+    case "problems":
+      return mockProblems(message);
+    case "grading":
+      return mockGrade(message);
+    case "title":
+      return (message.match(/Question: (.*)/)?.[1] || message).split(/\s+/).slice(0, 6).join(" ") || "New Chat";
+    case "summary":
+      return `Mock summary: ${(message.match(/^Student: (.*)$/m)?.[1] || "earlier messages").slice(0, 200)}`;
+    case "ocr":
+      return "Mock transcription of the attached page:\n\n$$v^2 = v_0^2 + 2a\\Delta x$$\n\nso $v = \\sqrt{2gh}$ [illegible]";
+    default:
+      return [
+        `This is the offline mock tutor. You asked:\n\n> ${message.replace(/\n/g, "\n> ")}`,
+        "Here is a worked relation to check rendering: $$F = ma$$",
+        "Configure a real AI provider in the admin settings for actual answers.",
+      ].join("\n\n");
+  }
+}
+
+// Rough 4-characters-per-token estimate, so usage dashboards have data offline
+function mockUsage(request: AIRequest, reply: string): AIUsage {
+  const promptChars = request.system.length + request.messages.reduce((sum, m) => sum + m.content.length, 0);
+  return {
+    inputTokens: Math.ceil(promptChars / 4),
+    outputTokens: Math.ceil(reply.length / 4),
+    reasoningTokens: 0,
+  };
+}
+
+export const mockProvider: AIProviderAdapter = {
+  id: "mock",
+  label: "Mock (offline)",
+  hosted: false,
+  models: [{ id: "mock", label: "Mock" }],
+  defaultModel: "mock",
+  fastModel: "mock",
+  contextWindow: 128_000,
+  // Same 4-characters-per-token rule as the usage it reports
+  tokens: { charsPerToken: 4, tokensPerCjkChar: 1, tokensPerImage: 85 },
+
+  async *stream(request) {
+    if (request.purpose === "chat") {
+      yield { type: "thinking", content: "Mock provider: composing a canned reply." };
+    }
+    const call = mockToolCall(request);
+    if (call) {
+      yield { type: "usage", usage: mockUsage(request, call.arguments) };
+      yield { type: "tool_calls", calls: [call] };
+      return;
+    }
+    const reply = mockReply(request);
+    // Word-sized chunks so the client exercises its incremental rendering
+    for (const chunk of reply.match(/\S+\s*|\s+/g) ?? []) {
+      if (request.signal?.aborted) return;
+      yield { type: "delta", content: chunk };
+    }
+    yield { type: "usage", usage: mockUsage(request, reply) };
+  },
+
+  async complete(request) {
+    const reply = mockReply(request);
+    return { text: reply, usage: mockUsage(request, reply) };
+  },
+};
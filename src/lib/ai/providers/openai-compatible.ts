@@ -0,0 +1,126 @@
+import OpenAI from "openai";
+import type { AIProviderAdapter, AIRequest } from "../types";
+import type { AIUsage } from "../pricing";
+
+// Ollama's default endpoint; LM Studio, vLLM and llama.cpp servers work the same way
+const BASE_URL = process.env.OPENAI_COMPATIBLE_BASE_URL || "http://localhost:11434/v1";
+const MODEL = process.env.OPENAI_COMPATIBLE_MODEL || "llama3.1";
+// Ollama's default is small; raise it here when the server is configured with a larger num_ctx
+const CONTEXT_WINDOW = Number(process.env.OPENAI_COMPATIBLE_CONTEXT_WINDOW) || 8192;
+
+let client: OpenAI | null = null;
+
+function getClient(): OpenAI {
+  if (!client) {
+    client = new OpenAI({
+      baseURL: BASE_URL,
+      // Most local servers ignore the key, but the SDK insists on one
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || "not-needed",
+    });
+  }
+  return client;
+}
+
+function toMessages(request: AIRequest): OpenAI.Chat.ChatCompletionMessageParam[] {
+  const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+    { role: "system", content: request.system },
+  ];
+
+  for (const msg of request.messages) {
+    if (msg.role === "user" && msg.imageUrls?.length) {
+      messages.push({
+        role: "user",
+        content: [
+          { type: "text", text: msg.content },
+          ...msg.imageUrls.map((url) => ({ type: "image_url" as const, image_url: { url } })),
+        ],
+      });
+    } else if (msg.role === "assistant" && msg.toolCalls?.length) {
+      messages.push({
+        role: "assistant",
+        content: msg.content || null,
+        tool_calls: msg.toolCalls.map((call) => ({
+          id: call.id,
+          type: "function" as const,
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      });
+    } else if (msg.role === "tool") {
+      messages.push({ role: "tool", tool_call_id: msg.toolCallId!, content: msg.content });
+    } else if (msg.role === "user" || msg.role === "assistant") {
+      messages.push({ role: msg.role, content: msg.content });
+    }
+  }
+
+  return messages;
+}
+
+function toUsage(usage: OpenAI.CompletionUsage | null | undefined): AIUsage {
+  return {
+    inputTokens: usage?.prompt_tokens ?? 0,
+    outputTokens: usage?.completion_tokens ?? 0,
+    reasoningTokens: usage?.completion_tokens_details?.reasoning_tokens ?? 0,
+  };
+}
+
+/** Any server speaking the OpenAI Chat Completions API, e.g. a local Ollama. */
+export const openaiCompatibleProvider: AIProviderAdapter = {
+  id: "openai-compatible",
+  label: "OpenAI-compatible (local)",
+  hosted: false,
+  models: [{ id: MODEL, label: MODEL }],
+  defaultModel: MODEL,
+  fastModel: MODEL,
+  contextWindow: CONTEXT_WINDOW,
+  tokens: { charsPerToken: 3.8, tokensPerCjkChar: 1.5, tokensPerImage: 576 },
+
+  async *stream(request) {
+    const stream = await getClient().chat.completions.create({
+      model: request.model,
+      messages: toMessages(request),
+      max_tokens: request.maxTokens,
+      response_format: request.json ? { type: "json_object" } : undefined,
+      tools: request.tools?.length
+        ? request.tools.map((tool) => ({
+            type: "function" as const,
+            function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+          }))
+        : undefined,
+      tool_choice: request.tools?.length ? request.toolChoice : undefined,
+      stream: true,
+      stream_options: { include_usage: true },
+    }, { signal: request.signal });
+
+    // Calls arrive in fragments keyed by index: the id and name first, then the arguments piece by piece
+    const calls: { id: string; name: string; arguments: string }[] = [];
+
+    for await (const chunk of stream) {
+      // Reasoning models served by Ollama/vLLM put their thoughts in a non-standard field
+      const delta = chunk.choices[0]?.delta as { content?: string | null; reasoning_content?: string; reasoning?: string } | undefined;
+      const thinking = delta?.reasoning_content || delta?.reasoning;
+      if (thinking) yield { type: "thinking", content: thinking };
+      if (delta?.content) yield { type: "delta", content: delta.content };
+      for (const part of chunk.choices[0]?.delta.tool_calls ?? []) {
+        const call = (calls[part.index] ??= { id: "", name: "", arguments: "" });
+        if (part.id) call.id = part.id;
+        if (part.function?.name) call.name += part.function.name;
+        if (part.function?.arguments) call.arguments += part.function.arguments;
+      }
+      // Sent on the final chunk by servers that honor include_usage
+      if (chunk.usage) yield { type: "usage", usage: toUsage(chunk.usage) };
+    }
+
+    const toolCalls = calls.filter(Boolean).map((call, i) => ({ ...call, id: call.id || `call_${i}` }));
+    if (toolCalls.length > 0) yield { type: "tool_calls", calls: toolCalls };
+  },
+
+  async complete(request) {
+    const response = await getClient().chat.completions.create({
+      model: request.model,
+      messages: toMessages(request),
+      max_tokens: request.maxTokens,
+      response_format: request.json ? { type: "json_object" } : undefined,
+    });
+    return { text: response.choices[0]?.message.content ?? null, usage: toUsage(response.usage) };
+  },
+};
@@ -0,0 +1,134 @@
+import OpenAI from "openai";
+import type { AIProviderAdapter, AIRequest } from "../types";
+import type { AIUsage } from "../pricing";
+
+let client: OpenAI | null = null;
+
+// Created on first use so a missing key only matters when OpenAI is actually called
+function getClient(): OpenAI {
+  if (!client) client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  return client;
+}
+
+function toInput(request: AIRequest) {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const input: any[] = [
+    { role: "developer", content: request.system },
+  ];
+
+  for (const msg of request.messages) {
+    if (msg.imageUrls?.length && msg.role === "user") {
+      input.push({
+        role: "user",
+        content: [
+          { type: "input_text", text: msg.content },
+          ...msg.imageUrls.map((url) => ({
+            type: "input_image",
+            image_url: url,
+          })),
+        ],
+      });
+    } else if (msg.role === "user") {
+      input.push({ role: "user", content: msg.content });
+    } else if (msg.role === "assistant" && msg.toolCalls?.length) {
+      // The response's own output items (reasoning, text, calls) when it came from here
+      if (Array.isArray(msg.raw)) {
+        input.push(...msg.raw);
+      } else {
+        if (msg.content) input.push({ role: "assistant", content: msg.content });
+        input.push(...msg.toolCalls.map((call) => ({
+          type: "function_call",
+          call_id: call.id,
+          name: call.name,
+          arguments: call.arguments,
+        })));
+      }
+    } else if (msg.role === "assistant") {
+      input.push({ role: "assistant", content: msg.content });
+    } else if (msg.role === "tool") {
+      input.push({ type: "function_call_output", call_id: msg.toolCallId, output: msg.content });
+    }
+  }
+
+  return input;
+}
+
+function toTools(request: AIRequest): OpenAI.Responses.Tool[] | undefined {
+  const tools: OpenAI.Responses.Tool[] = (request.tools ?? []).map((tool) => ({
+    type: "function",
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.parameters,
+    strict: false,
+  }));
+  if (request.webSearch) tools.push({ type: "web_search_preview" });
+  return tools.length ? tools : undefined;
+}
+
+function toUsage(usage: OpenAI.Responses.ResponseUsage | undefined): AIUsage {
+  return {
+    inputTokens: usage?.input_tokens ?? 0,
+    outputTokens: usage?.output_tokens ?? 0,
+    reasoningTokens: usage?.output_tokens_details?.reasoning_tokens ?? 0,
+  };
+}
+
+export const openaiProvider: AIProviderAdapter = {
+  id: "openai",
+  label: "OpenAI",
+  hosted: true,
+  models: [
+    { id: "gpt-5.2", label: "GPT-5.2" },
+    { id: "gpt-5-mini", label: "GPT-5 Mini" },
+  ],
+  defaultModel: "gpt-5.2",
+  fastModel: "gpt-5-mini",
+  contextWindow: 400_000,
+  tokens: { charsPerToken: 4, tokensPerCjkChar: 1, tokensPerImage: 765 },
+
+  async *stream(request) {
+    const stream = await getClient().responses.create({
+      model: request.model,
+      input: toInput(request),
+      reasoning: request.purpose === "chat" ? { effort: "low", summary: "detailed" } : { effort: "low" },
+      tools: toTools(request),
+      tool_choice: request.toolChoice,
+      stream: true,
+    }, { signal: request.signal });
+
+    for await (const event of stream) {
+      if (event.type === "response.reasoning_summary_text.delta" && event.delta) {
+        yield { type: "thinking", content: event.delta };
+      } else if (event.type === "response.output_text.delta" && event.delta) {
+        yield { type: "delta", content: event.delta };
+      } else if (event.type === "response.output_text.annotation.added") {
+        const annotation = event.annotation as Partial<OpenAI.Responses.ResponseOutputText.URLCitation>;
+        if (annotation.type === "url_citation" && annotation.url) {
+          yield { type: "source", source: { url: annotation.url, title: annotation.title || annotation.url } };
+        }
+      } else if (event.type === "response.completed" || event.type === "response.incomplete") {
+        yield { type: "usage", usage: toUsage(event.response.usage) };
+        const calls = event.response.output.filter(
+          (item): item is OpenAI.Responses.ResponseFunctionToolCall => item.type === "function_call"
+        );
+        if (calls.length > 0) {
+          yield {
+            type: "tool_calls",
+            calls: calls.map((call) => ({ id: call.call_id, name: call.name, arguments: call.arguments })),
+            raw: event.response.output,
+          };
+        }
+      }
+    }
+  },
+
+  async complete(request) {
+    const response = await getClient().responses.create({
+      model: request.model,
+      input: toInput(request),
+      reasoning: { effort: "low" },
+      text: request.json ? { format: { type: "json_object" } } : undefined,
+    });
+    return { text: response.output_text, usage: toUsage(response.usage) };
+  },
+};
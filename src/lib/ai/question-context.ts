@@ -0,0 +1,58 @@
+import { z } from "zod";
+import { getDiagramContent } from "@/lib/diagram-utils";
+
+/**
+ * The assignment question an "Ask AI" conversation is about, as the student saw
+ * it when they opened the chat. Stored in `Conversation.questionContext`.
+ */
+export const questionContextSchema = z.object({
+  questionId: z.string(),
+  /** 1-based position on the assignment */
+  number: z.number().int().min(1),
+  /** The student's own instance for randomized questions */
+  questionText: z.string(),
+  diagram: z.object({ type: z.string(), content: z.string() }).nullable(),
+  imageUrl: z.string().nullable(),
+  draftAnswer: z.string().max(10000),
+});
+
+export type QuestionContext = z.infer<typeof questionContextSchema>;
+
+/** Read a context from a Prisma JSON column, ignoring malformed data. */
+export function parseQuestionContext(value: unknown): QuestionContext | null {
+  if (value === null || value === undefined) return null;
+  const parsed = questionContextSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+/** Conversation title, e.g. "Q3 · Homework 2" */
+export function questionContextTitle(context: QuestionContext, assignmentTitle: string): string {
+  return `Q${context.number} · ${assignmentTitle}`.slice(0, 50);
+}
+
+/**
+ * Appended to the tutor's system prompt on every turn, so the question stays in
+ * view however long the conversation gets. The question image is attached to
+ * the conversation's first message separately.
+ */
+export function buildQuestionContextPrompt(context: QuestionContext, assignmentTitle: string): string {
+  const diagram = getDiagramContent(context.diagram);
+  const parts = [
+    `## The student's assignment question
+The student opened this chat from Question ${context.number} of "${assignmentTitle}". Their messages are about this question unless they say otherwise.
+
+${context.questionText}`,
+  ];
+  if (diagram) {
+    parts.push(`The question includes this ${diagram.type === "svg" ? "SVG" : "Mermaid"} diagram:\n\`\`\`${diagram.type}\n${diagram.content}\n\`\`\``);
+  }
+  if (context.imageUrl) {
+    parts.push("The question includes a figure, attached to the student's first message.");
+  }
+  parts.push(
+    context.draftAnswer.trim()
+      ? `The student's draft answer when they opened the chat:\n${context.draftAnswer.trim()}`
+      : "The student had not written an answer yet."
+  );
+  return parts.join("\n\n");
+}
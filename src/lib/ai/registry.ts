@@ -0,0 +1,62 @@
+import type { AIProviderAdapter } from "./types";
+import { openaiProvider } from "./providers/openai";
+import { anthropicProvider } from "./providers/anthropic";
+import { openaiCompatibleProvider } from "./providers/openai-compatible";
+import { mockProvider } from "./providers/mock";
+
+/** Every provider, keyed by the string stored in `AIConfig.provider`. */
+export const AI_PROVIDERS: Record<string, AIProviderAdapter> = {
+  [openaiProvider.id]: openaiProvider,
+  [anthropicProvider.id]: anthropicProvider,
+  [openaiCompatibleProvider.id]: openaiCompatibleProvider,
+  [mockProvider.id]: mockProvider,
+};
+
+export const DEFAULT_AI_PROVIDER = openaiProvider.id;
+
+export function isAIProviderId(id: unknown): id is string {
+  return typeof id === "string" && Object.prototype.hasOwnProperty.call(AI_PROVIDERS, id);
+}
+
+/**
+ * The provider for a configured id. `AI_PROVIDER` in the environment wins over
+ * the admin setting, so e2e runs and offline demos can force `mock` without
+ * touching the database. Unknown ids fall back to OpenAI.
+ */
+export function getAIProvider(configured?: string | null): AIProviderAdapter {
+  const id = process.env.AI_PROVIDER || configured;
+  return isAIProviderId(id) ? AI_PROVIDERS[id] : AI_PROVIDERS[DEFAULT_AI_PROVIDER];
+}
+
+/**
+ * Pick provider and model for a chat turn. With a hosted provider active the
+ * student's model picker chooses between hosted vendors; a local provider
+ * answers everything with the admin's configured model.
+ */
+export function resolveChatProvider(
+  config: { provider: string; model: string } | null,
+  requestedModel?: string
+): { provider: AIProviderAdapter; model: string } {
+  const active = getAIProvider(config?.provider);
+  const offers = (p: AIProviderAdapter, model?: string) => !!model && p.models.some((m) => m.id === model);
+
+  if (active.hosted && requestedModel) {
+    const match = Object.values(AI_PROVIDERS).find((p) => p.hosted && offers(p, requestedModel));
+    if (match) return { provider: match, model: requestedModel };
+  }
+  return {
+    provider: active,
+    model: config && offers(active, config.model) ? config.model : active.defaultModel,
+  };
+}
+
+/** Provider/model options for the admin settings page. */
+export function listAIProviders() {
+  return Object.values(AI_PROVIDERS).map((p) => ({
+    id: p.id,
+    label: p.label,
+    hosted: p.hosted,
+    models: p.models,
+    defaultModel: p.defaultModel,
+  }));
+}
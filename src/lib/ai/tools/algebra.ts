@@ -0,0 +1,611 @@
+import { z } from "zod";
+import type { JsonValue } from "../types";
+import type { ChatTool } from "./index";
+
+/**
+ * Small symbolic algebra for the tutor: substitute values into an expression,
+ * simplify, differentiate, and solve an equation numerically for one unknown.
+ * The grammar is the answer-formula grammar (`@/lib/grading/formula`) plus
+ * implicit multiplication after numbers ("2x"); expressions are kept as a
+ * tree rather than evaluated straight away.
+ */
+
+class AlgebraError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AlgebraError";
+  }
+}
+
+type BinaryOp = "+" | "-" | "*" | "/" | "^";
+
+type Node =
+  | { kind: "num"; value: number }
+  | { kind: "sym"; name: string }
+  | { kind: "neg"; arg: Node }
+  | { kind: "bin"; op: BinaryOp; left: Node; right: Node }
+  | { kind: "call"; fn: string; arg: Node };
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  sinh: Math.sinh,
+  cosh: Math.cosh,
+  tanh: Math.tanh,
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+const num = (value: number): Node => ({ kind: "num", value });
+const neg = (arg: Node): Node => ({ kind: "neg", arg });
+const bin = (op: BinaryOp, left: Node, right: Node): Node => ({ kind: "bin", op, left, right });
+const call = (fn: string, arg: Node): Node => ({ kind: "call", fn, arg });
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+type Token = { type: "number"; value: number } | { type: "name"; value: string } | { type: "op"; value: string };
+
+function tokenize(expr: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < expr.length) {
+    const ch = expr[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    const number = /^(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/.exec(expr.slice(i));
+    if (number) {
+      tokens.push({ type: "number", value: parseFloat(number[0]) });
+      i += number[0].length;
+      continue;
+    }
+    const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(expr.slice(i));
+    if (name) {
+      tokens.push({ type: "name", value: name[0] });
+      i += name[0].length;
+      continue;
+    }
+    if ("+-*/^()".includes(ch)) {
+      tokens.push({ type: "op", value: ch });
+      i++;
+      continue;
+    }
+    if (ch === "×" || ch === "·") {
+      tokens.push({ type: "op", value: "*" });
+      i++;
+      continue;
+    }
+    throw new AlgebraError(`Unexpected character "${ch}"`);
+  }
+  return tokens;
+}
+
+/**
+ * expr    := term (('+' | '-') term)*
+ * term    := unary (('*' | '/' | <implicit after a number>) unary)*
+ * unary   := '-' unary | power
+ * power   := primary ('^' unary)?
+ * primary := number | name | name '(' expr ')' | '(' expr ')'
+ */
+function parse(expr: string): Node {
+  const tokens = tokenize(expr);
+  if (tokens.length === 0) throw new AlgebraError("Expression is empty");
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const isOp = (value: string) => peek()?.type === "op" && peek()?.value === value;
+  const expect = (value: string) => {
+    if (!isOp(value)) throw new AlgebraError(`Expected "${value}"`);
+    pos++;
+  };
+
+  const parseExpr = (): Node => {
+    let left = parseTerm();
+    while (isOp("+") || isOp("-")) {
+      const op = tokens[pos++].value as BinaryOp;
+      left = bin(op, left, parseTerm());
+    }
+    return left;
+  };
+
+  const parseTerm = (): Node => {
+    let left = parseUnary();
+    while (true) {
+      if (isOp("*") || isOp("/")) {
+        const op = tokens[pos++].value as BinaryOp;
+        left = bin(op, left, parseUnary());
+      } else if (tokens[pos - 1]?.type === "number" && (peek()?.type === "name" || isOp("("))) {
+        left = bin("*", left, parseUnary());
+      } else {
+        return left;
+      }
+    }
+  };
+
+  const parseUnary = (): Node => {
+    if (isOp("-")) {
+      pos++;
+      return neg(parseUnary());
+    }
+    if (isOp("+")) {
+      pos++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): Node => {
+    const base = parsePrimary();
+    if (isOp("^")) {
+      pos++;
+      return bin("^", base, parseUnary());
+    }
+    return base;
+  };
+
+  const parsePrimary = (): Node => {
+    const tok = peek();
+    if (!tok) throw new AlgebraError("Unexpected end of expression");
+    pos++;
+    if (tok.type === "number") return num(tok.value);
+    if (tok.type === "name") {
+      if (isOp("(")) {
+        if (!(tok.value in FUNCTIONS)) throw new AlgebraError(`Unknown function "${tok.value}"`);
+        pos++;
+        const arg = parseExpr();
+        expect(")");
+        return call(tok.value, arg);
+      }
+      return { kind: "sym", name: tok.value };
+    }
+    if (tok.value === "(") {
+      const inner = parseExpr();
+      expect(")");
+      return inner;
+    }
+    throw new AlgebraError(`Unexpected "${tok.value}"`);
+  };
+
+  const tree = parseExpr();
+  if (pos < tokens.length) throw new AlgebraError(`Unexpected "${tokens[pos].value}"`);
+  return tree;
+}
+
+// ---------------------------------------------------------------------------
+// Rewriting
+// ---------------------------------------------------------------------------
+
+function applyOp(op: BinaryOp, a: number, b: number): number {
+  switch (op) {
+    case "+":
+      return a + b;
+    case "-":
+      return a - b;
+    case "*":
+      return a * b;
+    case "/":
+      return a / b;
+    case "^":
+      return Math.pow(a, b);
+  }
+}
+
+function substitute(node: Node, values: Record<string, number>): Node {
+  switch (node.kind) {
+    case "num":
+      return node;
+    case "sym":
+      return node.name in values ? num(values[node.name]) : node;
+    case "neg":
+      return neg(substitute(node.arg, values));
+    case "bin":
+      return bin(node.op, substitute(node.left, values), substitute(node.right, values));
+    case "call":
+      return call(node.fn, substitute(node.arg, values));
+  }
+}
+
+const isNum = (node: Node, value?: number) => node.kind === "num" && (value === undefined || node.value === value);
+const isInteger = (node: Node) => node.kind === "num" && Number.isInteger(node.value);
+
+/** Fold constant arithmetic and drop identities (x + 0, 1 * x, x ^ 1, ...). */
+function simplify(node: Node): Node {
+  switch (node.kind) {
+    case "num":
+    case "sym":
+      return node;
+    case "neg": {
+      const arg = simplify(node.arg);
+      if (arg.kind === "num") return num(-arg.value);
+      if (arg.kind === "neg") return arg.arg;
+      return neg(arg);
+    }
+    case "call": {
+      const arg = simplify(node.arg);
+      if (arg.kind === "num") {
+        const value = FUNCTIONS[node.fn](arg.value);
+        if (Number.isFinite(value)) return num(value);
+      }
+      return call(node.fn, arg);
+    }
+    case "bin": {
+      const left = simplify(node.left);
+      const right = simplify(node.right);
+      // Keep 1/3 a fraction; everything else numeric folds
+      const fraction = node.op === "/" && isInteger(left) && isInteger(right) && !isNum(right, 0);
+      if (left.kind === "num" && right.kind === "num" && !fraction) {
+        const value = applyOp(node.op, left.value, right.value);
+        if (Number.isFinite(value)) return num(value);
+      }
+      switch (node.op) {
+        case "+":
+          if (isNum(left, 0)) return right;
+          if (isNum(right, 0)) return left;
+          if (right.kind === "neg") return simplify(bin("-", left, right.arg));
+          break;
+        case "-":
+          if (isNum(right, 0)) return left;
+          if (isNum(left, 0)) return simplify(neg(right));
+          break;
+        case "*":
+        case "/":
+          return foldProduct(bin(node.op, left, right));
+        case "^":
+          if (isNum(right, 0)) return num(1);
+          if (isNum(right, 1)) return left;
+          break;
+      }
+      return bin(node.op, left, right);
+    }
+  }
+}
+
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b));
+
+function product(factors: Node[]): Node {
+  return factors.reduce((acc, f) => bin("*", acc, f));
+}
+
+/**
+ * Rebuild a chain of * and / as coefficient × factors / factors, so numbers
+ * meet wherever they were written: "2*t^2/2" → "t^2". Integer coefficients
+ * stay a reduced fraction rather than becoming a decimal.
+ */
+function foldProduct(node: Node): Node {
+  const top: Node[] = [];
+  const bottom: Node[] = [];
+  let coefficientTop = 1;
+  let coefficientBottom = 1;
+  const collect = (n: Node, inverted: boolean) => {
+    if (n.kind === "bin" && (n.op === "*" || n.op === "/")) {
+      collect(n.left, inverted);
+      collect(n.right, n.op === "/" ? !inverted : inverted);
+    } else if (n.kind === "neg") {
+      coefficientTop = -coefficientTop;
+      collect(n.arg, inverted);
+    } else if (n.kind === "num") {
+      if (inverted) coefficientBottom *= n.value;
+      else coefficientTop *= n.value;
+    } else {
+      (inverted ? bottom : top).push(n);
+    }
+  };
+  collect(node, false);
+  if (coefficientTop === 0 && coefficientBottom !== 0) return num(0);
+  if (Number.isInteger(coefficientTop) && Number.isInteger(coefficientBottom) && coefficientBottom !== 0) {
+    const divisor = gcd(coefficientTop, coefficientBottom) * Math.sign(coefficientBottom);
+    coefficientTop /= divisor;
+    coefficientBottom /= divisor;
+  } else if (coefficientBottom !== 0) {
+    coefficientTop /= coefficientBottom;
+    coefficientBottom = 1;
+  }
+  const negative = coefficientTop < 0;
+  const magnitude = Math.abs(coefficientTop);
+  const numerator = product(magnitude !== 1 || top.length === 0 ? [num(magnitude), ...top] : top);
+  const denominator = coefficientBottom !== 1 ? [num(coefficientBottom), ...bottom] : bottom;
+  const result = denominator.length > 0 ? bin("/", numerator, product(denominator)) : numerator;
+  return negative ? neg(result) : result;
+}
+
+function dependsOn(node: Node, variable: string): boolean {
+  switch (node.kind) {
+    case "num":
+      return false;
+    case "sym":
+      return node.name === variable;
+    case "neg":
+    case "call":
+      return dependsOn(node.arg, variable);
+    case "bin":
+      return dependsOn(node.left, variable) || dependsOn(node.right, variable);
+  }
+}
+
+/** d/du of each function, in terms of u */
+const DERIVATIVES: Record<string, (u: Node) => Node> = {
+  sqrt: (u) => bin("/", num(1), bin("*", num(2), call("sqrt", u))),
+  abs: (u) => bin("/", u, call("abs", u)),
+  exp: (u) => call("exp", u),
+  ln: (u) => bin("/", num(1), u),
+  log: (u) => bin("/", num(1), bin("*", u, call("ln", num(10)))),
+  sin: (u) => call("cos", u),
+  cos: (u) => neg(call("sin", u)),
+  tan: (u) => bin("/", num(1), bin("^", call("cos", u), num(2))),
+  asin: (u) => bin("/", num(1), call("sqrt", bin("-", num(1), bin("^", u, num(2))))),
+  acos: (u) => neg(bin("/", num(1), call("sqrt", bin("-", num(1), bin("^", u, num(2)))))),
+  atan: (u) => bin("/", num(1), bin("+", num(1), bin("^", u, num(2)))),
+  sinh: (u) => call("cosh", u),
+  cosh: (u) => call("sinh", u),
+  tanh: (u) => bin("/", num(1), bin("^", call("cosh", u), num(2))),
+};
+
+function differentiate(node: Node, x: string): Node {
+  switch (node.kind) {
+    case "num":
+      return num(0);
+    case "sym":
+      return num(node.name === x ? 1 : 0);
+    case "neg":
+      return neg(differentiate(node.arg, x));
+    case "call":
+      return bin("*", DERIVATIVES[node.fn](node.arg), differentiate(node.arg, x));
+    case "bin": {
+      const { left: u, right: v } = node;
+      const du = differentiate(u, x);
+      const dv = differentiate(v, x);
+      switch (node.op) {
+        case "+":
+        case "-":
+          return bin(node.op, du, dv);
+        case "*":
+          return bin("+", bin("*", du, v), bin("*", u, dv));
+        case "/":
+          return bin("/", bin("-", bin("*", du, v), bin("*", u, dv)), bin("^", v, num(2)));
+        case "^":
+          if (!dependsOn(v, x)) return bin("*", bin("*", v, bin("^", u, bin("-", v, num(1)))), du);
+          if (!dependsOn(u, x)) return bin("*", bin("*", node, call("ln", u)), dv);
+          return bin("*", node, bin("+", bin("*", dv, call("ln", u)), bin("/", bin("*", v, du), u)));
+      }
+    }
+  }
+}
+
+function freeSymbols(node: Node, into = new Set<string>()): Set<string> {
+  if (node.kind === "sym" && !(node.name in CONSTANTS)) into.add(node.name);
+  if (node.kind === "neg" || node.kind === "call") freeSymbols(node.arg, into);
+  if (node.kind === "bin") {
+    freeSymbols(node.left, into);
+    freeSymbols(node.right, into);
+  }
+  return into;
+}
+
+function evaluate(node: Node, values: Record<string, number> = {}): number {
+  switch (node.kind) {
+    case "num":
+      return node.value;
+    case "sym":
+      if (node.name in values) return values[node.name];
+      if (node.name in CONSTANTS) return CONSTANTS[node.name];
+      throw new AlgebraError(`No value for "${node.name}"`);
+    case "neg":
+      return -evaluate(node.arg, values);
+    case "call":
+      return FUNCTIONS[node.fn](evaluate(node.arg, values));
+    case "bin":
+      return applyOp(node.op, evaluate(node.left, values), evaluate(node.right, values));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Printing
+// ---------------------------------------------------------------------------
+
+const PRECEDENCE: Record<BinaryOp, number> = { "+": 1, "-": 1, "*": 2, "/": 2, "^": 4 };
+
+function precedence(node: Node): number {
+  if (node.kind === "bin") return PRECEDENCE[node.op];
+  if (node.kind === "neg" || (node.kind === "num" && node.value < 0)) return 3;
+  return 5;
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toPrecision(10)));
+}
+
+function print(node: Node): string {
+  switch (node.kind) {
+    case "num":
+      return formatNumber(node.value);
+    case "sym":
+      return node.name;
+    case "call":
+      return `${node.fn}(${print(node.arg)})`;
+    case "neg":
+      return precedence(node.arg) < 3 ? `-(${print(node.arg)})` : `-${print(node.arg)}`;
+    case "bin": {
+      const p = PRECEDENCE[node.op];
+      const lp = precedence(node.left);
+      const rp = precedence(node.right);
+      const leftParens = node.op === "^" ? lp <= p : lp < p;
+      const rightParens = rp < p || rp === 3 || (rp === p && (node.op === "-" || node.op === "/"));
+      const left = leftParens ? `(${print(node.left)})` : print(node.left);
+      const right = rightParens ? `(${print(node.right)})` : print(node.right);
+      return p === 1 ? `${left} ${node.op} ${right}` : `${left}${node.op}${right}`;
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Solving
+// ---------------------------------------------------------------------------
+
+const MAX_SOLUTIONS = 10;
+
+/** Where to look for sign changes: a fine grid near zero and a logarithmic one out to ±1e8 */
+function samplePoints(): number[] {
+  const points = new Set<number>([0]);
+  for (let i = 1; i <= 400; i++) {
+    points.add(i / 4);
+    points.add(-i / 4);
+  }
+  for (let k = -24; k <= 32; k++) {
+    const x = Math.pow(10, k / 4);
+    points.add(x);
+    points.add(-x);
+  }
+  return Array.from(points).sort((a, b) => a - b);
+}
+
+/** Real roots of f found by bracketing sign changes and bisecting; poles are told apart by |f| growing. */
+function findRoots(f: (x: number) => number): number[] {
+  const roots: number[] = [];
+  const safe = (x: number) => {
+    try {
+      return f(x);
+    } catch {
+      return NaN;
+    }
+  };
+  const points = samplePoints();
+  let prevX = NaN;
+  let prevY = NaN;
+  for (const x of points) {
+    const y = safe(x);
+    if (!Number.isFinite(y)) {
+      prevX = prevY = NaN;
+      continue;
+    }
+    if (y === 0) {
+      roots.push(x);
+    } else if (Number.isFinite(prevY) && prevY !== 0 && Math.sign(prevY) !== Math.sign(y)) {
+      let a = prevX;
+      let b = x;
+      let fa = prevY;
+      for (let i = 0; i < 200 && b - a > 1e-15 * Math.max(1, Math.abs(a)); i++) {
+        const mid = (a + b) / 2;
+        const fm = safe(mid);
+        if (!Number.isFinite(fm)) break;
+        if (Math.sign(fm) === Math.sign(fa)) {
+          a = mid;
+          fa = fm;
+        } else {
+          b = mid;
+        }
+      }
+      const root = (a + b) / 2;
+      if (Math.abs(safe(root)) <= 1e-6 * Math.max(1, Math.abs(prevY), Math.abs(y))) roots.push(root);
+    }
+    prevX = x;
+    prevY = y;
+  }
+  // Periodic equations have roots all along the axis: report the ones nearest zero
+  return roots
+    .filter((r, i) => i === 0 || Math.abs(r - roots[i - 1]) > 1e-9 * Math.max(1, Math.abs(r)))
+    .sort((a, b) => Math.abs(a) - Math.abs(b))
+    .slice(0, MAX_SOLUTIONS)
+    .sort((a, b) => a - b);
+}
+
+// ---------------------------------------------------------------------------
+// Tool
+// ---------------------------------------------------------------------------
+
+export interface AlgebraInput {
+  expression: string;
+  variables?: Record<string, number>;
+  differentiate?: string;
+  solveFor?: string;
+}
+
+export function runAlgebra(input: AlgebraInput): { [key: string]: JsonValue } {
+  const sides = input.expression.split("=");
+  if (sides.length > 2) throw new AlgebraError("An equation may contain only one \"=\"");
+  const values = input.variables ?? {};
+  const tree = simplify(
+    substitute(sides.length === 2 ? bin("-", parse(sides[0]), parse(sides[1])) : parse(sides[0]), values)
+  );
+  const free = Array.from(freeSymbols(tree));
+  const output: { [key: string]: JsonValue } = {
+    expression: sides.length === 2 ? `${print(tree)} = 0` : print(tree),
+  };
+
+  if (sides.length === 1 && free.length === 0) output.value = Number(evaluate(tree).toPrecision(12));
+
+  if (input.differentiate) {
+    const derivative = simplify(differentiate(tree, input.differentiate));
+    output.derivative = print(derivative);
+    if (freeSymbols(derivative).size === 0) output.derivativeValue = Number(evaluate(derivative).toPrecision(12));
+  }
+
+  const unknown = input.solveFor ?? (sides.length === 2 && free.length === 1 ? free[0] : undefined);
+  if (sides.length === 2 && !unknown) {
+    throw new AlgebraError(`Say which variable to solve for (free variables: ${free.join(", ") || "none"})`);
+  }
+  if (unknown) {
+    const others = free.filter((name) => name !== unknown);
+    if (others.length > 0) {
+      throw new AlgebraError(`Give values for ${others.join(", ")} to solve for ${unknown} numerically`);
+    }
+    output.variable = unknown;
+    output.solutions = findRoots((x) => evaluate(tree, { [unknown]: x })).map((r) => Number(r.toPrecision(10)));
+  }
+  return output;
+}
+
+const argsSchema = z.object({
+  expression: z.string().min(1).max(500),
+  variables: z.record(z.string(), z.number()).optional(),
+  differentiate: z.string().max(50).optional(),
+  solveFor: z.string().max(50).optional(),
+});
+
+export const algebraTool: ChatTool<z.infer<typeof argsSchema>> = {
+  definition: {
+    name: "algebra",
+    description:
+      'Work with a symbolic expression or equation, e.g. "v0*t + a*t^2/2" or "x0 + v0*t - 4.9*t^2 = 0". ' +
+      "Substitutes the given variable values and simplifies; differentiates with respect to a variable; " +
+      "solves an equation (or expression = 0) numerically for one unknown, returning every real solution found. " +
+      "Supports + - * / ^, sqrt, abs, exp, ln, log, sin, cos, tan, asin, acos, atan, sinh, cosh, tanh, pi and e. " +
+      "Numbers only, no units: use the calculator for quantities with units.",
+    parameters: {
+      type: "object",
+      properties: {
+        expression: { type: "string", description: "Expression or equation (one \"=\")" },
+        variables: {
+          type: "object",
+          additionalProperties: { type: "number" },
+          description: "Values to substitute, by variable name",
+        },
+        differentiate: { type: "string", description: "Variable to differentiate with respect to" },
+        solveFor: { type: "string", description: "Unknown to solve for; every other variable needs a value" },
+      },
+      required: ["expression"],
+    },
+  },
+  schema: argsSchema,
+  run(args) {
+    try {
+      return { ok: true, output: runAlgebra(args) };
+    } catch (error) {
+      if (error instanceof AlgebraError) return { ok: false, error: error.message };
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,250 @@
+import { z } from "zod";
+import { normalizeUnitText, parseUnit, sameDimension, isDimensionless, type Dimension } from "@/lib/grading/units";
+import type { ChatTool } from "./index";
+
+/**
+ * Unit-aware arithmetic, e.g. "2.0 kg * 9.8 m/s^2 * 3 m" → 58.8 J. Numbers
+ * carry units written after them; names are looked up in the grader's unit
+ * table, so the same units students answer in are understood here. No eval:
+ * a small recursive-descent parser over quantities.
+ */
+
+interface Quantity {
+  /** In SI base units */
+  value: number;
+  dimension: Dimension;
+}
+
+class CalculatorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CalculatorError";
+  }
+}
+
+const SCALAR: Dimension = [0, 0, 0, 0, 0, 0, 0];
+
+const FUNCTIONS: Record<string, (q: Quantity) => Quantity> = {
+  sqrt: (q) => ({ value: Math.sqrt(q.value), dimension: q.dimension.map((d) => d / 2) as Dimension }),
+  abs: (q) => ({ value: Math.abs(q.value), dimension: q.dimension }),
+  sin: scalarFn(Math.sin),
+  cos: scalarFn(Math.cos),
+  tan: scalarFn(Math.tan),
+  asin: scalarFn(Math.asin),
+  acos: scalarFn(Math.acos),
+  atan: scalarFn(Math.atan),
+  exp: scalarFn(Math.exp),
+  ln: scalarFn(Math.log),
+  log: scalarFn(Math.log10),
+};
+
+function scalarFn(fn: (x: number) => number): (q: Quantity) => Quantity {
+  return (q) => {
+    if (!isDimensionless(q.dimension)) throw new CalculatorError("Functions like sin, exp and ln need a dimensionless argument");
+    return { value: fn(q.value), dimension: SCALAR };
+  };
+}
+
+type Token = { type: "number"; value: number } | { type: "name"; value: string } | { type: "op"; value: string };
+
+function tokenize(expr: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < expr.length) {
+    const ch = expr[i];
+    if (ch === " ") {
+      i++;
+      continue;
+    }
+    const num = /^(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/.exec(expr.slice(i));
+    if (num) {
+      tokens.push({ type: "number", value: parseFloat(num[0]) });
+      i += num[0].length;
+      continue;
+    }
+    const name = /^[A-Za-zΩμµÅ°]+/.exec(expr.slice(i));
+    if (name) {
+      tokens.push({ type: "name", value: name[0] });
+      i += name[0].length;
+      continue;
+    }
+    if ("+-*/^(),".includes(ch)) {
+      tokens.push({ type: "op", value: ch });
+      i++;
+      continue;
+    }
+    throw new CalculatorError(`Unexpected character "${ch}"`);
+  }
+  return tokens;
+}
+
+/**
+ * expr    := term (('+' | '-') term)*
+ * term    := unary (('*' | '/' | <implicit>) unary)*
+ * unary   := '-' unary | power
+ * power   := primary ('^' unary)?
+ * primary := number | unit | name '(' expr ')' | '(' expr ')'
+ */
+function evaluate(tokens: Token[]): Quantity {
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const isOp = (value: string) => peek()?.type === "op" && peek()?.value === value;
+
+  const parseExpr = (): Quantity => {
+    let left = parseTerm();
+    while (isOp("+") || isOp("-")) {
+      const op = tokens[pos++].value;
+      const right = parseTerm();
+      if (!sameDimension(left.dimension, right.dimension)) {
+        throw new CalculatorError("Cannot add or subtract quantities with different units");
+      }
+      left = { value: op === "+" ? left.value + right.value : left.value - right.value, dimension: left.dimension };
+    }
+    return left;
+  };
+
+  const parseTerm = (): Quantity => {
+    let left = parseUnary();
+    while (pos < tokens.length) {
+      const next = peek();
+      let sign = 1;
+      if (isOp("*") || isOp("/")) {
+        sign = next.value === "/" ? -1 : 1;
+        pos++;
+      } else if (!(next.type === "number" || next.type === "name" || isOp("("))) {
+        break;
+      }
+      const right = parseUnary();
+      left = {
+        value: sign === 1 ? left.value * right.value : left.value / right.value,
+        dimension: left.dimension.map((d, i) => d + sign * right.dimension[i]) as Dimension,
+      };
+    }
+    return left;
+  };
+
+  const parseUnary = (): Quantity => {
+    if (isOp("-")) {
+      pos++;
+      const q = parseUnary();
+      return { value: -q.value, dimension: q.dimension };
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): Quantity => {
+    const base = parsePrimary();
+    if (!isOp("^")) return base;
+    pos++;
+    const exponent = parseUnary();
+    if (!isDimensionless(exponent.dimension)) throw new CalculatorError("Exponents must be dimensionless");
+    return {
+      value: Math.pow(base.value, exponent.value),
+      dimension: base.dimension.map((d) => d * exponent.value) as Dimension,
+    };
+  };
+
+  const parsePrimary = (): Quantity => {
+    const tok = peek();
+    if (!tok) throw new CalculatorError("Unexpected end of expression");
+    pos++;
+    if (tok.type === "number") return { value: tok.value, dimension: SCALAR };
+    if (tok.type === "name") {
+      if (isOp("(")) {
+        const fn = FUNCTIONS[tok.value];
+        if (!fn) throw new CalculatorError(`Unknown function "${tok.value}"`);
+        pos++;
+        const arg = parseExpr();
+        if (!isOp(")")) throw new CalculatorError('Expected ")"');
+        pos++;
+        return fn(arg);
+      }
+      if (tok.value === "pi") return { value: Math.PI, dimension: SCALAR };
+      const unit = parseUnit(tok.value);
+      if (!unit) throw new CalculatorError(`Unknown unit "${tok.value}" (write physical constants out as numbers)`);
+      return { value: unit.factor, dimension: unit.dimension };
+    }
+    if (tok.value === "(") {
+      const inner = parseExpr();
+      if (!isOp(")")) throw new CalculatorError('Expected ")"');
+      pos++;
+      return inner;
+    }
+    throw new CalculatorError(`Unexpected "${tok.value}"`);
+  };
+
+  const result = parseExpr();
+  if (pos < tokens.length) throw new CalculatorError(`Unexpected "${tokens[pos].value}"`);
+  return result;
+}
+
+const NAMED_UNITS = ["N", "J", "W", "Pa", "C", "V", "Ω", "F", "T", "Wb", "H", "Hz"];
+const BASE_UNITS = ["m", "kg", "s", "A", "K", "mol", "cd"];
+
+/** The SI way to write a dimension: a named derived unit where one fits, else base units */
+function siUnit(dimension: Dimension): string {
+  if (isDimensionless(dimension)) return "";
+  const named = NAMED_UNITS.find((u) => sameDimension(parseUnit(u)!.dimension, dimension));
+  if (named) return named;
+  return dimension
+    .map((d, i) => (d === 0 ? null : d === 1 ? BASE_UNITS[i] : `${BASE_UNITS[i]}^${Number(d.toFixed(3))}`))
+    .filter(Boolean)
+    .join("·");
+}
+
+function formatValue(value: number): string {
+  return String(Number(value.toPrecision(6)));
+}
+
+export function calculate(expression: string, unit?: string): { value: number; unit: string; text: string } {
+  const tokens = tokenize(normalizeUnitText(expression));
+  if (tokens.length === 0) throw new CalculatorError("Expression is empty");
+  const result = evaluate(tokens);
+  if (!Number.isFinite(result.value)) throw new CalculatorError("Result is not a finite number");
+
+  if (unit) {
+    const target = parseUnit(unit);
+    if (!target) throw new CalculatorError(`Unknown unit "${unit}"`);
+    if (!sameDimension(target.dimension, result.dimension)) {
+      throw new CalculatorError(`The result is in ${siUnit(result.dimension) || "no units"}, which cannot be converted to ${unit}`);
+    }
+    const value = Number((result.value / target.factor).toPrecision(12));
+    return { value, unit, text: `${formatValue(value)} ${unit}` };
+  }
+  const si = siUnit(result.dimension);
+  const value = Number(result.value.toPrecision(12));
+  return { value, unit: si, text: si ? `${formatValue(value)} ${si}` : formatValue(value) };
+}
+
+const argsSchema = z.object({
+  expression: z.string().min(1).max(500),
+  unit: z.string().max(50).optional(),
+});
+
+export const calculatorTool: ChatTool<z.infer<typeof argsSchema>> = {
+  definition: {
+    name: "calculator",
+    description:
+      'Evaluate arithmetic with units, e.g. "2.0 kg * 9.8 m/s^2 * 3 m" or "sqrt(2 * 9.8 m/s^2 * 1.5 m)". ' +
+      "Write units after numbers (SI units with prefixes, eV, atm, L, min, h, deg); parenthesize compound denominators. " +
+      "Supports + - * / ^, sqrt, abs, sin, cos, tan, asin, acos, atan, exp, ln, log and pi. " +
+      "Use it for every numerical result you give instead of calculating in your head.",
+    parameters: {
+      type: "object",
+      properties: {
+        expression: { type: "string", description: "The expression to evaluate" },
+        unit: { type: "string", description: 'Unit to express the result in, e.g. "km/h"; SI if omitted' },
+      },
+      required: ["expression"],
+    },
+  },
+  schema: argsSchema,
+  run({ expression, unit }) {
+    try {
+      return { ok: true, output: calculate(expression, unit) };
+    } catch (error) {
+      if (error instanceof CalculatorError) return { ok: false, error: error.message };
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,88 @@
+import { z } from "zod";
+import type { ChatTool } from "./index";
+
+/** Physical constants (CODATA 2018; exact where the SI defines them) and standard values used in the course */
+
+interface PhysicalConstant {
+  symbol: string;
+  name: string;
+  value: number;
+  unit: string;
+  /** Other names students and models use for it */
+  aliases?: string[];
+}
+
+const PHYSICAL_CONSTANTS: PhysicalConstant[] = [
+  { symbol: "c", name: "speed of light in vacuum", value: 299792458, unit: "m/s", aliases: ["light speed"] },
+  { symbol: "h", name: "Planck constant", value: 6.62607015e-34, unit: "J s" },
+  { symbol: "hbar", name: "reduced Planck constant", value: 1.054571817e-34, unit: "J s", aliases: ["ħ", "h-bar", "dirac constant"] },
+  { symbol: "e", name: "elementary charge", value: 1.602176634e-19, unit: "C", aliases: ["electron charge", "proton charge"] },
+  { symbol: "m_e", name: "electron mass", value: 9.1093837015e-31, unit: "kg", aliases: ["me", "mass of electron"] },
+  { symbol: "m_p", name: "proton mass", value: 1.67262192369e-27, unit: "kg", aliases: ["mp", "mass of proton"] },
+  { symbol: "m_n", name: "neutron mass", value: 1.67492749804e-27, unit: "kg", aliases: ["mn", "mass of neutron"] },
+  { symbol: "u", name: "atomic mass unit", value: 1.6605390666e-27, unit: "kg", aliases: ["amu", "dalton", "unified atomic mass unit"] },
+  { symbol: "G", name: "gravitational constant", value: 6.6743e-11, unit: "N m^2/kg^2", aliases: ["newton constant", "universal gravitation"] },
+  { symbol: "g", name: "standard acceleration of gravity", value: 9.80665, unit: "m/s^2", aliases: ["free-fall acceleration", "gravity"] },
+  { symbol: "k_B", name: "Boltzmann constant", value: 1.380649e-23, unit: "J/K", aliases: ["kb", "k"] },
+  { symbol: "N_A", name: "Avogadro constant", value: 6.02214076e23, unit: "1/mol", aliases: ["na", "avogadro number"] },
+  { symbol: "R", name: "molar gas constant", value: 8.314462618, unit: "J/(mol K)", aliases: ["ideal gas constant", "gas constant"] },
+  { symbol: "sigma", name: "Stefan-Boltzmann constant", value: 5.670374419e-8, unit: "W/(m^2 K^4)", aliases: ["σ", "stefan boltzmann"] },
+  { symbol: "epsilon_0", name: "vacuum permittivity", value: 8.8541878128e-12, unit: "F/m", aliases: ["ε0", "epsilon0", "permittivity of free space", "electric constant"] },
+  { symbol: "mu_0", name: "vacuum permeability", value: 1.25663706212e-6, unit: "H/m", aliases: ["μ0", "mu0", "permeability of free space", "magnetic constant"] },
+  { symbol: "k_e", name: "Coulomb constant", value: 8.9875517923e9, unit: "N m^2/C^2", aliases: ["ke", "coulomb", "1/(4 pi epsilon0)"] },
+  { symbol: "a_0", name: "Bohr radius", value: 5.29177210903e-11, unit: "m", aliases: ["a0"] },
+  { symbol: "R_inf", name: "Rydberg constant", value: 10973731.56816, unit: "1/m", aliases: ["rydberg"] },
+  { symbol: "eV", name: "electronvolt", value: 1.602176634e-19, unit: "J", aliases: ["electron volt"] },
+  { symbol: "alpha", name: "fine-structure constant", value: 7.2973525693e-3, unit: "", aliases: ["α", "fine structure"] },
+  { symbol: "b", name: "Wien displacement constant", value: 2.897771955e-3, unit: "m K", aliases: ["wien"] },
+  { symbol: "atm", name: "standard atmosphere", value: 101325, unit: "Pa", aliases: ["atmospheric pressure"] },
+  { symbol: "M_E", name: "mass of the Earth", value: 5.972e24, unit: "kg", aliases: ["earth mass"] },
+  { symbol: "R_E", name: "mean radius of the Earth", value: 6.371e6, unit: "m", aliases: ["earth radius"] },
+  { symbol: "M_S", name: "mass of the Sun", value: 1.989e30, unit: "kg", aliases: ["solar mass", "sun mass"] },
+  { symbol: "M_M", name: "mass of the Moon", value: 7.342e22, unit: "kg", aliases: ["moon mass"] },
+  { symbol: "AU", name: "astronomical unit", value: 1.495978707e11, unit: "m", aliases: ["earth-sun distance"] },
+];
+
+const normalize = (text: string) => text.toLowerCase().replace(/[\s_-]+/g, "");
+
+/** Constants matching a query: an exact symbol first (case-sensitive, since g ≠ G), then names and aliases. */
+export function findConstants(query: string): PhysicalConstant[] {
+  const exact = PHYSICAL_CONSTANTS.filter((c) => c.symbol === query);
+  if (exact.length > 0) return exact;
+  const q = normalize(query);
+  return PHYSICAL_CONSTANTS.filter(
+    (c) =>
+      normalize(c.symbol) === q ||
+      normalize(c.name).includes(q) ||
+      (c.aliases ?? []).some((a) => normalize(a) === q || normalize(a).includes(q))
+  );
+}
+
+const argsSchema = z.object({
+  query: z.string().min(1).max(100),
+});
+
+export const constantsTool: ChatTool<z.infer<typeof argsSchema>> = {
+  definition: {
+    name: "physical_constant",
+    description:
+      'Look up a physical constant by symbol or name, e.g. "G", "hbar", "electron mass", "vacuum permittivity". ' +
+      "Returns the SI value and unit; use these values rather than recalled ones.",
+    parameters: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "Symbol or name of the constant" },
+      },
+      required: ["query"],
+    },
+  },
+  schema: argsSchema,
+  run({ query }) {
+    const matches = findConstants(query).slice(0, 5);
+    if (matches.length === 0) return { ok: false, error: `No constant matches "${query}"` };
+    return {
+      ok: true,
+      output: { constants: matches.map(({ symbol, name, value, unit }) => ({ symbol, name, value, unit })) },
+    };
+  },
+};
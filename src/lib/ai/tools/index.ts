@@ -0,0 +1,45 @@
+import type { z } from "zod";
+import type { AIToolDefinition, JsonValue, ToolCall, ToolResult } from "../types";
+import { calculatorTool } from "./calculator";
+import { algebraTool } from "./algebra";
+import { constantsTool } from "./constants";
+import { simulationTool } from "./simulation";
+
+/**
+ * Server-side tools the tutor can call. Each validates its own arguments and
+ * returns data or an error message for the model to read; nothing here
+ * touches the database or the network.
+ */
+export interface ChatTool<T = unknown> {
+  definition: AIToolDefinition;
+  schema: z.ZodType<T>;
+  run(args: T): ToolResult;
+}
+
+export const CHAT_TOOLS = [calculatorTool, algebraTool, constantsTool, simulationTool] as ChatTool[];
+
+/** Parse a call's JSON arguments; malformed JSON parses as an empty object, which the tool's schema rejects. */
+export function parseToolArguments(text: string): { [key: string]: JsonValue } {
+  try {
+    const value = JSON.parse(text || "{}");
+    return value && typeof value === "object" && !Array.isArray(value) ? value : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Run one call. Bad arguments and tool failures come back as `{ ok: false }` so the model can retry. */
+export function runTool(call: ToolCall, tools: ChatTool[] = CHAT_TOOLS): ToolResult {
+  const tool = tools.find((t) => t.definition.name === call.name);
+  if (!tool) return { ok: false, error: `Unknown tool "${call.name}"` };
+  const parsed = tool.schema.safeParse(parseToolArguments(call.arguments));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".") || "arguments"}: ${i.message}`);
+    return { ok: false, error: `Invalid arguments: ${issues.join("; ")}` };
+  }
+  try {
+    return tool.run(parsed.data);
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -0,0 +1,73 @@
+import { z } from "zod";
+import { findSimulationById, getAllSimulations } from "@/data/halliday-chapters";
+import type { ChatTool } from "./index";
+
+const MAX_MATCHES = 3;
+
+/** Simulations for a query: the exact id, else those whose title and description contain every word of it. */
+function findSimulations(query: string) {
+  const all = getAllSimulations();
+  const exact = findSimulationById(query.trim());
+  if (exact) return all.filter((s) => s.id === exact.simulation.id);
+  const words = query.toLowerCase().split(/[\s-]+/).filter(Boolean);
+  const scored = all
+    .map((s) => {
+      const text = `${s.id} ${s.title} ${s.description}`.toLowerCase();
+      return { sim: s, score: words.filter((w) => text.includes(w)).length };
+    })
+    .filter((s) => s.score > 0)
+    .sort((a, b) => b.score - a.score);
+  return scored.slice(0, MAX_MATCHES).map((s) => s.sim);
+}
+
+/** Link to a simulation, with the suggested settings in the query string for the page to show. */
+export function simulationUrl(id: string, parameters: Record<string, string | number> = {}): string {
+  const search = new URLSearchParams(Object.entries(parameters).map(([k, v]) => [k, String(v)])).toString();
+  return search ? `/simulations/${id}?${search}` : `/simulations/${id}`;
+}
+
+const argsSchema = z.object({
+  query: z.string().min(1).max(200),
+  parameters: z.record(z.string().max(50), z.union([z.string().max(100), z.number()])).optional(),
+});
+
+export const simulationTool: ChatTool<z.infer<typeof argsSchema>> = {
+  definition: {
+    name: "open_simulation",
+    description:
+      'Link the student to an interactive simulation, by id (e.g. "projectile-motion") or topic ' +
+      '(e.g. "inclined plane friction"). Optional parameters are shown to the student as the setup to try, ' +
+      'e.g. { "launch angle": "30°", "speed": "20 m/s" }. Use it when seeing the physics would help.',
+    parameters: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "Simulation id or topic" },
+        parameters: {
+          type: "object",
+          additionalProperties: { type: ["string", "number"] },
+          description: "Suggested settings, by control name, with units",
+        },
+      },
+      required: ["query"],
+    },
+  },
+  schema: argsSchema,
+  run({ query, parameters }) {
+    const matches = findSimulations(query);
+    if (matches.length === 0) return { ok: false, error: `No simulation matches "${query}"` };
+    const [best, ...others] = matches;
+    return {
+      ok: true,
+      output: {
+        id: best.id,
+        title: best.title,
+        description: best.description,
+        chapter: best.chapter,
+        section: best.section,
+        url: simulationUrl(best.id, parameters),
+        parameters: parameters ?? {},
+        alternatives: others.map((s) => ({ id: s.id, title: s.title })),
+      },
+    };
+  },
+};
@@ -0,0 +1,122 @@
+import type { AIFeature, AIUsage } from "./pricing";
+
+export interface ChatMessage {
+  role: "user" | "assistant" | "system" | "tool";
+  content: string;
+  imageUrls?: string[];
+  /** Assistant turns: the tools the model asked to run */
+  toolCalls?: ToolCall[];
+  /** Tool turns: the call this is the result of */
+  toolCallId?: string;
+  /**
+   * Assistant turns with tool calls: the vendor's own content blocks, replayed
+   * verbatim to the vendor that produced them (Anthropic needs its signed
+   * thinking blocks back)
+   */
+  raw?: unknown;
+}
+
+/** A function the model asked to run; `arguments` is the model's JSON text */
+export type ToolCall = { id: string; name: string; arguments: string };
+
+/** Plain JSON, so tool arguments and results can be stored as they are */
+export type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+/** What a tool returned: data for the model, or an error it can correct */
+export type ToolResult = { ok: true; output: { [key: string]: JsonValue } } | { ok: false; error: string };
+
+/** `Message.toolCalls`: a call and its result, as the chat shows them */
+export type ToolCallRecord = { id: string; name: string; arguments: { [key: string]: JsonValue }; result?: ToolResult };
+
+/** A tool as offered to the model */
+export interface AIToolDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema of the arguments object */
+  parameters: Record<string, unknown>;
+}
+
+/** A web page the model cited, from the vendor's search tool */
+export type WebSource = { url: string; title: string };
+
+/** What a request is for, so providers (and the mock) can tailor their output. */
+export type AIPurpose = AIFeature;
+
+/** Token counts tagged with who served them, ready for cost accounting. */
+export interface AIUsageReport extends AIUsage {
+  provider: string;
+  model: string;
+}
+
+/**
+ * Provider-neutral stream event. Adapters emit `thinking`, `delta`, `source`,
+ * `tool_calls` and `usage`; `streamChat` in `@/lib/ai` runs the tools, and
+ * folds the usage into a single closing `done` (or `error`).
+ */
+export type AIStreamEvent =
+  | { type: "thinking"; content: string }
+  | { type: "delta"; content: string }
+  | { type: "source"; source: WebSource }
+  /** Adapter: the model ended its turn asking for these tools */
+  | { type: "tool_calls"; calls: ToolCall[]; raw?: unknown }
+  /** `streamChat`: one tool being run, then its result */
+  | { type: "tool_call"; call: ToolCall }
+  | { type: "tool_result"; callId: string; result: ToolResult }
+  | { type: "usage"; usage: AIUsage }
+  | { type: "done"; usage: AIUsageReport }
+  | { type: "error"; message: string; usage: AIUsageReport };
+
+export interface AICompletion {
+  text: string | null;
+  usage: AIUsage;
+}
+
+export interface AIRequest {
+  purpose: AIPurpose;
+  model: string;
+  system: string;
+  messages: ChatMessage[];
+  /** Ask for a bare JSON object (honored where the vendor supports it) */
+  json?: boolean;
+  /** Let the model search the web (OpenAI only) */
+  webSearch?: boolean;
+  /** Functions the model may call; it ends its turn with a `tool_calls` event to use them */
+  tools?: AIToolDefinition[];
+  /** "none" keeps `tools` declared (earlier turns used them) but has the model answer in text */
+  toolChoice?: "auto" | "none";
+  maxTokens?: number;
+  /** Cancels the upstream call, e.g. when the student stops a reply */
+  signal?: AbortSignal;
+}
+
+/** How a vendor's tokenizer treats text and images, for sizing prompts before sending them */
+export interface TokenProfile {
+  /** Average characters per token in English prose and LaTeX */
+  charsPerToken: number;
+  /** Chinese and other CJK text tokenizes far more densely than English */
+  tokensPerCjkChar: number;
+  /** Flat estimate for one attached image */
+  tokensPerImage: number;
+}
+
+export interface AIModelOption {
+  id: string;
+  label: string;
+}
+
+export interface AIProviderAdapter {
+  /** Key stored in `AIConfig.provider` */
+  id: string;
+  label: string;
+  /** Hosted vendors honor the chat model picker; local providers serve every request themselves */
+  hosted: boolean;
+  models: AIModelOption[];
+  defaultModel: string;
+  /** Cheap model for background jobs such as conversation titles */
+  fastModel: string;
+  /** Prompt tokens the chat models accept */
+  contextWindow: number;
+  tokens: TokenProfile;
+  stream(request: AIRequest): AsyncIterable<AIStreamEvent>;
+  complete(request: AIRequest): Promise<AICompletion>;
+}
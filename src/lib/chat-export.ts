@@ -0,0 +1,216 @@
+import { convertToLatex, escapeLatex } from "@/lib/latex-utils";
+import type { JsonValue, ToolCallRecord } from "@/lib/ai/types";
+
+/**
+ * Tutoring conversations as files: Markdown (math, diagrams and graphs stay in
+ * the fences `MarkdownContent` renders, so Markdown viewers show them too) and
+ * LaTeX via `convertToLatex`. The PDF is the print view, rendered by the
+ * browser with the same components as the chat.
+ */
+
+export type ChatExportFormat = "markdown" | "latex" | "pdf";
+
+export interface ExportMessage {
+  role: string;
+  content: string;
+  imageUrls: string[];
+  model: string | null;
+  toolCalls: ToolCallRecord[];
+  /** Staff replies: who wrote it */
+  author: string | null;
+  createdAt: Date;
+}
+
+export interface ExportConversation {
+  id: string;
+  title: string;
+  createdAt: Date;
+  /** The branch on screen, oldest first */
+  messages: ExportMessage[];
+}
+
+/** A file the LaTeX source refers to under `images/`: an SVG block, or an uploaded image to copy in */
+export type LatexAsset = { name: string; svg: string } | { name: string; url: string };
+
+type Segment = { kind: "text"; text: string } | { kind: "code"; language: string; code: string };
+
+/** Split Markdown into prose and fenced code blocks */
+function splitFences(content: string): Segment[] {
+  const segments: Segment[] = [];
+  const fence = /^```([\w-]*)[^\n]*\n([\s\S]*?)^```[ \t]*$/gm;
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = fence.exec(content))) {
+    if (match.index > last) segments.push({ kind: "text", text: content.slice(last, match.index) });
+    segments.push({ kind: "code", language: match[1].toLowerCase(), code: match[2].replace(/\n$/, "") });
+    last = match.index + match[0].length;
+  }
+  if (last < content.length) segments.push({ kind: "text", text: content.slice(last) });
+  return segments;
+}
+
+const str = (value: JsonValue | undefined) => (value === undefined || value === null ? "" : String(value));
+
+const TOOL_LABELS: Record<string, string> = {
+  calculator: "Calculator",
+  algebra: "Algebra",
+  physical_constant: "Constant",
+  open_simulation: "Simulation",
+};
+
+/** One line per tool call, e.g. "Calculator: 2 kg * 9.8 m/s^2 = 19.6 N" */
+export function describeToolCall(call: ToolCallRecord): string {
+  const label = TOOL_LABELS[call.name] ?? call.name;
+  const args = call.arguments;
+  if (!call.result) return `${label}: ${JSON.stringify(args)}`;
+  if (!call.result.ok) return `${label}: ${str(args.expression ?? args.query)} (error: ${call.result.error})`;
+  const out = call.result.output;
+  switch (call.name) {
+    case "calculator":
+      return `${label}: ${str(args.expression)} = ${str(out.text)}`;
+    case "algebra": {
+      const parts = [str(out.expression)];
+      if (out.value !== undefined) parts.push(`= ${str(out.value)}`);
+      if (out.derivative !== undefined) parts.push(`; d/d${str(args.differentiate)} = ${str(out.derivative)}`);
+      if (Array.isArray(out.solutions)) {
+        parts.push(`; ${str(out.variable)} = ${out.solutions.length ? out.solutions.map(str).join(", ") : "no real solution"}`);
+      }
+      return `${label}: ${parts.join(" ")}`;
+    }
+    case "physical_constant":
+      return `${label}: ${(Array.isArray(out.constants) ? (out.constants as { [key: string]: JsonValue }[]) : [])
+        .map((c) => `${str(c.symbol)} = ${str(c.value)} ${str(c.unit)}`.trim())
+        .join("; ")}`;
+    case "open_simulation":
+      return `${label}: ${str(out.title)} (${str(out.url)})`;
+    default:
+      return `${label}: ${JSON.stringify(out)}`;
+  }
+}
+
+export function speaker(message: Pick<ExportMessage, "role" | "author">): string {
+  if (message.author) return `${message.author} (course staff)`;
+  return message.role === "user" ? "Student" : "Tutor";
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 16).replace("T", " ");
+}
+
+/** File name for a conversation, e.g. "03-Projectile_range" */
+export function exportFileName(conversation: ExportConversation, index?: number): string {
+  const title = conversation.title.replace(/[\\/:*?"<>|#%&{}$!'`@+=.,;()[\]\x00-\x1f]/g, "").trim().replace(/\s+/g, "_").slice(0, 60) || "conversation";
+  return index === undefined ? title : `${String(index + 1).padStart(2, "0")}-${title}`;
+}
+
+/** `Content-Disposition` for a download; titles may be Chinese, so the name is also sent UTF-8 encoded */
+export function attachment(filename: string): string {
+  const ascii = filename.replace(/[^\x20-\x7e]/g, "_").replace(/"/g, "");
+  return `attachment; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+/**
+ * Markdown for a conversation. Image URLs are made absolute against `origin`
+ * so the file still shows them outside the app (for signed-in viewers).
+ */
+export function conversationToMarkdown(conversation: ExportConversation, origin: string): string {
+  const lines: string[] = [
+    `# ${conversation.title}`,
+    "",
+    `*Started ${formatDate(conversation.createdAt)} UTC · ${conversation.messages.length} messages · exported from PhysTutor*`,
+  ];
+  for (const message of conversation.messages) {
+    lines.push("", "---", "");
+    const model = message.role === "assistant" && message.model ? ` (${message.model})` : "";
+    lines.push(`**${speaker(message)}**${model} · ${formatDate(message.createdAt)}`, "");
+    for (const call of message.toolCalls) lines.push(`> ${describeToolCall(call)}`);
+    if (message.toolCalls.length > 0) lines.push("");
+    message.imageUrls.forEach((url, i) => {
+      const src = url.startsWith("/") ? `${origin}${url}` : url;
+      lines.push(`![Image ${i + 1}](${src})`, "");
+    });
+    lines.push(message.content.trim());
+  }
+  return lines.join("\n") + "\n";
+}
+
+function codeToLatex(segment: Extract<Segment, { kind: "code" }>, assetName: string, assets: LatexAsset[]): string {
+  if (segment.language === "svg" && segment.code.trim().startsWith("<svg")) {
+    assets.push({ name: `${assetName}.svg`, svg: segment.code.trim() });
+    return `\\begin{center}\n\\includesvg[width=0.6\\textwidth]{images/${assetName}.svg}\n\\end{center}`;
+  }
+  if (segment.language === "desmos") {
+    // Desmos expressions are LaTeX already; the interactive graph itself is in the PDF export
+    const expressions = segment.code
+      .split("\n")
+      .map((l) => l.trim())
+      .filter((l) => l && !l.startsWith("#") && !l.startsWith("//"));
+    return `\\noindent\\textit{Graph (Desmos):}\n\\begin{gather*}\n${expressions.join(" \\\\\n")}\n\\end{gather*}`;
+  }
+  const caption = segment.language === "mermaid" ? "Diagram (Mermaid source):" : segment.language ? `Code (${escapeLatex(segment.language)}):` : "Code:";
+  return `\\noindent\\textit{${caption}}\n\\begin{verbatim}\n${segment.code}\n\\end{verbatim}`;
+}
+
+/**
+ * A standalone LaTeX document for a conversation. SVG diagrams and uploaded
+ * images are listed in `assets` for the caller to place under `images/`.
+ */
+export function conversationToLatex(conversation: ExportConversation): { tex: string; assets: LatexAsset[] } {
+  const assets: LatexAsset[] = [];
+  const blocks: string[] = [];
+
+  conversation.messages.forEach((message, m) => {
+    const lines: string[] = [];
+    const model = message.role === "assistant" && message.model ? ` (${escapeLatex(message.model)})` : "";
+    lines.push(`\\noindent\\textbf{${escapeLatex(speaker(message))}}${model} \\hfill {\\small ${formatDate(message.createdAt)}}\\par\\medskip`);
+
+    for (const call of message.toolCalls) {
+      lines.push(`\\noindent{\\small\\texttt{${escapeLatex(describeToolCall(call))}}}\\par`);
+    }
+
+    message.imageUrls.forEach((url, i) => {
+      if (url.startsWith("/")) {
+        const name = `m${m + 1}-image${i + 1}${url.match(/\.\w+$/)?.[0] ?? ".png"}`;
+        assets.push({ name, url });
+        lines.push(`\\begin{center}\n\\includegraphics[width=0.6\\textwidth]{${name}}\n\\end{center}`);
+      } else {
+        lines.push(`% Image not included: ${escapeLatex(url.slice(0, 200))}`);
+      }
+    });
+
+    splitFences(message.content).forEach((segment, s) => {
+      if (segment.kind === "text" && !segment.text.trim()) return;
+      lines.push(segment.kind === "text" ? convertToLatex(segment.text.trim()) : codeToLatex(segment, `m${m + 1}-block${s + 1}`, assets));
+    });
+
+    lines.push("\\bigskip\\hrule\\bigskip");
+    blocks.push(lines.join("\n\n"));
+  });
+
+  const hasSvg = assets.some((a) => "svg" in a);
+  const packages = [
+    "\\usepackage[utf8]{inputenc}",
+    "\\usepackage[T1]{fontenc}",
+    "\\usepackage{amsmath,amssymb}",
+    "\\usepackage{graphicx}",
+    ...(hasSvg ? ["\\usepackage{svg}"] : []),
+    "\\usepackage[margin=1in]{geometry}",
+  ];
+  const title = escapeLatex(conversation.title);
+
+  const tex = `\\documentclass[11pt]{article}
+${packages.join("\n")}
+\\graphicspath{{./images/}}
+
+\\title{${title}}
+\\date{${formatDate(conversation.createdAt)} UTC}
+
+\\begin{document}
+\\maketitle
+
+${blocks.join("\n\n")}
+
+\\end{document}
+`;
+  return { tex, assets };
+}
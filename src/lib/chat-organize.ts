@@ -0,0 +1,46 @@
+import { textbookParts } from "@/data/halliday-chapters";
+import { matchHallidaySection } from "@/lib/knowledge/chunking";
+
+/**
+ * Folders and tags for a student's chat history. Topic tags are Halliday
+ * chapter titles, so conversations about the same physics share a tag
+ * whatever they happen to be called.
+ */
+
+export const FOLDERS_MAX = 30;
+export const FOLDER_NAME_MAX = 60;
+export const TAG_MAX_LENGTH = 60;
+export const TAGS_PER_CONVERSATION = 8;
+
+const CHAPTER_TITLES = new Map(
+  textbookParts.flatMap((part) => part.chapters.map((chapter) => [chapter.number, chapter.title] as const))
+);
+
+/** Whitespace collapsed and cut to `TAG_MAX_LENGTH`; empty if nothing is left */
+export function normalizeTag(tag: string): string {
+  return tag.replace(/\s+/g, " ").trim().slice(0, TAG_MAX_LENGTH).trim();
+}
+
+/** Normalized, without blanks or duplicates that differ only in case; the first spelling wins */
+export function uniqueTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const unique: string[] = [];
+  for (const raw of tags) {
+    const tag = normalizeTag(raw);
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    unique.push(tag);
+  }
+  return unique;
+}
+
+/**
+ * The chapters an opening question and its answer are about: the question on
+ * its own catches an explicit "section 5-2", the two together the vocabulary.
+ */
+export function topicTags(question: string, reply: string): string[] {
+  const chapters = [question, `${question}\n\n${reply}`]
+    .map((text) => matchHallidaySection(text))
+    .map((section) => (section ? CHAPTER_TITLES.get(Number(section.split("-")[0])) : undefined));
+  return uniqueTags(chapters.filter((title): title is string => !!title));
+}
@@ -0,0 +1,60 @@
+/**
+ * Message search results as shown to the client. Snippets carry their matches
+ * between two control characters that never occur in chat text, so they need
+ * no HTML escaping on the way.
+ */
+
+export const MATCH_START = "\u0002";
+export const MATCH_END = "\u0003";
+
+export const SEARCH_QUERY_MIN = 2;
+export const SEARCH_QUERY_MAX = 200;
+
+export interface MessageSearchHit {
+  messageId: string;
+  conversationId: string;
+  conversationTitle: string;
+  role: string;
+  /** Matching text with each match between `MATCH_START` and `MATCH_END` */
+  snippet: string;
+  rank: number;
+  createdAt: string;
+  /** Staff search across students: whose conversation it is */
+  user?: { id: string; name: string; email: string };
+}
+
+/** A snippet as runs of plain and matched text */
+export function snippetSegments(snippet: string): { text: string; match: boolean }[] {
+  const segments: { text: string; match: boolean }[] = [];
+  let match = false;
+  let text = "";
+  for (const char of snippet) {
+    if (char === MATCH_START || char === MATCH_END) {
+      if (text) segments.push({ text, match });
+      text = "";
+      match = char === MATCH_START;
+    } else {
+      text += char;
+    }
+  }
+  if (text) segments.push({ text, match });
+  return segments;
+}
+
+/**
+ * Mark every occurrence of `query` in a window of text, for hits that text
+ * search alone misses: Chinese, which Postgres does not split into words, and
+ * fragments of LaTeX like `v^2`.
+ */
+export function markExcerpt(excerpt: string, query: string, atStart: boolean, atEnd: boolean): string {
+  const lower = excerpt.toLowerCase();
+  const needle = query.toLowerCase();
+  let out = "";
+  let from = 0;
+  for (let i = lower.indexOf(needle); i >= 0 && needle; i = lower.indexOf(needle, from)) {
+    out += excerpt.slice(from, i) + MATCH_START + excerpt.slice(i, i + needle.length) + MATCH_END;
+    from = i + needle.length;
+  }
+  out += excerpt.slice(from);
+  return `${atStart ? "" : "…"}${out.replace(/\s+/g, " ").trim()}${atEnd ? "" : "…"}`;
+}
@@ -50,3 +50,6 @@ export const isStaff = (role: string): boolean =>
 /** Check if a role is ADMIN */
 export const isAdmin = (role: string): boolean => role === "ADMIN";
 
+
+/** Conversations a user may have open at once; archived ones do not count */
+export const MAX_ACTIVE_CONVERSATIONS = 50;
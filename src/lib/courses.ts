@@ -0,0 +1,134 @@
+import { cookies } from "next/headers";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { isStaff } from "@/lib/constants";
+import type { CourseRole, CourseSummary } from "@/types/course";
+
+export const ACTIVE_COURSE_COOKIE = "active-course-id";
+
+interface CourseUser {
+  id: string;
+  role: string;
+}
+
+/** Course roles that can manage assignments and grade within a course */
+export const isCourseStaff = (role: CourseRole | null | undefined): boolean =>
+  role === "TA" || role === "PROFESSOR";
+
+function toSummary(
+  course: { id: string; name: string; code: string | null; semester: string; isArchived: boolean },
+  role: CourseRole
+): CourseSummary {
+  return {
+    id: course.id,
+    name: course.name,
+    code: course.code,
+    semester: course.semester,
+    isArchived: course.isArchived,
+    role,
+  };
+}
+
+/**
+ * Courses the user can open, current ones first. Admins see every course
+ * with professor access; everyone else sees the courses they are enrolled in.
+ */
+export async function listUserCourses(user: CourseUser): Promise<CourseSummary[]> {
+  const orderBy: Prisma.CourseOrderByWithRelationInput[] = [{ isArchived: "asc" }, { createdAt: "desc" }];
+
+  if (user.role === "ADMIN") {
+    const courses = await prisma.course.findMany({ orderBy });
+    return courses.map((c) => toSummary(c, "PROFESSOR"));
+  }
+
+  const enrollments = await prisma.enrollment.findMany({
+    where: { userId: user.id, droppedAt: null },
+    include: { course: true },
+    orderBy: orderBy.map((o) => ({ course: o })),
+  });
+  return enrollments.map((e) => toSummary(e.course, e.role));
+}
+
+/** The user's role in a course, or null if not enrolled (or dropped). */
+export async function getCourseRole(user: CourseUser, courseId: string): Promise<CourseRole | null> {
+  if (user.role === "ADMIN") return "PROFESSOR";
+  const enrollment = await prisma.enrollment.findUnique({
+    where: { courseId_userId: { courseId, userId: user.id } },
+    select: { role: true, droppedAt: true },
+  });
+  return enrollment && !enrollment.droppedAt ? enrollment.role : null;
+}
+
+/** Whether the user may view a course's content. Content without a course is visible to everyone. */
+export async function canAccessCourse(user: CourseUser, courseId: string | null): Promise<boolean> {
+  if (!courseId) return true;
+  return (await getCourseRole(user, courseId)) !== null;
+}
+
+/**
+ * Whether the user may create, edit and grade a course's content: a staff
+ * account that is enrolled as TA or professor (admins always can).
+ */
+export async function canManageCourse(user: CourseUser, courseId: string | null): Promise<boolean> {
+  if (!isStaff(user.role)) return false;
+  if (!courseId) return true;
+  return isCourseStaff(await getCourseRole(user, courseId));
+}
+
+/** Whether the user may change course settings such as grade weights: a professor or admin enrolled as professor. */
+export async function isCourseProfessor(user: CourseUser, courseId: string): Promise<boolean> {
+  if (user.role !== "PROFESSOR" && user.role !== "ADMIN") return false;
+  return (await getCourseRole(user, courseId)) === "PROFESSOR";
+}
+
+/** `canManageCourse` for the course an assignment belongs to; false if the assignment does not exist. */
+export async function canManageAssignment(user: CourseUser, assignmentId: string): Promise<boolean> {
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: assignmentId },
+    select: { courseId: true },
+  });
+  return !!assignment && canManageCourse(user, assignment.courseId);
+}
+
+export interface CourseScope {
+  /** The course picked in the course switcher, or null if the user has none */
+  course: CourseSummary | null;
+  courses: CourseSummary[];
+}
+
+/**
+ * Resolve the active course from the switcher cookie, falling back to the
+ * user's most recent current course when the cookie is missing or stale.
+ */
+export async function getCourseScope(user: CourseUser): Promise<CourseScope> {
+  const courses = await listUserCourses(user);
+  const cookieStore = await cookies();
+  const selectedId = cookieStore.get(ACTIVE_COURSE_COOKIE)?.value;
+  const course =
+    courses.find((c) => c.id === selectedId) ??
+    courses.find((c) => !c.isArchived) ??
+    courses[0] ??
+    null;
+  return { course, courses };
+}
+
+/** Assignments of the active course; without one, only assignments that belong to no course. */
+export function courseAssignmentWhere(scope: CourseScope): Prisma.AssignmentWhereInput {
+  return { courseId: scope.course?.id ?? null };
+}
+
+/** Site-wide announcements plus those of the active course. */
+export function courseNotificationWhere(scope: CourseScope): Prisma.NotificationWhereInput {
+  return scope.course
+    ? { OR: [{ courseId: null }, { courseId: scope.course.id }] }
+    : { courseId: null };
+}
+
+/** IDs of the students enrolled in a course, for announcements and emails. */
+export async function getCourseStudentIds(courseId: string): Promise<string[]> {
+  const enrollments = await prisma.enrollment.findMany({
+    where: { courseId, role: "STUDENT", droppedAt: null, user: { isBanned: false, isDeleted: false } },
+    select: { userId: true },
+  });
+  return enrollments.map((e) => e.userId);
+}
@@ -245,3 +245,28 @@ export function assignmentPublishedEmail(params: AssignmentPublishedEmailParams)
           </div>
           <p style="margin: 0; color: #6b7280; font-size: 14px;">&mdash; ${esc(params.senderName)}, PhysTutor Staff</p>`);
 }
+
+// ---------------------------------------------------------------------------
+// Template: Roster invitation
+// ---------------------------------------------------------------------------
+
+export interface RosterInviteEmailParams {
+  studentName: string;
+  courseName: string;
+  inviteUrl: string;
+  senderName: string;
+}
+
+/**
+ * Sent to students whose account was created by a roster import, with a link
+ * to set their password.
+ */
+export function rosterInviteEmail(params: RosterInviteEmailParams): string {
+  return brandedLayout(`
+          <p style="margin: 0 0 16px; color: #111827; font-size: 16px;">Dear ${esc(params.studentName)},</p>
+          <div style="background-color: #eef2ff; border: 1px solid #c7d2fe; border-left: 4px solid #4f46e5; border-radius: 8px; padding: 20px; margin: 24px 0;">
+            <p style="margin: 0 0 12px; color: #1e1b4b; font-size: 14px; line-height: 1.6;">You have been enrolled in <strong>${esc(params.courseName)}</strong> on PhysTutor. Set a password to activate your account; the link is valid for 14 days.</p>
+            <a href="${esc(params.inviteUrl)}" style="display: inline-block; background-color: #4f46e5; color: #ffffff; text-decoration: none; font-size: 14px; font-weight: 600; padding: 10px 20px; border-radius: 6px;">Activate account</a>
+          </div>
+          <p style="margin: 0; color: #6b7280; font-size: 14px;">&mdash; ${esc(params.senderName)}, PhysTutor Staff</p>`);
+}
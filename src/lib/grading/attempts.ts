@@ -0,0 +1,75 @@
+import { z } from "zod";
+
+export const ATTEMPT_SCORING = ["latest", "best", "average"] as const;
+export type AttemptScoring = (typeof ATTEMPT_SCORING)[number];
+
+export const ATTEMPT_SCORING_LABELS: Record<AttemptScoring, string> = {
+  latest: "Latest attempt",
+  best: "Best attempt",
+  average: "Average of attempts",
+};
+
+/** How the attempts of an assignment combine into one score, stored in `Assignment.attemptScoring`. */
+export const attemptScoringSchema = z.enum(ATTEMPT_SCORING);
+
+export function parseAttemptScoring(value: unknown): AttemptScoring {
+  const parsed = attemptScoringSchema.safeParse(value);
+  return parsed.success ? parsed.data : "latest";
+}
+
+/** `maxAttempts` on an assignment: null = unlimited, 1 = locked after the first submission. */
+export const maxAttemptsSchema = z.number().int().min(1).max(100).nullable();
+
+export interface ScoredAttempt {
+  id: string;
+  attempt: number;
+  /** Only counts once graded */
+  totalScore: number | null;
+  gradedAt: Date | string | null;
+}
+
+export interface AttemptScore {
+  /** null until the attempts that count are graded */
+  score: number | null;
+  /** The attempt the score comes from (the latest one for "average") */
+  submissionId: string | null;
+  /** Some attempt that would count is not graded yet */
+  pending: boolean;
+}
+
+/**
+ * Combine a student's final attempts under the assignment's scoring rule.
+ * "best" shows the best graded attempt even while others await grading, since
+ * grading can only raise it; "latest" and "average" wait for every attempt they count.
+ */
+export function scoreAttempts(scoring: AttemptScoring, attempts: ScoredAttempt[]): AttemptScore {
+  if (attempts.length === 0) return { score: null, submissionId: null, pending: false };
+  const ordered = [...attempts].sort((a, b) => a.attempt - b.attempt);
+  const latest = ordered[ordered.length - 1];
+  const graded = ordered.filter((a) => a.gradedAt !== null && a.totalScore !== null);
+  const pending = graded.length < ordered.length;
+
+  switch (scoring) {
+    case "latest":
+      return {
+        score: latest.gradedAt !== null ? latest.totalScore : null,
+        submissionId: latest.id,
+        pending: latest.gradedAt === null,
+      };
+    case "best": {
+      if (graded.length === 0) return { score: null, submissionId: latest.id, pending };
+      const best = graded.reduce((a, b) => ((b.totalScore as number) > (a.totalScore as number) ? b : a));
+      return { score: best.totalScore, submissionId: best.id, pending };
+    }
+    case "average": {
+      if (pending) return { score: null, submissionId: latest.id, pending };
+      const sum = graded.reduce((s, a) => s + (a.totalScore as number), 0);
+      return { score: Math.round((sum / graded.length) * 100) / 100, submissionId: latest.id, pending };
+    }
+  }
+}
+
+/** e.g. "Attempt 2 of 3" / "Attempt 2" */
+export function formatAttempt(attempt: number, maxAttempts: number | null): string {
+  return maxAttempts ? `Attempt ${attempt} of ${maxAttempts}` : `Attempt ${attempt}`;
+}
@@ -0,0 +1,54 @@
+import { gradeNumericAnswer, parseNumericConfig, type NumericGradeDetail } from "@/lib/grading/numeric";
+import {
+  gradeChoiceAnswer,
+  normalizeOptions,
+  parseMcConfig,
+  type ChoiceGradeDetail,
+} from "@/lib/grading/multiple-choice";
+
+/** Stored in `SubmissionAnswer.autoGradeDetail` so graders can see why an answer was accepted or rejected. */
+export type AutoGradeDetail = NumericGradeDetail | ChoiceGradeDetail;
+
+export interface AutoGradeResult {
+  score: number;
+  detail: AutoGradeDetail;
+}
+
+interface GradableQuestion {
+  questionType: string;
+  correctAnswer: string | null;
+  points: number;
+  options?: unknown;
+  numericConfig?: unknown;
+  mcConfig?: unknown;
+}
+
+/**
+ * Auto-grade a single answer. Returns null for question types that need
+ * manual grading (FREE_RESPONSE), and for MC answers or keys written as free
+ * text.
+ */
+export function autoGradeAnswer(question: GradableQuestion, answer: string): AutoGradeResult | null {
+  const correctAnswer = question.correctAnswer || "";
+
+  if (question.questionType === "NUMERIC") {
+    const detail = gradeNumericAnswer(answer, correctAnswer, parseNumericConfig(question.numericConfig));
+    return { score: roundScore(question.points * detail.credit), detail };
+  }
+
+  if (question.questionType === "MC") {
+    const detail = gradeChoiceAnswer(
+      answer,
+      correctAnswer,
+      normalizeOptions(question.options),
+      parseMcConfig(question.mcConfig)
+    );
+    return detail && { score: roundScore(question.points * detail.credit), detail };
+  }
+
+  return null;
+}
+
+function roundScore(score: number): number {
+  return Math.round(score * 100) / 100;
+}
@@ -0,0 +1,195 @@
+/**
+ * Safe arithmetic evaluator for answer formulas of parameterized questions,
+ * e.g. "m * 9.8 * h" or "sqrt(2 * g * h) * cos(theta * pi / 180)".
+ *
+ * Supports + - * / ^ (right-associative), unary minus, parentheses,
+ * the constants pi and e, and a fixed set of math functions. Never uses eval.
+ */
+
+export class FormulaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FormulaError";
+  }
+}
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  log10: Math.log10,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  atan2: Math.atan2,
+  sinh: Math.sinh,
+  cosh: Math.cosh,
+  tanh: Math.tanh,
+  min: Math.min,
+  max: Math.max,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "name"; value: string }
+  | { type: "op"; value: string };
+
+function tokenize(expr: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < expr.length) {
+    const ch = expr[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    const num = /^(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/.exec(expr.slice(i));
+    if (num) {
+      tokens.push({ type: "number", value: parseFloat(num[0]) });
+      i += num[0].length;
+      continue;
+    }
+    const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(expr.slice(i));
+    if (name) {
+      tokens.push({ type: "name", value: name[0] });
+      i += name[0].length;
+      continue;
+    }
+    if ("+-*/^(),".includes(ch)) {
+      tokens.push({ type: "op", value: ch });
+      i++;
+      continue;
+    }
+    if (ch === "×" || ch === "·") {
+      tokens.push({ type: "op", value: "*" });
+      i++;
+      continue;
+    }
+    throw new FormulaError(`Unexpected character "${ch}"`);
+  }
+  return tokens;
+}
+
+/**
+ * expr    := term (('+' | '-') term)*
+ * term    := unary (('*' | '/') unary)*
+ * unary   := '-' unary | power
+ * power   := primary ('^' unary)?
+ * primary := number | name | name '(' args ')' | '(' expr ')'
+ */
+function parse(tokens: Token[], variables: Record<string, number>): number {
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const isOp = (value: string) => peek()?.type === "op" && peek()?.value === value;
+  const expect = (value: string) => {
+    if (!isOp(value)) throw new FormulaError(`Expected "${value}"`);
+    pos++;
+  };
+
+  const parseExpr = (): number => {
+    let left = parseTerm();
+    while (isOp("+") || isOp("-")) {
+      const op = tokens[pos++].value;
+      const right = parseTerm();
+      left = op === "+" ? left + right : left - right;
+    }
+    return left;
+  };
+
+  const parseTerm = (): number => {
+    let left = parseUnary();
+    while (isOp("*") || isOp("/")) {
+      const op = tokens[pos++].value;
+      const right = parseUnary();
+      left = op === "*" ? left * right : left / right;
+    }
+    return left;
+  };
+
+  const parseUnary = (): number => {
+    if (isOp("-")) {
+      pos++;
+      return -parseUnary();
+    }
+    if (isOp("+")) {
+      pos++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (isOp("^")) {
+      pos++;
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  };
+
+  const parsePrimary = (): number => {
+    const tok = peek();
+    if (!tok) throw new FormulaError("Unexpected end of formula");
+    if (tok.type === "number") {
+      pos++;
+      return tok.value;
+    }
+    if (tok.type === "name") {
+      pos++;
+      if (isOp("(")) {
+        const fn = FUNCTIONS[tok.value];
+        if (!fn) throw new FormulaError(`Unknown function "${tok.value}"`);
+        pos++;
+        const args: number[] = [];
+        if (!isOp(")")) {
+          args.push(parseExpr());
+          while (isOp(",")) {
+            pos++;
+            args.push(parseExpr());
+          }
+        }
+        expect(")");
+        return fn(...args);
+      }
+      if (tok.value in variables) return variables[tok.value];
+      if (tok.value in CONSTANTS) return CONSTANTS[tok.value];
+      throw new FormulaError(`Unknown variable "${tok.value}"`);
+    }
+    if (tok.value === "(") {
+      pos++;
+      const value = parseExpr();
+      expect(")");
+      return value;
+    }
+    throw new FormulaError(`Unexpected "${tok.value}"`);
+  };
+
+  const value = parseExpr();
+  if (pos < tokens.length) throw new FormulaError(`Unexpected "${tokens[pos].value}"`);
+  return value;
+}
+
+/**
+ * Evaluate a formula with the given variable values.
+ * Throws FormulaError on syntax errors, unknown names, or non-finite results.
+ */
+export function evaluateFormula(expr: string, variables: Record<string, number> = {}): number {
+  const tokens = tokenize(expr);
+  if (tokens.length === 0) throw new FormulaError("Formula is empty");
+  const value = parse(tokens, variables);
+  if (!Number.isFinite(value)) throw new FormulaError("Formula does not evaluate to a finite number");
+  return value;
+}
@@ -0,0 +1,184 @@
+import { z } from "zod";
+import type {
+  CategoryGrade,
+  CourseGrade,
+  GradebookAssignment,
+  GradebookCategory,
+  GradebookCell,
+  LetterGradeThreshold,
+} from "@/types/gradebook";
+
+export const DEFAULT_LETTER_SCALE: LetterGradeThreshold[] = [
+  { letter: "A", min: 93 },
+  { letter: "A-", min: 90 },
+  { letter: "B+", min: 87 },
+  { letter: "B", min: 83 },
+  { letter: "B-", min: 80 },
+  { letter: "C+", min: 77 },
+  { letter: "C", min: 73 },
+  { letter: "C-", min: 70 },
+  { letter: "D", min: 60 },
+  { letter: "F", min: 0 },
+];
+
+export const letterScaleSchema = z
+  .array(
+    z.object({
+      letter: z.string().trim().min(1).max(5),
+      min: z.number().min(0).max(100),
+    })
+  )
+  .min(1)
+  .max(20)
+  .refine((scale) => new Set(scale.map((s) => s.min)).size === scale.length, "Cutoffs must be distinct")
+  .refine((scale) => new Set(scale.map((s) => s.letter)).size === scale.length, "Letters must be distinct");
+
+/** Read a course's stored letter scale, highest cutoff first; falls back to the default scale. */
+export function parseLetterScale(value: unknown): LetterGradeThreshold[] {
+  const parsed = letterScaleSchema.safeParse(value);
+  if (!parsed.success) return DEFAULT_LETTER_SCALE;
+  return [...parsed.data].sort((a, b) => b.min - a.min);
+}
+
+/** The letter for a course percentage; below every cutoff gets the lowest letter. */
+export function letterFor(percent: number, scale: LetterGradeThreshold[]): string {
+  const sorted = [...scale].sort((a, b) => b.min - a.min);
+  return (sorted.find((s) => percent >= s.min) ?? sorted[sorted.length - 1]).letter;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Points a cell contributes, or null if it does not count (yet). Missing work counts as 0. */
+function countedScore(cell: GradebookCell | undefined): number | null {
+  if (!cell || cell.excused) return null;
+  if (cell.score !== null) return cell.score;
+  return cell.status === "missing" ? 0 : null;
+}
+
+function gradeCategory(
+  categoryId: string | null,
+  name: string,
+  weight: number,
+  dropLowest: number,
+  assignments: GradebookAssignment[],
+  cells: Map<string, GradebookCell>
+): CategoryGrade {
+  const counted = assignments
+    .map((a) => ({ id: a.id, earned: countedScore(cells.get(a.id)), possible: a.totalPoints }))
+    .filter((c): c is { id: string; earned: number; possible: number } => c.earned !== null);
+
+  // Drop the lowest percentages, but always keep at least one item
+  const dropCount = Math.min(dropLowest, Math.max(0, counted.length - 1));
+  const ratio = (c: { earned: number; possible: number }) =>
+    c.possible > 0 ? c.earned / c.possible : Infinity;
+  const dropped = [...counted].sort((a, b) => ratio(a) - ratio(b)).slice(0, dropCount).map((c) => c.id);
+  const kept = counted.filter((c) => !dropped.includes(c.id));
+
+  const earned = kept.reduce((sum, c) => sum + c.earned, 0);
+  const possible = kept.reduce((sum, c) => sum + c.possible, 0);
+  return {
+    categoryId,
+    name,
+    weight,
+    earned: round2(earned),
+    possible: round2(possible),
+    percent: possible > 0 ? round2((earned / possible) * 100) : null,
+    droppedAssignmentIds: dropped,
+  };
+}
+
+/**
+ * A student's course grade. Each category is scored on points after dropping
+ * its lowest items, and the course percentage is the weighted average of the
+ * categories that have counted work (weights are renormalised over those).
+ * Without weighted categories the grade is total points earned over possible.
+ * Assignments outside every category are listed but do not count once
+ * weighted categories exist.
+ */
+export function computeCourseGrade(
+  categories: GradebookCategory[],
+  assignments: GradebookAssignment[],
+  cells: GradebookCell[],
+  scale: LetterGradeThreshold[]
+): CourseGrade {
+  const cellMap = new Map(cells.map((c) => [c.assignmentId, c]));
+  const weighted = categories.filter((c) => c.weight > 0).length > 0;
+
+  const grades: CategoryGrade[] = [...categories]
+    .sort((a, b) => a.order - b.order)
+    .map((c) =>
+      gradeCategory(c.id, c.name, c.weight, c.dropLowest, assignments.filter((a) => a.categoryId === c.id), cellMap)
+    );
+
+  const categoryIds = new Set(categories.map((c) => c.id));
+  const uncategorized = assignments.filter((a) => !a.categoryId || !categoryIds.has(a.categoryId));
+  if (!weighted) {
+    const all = gradeCategory(null, "All assignments", 100, 0, assignments, cellMap);
+    return {
+      percent: all.percent,
+      letter: all.percent !== null ? letterFor(all.percent, scale) : null,
+      categories: [...grades, all],
+    };
+  }
+  if (uncategorized.length > 0) {
+    grades.push(gradeCategory(null, "Uncategorized", 0, 0, uncategorized, cellMap));
+  }
+
+  const counting = grades.filter((g) => g.weight > 0 && g.percent !== null);
+  const totalWeight = counting.reduce((sum, g) => sum + g.weight, 0);
+  const percent = totalWeight > 0
+    ? round2(counting.reduce((sum, g) => sum + g.weight * (g.percent as number), 0) / totalWeight)
+    : null;
+
+  return {
+    percent,
+    letter: percent !== null ? letterFor(percent, scale) : null,
+    categories: grades,
+  };
+}
+
+/**
+ * The lowest score on one assignment that brings the course grade to
+ * `targetPercent`, with every other grade left as it is. Returns 0 if the
+ * target is already secured and null if full marks would not reach it.
+ */
+export function requiredScore(
+  categories: GradebookCategory[],
+  assignments: GradebookAssignment[],
+  cells: GradebookCell[],
+  assignmentId: string,
+  targetPercent: number
+): number | null {
+  const assignment = assignments.find((a) => a.id === assignmentId);
+  if (!assignment) return null;
+
+  const percentWith = (score: number) => {
+    const hypothetical: GradebookCell[] = [
+      ...cells.filter((c) => c.assignmentId !== assignmentId),
+      {
+        assignmentId,
+        score,
+        status: "graded",
+        submissionId: null,
+        submissionScore: null,
+        overridden: false,
+        excused: false,
+        note: null,
+      },
+    ];
+    return computeCourseGrade(categories, assignments, hypothetical, DEFAULT_LETTER_SCALE).percent ?? 0;
+  };
+
+  if (percentWith(assignment.totalPoints) < targetPercent) return null;
+  if (percentWith(0) >= targetPercent) return 0;
+
+  // The course percentage never decreases as this score rises, so bisect
+  let low = 0;
+  let high = assignment.totalPoints;
+  for (let i = 0; i < 40 && high - low > 0.001; i++) {
+    const mid = (low + high) / 2;
+    if (percentWith(mid) >= targetPercent) high = mid;
+    else low = mid;
+  }
+  return Math.ceil(high * 100) / 100;
+}
@@ -0,0 +1,119 @@
+import { z } from "zod";
+
+export const LATE_POLICY_MODES = ["cutoff", "grace", "penalty"] as const;
+export type LatePolicyMode = (typeof LATE_POLICY_MODES)[number];
+
+export const LATE_POLICY_LABELS: Record<LatePolicyMode, string> = {
+  cutoff: "Hard cutoff",
+  grace: "Grace period",
+  penalty: "Penalty per day",
+};
+
+/**
+ * How an assignment treats work submitted after its due date, stored in
+ * `Assignment.latePolicy`. Without a policy late work is accepted and only
+ * flagged as late.
+ *
+ * - cutoff: nothing is accepted after the due date
+ * - grace: accepted without penalty until `graceMinutes` after the due date
+ * - penalty: after `graceMinutes`, `penaltyPerDay` percent is deducted for each
+ *   started day late, up to `maxPenalty` percent
+ */
+export const latePolicySchema = z.object({
+  mode: z.enum(LATE_POLICY_MODES),
+  graceMinutes: z.number().int().min(0).max(10080).optional().default(0),
+  penaltyPerDay: z.number().min(0).max(100).optional().default(10),
+  maxPenalty: z.number().min(0).max(100).optional().default(100),
+});
+
+export type LatePolicy = z.infer<typeof latePolicySchema>;
+
+/** Read a policy from a Prisma JSON column, ignoring malformed data. */
+export function parseLatePolicy(value: unknown): LatePolicy | null {
+  if (value === null || value === undefined) return null;
+  const parsed = latePolicySchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+export interface LateEvaluation {
+  /** Whole minutes past the (possibly extended) due date; 0 when on time */
+  minutesLate: number;
+  /** Percent deducted from the score */
+  penalty: number;
+  /** false when the policy refuses the submission */
+  accepted: boolean;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/** Lateness of a submission made at `submittedAt` against `dueDate`. */
+export function evaluateLateness(
+  policy: LatePolicy | null,
+  dueDate: Date | null,
+  submittedAt: Date
+): LateEvaluation {
+  if (!dueDate || submittedAt <= dueDate) {
+    return { minutesLate: 0, penalty: 0, accepted: true };
+  }
+  const minutesLate = Math.max(1, Math.ceil((submittedAt.getTime() - dueDate.getTime()) / 60000));
+  if (!policy) return { minutesLate, penalty: 0, accepted: true };
+
+  switch (policy.mode) {
+    case "cutoff":
+      return { minutesLate, penalty: 0, accepted: false };
+    case "grace":
+      return { minutesLate, penalty: 0, accepted: minutesLate <= policy.graceMinutes };
+    case "penalty": {
+      const penalized = minutesLate - policy.graceMinutes;
+      if (penalized <= 0) return { minutesLate, penalty: 0, accepted: true };
+      const days = Math.ceil(penalized / MINUTES_PER_DAY);
+      return { minutesLate, penalty: Math.min(policy.maxPenalty, days * policy.penaltyPerDay), accepted: true };
+    }
+  }
+}
+
+/** The score that counts after deducting a late penalty (in percent). */
+export function applyLatePenalty(score: number, penalty: number): number {
+  if (penalty <= 0) return score;
+  return Math.round(score * (1 - Math.min(penalty, 100) / 100) * 100) / 100;
+}
+
+/** Undo `applyLatePenalty`; null when nothing is left to recover (100% penalty). */
+export function removeLatePenalty(score: number, penalty: number): number | null {
+  if (penalty <= 0) return score;
+  if (penalty >= 100) return null;
+  return Math.round((score / (1 - penalty / 100)) * 100) / 100;
+}
+
+/** e.g. "2 days late" / "3 hours late" / "15 min late" */
+export function formatLateness(minutesLate: number): string {
+  if (minutesLate >= MINUTES_PER_DAY) {
+    const days = Math.ceil(minutesLate / MINUTES_PER_DAY);
+    return `${days} day${days !== 1 ? "s" : ""} late`;
+  }
+  if (minutesLate >= 60) {
+    const hours = Math.ceil(minutesLate / 60);
+    return `${hours} hour${hours !== 1 ? "s" : ""} late`;
+  }
+  return `${minutesLate} min late`;
+}
+
+/** One-line summary of a policy for students and staff. */
+export function describeLatePolicy(policy: LatePolicy | null): string {
+  if (!policy) return "Late work is accepted without penalty.";
+  const grace = policy.graceMinutes > 0 ? `${formatGrace(policy.graceMinutes)} grace period` : null;
+  switch (policy.mode) {
+    case "cutoff":
+      return "Late work is not accepted.";
+    case "grace":
+      return grace ? `Late work is accepted during a ${grace}.` : "Late work is not accepted.";
+    case "penalty":
+      return `${policy.penaltyPerDay}% off per day late${policy.maxPenalty < 100 ? `, at most ${policy.maxPenalty}%` : ""}${grace ? `, after a ${grace}` : ""}.`;
+  }
+}
+
+function formatGrace(minutes: number): string {
+  if (minutes % MINUTES_PER_DAY === 0) return `${minutes / MINUTES_PER_DAY}-day`;
+  if (minutes % 60 === 0) return `${minutes / 60}-hour`;
+  return `${minutes}-minute`;
+}
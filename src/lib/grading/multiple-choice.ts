@@ -0,0 +1,189 @@
+import { z } from "zod";
+
+export const MC_SCORING_SCHEMES = ["all_or_nothing", "per_option", "right_minus_wrong"] as const;
+export type McScoringScheme = (typeof MC_SCORING_SCHEMES)[number];
+
+export const MC_SCORING_LABELS: Record<McScoringScheme, string> = {
+  all_or_nothing: "All or nothing",
+  per_option: "Per-option credit",
+  right_minus_wrong: "Right minus wrong",
+};
+
+/**
+ * One entry of `AssignmentQuestion.options`. Older questions (and AI-generated
+ * ones) store plain strings; options with feedback are stored as objects.
+ */
+export const mcOptionSchema = z.union([
+  z.string().max(2000),
+  z.object({
+    text: z.string().max(2000),
+    /** Shown to the student next to this option once the answer is graded */
+    feedback: z.string().max(2000).nullable().optional(),
+  }),
+]);
+
+export interface McOption {
+  text: string;
+  feedback?: string | null;
+}
+
+/**
+ * Per-question grading settings for MC questions,
+ * stored in `AssignmentQuestion.mcConfig`.
+ */
+export const mcConfigSchema = z.object({
+  /** "Select all that apply": `correctAnswer` and answers are comma-separated letters, e.g. "A,C" */
+  multiSelect: z.boolean().optional(),
+  scoring: z.enum(MC_SCORING_SCHEMES).optional(),
+});
+
+export type McGradingConfig = z.infer<typeof mcConfigSchema>;
+
+/** Read a config from a Prisma JSON column, ignoring malformed data. */
+export function parseMcConfig(value: unknown): McGradingConfig {
+  const parsed = mcConfigSchema.safeParse(value ?? {});
+  return parsed.success ? parsed.data : {};
+}
+
+/** Read `AssignmentQuestion.options` in either stored form. */
+export function normalizeOptions(value: unknown): McOption[] {
+  if (!Array.isArray(value)) return [];
+  return value.map((opt) => {
+    if (typeof opt === "string") return { text: opt };
+    if (opt && typeof opt === "object") {
+      const o = opt as Record<string, unknown>;
+      return {
+        text: typeof o.text === "string" ? o.text : "",
+        feedback: typeof o.feedback === "string" && o.feedback.trim() ? o.feedback : null,
+      };
+    }
+    return { text: String(opt ?? "") };
+  });
+}
+
+export function optionLabel(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+/**
+ * Parse "A, c ,(B)" into ["A", "B", "C"] (deduplicated, sorted). Letters may be
+ * separated by commas, semicolons, slashes or spaces; anything else, or a
+ * letter past the question's `optionCount` options, makes the text free-form
+ * and returns null ("A and B", "I think C").
+ */
+export function parseChoiceLetters(raw: string, optionCount = 0): string[] | null {
+  const last = optionCount > 0 ? Math.min(optionCount, 26) : 26;
+  const letters: string[] = [];
+  for (const token of raw.toUpperCase().split(/[\s,;/]+/)) {
+    if (!token) continue;
+    const letter = token.replace(/^\((.)\)$|^(.)[).:]$/, "$1$2");
+    if (!/^[A-Z]$/.test(letter) || letter.charCodeAt(0) - 64 > last) return null;
+    letters.push(letter);
+  }
+  return Array.from(new Set(letters)).sort();
+}
+
+export function formatChoiceLetters(letters: string[]): string {
+  return [...letters].sort().join(",");
+}
+
+/** Explanation of an MC auto-grade, stored in `SubmissionAnswer.autoGradeDetail`. */
+export interface ChoiceGradeDetail {
+  kind: "choice";
+  correct: boolean;
+  /** Fraction of the question's points awarded (0–1) */
+  credit: number;
+  reason: string;
+  multiSelect: boolean;
+  scoring: McScoringScheme;
+  /** One entry per option, in display order */
+  options: Array<{
+    label: string;
+    selected: boolean;
+    correct: boolean;
+    feedback?: string;
+  }>;
+}
+
+function describe(letters: string[]): string {
+  return letters.length ? letters.join(", ") : "nothing";
+}
+
+/**
+ * Grade a multiple-choice answer, or null when the key or the answer is not a
+ * list of option letters (see `parseChoiceLetters`) and needs a person to
+ * grade it. Single-answer questions are always
+ * all-or-nothing; "select all that apply" questions use the configured scheme:
+ *
+ * - all_or_nothing: full credit only for exactly the correct set
+ * - per_option: each option is judged separately (selected iff correct)
+ * - right_minus_wrong: (correct picks − incorrect picks) / number of correct options, floored at 0
+ */
+export function gradeChoiceAnswer(
+  studentRaw: string,
+  correctRaw: string,
+  options: McOption[],
+  config: McGradingConfig = {}
+): ChoiceGradeDetail | null {
+  const multiSelect = config.multiSelect ?? false;
+  const scoring: McScoringScheme = multiSelect ? config.scoring ?? "all_or_nothing" : "all_or_nothing";
+  const expected = parseChoiceLetters(correctRaw, options.length);
+  let selected = parseChoiceLetters(studentRaw, options.length);
+  if (!expected || !selected) return null;
+  if (!multiSelect && selected.length > 1) selected = [];
+
+  // Fall back to the letters in play when the question has no stored options
+  const count = Math.max(
+    options.length,
+    ...[...expected, ...selected].map((l) => l.charCodeAt(0) - 64)
+  );
+  const perOption = Array.from({ length: count }, (_, i) => {
+    const label = optionLabel(i);
+    const feedback = options[i]?.feedback?.trim();
+    return {
+      label,
+      selected: selected.includes(label),
+      correct: expected.includes(label),
+      ...(feedback ? { feedback } : {}),
+    };
+  });
+
+  const hits = perOption.filter((o) => o.selected && o.correct).length;
+  const falsePicks = perOption.filter((o) => o.selected && !o.correct).length;
+  const judgedRight = perOption.filter((o) => o.selected === o.correct).length;
+  const exact = expected.length > 0 && hits === expected.length && falsePicks === 0;
+
+  let credit = exact ? 1 : 0;
+  if (!exact && selected.length > 0 && expected.length > 0) {
+    if (scoring === "per_option") {
+      credit = judgedRight / count;
+    } else if (scoring === "right_minus_wrong") {
+      credit = Math.max(0, (hits - falsePicks) / expected.length);
+    }
+  }
+
+  let reason: string;
+  if (exact) {
+    reason = multiSelect ? `Selected exactly the correct options (${describe(expected)})` : "Selected the correct option";
+  } else if (selected.length === 0) {
+    reason = `No option selected; correct ${expected.length > 1 ? "options are" : "option is"} ${describe(expected)}`;
+  } else if (!multiSelect) {
+    reason = `Selected ${describe(selected)}; correct option is ${describe(expected)}`;
+  } else if (scoring === "per_option") {
+    reason = `${judgedRight} of ${count} options judged correctly (correct: ${describe(expected)})`;
+  } else if (scoring === "right_minus_wrong") {
+    reason = `${hits} correct and ${falsePicks} incorrect selection${falsePicks === 1 ? "" : "s"} out of ${expected.length} correct (correct: ${describe(expected)})`;
+  } else {
+    reason = `Selected ${describe(selected)}; correct options are ${describe(expected)}`;
+  }
+
+  return {
+    kind: "choice",
+    correct: exact,
+    credit,
+    reason,
+    multiSelect,
+    scoring,
+    options: perOption,
+  };
+}
@@ -0,0 +1,280 @@
+import { z } from "zod";
+import { parseUnit, normalizeUnitText, sameDimension, isDimensionless } from "@/lib/grading/units";
+
+/** Relative tolerance used when a question does not configure one (1%). */
+export const DEFAULT_RELATIVE_TOLERANCE = 0.01;
+
+/**
+ * Absolute tolerance when the expected value is 0 and the question sets none:
+ * a relative tolerance of zero would demand an exact match.
+ */
+export const ZERO_ANSWER_TOLERANCE = 1e-6;
+
+export const SIG_FIG_POLICIES = ["ignore", "warn", "penalize"] as const;
+export type SigFigPolicy = (typeof SIG_FIG_POLICIES)[number];
+
+/**
+ * Per-question grading settings for NUMERIC questions,
+ * stored in `AssignmentQuestion.numericConfig`.
+ */
+export const numericConfigSchema = z.object({
+  /** Expected unit, e.g. "m/s^2". Falls back to the unit written in `correctAnswer`. */
+  unit: z.string().max(100).nullable().optional(),
+  /** Reject answers that omit a unit (otherwise the expected unit is assumed) */
+  requireUnit: z.boolean().optional(),
+  /** Maximum allowed |student − expected|, in the expected unit */
+  absoluteTolerance: z.number().min(0).nullable().optional(),
+  /** Maximum allowed |student − expected| / |expected|, e.g. 0.02 for 2% */
+  relativeTolerance: z.number().min(0).max(1).nullable().optional(),
+  /** Expected number of significant figures */
+  sigFigs: z.number().int().min(1).max(15).nullable().optional(),
+  sigFigPolicy: z.enum(SIG_FIG_POLICIES).optional(),
+  /** Fraction of credit deducted when `sigFigPolicy` is "penalize" (0–1) */
+  sigFigPenalty: z.number().min(0).max(1).optional(),
+});
+
+export type NumericGradingConfig = z.infer<typeof numericConfigSchema>;
+
+/** Read a config from a Prisma JSON column, ignoring malformed data. */
+export function parseNumericConfig(value: unknown): NumericGradingConfig {
+  const parsed = numericConfigSchema.safeParse(value ?? {});
+  return parsed.success ? parsed.data : {};
+}
+
+export interface ParsedNumber {
+  value: number;
+  /** Unit text that followed the number (normalized, may be empty) */
+  unit: string;
+  /** Range of significant figures the written mantissa could represent */
+  sigFigs: { min: number; max: number };
+}
+
+/** Explanation of a numeric auto-grade, stored in `SubmissionAnswer.autoGradeDetail`. */
+export interface NumericGradeDetail {
+  kind: "numeric";
+  correct: boolean;
+  /** Fraction of the question's points awarded (0–1) */
+  credit: number;
+  reason: string;
+  studentValue?: number;
+  expectedValue?: number;
+  unit?: string;
+  /** Largest accepted |student − expected|, in `unit` */
+  allowedError?: number;
+  notes: string[];
+}
+
+const MANTISSA = String.raw`[-+]?(?:\d+\.?\d*|\.\d+)`;
+const NUMBER_PATTERN = new RegExp(
+  String.raw`^(${MANTISSA})(?:\s*[eE]\s*([-+]?\d+)|\s*(?:\*|x|X)\s*10\s*\^\s*\(?\s*([-+]?\d+)\s*\)?)?`
+);
+
+function countSigFigs(mantissa: string): { min: number; max: number } {
+  const digits = mantissa.replace(/^[-+]/, "");
+  if (digits.includes(".")) {
+    const significant = digits.replace(".", "").replace(/^0+/, "");
+    const count = Math.max(1, significant.length);
+    return { min: count, max: count };
+  }
+  const stripped = digits.replace(/^0+/, "");
+  if (!stripped) return { min: 1, max: 1 };
+  // Trailing zeros in an integer ("1200") are ambiguous
+  const withoutTrailing = stripped.replace(/0+$/, "");
+  return { min: Math.max(1, withoutTrailing.length), max: stripped.length };
+}
+
+/**
+ * Parse a numeric answer written in plain ("9.8"), scientific ("9.8e3",
+ * "9.8 × 10^3") or LaTeX ("$9.8 \times 10^{3}\,\mathrm{m/s^2}$") notation,
+ * with an optional trailing unit.
+ */
+export function parseNumericAnswer(raw: string): ParsedNumber | null {
+  let text = raw.trim();
+  text = text.replace(/\$/g, " ").trim();
+  text = text.replace(/\\(?:displaystyle|left|right)/g, "");
+  text = text.replace(/\\(?:times|cdot)/g, "*").replace(/[×·⋅]/g, "*");
+  text = text.replace(/[−–]/g, "-");
+  // "10^{-3}" → "10^-3"
+  text = text.replace(/\^\s*\{\s*([-+]?\d+)\s*\}/g, "^$1");
+  // Thousands separators: "1,250,000" → "1250000"
+  text = text.replace(/^([-+]?\d{1,3}(?:,\d{3})+)(?!\d)/, (m) => m.replace(/,/g, ""));
+  text = text.replace(/^([-+])\s+/, "$1");
+
+  const match = NUMBER_PATTERN.exec(text);
+  if (!match) return null;
+
+  const mantissa = match[1];
+  const exponent = match[2] ?? match[3];
+  const value = parseFloat(mantissa) * (exponent ? Math.pow(10, parseInt(exponent, 10)) : 1);
+  if (!Number.isFinite(value)) return null;
+
+  return {
+    value,
+    unit: normalizeUnitText(text.slice(match[0].length)),
+    sigFigs: countSigFigs(mantissa),
+  };
+}
+
+/** The unit answers are graded in, for questions that write one */
+function keyUnitText(expected: ParsedNumber, config: NumericGradingConfig): string {
+  return config.unit?.trim() ? normalizeUnitText(config.unit) : expected.unit;
+}
+
+export interface KeyUnitWarning {
+  unit: string;
+  /**
+   * The unit written in `correctAnswer` cannot be converted to the configured
+   * unit, so the key's value is used as if it were in the configured unit
+   */
+  inAnswerKey: boolean;
+}
+
+/**
+ * Flags an answer key unit the grader cannot convert (e.g. "°C"), so the
+ * editor can warn the author: answers then have to use it as written, or the
+ * key's value is taken unconverted.
+ */
+export function unrecognizedKeyUnit(correctRaw: string, config: NumericGradingConfig = {}): KeyUnitWarning | null {
+  const expected = parseNumericAnswer(correctRaw);
+  const unitText = expected ? keyUnitText(expected, config) : config.unit?.trim() ? normalizeUnitText(config.unit) : "";
+  if (!unitText) return null;
+  const targetUnit = parseUnit(unitText);
+  if (!targetUnit) return { unit: unitText, inAnswerKey: false };
+  if (expected?.unit && expected.unit !== unitText) {
+    const keyUnit = parseUnit(expected.unit);
+    if (!keyUnit || !sameDimension(keyUnit.dimension, targetUnit.dimension)) {
+      return { unit: expected.unit, inAnswerKey: true };
+    }
+  }
+  return null;
+}
+
+function formatNumber(n: number): string {
+  return Number.parseFloat(n.toPrecision(6)).toString();
+}
+
+function result(
+  correct: boolean,
+  credit: number,
+  reason: string,
+  extra: Partial<NumericGradeDetail> = {}
+): NumericGradeDetail {
+  return { kind: "numeric", correct, credit, reason, notes: [], ...extra };
+}
+
+/**
+ * Grade a numeric answer against the answer key using the question's
+ * unit, tolerance and significant-figure settings.
+ */
+export function gradeNumericAnswer(
+  studentRaw: string,
+  correctRaw: string,
+  config: NumericGradingConfig = {}
+): NumericGradeDetail {
+  const expected = parseNumericAnswer(correctRaw);
+  if (!expected) {
+    // Answer key is not numeric — fall back to exact text comparison
+    const correct = studentRaw.trim().toLowerCase() === correctRaw.trim().toLowerCase();
+    return result(correct, correct ? 1 : 0, correct ? "Matches the answer key exactly" : "Does not match the answer key");
+  }
+
+  const student = parseNumericAnswer(studentRaw);
+  if (!student) {
+    return result(false, 0, studentRaw.trim() ? "Could not read a number from the answer" : "No answer given");
+  }
+
+  const notes: string[] = [];
+  const unitText = keyUnitText(expected, config);
+  let expectedValue = expected.value;
+  let studentValue = student.value;
+
+  if (unitText) {
+    const targetUnit = parseUnit(unitText);
+    // The answer key may be written in a different (compatible) unit than the configured one
+    if (targetUnit && expected.unit && expected.unit !== unitText) {
+      const keyUnit = parseUnit(expected.unit);
+      if (keyUnit && sameDimension(keyUnit.dimension, targetUnit.dimension)) {
+        expectedValue = (expected.value * keyUnit.factor) / targetUnit.factor;
+      }
+    }
+
+    if (!student.unit) {
+      if (config.requireUnit) {
+        return result(false, 0, `Missing unit (expected ${unitText})`, { studentValue, expectedValue, unit: unitText });
+      }
+      notes.push(`No unit given; assumed ${unitText}`);
+    } else if (!targetUnit) {
+      // An answer key unit the grader cannot convert (see unrecognizedKeyUnit) has to be matched as written
+      if (student.unit !== unitText) {
+        return result(false, 0, `Unit "${student.unit}" does not match ${unitText}`, { expectedValue, unit: unitText });
+      }
+    } else {
+      const studentUnit = parseUnit(student.unit);
+      if (!studentUnit) {
+        return result(false, 0, `Unrecognized unit "${student.unit}"`, { expectedValue, unit: unitText });
+      }
+      if (!sameDimension(studentUnit.dimension, targetUnit.dimension)) {
+        return result(false, 0, `Unit "${student.unit}" is not compatible with ${unitText}`, { expectedValue, unit: unitText });
+      }
+      if (studentUnit.factor !== targetUnit.factor) {
+        studentValue = (student.value * studentUnit.factor) / targetUnit.factor;
+        notes.push(`Converted ${formatNumber(student.value)} ${student.unit} to ${formatNumber(studentValue)} ${unitText}`);
+      }
+    }
+  } else if (student.unit) {
+    const studentUnit = parseUnit(student.unit);
+    // Anything else after the number ("1/2", "2^3", "3 or 4") is not a plain number
+    if (!studentUnit || !isDimensionless(studentUnit.dimension)) {
+      return result(false, 0, `Could not read "${student.unit}" after the number (answer key has no unit)`, {
+        expectedValue,
+      });
+    }
+    studentValue = student.value * studentUnit.factor;
+  }
+
+  const absTolerance = config.absoluteTolerance ?? 0;
+  const relTolerance = config.relativeTolerance
+    ?? (config.absoluteTolerance != null ? 0 : DEFAULT_RELATIVE_TOLERANCE);
+  const allowedError = Math.max(
+    absTolerance,
+    relTolerance * Math.abs(expectedValue),
+    expectedValue === 0 && config.absoluteTolerance == null ? ZERO_ANSWER_TOLERANCE : 0,
+    // Absorb floating-point noise from unit conversion
+    Math.abs(expectedValue) * 1e-12
+  );
+  const error = Math.abs(studentValue - expectedValue);
+  const base = { studentValue, expectedValue, unit: unitText || undefined, allowedError, notes };
+  const unitSuffix = unitText ? ` ${unitText}` : "";
+
+  if (error > allowedError) {
+    return result(
+      false,
+      0,
+      `${formatNumber(studentValue)}${unitSuffix} is outside the accepted range ${formatNumber(expectedValue)} ± ${formatNumber(allowedError)}${unitSuffix}`,
+      base
+    );
+  }
+
+  let credit = 1;
+  const policy = config.sigFigPolicy ?? "ignore";
+  if (config.sigFigs && policy !== "ignore") {
+    const { min, max } = student.sigFigs;
+    if (config.sigFigs < min || config.sigFigs > max) {
+      const written = min === max ? `${min}` : `${min}–${max}`;
+      if (policy === "penalize") {
+        const penalty = config.sigFigPenalty ?? 0.25;
+        credit = Math.max(0, 1 - penalty);
+        notes.push(`Expected ${config.sigFigs} significant figures, got ${written} (−${Math.round(penalty * 100)}%)`);
+      } else {
+        notes.push(`Expected ${config.sigFigs} significant figures, got ${written}`);
+      }
+    }
+  }
+
+  return result(
+    true,
+    credit,
+    `${formatNumber(studentValue)}${unitSuffix} is within ${formatNumber(allowedError)}${unitSuffix} of ${formatNumber(expectedValue)}${unitSuffix}`,
+    base
+  );
+}
@@ -0,0 +1,268 @@
+import { z } from "zod";
+import { evaluateFormula, FormulaError } from "@/lib/grading/formula";
+
+/**
+ * Randomized, per-student question parameters.
+ *
+ * Staff define variables such as `m = {2..5 step 0.5} kg` or `theta = {30, 45, 60} deg`
+ * and reference them in the question text and options as `{{m}}`. NUMERIC questions
+ * compute their correct answer from `answerFormula`. Each submission draws its values
+ * from a seed derived from the assignment and student, so a student always sees the
+ * same instance while classmates see different ones.
+ */
+
+const PARAMETER_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** One randomized variable, stored in `AssignmentQuestion.parameters`. */
+export const questionParameterSchema = z
+  .object({
+    name: z.string().regex(PARAMETER_NAME, "Variable names must be identifiers").max(30),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    step: z.number().positive().optional(),
+    /** Explicit list of values to pick from (takes precedence over min/max) */
+    values: z.array(z.number()).min(1).max(100).optional(),
+    unit: z.string().max(50).optional(),
+  })
+  .refine((p) => p.values || (p.min !== undefined && p.max !== undefined && p.min <= p.max), {
+    message: "Define either a list of values or a min..max range",
+  });
+
+export type QuestionParameter = z.infer<typeof questionParameterSchema>;
+
+export const questionParametersSchema = z.array(questionParameterSchema).max(20);
+
+/** Read parameters from a Prisma JSON column, ignoring malformed data. */
+export function parseQuestionParameters(value: unknown): QuestionParameter[] {
+  const parsed = questionParametersSchema.safeParse(value ?? []);
+  return parsed.success ? parsed.data : [];
+}
+
+export type ParameterValues = Record<string, number>;
+
+const RANGE_DEFINITION = /^([A-Za-z_]\w*)\s*=\s*\{\s*([-+]?[\d.eE+-]+)\s*\.\.\s*([-+]?[\d.eE+-]+)\s*(?:step\s+([\d.eE+-]+)\s*)?\}\s*(.*)$/;
+const LIST_DEFINITION = /^([A-Za-z_]\w*)\s*=\s*\{([^}]*)\}\s*(.*)$/;
+
+/**
+ * Parse the editor syntax, one variable per line:
+ *   m = {2..5 step 0.5} kg
+ *   n = {1..10}            (step defaults to 1)
+ *   theta = {30, 45, 60} deg
+ */
+export function parseParameterDefinitions(text: string): { parameters: QuestionParameter[]; errors: string[] } {
+  const parameters: QuestionParameter[] = [];
+  const errors: string[] = [];
+
+  text.split("\n").forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) return;
+
+    let candidate: unknown = null;
+    const range = RANGE_DEFINITION.exec(line);
+    const list = range ? null : LIST_DEFINITION.exec(line);
+    if (range) {
+      candidate = {
+        name: range[1],
+        min: Number(range[2]),
+        max: Number(range[3]),
+        step: range[4] !== undefined ? Number(range[4]) : 1,
+        ...(range[5].trim() && { unit: range[5].trim() }),
+      };
+    } else if (list) {
+      candidate = {
+        name: list[1],
+        values: list[2].split(",").map((v) => Number(v.trim())),
+        ...(list[3].trim() && { unit: list[3].trim() }),
+      };
+    }
+
+    const parsed = questionParameterSchema.safeParse(candidate);
+    if (!candidate || !parsed.success) {
+      errors.push(`Line ${i + 1}: expected "name = {min..max step s} unit" or "name = {a, b, c} unit"`);
+      return;
+    }
+    if (parsed.data.values?.some((v) => !Number.isFinite(v))) {
+      errors.push(`Line ${i + 1}: values must be numbers`);
+      return;
+    }
+    if (parameters.some((p) => p.name === parsed.data.name)) {
+      errors.push(`Line ${i + 1}: "${parsed.data.name}" is defined twice`);
+      return;
+    }
+    parameters.push(parsed.data);
+  });
+
+  return { parameters, errors };
+}
+
+/** Inverse of `parseParameterDefinitions`, used to load the editor. */
+export function formatParameterDefinitions(parameters: QuestionParameter[]): string {
+  return parameters
+    .map((p) => {
+      const domain = p.values
+        ? p.values.join(", ")
+        : `${p.min}..${p.max}${p.step !== undefined && p.step !== 1 ? ` step ${p.step}` : ""}`;
+      return `${p.name} = {${domain}}${p.unit ? ` ${p.unit}` : ""}`;
+    })
+    .join("\n");
+}
+
+/** FNV-1a hash, masked to a non-negative 32-bit signed integer (fits an Int column). */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) & 0x7fffffff;
+}
+
+/** Deterministic seed for a student's instance of an assignment. */
+export function instanceSeed(assignmentId: string, userId: string): number {
+  return hashString(`${assignmentId}:${userId}`);
+}
+
+/** mulberry32 PRNG — returns a number in [0, 1) */
+function random(seed: number): number {
+  let t = (seed + 0x6d2b79f5) | 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+function decimals(n: number): number {
+  const text = String(n);
+  if (text.includes("e-")) return Number(text.split("e-")[1]);
+  return text.includes(".") ? text.split(".")[1].length : 0;
+}
+
+/**
+ * Draw values for a question's parameters. The draw depends only on the seed,
+ * the question's position and the variable name, so re-saving an assignment
+ * does not reshuffle students' values.
+ */
+export function sampleParameters(parameters: QuestionParameter[], seed: number, questionOrder: number): ParameterValues {
+  const values: ParameterValues = {};
+  for (const p of parameters) {
+    const r = random(hashString(`${seed}:${questionOrder}:${p.name}`));
+    if (p.values) {
+      values[p.name] = p.values[Math.floor(r * p.values.length)];
+      continue;
+    }
+    const min = p.min ?? 0;
+    const max = p.max ?? min;
+    const step = p.step ?? 1;
+    const count = Math.floor((max - min) / step + 1e-9) + 1;
+    const value = min + Math.floor(r * count) * step;
+    const places = Math.max(decimals(min), decimals(step));
+    values[p.name] = Number(value.toFixed(Math.min(places, 12)));
+  }
+  return values;
+}
+
+function formatValue(value: number): string {
+  return Number.parseFloat(value.toPrecision(10)).toString();
+}
+
+/** Replace `{{name}}` placeholders with the instance values (and units, when defined). */
+export function substituteParameters(text: string, values: ParameterValues, parameters: QuestionParameter[]): string {
+  return text.replace(/\{\{\s*([A-Za-z_]\w*)\s*\}\}/g, (match, name: string) => {
+    if (!(name in values)) return match;
+    const unit = parameters.find((p) => p.name === name)?.unit;
+    return unit ? `${formatValue(values[name])} ${unit}` : formatValue(values[name]);
+  });
+}
+
+/** Compute the correct answer for an instance, rounded to 6 significant figures. */
+export function computeFormulaAnswer(formula: string, values: ParameterValues): string {
+  return Number.parseFloat(evaluateFormula(formula, values).toPrecision(6)).toString();
+}
+
+/**
+ * Check that a parameterized question's formula evaluates with all variables
+ * at their lowest and at their highest values. Returns an error message, or null if valid.
+ */
+export function validateAnswerFormula(formula: string, parameters: QuestionParameter[]): string | null {
+  const corners = (pick: "min" | "max"): ParameterValues =>
+    Object.fromEntries(
+      parameters.map((p) => [
+        p.name,
+        p.values ? (pick === "min" ? Math.min(...p.values) : Math.max(...p.values)) : (p[pick] ?? 0),
+      ])
+    );
+  try {
+    evaluateFormula(formula, corners("min"));
+    evaluateFormula(formula, corners("max"));
+    return null;
+  } catch (error) {
+    return error instanceof FormulaError ? error.message : "Invalid formula";
+  }
+}
+
+interface ParameterizedQuestion {
+  questionText: string;
+  options?: unknown;
+  correctAnswer: string | null;
+  order: number;
+  parameters?: unknown;
+  answerFormula?: string | null;
+}
+
+export function isParameterized(question: { parameters?: unknown }): boolean {
+  return parseQuestionParameters(question.parameters).length > 0;
+}
+
+/**
+ * Produce a student's instance of a question: placeholders substituted in the
+ * text, options and answer key, and the answer computed from the formula.
+ * `values` are drawn from `seed` unless given (e.g. stored on a submission answer).
+ */
+export function instantiateQuestion<Q extends ParameterizedQuestion>(
+  question: Q,
+  seed: number,
+  values?: ParameterValues | null
+): Q & { parameterValues: ParameterValues | null } {
+  const parameters = parseQuestionParameters(question.parameters);
+  if (parameters.length === 0) return { ...question, parameterValues: null };
+
+  const instance = values ?? sampleParameters(parameters, seed, question.order);
+  const substitute = (text: string) => substituteParameters(text, instance, parameters);
+
+  let correctAnswer = question.correctAnswer ? substitute(question.correctAnswer) : question.correctAnswer;
+  if (question.answerFormula?.trim()) {
+    try {
+      correctAnswer = computeFormulaAnswer(question.answerFormula, instance);
+    } catch {
+      // Leave the static answer key in place; the formula is validated on save
+    }
+  }
+
+  return {
+    ...question,
+    questionText: substitute(question.questionText),
+    options: Array.isArray(question.options)
+      ? question.options.map((opt: unknown) =>
+          typeof opt === "string"
+            ? substitute(opt)
+            : opt && typeof opt === "object" && "text" in opt
+              ? { ...opt, text: substitute(String((opt as { text: unknown }).text)) }
+              : opt
+        )
+      : question.options,
+    correctAnswer,
+    parameterValues: instance,
+  };
+}
+
+/** "m = 3.5, h = 2" — for showing a student's instance to graders. */
+export function describeParameterValues(values: ParameterValues): string {
+  return Object.entries(values)
+    .map(([name, value]) => `${name} = ${formatValue(value)}`)
+    .join(", ");
+}
+
+/** Read the values stored on a `SubmissionAnswer`, if any. */
+export function parseParameterValues(value: unknown): ParameterValues | null {
+  const parsed = z.record(z.string(), z.number()).safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
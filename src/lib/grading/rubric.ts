@@ -0,0 +1,32 @@
+export const RUBRIC_SCORING_MODES = ["positive", "negative"] as const;
+export type RubricScoringMode = (typeof RUBRIC_SCORING_MODES)[number];
+
+export const RUBRIC_SCORING_LABELS: Record<RubricScoringMode, string> = {
+  positive: "Positive (add up from 0)",
+  negative: "Negative (deduct from full points)",
+};
+
+export function parseRubricScoring(value: string | null | undefined): RubricScoringMode {
+  return value === "negative" ? "negative" : "positive";
+}
+
+/**
+ * Score an answer from the rubric items applied to it. Positive scoring starts
+ * at 0, negative scoring starts at the question's full points; the applied
+ * items' points are then added (deductions are negative) and the result is
+ * clamped to [0, maxPoints].
+ */
+export function computeRubricScore(
+  maxPoints: number,
+  mode: RubricScoringMode,
+  appliedPoints: number[]
+): number {
+  const base = mode === "negative" ? maxPoints : 0;
+  const total = appliedPoints.reduce((sum, p) => sum + p, base);
+  return Math.round(Math.min(maxPoints, Math.max(0, total)) * 100) / 100;
+}
+
+/** "+2" / "−1.5" for rubric item badges */
+export function formatRubricPoints(points: number): string {
+  return points > 0 ? `+${points}` : points < 0 ? `−${Math.abs(points)}` : "0";
+}
@@ -0,0 +1,59 @@
+import { z } from "zod";
+
+/** `Assignment.timeLimitMinutes`: null = untimed. */
+export const timeLimitSchema = z.number().int().min(1).max(1440).nullable();
+
+/** Extra minutes staff can grant one student on a timed quiz. */
+export const extraMinutesSchema = z.number().int().min(0).max(1440);
+
+/**
+ * Slack after the window closes before a submission counts as overtime, so the
+ * auto-submit fired at 0:00 is not flagged for network latency.
+ */
+export const TIME_LIMIT_GRACE_SECONDS = 30;
+
+/** When a timed attempt opened at `startedAt` runs out. */
+export function getTimeWindowEnd(startedAt: Date, timeLimitMinutes: number, extraMinutes = 0): Date {
+  return new Date(startedAt.getTime() + (timeLimitMinutes + extraMinutes) * 60000);
+}
+
+export interface TimeEvaluation {
+  endsAt: Date;
+  /** Whole seconds past the window, grace excluded; 0 when in time */
+  overtimeSeconds: number;
+}
+
+/** How far past its time window a timed attempt is at `at`. */
+export function evaluateTimeLimit(
+  startedAt: Date,
+  timeLimitMinutes: number,
+  extraMinutes: number,
+  at: Date
+): TimeEvaluation {
+  const endsAt = getTimeWindowEnd(startedAt, timeLimitMinutes, extraMinutes);
+  const over = (at.getTime() - endsAt.getTime()) / 1000 - TIME_LIMIT_GRACE_SECONDS;
+  return { endsAt, overtimeSeconds: over > 0 ? Math.ceil(over) : 0 };
+}
+
+/** Countdown text, e.g. "1:05:09" / "04:59" */
+export function formatCountdown(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = total % 60;
+  const mmss = `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+/** e.g. "45 min" / "1 hr 30 min" */
+export function formatTimeLimit(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest ? `${hours} hr ${rest} min` : `${hours} hr`;
+}
+
+/** e.g. "3 min over" / "45 s over" */
+export function formatOvertime(seconds: number): string {
+  return seconds >= 60 ? `${Math.ceil(seconds / 60)} min over` : `${seconds} s over`;
+}
@@ -0,0 +1,262 @@
+/**
+ * Minimal SI unit parser used by the numeric auto-grader.
+ *
+ * Parses unit expressions such as "m/s^2", "kg·m/s²", "N m", "\mathrm{kJ/(kg\,K)}"
+ * into a scale factor (relative to SI base units) and a dimension vector, so that
+ * answers given in compatible units can be converted before comparison.
+ */
+
+/** Exponents of the SI base dimensions, in order: m, kg, s, A, K, mol, cd */
+export type Dimension = [number, number, number, number, number, number, number];
+
+export interface ParsedUnit {
+  /** Multiply a value in this unit by `factor` to get SI base units */
+  factor: number;
+  dimension: Dimension;
+}
+
+const DIMENSIONLESS: Dimension = [0, 0, 0, 0, 0, 0, 0];
+
+function dim(m = 0, kg = 0, s = 0, A = 0, K = 0, mol = 0, cd = 0): Dimension {
+  return [m, kg, s, A, K, mol, cd];
+}
+
+interface UnitDef {
+  factor: number;
+  dimension: Dimension;
+  /** Whether SI prefixes (k, m, μ, ...) may be applied */
+  prefixable: boolean;
+}
+
+const UNITS: Record<string, UnitDef> = {
+  // Base units
+  m: { factor: 1, dimension: dim(1), prefixable: true },
+  g: { factor: 1e-3, dimension: dim(0, 1), prefixable: true },
+  s: { factor: 1, dimension: dim(0, 0, 1), prefixable: true },
+  A: { factor: 1, dimension: dim(0, 0, 0, 1), prefixable: true },
+  K: { factor: 1, dimension: dim(0, 0, 0, 0, 1), prefixable: true },
+  mol: { factor: 1, dimension: dim(0, 0, 0, 0, 0, 1), prefixable: true },
+  cd: { factor: 1, dimension: dim(0, 0, 0, 0, 0, 0, 1), prefixable: false },
+  // Derived units
+  N: { factor: 1, dimension: dim(1, 1, -2), prefixable: true },
+  J: { factor: 1, dimension: dim(2, 1, -2), prefixable: true },
+  W: { factor: 1, dimension: dim(2, 1, -3), prefixable: true },
+  Pa: { factor: 1, dimension: dim(-1, 1, -2), prefixable: true },
+  Hz: { factor: 1, dimension: dim(0, 0, -1), prefixable: true },
+  C: { factor: 1, dimension: dim(0, 0, 1, 1), prefixable: true },
+  V: { factor: 1, dimension: dim(2, 1, -3, -1), prefixable: true },
+  "Ω": { factor: 1, dimension: dim(2, 1, -3, -2), prefixable: true },
+  ohm: { factor: 1, dimension: dim(2, 1, -3, -2), prefixable: true },
+  F: { factor: 1, dimension: dim(-2, -1, 4, 2), prefixable: true },
+  T: { factor: 1, dimension: dim(0, 1, -2, -1), prefixable: true },
+  Wb: { factor: 1, dimension: dim(2, 1, -2, -1), prefixable: true },
+  H: { factor: 1, dimension: dim(2, 1, -2, -2), prefixable: true },
+  S: { factor: 1, dimension: dim(-2, -1, 3, 2), prefixable: true },
+  // Non-SI units common in introductory physics
+  eV: { factor: 1.602176634e-19, dimension: dim(2, 1, -2), prefixable: true },
+  L: { factor: 1e-3, dimension: dim(3), prefixable: true },
+  min: { factor: 60, dimension: dim(0, 0, 1), prefixable: false },
+  h: { factor: 3600, dimension: dim(0, 0, 1), prefixable: false },
+  atm: { factor: 101325, dimension: dim(-1, 1, -2), prefixable: false },
+  bar: { factor: 1e5, dimension: dim(-1, 1, -2), prefixable: false },
+  cal: { factor: 4.184, dimension: dim(2, 1, -2), prefixable: true },
+  "Å": { factor: 1e-10, dimension: dim(1), prefixable: false },
+  rad: { factor: 1, dimension: DIMENSIONLESS, prefixable: true },
+  sr: { factor: 1, dimension: DIMENSIONLESS, prefixable: false },
+  deg: { factor: Math.PI / 180, dimension: DIMENSIONLESS, prefixable: false },
+  "°": { factor: Math.PI / 180, dimension: DIMENSIONLESS, prefixable: false },
+};
+
+const PREFIXES: Record<string, number> = {
+  T: 1e12,
+  G: 1e9,
+  M: 1e6,
+  k: 1e3,
+  d: 1e-1,
+  c: 1e-2,
+  m: 1e-3,
+  "μ": 1e-6,
+  "µ": 1e-6,
+  u: 1e-6,
+  n: 1e-9,
+  p: 1e-12,
+  f: 1e-15,
+};
+
+const SUPERSCRIPTS: Record<string, string> = {
+  "⁻": "-", "⁰": "0", "¹": "1", "²": "2", "³": "3", "⁴": "4",
+  "⁵": "5", "⁶": "6", "⁷": "7", "⁸": "8", "⁹": "9",
+};
+
+function lookupSymbol(symbol: string): ParsedUnit | null {
+  const exact = UNITS[symbol];
+  if (exact) return { factor: exact.factor, dimension: [...exact.dimension] as Dimension };
+
+  for (const [prefix, scale] of Object.entries(PREFIXES)) {
+    if (!symbol.startsWith(prefix) || symbol.length <= prefix.length) continue;
+    const base = UNITS[symbol.slice(prefix.length)];
+    if (base?.prefixable) {
+      return { factor: scale * base.factor, dimension: [...base.dimension] as Dimension };
+    }
+  }
+  return null;
+}
+
+/**
+ * Normalize LaTeX / Unicode unit notation into a plain form:
+ * `\mathrm{kg\,m/s^{2}}` → `kg m/s^2`, `m·s⁻²` → `m*s^-2`.
+ */
+export function normalizeUnitText(text: string): string {
+  let s = text;
+  s = s.replace(/\\frac\s*\{([^{}]*)\}\s*\{([^{}]*)\}/g, "($1)/($2)");
+  s = s.replace(/\\(?:mathrm|text|textrm|operatorname|rm|mbox)\s*\{([^{}]*)\}/g, "$1");
+  s = s.replace(/\^\s*\{?\s*\\circ\s*\}?/g, "°");
+  s = s.replace(/\\circ/g, "°");
+  s = s.replace(/\\Omega/g, "Ω");
+  s = s.replace(/\\mu\s*/g, "μ");
+  s = s.replace(/\\AA/g, "Å");
+  s = s.replace(/\\(?:cdot|times)/g, "*");
+  s = s.replace(/\\[,;:! ]/g, " ");
+  s = s.replace(/~/g, " ");
+  s = s.replace(/[·⋅×]/g, "*");
+  s = s.replace(/[⁻⁰¹²³⁴⁵⁶⁷⁸⁹]+/g, (m) => "^" + m.split("").map((c) => SUPERSCRIPTS[c]).join(""));
+  s = s.replace(/\^\s*\{\s*([^{}]*?)\s*\}/g, "^$1");
+  s = s.replace(/[{}]/g, "");
+  s = s.replace(/−/g, "-");
+  return s.replace(/\s+/g, " ").trim();
+}
+
+type Token =
+  | { type: "symbol"; value: string }
+  | { type: "number"; value: number }
+  | { type: "op"; value: "*" | "/" | "^" | "(" | ")" };
+
+function tokenize(text: string): Token[] | null {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === " ") {
+      i++;
+      continue;
+    }
+    if (ch === "*" || ch === "/" || ch === "^" || ch === "(" || ch === ")") {
+      tokens.push({ type: "op", value: ch });
+      i++;
+      continue;
+    }
+    const num = /^[-+]?\d+(?:\.\d+)?/.exec(text.slice(i));
+    if (num && ((ch !== "-" && ch !== "+") || tokens[tokens.length - 1]?.value === "^")) {
+      tokens.push({ type: "number", value: parseFloat(num[0]) });
+      i += num[0].length;
+      continue;
+    }
+    const sym = /^[A-Za-zΩμµÅ°]+/.exec(text.slice(i));
+    if (sym) {
+      tokens.push({ type: "symbol", value: sym[0] });
+      i += sym[0].length;
+      continue;
+    }
+    return null;
+  }
+  return tokens;
+}
+
+function combine(a: ParsedUnit, b: ParsedUnit, sign: 1 | -1): ParsedUnit {
+  return {
+    factor: sign === 1 ? a.factor * b.factor : a.factor / b.factor,
+    dimension: a.dimension.map((d, i) => d + sign * b.dimension[i]) as Dimension,
+  };
+}
+
+function power(u: ParsedUnit, exp: number): ParsedUnit {
+  return {
+    factor: Math.pow(u.factor, exp),
+    dimension: u.dimension.map((d) => d * exp) as Dimension,
+  };
+}
+
+/**
+ * Recursive-descent parser over unit tokens.
+ * expr   := factor (('*' | '/' | <implicit>) factor)*
+ * factor := atom ('^' number)?
+ * atom   := symbol | '1' | '(' expr ')'
+ * Division applies only to the factor that follows it ("m/s/s" = m·s⁻²).
+ */
+function parseTokens(tokens: Token[]): ParsedUnit | null {
+  let pos = 0;
+
+  const parseAtom = (): ParsedUnit | null => {
+    const tok = tokens[pos];
+    if (!tok) return null;
+    if (tok.type === "symbol") {
+      pos++;
+      return lookupSymbol(tok.value);
+    }
+    if (tok.type === "number" && tok.value === 1) {
+      pos++;
+      return { factor: 1, dimension: [...DIMENSIONLESS] as Dimension };
+    }
+    if (tok.type === "op" && tok.value === "(") {
+      pos++;
+      const inner = parseExpr();
+      if (!inner || tokens[pos]?.value !== ")") return null;
+      pos++;
+      return inner;
+    }
+    return null;
+  };
+
+  const parseFactor = (): ParsedUnit | null => {
+    const atom = parseAtom();
+    if (!atom) return null;
+    if (tokens[pos]?.type === "op" && tokens[pos].value === "^") {
+      const exp = tokens[pos + 1];
+      if (exp?.type !== "number") return null;
+      pos += 2;
+      return power(atom, exp.value);
+    }
+    return atom;
+  };
+
+  const parseExpr = (): ParsedUnit | null => {
+    let result = parseFactor();
+    if (!result) return null;
+    while (pos < tokens.length) {
+      const tok = tokens[pos];
+      if (tok.type === "op" && tok.value === ")") break;
+      let sign: 1 | -1 = 1;
+      if (tok.type === "op" && (tok.value === "*" || tok.value === "/")) {
+        sign = tok.value === "/" ? -1 : 1;
+        pos++;
+      }
+      const next = parseFactor();
+      if (!next) return null;
+      result = combine(result, next, sign);
+    }
+    return result;
+  };
+
+  const parsed = parseExpr();
+  return parsed && pos === tokens.length ? parsed : null;
+}
+
+/**
+ * Parse a unit expression. Returns null when the text contains an unknown
+ * symbol or cannot be parsed. An empty string parses as dimensionless.
+ */
+export function parseUnit(text: string): ParsedUnit | null {
+  const normalized = normalizeUnitText(text);
+  if (!normalized) return { factor: 1, dimension: [...DIMENSIONLESS] as Dimension };
+  const tokens = tokenize(normalized);
+  if (!tokens || tokens.length === 0) return null;
+  return parseTokens(tokens);
+}
+
+export function sameDimension(a: Dimension, b: Dimension): boolean {
+  return a.every((d, i) => Math.abs(d - b[i]) < 1e-9);
+}
+
+export function isDimensionless(d: Dimension): boolean {
+  return sameDimension(d, DIMENSIONLESS);
+}
@@ -0,0 +1,123 @@
+import { textbookParts } from "@/data/halliday-chapters";
+
+export interface SourcePage {
+  /** 1-based PDF page; null for markdown and plain text */
+  page: number | null;
+  text: string;
+}
+
+export interface TextChunk {
+  page: number | null;
+  heading: string | null;
+  content: string;
+}
+
+const TARGET_CHARS = 1200;
+const OVERLAP_CHARS = 200;
+
+/** Split long paragraphs at sentence ends so no piece exceeds the target size. */
+function splitParagraph(paragraph: string): string[] {
+  if (paragraph.length <= TARGET_CHARS) return [paragraph];
+  const sentences = paragraph.match(/[^.!?]+[.!?]+(\s|$)|[^.!?]+$/g) ?? [paragraph];
+  const pieces: string[] = [];
+  let current = "";
+  for (const sentence of sentences) {
+    // A single run-on "sentence" (equations, tables) is cut hard
+    for (let i = 0; i < sentence.length; i += TARGET_CHARS) {
+      const part = sentence.slice(i, i + TARGET_CHARS);
+      if (current && current.length + part.length > TARGET_CHARS) {
+        pieces.push(current.trim());
+        current = "";
+      }
+      current += part;
+    }
+  }
+  if (current.trim()) pieces.push(current.trim());
+  return pieces;
+}
+
+/**
+ * Cut pages into passages of about `TARGET_CHARS`, never across pages, with a
+ * little overlap so a definition split between passages is found from either.
+ * Markdown headings start a new passage and are remembered for citations.
+ */
+export function chunkPages(pages: SourcePage[]): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let heading: string | null = null;
+
+  for (const { page, text } of pages) {
+    let current = "";
+    let currentHeading = heading;
+    const flush = () => {
+      if (current.trim()) chunks.push({ page, heading: currentHeading, content: current.trim() });
+      current = current.length > OVERLAP_CHARS ? current.slice(-OVERLAP_CHARS).replace(/^\S*\s/, "") : "";
+    };
+
+    for (const block of text.split(/\n\s*\n/)) {
+      const headingMatch = block.match(/^#{1,6}\s+(.+)$/m);
+      if (headingMatch && block.trimStart().startsWith("#")) {
+        flush();
+        current = "";
+        heading = headingMatch[1].trim().slice(0, 200);
+        currentHeading = heading;
+      }
+      for (const piece of splitParagraph(block.trim())) {
+        if (!piece) continue;
+        if (current && current.length + piece.length > TARGET_CHARS) flush();
+        current += (current ? "\n\n" : "") + piece;
+      }
+    }
+    // Overlap only carries within a page
+    if (current.trim()) chunks.push({ page, heading: currentHeading, content: current.trim() });
+  }
+
+  return chunks.filter((c) => c.content.replace(/\s/g, "").length >= 20);
+}
+
+const GENERIC_WORDS = new Set(
+  "and the of in a an on for with its to including some more about other two one three part review".split(" ")
+);
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter((w) => w.length > 2 && !GENERIC_WORDS.has(w));
+}
+
+const SECTIONS = textbookParts.flatMap((part) =>
+  part.chapters.flatMap((chapter) =>
+    chapter.sections.map((section) => ({ number: section.number, title: section.title, words: words(section.title) }))
+  )
+);
+
+const SECTION_TITLES = new Map(SECTIONS.map((s) => [s.number, s.title]));
+
+/** "2-3" -> "Acceleration" */
+export function hallidaySectionTitle(number: string): string | null {
+  return SECTION_TITLES.get(number) ?? null;
+}
+
+/**
+ * The Halliday section a passage most likely belongs to: an explicit
+ * "Section 2-3" / "§2.3" reference, else the section whose title words the
+ * passage uses most. Null when nothing matches well enough.
+ */
+export function matchHallidaySection(text: string): string | null {
+  const explicit = text.match(/(?:section|sec\.|§)\s*(\d{1,2})[-.](\d{1,2})\b/i);
+  if (explicit) {
+    const number = `${explicit[1]}-${explicit[2]}`;
+    if (SECTION_TITLES.has(number)) return number;
+  }
+
+  const counts = new Map<string, number>();
+  for (const w of words(text)) counts.set(w, (counts.get(w) ?? 0) + 1);
+  let best: { number: string; score: number } | null = null;
+  for (const section of SECTIONS) {
+    if (section.words.length === 0) continue;
+    const hits = section.words.filter((w) => counts.has(w));
+    // Most title words must appear; a one-word title ("Time", "Mass") must recur
+    if (hits.length < Math.ceil(section.words.length * 0.75)) continue;
+    const score = hits.reduce((sum, w) => sum + Math.log(1 + (counts.get(w) ?? 0)), 0) / section.words.length;
+    const threshold = section.words.length === 1 ? Math.log(4) : Math.log(2);
+    if (score >= threshold && (!best || score > best.score)) best = { number: section.number, score };
+  }
+  return best?.number ?? null;
+}
@@ -0,0 +1,61 @@
+/** A course-material passage the tutor was given, numbered as it cites it. Stored in `Message.citations`. */
+export type Citation = {
+  n: number;
+  documentId: string;
+  title: string;
+  page: number | null;
+  heading: string | null;
+  /** Halliday section, e.g. "2-3" */
+  section: string | null;
+  /** The uploaded file, when it was stored */
+  url: string | null;
+};
+
+export const KNOWLEDGE_KINDS = ["notes", "problem_set", "solutions", "other"] as const;
+export type KnowledgeKind = (typeof KNOWLEDGE_KINDS)[number];
+
+export const KNOWLEDGE_KIND_LABELS: Record<KnowledgeKind, string> = {
+  notes: "Lecture notes",
+  problem_set: "Problem set",
+  solutions: "Solutions",
+  other: "Other",
+};
+
+/** "Lecture 3, p. 4" */
+export function formatCitation(citation: Citation): string {
+  return citation.page ? `${citation.title}, p. ${citation.page}` : citation.title;
+}
+
+function citationHref(citation: Citation): string | null {
+  if (!citation.url) return null;
+  return citation.page ? `${citation.url}#page=${citation.page}` : citation.url;
+}
+
+/**
+ * Turn the tutor's inline "[2]" markers into markdown links to the source page,
+ * with the document and page as the hover title. Markers that match no
+ * citation (or sit inside code) are left as they are.
+ */
+export function linkCitations(content: string, citations: Citation[] | undefined): string {
+  if (!citations?.length) return content;
+  const byNumber = new Map(citations.map((c) => [c.n, c]));
+  return content
+    .split(/(```[\s\S]*?```|`[^`\n]*`)/)
+    .map((part, i) => {
+      if (i % 2 === 1) return part;
+      return part.replace(/\[(\d{1,2})\](?!\()/g, (marker, n: string) => {
+        const citation = byNumber.get(parseInt(n, 10));
+        if (!citation) return marker;
+        const title = formatCitation(citation).replace(/"/g, "'").replace(/[<>]/g, "");
+        const href = citationHref(citation);
+        return href ? `[\\[${n}\\]](${href.replace(/[ ()]/g, encodeURIComponent)} "${title}")` : `<sup title="${title}">[${n}]</sup>`;
+      });
+    })
+    .join("");
+}
+
+/** The citations whose markers actually appear in a reply. */
+export function citedIn(content: string, citations: Citation[]): Citation[] {
+  const used = new Set(Array.from(content.matchAll(/\[(\d{1,2})\]/g)).map((m) => parseInt(m[1], 10)));
+  return citations.filter((c) => used.has(c.n));
+}
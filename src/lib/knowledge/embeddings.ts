@@ -0,0 +1,128 @@
+import OpenAI from "openai";
+
+export interface EmbeddingBackend {
+  /** Stored in `EMBEDDING_PROVIDER` */
+  id: string;
+  model: string;
+  /** Vectors are L2-normalized, so cosine similarity is a dot product */
+  embed(texts: string[]): Promise<number[][]>;
+  /** Similarity below which a passage is not worth showing the tutor */
+  minScore: number;
+}
+
+const LOCAL_DIMENSIONS = 1024;
+
+const STOPWORDS = new Set(
+  ("a an and are as at be but by for from has have how i if in into is it its of on or that the their then there " +
+    "these this to was were what when where which while why will with you your we can do does")
+    .split(" ")
+);
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+}
+
+// FNV-1a, so the same term always lands in the same bucket
+function hashTerm(term: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < term.length; i++) {
+    hash ^= term.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function terms(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length > 1 && !STOPWORDS.has(w))
+    // Crude plural folding: "forces" matches "force", "velocities" matches "velocity"
+    .map((w) => (w.length > 4 && w.endsWith("ies") ? `${w.slice(0, -3)}y` : w.length > 3 && w.endsWith("s") && !w.endsWith("ss") ? w.slice(0, -1) : w));
+  const bigrams = words.slice(1).map((w, i) => `${words[i]} ${w}`);
+  return [...words, ...bigrams];
+}
+
+/**
+ * Hashed bag-of-words vectors. No model and no network, so every deployment
+ * gets retrieval out of the box; it matches vocabulary rather than meaning.
+ */
+const localBackend: EmbeddingBackend = {
+  id: "local",
+  model: `hashed-bow-${LOCAL_DIMENSIONS}`,
+  minScore: 0.12,
+  async embed(texts) {
+    return texts.map((text) => {
+      const counts = new Map<number, number>();
+      for (const term of terms(text)) {
+        const bucket = hashTerm(term) % LOCAL_DIMENSIONS;
+        counts.set(bucket, (counts.get(bucket) ?? 0) + 1);
+      }
+      const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+      counts.forEach((count, bucket) => {
+        vector[bucket] = 1 + Math.log(count);
+      });
+      return normalize(vector);
+    });
+  },
+};
+
+function openAIEmbeddingBackend(id: string, model: string, getClient: () => OpenAI, minScore: number): EmbeddingBackend {
+  return {
+    id,
+    model,
+    minScore,
+    async embed(texts) {
+      const vectors: number[][] = [];
+      // Stay well under per-request input limits
+      for (let i = 0; i < texts.length; i += 64) {
+        const response = await getClient().embeddings.create({ model, input: texts.slice(i, i + 64) });
+        vectors.push(...response.data.sort((a, b) => a.index - b.index).map((d) => normalize(d.embedding)));
+      }
+      return vectors;
+    },
+  };
+}
+
+let openaiClient: OpenAI | null = null;
+let compatibleClient: OpenAI | null = null;
+
+const EMBEDDING_BACKENDS: Record<string, EmbeddingBackend> = {
+  local: localBackend,
+  openai: openAIEmbeddingBackend(
+    "openai",
+    process.env.OPENAI_EMBEDDING_MODEL || "text-embedding-3-small",
+    () => (openaiClient ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY })),
+    0.3
+  ),
+  "openai-compatible": openAIEmbeddingBackend(
+    "openai-compatible",
+    process.env.OPENAI_COMPATIBLE_EMBEDDING_MODEL || "nomic-embed-text",
+    () =>
+      (compatibleClient ??= new OpenAI({
+        baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL || "http://localhost:11434/v1",
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || "not-needed",
+      })),
+    0.3
+  ),
+};
+
+/** The backend named by `EMBEDDING_PROVIDER`, defaulting to the local one. */
+export function getEmbeddingBackend(): EmbeddingBackend {
+  const id = process.env.EMBEDDING_PROVIDER;
+  return (id && EMBEDDING_BACKENDS[id]) || localBackend;
+}
+
+/** What `KnowledgeDocument.embeddingModel` records, e.g. "openai:text-embedding-3-small" */
+export function embeddingModelKey(backend: EmbeddingBackend): string {
+  return `${backend.id}:${backend.model}`;
+}
+
+/** Dot product of two normalized vectors. */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
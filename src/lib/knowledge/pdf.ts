@@ -0,0 +1,362 @@
+import { inflateSync } from "zlib";
+
+/**
+ * Plain-text extraction for the PDFs staff upload as course materials: enough
+ * of the format to read text-based lecture notes and problem sets page by page
+ * (Flate streams, object streams, page trees, ToUnicode maps). Scanned PDFs
+ * have no text layer and come back empty; there is no OCR here.
+ */
+
+interface PdfObject {
+  dict: string;
+  stream: Buffer | null;
+}
+
+type Objects = Map<number, PdfObject>;
+
+function decodeStream(dict: string, raw: Buffer): Buffer | null {
+  if (!/\/Filter/.test(dict)) return raw;
+  // Images (DCT, JPX, CCITT) and exotic filters carry no text
+  if (!/\/FlateDecode/.test(dict) || /\/(DCTDecode|JPXDecode|CCITTFaxDecode|LZWDecode|ASCII85Decode)/.test(dict)) {
+    return null;
+  }
+  try {
+    return inflateSync(raw);
+  } catch {
+    return null;
+  }
+}
+
+function parseObjects(data: Buffer): Objects {
+  const src = data.toString("latin1");
+  const objects: Objects = new Map();
+  const header = /(\d+)\s+\d+\s+obj\b/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = header.exec(src))) {
+    const start = match.index + match[0].length;
+    const end = src.indexOf("endobj", start);
+    if (end === -1) break;
+    const body = src.slice(start, end);
+    const streamAt = body.search(/\bstream\r?\n/);
+    let dict = body;
+    let stream: Buffer | null = null;
+    if (streamAt !== -1) {
+      dict = body.slice(0, streamAt);
+      const dataStart = body.indexOf("\n", streamAt) + 1;
+      let dataEnd = body.lastIndexOf("endstream");
+      if (dataEnd === -1) dataEnd = body.length;
+      const length = dict.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/);
+      if (length && dataStart + parseInt(length[1], 10) <= dataEnd) {
+        dataEnd = dataStart + parseInt(length[1], 10);
+      }
+      stream = decodeStream(dict, Buffer.from(body.slice(dataStart, dataEnd), "latin1"));
+    }
+    // Later definitions (incremental updates) replace earlier ones
+    objects.set(parseInt(match[1], 10), { dict, stream });
+    header.lastIndex = end;
+  }
+
+  // Compressed object streams hold most dictionaries in PDFs since 1.5
+  objects.forEach((obj) => {
+    if (!/\/Type\s*\/ObjStm/.test(obj.dict) || !obj.stream) return;
+    const text = obj.stream.toString("latin1");
+    const first = parseInt(obj.dict.match(/\/First\s+(\d+)/)?.[1] ?? "0", 10);
+    const count = parseInt(obj.dict.match(/\/N\s+(\d+)/)?.[1] ?? "0", 10);
+    const nums = text.slice(0, first).trim().split(/\s+/).map((n) => parseInt(n, 10));
+    for (let i = 0; i < count; i++) {
+      const num = nums[i * 2];
+      const offset = first + nums[i * 2 + 1];
+      const next = i + 1 < count ? first + nums[i * 2 + 3] : text.length;
+      if (!objects.has(num)) objects.set(num, { dict: text.slice(offset, next), stream: null });
+    }
+  });
+
+  return objects;
+}
+
+function refOf(dict: string, key: string): number | null {
+  const match = dict.match(new RegExp(`/${key}\\s+(\\d+)\\s+\\d+\\s+R`));
+  return match ? parseInt(match[1], 10) : null;
+}
+
+function refsOf(dict: string, key: string): number[] {
+  const array = dict.match(new RegExp(`/${key}\\s*\\[([^\\]]*)\\]`));
+  if (array) {
+    return Array.from(array[1].matchAll(/(\d+)\s+\d+\s+R/g)).map((m) => parseInt(m[1], 10));
+  }
+  const single = refOf(dict, key);
+  return single === null ? [] : [single];
+}
+
+/** The `<< ... >>` value of a key, inline or by reference. */
+function dictOf(objects: Objects, dict: string, key: string): string | null {
+  const at = dict.search(new RegExp(`/${key}\\s*<<`));
+  if (at !== -1) {
+    let depth = 0;
+    const start = dict.indexOf("<<", at);
+    for (let i = start; i < dict.length - 1; i++) {
+      if (dict[i] === "<" && dict[i + 1] === "<") { depth++; i++; }
+      else if (dict[i] === ">" && dict[i + 1] === ">") {
+        depth--; i++;
+        if (depth === 0) return dict.slice(start, i + 1);
+      }
+    }
+    return null;
+  }
+  const ref = refOf(dict, key);
+  return ref === null ? null : objects.get(ref)?.dict ?? null;
+}
+
+function utf16(hex: string): string {
+  let out = "";
+  for (let i = 0; i + 4 <= hex.length; i += 4) out += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  if (hex.length === 2) out = String.fromCharCode(parseInt(hex, 16));
+  return out;
+}
+
+function parseToUnicode(cmap: string): Map<number, string> {
+  const map = new Map<number, string>();
+  for (const block of Array.from(cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g))) {
+    for (const m of Array.from(block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g))) {
+      map.set(parseInt(m[1], 16), utf16(m[2]));
+    }
+  }
+  for (const block of Array.from(cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g))) {
+    for (const m of Array.from(block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]+>|\[[^\]]*\])/g))) {
+      const lo = parseInt(m[1], 16);
+      const hi = parseInt(m[2], 16);
+      if (m[3].startsWith("[")) {
+        Array.from(m[3].matchAll(/<([0-9a-fA-F]+)>/g)).forEach((d, i) => map.set(lo + i, utf16(d[1])));
+      } else {
+        const dst = m[3].slice(1, -1);
+        const base = parseInt(dst.slice(-4), 16);
+        for (let code = lo; code <= hi && code - lo < 65536; code++) {
+          map.set(code, utf16(dst.slice(0, -4)) + String.fromCharCode(base + code - lo));
+        }
+      }
+    }
+  }
+  return map;
+}
+
+interface Font {
+  twoByte: boolean;
+  toUnicode: Map<number, string> | null;
+}
+
+function loadFonts(objects: Objects, resources: string | null): Map<string, Font> {
+  const fonts = new Map<string, Font>();
+  const fontDict = resources ? dictOf(objects, resources, "Font") : null;
+  if (!fontDict) return fonts;
+  for (const m of Array.from(fontDict.matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g))) {
+    const font = objects.get(parseInt(m[2], 10));
+    if (!font) continue;
+    const cmapRef = refOf(font.dict, "ToUnicode");
+    const cmap = cmapRef !== null ? objects.get(cmapRef)?.stream : null;
+    fonts.set(m[1], {
+      twoByte: /\/Subtype\s*\/Type0/.test(font.dict),
+      toUnicode: cmap ? parseToUnicode(cmap.toString("latin1")) : null,
+    });
+  }
+  return fonts;
+}
+
+function decodeText(bytes: number[], font: Font | undefined): string {
+  if (font?.toUnicode) {
+    let out = "";
+    const step = font.twoByte ? 2 : 1;
+    for (let i = 0; i + step <= bytes.length; i += step) {
+      const code = step === 2 ? (bytes[i] << 8) | bytes[i + 1] : bytes[i];
+      out += font.toUnicode.get(code) ?? "";
+    }
+    return out;
+  }
+  // Composite fonts without a map use glyph ids we cannot read
+  if (font?.twoByte) return "";
+  return String.fromCharCode(...bytes);
+}
+
+type Operand = number | string | { bytes: number[] } | Operand[];
+
+const ESCAPES: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+
+/** Run a page's content stream and collect the text it shows. */
+function extractText(content: string, fonts: Map<string, Font>): string {
+  let out = "";
+  let font: Font | undefined;
+  const stack: Operand[] = [];
+  const arrays: Operand[][] = [];
+  const push = (value: Operand) => (arrays.length ? arrays[arrays.length - 1] : stack).push(value);
+  const show = (value: Operand | undefined) => {
+    if (value && typeof value === "object" && "bytes" in value) out += decodeText(value.bytes, font);
+  };
+
+  let i = 0;
+  while (i < content.length) {
+    const ch = content[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    if (ch === "%") { while (i < content.length && content[i] !== "\n" && content[i] !== "\r") i++; continue; }
+
+    if (ch === "(") {
+      const bytes: number[] = [];
+      let depth = 1;
+      i++;
+      while (i < content.length && depth > 0) {
+        const c = content[i];
+        if (c === "\\") {
+          const next = content[i + 1];
+          if (next in ESCAPES) { bytes.push(ESCAPES[next]); i += 2; }
+          else if (/[0-7]/.test(next)) {
+            const oct = content.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+            bytes.push(parseInt(oct, 8) & 0xff);
+            i += 1 + oct.length;
+          } else if (next === "\r" || next === "\n") {
+            i += next === "\r" && content[i + 2] === "\n" ? 3 : 2;
+          } else { bytes.push(next.charCodeAt(0)); i += 2; }
+          continue;
+        }
+        if (c === "(") depth++;
+        if (c === ")" && --depth === 0) { i++; break; }
+        bytes.push(c.charCodeAt(0));
+        i++;
+      }
+      push({ bytes });
+      continue;
+    }
+
+    if (ch === "<" && content[i + 1] === "<") { i += 2; continue; }
+    if (ch === ">" && content[i + 1] === ">") { i += 2; continue; }
+    if (ch === "<") {
+      const end = content.indexOf(">", i);
+      const hex = content.slice(i + 1, end === -1 ? content.length : end).replace(/\s/g, "");
+      const bytes: number[] = [];
+      for (let h = 0; h < hex.length; h += 2) bytes.push(parseInt(hex.slice(h, h + 2).padEnd(2, "0"), 16));
+      push({ bytes });
+      i = end === -1 ? content.length : end + 1;
+      continue;
+    }
+    if (ch === "[") { arrays.push([]); i++; continue; }
+    if (ch === "]") {
+      const array = arrays.pop() ?? [];
+      push(array);
+      i++;
+      continue;
+    }
+    if (ch === "/") {
+      const name = content.slice(i + 1).match(/^[^\s/<>[\]()%{}]*/)![0];
+      push(`/${name}`);
+      i += 1 + name.length;
+      continue;
+    }
+    const number = content.slice(i, i + 32).match(/^[+-]?(\d+\.?\d*|\.\d+)/);
+    if (number) {
+      push(parseFloat(number[0]));
+      i += number[0].length;
+      continue;
+    }
+
+    const op = content.slice(i).match(/^[A-Za-z'"*]+/)?.[0] ?? ch;
+    i += op.length;
+    switch (op) {
+      case "Tf": {
+        const name = stack[stack.length - 2];
+        if (typeof name === "string") font = fonts.get(name.slice(1));
+        break;
+      }
+      case "Tj":
+        show(stack[stack.length - 1]);
+        break;
+      case "'":
+      case "\"":
+        out += "\n";
+        show(stack[stack.length - 1]);
+        break;
+      case "TJ": {
+        const array = stack[stack.length - 1];
+        if (Array.isArray(array)) {
+          for (const part of array) {
+            // A large negative adjustment is a word gap
+            if (typeof part === "number") { if (part < -200) out += " "; }
+            else show(part);
+          }
+        }
+        break;
+      }
+      case "Td":
+      case "TD": {
+        const ty = stack[stack.length - 1];
+        const tx = stack[stack.length - 2];
+        if (typeof ty === "number" && Math.abs(ty) > 0.01) out += "\n";
+        else if (typeof tx === "number" && tx > 0) out += " ";
+        break;
+      }
+      case "T*":
+      case "Tm":
+      case "ET":
+        out += "\n";
+        break;
+      case "BI": {
+        // Skip inline image data, which is binary
+        const end = content.slice(i).search(/\sEI\b/);
+        i = end === -1 ? content.length : i + end + 3;
+        break;
+      }
+    }
+    stack.length = 0;
+    arrays.length = 0;
+  }
+  return out;
+}
+
+function cleanText(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0009\u000b-\u001f]/g, " ")
+    .replace(/(\w)-\n(\w)/g, "$1$2")
+    .replace(/[ \t]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/** The text of each page, in reading order of the page tree. */
+export function extractPdfPages(data: Buffer): string[] {
+  if (!data.subarray(0, 1024).toString("latin1").includes("%PDF")) {
+    throw new Error("Not a PDF file");
+  }
+  const objects = parseObjects(data);
+  if (Array.from(objects.values()).some((o) => /\/Encrypt\b/.test(o.dict))) {
+    throw new Error("Encrypted PDFs are not supported");
+  }
+
+  const pages: { dict: string; resources: string | null }[] = [];
+  const visit = (num: number, inherited: string | null, seen: Set<number>) => {
+    const node = objects.get(num);
+    if (!node || seen.has(num)) return;
+    seen.add(num);
+    const resources = dictOf(objects, node.dict, "Resources") ?? inherited;
+    if (/\/Type\s*\/Pages\b/.test(node.dict)) {
+      refsOf(node.dict, "Kids").forEach((kid) => visit(kid, resources, seen));
+    } else if (/\/Type\s*\/Page\b/.test(node.dict)) {
+      pages.push({ dict: node.dict, resources });
+    }
+  };
+  const catalog = Array.from(objects.values()).find((o) => /\/Type\s*\/Catalog\b/.test(o.dict));
+  const root = catalog ? refOf(catalog.dict, "Pages") : null;
+  if (root !== null) visit(root, null, new Set());
+  if (pages.length === 0) {
+    // No usable page tree: fall back to page objects in file order
+    objects.forEach((o) => {
+      if (/\/Type\s*\/Page\b/.test(o.dict)) pages.push({ dict: o.dict, resources: dictOf(objects, o.dict, "Resources") });
+    });
+  }
+
+  return pages.map((page) => {
+    const content = refsOf(page.dict, "Contents")
+      .map((ref) => objects.get(ref)?.stream?.toString("latin1") ?? "")
+      .join("\n");
+    return cleanText(extractText(content, loadFonts(objects, page.resources)));
+  });
+}
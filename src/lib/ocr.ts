@@ -0,0 +1,67 @@
+import { transcribePage, type AIProviderAdapter, type AIUsageReport } from "@/lib/ai";
+
+/**
+ * Photos of handwritten work or textbook pages to editable Markdown + LaTeX.
+ * Recognizers are swappable so tests and offline deployments do not need a
+ * vision model.
+ */
+
+export const PAGE_KINDS = ["handwriting", "textbook"] as const;
+export type PageKind = (typeof PAGE_KINDS)[number];
+
+export interface PageRecognition {
+  markdown: string;
+  /** Null when no model was called, so there is nothing to bill */
+  usage: AIUsageReport | null;
+}
+
+export interface PageRecognizer {
+  /** Stored in `OCR_RECOGNIZER` */
+  id: string;
+  recognize(page: {
+    /** A Blob URL or, for local uploads, a data URL */
+    imageUrl: string;
+    kind: PageKind;
+    /** `AIConfig.provider`, for recognizers that use the configured model */
+    provider?: AIProviderAdapter | string | null;
+  }): Promise<PageRecognition>;
+}
+
+/** The active AI provider's vision model */
+const visionRecognizer: PageRecognizer = {
+  id: "vision",
+  async recognize({ imageUrl, kind, provider }) {
+    const { markdown, usage } = await transcribePage(provider, imageUrl, kind);
+    return { markdown: markdown ?? "", usage };
+  },
+};
+
+/**
+ * Canned Markdown that names the file it was given, with inline and display
+ * math so the review step renders both. No model, no network.
+ */
+const stubRecognizer: PageRecognizer = {
+  id: "stub",
+  async recognize({ imageUrl, kind }) {
+    const file = imageUrl.startsWith("data:") ? "image" : imageUrl.split(/[?#]/)[0].split("/").pop() || "image";
+    return {
+      markdown: [
+        `**Transcribed ${kind} page** (\`${file}\`)`,
+        "Newton's second law: $F = ma$",
+        "$$a = \\frac{F}{m} = \\frac{10\\,\\mathrm{N}}{5\\,\\mathrm{kg}} = 2\\,\\mathrm{m/s^2}$$",
+      ].join("\n\n"),
+      usage: null,
+    };
+  },
+};
+
+const PAGE_RECOGNIZERS: Record<string, PageRecognizer> = {
+  vision: visionRecognizer,
+  stub: stubRecognizer,
+};
+
+/** The recognizer named by `OCR_RECOGNIZER`, defaulting to the vision model. */
+export function getPageRecognizer(): PageRecognizer {
+  const id = process.env.OCR_RECOGNIZER;
+  return (id && PAGE_RECOGNIZERS[id]) || visionRecognizer;
+}
@@ -0,0 +1,104 @@
+import { z } from "zod";
+
+export const QUOTA_FEATURES = ["chat", "problems", "ocr", "code", "appeals"] as const;
+export type QuotaFeature = (typeof QUOTA_FEATURES)[number];
+
+export const QUOTA_FEATURE_LABELS: Record<QuotaFeature, string> = {
+  chat: "AI Chat",
+  problems: "Problem Generator",
+  ocr: "Handwriting OCR",
+  code: "Code Execution",
+  appeals: "Grade Appeals",
+};
+
+/** AI features are metered in tokens, the rest per request. */
+export const QUOTA_UNITS: Record<QuotaFeature, "tokens" | "requests"> = {
+  chat: "tokens",
+  problems: "tokens",
+  ocr: "tokens",
+  code: "requests",
+  appeals: "requests",
+};
+
+/** Daily allowance when no rule matches; null = unlimited. */
+export const DEFAULT_DAILY_QUOTAS: Record<QuotaFeature, { student: number | null; staff: number | null }> = {
+  chat: { student: 200_000, staff: null },
+  problems: { student: null, staff: null },
+  // Roughly 20 photographed pages
+  ocr: { student: 50_000, staff: null },
+  code: { student: 100, staff: 100 },
+  appeals: { student: 20, staff: null },
+};
+
+/** Share of the allowance left while the AI budget is past its soft limit. */
+export const THROTTLED_QUOTA_FACTOR = 0.5;
+
+export const QUOTA_ROLES = ["STUDENT", "TA", "PROFESSOR", "ADMIN"] as const;
+
+export const quotaRuleSchema = z
+  .object({
+    feature: z.enum(QUOTA_FEATURES),
+    role: z.enum(QUOTA_ROLES).nullable().optional().default(null),
+    courseId: z.string().min(1).nullable().optional().default(null),
+    dailyLimit: z.number().int().min(0).max(100_000_000).nullable(),
+    startsAt: z.coerce.date().nullable().optional().default(null),
+    endsAt: z.coerce.date().nullable().optional().default(null),
+    label: z.string().trim().max(100).nullable().optional().default(null),
+  })
+  .refine((r) => (r.startsAt === null) === (r.endsAt === null), {
+    message: "An exam window needs both a start and an end",
+    path: ["endsAt"],
+  })
+  .refine((r) => !r.startsAt || !r.endsAt || r.endsAt > r.startsAt, {
+    message: "The window must end after it starts",
+    path: ["endsAt"],
+  });
+
+export type QuotaRuleInput = z.infer<typeof quotaRuleSchema>;
+
+export interface QuotaRuleLike {
+  id: string;
+  feature: string;
+  role: string | null;
+  courseId: string | null;
+  dailyLimit: number | null;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  label: string | null;
+  updatedAt: Date;
+}
+
+/**
+ * The rule that governs a user right now: exam windows first, then course +
+ * role, course, role and catch-all rules; ties go to the most recently edited.
+ */
+export function pickQuotaRule<T extends QuotaRuleLike>(
+  rules: T[],
+  who: { role: string; courseId: string | null },
+  now: Date
+): T | null {
+  const score = (r: T) => (r.startsAt ? 4 : 0) + (r.courseId ? 2 : 0) + (r.role ? 1 : 0);
+  const matching = rules.filter(
+    (r) =>
+      (r.role === null || r.role === who.role) &&
+      (r.courseId === null || r.courseId === who.courseId) &&
+      (!r.startsAt || !r.endsAt || (now >= r.startsAt && now < r.endsAt))
+  );
+  matching.sort((a, b) => score(b) - score(a) || b.updatedAt.getTime() - a.updatedAt.getTime());
+  return matching[0] ?? null;
+}
+
+/** Start of the UTC day quotas are counted in. */
+export function getQuotaDay(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+/** e.g. "12.3k tokens" / "4 requests" */
+export function formatQuotaAmount(amount: number, unit: "tokens" | "requests"): string {
+  const count = amount >= 1_000_000
+    ? `${(amount / 1_000_000).toFixed(1)}M`
+    : amount >= 10_000
+      ? `${(amount / 1_000).toFixed(1)}k`
+      : amount.toLocaleString("en-US");
+  return `${count} ${amount === 1 ? unit.slice(0, -1) : unit}`;
+}
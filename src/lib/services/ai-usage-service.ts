@@ -0,0 +1,110 @@
+import { prisma } from "@/lib/prisma";
+import type { AIUsageReport } from "@/lib/ai";
+import {
+  computeAICost,
+  formatUsd,
+  parseAIPriceTable,
+  resolveAIPrices,
+  type AIFeature,
+} from "@/lib/ai/pricing";
+
+export interface AIUsageContext {
+  /** Who triggered the call */
+  userId: string | null;
+  courseId?: string | null;
+  feature: AIFeature;
+  /** Assistant message a chat reply was saved as */
+  messageId?: string;
+  /** ProblemSet / SubmissionAnswer the call produced */
+  jobId?: string;
+}
+
+/** Store the tokens and cost of one provider call. Never throws: accounting must not break the feature. */
+export async function recordAIUsage(context: AIUsageContext, usage: AIUsageReport): Promise<void> {
+  try {
+    const config = await prisma.aIConfig.findFirst({
+      where: { isActive: true },
+      select: { priceTable: true },
+    });
+    const prices = resolveAIPrices(parseAIPriceTable(config?.priceTable));
+    await prisma.aIUsage.create({
+      data: {
+        userId: context.userId,
+        courseId: context.courseId ?? null,
+        feature: context.feature,
+        provider: usage.provider,
+        model: usage.model,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        reasoningTokens: usage.reasoningTokens,
+        costUsd: computeAICost(usage, prices[usage.model]),
+        messageId: context.messageId,
+        jobId: context.jobId,
+      },
+    });
+  } catch (error) {
+    console.error("[ai-usage] Failed to record usage:", error);
+  }
+}
+
+/** Start of the current calendar month (UTC), when monthly budgets reset. */
+export function getBudgetPeriodStart(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+async function sumCost(where: { userId?: string }, since: Date): Promise<number> {
+  const result = await prisma.aIUsage.aggregate({
+    where: { ...where, createdAt: { gte: since } },
+    _sum: { costUsd: true },
+  });
+  return result._sum.costUsd ?? 0;
+}
+
+export interface AIBudgetCheck {
+  /** "throttled" past a soft budget, "blocked" past a hard one */
+  status: "ok" | "throttled" | "blocked";
+  /** Explanation for the user when not ok */
+  message: string | null;
+  monthSpendUsd: number;
+  userMonthSpendUsd: number;
+}
+
+/**
+ * Where this month's AI spend stands against the admin's budgets. The
+ * site-wide budgets apply to everyone; the per-user ones only to students, so
+ * staff keep grading and generating problems.
+ */
+export async function checkAIBudget(user: { id: string; role: string }): Promise<AIBudgetCheck> {
+  const config = await prisma.aIConfig.findFirst({
+    where: { isActive: true },
+    select: { softBudgetUsd: true, hardBudgetUsd: true, userSoftBudgetUsd: true, userHardBudgetUsd: true },
+  });
+  const since = getBudgetPeriodStart();
+  const isStudent = user.role === "STUDENT";
+  const hasUserBudget = isStudent && (config?.userSoftBudgetUsd != null || config?.userHardBudgetUsd != null);
+
+  const [monthSpendUsd, userMonthSpendUsd] = await Promise.all([
+    config?.softBudgetUsd != null || config?.hardBudgetUsd != null ? sumCost({}, since) : Promise.resolve(0),
+    hasUserBudget ? sumCost({ userId: user.id }, since) : Promise.resolve(0),
+  ]);
+  const result = (status: AIBudgetCheck["status"], message: string | null): AIBudgetCheck => ({
+    status,
+    message,
+    monthSpendUsd,
+    userMonthSpendUsd,
+  });
+
+  if (config?.hardBudgetUsd != null && monthSpendUsd >= config.hardBudgetUsd) {
+    return result("blocked", "AI features are paused: this month's AI budget has been used up. They resume at the start of next month.");
+  }
+  if (isStudent && config?.userHardBudgetUsd != null && userMonthSpendUsd >= config.userHardBudgetUsd) {
+    return result("blocked", `You have reached your monthly AI usage limit (${formatUsd(config.userHardBudgetUsd)}). It resets at the start of next month.`);
+  }
+  if (config?.softBudgetUsd != null && monthSpendUsd >= config.softBudgetUsd) {
+    return result("throttled", "AI usage is being throttled: this month's AI budget is nearly used up.");
+  }
+  if (isStudent && config?.userSoftBudgetUsd != null && userMonthSpendUsd >= config.userSoftBudgetUsd) {
+    return result("throttled", "You are close to your monthly AI usage limit, so your daily AI allowance is reduced.");
+  }
+  return result("ok", null);
+}
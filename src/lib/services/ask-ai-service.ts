@@ -0,0 +1,83 @@
+import { prisma } from "@/lib/prisma";
+import { isStaff } from "@/lib/constants";
+import { instanceSeed, instantiateQuestion } from "@/lib/grading/parameters";
+import { normalizeOptions, optionLabel } from "@/lib/grading/multiple-choice";
+import { getDiagramContent } from "@/lib/diagram-utils";
+import { assessLateness } from "@/lib/services/extension-service";
+import { getAttemptState } from "@/lib/services/attempt-service";
+import type { QuestionContext } from "@/lib/ai/question-context";
+
+interface AskAIAssignment {
+  id: string;
+  published: boolean;
+  allowAskAI: boolean;
+  totalPoints: number;
+  dueDate: Date | null;
+  latePolicy: unknown;
+  maxAttempts: number | null;
+}
+
+export interface AskAIAccess {
+  allowed: boolean;
+  /** Graded work the student can still submit: the tutor must guide, not solve */
+  socratic: boolean;
+}
+
+/** Whether a user may ask the tutor about an assignment's questions, and how. Staff are never restricted. */
+export async function getAskAIAccess(
+  assignment: AskAIAssignment,
+  user: { id: string; role: string }
+): Promise<AskAIAccess> {
+  if (isStaff(user.role)) return { allowed: true, socratic: false };
+  if (!assignment.allowAskAI) return { allowed: false, socratic: false };
+  if (!assignment.published || assignment.totalPoints <= 0) return { allowed: true, socratic: false };
+
+  const [lateness, attempts] = await Promise.all([
+    assessLateness(assignment, user.id),
+    getAttemptState(assignment, user.id),
+  ]);
+  return { allowed: true, socratic: lateness.accepted && attempts.canSubmit };
+}
+
+export const ASK_AI_DISABLED_MESSAGE = "Your instructor has turned off the AI tutor for this assignment.";
+
+/**
+ * Snapshot a question the way this student sees it (their own instance of a
+ * randomized question, with the multiple-choice options written out) together
+ * with their draft answer. Null when the question is not on the assignment.
+ */
+export async function buildQuestionContext(
+  assignmentId: string,
+  questionId: string,
+  userId: string,
+  draftAnswer: string
+): Promise<QuestionContext | null> {
+  const questions = await prisma.assignmentQuestion.findMany({
+    where: { assignmentId },
+    orderBy: { order: "asc" },
+  });
+  const index = questions.findIndex((q) => q.id === questionId);
+  if (index === -1) return null;
+
+  const submission = await prisma.submission.findFirst({
+    where: { assignmentId, userId, isDeleted: false },
+    select: { seed: true },
+    orderBy: { attempt: "desc" },
+  });
+  const question = instantiateQuestion(questions[index], submission?.seed ?? instanceSeed(assignmentId, userId));
+
+  let questionText = question.questionText;
+  if (question.questionType === "MC" && Array.isArray(question.options)) {
+    const options = normalizeOptions(question.options as Parameters<typeof normalizeOptions>[0]);
+    questionText += "\n\n" + options.map((opt, i) => `${optionLabel(i)}. ${opt.text}`).join("\n");
+  }
+
+  return {
+    questionId,
+    number: index + 1,
+    questionText,
+    diagram: getDiagramContent(question.diagram),
+    imageUrl: question.imageUrl,
+    draftAnswer: draftAnswer.slice(0, 10000),
+  };
+}
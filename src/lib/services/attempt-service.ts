@@ -0,0 +1,88 @@
+import { prisma } from "@/lib/prisma";
+import { instanceSeed } from "@/lib/grading/parameters";
+import { getTimeWindowEnd } from "@/lib/grading/time-limit";
+import { getExtraMinutes } from "@/lib/services/extension-service";
+
+export interface AttemptState {
+  /** The in-progress attempt, if the student has saved a draft */
+  draft: { id: string; attempt: number; seed: number | null; fileUrl: string | null; startedAt: Date | null } | null;
+  /** Final attempts handed in so far, withdrawn ones included */
+  used: number;
+  /** Number the next attempt (or the current draft) takes */
+  nextAttempt: number;
+  /** Seed of the student's earlier attempts, so parameterized values stay the same */
+  seed: number | null;
+  /** Whether another final attempt may still be submitted */
+  canSubmit: boolean;
+}
+
+/** Where a student stands on an assignment's attempt limit. */
+export async function getAttemptState(
+  assignment: { id: string; maxAttempts: number | null },
+  userId: string
+): Promise<AttemptState> {
+  const [draft, finals] = await Promise.all([
+    prisma.submission.findFirst({
+      where: { assignmentId: assignment.id, userId, isDraft: true, isDeleted: false },
+      select: { id: true, attempt: true, seed: true, fileUrl: true, startedAt: true },
+      orderBy: { attempt: "desc" },
+    }),
+    prisma.submission.findMany({
+      where: { assignmentId: assignment.id, userId, isDraft: false },
+      select: { attempt: true, seed: true },
+      orderBy: { attempt: "desc" },
+    }),
+  ]);
+  const used = finals.length;
+  return {
+    draft,
+    used,
+    nextAttempt: (finals[0]?.attempt ?? 0) + 1,
+    seed: draft?.seed ?? finals[0]?.seed ?? null,
+    canSubmit: assignment.maxAttempts === null || used < assignment.maxAttempts,
+  };
+}
+
+/** Error shown once every attempt is used up. */
+export function attemptsExhaustedMessage(maxAttempts: number | null): string {
+  return maxAttempts === 1
+    ? "This assignment is locked after submission. You cannot resubmit."
+    : `You have used all ${maxAttempts} attempts for this assignment.`;
+}
+
+export interface AttemptTimer {
+  startedAt: Date;
+  endsAt: Date;
+}
+
+/**
+ * Open (or resume) a timed attempt: the clock starts the first time the
+ * student opens the quiz and keeps running across reloads. Returns null when
+ * no attempt remains.
+ */
+export async function startTimedAttempt(
+  assignment: { id: string; maxAttempts: number | null; timeLimitMinutes: number },
+  userId: string
+): Promise<AttemptTimer | null> {
+  const attempts = await getAttemptState(assignment, userId);
+  if (!attempts.canSubmit) return null;
+
+  const startedAt = attempts.draft?.startedAt ?? new Date();
+  if (attempts.draft && !attempts.draft.startedAt) {
+    await prisma.submission.update({ where: { id: attempts.draft.id }, data: { startedAt } });
+  } else if (!attempts.draft) {
+    await prisma.submission.create({
+      data: {
+        assignmentId: assignment.id,
+        userId,
+        seed: attempts.seed ?? instanceSeed(assignment.id, userId),
+        isDraft: true,
+        attempt: attempts.nextAttempt,
+        startedAt,
+      },
+    });
+  }
+
+  const extraMinutes = await getExtraMinutes(assignment.id, userId);
+  return { startedAt, endsAt: getTimeWindowEnd(startedAt, assignment.timeLimitMinutes, extraMinutes) };
+}
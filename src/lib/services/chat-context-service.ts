@@ -0,0 +1,72 @@
+import { prisma } from "@/lib/prisma";
+import { summarizeConversation, type AIProviderAdapter, type ChatMessage } from "@/lib/ai";
+import {
+  assembleContext,
+  contextBudget,
+  countTokens,
+  summaryPrompt,
+  type ContextLog,
+  type ContextMessage,
+} from "@/lib/ai/context";
+import { recordAIUsage } from "@/lib/services/ai-usage-service";
+import { logger } from "@/lib/logger";
+
+interface ChatContextInput {
+  /** The branch being answered, root first, ending with the student's message */
+  path: ContextMessage[];
+  provider: AIProviderAdapter;
+  model: string;
+  systemPrompt: string;
+  userId: string;
+  courseId: string | null;
+}
+
+/**
+ * The messages and system prompt for one tutor reply, within the model's token
+ * budget. When older turns no longer fit they are summarized first (one extra
+ * call to the fast model) and the summary is stored on the branch for later
+ * turns; if that fails the reply goes ahead with the newest turns only.
+ */
+export async function buildChatContext(input: ChatContextInput): Promise<{
+  messages: ChatMessage[];
+  systemPrompt: string;
+  log: ContextLog;
+}> {
+  const { provider, userId, courseId } = input;
+  const path = input.path.slice();
+  const systemTokens = countTokens(input.systemPrompt, provider.tokens);
+  const budget = contextBudget(provider.contextWindow, systemTokens);
+
+  let context = assembleContext(path, provider.tokens, budget);
+  if (context.rollup.length > 0) {
+    const through = context.rollup[context.rollup.length - 1];
+    try {
+      const { summary, usage } = await summarizeConversation(
+        provider,
+        context.summary,
+        context.rollup.map((m) => ({ role: m.role as "user" | "assistant", content: m.content, imageUrls: m.imageUrls }))
+      );
+      await recordAIUsage({ userId, courseId, feature: "summary" }, usage);
+      if (summary) {
+        await prisma.message.update({ where: { id: through.id }, data: { contextSummary: summary } });
+        const index = path.findIndex((m) => m.id === through.id);
+        path[index] = { ...through, contextSummary: summary };
+        context = assembleContext(path, provider.tokens, budget);
+      }
+    } catch (error) {
+      logger.warn("Failed to summarize conversation", {
+        route: "/api/chat",
+        userId,
+        messageId: through.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const systemPrompt = context.summary ? `${input.systemPrompt}\n\n${summaryPrompt(context.summary)}` : input.systemPrompt;
+  return {
+    messages: context.messages,
+    systemPrompt,
+    log: { ...context.log, provider: provider.id, model: input.model, systemTokens, system: systemPrompt },
+  };
+}
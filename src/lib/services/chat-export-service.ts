@@ -0,0 +1,103 @@
+import fs from "fs";
+import path from "path";
+import JSZip from "jszip";
+import { prisma } from "@/lib/prisma";
+import { branchPath } from "@/lib/ai/branches";
+import type { ToolCallRecord } from "@/lib/ai/types";
+import {
+  conversationToLatex,
+  conversationToMarkdown,
+  exportFileName,
+  type ExportConversation,
+} from "@/lib/chat-export";
+
+/**
+ * Conversations to export, each as the branch the student last had on screen.
+ * `where` picks them, e.g. one id or everything a student has not deleted.
+ */
+export async function loadExportConversations(where: { id?: string; userId?: string }): Promise<ExportConversation[]> {
+  const conversations = await prisma.conversation.findMany({
+    where: { ...where, isDeleted: false },
+    orderBy: { createdAt: "asc" },
+    include: {
+      messages: {
+        orderBy: { createdAt: "asc" },
+        select: {
+          id: true,
+          parentId: true,
+          role: true,
+          content: true,
+          imageUrls: true,
+          model: true,
+          toolCalls: true,
+          author: { select: { name: true } },
+          createdAt: true,
+        },
+      },
+    },
+  });
+
+  return conversations.map((c) => ({
+    id: c.id,
+    title: c.title,
+    createdAt: c.createdAt,
+    messages: branchPath(c.messages, c.activeLeafId).map((m) => ({
+      role: m.role,
+      content: m.content,
+      imageUrls: m.imageUrls,
+      model: m.model,
+      toolCalls: (m.toolCalls as ToolCallRecord[] | null) ?? [],
+      author: m.author ? m.author.name || "Staff" : null,
+      createdAt: m.createdAt,
+    })),
+  }));
+}
+
+/** An uploaded file under `public/`, or null if the URL points anywhere else */
+function readUpload(url: string): Buffer | null {
+  const publicDir = path.resolve(process.cwd(), "public");
+  const resolved = path.resolve(publicDir, url.replace(/^\//, ""));
+  if (!resolved.startsWith(publicDir + path.sep)) return null;
+  try {
+    return fs.readFileSync(resolved);
+  } catch {
+    return null;
+  }
+}
+
+function addLatex(folder: JSZip, conversation: ExportConversation): void {
+  const { tex, assets } = conversationToLatex(conversation);
+  folder.file("conversation.tex", tex);
+  const images = folder.folder("images")!;
+  for (const asset of assets) {
+    if ("svg" in asset) {
+      images.file(asset.name, asset.svg);
+    } else {
+      const data = readUpload(asset.url);
+      if (data) images.file(asset.name, data);
+    }
+  }
+}
+
+/**
+ * A zip of conversations: one Markdown file each, or one LaTeX folder each
+ * (`conversation.tex` with its `images/`). A single LaTeX export is the
+ * folder's contents at the top level.
+ */
+export async function buildChatExportZip(
+  conversations: ExportConversation[],
+  format: "markdown" | "latex",
+  origin: string
+): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  if (format === "latex" && conversations.length === 1) {
+    addLatex(zip, conversations[0]);
+  } else {
+    conversations.forEach((conversation, i) => {
+      const name = exportFileName(conversation, i);
+      if (format === "markdown") zip.file(`${name}.md`, conversationToMarkdown(conversation, origin));
+      else addLatex(zip.folder(name)!, conversation);
+    });
+  }
+  return zip.generateAsync({ type: "arraybuffer" });
+}
@@ -0,0 +1,349 @@
+import { prisma } from "@/lib/prisma";
+import {
+  streamChat,
+  generateConversationTitle,
+  parseToolArguments,
+  type AIProviderAdapter,
+  type AIUsageReport,
+  type ChatMessage,
+  type ChatTool,
+  type ToolCallRecord,
+  type WebSource,
+} from "@/lib/ai";
+import { recordAIUsage } from "@/lib/services/ai-usage-service";
+import { consumeQuota } from "@/lib/services/quota-service";
+import { citedIn, type Citation } from "@/lib/knowledge/citations";
+import { TAGS_PER_CONVERSATION, topicTags, uniqueTags } from "@/lib/chat-organize";
+import { logger } from "@/lib/logger";
+
+/** One server-sent event to the chat client, e.g. `{ type: "delta", content }` */
+export type ChatStreamEvent = { type: string } & Record<string, unknown>;
+
+interface Generation {
+  userId: string;
+  /** Everything emitted so far, replayed to a client that reconnects */
+  events: ChatStreamEvent[];
+  listeners: Set<(event: ChatStreamEvent) => void>;
+  abort: AbortController;
+  finished: boolean;
+}
+
+// Replies this server instance is generating, by assistant message id
+const generations = new Map<string, Generation>();
+
+/** How often partial content is written to the database */
+const FLUSH_INTERVAL_MS = 1500;
+/** How long a finished generation stays replayable from memory */
+const REPLAY_TTL_MS = 30_000;
+/** A STREAMING reply untouched this long lost its generator, e.g. to a server restart */
+const STALE_AFTER_MS = 5 * 60_000;
+
+export interface ChatGenerationInput {
+  /** The assistant message, created with status STREAMING */
+  messageId: string;
+  conversationId: string;
+  userId: string;
+  courseId: string | null;
+  messages: ChatMessage[];
+  provider: AIProviderAdapter;
+  model: string;
+  systemPrompt?: string;
+  /** Course materials offered to the model */
+  citations: Citation[];
+  /** Tools the model may call; none in exam mode */
+  tools: ChatTool[];
+  /** The opening message of a new conversation, to title it from */
+  titleFrom: string | null;
+}
+
+function friendlyError(message: string): string {
+  if (message.includes("rate limit") || message.includes("429")) {
+    return "The AI service is currently rate limited. Please wait a moment and try again.";
+  }
+  if (message.includes("401") || message.includes("authentication") || message.includes("API key")) {
+    return "AI service authentication error. Please contact an administrator to check API key configuration.";
+  }
+  return "I'm sorry, I encountered an error while processing your request. Please try again shortly.";
+}
+
+async function generate(input: ChatGenerationInput, generation: Generation): Promise<void> {
+  const { messageId, conversationId, userId, courseId } = input;
+  const emit = (event: ChatStreamEvent) => {
+    generation.events.push(event);
+    generation.listeners.forEach((listener) => listener(event));
+  };
+
+  let content = "";
+  let reasoning = "";
+  const sources: WebSource[] = [];
+  const toolCalls: ToolCallRecord[] = [];
+  let usage: AIUsageReport | null = null;
+  let lastFlush = Date.now();
+
+  // Partial content survives a crash and lets other instances follow along
+  const flush = async () => {
+    lastFlush = Date.now();
+    const { count } = await prisma.message.updateMany({
+      where: { id: messageId, status: "STREAMING" },
+      data: { content, reasoning: reasoning || null, ...(toolCalls.length > 0 && { toolCalls }) },
+    });
+    // Stopped through another server instance
+    if (count === 0) generation.abort.abort();
+  };
+
+  if (input.citations.length > 0) emit({ type: "citations", citations: input.citations });
+
+  try {
+    for await (const event of streamChat(
+      input.messages,
+      input.provider,
+      input.model,
+      input.systemPrompt,
+      generation.abort.signal,
+      input.tools
+    )) {
+      if (event.type === "thinking") {
+        reasoning += event.content;
+        emit({ type: "thinking", content: event.content });
+      } else if (event.type === "source") {
+        // Vendors cite the same page once per passage that uses it
+        if (!sources.some((s) => s.url === event.source.url)) {
+          sources.push(event.source);
+          emit({ type: "source", source: event.source });
+        }
+      } else if (event.type === "tool_call") {
+        const call: ToolCallRecord = {
+          id: event.call.id,
+          name: event.call.name,
+          arguments: parseToolArguments(event.call.arguments),
+        };
+        toolCalls.push(call);
+        emit({ type: "tool_call", call: { ...call } });
+      } else if (event.type === "tool_result") {
+        const call = toolCalls.find((c) => c.id === event.callId);
+        if (call) call.result = event.result;
+        emit({ type: "tool_result", callId: event.callId, result: event.result });
+      } else if (event.type === "delta") {
+        content += event.content;
+        emit({ type: "delta", content: event.content });
+      } else if (event.type === "done") {
+        usage = event.usage;
+      } else if (event.type === "error") {
+        usage = event.usage;
+        logger.error("AI streaming error", {
+          route: "/api/chat",
+          userId,
+          provider: input.provider.id,
+          error: event.message,
+        });
+        content = friendlyError(event.message);
+        emit({ type: "delta", content });
+      }
+      if (Date.now() - lastFlush > FLUSH_INTERVAL_MS) {
+        await flush().catch((err) => logger.warn("Failed to save partial reply", { userId, messageId, error: String(err) }));
+      }
+    }
+  } catch (streamError) {
+    // Provider failures arrive as error events; this is a bug in the plumbing
+    logger.error("Chat stream error", {
+      route: "/api/chat",
+      userId,
+      error: streamError instanceof Error ? streamError.message : String(streamError),
+    });
+  }
+
+  const status = generation.abort.signal.aborted ? "INTERRUPTED" : "COMPLETE";
+  try {
+    const citations = citedIn(content, input.citations);
+    await prisma.message.update({
+      where: { id: messageId },
+      data: {
+        content,
+        status,
+        reasoning: reasoning || null,
+        ...(citations.length > 0 && { citations }),
+        ...(sources.length > 0 && { sources }),
+        ...(toolCalls.length > 0 && { toolCalls }),
+      },
+    });
+
+    if (usage) {
+      await recordAIUsage({ userId, courseId, feature: "chat", messageId }, usage);
+      await consumeQuota(userId, "chat", usage.inputTokens + usage.outputTokens);
+    }
+
+    await prisma.conversation.update({
+      where: { id: conversationId },
+      data: { updatedAt: new Date() },
+    });
+
+    // A new conversation is tagged with its topic once; after that the tags are the student's
+    const topics = input.titleFrom !== null && status === "COMPLETE" ? topicTags(input.titleFrom, content) : [];
+    if (topics.length > 0) {
+      const { tags } = await prisma.conversation.findUniqueOrThrow({ where: { id: conversationId }, select: { tags: true } });
+      const merged = uniqueTags([...tags, ...topics]).slice(0, TAGS_PER_CONVERSATION);
+      await prisma.conversation.update({ where: { id: conversationId }, data: { tags: merged } });
+      emit({ type: "tags", conversationId, tags: merged });
+    }
+  } catch (dbError) {
+    logger.error("Failed to save assistant message to DB", {
+      route: "/api/chat",
+      userId,
+      conversationId,
+      error: dbError instanceof Error ? dbError.message : String(dbError),
+    });
+  }
+
+  emit({ type: "done", status: status.toLowerCase() });
+
+  if (input.titleFrom !== null && content) {
+    try {
+      const { title, usage: titleUsage } = await generateConversationTitle(input.provider, input.titleFrom, content);
+      await recordAIUsage({ userId, courseId, feature: "title" }, titleUsage);
+      if (title) {
+        await prisma.conversation.update({ where: { id: conversationId }, data: { title } });
+      }
+    } catch (titleError) {
+      logger.warn("Failed to generate conversation title", {
+        route: "/api/chat",
+        userId,
+        conversationId,
+        error: titleError instanceof Error ? titleError.message : String(titleError),
+      });
+    }
+  }
+}
+
+/**
+ * Generate a reply in the background, independent of any HTTP connection:
+ * clients follow it with `followChatGeneration`, and closing the tab neither
+ * stops it nor loses the answer.
+ */
+export function startChatGeneration(input: ChatGenerationInput): void {
+  const generation: Generation = {
+    userId: input.userId,
+    events: [],
+    listeners: new Set(),
+    abort: new AbortController(),
+    finished: false,
+  };
+  generations.set(input.messageId, generation);
+  generate(input, generation).finally(() => {
+    generation.finished = true;
+    setTimeout(() => generations.delete(input.messageId), REPLAY_TTL_MS);
+  });
+}
+
+function encodeEvents(
+  subscribe: (send: (event: ChatStreamEvent) => void) => (() => void) | void
+): ReadableStream {
+  const encoder = new TextEncoder();
+  let stop: (() => void) | void;
+  return new ReadableStream({
+    start(controller) {
+      let closed = false;
+      stop = subscribe((event) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        if (event.type === "done") {
+          closed = true;
+          controller.close();
+          // Deferred: `stop` is not assigned yet when the whole reply is replayed at once
+          queueMicrotask(() => stop?.());
+        }
+      });
+    },
+    cancel() {
+      // The client went away; the generation carries on
+      stop?.();
+    },
+  });
+}
+
+/**
+ * A reply this instance is generating, as server-sent events: `prelude`, then
+ * everything generated so far, then live events until `done`. Null when the
+ * reply is not (or no longer) in this instance's memory.
+ */
+export function followChatGeneration(messageId: string, userId: string, prelude: ChatStreamEvent[] = []): ReadableStream | null {
+  const generation = generations.get(messageId);
+  if (!generation || generation.userId !== userId) return null;
+  return encodeEvents((send) => {
+    prelude.forEach(send);
+    generation.events.slice().forEach(send);
+    if (generation.finished) return;
+    generation.listeners.add(send);
+    return () => generation.listeners.delete(send);
+  });
+}
+
+/**
+ * Follow a reply through the database when another instance is generating it
+ * (or it already finished): `snapshot` events carry the whole content so far.
+ * A reply left STREAMING with no progress for a long time is marked interrupted.
+ */
+export function followStoredChatGeneration(messageId: string): ReadableStream {
+  return encodeEvents((send) => {
+    let sent: string | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let stopped = false;
+
+    const poll = async () => {
+      try {
+        const message = await prisma.message.findUnique({
+          where: { id: messageId },
+          select: { content: true, reasoning: true, sources: true, toolCalls: true, status: true, updatedAt: true },
+        });
+        if (!message) {
+          send({ type: "done", status: "interrupted" });
+          return;
+        }
+        // Tool calls change the saved row before any text does
+        const state = `${message.content}\u0000${JSON.stringify(message.toolCalls)}`;
+        if (state !== sent) {
+          sent = state;
+          send({
+            type: "snapshot",
+            content: message.content,
+            thinking: message.reasoning ?? "",
+            sources: message.sources ?? [],
+            toolCalls: message.toolCalls ?? [],
+          });
+        }
+        if (message.status === "STREAMING" && Date.now() - message.updatedAt.getTime() > STALE_AFTER_MS) {
+          await prisma.message.updateMany({ where: { id: messageId, status: "STREAMING" }, data: { status: "INTERRUPTED" } });
+          send({ type: "done", status: "interrupted" });
+          return;
+        }
+        if (message.status !== "STREAMING") {
+          send({ type: "done", status: message.status.toLowerCase() });
+          return;
+        }
+      } catch (error) {
+        logger.warn("Failed to poll reply", { messageId, error: String(error) });
+      }
+      if (!stopped) timer = setTimeout(poll, FLUSH_INTERVAL_MS);
+    };
+
+    poll();
+    return () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    };
+  });
+}
+
+/**
+ * Stop a reply the user is waiting on. Partial content is kept and the
+ * message marked INTERRUPTED; a generator on another instance notices at its
+ * next save. Returns false when there was nothing to stop.
+ */
+export async function cancelChatGeneration(messageId: string, userId: string): Promise<boolean> {
+  const { count } = await prisma.message.updateMany({
+    where: { id: messageId, status: "STREAMING", conversation: { userId } },
+    data: { status: "INTERRUPTED" },
+  });
+  const generation = generations.get(messageId);
+  if (generation?.userId === userId) generation.abort.abort();
+  return count > 0;
+}
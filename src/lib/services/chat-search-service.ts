@@ -0,0 +1,109 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { MATCH_END, MATCH_START, markExcerpt, type MessageSearchHit } from "@/lib/chat-search";
+
+/**
+ * Full-text search over chat messages with Postgres text search: ranked by
+ * `ts_rank_cd`, with `ts_headline` snippets. The "english" configuration
+ * stems words ("forces" finds "force") and splits LaTeX into its words, so
+ * `\frac{v^2}{r}` is found by "frac". A plain substring match backs it up for
+ * what the parser cannot split, such as Chinese or `v^2`, for queries of
+ * three or more characters. Each kind of match is found through its own index
+ * (see the Message model) and the two are merged, since an OR across both
+ * would scan every message. Every branch is searched, not only the one on
+ * screen.
+ */
+
+const HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxWords=28, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`;
+/** Characters of context either side of a substring match */
+const EXCERPT_CONTEXT = 80;
+/** Trigram indexes cannot serve shorter substrings, so those are only matched as words */
+const MIN_SUBSTRING_LENGTH = 3;
+
+/** `ILIKE` pattern matching `text` anywhere, with its wildcards taken literally */
+function containsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+interface SearchRow {
+  messageId: string;
+  conversationId: string;
+  conversationTitle: string;
+  role: string;
+  createdAt: Date;
+  userId: string;
+  userName: string | null;
+  userEmail: string;
+  rank: number;
+  headline: string | null;
+  excerpt: string | null;
+  excerptStart: number;
+  contentLength: number;
+}
+
+export interface MessageSearchOptions {
+  query: string;
+  /** Only this user's conversations */
+  userId?: string;
+  /** Q&A history: deleted conversations too, and whose each hit is */
+  staff?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export async function searchMessages({ query, userId, staff = false, limit = 20, offset = 0 }: MessageSearchOptions): Promise<{
+  hits: MessageSearchHit[];
+  hasMore: boolean;
+}> {
+  const q = query.trim();
+  const vector = Prisma.sql`to_tsvector('english', m."content")`;
+  const position = Prisma.sql`strpos(lower(m."content"), lower(${q}))`;
+  const conditions: Prisma.Sql[] = [];
+  if (userId) conditions.push(Prisma.sql`c."userId" = ${userId}`);
+  if (!staff) conditions.push(Prisma.sql`c."isDeleted" = false`);
+
+  // `@@` on the vector expression uses the full-text index, `ILIKE` the trigram one
+  const substring =
+    Array.from(q).length >= MIN_SUBSTRING_LENGTH
+      ? Prisma.sql`UNION SELECT m."id" FROM "Message" m WHERE m."content" ILIKE ${containsPattern(q)}`
+      : Prisma.empty;
+  const rows = await prisma.$queryRaw<SearchRow[]>`
+    WITH query AS (SELECT websearch_to_tsquery('english', ${q}) AS tsq),
+    matches AS (
+      SELECT m."id" FROM "Message" m CROSS JOIN query WHERE ${vector} @@ query.tsq
+      ${substring}
+    )
+    SELECT m."id" AS "messageId", m."conversationId", c."title" AS "conversationTitle", m."role", m."createdAt",
+      u."id" AS "userId", u."name" AS "userName", u."email" AS "userEmail",
+      (ts_rank_cd(${vector}, query.tsq) + CASE WHEN ${position} > 0 THEN 0.1 ELSE 0 END)::float8 AS rank,
+      CASE WHEN ${vector} @@ query.tsq THEN ts_headline('english', m."content", query.tsq, ${HEADLINE_OPTIONS}) END AS headline,
+      CASE WHEN ${position} > 0 THEN substr(m."content", greatest(${position} - ${EXCERPT_CONTEXT}, 1), ${2 * EXCERPT_CONTEXT} + length(${q})) END AS excerpt,
+      greatest(${position} - ${EXCERPT_CONTEXT}, 1)::int AS "excerptStart",
+      length(m."content")::int AS "contentLength"
+    FROM matches
+    JOIN "Message" m ON m."id" = matches."id"
+    JOIN "Conversation" c ON c."id" = m."conversationId"
+    JOIN "User" u ON u."id" = c."userId"
+    CROSS JOIN query
+    ${conditions.length > 0 ? Prisma.sql`WHERE ${Prisma.join(conditions, " AND ")}` : Prisma.empty}
+    ORDER BY rank DESC, m."createdAt" DESC
+    LIMIT ${limit + 1} OFFSET ${offset}
+  `;
+
+  const hits = rows.slice(0, limit).map((row) => ({
+    messageId: row.messageId,
+    conversationId: row.conversationId,
+    conversationTitle: row.conversationTitle,
+    role: row.role,
+    snippet:
+      row.headline && row.headline.includes(MATCH_START)
+        ? row.headline
+        : row.excerpt
+          ? markExcerpt(row.excerpt, q, row.excerptStart <= 1, row.excerptStart + row.excerpt.length > row.contentLength)
+          : row.headline ?? "",
+    rank: row.rank,
+    createdAt: row.createdAt.toISOString(),
+    ...(staff && { user: { id: row.userId, name: row.userName || "Unknown", email: row.userEmail } }),
+  }));
+  return { hits, hasMore: rows.length > limit };
+}
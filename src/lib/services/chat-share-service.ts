@@ -0,0 +1,126 @@
+import { randomBytes } from "crypto";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { branchPath } from "@/lib/ai/branches";
+import { isStaff } from "@/lib/constants";
+import { getCourseRole, isCourseStaff, listUserCourses } from "@/lib/courses";
+
+/**
+ * Read-only links to conversations. A link shows the conversation as it grows,
+ * or a snapshot up to one message; an escalated link also lands in the staff
+ * inbox, where a TA can answer in the thread itself.
+ */
+
+export const SHARE_NOTE_MAX = 2000;
+
+export function createShareToken(): string {
+  return randomBytes(18).toString("base64url");
+}
+
+export const shareSelect = {
+  id: true,
+  token: true,
+  messageId: true,
+  escalatedAt: true,
+  note: true,
+  resolvedAt: true,
+  createdAt: true,
+} as const;
+
+interface Viewer {
+  id: string;
+  role: string;
+}
+
+/**
+ * Whether the viewer answers this student's escalations: a TA or professor
+ * in a course the student takes. Admins answer every one.
+ */
+export async function canAnswerEscalation(viewer: Viewer, studentId: string): Promise<boolean> {
+  if (!isStaff(viewer.role)) return false;
+  if (viewer.role === "ADMIN") return true;
+  const enrollments = await prisma.enrollment.findMany({
+    where: { userId: studentId, role: "STUDENT", droppedAt: null },
+    select: { courseId: true },
+  });
+  for (const { courseId } of enrollments) {
+    if (isCourseStaff(await getCourseRole(viewer, courseId))) return true;
+  }
+  return false;
+}
+
+/** The escalations in a staff member's inbox: from students in the courses they teach */
+export async function staffInboxWhere(viewer: Viewer): Promise<Prisma.ConversationShareWhereInput> {
+  if (viewer.role === "ADMIN") return {};
+  const courseIds = (await listUserCourses(viewer)).filter((c) => isCourseStaff(c.role)).map((c) => c.id);
+  return {
+    conversation: {
+      user: { enrollments: { some: { courseId: { in: courseIds }, role: "STUDENT", droppedAt: null } } },
+    },
+  };
+}
+
+/**
+ * The conversation behind a link and the messages the viewer gets to see, or
+ * null for a revoked link or a deleted conversation. Course staff answering
+ * an escalation see the live branch, past any snapshot, so their replies and the
+ * student's follow-ups show up.
+ */
+export async function loadSharedConversation(token: string, viewer: Viewer) {
+  const share = await prisma.conversationShare.findUnique({
+    where: { token },
+    include: {
+      createdBy: { select: { name: true } },
+      resolvedBy: { select: { name: true } },
+      conversation: {
+        include: {
+          user: { select: { name: true } },
+          messages: {
+            orderBy: { createdAt: "asc" },
+            include: { author: { select: { name: true, role: true } } },
+          },
+        },
+      },
+    },
+  });
+  if (!share || share.revokedAt || share.conversation.isDeleted) return null;
+
+  const { conversation } = share;
+  const answering = share.escalatedAt !== null && (await canAnswerEscalation(viewer, conversation.userId));
+  const live = !share.messageId || answering;
+  const leafId = live ? conversation.activeLeafId : share.messageId;
+  return {
+    share,
+    conversation,
+    messages: branchPath(conversation.messages, leafId),
+    isOwner: conversation.userId === viewer.id,
+    canReply: answering,
+  };
+}
+
+/**
+ * A staff reply in the student's thread: an assistant turn marked with its
+ * author, added to the end of the branch the student has open.
+ */
+export async function addStaffReply(conversationId: string, authorId: string, content: string) {
+  const conversation = await prisma.conversation.findUniqueOrThrow({
+    where: { id: conversationId },
+    select: { activeLeafId: true, messages: { select: { id: true, parentId: true, createdAt: true } } },
+  });
+  const path = branchPath(conversation.messages, conversation.activeLeafId);
+  const message = await prisma.message.create({
+    data: {
+      conversationId,
+      parentId: path.length > 0 ? path[path.length - 1].id : null,
+      role: "assistant",
+      content,
+      authorId,
+    },
+    include: { author: { select: { name: true, role: true } } },
+  });
+  await prisma.conversation.update({
+    where: { id: conversationId },
+    data: { activeLeafId: message.id },
+  });
+  return message;
+}
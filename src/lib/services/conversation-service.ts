@@ -0,0 +1,93 @@
+import { prisma } from "@/lib/prisma";
+import { MAX_ACTIVE_CONVERSATIONS } from "@/lib/constants";
+
+/**
+ * The chat sidebar's view of a student's history: active conversations up to
+ * the limit, their folders, and the archive, which is paged in on demand.
+ */
+
+export const ARCHIVE_PAGE_SIZE = 50;
+
+const conversationSummarySelect = {
+  id: true,
+  title: true,
+  updatedAt: true,
+  folderId: true,
+  tags: true,
+  pinnedAt: true,
+  archivedAt: true,
+} as const;
+
+interface ConversationSummaryRow {
+  id: string;
+  title: string;
+  updatedAt: Date;
+  folderId: string | null;
+  tags: string[];
+  pinnedAt: Date | null;
+  archivedAt: Date | null;
+}
+
+function toConversationSummary(c: ConversationSummaryRow) {
+  return {
+    id: c.id,
+    title: c.title,
+    updatedAt: c.updatedAt.toISOString(),
+    folderId: c.folderId,
+    tags: c.tags,
+    pinned: c.pinnedAt !== null,
+    archived: c.archivedAt !== null,
+  };
+}
+
+/** Active conversations, newest first, and `openId` even if it is archived so the page it opens has it */
+export async function listConversations(userId: string, openId?: string) {
+  const [conversations, open] = await Promise.all([
+    prisma.conversation.findMany({
+      where: { userId, isDeleted: false, archivedAt: null },
+      orderBy: { updatedAt: "desc" },
+      take: MAX_ACTIVE_CONVERSATIONS,
+      select: conversationSummarySelect,
+    }),
+    openId
+      ? prisma.conversation.findFirst({
+          where: { id: openId, userId, isDeleted: false, archivedAt: { not: null } },
+          select: conversationSummarySelect,
+        })
+      : null,
+  ]);
+  return (open ? [...conversations, open] : conversations).map(toConversationSummary);
+}
+
+/** One page of the archive, most recently archived first */
+export async function listArchivedConversations(userId: string, offset = 0) {
+  const conversations = await prisma.conversation.findMany({
+    where: { userId, isDeleted: false, archivedAt: { not: null } },
+    orderBy: { archivedAt: "desc" },
+    skip: offset,
+    take: ARCHIVE_PAGE_SIZE + 1,
+    select: conversationSummarySelect,
+  });
+  return {
+    conversations: conversations.slice(0, ARCHIVE_PAGE_SIZE).map(toConversationSummary),
+    hasMore: conversations.length > ARCHIVE_PAGE_SIZE,
+  };
+}
+
+export async function getConversationSummary(id: string) {
+  const conversation = await prisma.conversation.findUniqueOrThrow({ where: { id }, select: conversationSummarySelect });
+  return toConversationSummary(conversation);
+}
+
+/** Conversations that count against `MAX_ACTIVE_CONVERSATIONS` */
+export function countActiveConversations(userId: string): Promise<number> {
+  return prisma.conversation.count({ where: { userId, isDeleted: false, archivedAt: null } });
+}
+
+export function listFolders(userId: string) {
+  return prisma.conversationFolder.findMany({
+    where: { userId },
+    orderBy: { name: "asc" },
+    select: { id: true, name: true },
+  });
+}
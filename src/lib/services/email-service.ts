@@ -35,7 +35,7 @@ export interface SendBulkEmailsParams {
   message: string;
   senderName: string;
   /** Custom HTML builder per recipient. Defaults to `notificationEmail`. */
-  htmlBuilder?: (user: { name: string | null; email: string }) => string;
+  htmlBuilder?: (user: { id: string; name: string | null; email: string }) => string;
 }
 
 export interface SendBulkEmailsResult {
@@ -0,0 +1,92 @@
+import { prisma } from "@/lib/prisma";
+import {
+  applyLatePenalty,
+  evaluateLateness,
+  parseLatePolicy,
+  removeLatePenalty,
+  type LateEvaluation,
+} from "@/lib/grading/late-policy";
+
+interface DueAssignment {
+  id: string;
+  dueDate: Date | null;
+  latePolicy: unknown;
+}
+
+/** The student's due date: their extension if staff granted one, else the assignment's. */
+export async function getEffectiveDueDate(assignment: DueAssignment, userId: string): Promise<Date | null> {
+  const extension = await prisma.dueDateExtension.findUnique({
+    where: { assignmentId_userId: { assignmentId: assignment.id, userId } },
+    select: { dueDate: true },
+  });
+  return extension?.dueDate ?? assignment.dueDate;
+}
+
+/** Extra minutes staff granted the student on a timed quiz. */
+export async function getExtraMinutes(assignmentId: string, userId: string): Promise<number> {
+  const extension = await prisma.dueDateExtension.findUnique({
+    where: { assignmentId_userId: { assignmentId, userId } },
+    select: { extraMinutes: true },
+  });
+  return extension?.extraMinutes ?? 0;
+}
+
+/** Lateness of a submission made now (or at `at`) under the assignment's late policy. */
+export async function assessLateness(
+  assignment: DueAssignment,
+  userId: string,
+  at: Date = new Date()
+): Promise<LateEvaluation & { dueDate: Date | null }> {
+  const dueDate = await getEffectiveDueDate(assignment, userId);
+  return { ...evaluateLateness(parseLatePolicy(assignment.latePolicy), dueDate, at), dueDate };
+}
+
+/**
+ * Re-derive the lateness of a student's final attempts after their due date
+ * changed (an extension was granted or revoked), rescaling graded totals to
+ * the new penalty. Returns the latest attempt's lateness, or null without one.
+ */
+export async function reassessSubmission(
+  assignment: DueAssignment,
+  userId: string
+): Promise<{ lateMinutes: number; latePenalty: number } | null> {
+  const submissions = await prisma.submission.findMany({
+    where: { assignmentId: assignment.id, userId, isDraft: false, isDeleted: false },
+    include: { answers: { select: { score: true } } },
+    orderBy: { attempt: "asc" },
+  });
+  if (submissions.length === 0) return null;
+
+  const dueDate = await getEffectiveDueDate(assignment, userId);
+  const policy = parseLatePolicy(assignment.latePolicy);
+  let latest = { lateMinutes: 0, latePenalty: 0 };
+  for (const submission of submissions) {
+    const lateness = evaluateLateness(policy, dueDate, submission.submittedAt);
+    let totalScore = submission.totalScore;
+    if (totalScore !== null && lateness.penalty !== submission.latePenalty) {
+      const earned =
+        removeLatePenalty(totalScore, submission.latePenalty) ??
+        submission.answers.reduce((sum, a) => sum + (a.score || 0), 0);
+      totalScore = applyLatePenalty(earned, lateness.penalty);
+    }
+
+    await prisma.submission.update({
+      where: { id: submission.id },
+      data: { lateMinutes: lateness.minutesLate, latePenalty: lateness.penalty, totalScore },
+    });
+    latest = { lateMinutes: lateness.minutesLate, latePenalty: lateness.penalty };
+  }
+  return latest;
+}
+
+/** `reassessSubmission` for every student who submitted, after the due date or late policy changed. */
+export async function reassessAssignment(assignment: DueAssignment): Promise<void> {
+  const submissions = await prisma.submission.findMany({
+    where: { assignmentId: assignment.id, isDraft: false, isDeleted: false },
+    select: { userId: true },
+    distinct: ["userId"],
+  });
+  for (const { userId } of submissions) {
+    await reassessSubmission(assignment, userId);
+  }
+}
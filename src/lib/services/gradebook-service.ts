@@ -0,0 +1,112 @@
+import { prisma } from "@/lib/prisma";
+import { parseLetterScale } from "@/lib/grading/gradebook";
+import { parseAttemptScoring, scoreAttempts } from "@/lib/grading/attempts";
+import type {
+  GradebookAssignment,
+  GradebookCategory,
+  GradebookCell,
+  LetterGradeThreshold,
+} from "@/types/gradebook";
+
+export interface GradebookData {
+  course: { id: string; name: string; code: string | null } | null;
+  categories: GradebookCategory[];
+  assignments: GradebookAssignment[];
+  letterScale: LetterGradeThreshold[];
+  /** Cells per student ID, in assignment order */
+  cells: Map<string, GradebookCell[]>;
+}
+
+/**
+ * Load the published assignments of a course (or of no course) with each
+ * listed student's score, submission state and staff override per assignment.
+ */
+export async function loadGradebook(courseId: string | null, userIds: string[]): Promise<GradebookData> {
+  const [course, categories, assignments] = await Promise.all([
+    courseId
+      ? prisma.course.findUnique({ where: { id: courseId }, select: { id: true, name: true, code: true, letterScale: true } })
+      : null,
+    courseId
+      ? prisma.gradeCategory.findMany({ where: { courseId }, orderBy: [{ order: "asc" }, { createdAt: "asc" }] })
+      : [],
+    prisma.assignment.findMany({
+      where: { courseId, published: true, isDeleted: false },
+      select: { id: true, title: true, type: true, totalPoints: true, dueDate: true, categoryId: true, attemptScoring: true },
+      orderBy: [{ dueDate: { sort: "asc", nulls: "last" } }, { createdAt: "asc" }],
+    }),
+  ]);
+
+  const assignmentIds = assignments.map((a) => a.id);
+  const [submissions, overrides, extensions] = await Promise.all([
+    prisma.submission.findMany({
+      where: { assignmentId: { in: assignmentIds }, userId: { in: userIds }, isDraft: false, isDeleted: false },
+      select: { id: true, assignmentId: true, userId: true, attempt: true, totalScore: true, gradedAt: true },
+    }),
+    prisma.gradeOverride.findMany({
+      where: { assignmentId: { in: assignmentIds }, userId: { in: userIds } },
+    }),
+    prisma.dueDateExtension.findMany({
+      where: { assignmentId: { in: assignmentIds }, userId: { in: userIds } },
+      select: { assignmentId: true, userId: true, dueDate: true },
+    }),
+  ]);
+
+  const attemptsByKey = new Map<string, (typeof submissions)[number][]>();
+  for (const s of submissions) {
+    const key = `${s.assignmentId}:${s.userId}`;
+    attemptsByKey.set(key, [...(attemptsByKey.get(key) ?? []), s]);
+  }
+  const overrideByKey = new Map(overrides.map((o) => [`${o.assignmentId}:${o.userId}`, o]));
+  const extensionByKey = new Map(extensions.map((e) => [`${e.assignmentId}:${e.userId}`, e]));
+
+  const now = new Date();
+  const cells = new Map<string, GradebookCell[]>();
+  for (const userId of userIds) {
+    cells.set(userId, assignments.map((a) => {
+      const attempts = attemptsByKey.get(`${a.id}:${userId}`) ?? [];
+      const override = overrideByKey.get(`${a.id}:${userId}`);
+      // Same rule as getEffectiveDueDate: an extension replaces the due date
+      const dueDate = extensionByKey.get(`${a.id}:${userId}`)?.dueDate ?? a.dueDate;
+      // Attempts combine under the assignment's scoring rule
+      const result = scoreAttempts(parseAttemptScoring(a.attemptScoring), attempts);
+      const submissionScore = result.score;
+      const score = override?.score ?? submissionScore;
+
+      let status: GradebookCell["status"];
+      if (override?.excused) status = "excused";
+      else if (score !== null) status = "graded";
+      else if (attempts.length > 0) status = "pending";
+      else if (dueDate && dueDate < now) status = "missing";
+      else status = "upcoming";
+
+      return {
+        assignmentId: a.id,
+        score,
+        status,
+        submissionId: result.submissionId,
+        submissionScore,
+        overridden: override?.score !== null && override?.score !== undefined,
+        excused: override?.excused ?? false,
+        note: override?.note ?? null,
+      };
+    }));
+  }
+
+  return {
+    course: course ? { id: course.id, name: course.name, code: course.code } : null,
+    categories: categories.map((c) => ({
+      id: c.id,
+      name: c.name,
+      weight: c.weight,
+      dropLowest: c.dropLowest,
+      order: c.order,
+    })),
+    assignments: assignments.map((a) => ({
+      ...a,
+      attemptScoring: parseAttemptScoring(a.attemptScoring),
+      dueDate: a.dueDate?.toISOString() ?? null,
+    })),
+    letterScale: parseLetterScale(course?.letterScale),
+    cells,
+  };
+}
@@ -0,0 +1,192 @@
+import { prisma } from "@/lib/prisma";
+import { extractPdfPages } from "@/lib/knowledge/pdf";
+import { chunkPages, hallidaySectionTitle, matchHallidaySection, type SourcePage } from "@/lib/knowledge/chunking";
+import { cosineSimilarity, embeddingModelKey, getEmbeddingBackend } from "@/lib/knowledge/embeddings";
+import type { Citation } from "@/lib/knowledge/citations";
+
+/** Read an uploaded file into pages of text. */
+export function extractPages(data: Buffer, mimeType: string): SourcePage[] {
+  if (mimeType === "application/pdf") {
+    return extractPdfPages(data).map((text, i) => ({ page: i + 1, text }));
+  }
+  return [{ page: null, text: data.toString("utf8") }];
+}
+
+/** What the embedding sees: the heading gives short passages their context. */
+function embeddingText(chunk: { heading: string | null; content: string }): string {
+  return chunk.heading ? `${chunk.heading}\n${chunk.content}` : chunk.content;
+}
+
+/**
+ * Chunk, embed and store a document's text, replacing any earlier chunks.
+ * Marks the document READY or FAILED; never throws.
+ */
+export async function ingestDocument(documentId: string, pages: SourcePage[]): Promise<void> {
+  try {
+    const document = await prisma.knowledgeDocument.findUniqueOrThrow({ where: { id: documentId } });
+    const chunks = chunkPages(pages);
+    if (chunks.length === 0) {
+      throw new Error("No text could be extracted. Scanned PDFs need a text layer (run OCR first).");
+    }
+
+    const backend = getEmbeddingBackend();
+    const embeddings = await backend.embed(chunks.map(embeddingText));
+
+    await prisma.$transaction([
+      prisma.knowledgeChunk.deleteMany({ where: { documentId } }),
+      prisma.knowledgeChunk.createMany({
+        data: chunks.map((chunk, i) => ({
+          documentId,
+          courseId: document.courseId,
+          ordinal: i,
+          page: chunk.page,
+          heading: chunk.heading,
+          section: matchHallidaySection(embeddingText(chunk)),
+          content: chunk.content,
+          embedding: embeddings[i],
+        })),
+      }),
+      prisma.knowledgeDocument.update({
+        where: { id: documentId },
+        data: {
+          status: "READY",
+          error: null,
+          pageCount: pages.some((p) => p.page !== null) ? pages.length : null,
+          chunkCount: chunks.length,
+          embeddingModel: embeddingModelKey(backend),
+        },
+      }),
+    ]);
+  } catch (error) {
+    console.error("[knowledge] Ingestion failed:", error);
+    await prisma.knowledgeDocument
+      .update({
+        where: { id: documentId },
+        data: { status: "FAILED", error: error instanceof Error ? error.message : "Indexing failed" },
+      })
+      .catch(() => {});
+  }
+}
+
+/** Re-embed stored chunks with the current backend, e.g. after switching `EMBEDDING_PROVIDER`. */
+export async function reembedDocument(documentId: string): Promise<void> {
+  const chunks = await prisma.knowledgeChunk.findMany({
+    where: { documentId },
+    orderBy: { ordinal: "asc" },
+    select: { id: true, heading: true, content: true },
+  });
+  const backend = getEmbeddingBackend();
+  const embeddings = await backend.embed(chunks.map(embeddingText));
+  await prisma.$transaction([
+    ...chunks.map((chunk, i) =>
+      prisma.knowledgeChunk.update({ where: { id: chunk.id }, data: { embedding: embeddings[i] } })
+    ),
+    prisma.knowledgeDocument.update({
+      where: { id: documentId },
+      data: { status: "READY", error: null, embeddingModel: embeddingModelKey(backend) },
+    }),
+  ]);
+}
+
+interface IndexedChunk {
+  documentId: string;
+  page: number | null;
+  heading: string | null;
+  section: string | null;
+  content: string;
+  embedding: number[];
+}
+
+// Embeddings of each course, reloaded when its set of ready documents changes
+const indexCache = new Map<string, { stamp: string; chunks: IndexedChunk[] }>();
+
+async function loadIndex(courseId: string, model: string): Promise<IndexedChunk[]> {
+  const documents = await prisma.knowledgeDocument.findMany({
+    where: { courseId, status: "READY", embeddingModel: model },
+    select: { id: true, updatedAt: true },
+  });
+  if (documents.length === 0) return [];
+  const stamp = `${model}|${documents.map((d) => `${d.id}@${d.updatedAt.getTime()}`).sort().join(",")}`;
+  const cached = indexCache.get(courseId);
+  if (cached?.stamp === stamp) return cached.chunks;
+
+  const chunks = await prisma.knowledgeChunk.findMany({
+    where: { documentId: { in: documents.map((d) => d.id) } },
+    select: { documentId: true, page: true, heading: true, section: true, content: true, embedding: true },
+  });
+  indexCache.set(courseId, { stamp, chunks });
+  return chunks;
+}
+
+export interface RetrievedPassage extends IndexedChunk {
+  score: number;
+}
+
+/** The course passages most similar to `query`, best first. */
+export async function searchKnowledge(courseId: string, query: string, limit = 4): Promise<RetrievedPassage[]> {
+  const backend = getEmbeddingBackend();
+  const chunks = await loadIndex(courseId, embeddingModelKey(backend));
+  if (chunks.length === 0 || !query.trim()) return [];
+
+  const [queryVector] = await backend.embed([query]);
+  return chunks
+    .map((chunk) => ({ ...chunk, score: cosineSimilarity(queryVector, chunk.embedding) }))
+    .filter((p) => p.score >= backend.minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+export interface KnowledgeContext {
+  /** Appended to the tutor's system prompt */
+  prompt: string;
+  citations: Citation[];
+}
+
+/**
+ * Passages for one chat turn, numbered for inline citation. Returns null when
+ * the course has no relevant material or retrieval fails, so chat carries on
+ * without it.
+ */
+export async function retrieveForChat(courseId: string | null, query: string): Promise<KnowledgeContext | null> {
+  if (!courseId) return null;
+  try {
+    const passages = await searchKnowledge(courseId, query);
+    if (passages.length === 0) return null;
+
+    const documents = await prisma.knowledgeDocument.findMany({
+      where: { id: { in: passages.map((p) => p.documentId) } },
+      select: { id: true, title: true, fileUrl: true },
+    });
+    const byId = new Map(documents.map((d) => [d.id, d]));
+
+    const citations: Citation[] = passages.map((p, i) => ({
+      n: i + 1,
+      documentId: p.documentId,
+      title: byId.get(p.documentId)?.title ?? "Course material",
+      page: p.page,
+      heading: p.heading,
+      section: p.section,
+      url: byId.get(p.documentId)?.fileUrl ?? null,
+    }));
+
+    const excerpts = passages.map((p, i) => {
+      const c = citations[i];
+      const where = [
+        c.page ? `p. ${c.page}` : null,
+        c.heading,
+        c.section ? `Halliday ${c.section} ${hallidaySectionTitle(c.section) ?? ""}`.trim() : null,
+      ].filter(Boolean).join(", ");
+      return `[${c.n}] ${c.title}${where ? ` (${where})` : ""}\n${p.content}`;
+    });
+
+    const prompt = `## Course materials
+The following excerpts come from this course's own notes and problem sets. Prefer their notation and approach. When you use an excerpt, cite it inline with its number in square brackets, e.g. [1]. Do not cite excerpts you did not use, and never invent citation numbers. If an excerpt is a solution to a graded problem, explain the method rather than copying it.
+
+${excerpts.join("\n\n")}`;
+
+    return { prompt, citations };
+  } catch (error) {
+    console.error("[knowledge] Retrieval failed:", error);
+    return null;
+  }
+}
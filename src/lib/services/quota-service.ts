@@ -0,0 +1,147 @@
+import { prisma } from "@/lib/prisma";
+import {
+  DEFAULT_DAILY_QUOTAS,
+  QUOTA_FEATURES,
+  QUOTA_FEATURE_LABELS,
+  QUOTA_UNITS,
+  THROTTLED_QUOTA_FACTOR,
+  formatQuotaAmount,
+  getQuotaDay,
+  pickQuotaRule,
+  type QuotaFeature,
+} from "@/lib/quota";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface QuotaStatus {
+  feature: QuotaFeature;
+  unit: "tokens" | "requests";
+  /** Today's allowance; null = unlimited */
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  allowed: boolean;
+  resetsAt: Date;
+  /** The allowance is reduced because the AI budget passed its soft limit */
+  throttled: boolean;
+  /** Set while an exam-window rule is in force */
+  examWindow: { label: string | null; endsAt: Date } | null;
+}
+
+interface QuotaOptions {
+  /** Course the request belongs to, for per-course rules */
+  courseId?: string | null;
+  /** From `checkAIBudget`; halves the allowance of AI features */
+  throttled?: boolean;
+}
+
+/** Today's standing on every feature (or just `only`), from one rules and one usage query. */
+export async function getQuotaStatuses(
+  user: { id: string; role: string },
+  options: QuotaOptions = {},
+  only: readonly QuotaFeature[] = QUOTA_FEATURES
+): Promise<QuotaStatus[]> {
+  const now = new Date();
+  const day = getQuotaDay(now);
+  const [rules, usage] = await Promise.all([
+    prisma.quotaRule.findMany({ where: { feature: { in: [...only] } } }),
+    prisma.quotaUsage.findMany({
+      where: { userId: user.id, day, feature: { in: [...only] } },
+      select: { feature: true, used: true },
+    }),
+  ]);
+  const who = { role: user.role, courseId: options.courseId ?? null };
+
+  return only.map((feature) => {
+    const rule = pickQuotaRule(rules.filter((r) => r.feature === feature), who, now);
+    const defaults = DEFAULT_DAILY_QUOTAS[feature];
+    let limit = rule ? rule.dailyLimit : user.role === "STUDENT" ? defaults.student : defaults.staff;
+    const throttled = !!options.throttled && QUOTA_UNITS[feature] === "tokens" && limit !== null;
+    if (throttled && limit !== null) limit = Math.floor(limit * THROTTLED_QUOTA_FACTOR);
+
+    const used = usage.find((u) => u.feature === feature)?.used ?? 0;
+    const remaining = limit === null ? null : Math.max(limit - used, 0);
+    return {
+      feature,
+      unit: QUOTA_UNITS[feature],
+      limit,
+      used,
+      remaining,
+      allowed: remaining === null || remaining > 0,
+      resetsAt: new Date(day.getTime() + DAY_MS),
+      throttled,
+      examWindow: rule?.startsAt && rule.endsAt ? { label: rule.label, endsAt: rule.endsAt } : null,
+    };
+  });
+}
+
+export async function getQuotaStatus(
+  user: { id: string; role: string },
+  feature: QuotaFeature,
+  options: QuotaOptions = {}
+): Promise<QuotaStatus> {
+  const [status] = await getQuotaStatuses(user, options, [feature]);
+  return status;
+}
+
+/** Add to today's usage. Never throws: metering must not break the feature. */
+export async function consumeQuota(userId: string, feature: QuotaFeature, amount: number): Promise<void> {
+  if (amount <= 0) return;
+  try {
+    const day = getQuotaDay();
+    await prisma.quotaUsage.upsert({
+      where: { userId_feature_day: { userId, feature, day } },
+      create: { userId, feature, day, used: amount },
+      update: { used: { increment: amount } },
+    });
+  } catch (error) {
+    console.error("[quota] Failed to record usage:", error);
+  }
+}
+
+/**
+ * Check and use one unit of a per-request feature. The increment is
+ * conditional on the row still being under the limit, so parallel requests
+ * cannot overshoot it.
+ */
+export async function takeQuota(
+  user: { id: string; role: string },
+  feature: QuotaFeature,
+  options: QuotaOptions = {}
+): Promise<QuotaStatus> {
+  const status = await getQuotaStatus(user, feature, options);
+  if (!status.allowed) return status;
+  if (status.limit === null) {
+    await consumeQuota(user.id, feature, 1);
+    return { ...status, used: status.used + 1 };
+  }
+
+  const day = getQuotaDay();
+  await prisma.quotaUsage.createMany({
+    data: [{ userId: user.id, feature, day, used: 0 }],
+    skipDuplicates: true,
+  });
+  const { count } = await prisma.quotaUsage.updateMany({
+    where: { userId: user.id, feature, day, used: { lt: status.limit } },
+    data: { used: { increment: 1 } },
+  });
+  const row = await prisma.quotaUsage.findUnique({
+    where: { userId_feature_day: { userId: user.id, feature, day } },
+    select: { used: true },
+  });
+  const used = row?.used ?? status.used;
+  const remaining = Math.max(status.limit - used, 0);
+  return { ...status, used, remaining, allowed: count > 0 };
+}
+
+/** Error shown when a feature's allowance is used up. */
+export function quotaExceededMessage(status: QuotaStatus): string {
+  const what = QUOTA_FEATURE_LABELS[status.feature];
+  if (status.examWindow) {
+    return status.limit === 0
+      ? `${what} is unavailable during ${status.examWindow.label || "the exam"}.`
+      : `You have used your ${what} allowance for ${status.examWindow.label || "the exam"}.`;
+  }
+  const limit = status.limit === null ? "" : ` (${formatQuotaAmount(status.limit, status.unit)})`;
+  return `You have used today's ${what} allowance${limit}. It resets at ${status.resetsAt.toISOString().slice(11, 16)} UTC.`;
+}
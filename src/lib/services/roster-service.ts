@@ -0,0 +1,331 @@
+import { createHash, randomBytes } from "crypto";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import type {
+  RosterDropEntry,
+  RosterImportEntry,
+  RosterImportPreview,
+} from "@/types/course";
+
+/** Invitation links stay valid for two weeks; re-importing with invites renews them. */
+const INVITE_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+export const MAX_ROSTER_ROWS = 2000;
+
+export interface RosterRow {
+  line: number;
+  studentId: string;
+  name: string;
+  email: string;
+}
+
+// ---------------------------------------------------------------------------
+// CSV parsing
+// ---------------------------------------------------------------------------
+
+/** Split CSV text into rows of cells, honouring quoted fields with embedded commas, quotes and newlines. */
+function parseCsvCells(text: string): { line: number; cells: string[] }[] {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some((c) => c.trim() !== "")) rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        if (ch === "\n") line++;
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += ch;
+    }
+  }
+  endRow();
+  return rows;
+}
+
+const HEADER_PATTERNS = {
+  studentId: /^(student\s*_?\s*(id|no|number)|id|學號)$/i,
+  name: /^(full\s*_?\s*)?name$|^姓名$/i,
+  email: /^e-?mail(\s*address)?$|^信箱$/i,
+};
+
+const rowSchema = z.object({
+  studentId: z.string().min(1, "Student ID is missing").max(50, "Student ID is too long"),
+  name: z.string().min(1, "Name is missing").max(200, "Name is too long"),
+  email: z.string().email("Email is invalid").max(320),
+});
+
+/**
+ * Parse a registrar roster CSV with student ID, name and email columns.
+ * A header row is optional; without one the columns are read in that order.
+ */
+export function parseRosterCsv(text: string): { rows: RosterRow[]; errors: { line: number; message: string }[] } {
+  const records = parseCsvCells(text.replace(/^\uFEFF/, ""));
+  const errors: { line: number; message: string }[] = [];
+  if (records.length === 0) return { rows: [], errors };
+
+  let columns = { studentId: 0, name: 1, email: 2 };
+  const header = records[0].cells.map((c) => c.trim());
+  if (header.some((c) => Object.values(HEADER_PATTERNS).some((re) => re.test(c)))) {
+    const find = (re: RegExp) => header.findIndex((c) => re.test(c));
+    columns = {
+      studentId: find(HEADER_PATTERNS.studentId),
+      name: find(HEADER_PATTERNS.name),
+      email: find(HEADER_PATTERNS.email),
+    };
+    const missing = Object.entries(columns).filter(([, i]) => i < 0).map(([k]) => k);
+    if (missing.length > 0) {
+      return { rows: [], errors: [{ line: 1, message: `Missing column(s): ${missing.join(", ")}` }] };
+    }
+    records.shift();
+  }
+
+  const rows: RosterRow[] = [];
+  const seenIds = new Map<string, number>();
+  const seenEmails = new Map<string, number>();
+  for (const { line, cells } of records) {
+    const parsed = rowSchema.safeParse({
+      studentId: (cells[columns.studentId] ?? "").trim(),
+      name: (cells[columns.name] ?? "").trim().replace(/\s+/g, " "),
+      email: (cells[columns.email] ?? "").trim().toLowerCase(),
+    });
+    if (!parsed.success) {
+      errors.push({ line, message: parsed.error.issues.map((i) => i.message).join("; ") });
+      continue;
+    }
+    const row = { line, ...parsed.data };
+    const dupId = seenIds.get(row.studentId);
+    const dupEmail = seenEmails.get(row.email);
+    if (dupId !== undefined) {
+      errors.push({ line, message: `Student ID ${row.studentId} already appears on line ${dupId}` });
+      continue;
+    }
+    if (dupEmail !== undefined) {
+      errors.push({ line, message: `Email ${row.email} already appears on line ${dupEmail}` });
+      continue;
+    }
+    seenIds.set(row.studentId, line);
+    seenEmails.set(row.email, line);
+    rows.push(row);
+  }
+
+  return { rows, errors };
+}
+
+// ---------------------------------------------------------------------------
+// Diffing against accounts and the course roster
+// ---------------------------------------------------------------------------
+
+/**
+ * Match roster rows to accounts (by student ID, then by email for accounts
+ * without one) and to the course's enrollments. Only student accounts are
+ * matched; a row that points at a staff account is reported as an error.
+ * Nothing is written.
+ */
+export async function previewRosterImport(courseId: string, rows: RosterRow[]): Promise<RosterImportPreview> {
+  const [byStudentId, byEmail, enrollments] = await Promise.all([
+    prisma.user.findMany({
+      where: { studentId: { in: rows.map((r) => r.studentId) } },
+      select: { id: true, name: true, email: true, studentId: true, role: true, isDeleted: true },
+    }),
+    prisma.user.findMany({
+      where: { email: { in: rows.map((r) => r.email), mode: "insensitive" } },
+      select: { id: true, name: true, email: true, studentId: true, role: true, isDeleted: true },
+    }),
+    prisma.enrollment.findMany({
+      where: { courseId },
+      include: { user: { select: { id: true, name: true, email: true, studentId: true, isDeleted: true } } },
+    }),
+  ]);
+
+  const entries: RosterImportEntry[] = [];
+  const errors: { line: number; message: string }[] = [];
+  const listedUserIds = new Set<string>();
+
+  for (const row of rows) {
+    const emailOwner = byEmail.find((u) => u.email.toLowerCase() === row.email);
+    let user = byStudentId.find((u) => u.studentId === row.studentId);
+    if (!user && emailOwner) {
+      if (emailOwner.role !== "STUDENT") {
+        errors.push({ line: row.line, message: `${row.email} belongs to a ${emailOwner.role.toLowerCase()} account` });
+        continue;
+      }
+      if (emailOwner.studentId) {
+        errors.push({ line: row.line, message: `${row.email} belongs to student ID ${emailOwner.studentId}` });
+        continue;
+      }
+      user = emailOwner;
+    }
+    if (user && emailOwner && emailOwner.id !== user.id) {
+      errors.push({ line: row.line, message: `${row.email} is already used by another account` });
+      continue;
+    }
+
+    if (!user) {
+      entries.push({ ...row, kind: "new", userId: null, changes: [] });
+      continue;
+    }
+    if (user.role !== "STUDENT") {
+      errors.push({ line: row.line, message: `Student ID ${row.studentId} belongs to a ${user.role.toLowerCase()} account` });
+      continue;
+    }
+
+    const enrollment = enrollments.find((e) => e.userId === user.id);
+    if (enrollment && enrollment.role !== "STUDENT") {
+      errors.push({ line: row.line, message: `${row.studentId} is ${enrollment.role === "TA" ? "a TA" : "a professor"} in this course` });
+      continue;
+    }
+
+    const changes: RosterImportEntry["changes"] = [];
+    if (user.studentId !== row.studentId) changes.push({ field: "studentId", from: user.studentId, to: row.studentId });
+    if (user.name !== row.name) changes.push({ field: "name", from: user.name, to: row.name });
+    if (user.email.toLowerCase() !== row.email) changes.push({ field: "email", from: user.email, to: row.email });
+
+    const active = enrollment && !enrollment.droppedAt && !user.isDeleted;
+    entries.push({
+      ...row,
+      kind: !active ? "linked" : changes.length > 0 ? "changed" : "unchanged",
+      userId: user.id,
+      changes,
+    });
+    listedUserIds.add(user.id);
+  }
+
+  const dropped: RosterDropEntry[] = enrollments
+    .filter((e) => e.role === "STUDENT" && !e.droppedAt && !listedUserIds.has(e.userId))
+    .map((e) => ({
+      enrollmentId: e.id,
+      userId: e.userId,
+      studentId: e.user.studentId,
+      name: e.user.name,
+      email: e.user.email,
+    }));
+
+  return { entries, dropped, errors };
+}
+
+// ---------------------------------------------------------------------------
+// Applying
+// ---------------------------------------------------------------------------
+
+export function hashInviteToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export interface AppliedRosterImport {
+  /** Accounts created by this import */
+  createdUserIds: string[];
+  /** Accounts that were (re-)enrolled by this import */
+  enrolledUserIds: string[];
+}
+
+/**
+ * Write a previewed import: create missing accounts, update names and emails,
+ * (re-)enroll listed students and soft-drop the rest. A drop only ends the
+ * enrollment; the account stays as it is. Applying the same CSV twice leaves
+ * the second run with nothing to do.
+ */
+export async function applyRosterImport(courseId: string, preview: RosterImportPreview): Promise<AppliedRosterImport> {
+  const now = new Date();
+  const createdUserIds: string[] = [];
+  const enrolledUserIds: string[] = [];
+
+  await prisma.$transaction(async (tx) => {
+    for (const entry of preview.entries) {
+      if (entry.kind === "unchanged") continue;
+
+      let userId = entry.userId;
+      if (!userId) {
+        const user = await tx.user.create({
+          data: {
+            name: entry.name,
+            email: entry.email,
+            studentId: entry.studentId,
+            isVerified: true,
+          },
+        });
+        userId = user.id;
+        createdUserIds.push(userId);
+      } else {
+        await tx.user.update({
+          where: { id: userId },
+          data: {
+            name: entry.name,
+            email: entry.email,
+            studentId: entry.studentId,
+            isVerified: true,
+            ...(entry.kind === "linked" && { isDeleted: false, deletedAt: null }),
+          },
+        });
+      }
+
+      if (entry.kind === "new" || entry.kind === "linked") {
+        await tx.enrollment.upsert({
+          where: { courseId_userId: { courseId, userId } },
+          create: { courseId, userId, role: "STUDENT" },
+          update: { droppedAt: null },
+        });
+        enrolledUserIds.push(userId);
+      }
+    }
+
+    if (preview.dropped.length > 0) {
+      await tx.enrollment.updateMany({
+        where: { id: { in: preview.dropped.map((d) => d.enrollmentId) } },
+        data: { droppedAt: now },
+      });
+    }
+  });
+
+  return { createdUserIds, enrolledUserIds };
+}
+
+/**
+ * Issue fresh invitation tokens for accounts that have never signed in
+ * (no password and no linked OAuth account). Returns the raw token per user
+ * ID; only the hash is stored.
+ */
+export async function issueInviteTokens(userIds: string[]): Promise<Map<string, string>> {
+  const pending = await prisma.user.findMany({
+    where: { id: { in: userIds }, passwordHash: null, accounts: { none: {} } },
+    select: { id: true },
+  });
+
+  const tokens = new Map<string, string>();
+  const expiresAt = new Date(Date.now() + INVITE_TTL_MS);
+  for (const { id } of pending) {
+    const token = randomBytes(32).toString("hex");
+    await prisma.user.update({
+      where: { id },
+      data: { inviteTokenHash: hashInviteToken(token), inviteExpiresAt: expiresAt },
+    });
+    tokens.set(id, token);
+  }
+  return tokens;
+}
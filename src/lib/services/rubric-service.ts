@@ -0,0 +1,98 @@
+import { prisma } from "@/lib/prisma";
+import { computeRubricScore, parseRubricScoring } from "@/lib/grading/rubric";
+import { applyLatePenalty } from "@/lib/grading/late-policy";
+
+export interface RecalculatedScores {
+  answers: { id: string; submissionId: string; score: number }[];
+  submissions: { id: string; totalScore: number | null }[];
+}
+
+/**
+ * Replace the rubric items applied to an answer and re-derive its score.
+ * Item IDs that do not belong to the answer's question are ignored. Clearing
+ * every item falls back to the rubric's base score, as `recalculateRubricScores`
+ * does; an answer that never had items keeps the score it was given.
+ * Returns the new score.
+ */
+export async function applyRubricItems(
+  answerId: string,
+  rubricIds: string[],
+  appliedById: string
+): Promise<number> {
+  const answer = await prisma.submissionAnswer.findUniqueOrThrow({
+    where: { id: answerId },
+    include: { question: { include: { rubrics: true } }, _count: { select: { rubricApplications: true } } },
+  });
+  const items = answer.question.rubrics.filter((r) => rubricIds.includes(r.id));
+
+  await prisma.$transaction([
+    prisma.rubricApplication.deleteMany({ where: { submissionAnswerId: answerId } }),
+    prisma.rubricApplication.createMany({
+      data: items.map((r) => ({ rubricId: r.id, submissionAnswerId: answerId, appliedById })),
+    }),
+  ]);
+
+  if (items.length === 0 && answer._count.rubricApplications === 0) return answer.score ?? 0;
+
+  const score = computeRubricScore(
+    answer.question.points,
+    parseRubricScoring(answer.question.rubricScoring),
+    items.map((r) => r.points)
+  );
+  await prisma.submissionAnswer.update({ where: { id: answerId }, data: { score } });
+  return score;
+}
+
+/**
+ * Re-derive the scores of answers graded with a question's rubric, e.g. after
+ * a rubric item's points changed or the item was deleted. Submission totals are
+ * refreshed for submissions that already have one. Pass `answerIds` to limit the
+ * recalculation to answers captured before a deletion.
+ */
+export async function recalculateRubricScores(
+  questionId: string,
+  answerIds?: string[]
+): Promise<RecalculatedScores> {
+  const question = await prisma.assignmentQuestion.findUniqueOrThrow({
+    where: { id: questionId },
+    select: { points: true, rubricScoring: true },
+  });
+  const mode = parseRubricScoring(question.rubricScoring);
+
+  const answers = await prisma.submissionAnswer.findMany({
+    where: answerIds
+      ? { id: { in: answerIds } }
+      : { questionId, rubricApplications: { some: {} } },
+    include: { rubricApplications: { include: { rubric: { select: { points: true } } } } },
+  });
+
+  const updated: RecalculatedScores["answers"] = [];
+  for (const answer of answers) {
+    const score = computeRubricScore(
+      question.points,
+      mode,
+      answer.rubricApplications.map((a) => a.rubric.points)
+    );
+    if (score !== answer.score) {
+      await prisma.submissionAnswer.update({ where: { id: answer.id }, data: { score } });
+    }
+    updated.push({ id: answer.id, submissionId: answer.submissionId, score });
+  }
+
+  const submissionIds = Array.from(new Set(updated.map((a) => a.submissionId)));
+  const submissions = await prisma.submission.findMany({
+    where: { id: { in: submissionIds }, totalScore: { not: null } },
+    include: { answers: { select: { score: true } } },
+  });
+  const totals: RecalculatedScores["submissions"] = [];
+  for (const submission of submissions) {
+    const totalScore = applyLatePenalty(
+      submission.answers.reduce((sum, a) => sum + (a.score || 0), 0),
+      submission.latePenalty
+    );
+    await prisma.submission.update({ where: { id: submission.id }, data: { totalScore } });
+    totals.push({ id: submission.id, totalScore });
+  }
+
+  return { answers: updated, submissions: totals };
+}
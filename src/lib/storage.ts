@@ -0,0 +1,63 @@
+import { put } from "@vercel/blob";
+
+/**
+ * Store an uploaded file and return its public URL: Vercel Blob in production,
+ * `public/uploads/` in dev.
+ */
+export async function storeFile(file: File): Promise<string> {
+  const uniqueName = `${Date.now()}-${file.name.replace(/[^a-zA-Z0-9.-]/g, "_")}`;
+
+  if (process.env.BLOB_READ_WRITE_TOKEN) {
+    const blob = await put(uniqueName, file, { access: "public" });
+    return blob.url;
+  }
+
+  const fs = await import("fs/promises");
+  const path = await import("path");
+  const uploadsDir = path.join(process.cwd(), "public", "uploads");
+  await fs.mkdir(uploadsDir, { recursive: true });
+  const buffer = Buffer.from(await file.arrayBuffer());
+  await fs.writeFile(path.join(uploadsDir, uniqueName), buffer);
+  return `/uploads/${uniqueName}`;
+}
+
+const BLOB_HOST = /^[a-z0-9-]+\.public\.blob\.vercel-storage\.com$/i;
+const IMAGE_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+};
+
+/** Whether `url` is a file `storeFile` returned: a Vercel Blob URL or a local `/uploads/` path. */
+export function isStoredFileUrl(url: string): boolean {
+  if (/^\/uploads\/[^/\\]+$/.test(url)) return !url.includes("..");
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === "https:" && BLOB_HOST.test(parsed.hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A stored image as a URL an AI vendor can fetch: Blob URLs as they are,
+ * local uploads read into a data URL. Null when the file is missing or not
+ * an image.
+ */
+export async function storedImageForVendor(url: string): Promise<string | null> {
+  if (!isStoredFileUrl(url)) return null;
+  if (!url.startsWith("/uploads/")) return url;
+
+  const type = IMAGE_TYPES[url.split(".").pop()?.toLowerCase() ?? ""];
+  if (!type) return null;
+  const fs = await import("fs/promises");
+  const path = await import("path");
+  try {
+    const data = await fs.readFile(path.join(process.cwd(), "public", url));
+    return `data:${type};base64,${data.toString("base64")}`;
+  } catch {
+    return null;
+  }
+}
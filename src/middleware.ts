@@ -60,7 +60,11 @@ export const config = {
     "/problems/:path*",
     "/grading/:path*",
     "/simulations/:path*",
+    "/materials/:path*",
     "/admin/:path*",
+    "/print/:path*",
+    "/share/:path*",
+    "/inbox/:path*",
     "/api/((?!auth|cron).*)",
   ],
 };
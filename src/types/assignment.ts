@@ -5,18 +5,30 @@
  * NOT raw Prisma model types (which use Decimal, Date, etc.).
  */
 
+import type { NumericGradingConfig } from "@/lib/grading/numeric";
+import type { McGradingConfig, McOption } from "@/lib/grading/multiple-choice";
+import type { ParameterValues, QuestionParameter } from "@/lib/grading/parameters";
+import type { LatePolicy } from "@/lib/grading/late-policy";
+import type { AttemptScoring } from "@/lib/grading/attempts";
+
 /** A single question on an assignment, as returned by the API. */
 export interface AssignmentQuestion {
   id: string;
   questionText: string;
   questionType: "MC" | "NUMERIC" | "FREE_RESPONSE";
-  options: string[] | null;
+  options: Array<string | McOption> | null;
   correctAnswer: string | null;
   points: number;
   order: number;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   diagram?: { type: "svg" | "mermaid"; content: string } | any;
   imageUrl?: string | null;
+  numericConfig?: NumericGradingConfig | null;
+  mcConfig?: McGradingConfig | null;
+  parameters?: QuestionParameter[] | null;
+  answerFormula?: string | null;
+  /** The viewing student's instance values (students only; staff receive the template) */
+  parameterValues?: ParameterValues | null;
 }
 
 /** Assignment as shown in the list view (assignments page). */
@@ -33,11 +45,17 @@ export interface AssignmentListItem {
   createdAt: string;
   createdBy: { name: string | null };
   _count: { submissions: number; questions: number };
-  lockAfterSubmit: boolean;
+  /** null = unlimited; 1 = locked after the first submission */
+  maxAttempts: number | null;
+  attemptScoring: AttemptScoring;
+  /** Timed quiz length in minutes; null = untimed */
+  timeLimitMinutes: number | null;
   /** Student-specific fields (populated when role is STUDENT) */
+  /** Combined across attempts under `attemptScoring` */
   myScore: number | null;
   mySubmitted: boolean;
   myGraded: boolean;
+  myAttemptCount: number;
   myProgress?: { answeredCount: number; totalQuestions: number; status: string };
   /** Staff-specific fields */
   ungradedCount?: number;
@@ -53,7 +71,18 @@ export interface AssignmentDetail {
   type: "QUIZ" | "FILE_UPLOAD";
   totalPoints: number;
   published: boolean;
-  lockAfterSubmit: boolean;
+  /** null = unlimited; 1 = locked after the first submission */
+  maxAttempts: number | null;
+  attemptScoring: AttemptScoring;
+  /** Timed quiz length in minutes; null = untimed */
+  timeLimitMinutes: number | null;
+  latePolicy: LatePolicy | null;
+  /** Students may open a tutor chat from each question */
+  allowAskAI: boolean;
+  /** Students only: their own due date when staff granted an extension */
+  extendedDueDate?: string | null;
+  /** Students only: extra minutes staff granted on a timed quiz */
+  extraMinutes?: number;
   pdfUrl: string | null;
   scheduledPublishAt: string | null;
   notifyOnPublish: boolean;
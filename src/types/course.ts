@@ -0,0 +1,81 @@
+/**
+ * Course and enrollment types shared by the course switcher and course admin pages.
+ */
+
+export type CourseRole = "STUDENT" | "TA" | "PROFESSOR";
+
+/** A course the current user can open, with their role in it. */
+export interface CourseSummary {
+  id: string;
+  name: string;
+  code: string | null;
+  semester: string;
+  isArchived: boolean;
+  /** The user's enrollment role; admins get PROFESSOR access to every course */
+  role: CourseRole;
+}
+
+/** A course as listed on the course management page. */
+export interface CourseListItem extends CourseSummary {
+  description: string | null;
+  createdAt: string;
+  studentCount: number;
+  staffCount: number;
+  assignmentCount: number;
+}
+
+/** One member of a course roster. */
+export interface EnrollmentItem {
+  id: string;
+  role: CourseRole;
+  /** Set when a roster import dropped the student */
+  droppedAt: string | null;
+  createdAt: string;
+  user: {
+    id: string;
+    name: string | null;
+    email: string;
+    studentId: string | null;
+    role: "STUDENT" | "TA" | "PROFESSOR" | "ADMIN";
+  };
+}
+
+/** What a roster import does with one CSV row. */
+export type RosterEntryKind = "new" | "linked" | "changed" | "unchanged";
+
+/** One row of a roster CSV, matched against existing accounts and the course roster. */
+export interface RosterImportEntry {
+  /** 1-based line in the CSV, for error messages */
+  line: number;
+  studentId: string;
+  name: string;
+  email: string;
+  /**
+   * new: no account yet, one will be created;
+   * linked: existing account that is not (or no longer) enrolled;
+   * changed: enrolled, but the name or email on file differs
+   */
+  kind: RosterEntryKind;
+  userId: string | null;
+  changes: { field: "name" | "email" | "studentId"; from: string | null; to: string }[];
+}
+
+/** An enrolled student the CSV no longer lists. */
+export interface RosterDropEntry {
+  enrollmentId: string;
+  userId: string;
+  studentId: string | null;
+  name: string | null;
+  email: string;
+}
+
+export interface RosterImportPreview {
+  entries: RosterImportEntry[];
+  dropped: RosterDropEntry[];
+  errors: { line: number; message: string }[];
+}
+
+export interface RosterImportResult extends RosterImportPreview {
+  invitesSent: number;
+  invitesFailed: number;
+}
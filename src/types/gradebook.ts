@@ -0,0 +1,102 @@
+/**
+ * Gradebook types shared by the grades API, the student grade view and the
+ * staff gradebook matrix.
+ */
+
+import type { AttemptScoring } from "@/lib/grading/attempts";
+
+/** Lowest course percentage that earns a letter grade. */
+export interface LetterGradeThreshold {
+  letter: string;
+  min: number;
+}
+
+export interface GradebookCategory {
+  id: string;
+  name: string;
+  /** Percent of the course grade */
+  weight: number;
+  /** Lowest-scoring assignments to ignore in this category */
+  dropLowest: number;
+  order: number;
+}
+
+export interface GradebookAssignment {
+  id: string;
+  title: string;
+  type: "QUIZ" | "FILE_UPLOAD";
+  totalPoints: number;
+  dueDate: string | null;
+  categoryId: string | null;
+  /** How a student's attempts combine into their score */
+  attemptScoring: AttemptScoring;
+}
+
+/**
+ * graded: has a score (from grading or an override); pending: submitted but not
+ * graded yet; missing: past due without a submission (counts as 0);
+ * upcoming: not due yet; excused: left out of the student's grade.
+ */
+export type GradebookCellStatus = "graded" | "pending" | "missing" | "upcoming" | "excused";
+
+/** One student's standing on one assignment. */
+export interface GradebookCell {
+  assignmentId: string;
+  /** The score that counts: the override if there is one, else the graded submission score */
+  score: number | null;
+  status: GradebookCellStatus;
+  submissionId: string | null;
+  /** Graded submission score, shown next to an override */
+  submissionScore: number | null;
+  overridden: boolean;
+  excused: boolean;
+  note: string | null;
+}
+
+export interface CategoryGrade {
+  /** null for the implicit "Uncategorized" / "All assignments" group */
+  categoryId: string | null;
+  name: string;
+  weight: number;
+  earned: number;
+  possible: number;
+  /** null until something in the category counts */
+  percent: number | null;
+  droppedAssignmentIds: string[];
+}
+
+export interface CourseGrade {
+  percent: number | null;
+  letter: string | null;
+  categories: CategoryGrade[];
+}
+
+interface GradebookBase {
+  course: { id: string; name: string; code: string | null } | null;
+  categories: GradebookCategory[];
+  assignments: GradebookAssignment[];
+  letterScale: LetterGradeThreshold[];
+}
+
+/** A student's own grades (GET /api/grades for students). */
+export interface StudentGradebook extends GradebookBase {
+  view: "student";
+  cells: GradebookCell[];
+  grade: CourseGrade;
+}
+
+export interface GradebookStudentRow {
+  user: { id: string; name: string | null; email: string; studentId: string | null };
+  cells: GradebookCell[];
+  grade: CourseGrade;
+}
+
+/** The student-by-assignment matrix (GET /api/grades for course staff). */
+export interface StaffGradebook extends GradebookBase {
+  view: "staff";
+  students: GradebookStudentRow[];
+  /** Categories and the letter scale are managed by the course's professors */
+  canEditSettings: boolean;
+}
+
+export type Gradebook = StudentGradebook | StaffGradebook;
@@ -1,3 +1,5 @@
 export * from "./user";
 export * from "./assignment";
 export * from "./submission";
+export * from "./course";
+export * from "./gradebook";
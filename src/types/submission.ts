@@ -5,6 +5,9 @@
  * NOT raw Prisma model types.
  */
 
+import type { AutoGradeDetail } from "@/lib/grading/auto-grade";
+import type { ParameterValues } from "@/lib/grading/parameters";
+
 /** A single answer within a submission. */
 export interface SubmissionAnswer {
   id: string;
@@ -15,6 +18,11 @@ export interface SubmissionAnswer {
   feedback: string | null;
   feedbackImageUrls?: string[];
   autoGraded: boolean;
+  autoGradeDetail?: AutoGradeDetail | null;
+  /** The student's instance of a parameterized question */
+  parameterValues?: ParameterValues | null;
+  /** Rubric items the grader applied to this answer */
+  rubricApplications?: { rubric: { id: string; description: string; points: number } }[];
 }
 
 /** An existing submission as returned for the student submission view. */
@@ -23,11 +31,31 @@ export interface ExistingSubmission {
   fileUrl: string | null;
   submittedAt: string;
   totalScore: number | null;
+  gradedAt?: string | null;
+  /** Minutes past the student's due date when submitted; 0 = on time */
+  lateMinutes?: number;
+  /** Percent deducted from the score for lateness */
+  latePenalty?: number;
+  /** 1-based attempt number */
+  attempt?: number;
+  /** Timed quiz: seconds submitted past the time window; 0 = in time */
+  overtimeSeconds?: number;
   isDraft?: boolean;
   overallFeedback?: string | null;
   answers: SubmissionAnswer[];
 }
 
+/** One final attempt in a student's history, as listed by GET /api/assignments/[id]. */
+export interface AttemptSummary {
+  id: string;
+  attempt: number;
+  submittedAt: string;
+  totalScore: number | null;
+  gradedAt: string | null;
+  lateMinutes: number;
+  latePenalty: number;
+}
+
 /** A message within a grade appeal thread. */
 export interface AppealMessageData {
   id: string;